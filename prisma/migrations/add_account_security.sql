@@ -0,0 +1,34 @@
+-- Account security: email verification, TOTP two-factor authentication and
+-- per-device sessions backing refresh tokens
+
+ALTER TABLE "users"
+  ADD COLUMN IF NOT EXISTS "email_verified_at" TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS "two_factor_enabled" BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS "two_factor_secret" VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS "two_factor_recovery_codes" TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS "two_factor_last_used_step" INTEGER;
+
+CREATE TABLE IF NOT EXISTS "user_sessions" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "refresh_token_hash" VARCHAR(64) NOT NULL,
+  "user_agent" VARCHAR(500),
+  "ip_address" VARCHAR(45),
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "last_used_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "expires_at" TIMESTAMPTZ NOT NULL,
+  "revoked_at" TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS "user_sessions_user_id_idx" ON "user_sessions"("user_id");
+
+-- Sign-ins waiting for their second factor; each allows a few codes
+CREATE TABLE IF NOT EXISTS "two_factor_challenges" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "expires_at" TIMESTAMPTZ NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "two_factor_challenges_user_id_idx" ON "two_factor_challenges"("user_id");
@@ -0,0 +1,59 @@
+-- Persist opportunity alerts, their matches and deadline reminders
+
+CREATE TABLE IF NOT EXISTS "opportunity_alerts" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "name" VARCHAR(100) NOT NULL,
+  "description" VARCHAR(500),
+  "criteria" JSONB NOT NULL,
+  "channels" TEXT[] NOT NULL DEFAULT '{}',
+  "frequency" "NotificationFrequency" NOT NULL DEFAULT 'immediate',
+  "is_active" BOOLEAN NOT NULL DEFAULT true,
+  "match_count" INTEGER NOT NULL DEFAULT 0,
+  "last_triggered" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_opportunity_alerts_user_id" ON "opportunity_alerts"("user_id");
+CREATE INDEX IF NOT EXISTS "idx_opportunity_alerts_active_frequency" ON "opportunity_alerts"("is_active", "frequency");
+
+CREATE TABLE IF NOT EXISTS "opportunity_matches" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "alert_id" UUID NOT NULL REFERENCES "opportunity_alerts"("id") ON DELETE CASCADE,
+  "opportunity_id" VARCHAR(100) NOT NULL,
+  "match_score" INTEGER NOT NULL,
+  "matched_criteria" TEXT[] NOT NULL DEFAULT '{}',
+  "opportunity" JSONB NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("alert_id", "opportunity_id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_opportunity_matches_alert_created" ON "opportunity_matches"("alert_id", "created_at");
+
+CREATE TABLE IF NOT EXISTS "deadline_reminders" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "opportunity_id" VARCHAR(100) NOT NULL,
+  "opportunity_title" VARCHAR(300) NOT NULL,
+  "opportunity_type" "OpportunityType" NOT NULL,
+  "deadline" TIMESTAMPTZ NOT NULL,
+  "reminder_times" TIMESTAMPTZ[] NOT NULL DEFAULT '{}',
+  "channels" TEXT[] NOT NULL DEFAULT '{}',
+  "sent" BOOLEAN[] NOT NULL DEFAULT '{}',
+  "is_active" BOOLEAN NOT NULL DEFAULT true,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_deadline_reminders_user_deadline" ON "deadline_reminders"("user_id", "deadline");
+CREATE INDEX IF NOT EXISTS "idx_deadline_reminders_deadline" ON "deadline_reminders"("deadline");
+
+CREATE TABLE IF NOT EXISTS "reminder_schedules" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "name" VARCHAR(100) NOT NULL,
+  "description" TEXT NOT NULL,
+  "intervals" JSONB NOT NULL,
+  "is_active" BOOLEAN NOT NULL DEFAULT true,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,54 @@
+-- Application tracker: per-user pipeline of opportunities applied to
+
+CREATE TYPE "ApplicationStatus" AS ENUM (
+  'interested',
+  'applied',
+  'shortlisted',
+  'interview',
+  'offer',
+  'rejected',
+  'withdrawn'
+);
+
+ALTER TYPE "ActivityType" ADD VALUE IF NOT EXISTS 'tracked_application';
+ALTER TYPE "ActivityType" ADD VALUE IF NOT EXISTS 'updated_application';
+
+CREATE TABLE IF NOT EXISTS "applications" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "opportunity_id" UUID NOT NULL REFERENCES "opportunities"("id") ON DELETE CASCADE,
+  "status" "ApplicationStatus" NOT NULL DEFAULT 'interested',
+  "notes" TEXT,
+  "applied_at" TIMESTAMPTZ,
+  "next_action" VARCHAR(200),
+  "next_action_at" TIMESTAMPTZ,
+  "position" INTEGER NOT NULL DEFAULT 0,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("user_id", "opportunity_id")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_applications_user_status" ON "applications"("user_id", "status");
+CREATE INDEX IF NOT EXISTS "idx_applications_next_action_at" ON "applications"("next_action_at");
+
+CREATE TABLE IF NOT EXISTS "application_documents" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "application_id" UUID NOT NULL REFERENCES "applications"("id") ON DELETE CASCADE,
+  "name" VARCHAR(200) NOT NULL,
+  "url" VARCHAR(1000) NOT NULL,
+  "kind" VARCHAR(50) NOT NULL DEFAULT 'other',
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_application_documents_application_id" ON "application_documents"("application_id");
+
+CREATE TABLE IF NOT EXISTS "application_status_history" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "application_id" UUID NOT NULL REFERENCES "applications"("id") ON DELETE CASCADE,
+  "from_status" "ApplicationStatus",
+  "to_status" "ApplicationStatus" NOT NULL,
+  "note" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_application_status_history_application" ON "application_status_history"("application_id", "created_at");
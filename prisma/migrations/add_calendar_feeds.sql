@@ -0,0 +1,21 @@
+-- Calendar integration: per-user iCalendar subscription feeds and
+-- registrations for virtual presentations, which the feeds include. Feed URLs
+-- carry a secret token; only its SHA-256 hash is stored.
+
+CREATE TABLE IF NOT EXISTS "calendar_feeds" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL UNIQUE REFERENCES "users"("id") ON DELETE CASCADE,
+  "token_hash" VARCHAR(64) NOT NULL UNIQUE,
+  "last_accessed_at" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS "virtual_presentation_registrations" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "presentation_id" UUID NOT NULL REFERENCES "virtual_presentations"("id") ON DELETE CASCADE,
+  "user_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("presentation_id", "user_id")
+);
+
+CREATE INDEX IF NOT EXISTS "virtual_presentation_registrations_user_id_idx" ON "virtual_presentation_registrations"("user_id");
@@ -0,0 +1,56 @@
+-- Content moderation: user blocks, reports on any content type, moderator
+-- hiding of direct messages and account bans.
+
+ALTER TYPE "ContentType" ADD VALUE IF NOT EXISTS 'discussion';
+ALTER TYPE "ContentType" ADD VALUE IF NOT EXISTS 'comment';
+ALTER TYPE "ContentType" ADD VALUE IF NOT EXISTS 'direct_message';
+ALTER TYPE "ContentType" ADD VALUE IF NOT EXISTS 'team';
+ALTER TYPE "ContentType" ADD VALUE IF NOT EXISTS 'user';
+
+CREATE TYPE "ReportReason" AS ENUM (
+  'spam',
+  'harassment',
+  'hate_speech',
+  'inappropriate',
+  'misinformation',
+  'other'
+);
+
+CREATE TYPE "ReportStatus" AS ENUM ('pending', 'resolved', 'dismissed');
+
+CREATE TYPE "ModerationAction" AS ENUM ('hide', 'restore', 'ban', 'dismiss');
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "banned_at" TIMESTAMPTZ;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "ban_reason" VARCHAR(500);
+
+ALTER TABLE "direct_messages" ADD COLUMN IF NOT EXISTS "hidden_at" TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS "user_blocks" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "blocker_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "blocked_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("blocker_id", "blocked_id")
+);
+
+CREATE INDEX IF NOT EXISTS "user_blocks_blocked_id_idx" ON "user_blocks"("blocked_id");
+
+CREATE TABLE IF NOT EXISTS "content_reports" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "content_type" "ContentType" NOT NULL,
+  "content_id" UUID NOT NULL,
+  "author_id" UUID REFERENCES "users"("id") ON DELETE SET NULL,
+  "reporter_id" UUID REFERENCES "users"("id") ON DELETE SET NULL,
+  "reason" "ReportReason" NOT NULL,
+  "details" VARCHAR(1000),
+  "matched_rules" TEXT[] NOT NULL DEFAULT '{}',
+  "status" "ReportStatus" NOT NULL DEFAULT 'pending',
+  "action" "ModerationAction",
+  "resolved_by_id" UUID REFERENCES "users"("id") ON DELETE SET NULL,
+  "resolved_at" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("reporter_id", "content_type", "content_id")
+);
+
+CREATE INDEX IF NOT EXISTS "content_reports_status_created_at_idx" ON "content_reports"("status", "created_at");
+CREATE INDEX IF NOT EXISTS "content_reports_content_type_content_id_idx" ON "content_reports"("content_type", "content_id");
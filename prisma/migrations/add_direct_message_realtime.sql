@@ -0,0 +1,21 @@
+-- Real-time direct messaging: read receipt times, edits, soft deletes and file
+-- attachments. Attachment files are stored under uploads/<uploader_id>/.
+
+ALTER TABLE "direct_messages" ADD COLUMN IF NOT EXISTS "read_at" TIMESTAMPTZ;
+ALTER TABLE "direct_messages" ADD COLUMN IF NOT EXISTS "edited_at" TIMESTAMPTZ;
+ALTER TABLE "direct_messages" ADD COLUMN IF NOT EXISTS "deleted_at" TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS "direct_messages_receiver_id_is_read_idx" ON "direct_messages"("receiver_id", "is_read");
+
+CREATE TABLE IF NOT EXISTS "direct_message_attachments" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "message_id" UUID REFERENCES "direct_messages"("id") ON DELETE CASCADE,
+  "uploader_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "file_name" VARCHAR(255) NOT NULL,
+  "mime_type" VARCHAR(100) NOT NULL,
+  "size" INTEGER NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "direct_message_attachments_message_id_idx" ON "direct_message_attachments"("message_id");
+CREATE INDEX IF NOT EXISTS "direct_message_attachments_uploader_id_idx" ON "direct_message_attachments"("uploader_id");
@@ -0,0 +1,32 @@
+-- Federated login: Google, GitHub and LinkedIn identities linked to users, and
+-- the pending authorization requests their callbacks complete. Users who only
+-- sign in through a provider have no password.
+
+ALTER TABLE "users"
+  ALTER COLUMN "password_hash" DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "user_identities" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "provider" VARCHAR(20) NOT NULL,
+  "provider_user_id" VARCHAR(255) NOT NULL,
+  "email" VARCHAR(255),
+  "display_name" VARCHAR(255),
+  "last_used_at" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("provider", "provider_user_id"),
+  UNIQUE ("user_id", "provider")
+);
+
+CREATE TABLE IF NOT EXISTS "federated_login_states" (
+  "state_hash" VARCHAR(64) PRIMARY KEY,
+  "provider" VARCHAR(20) NOT NULL,
+  "code_verifier" VARCHAR(128) NOT NULL,
+  "link_user_id" UUID REFERENCES "users"("id") ON DELETE CASCADE,
+  "return_to" VARCHAR(500),
+  "expires_at" TIMESTAMPTZ NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "federated_login_states_expires_at_idx" ON "federated_login_states"("expires_at");
@@ -0,0 +1,47 @@
+-- Durable job queue backing the scheduler, scraping jobs, notification
+-- retries and deadline reminders
+
+CREATE TABLE IF NOT EXISTS "jobs" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "queue" VARCHAR(100) NOT NULL DEFAULT 'default',
+  "name" VARCHAR(100) NOT NULL,
+  "subject" VARCHAR(200),
+  "payload" JSONB NOT NULL DEFAULT '{}',
+  "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+  "dedupe_key" VARCHAR(300) UNIQUE,
+  "run_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "max_attempts" INTEGER NOT NULL DEFAULT 3,
+  "backoff_ms" INTEGER NOT NULL DEFAULT 30000,
+  "locked_by" VARCHAR(200),
+  "locked_until" TIMESTAMPTZ,
+  "last_error" TEXT,
+  "result" JSONB,
+  "started_at" TIMESTAMPTZ,
+  "completed_at" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_jobs_status_run_at" ON "jobs"("status", "run_at");
+CREATE INDEX IF NOT EXISTS "idx_jobs_name_subject" ON "jobs"("name", "subject");
+
+CREATE TABLE IF NOT EXISTS "job_events" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "job_id" UUID NOT NULL REFERENCES "jobs"("id") ON DELETE CASCADE,
+  "type" VARCHAR(50) NOT NULL,
+  "attempt" INTEGER NOT NULL DEFAULT 0,
+  "worker_id" VARCHAR(200),
+  "message" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_job_events_job_id" ON "job_events"("job_id");
+
+CREATE TABLE IF NOT EXISTS "scheduled_tasks" (
+  "id" VARCHAR(100) PRIMARY KEY,
+  "schedule" VARCHAR(200) NOT NULL,
+  "timezone" VARCHAR(100),
+  "is_active" BOOLEAN NOT NULL DEFAULT true,
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,20 @@
+-- OAuth: public clients, PKCE and nonces on authorization codes, and per-user consent grants
+
+ALTER TABLE "oauth_clients"
+  ALTER COLUMN "client_secret_hash" DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS "is_public" BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE "oauth_authorization_codes"
+  ADD COLUMN IF NOT EXISTS "code_challenge" VARCHAR(128),
+  ADD COLUMN IF NOT EXISTS "code_challenge_method" VARCHAR(10),
+  ADD COLUMN IF NOT EXISTS "nonce" VARCHAR(255);
+
+CREATE TABLE IF NOT EXISTS "oauth_consents" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "client_id" VARCHAR(100) NOT NULL REFERENCES "oauth_clients"("client_id") ON DELETE CASCADE,
+  "scopes" TEXT[] NOT NULL DEFAULT '{}',
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("user_id", "client_id")
+);
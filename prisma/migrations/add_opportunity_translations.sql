@@ -0,0 +1,20 @@
+-- Opportunity translations: machine translated titles and descriptions for
+-- each supported locale. The source hash records which English text a row was
+-- translated from, so rows are redone when an opportunity is edited.
+
+CREATE TABLE IF NOT EXISTS "opportunity_translations" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "opportunity_id" UUID NOT NULL REFERENCES "opportunities"("id") ON DELETE CASCADE,
+  "language" VARCHAR(5) NOT NULL,
+  "title" VARCHAR(500) NOT NULL,
+  "description" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("opportunity_id", "language")
+);
+
+ALTER TABLE "opportunity_translations"
+  ADD COLUMN IF NOT EXISTS "source_hash" VARCHAR(64) NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS "provider" VARCHAR(20) NOT NULL DEFAULT '';
+
+CREATE INDEX IF NOT EXISTS "opportunity_translations_language_idx" ON "opportunity_translations"("language");
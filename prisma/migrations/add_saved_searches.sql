@@ -0,0 +1,15 @@
+-- Saved searches: named search requests that can be re-run or converted into alerts
+
+CREATE TABLE IF NOT EXISTS "saved_searches" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "name" VARCHAR(100) NOT NULL,
+  "query" TEXT NOT NULL,
+  "filters" JSONB,
+  "sort" VARCHAR(20),
+  "alert_id" UUID UNIQUE REFERENCES "opportunity_alerts"("id") ON DELETE SET NULL,
+  "last_viewed_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("user_id", "name")
+);
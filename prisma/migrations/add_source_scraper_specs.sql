@@ -0,0 +1,5 @@
+-- Add declarative scraper specifications to sources
+-- A spec describes selectors, pagination and field mappings executed by the
+-- generic scraper, so new sources can be onboarded without a code deploy
+
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS scraper_spec JSONB;
@@ -0,0 +1,10 @@
+-- Proximity spatial audio in virtual event spaces: booths get an owner, who
+-- may broadcast to the attendees around the booth.
+
+ALTER TABLE virtual_booths
+  ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_virtual_booths_owner ON virtual_booths(owner_id);
+
+CREATE INDEX IF NOT EXISTS idx_spatial_audio_channels_space_name
+  ON spatial_audio_channels(space_id, channel_name);
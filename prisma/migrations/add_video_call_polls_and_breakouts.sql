@@ -0,0 +1,10 @@
+-- Server-side poll votes and breakout room assignments for video calls:
+-- one vote per participant per poll, and one open breakout assignment per
+-- participant.
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_video_call_poll_responses_poll_participant
+  ON video_call_poll_responses(poll_id, participant_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_breakout_room_assignments_open_participant
+  ON breakout_room_assignments(participant_id)
+  WHERE left_at IS NULL;
@@ -0,0 +1,10 @@
+-- People removed from a video call by its host or a co-host. They cannot
+-- join that room again.
+
+CREATE TABLE IF NOT EXISTS video_call_room_removals (
+  room_id UUID NOT NULL REFERENCES video_call_rooms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  removed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (room_id, user_id)
+);
@@ -0,0 +1,56 @@
+-- Video call recording uploads and transcripts: recordings are uploaded in
+-- chunks, assembled by a worker and transcribed into timed segments that can
+-- be searched. Rooms can belong to a mentorship session, whose notes link to
+-- the transcripts.
+
+ALTER TABLE video_call_rooms
+  ADD COLUMN IF NOT EXISTS mentorship_session_id UUID
+  REFERENCES mentorship_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_video_call_rooms_mentorship_session_id
+  ON video_call_rooms(mentorship_session_id);
+
+-- status: recording, processing, ready, failed, deleted
+ALTER TABLE video_call_recordings ALTER COLUMN status SET DEFAULT 'recording';
+ALTER TABLE video_call_recordings ADD COLUMN IF NOT EXISTS started_by UUID
+  REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE video_call_recordings ADD COLUMN IF NOT EXISTS language VARCHAR(10)
+  NOT NULL DEFAULT 'en';
+ALTER TABLE video_call_recordings ADD COLUMN IF NOT EXISTS error_message TEXT;
+
+CREATE TABLE IF NOT EXISTS video_call_recording_chunks (
+  recording_id UUID NOT NULL REFERENCES video_call_recordings(id) ON DELETE CASCADE,
+  sequence INT NOT NULL,
+  size_bytes INT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (recording_id, sequence)
+);
+
+CREATE TABLE IF NOT EXISTS video_call_transcripts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recording_id UUID NOT NULL UNIQUE REFERENCES video_call_recordings(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'processing', -- processing, ready, failed
+  language VARCHAR(10) NOT NULL,
+  provider VARCHAR(20),
+  full_text TEXT,
+  confidence REAL,
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- The 'simple' configuration works for every call language, including Hindi
+CREATE TABLE IF NOT EXISTS video_call_transcript_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transcript_id UUID NOT NULL REFERENCES video_call_transcripts(id) ON DELETE CASCADE,
+  start_ms INT NOT NULL,
+  end_ms INT NOT NULL,
+  text TEXT NOT NULL,
+  confidence REAL,
+  search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('simple', text)) STORED
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_call_transcript_segments_transcript_id
+  ON video_call_transcript_segments(transcript_id, start_ms);
+CREATE INDEX IF NOT EXISTS idx_video_call_transcript_segments_search
+  ON video_call_transcript_segments USING GIN(search_vector);
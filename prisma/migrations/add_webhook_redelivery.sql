@@ -0,0 +1,14 @@
+-- Webhook redelivery: event IDs on deliveries and auto-disabling of failing endpoints
+
+ALTER TABLE "webhooks"
+  ADD COLUMN IF NOT EXISTS "consecutive_failures" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS "disabled_at" TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS "disabled_reason" VARCHAR(255);
+
+ALTER TABLE "webhook_deliveries"
+  ADD COLUMN IF NOT EXISTS "event_id" UUID;
+
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_webhook_id_event_id_idx"
+  ON "webhook_deliveries" ("webhook_id", "event_id");
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_webhook_id_created_at_idx"
+  ON "webhook_deliveries" ("webhook_id", "created_at");
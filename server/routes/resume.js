@@ -338,6 +338,7 @@ router.post('/upload', upload.single('resume'), async (req, res) => {
         personalDetails,
         skills,
         education,
+        text: extractedText,
         text_preview: extractedText.substring(0, 500) + '...'
       }
     });
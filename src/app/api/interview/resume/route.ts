@@ -4,7 +4,7 @@ import { NextRequest, NextResponse } from 'next/server';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { userId, resumeText } = body;
+    const { userId, resumeText, opportunityId } = body;
 
     if (!userId || !resumeText) {
       return NextResponse.json(
@@ -13,7 +13,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await interviewPrepService.analyzeResume(userId, resumeText);
+    const result = await interviewPrepService.analyzeResume(
+      userId,
+      resumeText,
+      opportunityId
+    );
+
+    if (!result.success && result.error === 'Opportunity not found') {
+      return NextResponse.json(result, { status: 404 });
+    }
 
     return NextResponse.json(result);
   } catch (error) {
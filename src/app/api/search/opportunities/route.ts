@@ -19,8 +19,26 @@ const searchRequestSchema = z.object({
       mode: z.enum(['online', 'offline', 'hybrid']).optional(),
       location: z.string().optional(),
       type: z.enum(['hackathon', 'internship', 'workshop']).optional(),
+      deadlineAfter: z.coerce.date().optional(),
+      deadlineBefore: z.coerce.date().optional(),
+      startsAfter: z.coerce.date().optional(),
+      startsBefore: z.coerce.date().optional(),
+      endsAfter: z.coerce.date().optional(),
+      endsBefore: z.coerce.date().optional(),
+      postedAfter: z.coerce.date().optional(),
+      stipendMin: z.number().min(0).optional(),
+      stipendMax: z.number().min(0).optional(),
+      prizePoolMin: z.number().min(0).optional(),
+      prizePoolMax: z.number().min(0).optional(),
+      durationMinDays: z.number().int().min(0).optional(),
+      durationMaxDays: z.number().int().min(0).optional(),
+      nearCity: z.string().min(1).max(100).optional(),
+      maxDistance: z.number().int().min(1).max(5000).optional(),
     })
     .optional(),
+  sort: z
+    .enum(['relevance', 'deadline', 'newest', 'stipend', 'quality', 'distance'])
+    .optional(),
   pagination: z
     .object({
       page: z.number().min(1).default(1),
@@ -30,6 +48,26 @@ const searchRequestSchema = z.object({
   userId: z.string().optional(),
 });
 
+const DATE_FILTERS = [
+  'deadlineAfter',
+  'deadlineBefore',
+  'startsAfter',
+  'startsBefore',
+  'endsAfter',
+  'endsBefore',
+  'postedAfter',
+] as const;
+
+const NUMBER_FILTERS = [
+  'stipendMin',
+  'stipendMax',
+  'prizePoolMin',
+  'prizePoolMax',
+  'durationMinDays',
+  'durationMaxDays',
+  'maxDistance',
+] as const;
+
 // GET /api/search/opportunities
 export async function GET(request: NextRequest) {
   try {
@@ -75,10 +113,30 @@ export async function GET(request: NextRequest) {
       filters.type = type as any;
     }
 
+    const nearCity = searchParams.get('nearCity');
+    if (nearCity) {
+      filters.nearCity = nearCity;
+    }
+
+    for (const key of DATE_FILTERS) {
+      const value = searchParams.get(key);
+      if (value) {
+        filters[key] = new Date(value);
+      }
+    }
+
+    for (const key of NUMBER_FILTERS) {
+      const value = searchParams.get(key);
+      if (value) {
+        filters[key] = Number(value);
+      }
+    }
+
     // Validate request
     const validatedRequest = searchRequestSchema.parse({
       query,
       filters: Object.keys(filters).length > 0 ? filters : undefined,
+      sort: searchParams.get('sort') || undefined,
       pagination: { page, limit },
       userId,
     });
@@ -87,6 +145,7 @@ export async function GET(request: NextRequest) {
     const searchRequest: SearchRequest = {
       query: validatedRequest.query,
       filters: validatedRequest.filters,
+      sort: validatedRequest.sort,
       pagination: validatedRequest.pagination,
       userId: validatedRequest.userId,
     };
@@ -160,6 +219,7 @@ export async function POST(request: NextRequest) {
     const searchRequest: SearchRequest = {
       query: validatedRequest.query,
       filters: validatedRequest.filters,
+      sort: validatedRequest.sort,
       pagination: validatedRequest.pagination,
       userId: validatedRequest.userId,
     };
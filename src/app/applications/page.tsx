@@ -0,0 +1,26 @@
+'use client';
+
+import { ApplicationBoard } from '@/components/applications/ApplicationBoard';
+import { Layout } from '@/components/layout/Layout';
+
+export default function ApplicationsPage() {
+  return (
+    <Layout>
+      <div className='min-h-screen bg-gray-50'>
+        <div className='mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8'>
+          <div className='mb-8'>
+            <h1 className='text-3xl font-bold text-gray-900'>
+              My Applications
+            </h1>
+            <p className='mt-2 text-gray-600'>
+              Track where you stand with every opportunity. Drag a card to
+              update its status.
+            </p>
+          </div>
+
+          <ApplicationBoard />
+        </div>
+      </div>
+    </Layout>
+  );
+}
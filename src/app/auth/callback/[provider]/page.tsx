@@ -0,0 +1,162 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent } from '@/components/ui/Card';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { FEDERATED_STATE_STORAGE_KEY } from '@/lib/federated-sign-in';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { useEffect, useRef, useState } from 'react';
+
+interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export default function FederatedCallbackPage() {
+  const params = useParams<{ provider: string }>();
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [returnTo, setReturnTo] = useState('/');
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  // The code can only be exchanged once, so don't run twice in dev mode
+  const started = useRef(false);
+
+  const finishSignIn = (tokens: SessionTokens, path: string) => {
+    localStorage.setItem('token', tokens.accessToken);
+    localStorage.setItem('refreshToken', tokens.refreshToken);
+    router.replace(path);
+  };
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    const complete = async () => {
+      const state = searchParams.get('state');
+      const expectedState = sessionStorage.getItem(FEDERATED_STATE_STORAGE_KEY);
+      sessionStorage.removeItem(FEDERATED_STATE_STORAGE_KEY);
+
+      if (searchParams.get('error')) {
+        setError('Sign-in was cancelled.');
+        return;
+      }
+
+      // Only finish sign-ins this browser started
+      if (!state || state !== expectedState) {
+        setError('This sign-in link is not valid. Please try again.');
+        return;
+      }
+
+      try {
+        const token = localStorage.getItem('token');
+        const response = await fetch(
+          `/api/v1/auth/federated/${params.provider}/callback`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            },
+            body: JSON.stringify({ code: searchParams.get('code'), state }),
+          }
+        );
+        const data = await response.json();
+
+        if (!data.success) {
+          setError(data.error || 'Sign-in failed');
+          return;
+        }
+
+        const result = data.data;
+        const path = result.returnTo || (result.isNewUser ? '/profile' : '/');
+
+        if (result.action === 'linked') {
+          router.replace(result.returnTo || '/profile');
+        } else if (result.session.twoFactorRequired) {
+          setReturnTo(path);
+          setChallengeToken(result.session.challengeToken);
+        } else {
+          finishSignIn(result.session, path);
+        }
+      } catch (err) {
+        console.error('Federated sign-in failed:', err);
+        setError('Sign-in failed');
+      }
+    };
+
+    complete();
+  }, [params.provider, searchParams]);
+
+  const verifyCode = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/v1/auth/2fa/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challengeToken, code }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        finishSignIn(data.data, returnTo);
+      } else {
+        setError(data.error || 'Invalid authentication code');
+      }
+    } catch (err) {
+      console.error('Two-factor verification failed:', err);
+      setError('Two-factor verification failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className='min-h-screen bg-secondary-50 flex items-center justify-center px-4'>
+      <Card className='w-full max-w-md'>
+        <CardContent className='py-8'>
+          {challengeToken ? (
+            <div className='space-y-4'>
+              <h1 className='text-xl font-semibold text-secondary-900 text-center'>
+                Two-factor authentication
+              </h1>
+              <p className='text-sm text-secondary-600 text-center'>
+                Enter the code from your authenticator app or a recovery code.
+              </p>
+              <input
+                type='text'
+                value={code}
+                onChange={event => setCode(event.target.value)}
+                autoComplete='one-time-code'
+                className='w-full px-3 py-2 border border-secondary-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500'
+              />
+              {error && <p className='text-sm text-red-600'>{error}</p>}
+              <Button
+                className='w-full'
+                loading={submitting}
+                disabled={!code.trim()}
+                onClick={verifyCode}
+              >
+                Verify
+              </Button>
+            </div>
+          ) : error ? (
+            <div className='text-center'>
+              <h1 className='text-xl font-semibold text-secondary-900 mb-2'>
+                Sign-in failed
+              </h1>
+              <p className='text-secondary-600'>{error}</p>
+            </div>
+          ) : (
+            <div className='flex justify-center'>
+              <LoadingSpinner />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -32,6 +32,7 @@ interface OAuthClient {
   description: string | null;
   redirectUris: string[];
   scopes: string[];
+  isPublic: boolean;
   isActive: boolean;
   createdAt: string;
 }
@@ -365,6 +366,11 @@ export default function DeveloperPortal() {
                           >
                             {client.isActive ? 'Active' : 'Inactive'}
                           </span>
+                          {client.isPublic && (
+                            <span className='px-2 py-1 text-xs rounded bg-blue-100 text-blue-800'>
+                              Public
+                            </span>
+                          )}
                         </div>
                         {client.description && (
                           <p className='text-sm text-gray-600 mt-1'>
@@ -1,12 +1,18 @@
+'use client';
+
 import { ResumeAnalyzer } from '@/components/interview/ResumeAnalyzer';
+import { useSearchParams } from 'next/navigation';
 
 export default function ResumeAnalyzerPage() {
+  const searchParams = useSearchParams();
+  const opportunityId = searchParams.get('opportunityId') || undefined;
+
   // In a real app, get userId from session/auth
   const userId = 'user-123';
 
   return (
     <div className='container mx-auto px-4 py-8'>
-      <ResumeAnalyzer userId={userId} />
+      <ResumeAnalyzer userId={userId} opportunityId={opportunityId} />
     </div>
   );
 }
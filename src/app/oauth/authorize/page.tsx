@@ -0,0 +1,143 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { useSearchParams } from 'next/navigation';
+import { useEffect, useState } from 'react';
+
+interface AuthorizationDetails {
+  client: {
+    clientId: string;
+    name: string;
+    description: string | null;
+  };
+  scopes: Array<{ scope: string; description: string }>;
+  consentGranted: boolean;
+}
+
+export default function OAuthConsentPage() {
+  const searchParams = useSearchParams();
+  const [details, setDetails] = useState<AuthorizationDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const loadRequest = async () => {
+      try {
+        const response = await fetch(
+          `/api/v1/oauth/authorize?${searchParams.toString()}`,
+          {
+            headers: {
+              Authorization: `Bearer ${localStorage.getItem('token')}`,
+            },
+          }
+        );
+        const data = await response.json();
+
+        if (response.status === 401) {
+          setError('Sign in to OpportuneX to continue.');
+        } else if (data.redirectUrl) {
+          // Access was granted before, or prompt=none could not be satisfied
+          window.location.href = data.redirectUrl;
+        } else if (data.success) {
+          setDetails(data.data);
+        } else {
+          setError(data.error_description || 'Invalid authorization request');
+        }
+      } catch (err) {
+        console.error('Failed to load authorization request:', err);
+        setError('Failed to load authorization request');
+      }
+    };
+
+    loadRequest();
+  }, [searchParams]);
+
+  const respond = async (approved: boolean) => {
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/v1/oauth/authorize', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({
+          ...Object.fromEntries(searchParams.entries()),
+          approved,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.redirectUrl) {
+        window.location.href = data.redirectUrl;
+      } else {
+        setError(data.error_description || 'Authorization failed');
+        setSubmitting(false);
+      }
+    } catch (err) {
+      console.error('Failed to submit authorization:', err);
+      setError('Authorization failed');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className='min-h-screen bg-secondary-50 flex items-center justify-center px-4'>
+      <Card className='w-full max-w-md'>
+        {error ? (
+          <CardContent className='py-8 text-center'>
+            <p className='text-red-700'>{error}</p>
+          </CardContent>
+        ) : !details ? (
+          <CardContent className='py-8 flex justify-center'>
+            <LoadingSpinner />
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle>Authorize {details.client.name}</CardTitle>
+              {details.client.description && (
+                <p className='text-sm text-secondary-600'>
+                  {details.client.description}
+                </p>
+              )}
+            </CardHeader>
+            <CardContent>
+              <p className='text-sm text-secondary-700 mb-3'>
+                {details.client.name} would like to:
+              </p>
+              <ul className='space-y-2 mb-6'>
+                {details.scopes.map(({ scope, description }) => (
+                  <li
+                    key={scope}
+                    className='text-sm text-secondary-900 flex items-start gap-2'
+                  >
+                    <span className='text-primary-600'>•</span>
+                    {description}
+                  </li>
+                ))}
+              </ul>
+              <p className='text-xs text-secondary-500 mb-6'>
+                You can revoke access at any time from your profile.
+              </p>
+              <div className='flex gap-3 justify-end'>
+                <Button
+                  variant='outline'
+                  disabled={submitting}
+                  onClick={() => respond(false)}
+                >
+                  Deny
+                </Button>
+                <Button loading={submitting} onClick={() => respond(true)}>
+                  Allow
+                </Button>
+              </div>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
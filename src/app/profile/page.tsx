@@ -1,6 +1,9 @@
 'use client';
 
 import { Layout } from '@/components/layout/Layout';
+import { CalendarSubscription } from '@/components/profile/CalendarSubscription';
+import { ConnectedApps } from '@/components/profile/ConnectedApps';
+import { LinkedAccounts } from '@/components/profile/LinkedAccounts';
 import { UserProfileForm } from '@/components/profile/UserProfileForm';
 import type { UserProfile } from '@/types';
 import { useCallback, useState } from 'react';
@@ -533,6 +536,15 @@ export default function ProfilePage() {
               />
             </div>
 
+            {/* Sign-in Methods */}
+            <LinkedAccounts className='shadow-sm' />
+
+            {/* Connected Apps */}
+            <ConnectedApps className='shadow-sm' />
+
+            {/* Calendar Feed */}
+            <CalendarSubscription className='shadow-sm' />
+
             {/* Additional Actions */}
             <div className='bg-white rounded-lg shadow-sm p-6'>
               <h2 className='text-xl font-semibold text-secondary-900 mb-4'>
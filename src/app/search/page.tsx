@@ -1,5 +1,8 @@
 'use client';
 
+import { SavedSearches } from '@/components/search/SavedSearches';
+import type { SavedSearch } from '@/lib/services/saved-search.service';
+import type { Opportunity, SearchResponse } from '@/types';
 import { Clock, MapPin } from 'lucide-react';
 import { useEffect, useState } from 'react';
 
@@ -31,11 +34,53 @@ function formatDate(dateString: string): string {
   return date.toISOString().split('T')[0]; // YYYY-MM-DD
 }
 
+const ORGANIZER_TYPES: Record<
+  Opportunity['organizer']['type'],
+  BackendOpportunity['organizer_type']
+> = {
+  corporate: 'company',
+  government: 'company',
+  startup: 'startup',
+  academic: 'college',
+};
+
+// Saved searches run against the search API, which returns Opportunity
+function toBackendOpportunity(opportunity: Opportunity): BackendOpportunity {
+  return {
+    _id: opportunity.id,
+    title: opportunity.title,
+    description: opportunity.description,
+    category: opportunity.type,
+    platform: opportunity.organizer.name,
+    skills_required: opportunity.requirements.skills,
+    organizer_type: ORGANIZER_TYPES[opportunity.organizer.type],
+    mode: opportunity.details.mode,
+    location: {
+      city: opportunity.details.location || 'Various',
+      state: '',
+      country: opportunity.details.mode === 'online' ? 'Global' : 'India',
+    },
+    start_date: String(opportunity.timeline.startDate ?? ''),
+    deadline: String(opportunity.timeline.applicationDeadline),
+    official_link: opportunity.externalUrl,
+    tags: opportunity.tags,
+  };
+}
+
 export default function SearchPage() {
   const [opportunities, setOpportunities] = useState<BackendOpportunity[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [mounted, setMounted] = useState(false);
+  const [activeSearch, setActiveSearch] = useState<string | null>(null);
+
+  const showSavedSearchResults = (
+    savedSearch: SavedSearch,
+    results: SearchResponse
+  ) => {
+    setActiveSearch(savedSearch.name);
+    setOpportunities(results.opportunities.map(toBackendOpportunity));
+  };
 
   useEffect(() => {
     setMounted(true);
@@ -279,9 +324,14 @@ export default function SearchPage() {
           Discover Opportunities
         </h1>
 
+        <div className='mb-6'>
+          <SavedSearches onRun={showSavedSearchResults} />
+        </div>
+
         <div className='mb-6'>
           <p className='text-gray-600'>
             Found {opportunities.length} opportunities
+            {activeSearch && ` for “${activeSearch}”`}
           </p>
         </div>
 
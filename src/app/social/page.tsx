@@ -1,13 +1,14 @@
 'use client';
 
 import { ActivityFeed } from '@/components/social/ActivityFeed';
+import { Messages } from '@/components/social/Messages';
 import { TeamList } from '@/components/social/TeamList';
 import { useState } from 'react';
 
 export default function SocialPage() {
-  const [activeTab, setActiveTab] = useState<'feed' | 'teams' | 'discover'>(
-    'feed'
-  );
+  const [activeTab, setActiveTab] = useState<
+    'feed' | 'teams' | 'messages' | 'discover'
+  >('feed');
 
   return (
     <div className='min-h-screen bg-gray-50'>
@@ -41,6 +42,16 @@ export default function SocialPage() {
             >
               Teams
             </button>
+            <button
+              onClick={() => setActiveTab('messages')}
+              className={`whitespace-nowrap border-b-2 px-1 py-4 text-sm font-medium ${
+                activeTab === 'messages'
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+              }`}
+            >
+              Messages
+            </button>
             <button
               onClick={() => setActiveTab('discover')}
               className={`whitespace-nowrap border-b-2 px-1 py-4 text-sm font-medium ${
@@ -54,48 +65,52 @@ export default function SocialPage() {
           </nav>
         </div>
 
-        <div className='grid grid-cols-1 gap-6 lg:grid-cols-3'>
-          <div className='lg:col-span-2'>
-            {activeTab === 'feed' && <ActivityFeed />}
-            {activeTab === 'teams' && <TeamList />}
-            {activeTab === 'discover' && (
-              <div className='text-center text-gray-600'>
-                User discovery feature coming soon
-              </div>
-            )}
-          </div>
-
-          <div className='space-y-6'>
-            <div className='rounded-lg bg-white p-6 shadow'>
-              <h3 className='text-lg font-semibold text-gray-900'>
-                Quick Stats
-              </h3>
-              <div className='mt-4 space-y-3'>
-                <div className='flex justify-between'>
-                  <span className='text-gray-600'>Followers</span>
-                  <span className='font-semibold text-gray-900'>0</span>
+        {activeTab === 'messages' ? (
+          <Messages />
+        ) : (
+          <div className='grid grid-cols-1 gap-6 lg:grid-cols-3'>
+            <div className='lg:col-span-2'>
+              {activeTab === 'feed' && <ActivityFeed />}
+              {activeTab === 'teams' && <TeamList />}
+              {activeTab === 'discover' && (
+                <div className='text-center text-gray-600'>
+                  User discovery feature coming soon
                 </div>
-                <div className='flex justify-between'>
-                  <span className='text-gray-600'>Following</span>
-                  <span className='font-semibold text-gray-900'>0</span>
-                </div>
-                <div className='flex justify-between'>
-                  <span className='text-gray-600'>Teams</span>
-                  <span className='font-semibold text-gray-900'>0</span>
+              )}
+            </div>
+
+            <div className='space-y-6'>
+              <div className='rounded-lg bg-white p-6 shadow'>
+                <h3 className='text-lg font-semibold text-gray-900'>
+                  Quick Stats
+                </h3>
+                <div className='mt-4 space-y-3'>
+                  <div className='flex justify-between'>
+                    <span className='text-gray-600'>Followers</span>
+                    <span className='font-semibold text-gray-900'>0</span>
+                  </div>
+                  <div className='flex justify-between'>
+                    <span className='text-gray-600'>Following</span>
+                    <span className='font-semibold text-gray-900'>0</span>
+                  </div>
+                  <div className='flex justify-between'>
+                    <span className='text-gray-600'>Teams</span>
+                    <span className='font-semibold text-gray-900'>0</span>
+                  </div>
                 </div>
               </div>
-            </div>
 
-            <div className='rounded-lg bg-white p-6 shadow'>
-              <h3 className='text-lg font-semibold text-gray-900'>
-                Suggested Users
-              </h3>
-              <p className='mt-2 text-sm text-gray-600'>
-                Connect with students who share your interests
-              </p>
+              <div className='rounded-lg bg-white p-6 shadow'>
+                <h3 className='text-lg font-semibold text-gray-900'>
+                  Suggested Users
+                </h3>
+                <p className='mt-2 text-sm text-gray-600'>
+                  Connect with students who share your interests
+                </p>
+              </div>
             </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,59 @@
+'use client';
+
+import { Card, CardContent } from '@/components/ui/Card';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { useSearchParams } from 'next/navigation';
+import { useEffect, useState } from 'react';
+
+export default function VerifyEmailPage() {
+  const searchParams = useSearchParams();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>(
+    'verifying'
+  );
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/v1/auth/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: searchParams.get('token') }),
+        });
+        const data = await response.json();
+
+        setStatus(data.success ? 'verified' : 'failed');
+        setMessage(data.message || data.error || '');
+      } catch (error) {
+        console.error('Email verification failed:', error);
+        setStatus('failed');
+        setMessage('Email verification failed');
+      }
+    };
+
+    verify();
+  }, [searchParams]);
+
+  return (
+    <div className='min-h-screen bg-secondary-50 flex items-center justify-center px-4'>
+      <Card className='w-full max-w-md'>
+        <CardContent className='py-8 text-center'>
+          {status === 'verifying' ? (
+            <div className='flex justify-center'>
+              <LoadingSpinner />
+            </div>
+          ) : (
+            <>
+              <h1 className='text-xl font-semibold text-secondary-900 mb-2'>
+                {status === 'verified'
+                  ? 'Email verified'
+                  : 'Verification failed'}
+              </h1>
+              <p className='text-secondary-600'>{message}</p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
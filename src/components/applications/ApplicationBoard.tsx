@@ -0,0 +1,323 @@
+'use client';
+
+import { Badge } from '@/components/ui/Badge';
+import { Card } from '@/components/ui/Card';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import type {
+  ApplicationBoard as Board,
+  ApplicationStatus,
+  TrackedApplication,
+} from '@/lib/services/application.service';
+import { cn } from '@/lib/utils';
+import type { DragEvent } from 'react';
+import { useEffect, useState } from 'react';
+
+const COLUMNS: Array<{ status: ApplicationStatus; label: string }> = [
+  { status: 'interested', label: 'Interested' },
+  { status: 'applied', label: 'Applied' },
+  { status: 'shortlisted', label: 'Shortlisted' },
+  { status: 'interview', label: 'Interview' },
+  { status: 'offer', label: 'Offer' },
+  { status: 'rejected', label: 'Rejected' },
+  { status: 'withdrawn', label: 'Withdrawn' },
+];
+
+const API_BASE = '/api/v1/users/applications';
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  Authorization: `Bearer ${localStorage.getItem('token')}`,
+});
+
+export function ApplicationBoard() {
+  const [board, setBoard] = useState<Board | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dragOver, setDragOver] = useState<ApplicationStatus | null>(null);
+  const [selected, setSelected] = useState<TrackedApplication | null>(null);
+
+  useEffect(() => {
+    fetchBoard();
+  }, []);
+
+  const fetchBoard = async () => {
+    try {
+      const response = await fetch(`${API_BASE}/board`, {
+        headers: authHeaders(),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        setBoard(result.data);
+      } else {
+        setError('Could not load your applications');
+      }
+    } catch (error) {
+      console.error('Fetch applications error:', error);
+      setError('Could not load your applications');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDetails = async (application: TrackedApplication) => {
+    setSelected(application);
+
+    try {
+      const response = await fetch(`${API_BASE}/${application.id}`, {
+        headers: authHeaders(),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        setSelected(result.data);
+      }
+    } catch (error) {
+      console.error('Fetch application error:', error);
+    }
+  };
+
+  const moveApplication = async (
+    applicationId: string,
+    status: ApplicationStatus
+  ) => {
+    if (!board) return;
+
+    const from = COLUMNS.find(column =>
+      board[column.status].some(app => app.id === applicationId)
+    )?.status;
+    if (!from || from === status) return;
+
+    // Move the card right away and roll back if the update fails
+    const previous = board;
+    const application = board[from].find(app => app.id === applicationId)!;
+    setBoard({
+      ...board,
+      [from]: board[from].filter(app => app.id !== applicationId),
+      [status]: [{ ...application, status }, ...board[status]],
+    });
+
+    try {
+      const response = await fetch(`${API_BASE}/${applicationId}`, {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify({ status }),
+      });
+
+      if (!response.ok) {
+        setBoard(previous);
+      }
+    } catch (error) {
+      console.error('Update application error:', error);
+      setBoard(previous);
+    }
+  };
+
+  const handleDrop = (event: DragEvent, status: ApplicationStatus) => {
+    event.preventDefault();
+    setDragOver(null);
+
+    const applicationId = event.dataTransfer.getData('text/plain');
+    if (applicationId) {
+      moveApplication(applicationId, status);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className='flex justify-center py-8'>
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error || !board) {
+    return (
+      <Card className='p-6 text-center'>
+        <p className='text-gray-600'>{error}</p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className='flex gap-6'>
+      <div className='flex flex-1 gap-4 overflow-x-auto pb-4'>
+        {COLUMNS.map(column => (
+          <div
+            key={column.status}
+            onDragOver={event => {
+              event.preventDefault();
+              setDragOver(column.status);
+            }}
+            onDragLeave={() => setDragOver(null)}
+            onDrop={event => handleDrop(event, column.status)}
+            className={cn(
+              'w-64 flex-shrink-0 rounded-lg bg-gray-100 p-3',
+              dragOver === column.status && 'ring-2 ring-blue-400'
+            )}
+          >
+            <div className='mb-3 flex items-center justify-between'>
+              <h3 className='text-sm font-semibold text-gray-700'>
+                {column.label}
+              </h3>
+              <Badge variant='secondary' size='sm'>
+                {board[column.status].length}
+              </Badge>
+            </div>
+
+            <div className='space-y-3'>
+              {board[column.status].map(application => (
+                <ApplicationCard
+                  key={application.id}
+                  application={application}
+                  onOpen={() => openDetails(application)}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {selected && (
+        <ApplicationDetails
+          application={selected}
+          onClose={() => setSelected(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function ApplicationCard({
+  application,
+  onOpen,
+}: {
+  application: TrackedApplication;
+  onOpen: () => void;
+}) {
+  const nextActionAt = application.nextActionAt
+    ? new Date(application.nextActionAt)
+    : null;
+  const overdue = nextActionAt !== null && nextActionAt < new Date();
+
+  return (
+    <Card
+      padding='sm'
+      draggable
+      onDragStart={event =>
+        event.dataTransfer.setData('text/plain', application.id)
+      }
+      onClick={onOpen}
+      className='cursor-pointer hover:shadow-md'
+    >
+      <p className='text-sm font-semibold text-gray-900'>
+        {application.opportunity.title}
+      </p>
+      <p className='mt-1 text-xs text-gray-500'>
+        {application.opportunity.organizerName} · Deadline{' '}
+        {new Date(
+          application.opportunity.applicationDeadline
+        ).toLocaleDateString()}
+      </p>
+
+      {application.nextAction && (
+        <p
+          className={cn(
+            'mt-2 text-xs',
+            overdue ? 'font-medium text-red-600' : 'text-gray-600'
+          )}
+        >
+          Next: {application.nextAction}
+          {nextActionAt && ` (${nextActionAt.toLocaleDateString()})`}
+        </p>
+      )}
+
+      {application.documents.length > 0 && (
+        <p className='mt-2 text-xs text-gray-500'>
+          {application.documents.length} document
+          {application.documents.length === 1 ? '' : 's'}
+        </p>
+      )}
+    </Card>
+  );
+}
+
+function ApplicationDetails({
+  application,
+  onClose,
+}: {
+  application: TrackedApplication;
+  onClose: () => void;
+}) {
+  return (
+    <Card className='w-80 flex-shrink-0 self-start'>
+      <div className='flex items-start justify-between'>
+        <h3 className='text-lg font-semibold text-gray-900'>
+          {application.opportunity.title}
+        </h3>
+        <button
+          onClick={onClose}
+          className='text-gray-400 hover:text-gray-600'
+          aria-label='Close details'
+        >
+          ×
+        </button>
+      </div>
+
+      <a
+        href={application.opportunity.externalUrl}
+        target='_blank'
+        rel='noopener noreferrer'
+        className='mt-1 block text-sm text-blue-600 hover:underline'
+      >
+        View opportunity
+      </a>
+
+      {application.notes && (
+        <div className='mt-4'>
+          <h4 className='text-sm font-medium text-gray-700'>Notes</h4>
+          <p className='mt-1 whitespace-pre-line text-sm text-gray-600'>
+            {application.notes}
+          </p>
+        </div>
+      )}
+
+      {application.documents.length > 0 && (
+        <div className='mt-4'>
+          <h4 className='text-sm font-medium text-gray-700'>Documents</h4>
+          <ul className='mt-1 space-y-1'>
+            {application.documents.map(document => (
+              <li key={document.id}>
+                <a
+                  href={document.url}
+                  target='_blank'
+                  rel='noopener noreferrer'
+                  className='text-sm text-blue-600 hover:underline'
+                >
+                  {document.name}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {application.history && (
+        <div className='mt-4'>
+          <h4 className='text-sm font-medium text-gray-700'>Timeline</h4>
+          <ol className='mt-2 space-y-2 border-l border-gray-200 pl-3'>
+            {application.history.map(change => (
+              <li key={change.id} className='text-xs text-gray-600'>
+                <span className='font-medium capitalize text-gray-900'>
+                  {change.toStatus}
+                </span>{' '}
+                · {new Date(change.createdAt).toLocaleDateString()}
+                {change.note && <p className='mt-0.5'>{change.note}</p>}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -19,11 +19,25 @@ interface ResumeAnalysis {
     score: number;
     issues: string[];
   };
+  gapReport?: {
+    opportunityTitle: string;
+    matchScore: number;
+    missingSkills: string[];
+    unevidencedSkills: string[];
+  };
 }
 
-export function ResumeAnalyzer({ userId }: { userId: string }) {
+export function ResumeAnalyzer({
+  userId,
+  opportunityId,
+}: {
+  userId: string;
+  opportunityId?: string;
+}) {
   const [resumeText, setResumeText] = useState('');
   const [analyzing, setAnalyzing] = useState(false);
+  const [extracting, setExtracting] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<ResumeAnalysis | null>(null);
   const [suggestions, setSuggestions] = useState<string[]>([]);
 
@@ -35,7 +49,7 @@ export function ResumeAnalyzer({ userId }: { userId: string }) {
       const response = await fetch('/api/interview/resume', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, resumeText }),
+        body: JSON.stringify({ userId, resumeText, opportunityId }),
       });
 
       const result = await response.json();
@@ -50,16 +64,45 @@ export function ResumeAnalyzer({ userId }: { userId: string }) {
     }
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Plain text is read in the browser; PDF and Word files go through the
+  // resume upload flow, which extracts their text on the server
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    setUploadError(null);
+
+    if (file.name.toLowerCase().endsWith('.txt')) {
+      const reader = new FileReader();
+      reader.onload = event => {
+        const text = event.target?.result as string;
+        setResumeText(text);
+      };
+      reader.readAsText(file);
+      return;
+    }
+
+    setExtracting(true);
+    try {
+      const formData = new FormData();
+      formData.append('resume', file);
+
+      const response = await fetch('/api/resume/upload', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
 
-    const reader = new FileReader();
-    reader.onload = event => {
-      const text = event.target?.result as string;
-      setResumeText(text);
-    };
-    reader.readAsText(file);
+      if (response.ok && data.extracted_data?.text) {
+        setResumeText(data.extracted_data.text);
+      } else {
+        setUploadError('Could not read text from this file');
+      }
+    } catch (error) {
+      console.error('Failed to extract resume text:', error);
+      setUploadError('Could not read text from this file');
+    } finally {
+      setExtracting(false);
+    }
   };
 
   return (
@@ -83,6 +126,12 @@ export function ResumeAnalyzer({ userId }: { userId: string }) {
                 onChange={handleFileUpload}
                 className='mb-4 block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100'
               />
+              {extracting && (
+                <p className='mb-2 text-sm text-gray-500'>Extracting text...</p>
+              )}
+              {uploadError && (
+                <p className='mb-2 text-sm text-red-600'>{uploadError}</p>
+              )}
               <textarea
                 value={resumeText}
                 onChange={e => setResumeText(e.target.value)}
@@ -118,6 +167,31 @@ export function ResumeAnalyzer({ userId }: { userId: string }) {
             </div>
           </Card>
 
+          {/* Opportunity Fit */}
+          {analysis.gapReport && (
+            <Card className='p-6'>
+              <div className='flex justify-between items-center mb-2'>
+                <h2 className='text-xl font-semibold'>
+                  Fit for {analysis.gapReport.opportunityTitle}
+                </h2>
+                <span className='text-lg font-bold text-blue-600'>
+                  {analysis.gapReport.matchScore}%
+                </span>
+              </div>
+              {analysis.gapReport.missingSkills.length > 0 && (
+                <p className='text-sm text-gray-700'>
+                  Skills to build: {analysis.gapReport.missingSkills.join(', ')}
+                </p>
+              )}
+              {analysis.gapReport.unevidencedSkills.length > 0 && (
+                <p className='mt-1 text-sm text-gray-700'>
+                  Listed but not shown in your experience:{' '}
+                  {analysis.gapReport.unevidencedSkills.join(', ')}
+                </p>
+              )}
+            </Card>
+          )}
+
           {/* Section Scores */}
           <Card className='p-6'>
             <h2 className='text-xl font-semibold mb-4'>Section Analysis</h2>
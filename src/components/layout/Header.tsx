@@ -18,6 +18,7 @@ export function Header({ className }: HeaderProps) {
   const navigation = [
     { name: 'Search', href: '/search' },
     { name: 'My Roadmaps', href: '/roadmap' },
+    { name: 'Applications', href: '/applications' },
     { name: 'Profile', href: '/profile' },
   ];
 
@@ -1,5 +1,7 @@
 'use client';
 
+import { mentorshipSessionEvent } from '@/lib/calendar-events';
+import { downloadCalendar } from '@/lib/icalendar';
 import { MentorProfile, MentorshipSession } from '@/types/mentor-matching';
 import React, { useEffect, useState } from 'react';
 
@@ -14,6 +16,8 @@ export default function SessionScheduler({
 }: SessionSchedulerProps) {
   const [mentor, setMentor] = useState<MentorProfile | null>(null);
   const [loading, setLoading] = useState(false);
+  const [scheduledSession, setScheduledSession] =
+    useState<MentorshipSession | null>(null);
   const [formData, setFormData] = useState({
     title: '',
     description: '',
@@ -64,7 +68,7 @@ export default function SessionScheduler({
 
       if (response.ok) {
         const session = await response.json();
-        alert('Session scheduled successfully!');
+        setScheduledSession(session);
         if (onScheduled) {
           onScheduled(session);
         }
@@ -88,10 +92,37 @@ export default function SessionScheduler({
     }
   };
 
+  const addToCalendar = (session: MentorshipSession) => {
+    downloadCalendar(
+      [
+        mentorshipSessionEvent({
+          ...session,
+          // Dates arrive as strings in the JSON response
+          scheduledAt: new Date(session.scheduledAt),
+          updatedAt: undefined,
+        }),
+      ],
+      session.title
+    );
+  };
+
   return (
     <div className='session-scheduler'>
       <h2>Schedule Mentorship Session</h2>
 
+      {scheduledSession && (
+        <div className='scheduled-notice'>
+          <p>Session scheduled successfully!</p>
+          <button
+            type='button'
+            onClick={() => addToCalendar(scheduledSession)}
+            className='calendar-button'
+          >
+            Add to calendar
+          </button>
+        </div>
+      )}
+
       {mentor && (
         <div className='mentor-info'>
           <h3>{mentor.currentRole || 'Mentor'}</h3>
@@ -183,6 +214,7 @@ export default function SessionScheduler({
             }
           >
             <option value='google-meet'>Google Meet</option>
+            <option value='video-call'>OpportuneX Video Call</option>
             <option value='zoom'>Zoom</option>
             <option value='microsoft-teams'>Microsoft Teams</option>
             <option value='phone'>Phone Call</option>
@@ -206,6 +238,30 @@ export default function SessionScheduler({
           margin: 0 0 1.5rem 0;
         }
 
+        .scheduled-notice {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          background: #d4edda;
+          color: #155724;
+          padding: 1rem;
+          border-radius: 8px;
+          margin-bottom: 1.5rem;
+        }
+
+        .scheduled-notice p {
+          margin: 0;
+        }
+
+        .calendar-button {
+          padding: 0.5rem 1rem;
+          background: white;
+          color: #155724;
+          border: 1px solid #155724;
+          border-radius: 4px;
+          cursor: pointer;
+        }
+
         .mentor-info {
           background: #f8f9fa;
           padding: 1rem;
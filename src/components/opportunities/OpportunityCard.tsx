@@ -3,9 +3,12 @@
 import { Badge } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardFooter } from '@/components/ui/Card';
+import { opportunityEvents } from '@/lib/calendar-events';
+import { downloadCalendar } from '@/lib/icalendar';
 import { cn } from '@/lib/utils';
 import {
   Building,
+  CalendarPlus,
   ExternalLink,
   GraduationCap,
   Heart,
@@ -35,6 +38,7 @@ interface BackendOpportunity {
   deadline: string;
   official_link: string;
   tags: string[];
+  distance_km?: number;
 }
 
 interface OpportunityCardProps {
@@ -123,6 +127,9 @@ export function OpportunityCard({
     return diffDays <= 3 && diffDays >= 0;
   };
 
+  const formatDistance = (km: number) =>
+    km < 1 ? 'under 1 km' : `${Math.round(km)} km`;
+
   const truncateDescription = (text: string, maxLength = 150) => {
     if (text.length <= maxLength) return text;
     return `${text.substring(0, maxLength)}...`;
@@ -141,6 +148,24 @@ export function OpportunityCard({
 
   const locationString = `${opportunity.location.city}, ${opportunity.location.state}`;
 
+  const handleAddToCalendar = () => {
+    downloadCalendar(
+      opportunityEvents({
+        id: opportunity._id,
+        title: opportunity.title,
+        description: opportunity.description,
+        organizerName: opportunity.platform,
+        location: opportunity.mode === 'online' ? 'Online' : locationString,
+        url: opportunity.official_link,
+        deadline: new Date(opportunity.deadline),
+        startDate: opportunity.start_date
+          ? new Date(opportunity.start_date)
+          : undefined,
+      }),
+      opportunity.title
+    );
+  };
+
   return (
     <Card
       className={cn(
@@ -178,6 +203,11 @@ export function OpportunityCard({
               <span className='flex items-center'>
                 <MapPin className='h-4 w-4 mr-1' />
                 {locationString}
+                {opportunity.distance_km !== undefined && (
+                  <span className='ml-1 text-secondary-500'>
+                    ({formatDistance(opportunity.distance_km)} away)
+                  </span>
+                )}
               </span>
             </div>
           </div>
@@ -273,6 +303,16 @@ export function OpportunityCard({
         </div>
 
         <div className='flex items-center space-x-2'>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={handleAddToCalendar}
+            className='p-2 h-8 w-8'
+            aria-label='Add deadline to calendar'
+            title='Add deadline to calendar'
+          >
+            <CalendarPlus className='h-4 w-4' />
+          </Button>
           <Button
             variant='outline'
             size='sm'
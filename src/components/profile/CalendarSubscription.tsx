@@ -0,0 +1,182 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { useCallback, useEffect, useState } from 'react';
+
+interface CalendarFeedStatus {
+  active: boolean;
+  createdAt?: string;
+  lastAccessedAt?: string;
+}
+
+interface CalendarSubscriptionProps {
+  className?: string;
+}
+
+export function CalendarSubscription({ className }: CalendarSubscriptionProps) {
+  const [feed, setFeed] = useState<CalendarFeedStatus | null>(null);
+  // The URL is only shown once, right after it is created
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFeed = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/v1/calendar/feed', {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+      const data = await response.json();
+      setFeed(data.data || { active: false });
+    } catch (err) {
+      console.error('Failed to load calendar feed:', err);
+      setError('Failed to load calendar feed');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFeed();
+  }, [loadFeed]);
+
+  const createFeed = async () => {
+    setWorking(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const response = await fetch('/api/v1/calendar/feed', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create calendar feed');
+      }
+
+      setFeedUrl(data.data.url);
+      setFeed({ active: true, createdAt: data.data.createdAt });
+    } catch (err) {
+      console.error('Failed to create calendar feed:', err);
+      setError('Failed to create calendar feed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const revokeFeed = async () => {
+    setWorking(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/v1/calendar/feed', {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to revoke calendar feed');
+      }
+
+      setFeedUrl(null);
+      setFeed({ active: false });
+    } catch (err) {
+      console.error('Failed to revoke calendar feed:', err);
+      setError('Failed to revoke calendar feed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const copyUrl = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Calendar Subscription</CardTitle>
+        <p className='text-sm text-secondary-600'>
+          Deadlines of saved and applied opportunities, mentorship sessions and
+          virtual event presentations in Google Calendar, Outlook or Apple
+          Calendar
+        </p>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className='mb-4 p-3 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm'>
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className='flex justify-center py-6'>
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <div className='space-y-4'>
+            {feedUrl && (
+              <div>
+                <p className='text-sm text-secondary-700 mb-2'>
+                  Subscribe to this URL from your calendar app. Keep it private:
+                  anyone with it can see your calendar.
+                </p>
+                <div className='flex items-center gap-2'>
+                  <input
+                    type='text'
+                    readOnly
+                    value={feedUrl}
+                    className='flex-1 px-3 py-2 text-sm border border-secondary-300 rounded-md bg-secondary-50'
+                    onFocus={e => e.target.select()}
+                  />
+                  <Button variant='outline' size='sm' onClick={copyUrl}>
+                    {copied ? 'Copied' : 'Copy'}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {feed?.active && !feedUrl && (
+              <p className='text-sm text-secondary-600'>
+                Subscribed since{' '}
+                {new Date(feed.createdAt!).toLocaleDateString()}
+                {feed.lastAccessedAt &&
+                  `, last synced ${new Date(feed.lastAccessedAt).toLocaleString()}`}
+                . Create a new URL if you have lost it; the old one stops
+                working.
+              </p>
+            )}
+
+            <div className='flex gap-2'>
+              <Button size='sm' loading={working} onClick={createFeed}>
+                {feed?.active ? 'Create new URL' : 'Create calendar URL'}
+              </Button>
+              {feed?.active && (
+                <Button
+                  variant='outline'
+                  size='sm'
+                  disabled={working}
+                  onClick={revokeFeed}
+                >
+                  Stop sharing
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { useCallback, useEffect, useState } from 'react';
+
+interface OAuthConsent {
+  clientId: string;
+  clientName: string;
+  clientDescription: string | null;
+  scopes: string[];
+  grantedAt: string;
+  updatedAt: string;
+}
+
+interface ConnectedAppsProps {
+  className?: string;
+}
+
+export function ConnectedApps({ className }: ConnectedAppsProps) {
+  const [consents, setConsents] = useState<OAuthConsent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConsents = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/v1/oauth/consents', {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+      const data = await response.json();
+      setConsents(data.data || []);
+    } catch (err) {
+      console.error('Failed to load connected apps:', err);
+      setError('Failed to load connected apps');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadConsents();
+  }, [loadConsents]);
+
+  const revokeAccess = async (clientId: string) => {
+    // First click asks for confirmation, the second revokes
+    if (confirming !== clientId) {
+      setConfirming(clientId);
+      return;
+    }
+
+    setConfirming(null);
+    setRevoking(clientId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/v1/oauth/consents/${clientId}`, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to revoke access');
+      }
+
+      setConsents(current =>
+        current.filter(consent => consent.clientId !== clientId)
+      );
+    } catch (err) {
+      console.error('Failed to revoke access:', err);
+      setError('Failed to revoke access');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Connected Apps</CardTitle>
+        <p className='text-sm text-secondary-600'>
+          Applications you have allowed to access your account
+        </p>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className='mb-4 p-3 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm'>
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className='flex justify-center py-6'>
+            <LoadingSpinner />
+          </div>
+        ) : consents.length === 0 ? (
+          <p className='text-sm text-secondary-600'>
+            You have not connected any apps.
+          </p>
+        ) : (
+          <ul className='divide-y divide-secondary-200'>
+            {consents.map(consent => (
+              <li
+                key={consent.clientId}
+                className='flex items-start justify-between py-4'
+              >
+                <div>
+                  <h3 className='font-medium text-secondary-900'>
+                    {consent.clientName}
+                  </h3>
+                  {consent.clientDescription && (
+                    <p className='text-sm text-secondary-600'>
+                      {consent.clientDescription}
+                    </p>
+                  )}
+                  <div className='flex flex-wrap gap-1 mt-2'>
+                    {consent.scopes.map(scope => (
+                      <Badge key={scope} variant='secondary' size='sm'>
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className='text-xs text-secondary-500 mt-2'>
+                    Authorized{' '}
+                    {new Date(consent.grantedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button
+                  variant='outline'
+                  size='sm'
+                  loading={revoking === consent.clientId}
+                  onClick={() => revokeAccess(consent.clientId)}
+                >
+                  {confirming === consent.clientId
+                    ? 'Confirm revoke'
+                    : 'Revoke'}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
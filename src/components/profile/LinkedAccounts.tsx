@@ -0,0 +1,193 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { startFederatedSignIn } from '@/lib/federated-sign-in';
+import { useCallback, useEffect, useState } from 'react';
+
+interface SignInProvider {
+  id: string;
+  name: string;
+}
+
+interface LinkedIdentity {
+  provider: string;
+  providerName: string;
+  email: string | null;
+  displayName: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+interface LinkedAccountsProps {
+  className?: string;
+}
+
+export function LinkedAccounts({ className }: LinkedAccountsProps) {
+  const [providers, setProviders] = useState<SignInProvider[]>([]);
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAccounts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [providersResponse, identitiesResponse] = await Promise.all([
+        fetch('/api/v1/auth/federated/providers'),
+        fetch('/api/v1/auth/federated/identities', {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`,
+          },
+        }),
+      ]);
+      const providersData = await providersResponse.json();
+      const identitiesData = await identitiesResponse.json();
+
+      setProviders(providersData.data || []);
+      setIdentities(identitiesData.data || []);
+    } catch (err) {
+      console.error('Failed to load linked accounts:', err);
+      setError('Failed to load linked accounts');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const linkAccount = async (provider: string) => {
+    setBusy(provider);
+    setError(null);
+    try {
+      const message = await startFederatedSignIn(provider, {
+        link: true,
+        returnTo: '/profile',
+      });
+      if (message) {
+        setError(message);
+        setBusy(null);
+      }
+    } catch (err) {
+      console.error('Failed to link account:', err);
+      setError('Failed to link account');
+      setBusy(null);
+    }
+  };
+
+  const unlinkAccount = async (provider: string) => {
+    // First click asks for confirmation, the second unlinks
+    if (confirming !== provider) {
+      setConfirming(provider);
+      return;
+    }
+
+    setConfirming(null);
+    setBusy(provider);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/v1/auth/federated/identities/${provider}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`,
+          },
+        }
+      );
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || 'Failed to unlink account');
+        return;
+      }
+
+      setIdentities(current =>
+        current.filter(identity => identity.provider !== provider)
+      );
+    } catch (err) {
+      console.error('Failed to unlink account:', err);
+      setError('Failed to unlink account');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const linkedProviders = new Set(identities.map(item => item.provider));
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Sign-in Methods</CardTitle>
+        <p className='text-sm text-secondary-600'>
+          Accounts you can use to sign in to OpportuneX
+        </p>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className='mb-4 p-3 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm'>
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className='flex justify-center py-6'>
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <ul className='divide-y divide-secondary-200'>
+            {identities.map(identity => (
+              <li
+                key={identity.provider}
+                className='flex items-center justify-between py-4'
+              >
+                <div>
+                  <h3 className='font-medium text-secondary-900'>
+                    {identity.providerName}
+                  </h3>
+                  <p className='text-sm text-secondary-600'>
+                    {identity.email || identity.displayName}
+                  </p>
+                </div>
+                <Button
+                  variant='outline'
+                  size='sm'
+                  loading={busy === identity.provider}
+                  onClick={() => unlinkAccount(identity.provider)}
+                >
+                  {confirming === identity.provider
+                    ? 'Confirm unlink'
+                    : 'Unlink'}
+                </Button>
+              </li>
+            ))}
+            {providers
+              .filter(provider => !linkedProviders.has(provider.id))
+              .map(provider => (
+                <li
+                  key={provider.id}
+                  className='flex items-center justify-between py-4'
+                >
+                  <h3 className='font-medium text-secondary-900'>
+                    {provider.name}
+                  </h3>
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    loading={busy === provider.id}
+                    onClick={() => linkAccount(provider.id)}
+                  >
+                    Link
+                  </Button>
+                </li>
+              ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
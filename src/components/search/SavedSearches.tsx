@@ -0,0 +1,266 @@
+'use client';
+
+import { Badge } from '@/components/ui/Badge';
+import { Card } from '@/components/ui/Card';
+import type { OpportunityAlert } from '@/lib/services/opportunity-alerts.service';
+import type { SavedSearch } from '@/lib/services/saved-search.service';
+import type { SearchResponse } from '@/types';
+import { useEffect, useState } from 'react';
+
+type AlertChannel = OpportunityAlert['channels'][number];
+type AlertFrequency = OpportunityAlert['frequency'];
+
+const CHANNELS: Array<{ value: AlertChannel; label: string }> = [
+  { value: 'email', label: 'Email' },
+  { value: 'in_app', label: 'In-app' },
+  { value: 'push', label: 'Push' },
+  { value: 'sms', label: 'SMS' },
+];
+
+const FREQUENCIES: Array<{ value: AlertFrequency; label: string }> = [
+  { value: 'immediate', label: 'As they are posted' },
+  { value: 'daily', label: 'Daily digest' },
+  { value: 'weekly', label: 'Weekly digest' },
+];
+
+const API_BASE = '/api/v1/users/saved-searches';
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  Authorization: `Bearer ${localStorage.getItem('token')}`,
+});
+
+interface SavedSearchesProps {
+  onRun: (savedSearch: SavedSearch, results: SearchResponse) => void;
+}
+
+export function SavedSearches({ onRun }: SavedSearchesProps) {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState<string | null>(null);
+  const [converting, setConverting] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSavedSearches();
+  }, []);
+
+  const fetchSavedSearches = async () => {
+    try {
+      const response = await fetch(API_BASE, { headers: authHeaders() });
+
+      if (response.ok) {
+        const result = await response.json();
+        setSavedSearches(result.data);
+      }
+    } catch (error) {
+      console.error('Fetch saved searches error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runSearch = async (savedSearch: SavedSearch) => {
+    setRunning(savedSearch.id);
+
+    try {
+      const response = await fetch(`${API_BASE}/${savedSearch.id}/run`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({}),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        onRun(savedSearch, result.data);
+        setSavedSearches(prev =>
+          prev.map(item =>
+            item.id === savedSearch.id ? { ...item, newCount: 0 } : item
+          )
+        );
+      }
+    } catch (error) {
+      console.error('Run saved search error:', error);
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const deleteSearch = async (savedSearch: SavedSearch) => {
+    try {
+      const response = await fetch(`${API_BASE}/${savedSearch.id}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      });
+
+      if (response.ok) {
+        setSavedSearches(prev =>
+          prev.filter(item => item.id !== savedSearch.id)
+        );
+      }
+    } catch (error) {
+      console.error('Delete saved search error:', error);
+    }
+  };
+
+  const createAlert = async (
+    savedSearch: SavedSearch,
+    channels: AlertChannel[],
+    frequency: AlertFrequency
+  ) => {
+    try {
+      const response = await fetch(`${API_BASE}/${savedSearch.id}/alert`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ channels, frequency }),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setSavedSearches(prev =>
+          prev.map(item =>
+            item.id === savedSearch.id
+              ? { ...item, alertId: result.data.id }
+              : item
+          )
+        );
+        setConverting(null);
+      }
+      setNotice(result.message ?? result.error);
+    } catch (error) {
+      console.error('Create alert error:', error);
+    }
+  };
+
+  if (loading || savedSearches.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card padding='sm'>
+      <h2 className='text-sm font-semibold text-gray-700'>Saved searches</h2>
+      {notice && <p className='mt-2 text-xs text-gray-600'>{notice}</p>}
+
+      <ul className='mt-3 divide-y divide-gray-100'>
+        {savedSearches.map(savedSearch => (
+          <li key={savedSearch.id} className='py-2'>
+            <div className='flex items-center justify-between gap-3'>
+              <div className='min-w-0'>
+                <p className='truncate text-sm font-medium text-gray-900'>
+                  {savedSearch.name}
+                  {!!savedSearch.newCount && (
+                    <Badge variant='info' size='sm' className='ml-2'>
+                      {savedSearch.newCount} new
+                    </Badge>
+                  )}
+                </p>
+                {savedSearch.request.query && (
+                  <p className='truncate text-xs text-gray-500'>
+                    “{savedSearch.request.query}”
+                  </p>
+                )}
+              </div>
+
+              <div className='flex flex-shrink-0 items-center gap-2 text-sm'>
+                <button
+                  onClick={() => runSearch(savedSearch)}
+                  disabled={running === savedSearch.id}
+                  className='text-blue-600 hover:underline disabled:opacity-50'
+                >
+                  {running === savedSearch.id ? 'Running…' : 'Run'}
+                </button>
+                {savedSearch.alertId ? (
+                  <span className='text-xs text-green-700'>Alert on</span>
+                ) : (
+                  <button
+                    onClick={() =>
+                      setConverting(
+                        converting === savedSearch.id ? null : savedSearch.id
+                      )
+                    }
+                    className='text-gray-600 hover:underline'
+                  >
+                    Create alert
+                  </button>
+                )}
+                <button
+                  onClick={() => deleteSearch(savedSearch)}
+                  className='text-gray-400 hover:text-red-600'
+                  aria-label={`Delete ${savedSearch.name}`}
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+
+            {converting === savedSearch.id && (
+              <AlertForm
+                onSubmit={(channels, frequency) =>
+                  createAlert(savedSearch, channels, frequency)
+                }
+              />
+            )}
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+}
+
+function AlertForm({
+  onSubmit,
+}: {
+  onSubmit: (channels: AlertChannel[], frequency: AlertFrequency) => void;
+}) {
+  const [channels, setChannels] = useState<AlertChannel[]>(['email']);
+  const [frequency, setFrequency] = useState<AlertFrequency>('daily');
+
+  const toggleChannel = (channel: AlertChannel) => {
+    setChannels(prev =>
+      prev.includes(channel)
+        ? prev.filter(item => item !== channel)
+        : [...prev, channel]
+    );
+  };
+
+  return (
+    <div className='mt-2 rounded-md bg-gray-50 p-3'>
+      <div className='flex flex-wrap gap-3'>
+        {CHANNELS.map(channel => (
+          <label
+            key={channel.value}
+            className='flex items-center gap-1 text-xs text-gray-700'
+          >
+            <input
+              type='checkbox'
+              checked={channels.includes(channel.value)}
+              onChange={() => toggleChannel(channel.value)}
+            />
+            {channel.label}
+          </label>
+        ))}
+      </div>
+
+      <div className='mt-2 flex items-center gap-2'>
+        <select
+          value={frequency}
+          onChange={event => setFrequency(event.target.value as AlertFrequency)}
+          className='rounded-md border border-gray-300 px-2 py-1 text-xs'
+        >
+          {FREQUENCIES.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => onSubmit(channels, frequency)}
+          disabled={channels.length === 0}
+          className='rounded-md bg-blue-600 px-3 py-1 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50'
+        >
+          Create alert
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -5,17 +5,12 @@ import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { cn } from '@/lib/utils';
+import type { SearchFilters as Filters, SearchSort } from '@/types';
 import { useCallback, useState } from 'react';
 
-interface SearchFilters {
-  skills?: string[];
-  organizerType?: 'corporate' | 'startup' | 'government' | 'academic';
-  mode?: 'online' | 'offline' | 'hybrid';
-  location?: string;
-  type?: 'hackathon' | 'internship' | 'workshop';
-  deadline?: 'week' | 'month' | 'quarter' | 'any';
+interface SearchFilters extends Filters {
+  sort?: SearchSort;
   experience?: 'beginner' | 'intermediate' | 'advanced' | 'any';
-  stipend?: 'paid' | 'unpaid' | 'any';
 }
 
 interface SearchFiltersProps {
@@ -65,6 +60,37 @@ const MODES = [
   { value: 'hybrid', label: 'Hybrid', icon: '🔄' },
 ] as const;
 
+const SORT_OPTIONS: Array<{ value: SearchSort; label: string }> = [
+  { value: 'relevance', label: 'Most relevant' },
+  { value: 'deadline', label: 'Closing soonest' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'stipend', label: 'Highest stipend' },
+  { value: 'quality', label: 'Top rated' },
+  { value: 'distance', label: 'Nearest' },
+];
+
+const DISTANCE_OPTIONS = [10, 25, 50, 100, 250, 500];
+
+const DEADLINE_PRESETS = [
+  { days: 7, label: 'This week' },
+  { days: 30, label: 'This month' },
+  { days: 90, label: 'Next 3 months' },
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date inputs work in YYYY-MM-DD; upper bounds cover the whole day
+const toInputDate = (date?: Date | string) =>
+  date ? new Date(date).toISOString().slice(0, 10) : '';
+
+const fromInputDate = (value: string, endOfDay = false) =>
+  value
+    ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`)
+    : undefined;
+
+const fromInputNumber = (value: string) =>
+  value === '' ? undefined : Math.max(0, Number(value));
+
 export function SearchFilters({
   filters,
   onFiltersChange,
@@ -125,10 +151,24 @@ export function SearchFilters({
     if (filters.organizerType) count++;
     if (filters.mode) count++;
     if (filters.location) count++;
+    if (filters.maxDistance) count++;
     if (filters.type) count++;
-    if (filters.deadline && filters.deadline !== 'any') count++;
+    if (filters.deadlineAfter || filters.deadlineBefore) count++;
+    if (filters.startsAfter || filters.startsBefore) count++;
+    if (filters.endsAfter || filters.endsBefore) count++;
     if (filters.experience && filters.experience !== 'any') count++;
-    if (filters.stipend && filters.stipend !== 'any') count++;
+    if (filters.stipendMin !== undefined || filters.stipendMax !== undefined)
+      count++;
+    if (
+      filters.prizePoolMin !== undefined ||
+      filters.prizePoolMax !== undefined
+    )
+      count++;
+    if (
+      filters.durationMinDays !== undefined ||
+      filters.durationMaxDays !== undefined
+    )
+      count++;
     return count;
   };
 
@@ -260,6 +300,24 @@ export function SearchFilters({
       </CardHeader>
 
       <CardContent className='space-y-6'>
+        {/* Sort Order */}
+        <div>
+          <h4 className='text-sm font-medium text-secondary-900 mb-3'>
+            Sort By
+          </h4>
+          <select
+            value={filters.sort || 'relevance'}
+            onChange={e => updateFilter('sort', e.target.value as SearchSort)}
+            className='w-full border border-secondary-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-primary-500'
+          >
+            {SORT_OPTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {/* Opportunity Type */}
         <div>
           <h4 className='text-sm font-medium text-secondary-900 mb-3'>
@@ -463,28 +521,93 @@ export function SearchFilters({
           )}
         </div>
 
-        {/* Deadline */}
+        {/* Distance */}
         <div>
           <h4 className='text-sm font-medium text-secondary-900 mb-3'>
-            Application Deadline
+            Distance From Your City
           </h4>
           <select
-            value={filters.deadline || 'any'}
+            value={filters.maxDistance ?? 'any'}
             onChange={e =>
               updateFilter(
-                'deadline',
-                e.target.value === 'any' ? undefined : (e.target.value as any)
+                'maxDistance',
+                e.target.value === 'any' ? undefined : Number(e.target.value)
               )
             }
             className='w-full border border-secondary-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-primary-500'
           >
-            <option value='any'>Any time</option>
-            <option value='week'>Within a week</option>
-            <option value='month'>Within a month</option>
-            <option value='quarter'>Within 3 months</option>
+            <option value='any'>Profile default</option>
+            {DISTANCE_OPTIONS.map(km => (
+              <option key={km} value={km}>
+                Within {km} km
+              </option>
+            ))}
           </select>
         </div>
 
+        {/* Deadline */}
+        <div>
+          <h4 className='text-sm font-medium text-secondary-900 mb-3'>
+            Application Deadline
+          </h4>
+          <div className='flex flex-wrap gap-1 mb-3'>
+            {DEADLINE_PRESETS.map(({ days, label }) => (
+              <button
+                key={days}
+                onClick={() =>
+                  onFiltersChange({
+                    ...filters,
+                    deadlineAfter: undefined,
+                    deadlineBefore: new Date(Date.now() + days * DAY_MS),
+                  })
+                }
+                className='px-2 py-1 text-xs bg-secondary-100 hover:bg-secondary-200 text-secondary-700 rounded transition-colors'
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <DateRangeInputs
+            from={filters.deadlineAfter}
+            to={filters.deadlineBefore}
+            onChange={(from, to) =>
+              onFiltersChange({
+                ...filters,
+                deadlineAfter: from,
+                deadlineBefore: to,
+              })
+            }
+          />
+        </div>
+
+        {/* Event Dates */}
+        <div>
+          <h4 className='text-sm font-medium text-secondary-900 mb-3'>
+            Starts Between
+          </h4>
+          <DateRangeInputs
+            from={filters.startsAfter}
+            to={filters.startsBefore}
+            onChange={(from, to) =>
+              onFiltersChange({
+                ...filters,
+                startsAfter: from,
+                startsBefore: to,
+              })
+            }
+          />
+          <h4 className='text-sm font-medium text-secondary-900 mt-4 mb-3'>
+            Ends Between
+          </h4>
+          <DateRangeInputs
+            from={filters.endsAfter}
+            to={filters.endsBefore}
+            onChange={(from, to) =>
+              onFiltersChange({ ...filters, endsAfter: from, endsBefore: to })
+            }
+          />
+        </div>
+
         {/* Experience Level */}
         <div>
           <h4 className='text-sm font-medium text-secondary-900 mb-3'>
@@ -510,24 +633,109 @@ export function SearchFilters({
         {/* Stipend */}
         <div>
           <h4 className='text-sm font-medium text-secondary-900 mb-3'>
-            Compensation
+            Monthly Stipend (₹)
           </h4>
-          <select
-            value={filters.stipend || 'any'}
-            onChange={e =>
-              updateFilter(
-                'stipend',
-                e.target.value === 'any' ? undefined : (e.target.value as any)
-              )
+          <NumberRangeInputs
+            min={filters.stipendMin}
+            max={filters.stipendMax}
+            onChange={(min, max) =>
+              onFiltersChange({ ...filters, stipendMin: min, stipendMax: max })
             }
-            className='w-full border border-secondary-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-primary-500'
-          >
-            <option value='any'>Any</option>
-            <option value='paid'>Paid only</option>
-            <option value='unpaid'>Unpaid/Volunteer</option>
-          </select>
+          />
+        </div>
+
+        {/* Prize Pool */}
+        <div>
+          <h4 className='text-sm font-medium text-secondary-900 mb-3'>
+            Prize Pool (₹)
+          </h4>
+          <NumberRangeInputs
+            min={filters.prizePoolMin}
+            max={filters.prizePoolMax}
+            onChange={(min, max) =>
+              onFiltersChange({
+                ...filters,
+                prizePoolMin: min,
+                prizePoolMax: max,
+              })
+            }
+          />
+        </div>
+
+        {/* Duration */}
+        <div>
+          <h4 className='text-sm font-medium text-secondary-900 mb-3'>
+            Duration (days)
+          </h4>
+          <NumberRangeInputs
+            min={filters.durationMinDays}
+            max={filters.durationMaxDays}
+            onChange={(min, max) =>
+              onFiltersChange({
+                ...filters,
+                durationMinDays: min,
+                durationMaxDays: max,
+              })
+            }
+          />
         </div>
       </CardContent>
     </Card>
   );
 }
+
+function DateRangeInputs({
+  from,
+  to,
+  onChange,
+}: {
+  from?: Date;
+  to?: Date;
+  onChange: (from?: Date, to?: Date) => void;
+}) {
+  return (
+    <div className='grid grid-cols-2 gap-2'>
+      <Input
+        type='date'
+        aria-label='From'
+        value={toInputDate(from)}
+        onChange={e => onChange(fromInputDate(e.target.value), to)}
+      />
+      <Input
+        type='date'
+        aria-label='To'
+        value={toInputDate(to)}
+        onChange={e => onChange(from, fromInputDate(e.target.value, true))}
+      />
+    </div>
+  );
+}
+
+function NumberRangeInputs({
+  min,
+  max,
+  onChange,
+}: {
+  min?: number;
+  max?: number;
+  onChange: (min?: number, max?: number) => void;
+}) {
+  return (
+    <div className='grid grid-cols-2 gap-2'>
+      <Input
+        type='number'
+        min={0}
+        placeholder='Min'
+        value={min ?? ''}
+        onChange={e => onChange(fromInputNumber(e.target.value), max)}
+      />
+      <Input
+        type='number'
+        min={0}
+        placeholder='Max'
+        value={max ?? ''}
+        onChange={e => onChange(min, fromInputNumber(e.target.value))}
+      />
+    </div>
+  );
+}
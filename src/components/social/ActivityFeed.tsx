@@ -50,6 +50,10 @@ export function ActivityFeed() {
         return 'shared an opportunity';
       case 'completed_milestone':
         return 'completed a milestone';
+      case 'tracked_application':
+        return `started tracking ${activity.metadata?.opportunityTitle ?? 'an opportunity'}`;
+      case 'updated_application':
+        return `moved ${activity.metadata?.opportunityTitle ?? 'an application'} to ${activity.metadata?.status}`;
       default:
         return 'performed an action';
     }
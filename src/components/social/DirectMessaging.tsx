@@ -1,41 +1,129 @@
 'use client';
 
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
-import type { DirectMessageData } from '@/lib/services/social.service';
-import { useEffect, useRef, useState } from 'react';
+import {
+  ATTACHMENT_ACCEPT,
+  getAttachmentError,
+  isImageAttachment,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_MESSAGE_LENGTH,
+} from '@/lib/direct-messages';
+import type {
+  DirectMessageAttachmentData,
+  DirectMessageData,
+  ReadReceipt,
+} from '@/lib/services/social.service';
+import type { ApiResponse } from '@/types';
+import { Check, CheckCheck, Paperclip, Pencil, Trash2, X } from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+import { ReportButton } from './ReportButton';
+
+// How long a typing indicator lasts without a refresh, and how often to
+// refresh it while typing
+const TYPING_EXPIRY_MS = 5000;
+const TYPING_REFRESH_MS = 3000;
 
 interface DirectMessagingProps {
   otherUserId: string;
   otherUserName: string;
+  // Without a connected socket, messages are sent over HTTP and new ones
+  // appear when the conversation is reopened
+  socket?: Socket | null;
+  request?: <T>(event: string, data?: unknown) => Promise<ApiResponse<T>>;
+}
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem('token')}`,
+});
+
+async function uploadAttachment(
+  file: File
+): Promise<ApiResponse<DirectMessageAttachmentData>> {
+  const response = await fetch('/api/v1/social/messages/attachments', {
+    method: 'POST',
+    headers: {
+      ...authHeaders(),
+      'Content-Type': file.type,
+      'X-File-Name': encodeURIComponent(file.name),
+    },
+    body: file,
+  });
+
+  return response.json();
+}
+
+function AttachmentLink({
+  attachment,
+  light,
+}: {
+  attachment: DirectMessageAttachmentData;
+  light: boolean;
+}) {
+  const open = async () => {
+    try {
+      // Attachments need the auth header, so they cannot be plain links
+      const response = await fetch(attachment.url, { headers: authHeaders() });
+      if (!response.ok) throw new Error('Failed to download attachment');
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Download attachment error:', error);
+    }
+  };
+
+  return (
+    <button
+      type='button'
+      onClick={open}
+      className={`mt-1 flex items-center gap-1 text-xs underline ${
+        light ? 'text-blue-100' : 'text-blue-600'
+      }`}
+    >
+      <Paperclip className='h-3 w-3' />
+      {isImageAttachment(attachment.mimeType) ? 'Image: ' : ''}
+      {attachment.fileName} ({Math.ceil(attachment.size / 1024)} KB)
+    </button>
+  );
 }
 
 export function DirectMessaging({
   otherUserId,
   otherUserName,
+  socket,
+  request,
 }: DirectMessagingProps) {
   const [messages, setMessages] = useState<DirectMessageData[]>([]);
   const [loading, setLoading] = useState(true);
   const [newMessage, setNewMessage] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(
+    null
+  );
   const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [otherTyping, setOtherTyping] = useState(false);
+  const [blocked, setBlocked] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const typingExpiry = useRef<ReturnType<typeof setTimeout>>();
+  const lastTypingSent = useRef(0);
 
-  useEffect(() => {
-    fetchMessages();
-  }, [otherUserId]);
-
-  useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+  const live = Boolean(socket?.connected && request);
 
-  const fetchMessages = async () => {
+  const fetchMessages = useCallback(async () => {
+    setLoading(true);
     try {
+      // Opening the conversation marks the other user's messages as read
       const response = await fetch(
         `/api/v1/social/messages/${otherUserId}?page=1&limit=50`,
-        {
-          headers: {
-            Authorization: `Bearer ${localStorage.getItem('token')}`,
-          },
-        }
+        { headers: authHeaders() }
       );
 
       if (response.ok) {
@@ -47,38 +135,287 @@ export function DirectMessaging({
     } finally {
       setLoading(false);
     }
-  };
+  }, [otherUserId]);
+
+  useEffect(() => {
+    fetchMessages();
+    setEditingId(null);
+    setNewMessage('');
+    setFiles([]);
+    setOtherTyping(false);
+  }, [fetchMessages]);
 
-  const scrollToBottom = () => {
+  useEffect(() => {
+    setBlocked(false);
+    fetch('/api/v1/social/blocks', { headers: authHeaders() })
+      .then(response => (response.ok ? response.json() : null))
+      .then(result => {
+        if (result?.data) {
+          setBlocked(
+            result.data.some((user: { id: string }) => user.id === otherUserId)
+          );
+        }
+      })
+      .catch(error => console.error('Fetch blocks error:', error));
+  }, [otherUserId]);
+
+  useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const inConversation = (message: DirectMessageData) =>
+      message.sender.id === otherUserId || message.receiver.id === otherUserId;
+
+    const replace = (message: DirectMessageData) => {
+      if (!inConversation(message)) return;
+      setMessages(prev =>
+        prev.map(item => (item.id === message.id ? message : item))
+      );
+    };
+
+    const onNewMessage = (message: DirectMessageData) => {
+      if (!inConversation(message)) return;
+
+      setMessages(prev =>
+        prev.some(item => item.id === message.id) ? prev : [...prev, message]
+      );
+
+      if (message.sender.id === otherUserId) {
+        setOtherTyping(false);
+        socket.emit('mark-read', { userId: otherUserId });
+      }
+    };
+
+    const onRead = (receipt: ReadReceipt) => {
+      if (receipt.readerId !== otherUserId) return;
+
+      const read = new Set(receipt.messageIds);
+      setMessages(prev =>
+        prev.map(item =>
+          read.has(item.id)
+            ? { ...item, isRead: true, readAt: receipt.readAt }
+            : item
+        )
+      );
+    };
+
+    const onTyping = (data: { userId: string; isTyping: boolean }) => {
+      if (data.userId !== otherUserId) return;
+
+      clearTimeout(typingExpiry.current);
+      setOtherTyping(data.isTyping);
+      if (data.isTyping) {
+        typingExpiry.current = setTimeout(
+          () => setOtherTyping(false),
+          TYPING_EXPIRY_MS
+        );
+      }
+    };
+
+    socket.on('new-message', onNewMessage);
+    socket.on('message-updated', replace);
+    socket.on('message-deleted', replace);
+    socket.on('messages-read', onRead);
+    socket.on('typing', onTyping);
+
+    return () => {
+      socket.off('new-message', onNewMessage);
+      socket.off('message-updated', replace);
+      socket.off('message-deleted', replace);
+      socket.off('messages-read', onRead);
+      socket.off('typing', onTyping);
+      clearTimeout(typingExpiry.current);
+    };
+  }, [socket, otherUserId]);
+
+  const sendTyping = (isTyping: boolean) => {
+    if (!live) return;
+
+    const now = Date.now();
+    if (isTyping && now - lastTypingSent.current < TYPING_REFRESH_MS) return;
+
+    lastTypingSent.current = isTyping ? now : 0;
+    socket!.emit('typing', { receiverId: otherUserId, isTyping });
   };
 
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleInputChange = (value: string) => {
+    setNewMessage(value);
+    if (!editingId) sendTyping(value.length > 0);
+  };
 
-    if (!newMessage.trim()) return;
+  const handleFilesSelected = (selected: FileList | null) => {
+    if (!selected) return;
 
-    setSending(true);
-    try {
-      const response = await fetch('/api/v1/social/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${localStorage.getItem('token')}`,
-        },
-        body: JSON.stringify({
+    const next = [...files, ...Array.from(selected)];
+    const invalid = next
+      .map(file =>
+        getAttachmentError({
+          fileName: file.name,
+          mimeType: file.type,
+          size: file.size,
+        })
+      )
+      .find(Boolean);
+
+    if (invalid) {
+      setError(invalid);
+    } else if (next.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      setError(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files`);
+    } else {
+      setError(null);
+      setFiles(next);
+    }
+
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const sendMessage = async (content: string) => {
+    const attachmentIds: string[] = [];
+    for (const file of files) {
+      const upload = await uploadAttachment(file);
+      if (!upload.success) {
+        throw new Error(upload.error || 'Failed to upload attachment');
+      }
+      attachmentIds.push(upload.data!.id);
+    }
+
+    const result: ApiResponse<DirectMessageData> = live
+      ? await request!('send-message', {
           receiverId: otherUserId,
-          content: newMessage,
-        }),
-      });
+          content,
+          attachmentIds,
+        })
+      : await fetch('/api/v1/social/messages', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...authHeaders(),
+          },
+          body: JSON.stringify({
+            receiverId: otherUserId,
+            content,
+            attachmentIds,
+          }),
+        }).then(response => response.json());
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send message');
+    }
+
+    const message = result.data!;
+    setMessages(prev =>
+      prev.some(item => item.id === message.id) ? prev : [...prev, message]
+    );
+    setFiles([]);
+  };
+
+  const editMessage = async (messageId: string, content: string) => {
+    const result: ApiResponse<DirectMessageData> = live
+      ? await request!('edit-message', { messageId, content })
+      : await fetch(`/api/v1/social/messages/${messageId}`, {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+            ...authHeaders(),
+          },
+          body: JSON.stringify({ content }),
+        }).then(response => response.json());
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to edit message');
+    }
+
+    const message = result.data!;
+    setMessages(prev =>
+      prev.map(item => (item.id === message.id ? message : item))
+    );
+    setEditingId(null);
+  };
+
+  const deleteMessage = async (messageId: string) => {
+    setConfirmingDeleteId(null);
+
+    try {
+      const result: ApiResponse<DirectMessageData> = live
+        ? await request!('delete-message', { messageId })
+        : await fetch(`/api/v1/social/messages/${messageId}`, {
+            method: 'DELETE',
+            headers: authHeaders(),
+          }).then(response => response.json());
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete message');
+      }
+
+      const message = result.data!;
+      setMessages(prev =>
+        prev.map(item => (item.id === message.id ? message : item))
+      );
+    } catch (err) {
+      console.error('Delete message error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete message');
+    }
+  };
+
+  const startEditing = (message: DirectMessageData) => {
+    setEditingId(message.id);
+    setNewMessage(message.content);
+    setFiles([]);
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setNewMessage('');
+  };
+
+  const toggleBlock = async () => {
+    setError(null);
+    try {
+      const response = blocked
+        ? await fetch(`/api/v1/social/blocks/${otherUserId}`, {
+            method: 'DELETE',
+            headers: authHeaders(),
+          })
+        : await fetch('/api/v1/social/blocks', {
+            method: 'POST',
+            headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+            body: JSON.stringify({ userId: otherUserId }),
+          });
 
       if (response.ok) {
+        setBlocked(!blocked);
+      } else {
         const result = await response.json();
-        setMessages(prev => [...prev, result.data]);
-        setNewMessage('');
+        setError(result.error || 'Failed to update block');
       }
     } catch (error) {
-      console.error('Send message error:', error);
+      console.error('Toggle block error:', error);
+      setError('Failed to update block');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const content = newMessage.trim();
+    if (!content && (editingId || files.length === 0)) return;
+
+    setSending(true);
+    setError(null);
+    try {
+      if (editingId) {
+        await editMessage(editingId, content);
+      } else {
+        await sendMessage(content);
+        sendTyping(false);
+      }
+      setNewMessage('');
+    } catch (err) {
+      console.error('Send message error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send message');
     } finally {
       setSending(false);
     }
@@ -94,8 +431,23 @@ export function DirectMessaging({
 
   return (
     <div className='flex h-[600px] flex-col'>
-      <div className='border-b border-gray-200 bg-white p-4'>
-        <h2 className='text-lg font-semibold text-gray-900'>{otherUserName}</h2>
+      <div className='flex items-start justify-between border-b border-gray-200 bg-white p-4'>
+        <div>
+          <h2 className='text-lg font-semibold text-gray-900'>
+            {otherUserName}
+          </h2>
+          {otherTyping && <p className='text-xs text-gray-500'>typing...</p>}
+        </div>
+        <div className='flex items-center gap-3'>
+          <ReportButton contentType='user' contentId={otherUserId} />
+          <button
+            type='button'
+            onClick={toggleBlock}
+            className='text-xs text-gray-400 hover:text-red-600'
+          >
+            {blocked ? 'Unblock' : 'Block'}
+          </button>
+        </div>
       </div>
 
       <div className='flex-1 overflow-y-auto bg-gray-50 p-4'>
@@ -109,14 +461,60 @@ export function DirectMessaging({
           <div className='space-y-3'>
             {messages.map(message => {
               const isCurrentUser = message.sender.id !== otherUserId;
+              const isDeleted = Boolean(message.deletedAt);
 
               return (
                 <div
                   key={message.id}
-                  className={`flex ${
+                  className={`group flex ${
                     isCurrentUser ? 'justify-end' : 'justify-start'
                   }`}
                 >
+                  {isCurrentUser &&
+                    !isDeleted &&
+                    confirmingDeleteId === message.id && (
+                      <div className='mr-2 flex items-center gap-2 text-xs'>
+                        <span className='text-gray-600'>
+                          Delete for everyone?
+                        </span>
+                        <button
+                          type='button'
+                          onClick={() => setConfirmingDeleteId(null)}
+                          className='text-gray-600 hover:text-gray-900'
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          type='button'
+                          onClick={() => deleteMessage(message.id)}
+                          className='font-medium text-red-600 hover:text-red-700'
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  {isCurrentUser &&
+                    !isDeleted &&
+                    confirmingDeleteId !== message.id && (
+                      <div className='mr-2 hidden items-center gap-1 group-hover:flex'>
+                        <button
+                          type='button'
+                          onClick={() => startEditing(message)}
+                          className='text-gray-400 hover:text-gray-600'
+                          aria-label='Edit message'
+                        >
+                          <Pencil className='h-4 w-4' />
+                        </button>
+                        <button
+                          type='button'
+                          onClick={() => setConfirmingDeleteId(message.id)}
+                          className='text-gray-400 hover:text-red-600'
+                          aria-label='Delete message'
+                        >
+                          <Trash2 className='h-4 w-4' />
+                        </button>
+                      </div>
+                    )}
                   <div
                     className={`max-w-[70%] rounded-lg px-4 py-2 ${
                       isCurrentUser
@@ -124,15 +522,49 @@ export function DirectMessaging({
                         : 'bg-white text-gray-900'
                     }`}
                   >
-                    <p className='text-sm'>{message.content}</p>
+                    {isDeleted ? (
+                      <p className='text-sm italic opacity-75'>
+                        This message was deleted
+                      </p>
+                    ) : (
+                      <>
+                        {message.content && (
+                          <p className='whitespace-pre-wrap text-sm'>
+                            {message.content}
+                          </p>
+                        )}
+                        {message.attachments.map(attachment => (
+                          <AttachmentLink
+                            key={attachment.id}
+                            attachment={attachment}
+                            light={isCurrentUser}
+                          />
+                        ))}
+                      </>
+                    )}
                     <p
-                      className={`mt-1 text-xs ${
+                      className={`mt-1 flex items-center gap-1 text-xs ${
                         isCurrentUser ? 'text-blue-100' : 'text-gray-500'
                       }`}
                     >
                       {new Date(message.createdAt).toLocaleTimeString()}
+                      {message.editedAt && !isDeleted && ' · edited'}
+                      {isCurrentUser &&
+                        !isDeleted &&
+                        (message.isRead ? (
+                          <CheckCheck className='h-3 w-3' aria-label='Read' />
+                        ) : (
+                          <Check className='h-3 w-3' aria-label='Sent' />
+                        ))}
                     </p>
                   </div>
+                  {!isCurrentUser && !isDeleted && (
+                    <ReportButton
+                      contentType='direct_message'
+                      contentId={message.id}
+                      className='ml-2 hidden self-center group-hover:block'
+                    />
+                  )}
                 </div>
               );
             })}
@@ -142,21 +574,84 @@ export function DirectMessaging({
       </div>
 
       <div className='border-t border-gray-200 bg-white p-4'>
-        <form onSubmit={handleSendMessage} className='flex gap-2'>
+        {error && <p className='mb-2 text-sm text-red-600'>{error}</p>}
+
+        {editingId && (
+          <div className='mb-2 flex items-center justify-between text-xs text-gray-500'>
+            <span>Editing message</span>
+            <button
+              type='button'
+              onClick={cancelEditing}
+              className='hover:text-gray-700'
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {files.length > 0 && (
+          <div className='mb-2 flex flex-wrap gap-2'>
+            {files.map((file, index) => (
+              <span
+                key={`${file.name}-${index}`}
+                className='flex items-center gap-1 rounded bg-gray-100 px-2 py-1 text-xs text-gray-700'
+              >
+                {file.name}
+                <button
+                  type='button'
+                  onClick={() =>
+                    setFiles(prev => prev.filter((_, i) => i !== index))
+                  }
+                  aria-label={`Remove ${file.name}`}
+                >
+                  <X className='h-3 w-3' />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className='flex gap-2'>
+          {!editingId && (
+            <>
+              <input
+                ref={fileInputRef}
+                type='file'
+                multiple
+                accept={ATTACHMENT_ACCEPT}
+                className='hidden'
+                onChange={e => handleFilesSelected(e.target.files)}
+              />
+              <button
+                type='button'
+                onClick={() => fileInputRef.current?.click()}
+                disabled={sending}
+                className='rounded-lg border border-gray-300 px-3 py-2 text-gray-500 hover:text-gray-700 disabled:opacity-50'
+                aria-label='Attach files'
+              >
+                <Paperclip className='h-4 w-4' />
+              </button>
+            </>
+          )}
           <input
             type='text'
             placeholder='Type a message...'
             value={newMessage}
-            onChange={e => setNewMessage(e.target.value)}
+            maxLength={MAX_MESSAGE_LENGTH}
+            onChange={e => handleInputChange(e.target.value)}
+            onBlur={() => sendTyping(false)}
             className='flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none'
             disabled={sending}
           />
           <button
             type='submit'
-            disabled={sending || !newMessage.trim()}
+            disabled={
+              sending ||
+              (!newMessage.trim() && (Boolean(editingId) || files.length === 0))
+            }
             className='rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50'
           >
-            {sending ? 'Sending...' : 'Send'}
+            {sending ? 'Sending...' : editingId ? 'Save' : 'Send'}
           </button>
         </form>
       </div>
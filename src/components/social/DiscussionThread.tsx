@@ -4,6 +4,7 @@ import { Card } from '@/components/ui/Card';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import type { DiscussionThread } from '@/lib/services/social.service';
 import { useEffect, useState } from 'react';
+import { ReportButton } from './ReportButton';
 
 interface DiscussionThreadProps {
   opportunityId: string;
@@ -145,6 +146,11 @@ export function DiscussionThreadComponent({
                 <span>
                   {new Date(discussion.createdAt).toLocaleDateString()}
                 </span>
+                <ReportButton
+                  contentType='discussion'
+                  contentId={discussion.id}
+                  className='ml-auto'
+                />
               </div>
             </Card>
           ))}
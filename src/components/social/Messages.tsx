@@ -0,0 +1,145 @@
+'use client';
+
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { useMessagingSocket } from '@/hooks/useMessagingSocket';
+import type { ConversationSummary } from '@/lib/services/social.service';
+import { useCallback, useEffect, useState } from 'react';
+import { DirectMessaging } from './DirectMessaging';
+
+function preview(conversation: ConversationSummary): string {
+  const { lastMessage } = conversation;
+  const fromOther = lastMessage.senderId === conversation.user.id;
+  const text = lastMessage.deletedAt
+    ? 'Message deleted'
+    : lastMessage.content || (lastMessage.hasAttachments ? 'Attachment' : '');
+
+  return fromOther ? text : `You: ${text}`;
+}
+
+export function Messages() {
+  const { socket, connected, request } = useMessagingSocket();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [selected, setSelected] = useState<ConversationSummary['user'] | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+
+  const fetchConversations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/v1/social/conversations', {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        setConversations(result.data);
+      }
+    } catch (error) {
+      console.error('Fetch conversations error:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConversations();
+  }, [fetchConversations]);
+
+  // Any change to a conversation can move it up the list or change its
+  // unread count
+  useEffect(() => {
+    if (!socket) return;
+
+    const events = [
+      'new-message',
+      'message-updated',
+      'message-deleted',
+      'messages-read',
+    ];
+    events.forEach(event => socket.on(event, fetchConversations));
+
+    return () => {
+      events.forEach(event => socket.off(event, fetchConversations));
+    };
+  }, [socket, fetchConversations]);
+
+  const openConversation = (conversation: ConversationSummary) => {
+    setSelected(conversation.user);
+    setConversations(prev =>
+      prev.map(item =>
+        item.user.id === conversation.user.id
+          ? { ...item, unreadCount: 0 }
+          : item
+      )
+    );
+  };
+
+  return (
+    <div className='grid grid-cols-1 overflow-hidden rounded-lg bg-white shadow md:grid-cols-3'>
+      <div className='border-b border-gray-200 md:border-b-0 md:border-r'>
+        <div className='flex items-center justify-between border-b border-gray-200 p-4'>
+          <h2 className='text-lg font-semibold text-gray-900'>Messages</h2>
+          <span
+            className={`h-2 w-2 rounded-full ${
+              connected ? 'bg-green-500' : 'bg-gray-300'
+            }`}
+            title={connected ? 'Connected' : 'Offline'}
+          />
+        </div>
+
+        {loading ? (
+          <div className='flex justify-center py-8'>
+            <LoadingSpinner />
+          </div>
+        ) : conversations.length === 0 ? (
+          <p className='p-4 text-sm text-gray-500'>No conversations yet</p>
+        ) : (
+          <ul className='max-h-[600px] divide-y divide-gray-100 overflow-y-auto'>
+            {conversations.map(conversation => (
+              <li key={conversation.user.id}>
+                <button
+                  type='button'
+                  onClick={() => openConversation(conversation)}
+                  className={`flex w-full items-start justify-between gap-2 p-4 text-left hover:bg-gray-50 ${
+                    selected?.id === conversation.user.id ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <div className='min-w-0'>
+                    <p className='font-medium text-gray-900'>
+                      {conversation.user.name}
+                    </p>
+                    <p className='truncate text-sm text-gray-500'>
+                      {preview(conversation)}
+                    </p>
+                  </div>
+                  {conversation.unreadCount > 0 && (
+                    <span className='rounded-full bg-blue-600 px-2 py-0.5 text-xs font-medium text-white'>
+                      {conversation.unreadCount}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className='md:col-span-2'>
+        {selected ? (
+          <DirectMessaging
+            otherUserId={selected.id}
+            otherUserName={selected.name}
+            socket={socket}
+            request={connected ? request : undefined}
+          />
+        ) : (
+          <div className='flex h-[600px] items-center justify-center'>
+            <p className='text-gray-500'>Select a conversation</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
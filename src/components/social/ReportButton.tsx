@@ -0,0 +1,135 @@
+'use client';
+
+import type { ReportReason } from '@/lib/content-filter';
+import { REPORT_REASONS } from '@/lib/content-filter';
+import type { ReportableContentType } from '@/lib/services/moderation.service';
+import { Flag } from 'lucide-react';
+import { useState } from 'react';
+
+const REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam',
+  harassment: 'Harassment',
+  hate_speech: 'Hate speech',
+  inappropriate: 'Inappropriate',
+  misinformation: 'Misinformation',
+  other: 'Other',
+};
+
+interface ReportButtonProps {
+  contentType: ReportableContentType;
+  contentId: string;
+  className?: string;
+}
+
+export function ReportButton({
+  contentType,
+  contentId,
+  className = '',
+}: ReportButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason>('spam');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [reported, setReported] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submitReport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/v1/social/reports', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({
+          contentType,
+          contentId,
+          reason,
+          details: details.trim() || undefined,
+        }),
+      });
+      const result = await response.json();
+
+      // A repeat report still means the moderators have it
+      if (response.ok || response.status === 409) {
+        setReported(true);
+        setOpen(false);
+      } else {
+        setError(result.error || 'Failed to submit report');
+      }
+    } catch (error) {
+      console.error('Report content error:', error);
+      setError('Failed to submit report');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (reported) {
+    return (
+      <span className={`text-xs text-gray-500 ${className}`}>Reported</span>
+    );
+  }
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        type='button'
+        onClick={() => setOpen(!open)}
+        className='flex items-center gap-1 text-xs text-gray-400 hover:text-red-600'
+        aria-label='Report'
+      >
+        <Flag className='h-3 w-3' />
+        Report
+      </button>
+
+      {open && (
+        <form
+          onSubmit={submitReport}
+          className='absolute right-0 z-10 mt-1 w-64 space-y-2 rounded-lg border border-gray-200 bg-white p-3 text-left shadow-lg'
+        >
+          <select
+            value={reason}
+            onChange={e => setReason(e.target.value as ReportReason)}
+            className='w-full rounded border border-gray-300 px-2 py-1 text-sm text-gray-900'
+          >
+            {REPORT_REASONS.map(option => (
+              <option key={option} value={option}>
+                {REASON_LABELS[option]}
+              </option>
+            ))}
+          </select>
+          <textarea
+            value={details}
+            onChange={e => setDetails(e.target.value)}
+            maxLength={1000}
+            rows={3}
+            placeholder='Anything the moderators should know (optional)'
+            className='w-full rounded border border-gray-300 px-2 py-1 text-sm text-gray-900'
+          />
+          {error && <p className='text-xs text-red-600'>{error}</p>}
+          <div className='flex justify-end gap-2'>
+            <button
+              type='button'
+              onClick={() => setOpen(false)}
+              className='px-2 py-1 text-xs text-gray-600 hover:text-gray-900'
+            >
+              Cancel
+            </button>
+            <button
+              type='submit'
+              disabled={submitting}
+              className='rounded bg-red-600 px-3 py-1 text-xs font-medium text-white hover:bg-red-700 disabled:opacity-50'
+            >
+              {submitting ? 'Sending...' : 'Report'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
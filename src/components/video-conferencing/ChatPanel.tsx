@@ -31,7 +31,11 @@ export function ChatPanel({ roomCode, onClose }: ChatPanelProps) {
 
   const loadMessages = async () => {
     try {
-      const response = await fetch(`/api/video/rooms/${roomCode}/messages`);
+      const response = await fetch(`/api/v1/video/rooms/${roomCode}/messages`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
       const { data } = await response.json();
       setMessages(data || []);
     } catch (error) {
@@ -43,9 +47,12 @@ export function ChatPanel({ roomCode, onClose }: ChatPanelProps) {
     if (!inputValue.trim()) return;
 
     try {
-      const response = await fetch(`/api/video/rooms/${roomCode}/messages`, {
+      const response = await fetch(`/api/v1/video/rooms/${roomCode}/messages`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
         body: JSON.stringify({
           participantId: 'current-participant-id', // Should come from context
           content: inputValue,
@@ -0,0 +1,139 @@
+'use client';
+
+import type { PollResults, VideoCallPoll } from '@/types/video-conferencing';
+import { BarChart3, X } from 'lucide-react';
+import { useState } from 'react';
+
+interface PollPanelProps {
+  poll: VideoCallPoll;
+  results: PollResults | null;
+  hasVoted: boolean;
+  isModerator: boolean;
+  error?: string | null;
+  onVote: (optionIds: string[]) => void;
+  onClose: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * The call's current poll, with live results once you have voted or it has
+ * closed
+ */
+export function PollPanel({
+  poll,
+  results,
+  hasVoted,
+  isModerator,
+  error,
+  onVote,
+  onClose,
+  onDismiss,
+}: PollPanelProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const isOpen = results ? results.isActive : poll.isActive;
+  const showResults = hasVoted || !isOpen || isModerator;
+  const totalVotes = results?.totalVotes || 0;
+
+  const toggleOption = (optionId: string) => {
+    if (poll.allowMultiple) {
+      setSelected(prev =>
+        prev.includes(optionId)
+          ? prev.filter(id => id !== optionId)
+          : [...prev, optionId]
+      );
+    } else {
+      setSelected([optionId]);
+    }
+  };
+
+  return (
+    <div className='w-72 rounded-lg bg-gray-800 p-4 text-white shadow-lg'>
+      <div className='mb-3 flex items-start justify-between gap-2'>
+        <div className='flex items-center gap-2'>
+          <BarChart3 className='h-4 w-4 flex-shrink-0 text-blue-400' />
+          <h3 className='font-semibold'>{poll.question}</h3>
+        </div>
+        <button
+          onClick={onDismiss}
+          className='rounded-full p-1 hover:bg-gray-700'
+          aria-label='Hide poll'
+        >
+          <X className='h-4 w-4' />
+        </button>
+      </div>
+
+      <ul className='space-y-2'>
+        {(results?.options || poll.options).map(option => {
+          const votes = results?.options.find(o => o.id === option.id)?.votes;
+          const share = totalVotes
+            ? Math.min(((votes || 0) / totalVotes) * 100, 100)
+            : 0;
+
+          return (
+            <li key={option.id} className='text-sm'>
+              {showResults ? (
+                <>
+                  <div className='flex justify-between'>
+                    <span>{option.text}</span>
+                    <span className='text-gray-400'>{votes || 0}</span>
+                  </div>
+                  <div className='mt-1 h-1.5 rounded bg-gray-700'>
+                    <div
+                      className='h-1.5 rounded bg-blue-500'
+                      style={{ width: `${share}%` }}
+                    />
+                  </div>
+                  {results?.voters?.[option.id] && (
+                    <p className='mt-1 truncate text-xs text-gray-400'>
+                      {results.voters[option.id]
+                        .map(voter => voter.displayName)
+                        .join(', ')}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <label className='flex cursor-pointer items-center gap-2'>
+                  <input
+                    type={poll.allowMultiple ? 'checkbox' : 'radio'}
+                    name={poll.id}
+                    checked={selected.includes(option.id)}
+                    onChange={() => toggleOption(option.id)}
+                  />
+                  {option.text}
+                </label>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <p className='mt-3 text-xs text-gray-400'>
+        {totalVotes} {totalVotes === 1 ? 'vote' : 'votes'}
+        {poll.isAnonymous ? ' · Anonymous' : ''}
+        {!isOpen ? ' · Closed' : ''}
+      </p>
+
+      {error && <p className='mt-2 text-xs text-red-400'>{error}</p>}
+
+      {isOpen && !hasVoted && (
+        <button
+          onClick={() => onVote(selected)}
+          disabled={selected.length === 0}
+          className='mt-3 w-full rounded bg-blue-600 py-1 text-sm hover:bg-blue-700 disabled:opacity-50'
+        >
+          Vote
+        </button>
+      )}
+
+      {isOpen && isModerator && (
+        <button
+          onClick={onClose}
+          className='mt-2 w-full rounded bg-gray-700 py-1 text-sm hover:bg-gray-600'
+        >
+          End poll
+        </button>
+      )}
+    </div>
+  );
+}
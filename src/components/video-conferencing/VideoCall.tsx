@@ -1,11 +1,21 @@
 'use client';
 
+import { useCallRecorder } from '@/hooks/useCallRecorder';
 import { WebRTCService } from '@/lib/services/webrtc.service';
-import { VideoQuality } from '@/types/video-conferencing';
+import type {
+  ParticipantRole,
+  PollResults,
+  VideoCallPoll,
+  VideoQuality,
+} from '@/types/video-conferencing';
 import { useEffect, useRef, useState } from 'react';
+import { io } from 'socket.io-client';
 import { ChatPanel } from './ChatPanel';
 import { ParticipantGrid } from './ParticipantGrid';
+import { PollPanel } from './PollPanel';
 import { VideoControls } from './VideoControls';
+import type { WaitingParticipant } from './WaitingRoomPanel';
+import { WaitingRoomPanel } from './WaitingRoomPanel';
 
 interface VideoCallProps {
   roomCode: string;
@@ -23,10 +33,26 @@ export function VideoCall({ roomCode, displayName, onLeave }: VideoCallProps) {
   );
   const [connectionQuality, setConnectionQuality] =
     useState<VideoQuality>('high');
+  const [role, setRole] = useState<ParticipantRole>('participant');
+  const [isWaiting, setIsWaiting] = useState(false);
+  // Why we could not get into the call, shown instead of the call
+  const [callError, setCallError] = useState<string | null>(null);
+  const [waiting, setWaiting] = useState<WaitingParticipant[]>([]);
+  const [isLocked, setIsLocked] = useState(false);
+  const [poll, setPoll] = useState<VideoCallPoll | null>(null);
+  const [pollResults, setPollResults] = useState<PollResults | null>(null);
+  const [hasVoted, setHasVoted] = useState(false);
+  const [pollError, setPollError] = useState<string | null>(null);
+  const [breakoutRoomId, setBreakoutRoomId] = useState<string | null>(null);
+  const [breakoutEndsAt, setBreakoutEndsAt] = useState<Date | null>(null);
+  const [breakoutError, setBreakoutError] = useState<string | null>(null);
+  const [roomId, setRoomId] = useState<string | null>(null);
+  const recorder = useCallRecorder();
 
   const webrtcService = useRef<WebRTCService | null>(null);
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const socketRef = useRef<any>(null);
+  const peerIdRef = useRef<string | null>(null);
 
   useEffect(() => {
     initializeCall();
@@ -36,14 +62,24 @@ export function VideoCall({ roomCode, displayName, onLeave }: VideoCallProps) {
   const initializeCall = async () => {
     try {
       // Join room via API
-      const response = await fetch(`/api/video/rooms/${roomCode}/join`, {
+      const response = await fetch(`/api/v1/video/rooms/${roomCode}/join`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
         body: JSON.stringify({ displayName }),
       });
 
-      const { data } = await response.json();
-      const { iceServers, participant } = data;
+      const result = await response.json();
+      if (!result.success) {
+        setCallError(result.error || 'Failed to join call');
+        return;
+      }
+
+      const { iceServers, participant, room } = result.data;
+      setIsLocked(room.isLocked);
+      setRoomId(room.id);
 
       // Initialize WebRTC service
       webrtcService.current = new WebRTCService(iceServers);
@@ -68,19 +104,49 @@ export function VideoCall({ roomCode, displayName, onLeave }: VideoCallProps) {
       }
 
       // Connect to signaling server
-      connectSignaling(participant.peerId);
+      peerIdRef.current = participant.peerId;
+      connectSignaling(participant.id);
 
       // Measure bandwidth
       measureBandwidth();
     } catch (error) {
       console.error('Error initializing call:', error);
-      alert('Failed to join call. Please check camera/microphone permissions.');
+      endWithError(
+        'Failed to join call. Please check camera/microphone permissions.'
+      );
     }
   };
 
-  const connectSignaling = (peerId: string) => {
-    const socket = require('socket.io-client')(
-      process.env.NEXT_PUBLIC_SIGNALING_URL || 'http://localhost:3001'
+  // Called once we are in the call, straight away or after the waiting room
+  const enterCall = (response: any) => {
+    setIsWaiting(false);
+    setRole(response.role);
+    setWaiting(response.waiting || []);
+
+    // Connect to existing participants
+    response.participants.forEach((p: any) => {
+      createPeerConnection(p.peerId);
+    });
+  };
+
+  // Moving between the main room and a breakout room swaps who we talk to
+  const switchRoom = (data: {
+    breakoutRoomId: string | null;
+    participants: any[];
+  }) => {
+    webrtcService.current?.getPeerIds().forEach(removeParticipant);
+    setBreakoutRoomId(data.breakoutRoomId);
+    setBreakoutError(null);
+
+    data.participants.forEach((p: any) => {
+      createPeerConnection(p.peerId);
+    });
+  };
+
+  const connectSignaling = (participantId: string) => {
+    const socket = io(
+      process.env.NEXT_PUBLIC_SIGNALING_URL || 'http://localhost:3001',
+      { auth: { token: localStorage.getItem('token') } }
     );
 
     socketRef.current = socket;
@@ -88,22 +154,54 @@ export function VideoCall({ roomCode, displayName, onLeave }: VideoCallProps) {
     socket.on('connect', () => {
       console.log('Connected to signaling server');
 
-      socket.emit(
-        'join-room',
-        {
-          roomCode,
-          displayName,
-          peerId,
-        },
-        (response: any) => {
-          console.log('Joined room:', response);
+      socket.emit('join-room', { roomCode, participantId }, (response: any) => {
+        console.log('Joined room:', response);
 
-          // Connect to existing participants
-          response.participants.forEach((p: any) => {
-            createPeerConnection(p.peerId);
-          });
+        if (!response.success) {
+          endWithError(response.error || 'Failed to join call');
+        } else if (response.waiting === true) {
+          setIsWaiting(true);
+        } else {
+          enterCall(response);
         }
-      );
+      });
+    });
+
+    socket.on('admitted', (response: any) => {
+      enterCall(response);
+    });
+
+    socket.on('denied', () => {
+      endWithError('The host did not let you into the call');
+    });
+
+    // Waiting room updates, sent to the host and co-hosts
+    socket.on('participant-waiting', (participant: WaitingParticipant) => {
+      setWaiting(prev => [...prev, participant]);
+    });
+
+    const removeWaiting = (data: { peerId: string }) => {
+      setWaiting(prev => prev.filter(p => p.peerId !== data.peerId));
+    };
+    socket.on('participant-admitted', removeWaiting);
+    socket.on('participant-left-waiting-room', removeWaiting);
+
+    socket.on('room-lock-changed', (data: { locked: boolean }) => {
+      setIsLocked(data.locked);
+    });
+
+    socket.on(
+      'role-changed',
+      (data: { peerId: string; role: ParticipantRole }) => {
+        if (data.peerId === peerIdRef.current) {
+          setRole(data.role);
+        }
+      }
+    );
+
+    socket.on('force-mute', () => {
+      webrtcService.current?.toggleAudio(false);
+      setIsAudioEnabled(false);
     });
 
     socket.on('participant-joined', (data: any) => {
@@ -132,16 +230,43 @@ export function VideoCall({ roomCode, displayName, onLeave }: VideoCallProps) {
       console.log('Media state changed:', data);
     });
 
+    // Polls
+    socket.on('poll-created', (data: VideoCallPoll) => {
+      setPoll(data);
+      setPollResults(null);
+      setHasVoted(false);
+      setPollError(null);
+    });
+
+    const updateResults = (data: PollResults) => {
+      setPollResults(prev =>
+        !prev || prev.pollId === data.pollId ? data : prev
+      );
+    };
+    socket.on('poll-results', updateResults);
+    socket.on('poll-closed', updateResults);
+
+    // Breakout rooms
+    socket.on('moved-to-breakout-room', switchRoom);
+    socket.on('returned-to-main-room', switchRoom);
+
+    socket.on('breakout-rooms-opened', (data: { endsAt: string | null }) => {
+      setBreakoutEndsAt(data.endsAt ? new Date(data.endsAt) : null);
+    });
+
+    socket.on('breakout-rooms-closed', () => {
+      setBreakoutEndsAt(null);
+    });
+
     socket.on('kicked', () => {
-      alert('You have been removed from the call');
-      handleLeave();
+      endWithError('You have been removed from the call');
     });
   };
 
   const createPeerConnection = async (peerId: string) => {
     if (!webrtcService.current) return;
 
-    const pc = webrtcService.current.createPeerConnection(
+    webrtcService.current.createPeerConnection(
       peerId,
       candidate => {
         socketRef.current?.emit('ice-candidate', {
@@ -292,7 +417,70 @@ export function VideoCall({ roomCode, displayName, onLeave }: VideoCallProps) {
     }
   };
 
+  const admitParticipant = (peerId: string) => {
+    socketRef.current?.emit('admit-participant', { peerId });
+  };
+
+  const denyParticipant = (peerId: string) => {
+    socketRef.current?.emit('deny-participant', { peerId });
+    setWaiting(prev => prev.filter(p => p.peerId !== peerId));
+  };
+
+  const admitAll = () => {
+    socketRef.current?.emit('admit-all');
+  };
+
+  const toggleLock = () => {
+    socketRef.current?.emit('lock-room', { locked: !isLocked });
+  };
+
+  const votePoll = (optionIds: string[]) => {
+    if (!poll) return;
+
+    socketRef.current?.emit(
+      'poll-vote',
+      { pollId: poll.id, optionIds },
+      (response: any) => {
+        if (response.success) {
+          setHasVoted(true);
+          setPollResults(response.results);
+          setPollError(null);
+        } else {
+          setPollError(response.error || 'Failed to vote');
+        }
+      }
+    );
+  };
+
+  const closePoll = () => {
+    if (poll) {
+      socketRef.current?.emit('close-poll', { pollId: poll.id });
+    }
+  };
+
+  const returnToMainRoom = () => {
+    socketRef.current?.emit('return-to-main-room', (response: any) => {
+      if (response.success) {
+        switchRoom(response);
+      } else {
+        setBreakoutError(response.error || 'Failed to return to main room');
+      }
+    });
+  };
+
+  const isModerator = role === 'host' || role === 'co_host';
+
+  const toggleRecording = () => {
+    const stream = webrtcService.current?.getLocalStream();
+    if (recorder.isRecording) {
+      recorder.stop();
+    } else if (roomId && stream) {
+      recorder.start(roomId, stream);
+    }
+  };
+
   const handleLeave = () => {
+    recorder.stop();
     cleanup();
     onLeave();
   };
@@ -302,9 +490,95 @@ export function VideoCall({ roomCode, displayName, onLeave }: VideoCallProps) {
     socketRef.current?.disconnect();
   };
 
+  const endWithError = (message: string) => {
+    recorder.stop();
+    cleanup();
+    setIsWaiting(false);
+    setCallError(message);
+  };
+
+  if (callError) {
+    return (
+      <div className='flex h-screen flex-col items-center justify-center gap-4 bg-gray-900 text-white'>
+        <p className='text-lg text-red-400'>{callError}</p>
+        <button
+          onClick={onLeave}
+          className='rounded bg-gray-700 px-4 py-2 hover:bg-gray-600'
+        >
+          Back
+        </button>
+      </div>
+    );
+  }
+
+  if (isWaiting) {
+    return (
+      <div className='flex h-screen flex-col items-center justify-center gap-4 bg-gray-900 text-white'>
+        <p className='text-lg'>Waiting for the host to let you in...</p>
+        <button
+          onClick={handleLeave}
+          className='rounded bg-red-600 px-4 py-2 hover:bg-red-700'
+        >
+          Leave
+        </button>
+      </div>
+    );
+  }
+
   return (
-    <div className='flex h-screen bg-gray-900'>
+    <div className='relative flex h-screen bg-gray-900'>
+      {isModerator && (
+        <div className='absolute left-4 top-4 z-10'>
+          <WaitingRoomPanel
+            waiting={waiting}
+            isLocked={isLocked}
+            onAdmit={admitParticipant}
+            onDeny={denyParticipant}
+            onAdmitAll={admitAll}
+            onToggleLock={toggleLock}
+          />
+        </div>
+      )}
+
+      {poll && (
+        <div className='absolute right-4 top-4 z-10'>
+          <PollPanel
+            key={poll.id}
+            poll={poll}
+            results={pollResults}
+            hasVoted={hasVoted}
+            isModerator={isModerator}
+            error={pollError}
+            onVote={votePoll}
+            onClose={closePoll}
+            onDismiss={() => setPoll(null)}
+          />
+        </div>
+      )}
+
       <div className='flex-1 flex flex-col'>
+        {breakoutRoomId && (
+          <div className='flex items-center justify-center gap-4 bg-blue-900 p-2 text-sm text-white'>
+            <span>
+              You are in a breakout room
+              {breakoutEndsAt &&
+                ` until ${breakoutEndsAt.toLocaleTimeString([], {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}`}
+            </span>
+            {breakoutError && (
+              <span className='text-red-300'>{breakoutError}</span>
+            )}
+            <button
+              onClick={returnToMainRoom}
+              className='rounded bg-blue-600 px-3 py-1 hover:bg-blue-700'
+            >
+              Return to main room
+            </button>
+          </div>
+        )}
+
         {/* Video Grid */}
         <div className='flex-1 p-4'>
           <ParticipantGrid
@@ -316,15 +590,23 @@ export function VideoCall({ roomCode, displayName, onLeave }: VideoCallProps) {
 
         {/* Controls */}
         <div className='p-4 bg-gray-800'>
+          {recorder.error && (
+            <p className='mb-2 text-center text-sm text-red-400'>
+              {recorder.error}
+            </p>
+          )}
           <VideoControls
             isAudioEnabled={isAudioEnabled}
             isVideoEnabled={isVideoEnabled}
             isScreenSharing={isScreenSharing}
             connectionQuality={connectionQuality}
+            canRecord={isModerator}
+            isRecording={recorder.isRecording}
             onToggleAudio={toggleAudio}
             onToggleVideo={toggleVideo}
             onToggleScreenShare={toggleScreenShare}
             onToggleChat={() => setIsChatOpen(!isChatOpen)}
+            onToggleRecording={toggleRecording}
             onLeave={handleLeave}
           />
         </div>
@@ -1,7 +1,8 @@
 'use client';
 
-import { VideoQuality } from '@/types/video-conferencing';
+import type { VideoQuality } from '@/types/video-conferencing';
 import {
+  Circle,
   MessageSquare,
   Mic,
   MicOff,
@@ -9,6 +10,7 @@ import {
   MonitorOff,
   PhoneOff,
   Signal,
+  Square,
   Video,
   VideoOff,
 } from 'lucide-react';
@@ -18,10 +20,13 @@ interface VideoControlsProps {
   isVideoEnabled: boolean;
   isScreenSharing: boolean;
   connectionQuality: VideoQuality;
+  canRecord?: boolean;
+  isRecording?: boolean;
   onToggleAudio: () => void;
   onToggleVideo: () => void;
   onToggleScreenShare: () => void;
   onToggleChat: () => void;
+  onToggleRecording?: () => void;
   onLeave: () => void;
 }
 
@@ -30,10 +35,13 @@ export function VideoControls({
   isVideoEnabled,
   isScreenSharing,
   connectionQuality,
+  canRecord = false,
+  isRecording = false,
   onToggleAudio,
   onToggleVideo,
   onToggleScreenShare,
   onToggleChat,
+  onToggleRecording,
   onLeave,
 }: VideoControlsProps) {
   const getQualityColor = () => {
@@ -112,6 +120,25 @@ export function VideoControls({
         <MessageSquare className='w-6 h-6 text-white' />
       </button>
 
+      {/* Recording Toggle, for the host and co-hosts */}
+      {canRecord && (
+        <button
+          onClick={onToggleRecording}
+          className={`p-4 rounded-full transition-colors ${
+            isRecording
+              ? 'bg-red-600 hover:bg-red-700'
+              : 'bg-gray-700 hover:bg-gray-600'
+          }`}
+          aria-label={isRecording ? 'Stop Recording' : 'Start Recording'}
+        >
+          {isRecording ? (
+            <Square className='w-6 h-6 text-white' />
+          ) : (
+            <Circle className='w-6 h-6 text-red-500' />
+          )}
+        </button>
+      )}
+
       {/* Connection Quality Indicator */}
       <div className='flex items-center gap-2 px-4 py-2 bg-gray-700 rounded-full'>
         <Signal className={`w-5 h-5 ${getQualityColor()}`} />
@@ -0,0 +1,88 @@
+'use client';
+
+import { Lock, Unlock, UserCheck, UserX } from 'lucide-react';
+
+export interface WaitingParticipant {
+  peerId: string;
+  displayName: string;
+}
+
+interface WaitingRoomPanelProps {
+  waiting: WaitingParticipant[];
+  isLocked: boolean;
+  onAdmit: (peerId: string) => void;
+  onDeny: (peerId: string) => void;
+  onAdmitAll: () => void;
+  onToggleLock: () => void;
+}
+
+/**
+ * Host and co-host controls for the waiting room and the room lock
+ */
+export function WaitingRoomPanel({
+  waiting,
+  isLocked,
+  onAdmit,
+  onDeny,
+  onAdmitAll,
+  onToggleLock,
+}: WaitingRoomPanelProps) {
+  return (
+    <div className='w-72 rounded-lg bg-gray-800 p-4 text-white shadow-lg'>
+      <div className='mb-3 flex items-center justify-between'>
+        <h3 className='font-semibold'>Waiting room ({waiting.length})</h3>
+        <button
+          onClick={onToggleLock}
+          className='rounded-full p-2 hover:bg-gray-700'
+          aria-label={isLocked ? 'Unlock room' : 'Lock room'}
+          title={isLocked ? 'Unlock room' : 'Lock room'}
+        >
+          {isLocked ? (
+            <Lock className='h-4 w-4 text-yellow-400' />
+          ) : (
+            <Unlock className='h-4 w-4' />
+          )}
+        </button>
+      </div>
+
+      {waiting.length === 0 ? (
+        <p className='text-sm text-gray-400'>Nobody is waiting</p>
+      ) : (
+        <>
+          <ul className='space-y-2'>
+            {waiting.map(participant => (
+              <li
+                key={participant.peerId}
+                className='flex items-center justify-between text-sm'
+              >
+                <span className='truncate'>{participant.displayName}</span>
+                <div className='flex gap-1'>
+                  <button
+                    onClick={() => onAdmit(participant.peerId)}
+                    className='rounded p-1 text-green-400 hover:bg-gray-700'
+                    aria-label={`Admit ${participant.displayName}`}
+                  >
+                    <UserCheck className='h-4 w-4' />
+                  </button>
+                  <button
+                    onClick={() => onDeny(participant.peerId)}
+                    className='rounded p-1 text-red-400 hover:bg-gray-700'
+                    aria-label={`Deny ${participant.displayName}`}
+                  >
+                    <UserX className='h-4 w-4' />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={onAdmitAll}
+            className='mt-3 w-full rounded bg-blue-600 py-1 text-sm hover:bg-blue-700'
+          >
+            Admit all
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
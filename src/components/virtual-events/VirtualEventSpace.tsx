@@ -4,6 +4,7 @@
 // Main 3D environment for virtual events using React Three Fiber
 
 import type {
+  RemoteAvatar,
   Vector3,
   VirtualEventSpace as VirtualEventSpaceType,
 } from '@/types/virtual-events';
@@ -21,6 +22,7 @@ import type * as THREE from 'three';
 interface VirtualEventSpaceProps {
   space: VirtualEventSpaceType;
   userPosition?: Vector3;
+  avatars?: RemoteAvatar[];
   onPositionChange?: (position: Vector3, rotation: Vector3) => void;
   performanceMode?: 'low' | 'medium' | 'high';
 }
@@ -44,7 +46,13 @@ function Floor({
 }
 
 // Avatar placeholder component
-function AvatarPlaceholder({ position }: { position: Vector3 }) {
+function AvatarPlaceholder({
+  position,
+  color = '#4a90e2',
+}: {
+  position: Vector3;
+  color?: string;
+}) {
   const meshRef = useRef<THREE.Mesh>(null);
 
   useFrame(state => {
@@ -60,7 +68,7 @@ function AvatarPlaceholder({ position }: { position: Vector3 }) {
       {/* Simple capsule avatar */}
       <mesh ref={meshRef} castShadow>
         <capsuleGeometry args={[0.3, 1.2, 8, 16]} />
-        <meshStandardMaterial color='#4a90e2' />
+        <meshStandardMaterial color={color} />
       </mesh>
       {/* Head */}
       <mesh position={[0, 1.5, 0]} castShadow>
@@ -175,6 +183,7 @@ function LoadingFallback() {
 export default function VirtualEventSpace({
   space,
   userPosition,
+  avatars = [],
   onPositionChange,
   performanceMode = 'medium',
 }: VirtualEventSpaceProps) {
@@ -232,6 +241,15 @@ export default function VirtualEventSpace({
           {/* User avatar */}
           {userPosition && <AvatarPlaceholder position={userPosition} />}
 
+          {/* Nearby attendees */}
+          {avatars.map(avatar => (
+            <AvatarPlaceholder
+              key={avatar.sessionId}
+              position={avatar.position}
+              color='#7b61ff'
+            />
+          ))}
+
           {/* Camera controls */}
           <OrbitControls
             enableDamping
@@ -0,0 +1,115 @@
+import { useCallback, useRef, useState } from 'react';
+
+// How often MediaRecorder hands over a chunk to upload
+const CHUNK_INTERVAL_MS = 10000;
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem('token')}`,
+});
+
+/**
+ * Records a call in the browser and uploads it to the server in chunks while
+ * it runs. Chunks are uploaded one at a time, in order; the server assembles
+ * and transcribes the recording once it is stopped.
+ */
+export function useCallRecorder() {
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const recordingIdRef = useRef<string | null>(null);
+  const uploadsRef = useRef<Promise<void>>(Promise.resolve());
+
+  const uploadChunk = (recordingId: string, sequence: number, data: Blob) => {
+    uploadsRef.current = uploadsRef.current.then(async () => {
+      const response = await fetch(
+        `/api/v1/video/recordings/${recordingId}/chunks/${sequence}`,
+        {
+          method: 'PUT',
+          headers: {
+            ...authHeaders(),
+            'Content-Type': 'application/octet-stream',
+          },
+          body: data,
+        }
+      );
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to upload recording');
+      }
+    });
+  };
+
+  const start = useCallback(async (roomId: string, stream: MediaStream) => {
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/v1/video/rooms/${roomId}/recording/start`,
+        {
+          method: 'POST',
+          headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+          body: JSON.stringify({ format: 'webm' }),
+        }
+      );
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to start recording');
+      }
+
+      const recordingId: string = result.data.id;
+      const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+      let sequence = 0;
+
+      recorder.ondataavailable = event => {
+        if (event.data.size > 0) {
+          uploadChunk(recordingId, sequence++, event.data);
+        }
+      };
+
+      recordingIdRef.current = recordingId;
+      recorderRef.current = recorder;
+      uploadsRef.current = Promise.resolve();
+      recorder.start(CHUNK_INTERVAL_MS);
+      setIsRecording(true);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  const stop = useCallback(async () => {
+    const recorder = recorderRef.current;
+    const recordingId = recordingIdRef.current;
+    if (!recorder || !recordingId) return;
+
+    recorderRef.current = null;
+    recordingIdRef.current = null;
+    setIsRecording(false);
+
+    try {
+      // The last chunk arrives before the stop event
+      await new Promise<void>(resolve => {
+        recorder.onstop = () => resolve();
+        recorder.stop();
+      });
+      // Stop even if an upload failed, so the server can mark it failed
+      await uploadsRef.current.catch(err => setError(err.message));
+
+      const response = await fetch(
+        `/api/v1/video/recordings/${recordingId}/stop`,
+        { method: 'POST', headers: authHeaders() }
+      );
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to stop recording');
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  return { isRecording, error, start, stop };
+}
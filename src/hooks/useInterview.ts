@@ -110,12 +110,12 @@ export function useInterview(userId: string) {
     }
   };
 
-  const analyzeResume = async (resumeText: string) => {
+  const analyzeResume = async (resumeText: string, opportunityId?: string) => {
     try {
       const response = await fetch('/api/interview/resume', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, resumeText }),
+        body: JSON.stringify({ userId, resumeText, opportunityId }),
       });
 
       const result = await response.json();
@@ -0,0 +1,66 @@
+import type { ApiResponse } from '@/types';
+import { useCallback, useEffect, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+import { io } from 'socket.io-client';
+
+// Messages can wait longer than signaling for the server to acknowledge
+const ACK_TIMEOUT_MS = 10000;
+
+/**
+ * Connection to the direct messaging channel for the signed-in user
+ */
+export function useMessagingSocket() {
+  const [socket, setSocket] = useState<Socket | null>(null);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    const token = localStorage.getItem('token');
+    if (!token) return;
+
+    const messagingSocket = io(
+      `${process.env.NEXT_PUBLIC_SIGNALING_URL || 'http://localhost:3001'}/messages`,
+      {
+        auth: { token },
+        transports: ['websocket', 'polling'],
+      }
+    );
+
+    messagingSocket.on('connect', () => setConnected(true));
+    messagingSocket.on('disconnect', () => setConnected(false));
+    messagingSocket.on('connect_error', error => {
+      console.error('Messaging connection error:', error.message);
+      setConnected(false);
+    });
+
+    setSocket(messagingSocket);
+
+    return () => {
+      messagingSocket.disconnect();
+      setSocket(null);
+      setConnected(false);
+    };
+  }, []);
+
+  /**
+   * Emit an event and wait for the server's response
+   */
+  const request = useCallback(
+    async <T>(event: string, data?: unknown): Promise<ApiResponse<T>> => {
+      if (!socket || !connected) {
+        return { success: false, error: 'Not connected' };
+      }
+
+      try {
+        const timed = socket.timeout(ACK_TIMEOUT_MS);
+        return data === undefined
+          ? await timed.emitWithAck(event)
+          : await timed.emitWithAck(event, data);
+      } catch {
+        return { success: false, error: 'No response from server' };
+      }
+    },
+    [socket, connected]
+  );
+
+  return { socket, connected, request };
+}
@@ -0,0 +1,89 @@
+import { applyPresenceUpdate, toRemoteAvatar } from '@/lib/virtual-presence';
+import type {
+  PresenceAvatar,
+  PresenceUpdate,
+  RemoteAvatar,
+  Vector3,
+} from '@/types/virtual-events';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+import { io } from 'socket.io-client';
+
+/**
+ * Live presence in a virtual event space for the given session: the avatars
+ * near the user and the zone they are standing in. The server only sends
+ * avatars in the same zone and nearby. The socket is returned for features
+ * that share it, such as spatial audio.
+ */
+export function useSpacePresence(sessionId: string | null) {
+  const [avatars, setAvatars] = useState<Map<string, PresenceAvatar>>(
+    new Map()
+  );
+  const [zoneId, setZoneId] = useState<string | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [socket, setSocket] = useState<Socket | null>(null);
+  const socketRef = useRef<Socket | null>(null);
+
+  useEffect(() => {
+    const token = localStorage.getItem('token');
+    if (!token || !sessionId) return;
+
+    const presenceSocket = io(
+      `${process.env.NEXT_PUBLIC_SIGNALING_URL || 'http://localhost:3001'}/virtual-events`,
+      {
+        auth: { token },
+        transports: ['websocket', 'polling'],
+      }
+    );
+
+    // Updates are changes against what the server sent before, so start
+    // again from nothing whenever the connection does
+    presenceSocket.on('connect', () => {
+      setAvatars(new Map());
+      presenceSocket.emit('join-space', { sessionId }, (response: any) => {
+        if (response.success) {
+          setZoneId(response.data.zoneId);
+          setConnected(true);
+        } else {
+          console.error('Failed to join space presence:', response.error);
+        }
+      });
+    });
+    presenceSocket.on('disconnect', () => setConnected(false));
+
+    presenceSocket.on('presence', (update: PresenceUpdate) => {
+      setAvatars(prev => applyPresenceUpdate(prev, update));
+      if (update.zoneId !== undefined) {
+        setZoneId(update.zoneId);
+      }
+    });
+
+    socketRef.current = presenceSocket;
+    setSocket(presenceSocket);
+
+    return () => {
+      presenceSocket.disconnect();
+      socketRef.current = null;
+      setSocket(null);
+      setConnected(false);
+      setAvatars(new Map());
+    };
+  }, [sessionId]);
+
+  /**
+   * Send the user's position; the server passes it on at its own pace
+   */
+  const move = useCallback(
+    (position: Vector3, rotation: Vector3, animation?: string) => {
+      socketRef.current?.emit('move', { position, rotation, animation });
+    },
+    []
+  );
+
+  const remoteAvatars = useMemo<RemoteAvatar[]>(
+    () => [...avatars.values()].map(toRemoteAvatar),
+    [avatars]
+  );
+
+  return { avatars: remoteAvatars, zoneId, connected, move, socket };
+}
@@ -0,0 +1,87 @@
+import { SpatialAudioCoordinator } from '@/lib/services/spatial-audio-coordinator';
+import { WebRTCService } from '@/lib/services/webrtc.service';
+import type { AudioLink } from '@/types/virtual-events';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+];
+
+/**
+ * Proximity voice chat in a virtual event space, over the presence socket
+ * from `useSpacePresence`. Nothing is connected until `enabled` is set,
+ * since it asks for the microphone.
+ */
+export function useSpatialAudio(
+  socket: Socket | null,
+  enabled: boolean,
+  iceServers: RTCIceServer[] = DEFAULT_ICE_SERVERS
+) {
+  const [peers, setPeers] = useState<AudioLink[]>([]);
+  const [groupId, setGroupId] = useState<string | null>(null);
+  const [muted, setMutedState] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const coordinatorRef = useRef<SpatialAudioCoordinator | null>(null);
+  const iceServersRef = useRef(iceServers);
+
+  useEffect(() => {
+    if (!socket || !enabled) return;
+
+    const coordinator = new SpatialAudioCoordinator(
+      socket,
+      new WebRTCService(iceServersRef.current),
+      () => {
+        setPeers(coordinator.getPeers());
+        setGroupId(coordinator.getGroupId());
+      }
+    );
+    coordinatorRef.current = coordinator;
+
+    setError(null);
+    coordinator.start().catch((err: Error) => {
+      setError(err.message);
+    });
+
+    return () => {
+      coordinator.close();
+      coordinatorRef.current = null;
+      setPeers([]);
+      setGroupId(null);
+      setMutedState(false);
+    };
+  }, [socket, enabled]);
+
+  const setMuted = useCallback((value: boolean) => {
+    coordinatorRef.current?.setMuted(value);
+    setMutedState(value);
+  }, []);
+
+  /**
+   * Broadcast to everyone within `radius` of a booth the user owns
+   */
+  const startBroadcast = useCallback(
+    async (boothId: string, radius?: number) => {
+      if (!coordinatorRef.current) {
+        throw new Error('Spatial audio is not enabled');
+      }
+      return coordinatorRef.current.startBroadcast(boothId, radius);
+    },
+    []
+  );
+
+  const stopBroadcast = useCallback(async () => {
+    await coordinatorRef.current?.stopBroadcast();
+  }, []);
+
+  return {
+    peers,
+    groupId,
+    muted,
+    error,
+    setMuted,
+    startBroadcast,
+    stopBroadcast,
+  };
+}
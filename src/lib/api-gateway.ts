@@ -5,6 +5,7 @@ import express from 'express';
 import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
 import morgan from 'morgan';
+import { Pool } from 'pg';
 import { authMiddleware, optionalAuthMiddleware } from './middleware/auth';
 import { errorHandler } from './middleware/error-handler';
 import { loggingMiddleware } from './middleware/logging';
@@ -13,15 +14,25 @@ import { adminRouter } from './routes/admin';
 import { aiRouter } from './routes/ai';
 import analyticsRouter from './routes/analytics';
 import { authRouter } from './routes/auth';
+import { calendarRouter } from './routes/calendar';
+import { federatedAuthRouter } from './routes/federated-auth';
 import developerRouter from './routes/developer';
 import gamificationRouter from './routes/gamification';
 import { healthRouter } from './routes/health';
 import { notificationRouter } from './routes/notification';
 import oauthRouter from './routes/oauth';
+import { opportunitiesRouter } from './routes/opportunities';
 import { searchRouter } from './routes/search';
 import socialRouter from './routes/social';
 import { userRouter } from './routes/user';
+import { createVideoConferencingRoutes } from './routes/video-conferencing';
+import virtualEventsRouter from './routes/virtual-events';
 import { voiceRouter } from './routes/voice';
+import { directMessagingService } from './services/direct-messaging.service';
+import { createSignalingServer } from './services/signaling.service';
+import { spatialAudioService } from './services/spatial-audio.service';
+import { VideoConferencingService } from './services/video-conferencing.service';
+import { virtualEventPresenceService } from './services/virtual-event-presence.service';
 
 export interface ApiGatewayConfig {
   port: number;
@@ -36,10 +47,13 @@ export interface ApiGatewayConfig {
 export class ApiGateway {
   private app: Express;
   private config: ApiGatewayConfig;
+  // Video calls query Postgres directly; the pool connects on first use
+  private videoPool: Pool;
 
   constructor(config: ApiGatewayConfig) {
     this.app = express();
     this.config = config;
+    this.videoPool = new Pool({ connectionString: process.env.DATABASE_URL });
     this.setupMiddleware();
     this.setupRoutes();
     this.setupErrorHandling();
@@ -77,6 +91,7 @@ export class ApiGateway {
           'Authorization',
           'X-Requested-With',
           'X-API-Version',
+          'X-File-Name',
         ],
         exposedHeaders: ['X-Total-Count', 'X-Page-Count'],
       })
@@ -130,16 +145,25 @@ export class ApiGateway {
     this.app.use(`${apiPrefix}/health`, healthRouter);
 
     // Authentication routes (no auth required)
+    this.app.use(`${apiPrefix}/auth/federated`, federatedAuthRouter);
     this.app.use(`${apiPrefix}/auth`, authRouter);
 
     // OAuth routes (mixed auth requirements)
     this.app.use(`${apiPrefix}/oauth`, oauthRouter);
 
+    // Calendar routes (feeds are authenticated by the token in their URL)
+    this.app.use(`${apiPrefix}/calendar`, calendarRouter);
+
     // Public routes (optional auth for personalization)
     this.app.use(`${apiPrefix}/search`, optionalAuthMiddleware, searchRouter);
 
     // Protected routes (auth required)
     this.app.use(`${apiPrefix}/users`, authMiddleware, userRouter);
+    this.app.use(
+      `${apiPrefix}/opportunities`,
+      authMiddleware,
+      opportunitiesRouter
+    );
     this.app.use(`${apiPrefix}/voice`, authMiddleware, voiceRouter);
     this.app.use(`${apiPrefix}/ai`, authMiddleware, aiRouter);
     this.app.use(
@@ -154,6 +178,16 @@ export class ApiGateway {
       gamificationRouter
     );
     this.app.use(`${apiPrefix}/developer`, authMiddleware, developerRouter);
+    this.app.use(
+      `${apiPrefix}/video`,
+      authMiddleware,
+      createVideoConferencingRoutes(this.videoPool)
+    );
+    this.app.use(
+      `${apiPrefix}/virtual-events`,
+      authMiddleware,
+      virtualEventsRouter
+    );
 
     // Admin routes (admin role required)
     this.app.use(`${apiPrefix}/admin`, authMiddleware, adminRouter);
@@ -170,6 +204,7 @@ export class ApiGateway {
           auth: `${apiPrefix}/auth`,
           search: `${apiPrefix}/search`,
           users: `${apiPrefix}/users`,
+          opportunities: `${apiPrefix}/opportunities`,
           voice: `${apiPrefix}/voice`,
           ai: `${apiPrefix}/ai`,
           notifications: `${apiPrefix}/notifications`,
@@ -179,6 +214,9 @@ export class ApiGateway {
           admin: `${apiPrefix}/admin`,
           developer: `${apiPrefix}/developer`,
           oauth: `${apiPrefix}/oauth`,
+          calendar: `${apiPrefix}/calendar`,
+          video: `${apiPrefix}/video`,
+          virtualEvents: `${apiPrefix}/virtual-events`,
         },
         documentation: 'https://docs.opportunex.com',
         openapi: `${apiPrefix}/openapi.yaml`,
@@ -207,13 +245,26 @@ export class ApiGateway {
   public start(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        this.app.listen(this.config.port, () => {
+        const server = this.app.listen(this.config.port, () => {
           console.log(`🚀 API Gateway started on port ${this.config.port}`);
           console.log(
             `📚 API Documentation: http://localhost:${this.config.port}/api/${this.config.apiVersion}/docs`
           );
           resolve();
         });
+
+        // Video call signaling, direct messaging, virtual event presence and
+        // spatial audio share one socket.io server
+        const signaling = createSignalingServer(
+          server,
+          new VideoConferencingService(this.videoPool)
+        );
+        directMessagingService.attach(signaling.getServer());
+        virtualEventPresenceService.attach(signaling.getServer());
+        spatialAudioService.attach(
+          signaling.getServer(),
+          virtualEventPresenceService
+        );
       } catch (error) {
         reject(error);
       }
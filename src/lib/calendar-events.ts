@@ -0,0 +1,192 @@
+/**
+ * Calendar events for opportunities, mentorship sessions and virtual
+ * presentations
+ *
+ * Feeds and single-event downloads build their events here so that both
+ * produce the same UIDs and an event added from either place is updated, not
+ * duplicated, when it changes.
+ */
+
+import type { CalendarAlarm, CalendarEvent } from './icalendar';
+import type { ReminderInterval } from './reminder-schedules';
+import {
+  getBuiltInReminderSchedule,
+  MINIMAL_REMINDER_SCHEDULE_ID,
+  reminderIntervalMs,
+  STANDARD_REMINDER_SCHEDULE_ID,
+} from './reminder-schedules';
+
+const UID_DOMAIN = 'opportunex.com';
+
+// Presentations have no length of their own until they have run
+const DEFAULT_PRESENTATION_MINUTES = 60;
+
+export interface CalendarOpportunity {
+  id: string;
+  title: string;
+  description?: string;
+  organizerName?: string;
+  location?: string;
+  url?: string;
+  deadline: Date;
+  startDate?: Date;
+  endDate?: Date;
+  updatedAt?: Date;
+}
+
+export interface CalendarSession {
+  id: string;
+  title: string;
+  description?: string;
+  agenda?: string;
+  scheduledAt: Date;
+  durationMinutes: number;
+  meetingUrl?: string;
+  meetingPlatform?: string;
+  status?: string;
+  updatedAt?: Date;
+}
+
+export interface CalendarPresentation {
+  id: string;
+  title: string;
+  description?: string;
+  spaceName?: string;
+  scheduledAt: Date;
+  startedAt?: Date;
+  endedAt?: Date;
+  isActive?: boolean;
+  updatedAt?: Date;
+}
+
+const uid = (kind: string, id: string) => `${kind}-${id}@${UID_DOMAIN}`;
+
+const scheduleIntervals = (scheduleId: string): ReminderInterval[] =>
+  getBuiltInReminderSchedule(scheduleId)?.intervals || [];
+
+/**
+ * One display alarm per reminder interval
+ */
+export function reminderAlarms(
+  intervals: Array<Pick<ReminderInterval, 'value' | 'unit' | 'label'>>,
+  summary: string
+): CalendarAlarm[] {
+  return intervals.map(interval => ({
+    before: reminderIntervalMs(interval),
+    description: `${summary} (${interval.label})`,
+  }));
+}
+
+/**
+ * Deadline event, with the standard reminder schedule unless the user chose
+ * other reminders, plus an event for the opportunity itself once it has a
+ * start date
+ */
+export function opportunityEvents(
+  opportunity: CalendarOpportunity,
+  deadlineAlarms?: CalendarAlarm[]
+): CalendarEvent[] {
+  const details = [
+    opportunity.organizerName && `Organized by ${opportunity.organizerName}`,
+    opportunity.description,
+    opportunity.url,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const deadlineSummary = `Deadline: ${opportunity.title}`;
+  const events: CalendarEvent[] = [
+    {
+      uid: uid('deadline', opportunity.id),
+      start: opportunity.deadline,
+      summary: deadlineSummary,
+      description: details,
+      url: opportunity.url,
+      lastModified: opportunity.updatedAt,
+      alarms:
+        deadlineAlarms ||
+        reminderAlarms(
+          scheduleIntervals(STANDARD_REMINDER_SCHEDULE_ID),
+          deadlineSummary
+        ),
+    },
+  ];
+
+  if (opportunity.startDate) {
+    events.push({
+      uid: uid('opportunity', opportunity.id),
+      start: opportunity.startDate,
+      end: opportunity.endDate,
+      summary: opportunity.title,
+      description: details,
+      location: opportunity.location,
+      url: opportunity.url,
+      lastModified: opportunity.updatedAt,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Mentorship session, with the minimal reminder schedule
+ */
+export function mentorshipSessionEvent(
+  session: CalendarSession
+): CalendarEvent {
+  const summary = `Mentorship: ${session.title}`;
+
+  return {
+    uid: uid('mentorship-session', session.id),
+    start: session.scheduledAt,
+    end: new Date(
+      session.scheduledAt.getTime() + session.durationMinutes * 60 * 1000
+    ),
+    summary,
+    description: [
+      session.description,
+      session.agenda && `Agenda:\n${session.agenda}`,
+    ]
+      .filter(Boolean)
+      .join('\n\n'),
+    location: session.meetingUrl || session.meetingPlatform,
+    url: session.meetingUrl,
+    status: session.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    lastModified: session.updatedAt,
+    alarms: reminderAlarms(
+      scheduleIntervals(MINIMAL_REMINDER_SCHEDULE_ID),
+      summary
+    ),
+  };
+}
+
+/**
+ * Virtual event presentation, with the minimal reminder schedule
+ */
+export function presentationEvent(
+  presentation: CalendarPresentation
+): CalendarEvent {
+  const start = presentation.startedAt || presentation.scheduledAt;
+  const end =
+    presentation.endedAt ||
+    new Date(start.getTime() + DEFAULT_PRESENTATION_MINUTES * 60 * 1000);
+
+  return {
+    uid: uid('presentation', presentation.id),
+    start,
+    end,
+    summary: presentation.title,
+    description: presentation.description,
+    location: presentation.spaceName && `${presentation.spaceName} (virtual)`,
+    // Presentations that were called off without running
+    status:
+      presentation.isActive === false && !presentation.startedAt
+        ? 'CANCELLED'
+        : 'CONFIRMED',
+    lastModified: presentation.updatedAt,
+    alarms: reminderAlarms(
+      scheduleIntervals(MINIMAL_REMINDER_SCHEDULE_ID),
+      presentation.title
+    ),
+  };
+}
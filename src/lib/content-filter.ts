@@ -0,0 +1,180 @@
+/**
+ * First-pass filter for user-written social content
+ *
+ * Discussions, comments, team listings and direct messages are checked
+ * against a list of rules before they are saved. Each rule either flags the
+ * content, which saves it and queues it for a moderator, or blocks it, which
+ * rejects it outright. Rules are plain objects so callers can add their own,
+ * as the moderation service does for unsafe markup.
+ */
+
+export const REPORT_REASONS = [
+  'spam',
+  'harassment',
+  'hate_speech',
+  'inappropriate',
+  'misinformation',
+  'other',
+] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export type FilterAction = 'allow' | 'flag' | 'block';
+
+export interface ContentRule {
+  id: string;
+  reason: ReportReason;
+  action: Exclude<FilterAction, 'allow'>;
+  matches(text: string): boolean;
+}
+
+export interface FilterResult {
+  action: FilterAction;
+  reason?: ReportReason;
+  matchedRules: string[];
+}
+
+export const MAX_LINKS = 3;
+
+const LEET: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  $: 's',
+};
+
+/**
+ * Lowercase a word, undo common character swaps and collapse repeated
+ * letters
+ */
+function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/[013457@$]/g, char => LEET[char])
+    .replace(/[^a-z]/g, '')
+    .replace(/(.)\1+/g, '$1');
+}
+
+// Stored normalized (see normalizeWord), so "fuuuck" and "sh1t" still match
+const PROFANITY = [
+  'fuck',
+  'motherfucker',
+  'shit',
+  'bitch',
+  'bastard',
+  'asshole',
+  'dick',
+  'cunt',
+  'slut',
+  'whore',
+  'chutiya',
+  'madarchod',
+  'behenchod',
+  'bhenchod',
+  'gandu',
+  'bhosdike',
+].map(word => normalizeWord(word));
+
+const PROFANITY_SUFFIXES = ['', 's', 'es', 'y', 'ed', 'er', 'ers', 'ing'];
+
+const SPAM_PHRASES = [
+  /\bbuy now\b/i,
+  /\bclick (here|this link)\b/i,
+  /\b(earn|make) (money|\$\d+|rs\.? ?\d+|₹ ?\d+) (fast|online|daily|from home)\b/i,
+  /\bwork from home\b.*\b(guaranteed|per day|daily)\b/i,
+  /\bfree (crypto|bitcoin|followers|recharge)\b/i,
+  /\b(dm|whatsapp|telegram) me (for|to)\b/i,
+  /\b100% (guaranteed|placement)\b/i,
+  /\bpaid (internship|placement) (guaranteed|assured)\b/i,
+];
+
+const URL_PATTERN = /\b(https?:\/\/|www\.)[^\s<>"']+/gi;
+
+function words(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+export function findLinks(text: string): string[] {
+  return text.match(URL_PATTERN) || [];
+}
+
+export const CONTENT_RULES: ContentRule[] = [
+  {
+    id: 'profanity',
+    reason: 'inappropriate',
+    action: 'flag',
+    matches: text =>
+      words(text).some(word => {
+        const normalized = normalizeWord(word);
+        return PROFANITY.some(term =>
+          PROFANITY_SUFFIXES.some(suffix => normalized === term + suffix)
+        );
+      }),
+  },
+  {
+    id: 'spam_phrases',
+    reason: 'spam',
+    action: 'flag',
+    matches: text => SPAM_PHRASES.some(pattern => pattern.test(text)),
+  },
+  {
+    id: 'excessive_links',
+    reason: 'spam',
+    action: 'flag',
+    matches: text => findLinks(text).length > MAX_LINKS,
+  },
+  {
+    // A word making up half of a long post, or a character held down
+    id: 'repeated_text',
+    reason: 'spam',
+    action: 'block',
+    matches: text => {
+      if (/(\S)\1{19,}/.test(text)) return true;
+
+      const tokens = words(text.toLowerCase());
+      if (tokens.length < 10) return false;
+
+      const counts = new Map<string, number>();
+      for (const token of tokens) {
+        counts.set(token, (counts.get(token) || 0) + 1);
+      }
+      return Math.max(...counts.values()) / tokens.length >= 0.5;
+    },
+  },
+  {
+    id: 'shouting',
+    reason: 'spam',
+    action: 'flag',
+    matches: text => {
+      const letters = text.replace(/[^A-Za-z]/g, '');
+      if (letters.length < 20) return false;
+      return letters.replace(/[^A-Z]/g, '').length / letters.length >= 0.8;
+    },
+  },
+];
+
+/**
+ * Run text through the rules. The strictest matching rule decides the
+ * action and the reason recorded on the report.
+ */
+export function evaluateContent(
+  text: string,
+  rules: ContentRule[] = CONTENT_RULES
+): FilterResult {
+  const matched = rules.filter(rule => text && rule.matches(text));
+  if (matched.length === 0) {
+    return { action: 'allow', matchedRules: [] };
+  }
+
+  const decisive = matched.find(rule => rule.action === 'block') || matched[0];
+
+  return {
+    action: decisive.action,
+    reason: decisive.reason,
+    matchedRules: matched.map(rule => rule.id),
+  };
+}
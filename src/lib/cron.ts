@@ -0,0 +1,434 @@
+/**
+ * Cron expression parsing and next-run calculation
+ *
+ * Supports the standard 5-field syntax (minute hour day-of-month month
+ * day-of-week) and a 6-field variant with a leading seconds field, plus:
+ *   - wildcards, ranges, lists and steps: `*`, `1-5`, `1,15,30`, `*\/10`, `8-18/2`
+ *   - month and weekday names: `JAN-MAR`, `MON-FRI` (Sunday is 0 or 7)
+ *   - `?` as an alias for `*` in the day fields
+ *   - macros: @yearly, @annually, @monthly, @weekly, @daily, @midnight, @hourly
+ *
+ * As in Vixie cron, when both day-of-month and day-of-week are restricted a
+ * day matches if either field matches.
+ *
+ * Times are evaluated on the wall clock of an IANA timezone. Around DST
+ * changes:
+ *   - a wall time skipped by a spring-forward transition runs once, shifted
+ *     forward by the length of the gap (02:30 becomes 03:30)
+ *   - a wall time repeated by a fall-back transition runs once, on its first
+ *     occurrence, unless the schedule runs every hour, in which case it keeps
+ *     running on the repeated hour as well
+ */
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const SECOND: FieldSpec = { name: 'second', min: 0, max: 59 };
+const MINUTE: FieldSpec = { name: 'minute', min: 0, max: 59 };
+const HOUR: FieldSpec = { name: 'hour', min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { name: 'day of month', min: 1, max: 31 };
+const MONTH: FieldSpec = {
+  name: 'month',
+  min: 1,
+  max: 12,
+  names: [
+    'JAN',
+    'FEB',
+    'MAR',
+    'APR',
+    'MAY',
+    'JUN',
+    'JUL',
+    'AUG',
+    'SEP',
+    'OCT',
+    'NOV',
+    'DEC',
+  ],
+};
+const DAY_OF_WEEK: FieldSpec = {
+  name: 'day of week',
+  min: 0,
+  max: 7,
+  names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'],
+};
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Longest day-of-month for each month (February allows leap years)
+const MONTH_LENGTHS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Feb 29 on a restricted weekday can be up to 28 years away
+const MAX_SEARCH_YEARS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export class CronExpression {
+  readonly source: string;
+  readonly timezone: string;
+
+  private seconds: Set<number>;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private dayOfMonthRestricted: boolean;
+  private dayOfWeekRestricted: boolean;
+
+  private constructor(source: string, fields: string[], timezone: string) {
+    this.source = source;
+    this.timezone = timezone;
+
+    const [second, minute, hour, dayOfMonth, month, dayOfWeek] =
+      fields.length === 6 ? fields : ['0', ...fields];
+
+    this.seconds = parseField(second, SECOND);
+    this.minutes = parseField(minute, MINUTE);
+    this.hours = parseField(hour, HOUR);
+    this.daysOfMonth = parseField(dayOfMonth, DAY_OF_MONTH);
+    this.months = parseField(month, MONTH);
+    this.daysOfWeek = parseField(dayOfWeek, DAY_OF_WEEK);
+
+    // Sunday may be written as 7
+    if (this.daysOfWeek.delete(7)) this.daysOfWeek.add(0);
+
+    this.dayOfMonthRestricted = !isUnrestricted(dayOfMonth);
+    this.dayOfWeekRestricted = !isUnrestricted(dayOfWeek);
+
+    if (this.dayOfMonthRestricted && !this.dayOfWeekRestricted) {
+      const reachable = [...this.months].some(m =>
+        [...this.daysOfMonth].some(d => d <= MONTH_LENGTHS[m - 1])
+      );
+      if (!reachable) {
+        throw new Error(
+          `Invalid cron expression "${source}": day of month never occurs in the selected months`
+        );
+      }
+    }
+  }
+
+  /**
+   * Parse a cron expression, evaluated in the given IANA timezone
+   * (defaults to the server's timezone). Throws on invalid input.
+   */
+  static parse(expression: string, timezone?: string): CronExpression {
+    const zone = timezone || defaultTimezone();
+    if (!isValidTimezone(zone)) {
+      throw new Error(`Invalid timezone "${zone}"`);
+    }
+
+    const trimmed = (expression || '').trim();
+    const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+    const fields = expanded.split(/\s+/).filter(Boolean);
+
+    if (fields.length !== 5 && fields.length !== 6) {
+      throw new Error(
+        `Invalid cron expression "${trimmed}": expected 5 or 6 fields, got ${fields.length}`
+      );
+    }
+
+    try {
+      return new CronExpression(trimmed, fields, zone);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        message.startsWith('Invalid cron expression')
+          ? message
+          : `Invalid cron expression "${trimmed}": ${message}`
+      );
+    }
+  }
+
+  /**
+   * Next run strictly after the given instant
+   */
+  next(after: Date = new Date()): Date {
+    const from = Math.floor(after.getTime() / 1000) * 1000 + 1000;
+    let localStart = wallClock(from, this.timezone);
+
+    for (;;) {
+      const local = this.findLocal(localStart);
+      const candidate = this.resolveLocal(local, from);
+
+      if (candidate !== null) {
+        return new Date(this.checkRepeatedHour(from, candidate) ?? candidate);
+      }
+
+      localStart = local + 1000;
+    }
+  }
+
+  /**
+   * The next `count` runs after the given instant
+   */
+  upcoming(count: number, after: Date = new Date()): Date[] {
+    const runs: Date[] = [];
+    let cursor = after;
+
+    for (let i = 0; i < count; i++) {
+      cursor = this.next(cursor);
+      runs.push(cursor);
+    }
+
+    return runs;
+  }
+
+  /**
+   * Whether the schedule fires at the given instant (to the second)
+   */
+  matches(date: Date): boolean {
+    const local = new Date(wallClock(date.getTime(), this.timezone));
+
+    return (
+      this.months.has(local.getUTCMonth() + 1) &&
+      this.matchesDay(local) &&
+      this.hours.has(local.getUTCHours()) &&
+      this.minutes.has(local.getUTCMinutes()) &&
+      this.seconds.has(local.getUTCSeconds())
+    );
+  }
+
+  /**
+   * Smallest matching wall-clock time at or after `start`. Wall-clock times
+   * are represented as milliseconds on a UTC timeline.
+   */
+  private findLocal(start: number): number {
+    const d = new Date(Math.ceil(start / 1000) * 1000);
+    const limit = d.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+    while (d.getUTCFullYear() <= limit) {
+      if (!this.months.has(d.getUTCMonth() + 1)) {
+        d.setUTCMonth(d.getUTCMonth() + 1, 1);
+        d.setUTCHours(0, 0, 0);
+      } else if (!this.matchesDay(d)) {
+        d.setUTCDate(d.getUTCDate() + 1);
+        d.setUTCHours(0, 0, 0);
+      } else if (!this.hours.has(d.getUTCHours())) {
+        d.setUTCHours(d.getUTCHours() + 1, 0, 0);
+      } else if (!this.minutes.has(d.getUTCMinutes())) {
+        d.setUTCMinutes(d.getUTCMinutes() + 1, 0);
+      } else if (!this.seconds.has(d.getUTCSeconds())) {
+        d.setUTCSeconds(d.getUTCSeconds() + 1);
+      } else {
+        return d.getTime();
+      }
+    }
+
+    throw new Error(
+      `Cron expression "${this.source}" has no run within ${MAX_SEARCH_YEARS} years`
+    );
+  }
+
+  private matchesDay(d: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(d.getUTCDate());
+    const dayOfWeek = this.daysOfWeek.has(d.getUTCDay());
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+
+  private runsEveryHour(): boolean {
+    return this.hours.size === 24;
+  }
+
+  /**
+   * Map a matching wall-clock time onto the instant it should run at, or null
+   * if it has already passed or is a repeat that should not run again
+   */
+  private resolveLocal(local: number, from: number): number | null {
+    const before = offsetAt(local - DAY_MS, this.timezone);
+    const after = offsetAt(local + DAY_MS, this.timezone);
+    const instants = [...new Set([local - before, local - after])]
+      .filter(instant => wallClock(instant, this.timezone) === local)
+      .sort((a, b) => a - b);
+
+    if (instants.length === 0) {
+      // Skipped by a spring-forward transition: shift forward by the gap
+      const shifted = local - before;
+      return shifted >= from ? shifted : null;
+    }
+
+    for (let i = 0; i < instants.length; i++) {
+      if (instants[i] >= from && (i === 0 || this.runsEveryHour())) {
+        return instants[i];
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * After a fall-back transition the wall clock repeats an hour that the
+   * forward search has already passed. Hourly schedules still run there.
+   */
+  private checkRepeatedHour(from: number, candidate: number): number | null {
+    if (!this.runsEveryHour()) return null;
+
+    const offsetAfter = offsetAt(candidate, this.timezone);
+    if (offsetAt(from, this.timezone) <= offsetAfter) return null;
+
+    // Binary search for the first instant on the new offset
+    let lo = from;
+    let hi = candidate;
+    while (hi - lo > 1000) {
+      const mid = lo + Math.floor((hi - lo) / 2000) * 1000;
+      if (offsetAt(mid, this.timezone) === offsetAfter) hi = mid;
+      else lo = mid;
+    }
+
+    const repeated = this.findLocal(wallClock(hi, this.timezone)) - offsetAfter;
+    return repeated >= from && repeated < candidate ? repeated : null;
+  }
+}
+
+/**
+ * Whether an expression parses, for request validation
+ */
+export function isValidCronExpression(
+  expression: string,
+  timezone?: string
+): boolean {
+  try {
+    CronExpression.parse(expression, timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function defaultTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+function isUnrestricted(field: string): boolean {
+  return field.startsWith('*') || field === '?';
+}
+
+function isDayField(spec: FieldSpec): boolean {
+  return spec === DAY_OF_MONTH || spec === DAY_OF_WEEK;
+}
+
+// Day-of-week accepts 7 for Sunday but wildcards stop at Saturday
+function lastValue(spec: FieldSpec): number {
+  return spec === DAY_OF_WEEK ? 6 : spec.max;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    if (rest.length > 0 || !range) {
+      throw new Error(`malformed ${spec.name} "${part}"`);
+    }
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`invalid step "${stepText}" in ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === '*' || (range === '?' && isDayField(spec))) {
+      start = spec.min;
+      end = lastValue(spec);
+    } else if (range.includes('-')) {
+      const [low, high] = range.split('-');
+      start = parseValue(low, spec);
+      end = parseValue(high, spec);
+      if (start > end) {
+        throw new Error(`${spec.name} range "${range}" is reversed`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      end = stepText === undefined ? start : lastValue(spec);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const index = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  if (index < 0 && !/^\d+$/.test(text)) {
+    throw new Error(`invalid ${spec.name} "${text}"`);
+  }
+
+  const value = index >= 0 ? index + spec.min : Number(text);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name} ${value} is outside ${spec.min}-${spec.max}`);
+  }
+
+  return value;
+}
+
+/**
+ * Wall-clock time of an instant in a timezone, as milliseconds on a UTC
+ * timeline (seconds precision)
+ */
+function wallClock(instant: number, timezone: string): number {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour % 24,
+    parts.minute,
+    parts.second
+  );
+}
+
+function offsetAt(instant: number, timezone: string): number {
+  const whole = Math.floor(instant / 1000) * 1000;
+  return wallClock(whole, timezone) - whole;
+}
@@ -0,0 +1,110 @@
+/**
+ * Limits for direct messages and the files attached to them
+ *
+ * Shared by the messaging service and the messaging UI, so the browser can
+ * reject a message or file before sending it.
+ */
+
+export const MAX_MESSAGE_LENGTH = 5000;
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+// Allowed MIME types and the file extensions each may carry
+export const ALLOWED_ATTACHMENT_TYPES: Record<string, string[]> = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/gif': ['.gif'],
+  'image/webp': ['.webp'],
+  'application/pdf': ['.pdf'],
+  'text/plain': ['.txt'],
+  'application/msword': ['.doc'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': [
+    '.docx',
+  ],
+};
+
+// Value for the accept attribute of file inputs
+export const ATTACHMENT_ACCEPT = Object.entries(ALLOWED_ATTACHMENT_TYPES)
+  .flatMap(([mimeType, extensions]) => [mimeType, ...extensions])
+  .join(',');
+
+export interface AttachmentFile {
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Why a file may not be attached, or null if it may
+ */
+export function getAttachmentError(file: AttachmentFile): string | null {
+  if (file.size <= 0) {
+    return 'File is empty';
+  }
+
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `File is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`;
+  }
+
+  const extensions = ALLOWED_ATTACHMENT_TYPES[file.mimeType];
+  if (!extensions) {
+    return 'File type not allowed';
+  }
+
+  const name = file.fileName.toLowerCase();
+  if (!extensions.some(extension => name.endsWith(extension))) {
+    return 'File extension does not match its type';
+  }
+
+  return null;
+}
+
+// Leading bytes of binary formats, so a file cannot claim another type
+const FILE_SIGNATURES: Record<string, number[][]> = {
+  'image/jpeg': [[0xff, 0xd8, 0xff]],
+  'image/png': [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  'image/gif': [[0x47, 0x49, 0x46, 0x38]],
+  'image/webp': [[0x52, 0x49, 0x46, 0x46]],
+  'application/pdf': [[0x25, 0x50, 0x44, 0x46]],
+  'application/msword': [[0xd0, 0xcf, 0x11, 0xe0]],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': [
+    [0x50, 0x4b, 0x03, 0x04],
+  ],
+};
+
+/**
+ * Whether a file's content starts the way its type says it should. Plain text
+ * has no signature and always matches.
+ */
+export function matchesFileSignature(
+  mimeType: string,
+  content: Uint8Array
+): boolean {
+  const signatures = FILE_SIGNATURES[mimeType];
+  if (!signatures) return true;
+
+  return signatures.some(signature =>
+    signature.every((byte, index) => content[index] === byte)
+  );
+}
+
+/**
+ * File name safe to store and to send back in a Content-Disposition header
+ */
+export function sanitizeFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() || '';
+  const cleaned = Array.from(base)
+    .filter(char => {
+      const code = char.charCodeAt(0);
+      return code > 0x1f && code !== 0x7f && char !== '"';
+    })
+    .join('')
+    .trim()
+    .slice(-255);
+
+  return cleaned || 'attachment';
+}
+
+export function isImageAttachment(mimeType: string): boolean {
+  return mimeType.startsWith('image/');
+}
@@ -170,6 +170,12 @@ export const esUtils = {
                 tokenizer: 'standard',
                 filter: ['lowercase', 'stop', 'snowball'],
               },
+              // Tamil and Telugu translations
+              indic_text_analyzer: {
+                type: 'custom',
+                tokenizer: 'standard',
+                filter: ['lowercase', 'decimal_digit', 'indic_normalization'],
+              },
             },
           },
         },
@@ -16,11 +16,21 @@ const envSchema = z.object({
   OPENAI_API_KEY: z.string().optional(),
   AZURE_SPEECH_KEY: z.string().optional(),
   GOOGLE_SPEECH_KEY: z.string().optional(),
+  GOOGLE_TRANSLATE_API_KEY: z.string().optional(),
   EMAIL_SERVICE_API_KEY: z.string().optional(),
   SMS_SERVICE_API_KEY: z.string().optional(),
   VAPID_PUBLIC_KEY: z.string().optional(),
   VAPID_PRIVATE_KEY: z.string().optional(),
   FCM_SERVER_KEY: z.string().optional(),
+  OIDC_ISSUER: z.string().url().optional(),
+  OIDC_PRIVATE_KEY: z.string().optional(),
+  GOOGLE_OAUTH_CLIENT_ID: z.string().optional(),
+  GOOGLE_OAUTH_CLIENT_SECRET: z.string().optional(),
+  GITHUB_OAUTH_CLIENT_ID: z.string().optional(),
+  GITHUB_OAUTH_CLIENT_SECRET: z.string().optional(),
+  LINKEDIN_OAUTH_CLIENT_ID: z.string().optional(),
+  LINKEDIN_OAUTH_CLIENT_SECRET: z.string().optional(),
+  FEDERATED_IDP_BASE_URL: z.string().url().optional(),
 });
 
 // Parse and validate environment variables
@@ -0,0 +1,180 @@
+/**
+ * Domain event catalog
+ *
+ * Every event the platform emits, with the shape of its payload. The catalog
+ * is published at GET /api/v1/developer/events and is the list of events a
+ * webhook may subscribe to. Payloads are delivered as JSON, so dates are ISO
+ * strings.
+ */
+
+export interface OpportunityEventData {
+  id: string;
+  title: string;
+  type: string;
+  organizerName: string;
+  applicationDeadline: string;
+  externalUrl: string;
+}
+
+export interface OpportunityUpdatedEventData extends OpportunityEventData {
+  // Names of the opportunity fields that changed, e.g. 'stipend'
+  changedFields: string[];
+}
+
+export interface DomainEvents {
+  'opportunity.created': OpportunityEventData;
+  'opportunity.updated': OpportunityUpdatedEventData;
+  'opportunity.expired': {
+    id: string;
+    title: string;
+    applicationDeadline: string;
+  };
+  'opportunity.translated': {
+    id: string;
+    languages: string[];
+  };
+  'favorite.added': {
+    userId: string;
+    opportunityId: string;
+  };
+  'credential.issued': {
+    id: string;
+    userId: string;
+    opportunityId?: string;
+    credentialType: string;
+    title: string;
+    blockchainId: string;
+    issuedAt: string;
+  };
+  'mentorship.session.scheduled': {
+    id: string;
+    mentorId: string;
+    studentId: string;
+    requestId?: string;
+    title: string;
+    scheduledAt: string;
+    durationMinutes: number;
+  };
+  'application.status_changed': {
+    id: string;
+    userId: string;
+    opportunityId: string;
+    fromStatus: string;
+    toStatus: string;
+  };
+}
+
+export type DomainEventType = keyof DomainEvents;
+
+/**
+ * Public events go to every subscribed webhook. User events only go to
+ * webhooks owned by a user the event concerns (its audience).
+ */
+export type EventScope = 'public' | 'user';
+
+export interface EventDefinition<T extends DomainEventType = DomainEventType> {
+  type: T;
+  description: string;
+  scope: EventScope;
+  example: DomainEvents[T];
+}
+
+const EXAMPLE_OPPORTUNITY: OpportunityEventData = {
+  id: '123e4567-e89b-12d3-a456-426614174000',
+  title: 'AI Hackathon 2024',
+  type: 'hackathon',
+  organizerName: 'TechCorp',
+  applicationDeadline: '2024-02-01T23:59:59.000Z',
+  externalUrl: 'https://techcorp.example.com/hackathon',
+};
+
+export const EVENT_CATALOG: { [T in DomainEventType]: EventDefinition<T> } = {
+  'opportunity.created': {
+    type: 'opportunity.created',
+    description: 'A new opportunity was added',
+    scope: 'public',
+    example: EXAMPLE_OPPORTUNITY,
+  },
+  'opportunity.updated': {
+    type: 'opportunity.updated',
+    description: 'An opportunity changed when it was refreshed from its source',
+    scope: 'public',
+    example: {
+      ...EXAMPLE_OPPORTUNITY,
+      changedFields: ['description', 'stipend'],
+    },
+  },
+  'opportunity.expired': {
+    type: 'opportunity.expired',
+    description: 'An opportunity passed its deadline and was deactivated',
+    scope: 'public',
+    example: {
+      id: EXAMPLE_OPPORTUNITY.id,
+      title: EXAMPLE_OPPORTUNITY.title,
+      applicationDeadline: EXAMPLE_OPPORTUNITY.applicationDeadline,
+    },
+  },
+  'opportunity.translated': {
+    type: 'opportunity.translated',
+    description:
+      "An opportunity's title and description were translated into more languages",
+    scope: 'public',
+    example: {
+      id: EXAMPLE_OPPORTUNITY.id,
+      languages: ['hi', 'ta', 'te'],
+    },
+  },
+  'favorite.added': {
+    type: 'favorite.added',
+    description: 'You saved an opportunity to your favorites',
+    scope: 'user',
+    example: {
+      userId: '0b9c8d7e-6f5a-4b3c-8d2e-1f0a9b8c7d6e',
+      opportunityId: EXAMPLE_OPPORTUNITY.id,
+    },
+  },
+  'credential.issued': {
+    type: 'credential.issued',
+    description: 'A credential was issued to you',
+    scope: 'user',
+    example: {
+      id: '4c5d6e7f-8a9b-4c0d-9e1f-2a3b4c5d6e7f',
+      userId: '0b9c8d7e-6f5a-4b3c-8d2e-1f0a9b8c7d6e',
+      opportunityId: EXAMPLE_OPPORTUNITY.id,
+      credentialType: 'certificate',
+      title: 'AI Hackathon 2024 Finalist',
+      blockchainId: '42',
+      issuedAt: '2024-02-10T12:00:00.000Z',
+    },
+  },
+  'mentorship.session.scheduled': {
+    type: 'mentorship.session.scheduled',
+    description: 'A mentorship session you take part in was scheduled',
+    scope: 'user',
+    example: {
+      id: '9e8d7c6b-5a4f-4e3d-8c2b-1a0f9e8d7c6b',
+      mentorId: '1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d',
+      studentId: '0b9c8d7e-6f5a-4b3c-8d2e-1f0a9b8c7d6e',
+      title: 'Career guidance',
+      scheduledAt: '2024-02-15T10:00:00.000Z',
+      durationMinutes: 60,
+    },
+  },
+  'application.status_changed': {
+    type: 'application.status_changed',
+    description: 'One of your tracked applications moved to a new status',
+    scope: 'user',
+    example: {
+      id: '7f6e5d4c-3b2a-4190-8f7e-6d5c4b3a2f1e',
+      userId: '0b9c8d7e-6f5a-4b3c-8d2e-1f0a9b8c7d6e',
+      opportunityId: EXAMPLE_OPPORTUNITY.id,
+      fromStatus: 'applied',
+      toStatus: 'interview',
+    },
+  },
+};
+
+export const EVENT_TYPES = Object.keys(EVENT_CATALOG) as [
+  DomainEventType,
+  ...DomainEventType[],
+];
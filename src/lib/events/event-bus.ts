@@ -0,0 +1,109 @@
+/**
+ * In-process domain event bus
+ *
+ * Services emit events after their own writes succeed. Handlers run after the
+ * emitting call has returned, and a failing handler is logged rather than
+ * surfaced, so subscribers can never break the operation that raised the
+ * event. Anything slow or retryable (such as webhook delivery) should hand
+ * off to the job queue from its handler.
+ */
+
+import crypto from 'crypto';
+import type { DomainEvents, DomainEventType } from './catalog';
+
+export interface DomainEvent<T extends DomainEventType = DomainEventType> {
+  id: string;
+  type: T;
+  occurredAt: string;
+  audience: string[]; // IDs of the users the event concerns
+  data: DomainEvents[T];
+}
+
+export interface EmitOptions {
+  audience?: string[];
+}
+
+export type DomainEventHandler<T extends DomainEventType = DomainEventType> = (
+  event: DomainEvent<T>
+) => void | Promise<void>;
+
+export class DomainEventBus {
+  private handlers: Map<DomainEventType, Array<DomainEventHandler<any>>> =
+    new Map();
+  private anyHandlers: DomainEventHandler[] = [];
+  private pending: Set<Promise<void>> = new Set();
+
+  /**
+   * Subscribe to one event type. Returns a function that unsubscribes.
+   */
+  on<T extends DomainEventType>(
+    type: T,
+    handler: DomainEventHandler<T>
+  ): () => void {
+    const handlers = this.handlers.get(type) || [];
+    this.handlers.set(type, [...handlers, handler]);
+
+    return () => {
+      this.handlers.set(
+        type,
+        (this.handlers.get(type) || []).filter(item => item !== handler)
+      );
+    };
+  }
+
+  /**
+   * Subscribe to every event type. Returns a function that unsubscribes.
+   */
+  onAny(handler: DomainEventHandler): () => void {
+    this.anyHandlers = [...this.anyHandlers, handler];
+
+    return () => {
+      this.anyHandlers = this.anyHandlers.filter(item => item !== handler);
+    };
+  }
+
+  /**
+   * Publish an event. Handlers are scheduled rather than awaited.
+   */
+  emit<T extends DomainEventType>(
+    type: T,
+    data: DomainEvents[T],
+    options: EmitOptions = {}
+  ): DomainEvent<T> {
+    const event: DomainEvent<T> = {
+      id: crypto.randomUUID(),
+      type,
+      occurredAt: new Date().toISOString(),
+      audience: [...new Set(options.audience || [])],
+      data,
+    };
+
+    const handlers = [...(this.handlers.get(type) || []), ...this.anyHandlers];
+
+    for (const handler of handlers) {
+      const run = new Promise<void>(resolve => setImmediate(resolve))
+        .then(() => handler(event))
+        .catch(error => {
+          console.error(`Event handler for ${type} failed:`, error);
+        })
+        .finally(() => {
+          this.pending.delete(run);
+        });
+
+      this.pending.add(run);
+    }
+
+    return event;
+  }
+
+  /**
+   * Wait for every handler scheduled so far to settle
+   */
+  async drain(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+  }
+}
+
+export const eventBus = new DomainEventBus();
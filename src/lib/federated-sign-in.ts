@@ -0,0 +1,39 @@
+/**
+ * Browser side of signing in with Google, GitHub or LinkedIn
+ */
+
+// The state of the sign-in this browser started, checked by the callback page
+export const FEDERATED_STATE_STORAGE_KEY = 'federatedSignInState';
+
+export interface StartFederatedSignInOptions {
+  link?: boolean; // Link to the signed-in account instead of signing in
+  returnTo?: string;
+}
+
+/**
+ * Send the browser to the provider. Resolves with an error message if the
+ * sign-in could not be started.
+ */
+export async function startFederatedSignIn(
+  provider: string,
+  options: StartFederatedSignInOptions = {}
+): Promise<string | undefined> {
+  const token = localStorage.getItem('token');
+  const response = await fetch(`/api/v1/auth/federated/${provider}/start`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(options),
+  });
+  const data = await response.json();
+
+  if (!data.success) {
+    return data.error || 'Failed to start sign-in';
+  }
+
+  sessionStorage.setItem(FEDERATED_STATE_STORAGE_KEY, data.data.state);
+  window.location.href = data.data.authorizationUrl;
+  return undefined;
+}
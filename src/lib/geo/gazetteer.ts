@@ -0,0 +1,67 @@
+/**
+ * Geocoding against the bundled city gazetteer
+ *
+ * Locations arrive as free text ("Koramangala, Bangalore", "Mumbai / Remote",
+ * "IIT Madras, Chennai, Tamil Nadu"), so lookup tries each comma separated
+ * part before scanning the whole string for a known city name.
+ */
+
+import type { GazetteerCity } from './indian-cities';
+import { INDIAN_CITIES } from './indian-cities';
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Every name and alias, longest first so "Navi Mumbai" wins over "Mumbai"
+const CITY_NAMES: Array<[string, GazetteerCity]> = INDIAN_CITIES.flatMap(city =>
+  [city.name, ...(city.aliases || [])].map(
+    name => [normalize(name), city] as [string, GazetteerCity]
+  )
+).sort(([a], [b]) => b.length - a.length);
+
+const CITY_INDEX = new Map(CITY_NAMES);
+
+/**
+ * Resolve a free-text location to a gazetteer city
+ */
+export function geocodeLocation(
+  text: string | undefined | null
+): GazetteerCity | undefined {
+  if (!text) return undefined;
+
+  for (const part of text.split(/[,/|()]/)) {
+    const city = CITY_INDEX.get(normalize(part));
+    if (city) return city;
+  }
+
+  const value = ` ${normalize(text)} `;
+  return CITY_NAMES.find(([name]) => value.includes(` ${name} `))?.[1];
+}
+
+/**
+ * Great-circle distance in kilometres, rounded to one decimal place
+ */
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) *
+      Math.cos(toRadians(to.lat)) *
+      Math.sin(dLon / 2) ** 2;
+
+  const distance = 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+  return Math.round(distance * 10) / 10;
+}
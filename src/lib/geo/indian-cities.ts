@@ -0,0 +1,376 @@
+/**
+ * Offline gazetteer of Indian cities used to geocode opportunity and user
+ * locations without calling an external service. Coordinates are city
+ * centres; aliases cover former names and common spellings.
+ */
+
+export interface GazetteerCity {
+  name: string;
+  state: string;
+  lat: number;
+  lon: number;
+  aliases?: string[];
+}
+
+export const INDIAN_CITIES: GazetteerCity[] = [
+  {
+    name: 'Mumbai',
+    state: 'Maharashtra',
+    lat: 19.076,
+    lon: 72.878,
+    aliases: ['Bombay'],
+  },
+  { name: 'Navi Mumbai', state: 'Maharashtra', lat: 19.033, lon: 73.03 },
+  { name: 'Thane', state: 'Maharashtra', lat: 19.218, lon: 72.978 },
+  {
+    name: 'Pune',
+    state: 'Maharashtra',
+    lat: 18.52,
+    lon: 73.856,
+    aliases: ['Poona'],
+  },
+  { name: 'Nagpur', state: 'Maharashtra', lat: 21.146, lon: 79.088 },
+  {
+    name: 'Nashik',
+    state: 'Maharashtra',
+    lat: 19.998,
+    lon: 73.79,
+    aliases: ['Nasik'],
+  },
+  {
+    name: 'Aurangabad',
+    state: 'Maharashtra',
+    lat: 19.876,
+    lon: 75.343,
+    aliases: ['Chhatrapati Sambhajinagar'],
+  },
+  { name: 'Kolhapur', state: 'Maharashtra', lat: 16.705, lon: 74.243 },
+  { name: 'Solapur', state: 'Maharashtra', lat: 17.66, lon: 75.906 },
+  { name: 'Amravati', state: 'Maharashtra', lat: 20.932, lon: 77.752 },
+  { name: 'Nanded', state: 'Maharashtra', lat: 19.138, lon: 77.321 },
+  { name: 'Akola', state: 'Maharashtra', lat: 20.707, lon: 77.002 },
+  { name: 'Jalgaon', state: 'Maharashtra', lat: 21.008, lon: 75.563 },
+  { name: 'Sangli', state: 'Maharashtra', lat: 16.852, lon: 74.581 },
+  { name: 'Latur', state: 'Maharashtra', lat: 18.401, lon: 76.56 },
+  {
+    name: 'Delhi',
+    state: 'Delhi',
+    lat: 28.614,
+    lon: 77.209,
+    aliases: ['New Delhi'],
+  },
+  { name: 'Noida', state: 'Uttar Pradesh', lat: 28.535, lon: 77.391 },
+  { name: 'Greater Noida', state: 'Uttar Pradesh', lat: 28.474, lon: 77.504 },
+  { name: 'Ghaziabad', state: 'Uttar Pradesh', lat: 28.669, lon: 77.454 },
+  {
+    name: 'Gurugram',
+    state: 'Haryana',
+    lat: 28.459,
+    lon: 77.027,
+    aliases: ['Gurgaon'],
+  },
+  { name: 'Faridabad', state: 'Haryana', lat: 28.408, lon: 77.318 },
+  {
+    name: 'Sonipat',
+    state: 'Haryana',
+    lat: 28.993,
+    lon: 77.016,
+    aliases: ['Sonepat'],
+  },
+  { name: 'Rohtak', state: 'Haryana', lat: 28.895, lon: 76.607 },
+  { name: 'Hisar', state: 'Haryana', lat: 29.149, lon: 75.722 },
+  { name: 'Karnal', state: 'Haryana', lat: 29.686, lon: 76.99 },
+  { name: 'Panipat', state: 'Haryana', lat: 29.391, lon: 76.964 },
+  { name: 'Kurukshetra', state: 'Haryana', lat: 29.969, lon: 76.878 },
+  { name: 'Panchkula', state: 'Haryana', lat: 30.695, lon: 76.861 },
+  { name: 'Chandigarh', state: 'Chandigarh', lat: 30.733, lon: 76.779 },
+  {
+    name: 'Mohali',
+    state: 'Punjab',
+    lat: 30.704,
+    lon: 76.718,
+    aliases: ['SAS Nagar'],
+  },
+  { name: 'Ludhiana', state: 'Punjab', lat: 30.901, lon: 75.857 },
+  { name: 'Amritsar', state: 'Punjab', lat: 31.634, lon: 74.872 },
+  { name: 'Jalandhar', state: 'Punjab', lat: 31.326, lon: 75.576 },
+  { name: 'Patiala', state: 'Punjab', lat: 30.34, lon: 76.386 },
+  { name: 'Bathinda', state: 'Punjab', lat: 30.211, lon: 74.945 },
+  { name: 'Shimla', state: 'Himachal Pradesh', lat: 31.105, lon: 77.173 },
+  { name: 'Jammu', state: 'Jammu and Kashmir', lat: 32.727, lon: 74.857 },
+  { name: 'Srinagar', state: 'Jammu and Kashmir', lat: 34.084, lon: 74.797 },
+  { name: 'Leh', state: 'Ladakh', lat: 34.153, lon: 77.577 },
+  { name: 'Dehradun', state: 'Uttarakhand', lat: 30.317, lon: 78.032 },
+  { name: 'Haridwar', state: 'Uttarakhand', lat: 29.945, lon: 78.164 },
+  { name: 'Roorkee', state: 'Uttarakhand', lat: 29.854, lon: 77.888 },
+  { name: 'Lucknow', state: 'Uttar Pradesh', lat: 26.847, lon: 80.947 },
+  { name: 'Kanpur', state: 'Uttar Pradesh', lat: 26.449, lon: 80.331 },
+  { name: 'Agra', state: 'Uttar Pradesh', lat: 27.177, lon: 78.008 },
+  {
+    name: 'Varanasi',
+    state: 'Uttar Pradesh',
+    lat: 25.317,
+    lon: 82.974,
+    aliases: ['Banaras', 'Benares', 'Kashi'],
+  },
+  {
+    name: 'Prayagraj',
+    state: 'Uttar Pradesh',
+    lat: 25.435,
+    lon: 81.846,
+    aliases: ['Allahabad'],
+  },
+  { name: 'Meerut', state: 'Uttar Pradesh', lat: 28.984, lon: 77.706 },
+  { name: 'Gorakhpur', state: 'Uttar Pradesh', lat: 26.76, lon: 83.373 },
+  { name: 'Bareilly', state: 'Uttar Pradesh', lat: 28.367, lon: 79.43 },
+  { name: 'Aligarh', state: 'Uttar Pradesh', lat: 27.883, lon: 78.078 },
+  { name: 'Moradabad', state: 'Uttar Pradesh', lat: 28.839, lon: 78.773 },
+  { name: 'Jhansi', state: 'Uttar Pradesh', lat: 25.449, lon: 78.569 },
+  { name: 'Mathura', state: 'Uttar Pradesh', lat: 27.492, lon: 77.674 },
+  { name: 'Jaipur', state: 'Rajasthan', lat: 26.912, lon: 75.787 },
+  { name: 'Jodhpur', state: 'Rajasthan', lat: 26.239, lon: 73.024 },
+  { name: 'Udaipur', state: 'Rajasthan', lat: 24.585, lon: 73.712 },
+  { name: 'Kota', state: 'Rajasthan', lat: 25.213, lon: 75.865 },
+  { name: 'Ajmer', state: 'Rajasthan', lat: 26.45, lon: 74.64 },
+  { name: 'Bikaner', state: 'Rajasthan', lat: 28.022, lon: 73.312 },
+  { name: 'Alwar', state: 'Rajasthan', lat: 27.553, lon: 76.603 },
+  { name: 'Pilani', state: 'Rajasthan', lat: 28.367, lon: 75.604 },
+  {
+    name: 'Ahmedabad',
+    state: 'Gujarat',
+    lat: 23.023,
+    lon: 72.571,
+    aliases: ['Amdavad'],
+  },
+  { name: 'Gandhinagar', state: 'Gujarat', lat: 23.216, lon: 72.637 },
+  { name: 'Surat', state: 'Gujarat', lat: 21.17, lon: 72.831 },
+  {
+    name: 'Vadodara',
+    state: 'Gujarat',
+    lat: 22.307,
+    lon: 73.181,
+    aliases: ['Baroda'],
+  },
+  { name: 'Rajkot', state: 'Gujarat', lat: 22.303, lon: 70.802 },
+  { name: 'Bhavnagar', state: 'Gujarat', lat: 21.765, lon: 72.152 },
+  { name: 'Jamnagar', state: 'Gujarat', lat: 22.47, lon: 70.058 },
+  { name: 'Anand', state: 'Gujarat', lat: 22.556, lon: 72.951 },
+  {
+    name: 'Panaji',
+    state: 'Goa',
+    lat: 15.491,
+    lon: 73.828,
+    aliases: ['Panjim', 'Goa'],
+  },
+  { name: 'Indore', state: 'Madhya Pradesh', lat: 22.72, lon: 75.858 },
+  { name: 'Bhopal', state: 'Madhya Pradesh', lat: 23.26, lon: 77.413 },
+  { name: 'Jabalpur', state: 'Madhya Pradesh', lat: 23.181, lon: 79.986 },
+  { name: 'Gwalior', state: 'Madhya Pradesh', lat: 26.218, lon: 78.183 },
+  { name: 'Ujjain', state: 'Madhya Pradesh', lat: 23.179, lon: 75.785 },
+  { name: 'Raipur', state: 'Chhattisgarh', lat: 21.251, lon: 81.63 },
+  { name: 'Bhilai', state: 'Chhattisgarh', lat: 21.209, lon: 81.379 },
+  { name: 'Bilaspur', state: 'Chhattisgarh', lat: 22.08, lon: 82.155 },
+  {
+    name: 'Bengaluru',
+    state: 'Karnataka',
+    lat: 12.972,
+    lon: 77.595,
+    aliases: ['Bangalore'],
+  },
+  {
+    name: 'Mysuru',
+    state: 'Karnataka',
+    lat: 12.296,
+    lon: 76.639,
+    aliases: ['Mysore'],
+  },
+  {
+    name: 'Mangaluru',
+    state: 'Karnataka',
+    lat: 12.915,
+    lon: 74.856,
+    aliases: ['Mangalore'],
+  },
+  { name: 'Manipal', state: 'Karnataka', lat: 13.352, lon: 74.793 },
+  {
+    name: 'Hubballi',
+    state: 'Karnataka',
+    lat: 15.365,
+    lon: 75.124,
+    aliases: ['Hubli', 'Hubli-Dharwad'],
+  },
+  {
+    name: 'Belagavi',
+    state: 'Karnataka',
+    lat: 15.85,
+    lon: 74.498,
+    aliases: ['Belgaum'],
+  },
+  { name: 'Davanagere', state: 'Karnataka', lat: 14.464, lon: 75.922 },
+  {
+    name: 'Kalaburagi',
+    state: 'Karnataka',
+    lat: 17.329,
+    lon: 76.834,
+    aliases: ['Gulbarga'],
+  },
+  {
+    name: 'Hyderabad',
+    state: 'Telangana',
+    lat: 17.385,
+    lon: 78.487,
+    aliases: ['Secunderabad', 'Cyberabad'],
+  },
+  { name: 'Warangal', state: 'Telangana', lat: 17.968, lon: 79.594 },
+  { name: 'Karimnagar', state: 'Telangana', lat: 18.439, lon: 79.129 },
+  { name: 'Nizamabad', state: 'Telangana', lat: 18.672, lon: 78.094 },
+  {
+    name: 'Visakhapatnam',
+    state: 'Andhra Pradesh',
+    lat: 17.687,
+    lon: 83.218,
+    aliases: ['Vizag'],
+  },
+  { name: 'Vijayawada', state: 'Andhra Pradesh', lat: 16.506, lon: 80.648 },
+  { name: 'Guntur', state: 'Andhra Pradesh', lat: 16.307, lon: 80.436 },
+  { name: 'Nellore', state: 'Andhra Pradesh', lat: 14.443, lon: 79.987 },
+  { name: 'Tirupati', state: 'Andhra Pradesh', lat: 13.629, lon: 79.419 },
+  { name: 'Kakinada', state: 'Andhra Pradesh', lat: 16.989, lon: 82.247 },
+  {
+    name: 'Rajahmundry',
+    state: 'Andhra Pradesh',
+    lat: 17.0,
+    lon: 81.804,
+    aliases: ['Rajamahendravaram'],
+  },
+  {
+    name: 'Chennai',
+    state: 'Tamil Nadu',
+    lat: 13.083,
+    lon: 80.271,
+    aliases: ['Madras'],
+  },
+  { name: 'Coimbatore', state: 'Tamil Nadu', lat: 11.017, lon: 76.956 },
+  { name: 'Madurai', state: 'Tamil Nadu', lat: 9.925, lon: 78.12 },
+  {
+    name: 'Tiruchirappalli',
+    state: 'Tamil Nadu',
+    lat: 10.791,
+    lon: 78.705,
+    aliases: ['Trichy'],
+  },
+  { name: 'Salem', state: 'Tamil Nadu', lat: 11.665, lon: 78.146 },
+  { name: 'Vellore', state: 'Tamil Nadu', lat: 12.917, lon: 79.133 },
+  { name: 'Erode', state: 'Tamil Nadu', lat: 11.341, lon: 77.717 },
+  { name: 'Tirunelveli', state: 'Tamil Nadu', lat: 8.714, lon: 77.757 },
+  {
+    name: 'Thanjavur',
+    state: 'Tamil Nadu',
+    lat: 10.787,
+    lon: 79.138,
+    aliases: ['Tanjore'],
+  },
+  { name: 'Hosur', state: 'Tamil Nadu', lat: 12.74, lon: 77.825 },
+  {
+    name: 'Puducherry',
+    state: 'Puducherry',
+    lat: 11.941,
+    lon: 79.809,
+    aliases: ['Pondicherry'],
+  },
+  {
+    name: 'Thiruvananthapuram',
+    state: 'Kerala',
+    lat: 8.524,
+    lon: 76.937,
+    aliases: ['Trivandrum'],
+  },
+  {
+    name: 'Kochi',
+    state: 'Kerala',
+    lat: 9.931,
+    lon: 76.267,
+    aliases: ['Cochin', 'Ernakulam'],
+  },
+  {
+    name: 'Kozhikode',
+    state: 'Kerala',
+    lat: 11.259,
+    lon: 75.78,
+    aliases: ['Calicut'],
+  },
+  {
+    name: 'Thrissur',
+    state: 'Kerala',
+    lat: 10.527,
+    lon: 76.214,
+    aliases: ['Trichur'],
+  },
+  {
+    name: 'Kollam',
+    state: 'Kerala',
+    lat: 8.893,
+    lon: 76.614,
+    aliases: ['Quilon'],
+  },
+  {
+    name: 'Kannur',
+    state: 'Kerala',
+    lat: 11.874,
+    lon: 75.37,
+    aliases: ['Cannanore'],
+  },
+  {
+    name: 'Kolkata',
+    state: 'West Bengal',
+    lat: 22.573,
+    lon: 88.364,
+    aliases: ['Calcutta'],
+  },
+  { name: 'Howrah', state: 'West Bengal', lat: 22.596, lon: 88.264 },
+  { name: 'Durgapur', state: 'West Bengal', lat: 23.52, lon: 87.312 },
+  { name: 'Asansol', state: 'West Bengal', lat: 23.674, lon: 86.952 },
+  { name: 'Siliguri', state: 'West Bengal', lat: 26.727, lon: 88.395 },
+  { name: 'Kharagpur', state: 'West Bengal', lat: 22.346, lon: 87.232 },
+  { name: 'Bhubaneswar', state: 'Odisha', lat: 20.296, lon: 85.825 },
+  { name: 'Cuttack', state: 'Odisha', lat: 20.463, lon: 85.883 },
+  { name: 'Rourkela', state: 'Odisha', lat: 22.26, lon: 84.854 },
+  { name: 'Sambalpur', state: 'Odisha', lat: 21.466, lon: 83.976 },
+  {
+    name: 'Berhampur',
+    state: 'Odisha',
+    lat: 19.315,
+    lon: 84.793,
+    aliases: ['Brahmapur'],
+  },
+  { name: 'Patna', state: 'Bihar', lat: 25.594, lon: 85.138 },
+  { name: 'Gaya', state: 'Bihar', lat: 24.796, lon: 85.008 },
+  { name: 'Muzaffarpur', state: 'Bihar', lat: 26.121, lon: 85.391 },
+  { name: 'Bhagalpur', state: 'Bihar', lat: 25.244, lon: 86.972 },
+  { name: 'Ranchi', state: 'Jharkhand', lat: 23.344, lon: 85.31 },
+  { name: 'Jamshedpur', state: 'Jharkhand', lat: 22.805, lon: 86.203 },
+  { name: 'Dhanbad', state: 'Jharkhand', lat: 23.796, lon: 86.43 },
+  {
+    name: 'Guwahati',
+    state: 'Assam',
+    lat: 26.144,
+    lon: 91.736,
+    aliases: ['Gauhati'],
+  },
+  { name: 'Dibrugarh', state: 'Assam', lat: 27.472, lon: 94.912 },
+  { name: 'Silchar', state: 'Assam', lat: 24.833, lon: 92.779 },
+  { name: 'Shillong', state: 'Meghalaya', lat: 25.578, lon: 91.893 },
+  { name: 'Imphal', state: 'Manipur', lat: 24.817, lon: 93.937 },
+  { name: 'Agartala', state: 'Tripura', lat: 23.831, lon: 91.287 },
+  { name: 'Aizawl', state: 'Mizoram', lat: 23.727, lon: 92.718 },
+  { name: 'Kohima', state: 'Nagaland', lat: 25.674, lon: 94.11 },
+  { name: 'Itanagar', state: 'Arunachal Pradesh', lat: 27.084, lon: 93.605 },
+  { name: 'Gangtok', state: 'Sikkim', lat: 27.339, lon: 88.607 },
+  {
+    name: 'Port Blair',
+    state: 'Andaman and Nicobar Islands',
+    lat: 11.623,
+    lon: 92.726,
+    aliases: ['Sri Vijaya Puram'],
+  },
+];
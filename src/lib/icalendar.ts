@@ -0,0 +1,208 @@
+/**
+ * iCalendar (RFC 5545) serialization for calendar feeds and .ics downloads
+ *
+ * Only the subset calendar apps need is supported: VEVENTs with optional
+ * VALARM display reminders, all times in UTC. Free of server dependencies so
+ * that components can build downloads in the browser.
+ */
+
+export interface CalendarAlarm {
+  before: number; // Milliseconds before the event starts
+  description: string;
+}
+
+export interface CalendarEvent {
+  uid: string; // Stable across exports so that calendar apps update in place
+  start: Date;
+  end?: Date; // Without an end the event is a point in time
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  lastModified?: Date;
+  alarms?: CalendarAlarm[];
+}
+
+export interface CalendarOptions {
+  name?: string;
+  refreshInterval?: number; // Milliseconds between subscription refreshes
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//OpportuneX//Calendar//EN';
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * UTC DATE-TIME value, e.g. 20240201T235959Z
+ */
+export function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/\.\d{3}/, '')
+    .replace(/[-:]/g, '');
+}
+
+/**
+ * DURATION value, e.g. P1DT6H. Negative for times before the event.
+ */
+export function formatDuration(ms: number): string {
+  const sign = ms < 0 ? '-' : '';
+  let minutes = Math.round(Math.abs(ms) / 60000);
+
+  const days = Math.floor(minutes / (24 * 60));
+  minutes -= days * 24 * 60;
+  const hours = Math.floor(minutes / 60);
+  minutes -= hours * 60;
+
+  let time = '';
+  if (hours) time += `${hours}H`;
+  if (minutes) time += `${minutes}M`;
+  if (!days && !time) time = '0S';
+
+  return `${sign}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+}
+
+/**
+ * Fold a content line longer than 75 octets, never splitting a character
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function eventLines(event: CalendarEvent, now: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+  ];
+
+  if (event.end && event.end > event.start) {
+    lines.push(`DTEND:${formatDateTime(event.end)}`);
+  }
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  if (event.status) {
+    lines.push(`STATUS:${event.status}`);
+  }
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`);
+  }
+
+  for (const alarm of event.alarms || []) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(alarm.description)}`,
+      `TRIGGER:${formatDuration(-alarm.before)}`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize events as a VCALENDAR object
+ */
+export function buildCalendar(
+  events: CalendarEvent[],
+  options: CalendarOptions = {}
+): string {
+  const now = options.now || new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+  if (options.refreshInterval) {
+    const interval = formatDuration(options.refreshInterval);
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:${interval}`,
+      `X-PUBLISHED-TTL:${interval}`
+    );
+  }
+
+  for (const event of events) {
+    lines.push(...eventLines(event, now));
+  }
+  lines.push('END:VCALENDAR');
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+/**
+ * File name for a single-event download
+ */
+export function calendarFileName(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+
+  return `${slug || 'event'}.ics`;
+}
+
+/**
+ * Save events as an .ics file (browser only)
+ */
+export function downloadCalendar(events: CalendarEvent[], title: string) {
+  const blob = new Blob([buildCalendar(events)], {
+    type: 'text/calendar;charset=utf-8',
+  });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = calendarFileName(title);
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
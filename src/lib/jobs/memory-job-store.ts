@@ -0,0 +1,236 @@
+import { randomUUID } from 'crypto';
+import type {
+  ClaimedJob,
+  JobEvent,
+  JobFilter,
+  JobStatus,
+  JobStore,
+  NewJob,
+  QueueJob,
+  ScheduledTaskSetting,
+} from '../services/job-queue.service';
+
+const FINISHED: JobStatus[] = ['completed', 'cancelled', 'dead'];
+
+/**
+ * In-process job store. Claims are atomic within one process only, so this
+ * is for tests and single-instance development.
+ */
+export class MemoryJobStore implements JobStore {
+  private jobs: Map<string, QueueJob> = new Map();
+  private events: JobEvent[] = [];
+  private settings: Map<string, ScheduledTaskSetting> = new Map();
+
+  async insert(job: NewJob): Promise<QueueJob | null> {
+    if (
+      job.dedupeKey &&
+      Array.from(this.jobs.values()).some(
+        existing => existing.dedupeKey === job.dedupeKey
+      )
+    ) {
+      return null;
+    }
+
+    const now = new Date();
+    const record: QueueJob = {
+      ...job,
+      id: randomUUID(),
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.set(record.id, record);
+    return { ...record };
+  }
+
+  async claim(
+    names: string[],
+    workerId: string,
+    leaseMs: number,
+    limit: number
+  ): Promise<ClaimedJob[]> {
+    const now = new Date();
+    const due = Array.from(this.jobs.values())
+      .filter(
+        job =>
+          names.includes(job.name) &&
+          ((job.status === 'pending' && job.runAt <= now) ||
+            (job.status === 'running' &&
+              job.lockedUntil !== undefined &&
+              job.lockedUntil < now))
+      )
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit);
+
+    return due.map(job => {
+      const reclaimed = job.status === 'running';
+
+      job.status = 'running';
+      job.lockedBy = workerId;
+      job.lockedUntil = new Date(now.getTime() + leaseMs);
+      job.attempts++;
+      job.startedAt = now;
+      job.updatedAt = now;
+
+      return { ...job, reclaimed };
+    });
+  }
+
+  async renewLease(
+    id: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<boolean> {
+    const job = this.heldBy(id, workerId);
+    if (!job) return false;
+
+    job.lockedUntil = new Date(Date.now() + leaseMs);
+    job.updatedAt = new Date();
+    return true;
+  }
+
+  async saveProgress(
+    id: string,
+    workerId: string,
+    result: unknown
+  ): Promise<boolean> {
+    const job = this.heldBy(id, workerId);
+    if (!job) return false;
+
+    job.result = result;
+    job.updatedAt = new Date();
+    return true;
+  }
+
+  async complete(
+    id: string,
+    workerId: string,
+    result: unknown
+  ): Promise<boolean> {
+    const job = this.heldBy(id, workerId);
+    if (!job) return false;
+
+    job.status = 'completed';
+    job.result = result;
+    job.lockedBy = undefined;
+    job.lockedUntil = undefined;
+    job.completedAt = new Date();
+    job.updatedAt = new Date();
+    return true;
+  }
+
+  async fail(
+    id: string,
+    workerId: string,
+    error: string,
+    retryAt: Date | null
+  ): Promise<boolean> {
+    const job = this.heldBy(id, workerId);
+    if (!job) return false;
+
+    job.status = retryAt ? 'pending' : 'dead';
+    job.runAt = retryAt ?? job.runAt;
+    job.lastError = error;
+    job.lockedBy = undefined;
+    job.lockedUntil = undefined;
+    job.completedAt = retryAt ? undefined : new Date();
+    job.updatedAt = new Date();
+    return true;
+  }
+
+  async transition(
+    id: string,
+    from: JobStatus[],
+    changes: Partial<Pick<QueueJob, 'status' | 'runAt' | 'attempts'>>
+  ): Promise<QueueJob | null> {
+    const job = this.jobs.get(id);
+    if (!job || !from.includes(job.status)) return null;
+
+    Object.assign(job, changes, { updatedAt: new Date() });
+    if (changes.status && FINISHED.includes(changes.status)) {
+      job.lockedBy = undefined;
+      job.lockedUntil = undefined;
+      job.completedAt = new Date();
+    } else if (changes.status) {
+      job.completedAt = undefined;
+    }
+
+    return { ...job };
+  }
+
+  async find(id: string): Promise<QueueJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async list(filter: JobFilter): Promise<QueueJob[]> {
+    const statuses = filter.status
+      ? ([] as JobStatus[]).concat(filter.status)
+      : undefined;
+    const offset = filter.offset ?? 0;
+
+    return Array.from(this.jobs.values())
+      .filter(
+        job =>
+          (!filter.queue || job.queue === filter.queue) &&
+          (!filter.name || job.name === filter.name) &&
+          (!filter.subject || job.subject === filter.subject) &&
+          (!statuses || statuses.includes(job.status))
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(offset, filter.limit ? offset + filter.limit : undefined)
+      .map(job => ({ ...job }));
+  }
+
+  async countByStatus(queue?: string): Promise<Record<JobStatus, number>> {
+    const counts = {} as Record<JobStatus, number>;
+
+    for (const job of this.jobs.values()) {
+      if (queue && job.queue !== queue) continue;
+      counts[job.status] = (counts[job.status] || 0) + 1;
+    }
+
+    return counts;
+  }
+
+  async addEvent(event: Omit<JobEvent, 'id' | 'createdAt'>): Promise<void> {
+    this.events.push({ ...event, id: randomUUID(), createdAt: new Date() });
+  }
+
+  async listEvents(jobId: string): Promise<JobEvent[]> {
+    return this.events.filter(event => event.jobId === jobId);
+  }
+
+  async purge(before: Date): Promise<number> {
+    let purged = 0;
+
+    for (const [id, job] of this.jobs.entries()) {
+      if (FINISHED.includes(job.status) && job.updatedAt < before) {
+        this.jobs.delete(id);
+        this.events = this.events.filter(event => event.jobId !== id);
+        purged++;
+      }
+    }
+
+    return purged;
+  }
+
+  async getTaskSettings(): Promise<ScheduledTaskSetting[]> {
+    return Array.from(this.settings.values()).map(setting => ({
+      ...setting,
+    }));
+  }
+
+  async saveTaskSetting(setting: ScheduledTaskSetting): Promise<void> {
+    this.settings.set(setting.id, { ...setting });
+  }
+
+  private heldBy(id: string, workerId: string): QueueJob | undefined {
+    const job = this.jobs.get(id);
+    return job && job.status === 'running' && job.lockedBy === workerId
+      ? job
+      : undefined;
+  }
+}
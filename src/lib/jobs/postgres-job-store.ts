@@ -0,0 +1,391 @@
+import { PrismaClient } from '@prisma/client';
+import type {
+  ClaimedJob,
+  JobEvent,
+  JobEventType,
+  JobFilter,
+  JobStatus,
+  JobStore,
+  NewJob,
+  QueueJob,
+  ScheduledTaskSetting,
+} from '../services/job-queue.service';
+
+const prisma = new PrismaClient();
+
+const FINISHED: JobStatus[] = ['completed', 'cancelled', 'dead'];
+
+// Rows as Prisma returns them from the `jobs`, `job_events` and
+// `scheduled_task_settings` tables
+interface JobRecord {
+  id: string;
+  queue: string;
+  name: string;
+  subject: string | null;
+  payload: unknown;
+  status: string;
+  dedupeKey: string | null;
+  runAt: Date;
+  attempts: number;
+  maxAttempts: number;
+  backoffMs: number;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  lastError: string | null;
+  result: unknown;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface JobEventRecord {
+  id: string;
+  jobId: string;
+  type: string;
+  attempt: number;
+  workerId: string | null;
+  message: string | null;
+  createdAt: Date;
+}
+
+interface ScheduledTaskSettingRecord {
+  id: string;
+  schedule: string;
+  timezone: string | null;
+  isActive: boolean;
+}
+
+// A raw `jobs` row, with snake_case columns
+interface JobRow {
+  id: string;
+  queue: string;
+  name: string;
+  subject: string | null;
+  payload: unknown;
+  status: string;
+  dedupe_key: string | null;
+  run_at: Date;
+  attempts: number;
+  max_attempts: number;
+  backoff_ms: number;
+  locked_by: string | null;
+  locked_until: Date | null;
+  last_error: string | null;
+  result: unknown;
+  started_at: Date | null;
+  completed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Job store backed by the `jobs` table. Claims use FOR UPDATE SKIP LOCKED,
+ * so any number of instances can poll the same table and each due job is
+ * leased to exactly one of them.
+ */
+export class PostgresJobStore implements JobStore {
+  async insert(job: NewJob): Promise<QueueJob | null> {
+    const rows: JobRow[] = await prisma.$queryRaw`
+      INSERT INTO jobs (
+        queue, name, subject, payload, dedupe_key, run_at, max_attempts, backoff_ms
+      )
+      VALUES (
+        ${job.queue},
+        ${job.name},
+        ${job.subject ?? null},
+        ${JSON.stringify(job.payload ?? {})}::jsonb,
+        ${job.dedupeKey ?? null},
+        ${job.runAt},
+        ${job.maxAttempts},
+        ${job.backoffMs}
+      )
+      ON CONFLICT (dedupe_key) DO NOTHING
+      RETURNING *
+    `;
+
+    return rows.length > 0 ? fromRow(rows[0]) : null;
+  }
+
+  async claim(
+    names: string[],
+    workerId: string,
+    leaseMs: number,
+    limit: number
+  ): Promise<ClaimedJob[]> {
+    if (names.length === 0 || limit <= 0) return [];
+
+    const rows: Array<JobRow & { previous_status: string }> =
+      await prisma.$queryRaw`
+      WITH candidates AS (
+        SELECT id, status AS previous_status
+        FROM jobs
+        WHERE name = ANY(${names}::text[])
+          AND (
+            (status = 'pending' AND run_at <= NOW())
+            OR (status = 'running' AND locked_until < NOW())
+          )
+        ORDER BY run_at
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      UPDATE jobs j
+      SET status = 'running',
+          locked_by = ${workerId},
+          locked_until = NOW() + ${leaseMs} * INTERVAL '1 millisecond',
+          attempts = j.attempts + 1,
+          started_at = NOW(),
+          updated_at = NOW()
+      FROM candidates c
+      WHERE j.id = c.id
+      RETURNING j.*, c.previous_status
+    `;
+
+    return rows.map(row => ({
+      ...fromRow(row),
+      reclaimed: row.previous_status === 'running',
+    }));
+  }
+
+  async renewLease(
+    id: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<boolean> {
+    const result = await prisma.job.updateMany({
+      where: { id, status: 'running', lockedBy: workerId },
+      data: { lockedUntil: new Date(Date.now() + leaseMs) },
+    });
+    return result.count > 0;
+  }
+
+  async saveProgress(
+    id: string,
+    workerId: string,
+    result: unknown
+  ): Promise<boolean> {
+    const updated = await prisma.job.updateMany({
+      where: { id, status: 'running', lockedBy: workerId },
+      data: { result: result as any },
+    });
+    return updated.count > 0;
+  }
+
+  async complete(
+    id: string,
+    workerId: string,
+    result: unknown
+  ): Promise<boolean> {
+    const updated = await prisma.job.updateMany({
+      where: { id, status: 'running', lockedBy: workerId },
+      data: {
+        status: 'completed',
+        result: result as any,
+        lockedBy: null,
+        lockedUntil: null,
+        completedAt: new Date(),
+      },
+    });
+    return updated.count > 0;
+  }
+
+  async fail(
+    id: string,
+    workerId: string,
+    error: string,
+    retryAt: Date | null
+  ): Promise<boolean> {
+    const updated = await prisma.job.updateMany({
+      where: { id, status: 'running', lockedBy: workerId },
+      data: retryAt
+        ? {
+            status: 'pending',
+            runAt: retryAt,
+            lastError: error,
+            lockedBy: null,
+            lockedUntil: null,
+          }
+        : {
+            status: 'dead',
+            lastError: error,
+            lockedBy: null,
+            lockedUntil: null,
+            completedAt: new Date(),
+          },
+    });
+    return updated.count > 0;
+  }
+
+  async transition(
+    id: string,
+    from: JobStatus[],
+    changes: Partial<Pick<QueueJob, 'status' | 'runAt' | 'attempts'>>
+  ): Promise<QueueJob | null> {
+    const finished = changes.status && FINISHED.includes(changes.status);
+    const updated = await prisma.job.updateMany({
+      where: { id, status: { in: from } },
+      data: {
+        ...changes,
+        ...(finished
+          ? { lockedBy: null, lockedUntil: null, completedAt: new Date() }
+          : changes.status
+            ? { completedAt: null }
+            : {}),
+      },
+    });
+
+    return updated.count > 0 ? this.find(id) : null;
+  }
+
+  async find(id: string): Promise<QueueJob | null> {
+    const job: JobRecord | null = await prisma.job.findUnique({
+      where: { id },
+    });
+    return job ? fromModel(job) : null;
+  }
+
+  async list(filter: JobFilter): Promise<QueueJob[]> {
+    const jobs: JobRecord[] = await prisma.job.findMany({
+      where: {
+        queue: filter.queue,
+        name: filter.name,
+        subject: filter.subject,
+        status: filter.status
+          ? { in: ([] as JobStatus[]).concat(filter.status) }
+          : undefined,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filter.limit,
+      skip: filter.offset,
+    });
+
+    return jobs.map(fromModel);
+  }
+
+  async countByStatus(queue?: string): Promise<Record<JobStatus, number>> {
+    const groups = await prisma.job.groupBy({
+      by: ['status'],
+      where: { queue },
+      _count: { _all: true },
+    });
+
+    const counts = {} as Record<JobStatus, number>;
+    for (const group of groups) {
+      counts[group.status as JobStatus] = group._count._all;
+    }
+    return counts;
+  }
+
+  async addEvent(event: Omit<JobEvent, 'id' | 'createdAt'>): Promise<void> {
+    await prisma.jobEvent.create({
+      data: {
+        jobId: event.jobId,
+        type: event.type,
+        attempt: event.attempt,
+        workerId: event.workerId,
+        message: event.message,
+      },
+    });
+  }
+
+  async listEvents(jobId: string): Promise<JobEvent[]> {
+    const events: JobEventRecord[] = await prisma.jobEvent.findMany({
+      where: { jobId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return events.map(event => ({
+      id: event.id,
+      jobId: event.jobId,
+      type: event.type as JobEventType,
+      attempt: event.attempt,
+      workerId: event.workerId ?? undefined,
+      message: event.message ?? undefined,
+      createdAt: event.createdAt,
+    }));
+  }
+
+  async purge(before: Date): Promise<number> {
+    const result = await prisma.job.deleteMany({
+      where: { status: { in: FINISHED }, updatedAt: { lt: before } },
+    });
+    return result.count;
+  }
+
+  async getTaskSettings(): Promise<ScheduledTaskSetting[]> {
+    const settings: ScheduledTaskSettingRecord[] =
+      await prisma.scheduledTaskSetting.findMany();
+
+    return settings.map(setting => ({
+      id: setting.id,
+      schedule: setting.schedule,
+      timezone: setting.timezone ?? undefined,
+      isActive: setting.isActive,
+    }));
+  }
+
+  async saveTaskSetting(setting: ScheduledTaskSetting): Promise<void> {
+    const data = {
+      schedule: setting.schedule,
+      timezone: setting.timezone ?? null,
+      isActive: setting.isActive,
+    };
+
+    await prisma.scheduledTaskSetting.upsert({
+      where: { id: setting.id },
+      create: { id: setting.id, ...data },
+      update: data,
+    });
+  }
+}
+
+function fromModel(job: JobRecord): QueueJob {
+  return {
+    id: job.id,
+    queue: job.queue,
+    name: job.name,
+    subject: job.subject ?? undefined,
+    payload: job.payload,
+    status: job.status as JobStatus,
+    dedupeKey: job.dedupeKey ?? undefined,
+    runAt: job.runAt,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    backoffMs: job.backoffMs,
+    lockedBy: job.lockedBy ?? undefined,
+    lockedUntil: job.lockedUntil ?? undefined,
+    lastError: job.lastError ?? undefined,
+    result: job.result ?? undefined,
+    startedAt: job.startedAt ?? undefined,
+    completedAt: job.completedAt ?? undefined,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+/**
+ * Map a raw `jobs` row (snake_case columns) onto a job
+ */
+function fromRow(row: JobRow): QueueJob {
+  return fromModel({
+    id: row.id,
+    queue: row.queue,
+    name: row.name,
+    subject: row.subject,
+    payload: row.payload,
+    status: row.status,
+    dedupeKey: row.dedupe_key,
+    runAt: row.run_at,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    backoffMs: row.backoff_ms,
+    lockedBy: row.locked_by,
+    lockedUntil: row.locked_until,
+    lastError: row.last_error,
+    result: row.result,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  });
+}
@@ -7,6 +7,7 @@ export interface AuthenticatedRequest extends Request {
     id: string;
     email: string;
     role?: string;
+    sessionId?: string; // Absent on tokens issued before sessions existed
   };
 }
 
@@ -50,6 +51,7 @@ export const authMiddleware = (
       id: decoded.id,
       email: decoded.email,
       role: decoded.role || 'user',
+      sessionId: decoded.sid,
     };
 
     next();
@@ -100,6 +102,7 @@ export const optionalAuthMiddleware = (
         id: decoded.id,
         email: decoded.email,
         role: decoded.role || 'user',
+        sessionId: decoded.sid,
       };
     }
 
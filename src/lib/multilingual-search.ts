@@ -0,0 +1,122 @@
+/**
+ * Full-text clauses for search queries in any supported language
+ *
+ * Opportunities are indexed in English, with machine translations under
+ * translations.<locale> analyzed for their own language. A query is matched
+ * against the fields of the language it is written in. English fields are
+ * still searched for other languages, since organizer names and skills are
+ * rarely translated. Hindi gets extra handling in both directions:
+ * Devanagari queries are transliterated to match English loanwords and
+ * place names, and Romanised Hindi is turned into English search terms and
+ * transliterated to match the Hindi translations.
+ */
+
+import type { Locale } from '../i18n/config';
+import {
+  devanagariToLatin,
+  isRomanizedHindi,
+  latinToDevanagari,
+  removeHindiFunctionWords,
+  romanizedHindiToEnglish,
+} from './transliteration';
+
+export const ENGLISH_SEARCH_FIELDS = [
+  'title^3',
+  'description^2',
+  'organizerName^2',
+  'requiredSkills.text^2',
+  'tags.text',
+  'location',
+];
+
+// Languages detected from common words rather than script
+const LATIN_SCRIPT_LOCALES: Locale[] = ['en', 'es', 'fr', 'de'];
+
+export interface QueryLanguage {
+  language: Locale;
+  romanized: boolean; // Hindi written in Roman script
+}
+
+/**
+ * Settle the language of a query from the detected language, recognising
+ * Romanised Hindi, which detection reads as English
+ */
+export function resolveQueryLanguage(
+  query: string,
+  detected: Locale
+): QueryLanguage {
+  if (LATIN_SCRIPT_LOCALES.includes(detected) && isRomanizedHindi(query)) {
+    return { language: 'hi', romanized: true };
+  }
+
+  return { language: detected, romanized: false };
+}
+
+export function translatedSearchFields(locale: Locale): string[] {
+  return [
+    `translations.${locale}.title^3`,
+    `translations.${locale}.description^2`,
+  ];
+}
+
+const textMatch = (query: string, fields: string[], boost?: number) => ({
+  multi_match: {
+    query,
+    fields,
+    type: 'best_fields',
+    fuzziness: 'AUTO',
+    ...(boost !== undefined && { boost }),
+  },
+});
+
+/**
+ * Build the full-text clause for a query in the given language
+ */
+export function buildMultilingualQuery(
+  query: string,
+  { language, romanized }: QueryLanguage
+): any {
+  if (language === 'en') {
+    return textMatch(query, ENGLISH_SEARCH_FIELDS);
+  }
+
+  const should: any[] = [];
+
+  if (romanized) {
+    should.push(
+      textMatch(romanizedHindiToEnglish(query), ENGLISH_SEARCH_FIELDS),
+      textMatch(
+        latinToDevanagari(removeHindiFunctionWords(query)),
+        translatedSearchFields('hi'),
+        0.5
+      )
+    );
+  } else if (language === 'hi') {
+    should.push(
+      textMatch(query, translatedSearchFields('hi')),
+      textMatch(
+        devanagariToLatin(removeHindiFunctionWords(query)),
+        ENGLISH_SEARCH_FIELDS,
+        0.5
+      )
+    );
+  } else {
+    should.push(
+      textMatch(query, translatedSearchFields(language)),
+      textMatch(query, ENGLISH_SEARCH_FIELDS)
+    );
+  }
+
+  // A query of nothing but grammatical words is searched as typed
+  const clauses = should.filter(clause => clause.multi_match.query.trim());
+  if (clauses.length === 0) {
+    return textMatch(query, ENGLISH_SEARCH_FIELDS);
+  }
+
+  return {
+    bool: {
+      should: clauses,
+      minimum_should_match: 1,
+    },
+  };
+}
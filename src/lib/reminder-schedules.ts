@@ -0,0 +1,80 @@
+/**
+ * Built-in deadline reminder schedules
+ *
+ * Shared by the reminder service, which sends notifications at these times,
+ * and by calendar exports, which turn them into calendar alarms. Kept free
+ * of server dependencies so that components can import it.
+ */
+
+export interface ReminderInterval {
+  value: number;
+  unit: 'minutes' | 'hours' | 'days' | 'weeks';
+  label: string;
+}
+
+export interface BuiltInReminderSchedule {
+  id: string;
+  name: string;
+  description: string;
+  intervals: ReminderInterval[];
+}
+
+export const STANDARD_REMINDER_SCHEDULE_ID = 'schedule-1';
+export const MINIMAL_REMINDER_SCHEDULE_ID = 'schedule-3';
+
+export const DEFAULT_REMINDER_SCHEDULES: BuiltInReminderSchedule[] = [
+  {
+    id: STANDARD_REMINDER_SCHEDULE_ID,
+    name: 'Standard Reminders',
+    description: 'Standard reminder schedule for most opportunities',
+    intervals: [
+      { value: 7, unit: 'days', label: '1 week before' },
+      { value: 3, unit: 'days', label: '3 days before' },
+      { value: 1, unit: 'days', label: '1 day before' },
+      { value: 6, unit: 'hours', label: '6 hours before' },
+    ],
+  },
+  {
+    id: 'schedule-2',
+    name: 'Urgent Reminders',
+    description: 'More frequent reminders for high-priority opportunities',
+    intervals: [
+      { value: 2, unit: 'weeks', label: '2 weeks before' },
+      { value: 1, unit: 'weeks', label: '1 week before' },
+      { value: 3, unit: 'days', label: '3 days before' },
+      { value: 1, unit: 'days', label: '1 day before' },
+      { value: 6, unit: 'hours', label: '6 hours before' },
+      { value: 2, unit: 'hours', label: '2 hours before' },
+    ],
+  },
+  {
+    id: MINIMAL_REMINDER_SCHEDULE_ID,
+    name: 'Minimal Reminders',
+    description: 'Fewer reminders for users who prefer less notifications',
+    intervals: [
+      { value: 3, unit: 'days', label: '3 days before' },
+      { value: 1, unit: 'days', label: '1 day before' },
+    ],
+  },
+];
+
+const UNIT_MS: Record<ReminderInterval['unit'], number> = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+export function reminderIntervalMs(
+  interval: Pick<ReminderInterval, 'value' | 'unit'>
+): number {
+  return interval.value * UNIT_MS[interval.unit];
+}
+
+export function getBuiltInReminderSchedule(
+  scheduleId: string
+): BuiltInReminderSchedule | undefined {
+  return DEFAULT_REMINDER_SCHEDULES.find(
+    schedule => schedule.id === scheduleId
+  );
+}
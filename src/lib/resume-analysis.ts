@@ -0,0 +1,491 @@
+/**
+ * ATS-style resume analysis
+ *
+ * Resume text (pasted, or extracted from PDF/DOCX by the upload flow) is
+ * split into sections by their headings, skills are extracted against the
+ * shared skill taxonomy, and sections and formatting are scored with the
+ * heuristics applicant tracking systems and recruiters commonly apply. When a
+ * target opportunity is given, its requiredSkills are compared with the
+ * resume to produce a gap report.
+ */
+
+import { findSkills, standardizeSkills } from './skills-taxonomy';
+
+export type ResumeSectionName =
+  | 'contact'
+  | 'summary'
+  | 'experience'
+  | 'projects'
+  | 'education'
+  | 'skills'
+  | 'certifications'
+  | 'achievements';
+
+export interface ResumeSection {
+  name: ResumeSectionName;
+  heading?: string; // Undefined for the contact block above the first heading
+  lines: string[];
+}
+
+export interface SectionScore {
+  name: string;
+  score: number;
+  feedback: string;
+}
+
+export interface ResumeGapReport {
+  opportunityId: string;
+  opportunityTitle: string;
+  matchScore: number; // Percentage of required skills found in the resume
+  matchedSkills: string[];
+  missingSkills: string[];
+  unevidencedSkills: string[]; // Listed as skills but never used in experience or projects
+}
+
+export interface ResumeTarget {
+  id: string;
+  title: string;
+  requiredSkills: string[];
+}
+
+export interface ResumeTextAnalysis {
+  overallScore: number;
+  sections: SectionScore[];
+  skills: string[];
+  keywords: {
+    present: string[];
+    missing: string[];
+  };
+  formatting: {
+    score: number;
+    issues: string[];
+  };
+  gapReport?: ResumeGapReport;
+  suggestions: string[];
+}
+
+const SECTION_HEADINGS: Record<
+  Exclude<ResumeSectionName, 'contact'>,
+  string[]
+> = {
+  summary: [
+    'summary',
+    'professional summary',
+    'profile',
+    'about me',
+    'objective',
+    'career objective',
+  ],
+  experience: [
+    'experience',
+    'work experience',
+    'professional experience',
+    'employment',
+    'employment history',
+    'work history',
+    'internships',
+    'internship experience',
+  ],
+  projects: ['projects', 'personal projects', 'academic projects'],
+  education: [
+    'education',
+    'academics',
+    'academic background',
+    'qualifications',
+    'educational qualifications',
+  ],
+  skills: [
+    'skills',
+    'technical skills',
+    'key skills',
+    'core competencies',
+    'technologies',
+    'tech stack',
+  ],
+  certifications: ['certifications', 'certificates', 'courses'],
+  achievements: [
+    'achievements',
+    'awards',
+    'honors',
+    'accomplishments',
+    'extracurricular activities',
+    'positions of responsibility',
+  ],
+};
+
+const SECTION_LABELS: Record<ResumeSectionName, string> = {
+  contact: 'Contact Information',
+  summary: 'Summary',
+  experience: 'Work Experience',
+  projects: 'Projects',
+  education: 'Education',
+  skills: 'Skills',
+  certifications: 'Certifications',
+  achievements: 'Achievements',
+};
+
+const ACTION_VERBS = new Set([
+  'achieved',
+  'analyzed',
+  'architected',
+  'automated',
+  'built',
+  'collaborated',
+  'configured',
+  'created',
+  'debugged',
+  'delivered',
+  'deployed',
+  'designed',
+  'developed',
+  'drove',
+  'engineered',
+  'established',
+  'implemented',
+  'improved',
+  'increased',
+  'integrated',
+  'launched',
+  'led',
+  'managed',
+  'mentored',
+  'migrated',
+  'optimized',
+  'organized',
+  'published',
+  'reduced',
+  'refactored',
+  'researched',
+  'resolved',
+  'scaled',
+  'shipped',
+  'streamlined',
+  'tested',
+  'trained',
+  'won',
+  'wrote',
+]);
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/;
+const PHONE_PATTERN = /(\+?\d[\d\s-]{8,}\d)/;
+const LINK_PATTERN = /(linkedin\.com|github\.com|https?:\/\/|portfolio)/i;
+const BULLET_PATTERN = /^([-•*▪●◦‣–])\s*/;
+const METRIC_PATTERN =
+  /\d+(\.\d+)?\s*(%|x\b|\+|k\b|users|ms\b|hours|lakh|crore)/i;
+const DEGREE_PATTERN =
+  /\b(b\.?\s?tech|b\.?e\b|m\.?\s?tech|bca|mca|b\.?sc|m\.?sc|mba|ph\.?d|bachelor|master|diploma|class (x|xii|10|12))/i;
+const YEAR_PATTERN = /\b(19|20)\d{2}\b/;
+const FIRST_PERSON_PATTERN = /\b(i|me|my)\b/i;
+
+const HEADING_INDEX = new Map(
+  Object.entries(SECTION_HEADINGS).flatMap(([name, headings]) =>
+    headings.map(
+      heading =>
+        [heading, name] as [string, Exclude<ResumeSectionName, 'contact'>]
+    )
+  )
+);
+
+/**
+ * Split resume text into sections by their headings. Lines above the first
+ * heading form the contact block; "Skills: React, Node" style headings keep
+ * their inline content.
+ */
+export function segmentResume(text: string): ResumeSection[] {
+  const sections: ResumeSection[] = [{ name: 'contact', lines: [] }];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const [head, ...rest] = line.split(':');
+    const name = HEADING_INDEX.get(
+      head
+        .toLowerCase()
+        .replace(/[^a-z\s]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+    );
+
+    if (name && head.split(/\s+/).length <= 4) {
+      const inline = rest.join(':').trim();
+      sections.push({
+        name,
+        heading: head.trim(),
+        lines: inline ? [inline] : [],
+      });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  return sections.filter(
+    section => section.name !== 'contact' || section.lines.length > 0
+  );
+}
+
+/**
+ * Score the layout of a resume. Each issue found costs points.
+ */
+export function scoreFormatting(
+  text: string,
+  sections: ResumeSection[]
+): { score: number; issues: string[] } {
+  const issues: string[] = [];
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const bullets = bulletLines(sections);
+
+  if (sections.every(section => section.name === 'contact')) {
+    issues.push(
+      'Use standard section headings (Experience, Education, Skills) so ATS can parse your resume'
+    );
+  }
+  if (words < 150) {
+    issues.push(
+      'Resume is too short; describe your experience and projects in more detail'
+    );
+  } else if (words > 1000) {
+    issues.push('Reduce length to 1-2 pages');
+  }
+
+  const bulletStyles = new Set(
+    text
+      .split(/\r?\n/)
+      .map(line => line.trim().match(BULLET_PATTERN)?.[1])
+      .filter(Boolean)
+  );
+  if (bulletStyles.size > 1) {
+    issues.push('Inconsistent bullet point formatting');
+  }
+
+  if (bullets.length > 0) {
+    const withVerbs = bullets.filter(line =>
+      ACTION_VERBS.has(line.split(/\s+/)[0].toLowerCase())
+    ).length;
+    if (withVerbs / bullets.length < 0.5) {
+      issues.push('Start bullet points with action verbs');
+    }
+
+    const longBullets = bullets.filter(
+      line => line.split(/\s+/).length > 40
+    ).length;
+    if (longBullets > 0) {
+      issues.push('Keep bullet points to one or two lines');
+    }
+  }
+
+  if (FIRST_PERSON_PATTERN.test(bullets.join(' '))) {
+    issues.push('Avoid first-person pronouns in descriptions');
+  }
+
+  return {
+    score: Math.max(0, 100 - issues.length * 15),
+    issues,
+  };
+}
+
+/**
+ * Compare the skills in a resume with an opportunity's requirements
+ */
+export function buildGapReport(
+  sections: ResumeSection[],
+  target: ResumeTarget
+): ResumeGapReport {
+  const required = standardizeSkills(target.requiredSkills);
+  const allText = sections.flatMap(section => section.lines).join('\n');
+  const evidenceText = sections
+    .filter(section => section.name !== 'skills')
+    .flatMap(section => section.lines)
+    .join('\n');
+
+  const found = new Set(findSkills(allText, required));
+  const evidenced = new Set(findSkills(evidenceText, required));
+
+  const matchedSkills = required.filter(skill => found.has(skill));
+  const missingSkills = required.filter(skill => !found.has(skill));
+
+  return {
+    opportunityId: target.id,
+    opportunityTitle: target.title,
+    matchScore:
+      required.length > 0
+        ? Math.round((matchedSkills.length / required.length) * 100)
+        : 100,
+    matchedSkills,
+    missingSkills,
+    unevidencedSkills: matchedSkills.filter(skill => !evidenced.has(skill)),
+  };
+}
+
+/**
+ * Analyze resume text, optionally against a target opportunity
+ */
+export function analyzeResumeText(
+  text: string,
+  target?: ResumeTarget
+): ResumeTextAnalysis {
+  const sections = segmentResume(text);
+  const skills = findSkills(text, target?.requiredSkills);
+  const sectionScores = scoreSections(sections, skills);
+  const formatting = scoreFormatting(text, sections);
+  const gapReport = target ? buildGapReport(sections, target) : undefined;
+
+  const sectionAverage =
+    sectionScores.reduce((sum, section) => sum + section.score, 0) /
+    sectionScores.length;
+  const overallScore = Math.round(
+    gapReport
+      ? gapReport.matchScore * 0.4 +
+          sectionAverage * 0.35 +
+          formatting.score * 0.25
+      : sectionAverage * 0.6 + formatting.score * 0.4
+  );
+
+  return {
+    overallScore,
+    sections: sectionScores,
+    skills,
+    keywords: {
+      present: gapReport ? gapReport.matchedSkills : skills,
+      missing: gapReport ? gapReport.missingSkills : [],
+    },
+    formatting,
+    gapReport,
+    suggestions: buildSuggestions(
+      sections,
+      sectionScores,
+      formatting,
+      gapReport
+    ),
+  };
+}
+
+function scoreSections(
+  sections: ResumeSection[],
+  skills: string[]
+): SectionScore[] {
+  const linesOf = (name: ResumeSectionName) =>
+    sections
+      .filter(section => section.name === name)
+      .flatMap(section => section.lines);
+
+  const contact = linesOf('contact').join(' ');
+  const contactScore =
+    (EMAIL_PATTERN.test(contact) ? 40 : 0) +
+    (PHONE_PATTERN.test(contact) ? 30 : 0) +
+    (LINK_PATTERN.test(contact) ? 30 : 0);
+
+  const scores: SectionScore[] = [
+    {
+      name: SECTION_LABELS.contact,
+      score: contactScore,
+      feedback:
+        contactScore === 100
+          ? 'Complete, with email, phone and a profile link'
+          : 'Put your email, phone number and LinkedIn/GitHub link at the top',
+    },
+  ];
+
+  // Experience and projects are interchangeable for students
+  const work = [...linesOf('experience'), ...linesOf('projects')];
+  if (work.length === 0) {
+    scores.push({
+      name: SECTION_LABELS.experience,
+      score: 0,
+      feedback: 'Add an Experience or Projects section',
+    });
+  } else {
+    const bullets = work.map(stripBullet);
+    const withVerbs = bullets.filter(line =>
+      ACTION_VERBS.has(line.split(/\s+/)[0].toLowerCase())
+    ).length;
+    const withMetrics = bullets.filter(line =>
+      METRIC_PATTERN.test(line)
+    ).length;
+    const score = Math.round(
+      40 + (withVerbs / bullets.length) * 30 + Math.min(1, withMetrics / 2) * 30
+    );
+
+    scores.push({
+      name: SECTION_LABELS.experience,
+      score,
+      feedback:
+        withMetrics === 0
+          ? 'Add quantifiable achievements (e.g. "Improved performance by 40%")'
+          : score >= 80
+            ? 'Strong, results-focused descriptions'
+            : 'Lead each point with an action verb and its outcome',
+    });
+  }
+
+  const skillLines = linesOf('skills');
+  scores.push({
+    name: SECTION_LABELS.skills,
+    score: skillLines.length === 0 ? 0 : Math.min(100, 40 + skills.length * 10),
+    feedback:
+      skillLines.length === 0
+        ? 'Add a Skills section listing your technical skills'
+        : skills.length < 4
+          ? 'List more of your technical skills by name'
+          : 'Clear list of recognised skills',
+  });
+
+  const education = linesOf('education').join(' ');
+  scores.push({
+    name: SECTION_LABELS.education,
+    score: education
+      ? 50 +
+        (DEGREE_PATTERN.test(education) ? 25 : 0) +
+        (YEAR_PATTERN.test(education) ? 25 : 0)
+      : 0,
+    feedback: !education
+      ? 'Add an Education section'
+      : DEGREE_PATTERN.test(education) && YEAR_PATTERN.test(education)
+        ? 'Well presented'
+        : 'Include your degree and graduation year',
+  });
+
+  return scores;
+}
+
+function buildSuggestions(
+  sections: ResumeSection[],
+  sectionScores: SectionScore[],
+  formatting: { issues: string[] },
+  gapReport?: ResumeGapReport
+): string[] {
+  const suggestions = sectionScores
+    .filter(section => section.score < 70)
+    .map(section => section.feedback);
+
+  if (!sections.some(section => section.name === 'summary')) {
+    suggestions.push('Add a short professional summary at the top');
+  }
+  suggestions.push(...formatting.issues);
+
+  if (gapReport?.missingSkills.length) {
+    suggestions.push(
+      `Add the skills ${gapReport.opportunityTitle} asks for if you have them: ${gapReport.missingSkills.join(', ')}`
+    );
+  }
+  if (gapReport?.unevidencedSkills.length) {
+    suggestions.push(
+      `Show where you used ${gapReport.unevidencedSkills.join(', ')} in your experience or projects`
+    );
+  }
+
+  return [...new Set(suggestions)];
+}
+
+function bulletLines(sections: ResumeSection[]): string[] {
+  return sections
+    .filter(
+      section => section.name === 'experience' || section.name === 'projects'
+    )
+    .flatMap(section => section.lines)
+    .map(stripBullet);
+}
+
+function stripBullet(line: string): string {
+  return line.replace(BULLET_PATTERN, '');
+}
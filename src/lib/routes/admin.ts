@@ -8,6 +8,17 @@ import { asyncHandler } from '../middleware/error-handler';
 import { validate } from '../middleware/validation';
 import { dataQualityService } from '../services/data-quality.service';
 import { externalAPIService } from '../services/external-api.service';
+import type { JobStatus } from '../services/job-queue.service';
+import { jobQueue } from '../services/job-queue.service';
+import type {
+  ReportableContentType,
+  ReportStatus,
+} from '../services/moderation.service';
+import {
+  MODERATION_ACTIONS,
+  moderationService,
+  REPORTABLE_CONTENT_TYPES,
+} from '../services/moderation.service';
 import { schedulerService } from '../services/scheduler.service';
 import { scrapingService } from '../services/scraping.service';
 import { searchService } from '../services/search.service';
@@ -109,6 +120,78 @@ router.post(
   })
 );
 
+/**
+ * Preview the records a scraper spec (or a source's scraper) extracts from a
+ * URL without saving them
+ */
+router.post(
+  '/scraping/dry-run',
+  validate([
+    body('url').isURL().withMessage('A valid URL is required'),
+    body('sourceId').optional().isString().notEmpty(),
+    body('spec').optional().isObject().withMessage('spec must be an object'),
+    body('maxPages')
+      .optional()
+      .isInt({ min: 1, max: 5 })
+      .withMessage('maxPages must be between 1 and 5'),
+    body('maxItems')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('maxItems must be between 1 and 100'),
+    body('fetchDetails').optional().isBoolean(),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { url, sourceId, spec, maxPages, maxItems, fetchDetails } = req.body;
+
+    const result = await scrapingService.dryRun({
+      url,
+      sourceId,
+      spec,
+      maxPages: maxPages !== undefined ? Number(maxPages) : undefined,
+      maxItems: maxItems !== undefined ? Number(maxItems) : undefined,
+      fetchDetails,
+    });
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Set or clear the declarative scraper spec for a source
+ */
+router.put(
+  '/sources/:sourceId/scraper-spec',
+  validate([
+    param('sourceId')
+      .isString()
+      .notEmpty()
+      .withMessage('Source ID is required'),
+    body('spec')
+      .custom(value => value === null || typeof value === 'object')
+      .withMessage('spec must be an object or null'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const sourceId = Array.isArray(req.params.sourceId)
+      ? req.params.sourceId[0]
+      : req.params.sourceId;
+
+    const result = await scrapingService.updateSourceSpec(
+      sourceId,
+      req.body.spec
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(result.error === 'Source not found' ? 404 : 400).json(result);
+    }
+  })
+);
+
 /**
  * Data Quality Management
  */
@@ -426,14 +509,7 @@ router.get(
 router.get(
   '/scheduler/tasks',
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    const tasks = schedulerService.getTasks().map(task => ({
-      id: task.id,
-      name: task.name,
-      schedule: task.schedule,
-      lastRun: task.lastRun,
-      nextRun: task.nextRun,
-      isActive: task.isActive,
-    }));
+    const tasks = await schedulerService.listTasks();
 
     const response: ApiResponse<typeof tasks> = {
       success: true,
@@ -458,7 +534,7 @@ router.post(
     const { taskId } = req.params;
     const { isActive } = req.body;
 
-    const success = schedulerService.toggleTask(taskId, isActive);
+    const success = await schedulerService.toggleTask(taskId, isActive);
 
     if (success) {
       res.status(200).json({
@@ -485,12 +561,13 @@ router.post(
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { taskId } = req.params;
 
-    const success = await schedulerService.runTaskNow(taskId);
+    const job = await schedulerService.runTaskNow(taskId);
 
-    if (success) {
+    if (job) {
       res.status(200).json({
         success: true,
-        message: 'Task executed successfully',
+        data: job,
+        message: 'Task queued for execution',
       });
     } else {
       res.status(404).json({
@@ -512,7 +589,7 @@ router.get(
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { taskId } = req.params;
 
-    const history = schedulerService.getTaskHistory(taskId);
+    const history = await schedulerService.getTaskHistory(taskId);
 
     if (history) {
       res.status(200).json({
@@ -529,6 +606,363 @@ router.get(
   })
 );
 
+/**
+ * Update task schedule
+ */
+router.put(
+  '/scheduler/tasks/:taskId',
+  validate([
+    param('taskId').isString().notEmpty().withMessage('Task ID is required'),
+    body('schedule')
+      .isString()
+      .notEmpty()
+      .withMessage('Schedule must be a cron expression'),
+    body('timezone')
+      .optional()
+      .isString()
+      .withMessage('Timezone must be an IANA timezone name'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const taskId = Array.isArray(req.params.taskId)
+      ? req.params.taskId[0]
+      : req.params.taskId;
+    const { schedule, timezone } = req.body;
+
+    const result = await schedulerService.updateTaskSchedule(
+      taskId,
+      schedule,
+      timezone
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else if (result.error === 'Task not found') {
+      res.status(404).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Preview upcoming runs of a task
+ */
+router.get(
+  '/scheduler/tasks/:taskId/upcoming',
+  validate([
+    param('taskId').isString().notEmpty().withMessage('Task ID is required'),
+    query('count')
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage('count must be between 1 and 50'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const taskId = Array.isArray(req.params.taskId)
+      ? req.params.taskId[0]
+      : req.params.taskId;
+    const count = req.query.count ? parseInt(req.query.count as string) : 5;
+
+    const runs = schedulerService.getUpcomingRuns(taskId, count);
+
+    if (runs) {
+      res.status(200).json({
+        success: true,
+        data: { taskId, runs },
+        message: 'Upcoming runs retrieved successfully',
+      });
+    } else {
+      res.status(404).json({
+        success: false,
+        error: 'Task not found',
+      });
+    }
+  })
+);
+
+/**
+ * Preview upcoming runs of a cron expression before saving it
+ */
+router.post(
+  '/scheduler/preview',
+  validate([
+    body('schedule')
+      .isString()
+      .notEmpty()
+      .withMessage('Schedule must be a cron expression'),
+    body('timezone')
+      .optional()
+      .isString()
+      .withMessage('Timezone must be an IANA timezone name'),
+    body('count')
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage('count must be between 1 and 50'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { schedule, timezone, count } = req.body;
+
+    const result = schedulerService.previewSchedule(
+      schedule,
+      timezone,
+      count ?? 5
+    );
+
+    res.status(result.success ? 200 : 400).json(result);
+  })
+);
+
+/**
+ * Job Queue Management
+ */
+
+/**
+ * Get job counts per status
+ */
+router.get(
+  '/jobs/stats',
+  validate([query('queue').optional().isString()]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await jobQueue.getStats(req.query.queue as string);
+
+    res.status(result.success ? 200 : 500).json(result);
+  })
+);
+
+/**
+ * List jobs, e.g. ?status=dead for the dead-letter queue
+ */
+router.get(
+  '/jobs',
+  validate([
+    query('queue').optional().isString(),
+    query('name').optional().isString(),
+    query('subject').optional().isString(),
+    query('status')
+      .optional()
+      .isIn(['pending', 'running', 'completed', 'dead', 'cancelled'])
+      .withMessage('Invalid job status'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 200 })
+      .withMessage('limit must be between 1 and 200'),
+    query('offset').optional().isInt({ min: 0 }),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const jobs = await jobQueue.listJobs({
+      queue: req.query.queue as string | undefined,
+      name: req.query.name as string | undefined,
+      subject: req.query.subject as string | undefined,
+      status: req.query.status as JobStatus | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
+    });
+
+    const response: ApiResponse<typeof jobs> = {
+      success: true,
+      data: jobs,
+      message: 'Jobs retrieved successfully',
+    };
+
+    res.status(200).json(response);
+  })
+);
+
+/**
+ * Get a job with its history
+ */
+router.get(
+  '/jobs/:jobId',
+  validate([param('jobId').isUUID().withMessage('Invalid job ID')]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const jobId = Array.isArray(req.params.jobId)
+      ? req.params.jobId[0]
+      : req.params.jobId;
+
+    const result = await jobQueue.getJob(jobId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(result.error === 'Job not found' ? 404 : 500).json(result);
+    }
+  })
+);
+
+/**
+ * Requeue a dead-lettered or cancelled job
+ */
+router.post(
+  '/jobs/:jobId/retry',
+  validate([param('jobId').isUUID().withMessage('Invalid job ID')]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const jobId = Array.isArray(req.params.jobId)
+      ? req.params.jobId[0]
+      : req.params.jobId;
+
+    const result = await jobQueue.retryJob(jobId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(result.error === 'Job not found' ? 404 : 400).json(result);
+    }
+  })
+);
+
+/**
+ * Cancel a pending or running job
+ */
+router.post(
+  '/jobs/:jobId/cancel',
+  validate([param('jobId').isUUID().withMessage('Invalid job ID')]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const jobId = Array.isArray(req.params.jobId)
+      ? req.params.jobId[0]
+      : req.params.jobId;
+
+    const result = await jobQueue.cancelJob(jobId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(result.error === 'Job not found' ? 404 : 400).json(result);
+    }
+  })
+);
+
+/**
+ * Content Moderation
+ */
+
+/**
+ * List reports and filter flags, oldest first, with the reported content
+ */
+router.get(
+  '/moderation/queue',
+  validate([
+    query('status')
+      .optional()
+      .isIn(['pending', 'resolved', 'dismissed'])
+      .withMessage('Invalid report status'),
+    query('contentType')
+      .optional()
+      .isIn([...REPORTABLE_CONTENT_TYPES])
+      .withMessage('Invalid content type'),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('limit must be between 1 and 100'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await moderationService.getModerationQueue(
+      {
+        status: req.query.status as ReportStatus | undefined,
+        contentType: req.query.contentType as ReportableContentType | undefined,
+      },
+      req.query.page ? parseInt(req.query.page as string) : 1,
+      req.query.limit ? parseInt(req.query.limit as string) : 20
+    );
+
+    res.status(result.success ? 200 : 500).json(result);
+  })
+);
+
+/**
+ * Hide or restore reported content, ban its author, or dismiss the report
+ */
+router.post(
+  '/moderation/reports/:reportId/actions',
+  validate([
+    param('reportId').isUUID().withMessage('Invalid report ID'),
+    body('action')
+      .isIn([...MODERATION_ACTIONS])
+      .withMessage(`Action must be one of: ${MODERATION_ACTIONS.join(', ')}`),
+    body('note')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Note must be at most 500 characters'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const reportId = Array.isArray(req.params.reportId)
+      ? req.params.reportId[0]
+      : req.params.reportId;
+
+    const result = await moderationService.takeAction(
+      reportId,
+      req.user!.id,
+      req.body.action,
+      req.body.note
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else if (
+      result.error === 'Report not found' ||
+      result.error === 'Content not found' ||
+      result.error === 'User not found'
+    ) {
+      res.status(404).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Ban a user
+ */
+router.post(
+  '/moderation/users/:userId/ban',
+  validate([
+    param('userId').isUUID().withMessage('Invalid user ID'),
+    body('reason')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 500 })
+      .withMessage('A reason of at most 500 characters is required'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = Array.isArray(req.params.userId)
+      ? req.params.userId[0]
+      : req.params.userId;
+
+    const result = await moderationService.banUser(
+      userId,
+      req.user!.id,
+      req.body.reason
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(result.error === 'User not found' ? 404 : 400).json(result);
+    }
+  })
+);
+
+/**
+ * Lift a user's ban
+ */
+router.delete(
+  '/moderation/users/:userId/ban',
+  validate([param('userId').isUUID().withMessage('Invalid user ID')]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = Array.isArray(req.params.userId)
+      ? req.params.userId[0]
+      : req.params.userId;
+
+    const result = await moderationService.unbanUser(userId, req.user!.id);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(result.error === 'User not found' ? 404 : 400).json(result);
+    }
+  })
+);
+
 /**
  * System Health Check
  */
@@ -26,10 +26,19 @@ router.post(
       .optional()
       .isArray()
       .withMessage('Custom goals must be an array'),
+    body('resumeSkills')
+      .optional()
+      .isArray()
+      .withMessage('Resume skills must be an array'),
+    body('resumeSkills.*')
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Resume skills must be non-empty strings'),
   ]),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const userId = req.user!.id;
-    const { opportunityId, targetDate, customGoals } = req.body;
+    const { opportunityId, targetDate, customGoals, resumeSkills } = req.body;
 
     // Get user profile from database
     const userProfileResult = await userService.getUserProfile(userId);
@@ -45,6 +54,7 @@ router.post(
       userProfile: userProfileResult.data!,
       targetDate: targetDate ? new Date(targetDate) : undefined,
       customGoals,
+      resumeSkills,
     };
 
     // Generate roadmap using AI Instructor Service
@@ -1,8 +1,9 @@
-import type { Response } from 'express';
+import type { Request, Response } from 'express';
 import { Router } from 'express';
-import { body } from 'express-validator';
+import { body, param } from 'express-validator';
 import type { ApiResponse } from '../../types';
 import type { AuthenticatedRequest } from '../middleware/auth';
+import { authMiddleware } from '../middleware/auth';
 import { asyncHandler } from '../middleware/error-handler';
 import { validate } from '../middleware/validation';
 import type {
@@ -12,11 +13,20 @@ import type {
   PasswordResetRequest,
   RefreshTokenRequest,
   RegisterRequest,
+  SessionContext,
 } from '../services/auth.service';
 import { authService } from '../services/auth.service';
 
 const router = Router();
 
+// Device details recorded on the session a sign-in creates
+function getSessionContext(req: Request): SessionContext {
+  return {
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip,
+  };
+}
+
 /**
  * User registration
  */
@@ -53,7 +63,10 @@ router.post(
       phone: req.body.phone,
     };
 
-    const result = await authService.register(registerData);
+    const result = await authService.register(
+      registerData,
+      getSessionContext(req)
+    );
 
     if (result.success) {
       res.status(201).json(result);
@@ -81,7 +94,35 @@ router.post(
       password: req.body.password,
     };
 
-    const result = await authService.login(loginData);
+    const result = await authService.login(loginData, getSessionContext(req));
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(401).json(result);
+    }
+  })
+);
+
+/**
+ * Complete a login for an account with two-factor authentication
+ */
+router.post(
+  '/2fa/verify',
+  validate([
+    body('challengeToken')
+      .notEmpty()
+      .withMessage('Challenge token is required'),
+    body('code').trim().notEmpty().withMessage('Code is required'),
+  ]),
+  asyncHandler(async (req, res: Response) => {
+    const result = await authService.verifyTwoFactorLogin(
+      {
+        challengeToken: req.body.challengeToken,
+        code: req.body.code,
+      },
+      getSessionContext(req)
+    );
 
     if (result.success) {
       res.status(200).json(result);
@@ -215,6 +256,188 @@ router.post(
   })
 );
 
+/**
+ * Verify email address from the link in the verification email
+ */
+router.post(
+  '/verify-email',
+  validate([
+    body('token').notEmpty().withMessage('Verification token is required'),
+  ]),
+  asyncHandler(async (req, res: Response) => {
+    const result = await authService.verifyEmail(req.body.token);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Send a new verification email (requires authentication)
+ */
+router.post(
+  '/verify-email/resend',
+  authMiddleware,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await authService.sendVerificationEmail(req.user!.id);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Start two-factor enrolment (requires authentication)
+ */
+router.post(
+  '/2fa/setup',
+  authMiddleware,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await authService.setupTwoFactor(req.user!.id);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Confirm two-factor enrolment with a code (requires authentication)
+ */
+router.post(
+  '/2fa/enable',
+  authMiddleware,
+  validate([body('code').trim().notEmpty().withMessage('Code is required')]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await authService.enableTwoFactor(
+      req.user!.id,
+      req.body.code
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Turn off two-factor authentication (requires authentication)
+ */
+router.post(
+  '/2fa/disable',
+  authMiddleware,
+  validate([
+    body('password').notEmpty().withMessage('Password is required'),
+    body('code').trim().notEmpty().withMessage('Code is required'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await authService.disableTwoFactor(
+      req.user!.id,
+      req.body.password,
+      req.body.code
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Replace two-factor recovery codes (requires authentication)
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authMiddleware,
+  validate([body('code').trim().notEmpty().withMessage('Code is required')]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await authService.regenerateRecoveryCodes(
+      req.user!.id,
+      req.body.code
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * List signed-in devices (requires authentication)
+ */
+router.get(
+  '/sessions',
+  authMiddleware,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await authService.listSessions(
+      req.user!.id,
+      req.user!.sessionId
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(500).json(result);
+    }
+  })
+);
+
+/**
+ * Sign out every other device (requires authentication)
+ */
+router.delete(
+  '/sessions',
+  authMiddleware,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await authService.revokeAllSessions(
+      req.user!.id,
+      req.user!.sessionId
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(500).json(result);
+    }
+  })
+);
+
+/**
+ * Sign out one device (requires authentication)
+ */
+router.delete(
+  '/sessions/:sessionId',
+  authMiddleware,
+  validate([param('sessionId').isUUID().withMessage('Invalid session ID')]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const sessionId = Array.isArray(req.params.sessionId)
+      ? req.params.sessionId[0]
+      : req.params.sessionId;
+
+    const result = await authService.revokeSession(req.user!.id, sessionId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  })
+);
+
 /**
  * Get current user info (requires authentication)
  */
@@ -239,18 +462,19 @@ router.get(
 );
 
 /**
- * Logout (client-side token invalidation)
+ * Logout
+ * Ends the session the refresh token belongs to; the client discards its
+ * access token
  */
 router.post(
   '/logout',
   asyncHandler(async (req, res: Response) => {
-    // For JWT, logout is typically handled client-side by removing the token
-    // In a more sophisticated setup, you might maintain a blacklist of tokens
-
-    const response: ApiResponse<null> = {
-      success: true,
-      message: 'Logged out successfully',
-    };
+    const response: ApiResponse<null> = req.body?.refreshToken
+      ? await authService.logout(req.body.refreshToken)
+      : {
+          success: true,
+          message: 'Logged out successfully',
+        };
 
     res.status(200).json(response);
   })
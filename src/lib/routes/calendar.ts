@@ -0,0 +1,96 @@
+import type { Request, Response } from 'express';
+import { Router } from 'express';
+import { param } from 'express-validator';
+import type { AuthenticatedRequest } from '../middleware/auth';
+import { authMiddleware } from '../middleware/auth';
+import { asyncHandler } from '../middleware/error-handler';
+import { validate } from '../middleware/validation';
+import { calendarService } from '../services/calendar.service';
+
+const router = Router();
+
+/**
+ * Whether the current user has a calendar feed
+ */
+router.get(
+  '/feed',
+  authMiddleware,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await calendarService.getFeed(req.user!.id);
+
+    res.status(result.success ? 200 : 500).json(result);
+  })
+);
+
+/**
+ * Create a calendar feed URL for the current user, replacing any previous one
+ */
+router.post(
+  '/feed',
+  authMiddleware,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await calendarService.createFeed(
+      req.user!.id,
+      `${req.protocol}://${req.get('host')}${req.baseUrl}`
+    );
+
+    res.status(result.success ? 201 : 500).json(result);
+  })
+);
+
+/**
+ * Revoke the current user's calendar feed
+ */
+router.delete(
+  '/feed',
+  authMiddleware,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await calendarService.revokeFeed(req.user!.id);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res
+        .status(result.error === 'Calendar feed not found' ? 404 : 500)
+        .json(result);
+    }
+  })
+);
+
+/**
+ * iCalendar feed for calendar apps to subscribe to. The token in the URL
+ * authenticates the request.
+ */
+router.get(
+  '/feeds/:token.ics',
+  validate([
+    param('token')
+      .matches(/^[A-Za-z0-9_-]{43}$/)
+      .withMessage('Invalid calendar feed token'),
+  ]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const token = Array.isArray(req.params.token)
+      ? req.params.token[0]
+      : req.params.token;
+
+    const calendar = await calendarService.renderFeed(token);
+    if (calendar === null) {
+      res.status(404).json({
+        success: false,
+        error: 'Calendar feed not found',
+      });
+      return;
+    }
+
+    res
+      .status(200)
+      .set({
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="opportunex.ics"',
+        'Cache-Control': 'private, max-age=300',
+      })
+      .send(calendar);
+  })
+);
+
+export { router as calendarRouter };
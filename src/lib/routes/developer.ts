@@ -1,6 +1,7 @@
 import type { Response } from 'express';
 import { Router } from 'express';
 import { z } from 'zod';
+import { EVENT_CATALOG, EVENT_TYPES } from '../events/catalog';
 import type { AuthenticatedRequest } from '../middleware/auth';
 import { apiKeyService } from '../services/api-key.service';
 import { oauthService } from '../services/oauth.service';
@@ -28,24 +29,30 @@ const updateApiKeySchema = z.object({
 const createWebhookSchema = z.object({
   apiKeyId: z.string().uuid(),
   url: z.string().url(),
-  events: z.array(z.string()),
+  events: z.array(z.enum(EVENT_TYPES)).min(1),
   retryCount: z.number().int().min(0).max(10).optional(),
   timeoutMs: z.number().int().min(1000).max(30000).optional(),
 });
 
 const updateWebhookSchema = z.object({
   url: z.string().url().optional(),
-  events: z.array(z.string()).optional(),
+  events: z.array(z.enum(EVENT_TYPES)).min(1).optional(),
   isActive: z.boolean().optional(),
   retryCount: z.number().int().min(0).max(10).optional(),
   timeoutMs: z.number().int().min(1000).max(30000).optional(),
 });
 
+const replayDeliveriesSchema = z.object({
+  since: z.string().datetime(),
+  failedOnly: z.boolean().optional(),
+});
+
 const createOAuthClientSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().optional(),
   redirectUris: z.array(z.string().url()),
   scopes: z.array(z.string()),
+  isPublic: z.boolean().optional(),
 });
 
 const updateOAuthClientSchema = z.object({
@@ -249,6 +256,17 @@ router.get(
 // Webhook Management Routes
 // ============================================================================
 
+/**
+ * GET /api/v1/developer/events
+ * List the events webhooks can subscribe to, with example payloads
+ */
+router.get('/events', (req: AuthenticatedRequest, res: Response) => {
+  res.json({
+    success: true,
+    data: Object.values(EVENT_CATALOG),
+  });
+});
+
 /**
  * GET /api/v1/developer/webhooks
  * List all webhooks for the authenticated user
@@ -434,6 +452,87 @@ router.get(
   }
 );
 
+/**
+ * POST /api/v1/developer/webhooks/:webhookId/deliveries/:deliveryId/redeliver
+ * Send a past delivery again
+ */
+router.post(
+  '/webhooks/:webhookId/deliveries/:deliveryId/redeliver',
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const webhookId = Array.isArray(req.params.webhookId)
+        ? req.params.webhookId[0]
+        : req.params.webhookId;
+      const deliveryId = Array.isArray(req.params.deliveryId)
+        ? req.params.deliveryId[0]
+        : req.params.deliveryId;
+
+      const delivery = await webhookService.redeliver(
+        userId,
+        webhookId,
+        deliveryId
+      );
+
+      res.status(202).json({
+        success: true,
+        data: delivery,
+        message: 'Redelivery queued',
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to redeliver webhook',
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/developer/webhooks/:webhookId/deliveries/replay
+ * Send every event delivered since a timestamp again
+ */
+router.post(
+  '/webhooks/:webhookId/deliveries/replay',
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const webhookId = Array.isArray(req.params.webhookId)
+        ? req.params.webhookId[0]
+        : req.params.webhookId;
+      const { since, failedOnly } = replayDeliveriesSchema.parse(req.body);
+
+      const result = await webhookService.replayDeliveries(
+        userId,
+        webhookId,
+        new Date(since),
+        { failedOnly }
+      );
+
+      res.status(202).json({
+        success: true,
+        data: result,
+        message: `${result.queued} deliveries queued`,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to replay deliveries',
+          message: error.message,
+        });
+      }
+    }
+  }
+);
+
 // ============================================================================
 // OAuth Client Management Routes
 // ============================================================================
@@ -482,8 +581,9 @@ router.post(
       res.status(201).json({
         success: true,
         data: client,
-        message:
-          'OAuth client created successfully. Save the client secret securely - it will not be shown again.',
+        message: client.isPublic
+          ? 'OAuth client created successfully. Public clients have no secret and must use PKCE.'
+          : 'OAuth client created successfully. Save the client secret securely - it will not be shown again.',
       });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
@@ -0,0 +1,141 @@
+import type { Request, Response } from 'express';
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import type { AuthenticatedRequest } from '../middleware/auth';
+import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth';
+import { asyncHandler } from '../middleware/error-handler';
+import { validate } from '../middleware/validation';
+import type { FederatedProvider } from '../services/federated-auth.service';
+import {
+  FEDERATED_PROVIDERS,
+  federatedAuthService,
+} from '../services/federated-auth.service';
+
+const router = Router();
+
+const providerParam = param('provider')
+  .isIn(Object.keys(FEDERATED_PROVIDERS))
+  .withMessage('Unknown sign-in provider');
+
+function getProvider(req: Request): FederatedProvider {
+  const { provider } = req.params;
+  return (
+    Array.isArray(provider) ? provider[0] : provider
+  ) as FederatedProvider;
+}
+
+/**
+ * Providers users can sign in with
+ */
+router.get('/providers', (req: Request, res: Response) => {
+  res.status(200).json({
+    success: true,
+    data: federatedAuthService.listProviders(),
+    message: 'Sign-in providers retrieved successfully',
+  });
+});
+
+/**
+ * Start signing in with a provider, or linking one to the signed-in user
+ * when link is true
+ */
+router.post(
+  '/:provider/start',
+  optionalAuthMiddleware,
+  validate([
+    providerParam,
+    body('returnTo').optional().isString(),
+    body('link').optional().isBoolean(),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const link = req.body.link === true || req.body.link === 'true';
+
+    if (link && !req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+    } else {
+      const result = await federatedAuthService.startAuthorization(
+        getProvider(req),
+        {
+          linkUserId: link ? req.user!.id : undefined,
+          returnTo: req.body.returnTo,
+        }
+      );
+
+      res.status(result.success ? 200 : 400).json(result);
+    }
+  })
+);
+
+/**
+ * Finish signing in or linking with the code and state the provider sent
+ * back to the app
+ */
+router.post(
+  '/:provider/callback',
+  optionalAuthMiddleware,
+  validate([
+    providerParam,
+    body('code').notEmpty().withMessage('Authorization code is required'),
+    body('state').notEmpty().withMessage('State is required'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await federatedAuthService.completeAuthorization(
+      getProvider(req),
+      { code: req.body.code, state: req.body.state },
+      req.user?.id,
+      {
+        userAgent: req.get('user-agent'),
+        ipAddress: req.ip,
+      }
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(401).json(result);
+    }
+  })
+);
+
+/**
+ * Provider accounts linked to the user (requires authentication)
+ */
+router.get(
+  '/identities',
+  authMiddleware,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await federatedAuthService.listIdentities(req.user!.id);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(500).json(result);
+    }
+  })
+);
+
+/**
+ * Unlink a provider account (requires authentication)
+ */
+router.delete(
+  '/identities/:provider',
+  authMiddleware,
+  validate([providerParam]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await federatedAuthService.unlinkIdentity(
+      req.user!.id,
+      getProvider(req)
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+export { router as federatedAuthRouter };
@@ -31,6 +31,7 @@ router.get(
         'new_opportunity',
         'deadline_reminder',
         'recommendation',
+        'direct_message',
         'system',
       ])
       .withMessage('Invalid notification type'),
@@ -189,7 +190,12 @@ router.get(
         inApp: true,
         push: true,
         frequency: 'immediate',
-        types: ['new_opportunity', 'deadline_reminder', 'recommendation'],
+        types: [
+          'new_opportunity',
+          'deadline_reminder',
+          'recommendation',
+          'direct_message',
+        ],
         quietHours: {
           enabled: false,
           start: '22:00',
@@ -250,6 +256,7 @@ router.put(
         'new_opportunity',
         'deadline_reminder',
         'recommendation',
+        'direct_message',
         'system',
       ])
       .withMessage('Invalid notification type'),
@@ -340,6 +347,7 @@ router.post(
         'new_opportunity',
         'deadline_reminder',
         'recommendation',
+        'direct_message',
         'system',
       ])
       .withMessage('Invalid notification type'),
@@ -977,6 +985,7 @@ router.get(
         'new_opportunity',
         'deadline_reminder',
         'recommendation',
+        'direct_message',
         'system',
       ])
       .withMessage('Invalid type'),
@@ -1,6 +1,11 @@
 import { Request, Response, Router } from 'express';
 import { z } from 'zod';
-import { AuthenticatedRequest } from '../middleware/auth';
+import type { AuthenticatedRequest } from '../middleware/auth';
+import { authMiddleware } from '../middleware/auth';
+import type {
+  AuthorizationRequest,
+  TokenResponse,
+} from '../services/oauth.service';
 import { oauthService } from '../services/oauth.service';
 
 const router = Router();
@@ -12,118 +17,258 @@ const authorizeSchema = z.object({
   redirect_uri: z.string().url(),
   scope: z.string(),
   state: z.string().optional(),
+  code_challenge: z.string().optional(),
+  code_challenge_method: z.literal('S256').optional(),
+  nonce: z.string().max(255).optional(),
+  prompt: z.enum(['none', 'consent']).optional(),
+});
+
+const approveSchema = authorizeSchema.extend({
+  approved: z.boolean(),
 });
 
 const tokenSchema = z.object({
   grant_type: z.enum(['authorization_code', 'refresh_token']),
   code: z.string().optional(),
   refresh_token: z.string().optional(),
-  client_id: z.string(),
-  client_secret: z.string(),
+  client_id: z.string().optional(),
+  client_secret: z.string().optional(),
   redirect_uri: z.string().url().optional(),
+  code_verifier: z.string().optional(),
 });
 
+function toAuthorizationRequest(
+  params: z.infer<typeof authorizeSchema>
+): AuthorizationRequest {
+  return {
+    clientId: params.client_id,
+    redirectUri: params.redirect_uri,
+    scopes: params.scope.split(' ').filter(Boolean),
+    codeChallenge: params.code_challenge,
+    codeChallengeMethod: params.code_challenge
+      ? (params.code_challenge_method ?? 'plain')
+      : undefined,
+    nonce: params.nonce,
+  };
+}
+
+function buildRedirectUrl(
+  redirectUri: string,
+  params: Record<string, string | undefined>
+): string {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value) url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
 /**
- * GET /oauth/authorize
- * OAuth 2.0 authorization endpoint
- * User must be authenticated to authorize an application
+ * Client credentials from an HTTP Basic header (RFC 6749 2.3.1)
  */
-router.get('/authorize', async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    const params = authorizeSchema.parse(req.query);
+function parseBasicAuth(
+  header: string | undefined
+): { clientId: string; clientSecret: string } | null {
+  if (!header || !header.startsWith('Basic ')) {
+    return null;
+  }
 
-    // In a real implementation, this would render an authorization page
-    // For now, we'll return the authorization details
-    res.json({
-      success: true,
-      message: 'Authorization request received',
-      data: {
-        clientId: params.client_id,
-        redirectUri: params.redirect_uri,
-        scopes: params.scope.split(' '),
-        state: params.state,
-      },
-      instructions:
-        'User should review and approve/deny the authorization request',
-    });
-  } catch (error: any) {
-    if (error instanceof z.ZodError) {
-      res.status(400).json({
-        success: false,
-        error: 'invalid_request',
-        error_description: 'Invalid authorization request parameters',
-        details: error.errors,
-      });
-    } else {
+  const decoded = Buffer.from(header.slice(6), 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator === -1) {
+    return null;
+  }
+
+  return {
+    clientId: decodeURIComponent(decoded.slice(0, separator)),
+    clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+  };
+}
+
+function toTokenResponseBody(tokens: TokenResponse) {
+  return {
+    access_token: tokens.accessToken,
+    token_type: tokens.tokenType,
+    expires_in: tokens.expiresIn,
+    refresh_token: tokens.refreshToken,
+    scope: tokens.scope,
+    ...(tokens.idToken ? { id_token: tokens.idToken } : {}),
+  };
+}
+
+/**
+ * GET /oauth/.well-known/openid-configuration
+ * OpenID Connect discovery document
+ */
+router.get(
+  '/.well-known/openid-configuration',
+  (req: Request, res: Response) => {
+    try {
+      res.json(oauthService.getDiscoveryDocument());
+    } catch (error: any) {
       res.status(500).json({
-        success: false,
         error: 'server_error',
         error_description: error.message,
       });
     }
   }
-});
+);
 
 /**
- * POST /oauth/authorize
- * User approves/denies the authorization request
+ * GET /oauth/jwks
+ * Public keys for verifying ID tokens
  */
-router.post('/authorize', async (req: AuthenticatedRequest, res: Response) => {
+router.get('/jwks', (req: Request, res: Response) => {
   try {
-    const userId = req.user!.id;
-    const { client_id, redirect_uri, scope, state, approved } = req.body;
-
-    if (!approved) {
-      // User denied the authorization
-      const deniedUrl = new URL(redirect_uri);
-      deniedUrl.searchParams.set('error', 'access_denied');
-      deniedUrl.searchParams.set(
-        'error_description',
-        'User denied authorization'
+    res.json(oauthService.getJwks());
+  } catch (error: any) {
+    res.status(500).json({
+      error: 'server_error',
+      error_description: error.message,
+    });
+  }
+});
+
+/**
+ * GET /oauth/authorize
+ * OAuth 2.0 authorization endpoint, called by the consent screen
+ * If the user already granted every requested scope the code is issued
+ * straight away, otherwise the details to show on the consent screen are
+ * returned
+ */
+router.get(
+  '/authorize',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const params = authorizeSchema.parse(req.query);
+      const userId = req.user!.id;
+      const request = toAuthorizationRequest(params);
+
+      const details = await oauthService.getAuthorizationDetails(
+        userId,
+        request
       );
-      if (state) deniedUrl.searchParams.set('state', state);
+
+      if (details.consentGranted && params.prompt !== 'consent') {
+        const authCode = await oauthService.createAuthorizationCode(
+          request.clientId,
+          userId,
+          request.redirectUri,
+          request.scopes,
+          request
+        );
+
+        return res.json({
+          success: true,
+          redirectUrl: buildRedirectUrl(request.redirectUri, {
+            code: authCode.code,
+            state: params.state,
+          }),
+        });
+      }
+
+      if (params.prompt === 'none') {
+        return res.json({
+          success: false,
+          redirectUrl: buildRedirectUrl(request.redirectUri, {
+            error: 'consent_required',
+            state: params.state,
+          }),
+        });
+      }
 
       return res.json({
+        success: true,
+        data: details,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: 'invalid_request',
+          error_description: 'Invalid authorization request parameters',
+          details: error.errors,
+        });
+      }
+      return res.status(400).json({
         success: false,
-        redirectUrl: deniedUrl.toString(),
+        error: 'invalid_request',
+        error_description: error.message,
       });
     }
+  }
+);
 
-    // Create authorization code
-    const scopes = scope.split(' ');
-    const authCode = await oauthService.createAuthorizationCode(
-      client_id,
-      userId,
-      redirect_uri,
-      scopes
-    );
+/**
+ * POST /oauth/authorize
+ * User approves/denies the authorization request
+ */
+router.post(
+  '/authorize',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const params = approveSchema.parse(req.body);
+      const request = toAuthorizationRequest(params);
 
-    // Build redirect URL with authorization code
-    const redirectUrl = new URL(redirect_uri);
-    redirectUrl.searchParams.set('code', authCode.code);
-    if (state) redirectUrl.searchParams.set('state', state);
+      if (!params.approved) {
+        // Only redirect back to a URI the client registered
+        await oauthService.getAuthorizationDetails(userId, request);
 
-    res.json({
-      success: true,
-      redirectUrl: redirectUrl.toString(),
-    });
-  } catch (error: any) {
-    res.status(400).json({
-      success: false,
-      error: 'invalid_request',
-      error_description: error.message,
-    });
+        return res.json({
+          success: false,
+          redirectUrl: buildRedirectUrl(request.redirectUri, {
+            error: 'access_denied',
+            error_description: 'User denied authorization',
+            state: params.state,
+          }),
+        });
+      }
+
+      const authCode = await oauthService.approveAuthorization(userId, request);
+
+      res.json({
+        success: true,
+        redirectUrl: buildRedirectUrl(request.redirectUri, {
+          code: authCode.code,
+          state: params.state,
+        }),
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: 'invalid_request',
+        error_description:
+          error instanceof z.ZodError
+            ? 'Invalid authorization request parameters'
+            : error.message,
+      });
+    }
   }
-});
+);
 
 /**
  * POST /oauth/token
  * OAuth 2.0 token endpoint
- * Exchange authorization code for access token or refresh an access token
+ * Exchange authorization code for access token or refresh an access token.
+ * Confidential clients authenticate with HTTP Basic or client_secret in the
+ * body; public clients send only client_id.
  */
 router.post('/token', async (req: Request, res: Response) => {
   try {
     const params = tokenSchema.parse(req.body);
+    const basic = parseBasicAuth(req.headers.authorization);
+    const clientId = basic?.clientId ?? params.client_id;
+    const clientSecret = basic?.clientSecret ?? params.client_secret;
+
+    if (!clientId) {
+      return res.status(401).json({
+        error: 'invalid_client',
+        error_description: 'Client authentication is required',
+      });
+    }
 
     if (params.grant_type === 'authorization_code') {
       if (!params.code || !params.redirect_uri) {
@@ -136,12 +281,13 @@ router.post('/token', async (req: Request, res: Response) => {
 
       const tokens = await oauthService.exchangeAuthorizationCode(
         params.code,
-        params.client_id,
-        params.client_secret,
-        params.redirect_uri
+        clientId,
+        clientSecret,
+        params.redirect_uri,
+        params.code_verifier
       );
 
-      res.json(tokens);
+      res.set('Cache-Control', 'no-store').json(toTokenResponseBody(tokens));
     } else if (params.grant_type === 'refresh_token') {
       if (!params.refresh_token) {
         return res.status(400).json({
@@ -152,12 +298,28 @@ router.post('/token', async (req: Request, res: Response) => {
       }
 
       const tokens = await oauthService.refreshAccessToken(
-        params.refresh_token
+        params.refresh_token,
+        clientId,
+        clientSecret
       );
 
-      res.json(tokens);
+      res.set('Cache-Control', 'no-store').json(toTokenResponseBody(tokens));
     }
   } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'invalid_request',
+        error_description: 'Invalid token request parameters',
+      });
+    }
+
+    if (error.message === 'Invalid client credentials') {
+      return res.status(401).json({
+        error: 'invalid_client',
+        error_description: error.message,
+      });
+    }
+
     res.status(400).json({
       error: 'invalid_grant',
       error_description: error.message,
@@ -196,7 +358,7 @@ router.post('/revoke', async (req: Request, res: Response) => {
 
 /**
  * GET /oauth/userinfo
- * Get user information using access token
+ * Standard OpenID Connect claims for the user the access token belongs to
  */
 router.get('/userinfo', async (req: Request, res: Response) => {
   try {
@@ -219,18 +381,75 @@ router.get('/userinfo', async (req: Request, res: Response) => {
       });
     }
 
-    // Return user information based on scopes
-    // In a real implementation, fetch user data from database
-    res.json({
-      sub: tokenInfo.userId,
-      scope: tokenInfo.scopes.join(' '),
-    });
+    // Only tokens issued for OpenID Connect may read the user's claims
+    if (!tokenInfo.scopes.includes('openid')) {
+      return res.status(403).json({
+        error: 'insufficient_scope',
+        error_description: 'The openid scope is required',
+      });
+    }
+
+    return res.json(
+      await oauthService.getUserClaims(tokenInfo.userId, tokenInfo.scopes)
+    );
   } catch (error: any) {
-    res.status(500).json({
+    return res.status(500).json({
       error: 'server_error',
       error_description: error.message,
     });
   }
 });
 
+/**
+ * GET /oauth/consents
+ * Applications the current user has granted access to
+ */
+router.get(
+  '/consents',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const consents = await oauthService.listConsents(req.user!.id);
+
+      res.json({
+        success: true,
+        data: consents,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /oauth/consents/:clientId
+ * Revoke an application's access to the current user's account
+ */
+router.delete(
+  '/consents/:clientId',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const clientId = Array.isArray(req.params.clientId)
+        ? req.params.clientId[0]
+        : req.params.clientId;
+
+      await oauthService.revokeConsent(req.user!.id, clientId);
+
+      res.json({
+        success: true,
+        message: 'Access revoked successfully',
+      });
+    } catch (error: any) {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,88 @@
+import type { Response } from 'express';
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import type { AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/error-handler';
+import { validate } from '../middleware/validation';
+import { opportunityService } from '../services/opportunity.service';
+
+const router = Router();
+
+/**
+ * List opportunities, in the user's preferred language where translated
+ */
+router.get(
+  '/',
+  validate([
+    query('type')
+      .optional()
+      .isIn(['hackathon', 'internship', 'workshop'])
+      .withMessage('Invalid opportunity type'),
+    query('skills').optional().isString(),
+    query('location')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 100 })
+      .withMessage('Location must be at most 100 characters'),
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage('Limit must be between 1 and 50'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const skills = req.query.skills
+      ? String(req.query.skills)
+          .split(',')
+          .map(skill => skill.trim())
+          .filter(Boolean)
+      : undefined;
+
+    const result = await opportunityService.listOpportunities(
+      {
+        type: req.query.type as any,
+        skills,
+        location: req.query.location as string | undefined,
+      },
+      {
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 20,
+      },
+      req.user!.id
+    );
+
+    res.status(result.success ? 200 : 500).json(result);
+  })
+);
+
+/**
+ * Get one opportunity, in the user's preferred language where translated
+ */
+router.get(
+  '/:opportunityId',
+  validate([
+    param('opportunityId').isUUID().withMessage('Invalid opportunity ID'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { opportunityId } = req.params;
+
+    const result = await opportunityService.getOpportunity(
+      Array.isArray(opportunityId) ? opportunityId[0] : opportunityId,
+      req.user!.id
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res
+        .status(result.error === 'Opportunity not found' ? 404 : 500)
+        .json(result);
+    }
+  })
+);
+
+export { router as opportunitiesRouter };
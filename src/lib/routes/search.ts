@@ -41,6 +41,56 @@ router.post(
       .optional()
       .isIn(['hackathon', 'internship', 'workshop'])
       .withMessage('Invalid opportunity type'),
+    body([
+      'filters.deadlineAfter',
+      'filters.deadlineBefore',
+      'filters.startsAfter',
+      'filters.startsBefore',
+      'filters.endsAfter',
+      'filters.endsBefore',
+      'filters.postedAfter',
+    ])
+      .optional()
+      .isISO8601()
+      .withMessage('Date filters must be ISO 8601 dates')
+      .toDate(),
+    body([
+      'filters.stipendMin',
+      'filters.stipendMax',
+      'filters.prizePoolMin',
+      'filters.prizePoolMax',
+    ])
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Amount filters must be non-negative numbers')
+      .toFloat(),
+    body(['filters.durationMinDays', 'filters.durationMaxDays'])
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Duration filters must be a whole number of days')
+      .toInt(),
+    body('filters.nearCity')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('City must be between 1 and 100 characters'),
+    body('filters.maxDistance')
+      .optional()
+      .isInt({ min: 1, max: 5000 })
+      .withMessage('Max distance must be between 1 and 5000 km')
+      .toInt(),
+    body('sort')
+      .optional()
+      .isIn([
+        'relevance',
+        'deadline',
+        'newest',
+        'stipend',
+        'quality',
+        'distance',
+      ])
+      .withMessage('Invalid sort order'),
     body('pagination.page')
       .optional()
       .isInt({ min: 1 })
@@ -54,6 +104,7 @@ router.post(
     const searchRequest: SearchRequest = {
       query: req.body.query,
       filters: req.body.filters,
+      sort: req.body.sort,
       pagination: req.body.pagination || { page: 1, limit: 20 },
       userId: req.user?.id,
     };
@@ -1,48 +1,36 @@
-import { Router } from 'express';
-import { z } from 'zod';
+import express, { Router } from 'express';
+import { body, param } from 'express-validator';
+import { REPORT_REASONS } from '../content-filter';
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_MESSAGE_LENGTH,
+} from '../direct-messages';
 import { authMiddleware } from '../middleware/auth';
-import { validateRequest } from '../middleware/validation';
+import { validate } from '../middleware/validation';
+import { directMessagingService } from '../services/direct-messaging.service';
+import {
+  moderationService,
+  REPORTABLE_CONTENT_TYPES,
+} from '../services/moderation.service';
 import { socialService } from '../services/social.service';
 
 const router = Router();
 
-// Validation schemas
-const followUserSchema = z.object({
-  followingId: z.string().uuid(),
-});
-
-const createDiscussionSchema = z.object({
-  opportunityId: z.string().uuid(),
-  title: z.string().min(1).max(200),
-  content: z.string().min(1),
-});
-
-const addCommentSchema = z.object({
-  discussionId: z.string().uuid(),
-  content: z.string().min(1),
-  parentId: z.string().uuid().optional(),
-});
-
-const createTeamSchema = z.object({
-  name: z.string().min(1).max(100),
-  description: z.string().optional(),
-  opportunityId: z.string().uuid().optional(),
-  maxMembers: z.number().int().min(2).max(20).default(5),
-  isPublic: z.boolean().default(true),
-});
-
-const sendMessageSchema = z.object({
-  receiverId: z.string().uuid(),
-  content: z.string().min(1),
-});
-
-const shareContentSchema = z.object({
-  contentType: z.enum(['opportunity', 'roadmap']),
-  contentId: z.string().uuid(),
-  sharedWithId: z.string().uuid().optional(),
-  message: z.string().optional(),
-  isPublic: z.boolean().default(false),
-});
+// Status codes for failed message edits and deletions
+const messageErrorStatus = (error?: string) => {
+  if (error === 'Message not found') return 404;
+  if (error?.startsWith('Only the sender')) return 403;
+  return 400;
+};
+
+// Status codes for failed reports
+const reportErrorStatus = (error?: string) => {
+  if (error === 'Content not found') return 404;
+  if (error === 'You have already reported this content') return 409;
+  if (error === 'Failed to submit report') return 500;
+  return 400;
+};
 
 /**
  * GET /api/social/profile/:userId
@@ -51,7 +39,7 @@ const shareContentSchema = z.object({
 router.get('/profile/:userId', async (req, res) => {
   try {
     const { userId } = req.params;
-    const viewerId = (req as any).user?.userId;
+    const viewerId = (req as any).user?.id;
 
     const result = await socialService.getPublicProfile(userId, viewerId);
 
@@ -76,11 +64,11 @@ router.get('/profile/:userId', async (req, res) => {
 router.post(
   '/follow',
   authMiddleware,
-  validateRequest(followUserSchema),
+  validate([body('followingId').isUUID().withMessage('Invalid user')]),
   async (req, res) => {
     try {
       const { followingId } = req.body;
-      const followerId = (req as any).user.userId;
+      const followerId = (req as any).user.id;
 
       const result = await socialService.followUser(followerId, followingId);
 
@@ -106,7 +94,7 @@ router.post(
 router.delete('/follow/:followingId', authMiddleware, async (req, res) => {
   try {
     const { followingId } = req.params;
-    const followerId = (req as any).user.userId;
+    const followerId = (req as any).user.id;
 
     const result = await socialService.unfollowUser(followerId, followingId);
 
@@ -124,6 +112,94 @@ router.delete('/follow/:followingId', authMiddleware, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/social/blocks
+ * List the users the user has blocked
+ */
+router.get('/blocks', authMiddleware, async (req, res) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const result = await socialService.getBlockedUsers(userId);
+
+    if (!result.success) {
+      res.status(400).json(result);
+      return;
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Get blocked users error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * POST /api/social/blocks
+ * Block a user
+ */
+router.post(
+  '/blocks',
+  authMiddleware,
+  validate([body('userId').isUUID().withMessage('Invalid user')]),
+  async (req, res) => {
+    try {
+      const blockerId = (req as any).user.id;
+
+      const result = await socialService.blockUser(blockerId, req.body.userId);
+
+      if (!result.success) {
+        res.status(result.error === 'User not found' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Block user error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/social/blocks/:userId
+ * Unblock a user
+ */
+router.delete(
+  '/blocks/:userId',
+  authMiddleware,
+  validate([param('userId').isUUID().withMessage('Invalid user')]),
+  async (req, res) => {
+    try {
+      const blockerId = (req as any).user.id;
+      const blockedId = Array.isArray(req.params.userId)
+        ? req.params.userId[0]
+        : req.params.userId;
+
+      const result = await socialService.unblockUser(blockerId, blockedId);
+
+      if (!result.success) {
+        res.status(400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Unblock user error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
 /**
  * GET /api/social/followers/:userId
  * Get user's followers
@@ -182,7 +258,7 @@ router.get('/following/:userId', async (req, res) => {
  */
 router.get('/feed', authMiddleware, async (req, res) => {
   try {
-    const userId = (req as any).user.userId;
+    const userId = (req as any).user.id;
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
 
@@ -239,11 +315,23 @@ router.get('/discussions/:opportunityId', async (req, res) => {
 router.post(
   '/discussions',
   authMiddleware,
-  validateRequest(createDiscussionSchema),
+  validate([
+    body('opportunityId').isUUID().withMessage('Invalid opportunity'),
+    body('title')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Title must be between 1 and 200 characters'),
+    body('content')
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Content is required'),
+  ]),
   async (req, res) => {
     try {
       const { opportunityId, title, content } = req.body;
-      const userId = (req as any).user.userId;
+      const userId = (req as any).user.id;
 
       const result = await socialService.createDiscussion(
         opportunityId,
@@ -298,11 +386,19 @@ router.get('/comments/:discussionId', async (req, res) => {
 router.post(
   '/comments',
   authMiddleware,
-  validateRequest(addCommentSchema),
+  validate([
+    body('discussionId').isUUID().withMessage('Invalid discussion'),
+    body('content')
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Content is required'),
+    body('parentId').optional().isUUID().withMessage('Invalid parent comment'),
+  ]),
   async (req, res) => {
     try {
       const { discussionId, content, parentId } = req.body;
-      const userId = (req as any).user.userId;
+      const userId = (req as any).user.id;
 
       const result = await socialService.addComment(
         discussionId,
@@ -359,12 +455,34 @@ router.get('/teams', async (req, res) => {
 router.post(
   '/teams',
   authMiddleware,
-  validateRequest(createTeamSchema),
+  validate([
+    body('name')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Name must be between 1 and 100 characters'),
+    body('description').optional().isString(),
+    body('opportunityId')
+      .optional()
+      .isUUID()
+      .withMessage('Invalid opportunity'),
+    body('maxMembers')
+      .optional()
+      .isInt({ min: 2, max: 20 })
+      .withMessage('Teams can have 2 to 20 members')
+      .toInt(),
+    body('isPublic').optional().isBoolean().toBoolean(),
+  ]),
   async (req, res) => {
     try {
-      const { name, description, opportunityId, maxMembers, isPublic } =
-        req.body;
-      const creatorId = (req as any).user.userId;
+      const {
+        name,
+        description,
+        opportunityId,
+        maxMembers = 5,
+        isPublic = true,
+      } = req.body;
+      const creatorId = (req as any).user.id;
 
       const result = await socialService.createTeam(
         name,
@@ -397,7 +515,7 @@ router.post(
 router.post('/teams/:teamId/join', authMiddleware, async (req, res) => {
   try {
     const { teamId } = req.params;
-    const userId = (req as any).user.userId;
+    const userId = (req as any).user.id;
 
     const result = await socialService.joinTeam(teamId, userId);
 
@@ -422,7 +540,7 @@ router.post('/teams/:teamId/join', authMiddleware, async (req, res) => {
 router.delete('/teams/:teamId/leave', authMiddleware, async (req, res) => {
   try {
     const { teamId } = req.params;
-    const userId = (req as any).user.userId;
+    const userId = (req as any).user.id;
 
     const result = await socialService.leaveTeam(teamId, userId);
 
@@ -440,6 +558,31 @@ router.delete('/teams/:teamId/leave', authMiddleware, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/social/conversations
+ * List the user's conversations with unread counts
+ */
+router.get('/conversations', authMiddleware, async (req, res) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const result = await socialService.getConversations(userId);
+
+    if (!result.success) {
+      res.status(400).json(result);
+      return;
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Get conversations error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
 /**
  * POST /api/social/messages
  * Send a direct message
@@ -447,22 +590,38 @@ router.delete('/teams/:teamId/leave', authMiddleware, async (req, res) => {
 router.post(
   '/messages',
   authMiddleware,
-  validateRequest(sendMessageSchema),
+  validate([
+    body('receiverId').isUUID().withMessage('Invalid receiver'),
+    body('content')
+      .optional()
+      .isString()
+      .isLength({ max: MAX_MESSAGE_LENGTH })
+      .withMessage('Message is too long'),
+    body('attachmentIds')
+      .optional()
+      .isArray({ max: MAX_ATTACHMENTS_PER_MESSAGE })
+      .withMessage('Too many attachments'),
+    body('attachmentIds.*').isUUID().withMessage('Invalid attachment'),
+  ]),
   async (req, res) => {
     try {
-      const { receiverId, content } = req.body;
-      const senderId = (req as any).user.userId;
+      const { receiverId, content = '', attachmentIds = [] } = req.body;
+      const senderId = (req as any).user.id;
 
       const result = await socialService.sendDirectMessage(
         senderId,
         receiverId,
-        content
+        content,
+        attachmentIds
       );
 
       if (!result.success) {
-        return res.status(400).json(result);
+        res.status(400).json(result);
+        return;
       }
 
+      await directMessagingService.deliverMessage(result.data!);
+
       res.status(201).json(result);
     } catch (error) {
       console.error('Send message error:', error);
@@ -474,14 +633,192 @@ router.post(
   }
 );
 
+/**
+ * POST /api/social/messages/attachments
+ * Upload a file to attach to a message. The body is the raw file, with its
+ * type in Content-Type and its URI-encoded name in X-File-Name.
+ */
+router.post(
+  '/messages/attachments',
+  authMiddleware,
+  express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES }),
+  async (req, res) => {
+    try {
+      const userId = (req as any).user.id;
+
+      if (!Buffer.isBuffer(req.body)) {
+        res.status(400).json({
+          success: false,
+          error: 'No file uploaded',
+        });
+        return;
+      }
+
+      let fileName: string;
+      try {
+        fileName = decodeURIComponent(req.get('X-File-Name') || '');
+      } catch {
+        fileName = '';
+      }
+
+      const result = await socialService.uploadMessageAttachment(
+        userId,
+        fileName,
+        (req.get('Content-Type') || '').split(';')[0].trim(),
+        req.body
+      );
+
+      if (!result.success) {
+        res
+          .status(result.error === 'Failed to upload attachment' ? 500 : 400)
+          .json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      console.error('Upload attachment error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/social/messages/attachments/:attachmentId
+ * Download a message attachment
+ */
+router.get(
+  '/messages/attachments/:attachmentId',
+  authMiddleware,
+  async (req, res) => {
+    try {
+      const userId = (req as any).user.id;
+      const attachmentId = Array.isArray(req.params.attachmentId)
+        ? req.params.attachmentId[0]
+        : req.params.attachmentId;
+
+      const result = await socialService.getMessageAttachment(
+        attachmentId,
+        userId
+      );
+
+      if (!result.success) {
+        res
+          .status(result.error === 'Attachment not found' ? 404 : 500)
+          .json(result);
+        return;
+      }
+
+      const attachment = result.data!;
+      res.set({
+        'Content-Type': attachment.mimeType,
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        'Cache-Control': 'private, max-age=3600',
+      });
+      res.sendFile(attachment.path);
+    } catch (error) {
+      console.error('Download attachment error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
+/**
+ * PATCH /api/social/messages/:messageId
+ * Edit a message the user sent
+ */
+router.patch(
+  '/messages/:messageId',
+  authMiddleware,
+  validate([
+    param('messageId').isUUID().withMessage('Invalid message'),
+    body('content')
+      .isString()
+      .isLength({ max: MAX_MESSAGE_LENGTH })
+      .withMessage('Message is too long'),
+  ]),
+  async (req, res) => {
+    try {
+      const userId = (req as any).user.id;
+      const messageId = Array.isArray(req.params.messageId)
+        ? req.params.messageId[0]
+        : req.params.messageId;
+
+      const result = await socialService.editDirectMessage(
+        messageId,
+        userId,
+        req.body.content
+      );
+
+      if (!result.success) {
+        res.status(messageErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      directMessagingService.messageUpdated(result.data!);
+
+      res.json(result);
+    } catch (error) {
+      console.error('Edit message error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/social/messages/:messageId
+ * Delete a message the user sent
+ */
+router.delete(
+  '/messages/:messageId',
+  authMiddleware,
+  validate([param('messageId').isUUID().withMessage('Invalid message')]),
+  async (req, res) => {
+    try {
+      const userId = (req as any).user.id;
+      const messageId = Array.isArray(req.params.messageId)
+        ? req.params.messageId[0]
+        : req.params.messageId;
+
+      const result = await socialService.deleteDirectMessage(messageId, userId);
+
+      if (!result.success) {
+        res.status(messageErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      directMessagingService.messageDeleted(result.data!);
+
+      res.json(result);
+    } catch (error) {
+      console.error('Delete message error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
 /**
  * GET /api/social/messages/:otherUserId
- * Get direct messages with another user
+ * Get direct messages with another user, marking theirs as read
  */
 router.get('/messages/:otherUserId', authMiddleware, async (req, res) => {
   try {
-    const { otherUserId } = req.params;
-    const userId = (req as any).user.userId;
+    const otherUserId = Array.isArray(req.params.otherUserId)
+      ? req.params.otherUserId[0]
+      : req.params.otherUserId;
+    const userId = (req as any).user.id;
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 50;
 
@@ -493,7 +830,13 @@ router.get('/messages/:otherUserId', authMiddleware, async (req, res) => {
     );
 
     if (!result.success) {
-      return res.status(400).json(result);
+      res.status(400).json(result);
+      return;
+    }
+
+    const receipt = await socialService.markMessagesRead(userId, otherUserId);
+    if (receipt.success) {
+      directMessagingService.messagesRead(receipt.data!);
     }
 
     res.json(result);
@@ -506,6 +849,36 @@ router.get('/messages/:otherUserId', authMiddleware, async (req, res) => {
   }
 });
 
+/**
+ * POST /api/social/messages/:otherUserId/read
+ * Mark another user's messages as read
+ */
+router.post('/messages/:otherUserId/read', authMiddleware, async (req, res) => {
+  try {
+    const otherUserId = Array.isArray(req.params.otherUserId)
+      ? req.params.otherUserId[0]
+      : req.params.otherUserId;
+    const userId = (req as any).user.id;
+
+    const result = await socialService.markMessagesRead(userId, otherUserId);
+
+    if (!result.success) {
+      res.status(400).json(result);
+      return;
+    }
+
+    directMessagingService.messagesRead(result.data!);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Mark messages read error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
 /**
  * POST /api/social/share
  * Share content with another user
@@ -513,12 +886,25 @@ router.get('/messages/:otherUserId', authMiddleware, async (req, res) => {
 router.post(
   '/share',
   authMiddleware,
-  validateRequest(shareContentSchema),
+  validate([
+    body('contentType')
+      .isIn(['opportunity', 'roadmap'])
+      .withMessage('Invalid content type'),
+    body('contentId').isUUID().withMessage('Invalid content'),
+    body('sharedWithId').optional().isUUID().withMessage('Invalid user'),
+    body('message').optional().isString(),
+    body('isPublic').optional().isBoolean().toBoolean(),
+  ]),
   async (req, res) => {
     try {
-      const { contentType, contentId, sharedWithId, message, isPublic } =
-        req.body;
-      const userId = (req as any).user.userId;
+      const {
+        contentType,
+        contentId,
+        sharedWithId,
+        message,
+        isPublic = false,
+      } = req.body;
+      const userId = (req as any).user.id;
 
       const result = await socialService.shareContent(
         userId,
@@ -544,13 +930,63 @@ router.post(
   }
 );
 
+/**
+ * POST /api/social/reports
+ * Report content or a user to the moderators
+ */
+router.post(
+  '/reports',
+  authMiddleware,
+  validate([
+    body('contentType')
+      .isIn([...REPORTABLE_CONTENT_TYPES])
+      .withMessage('Invalid content type'),
+    body('contentId').isUUID().withMessage('Invalid content'),
+    body('reason')
+      .isIn([...REPORT_REASONS])
+      .withMessage('Invalid reason'),
+    body('details')
+      .optional()
+      .isString()
+      .isLength({ max: 1000 })
+      .withMessage('Details must be at most 1000 characters'),
+  ]),
+  async (req, res) => {
+    try {
+      const { contentType, contentId, reason, details } = req.body;
+      const reporterId = (req as any).user.id;
+
+      const result = await moderationService.reportContent(
+        reporterId,
+        contentType,
+        contentId,
+        reason,
+        details
+      );
+
+      if (!result.success) {
+        res.status(reportErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      console.error('Report content error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+);
+
 /**
  * GET /api/social/shared
  * Get shared content for a user
  */
 router.get('/shared', authMiddleware, async (req, res) => {
   try {
-    const userId = (req as any).user.userId;
+    const userId = (req as any).user.id;
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
 
@@ -1,9 +1,15 @@
 import type { Response } from 'express';
 import { Router } from 'express';
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import type { AuthenticatedRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/error-handler';
 import { validate } from '../middleware/validation';
+import type { ApplicationStatus } from '../services/application.service';
+import {
+  APPLICATION_STATUSES,
+  applicationService,
+} from '../services/application.service';
+import { savedSearchService } from '../services/saved-search.service';
 import type { UpdateUserProfileRequest } from '../services/user.service';
 import { userService } from '../services/user.service';
 
@@ -252,6 +258,560 @@ router.delete(
   })
 );
 
+/**
+ * List tracked applications
+ */
+router.get(
+  '/applications',
+  validate([
+    query('status')
+      .optional()
+      .isString()
+      .custom((value: string) =>
+        value
+          .split(',')
+          .every(status =>
+            APPLICATION_STATUSES.includes(status as ApplicationStatus)
+          )
+      )
+      .withMessage('Invalid application status'),
+    query('dueBefore')
+      .optional()
+      .isISO8601()
+      .withMessage('dueBefore must be a valid date'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+    const status = req.query.status
+      ? ((req.query.status as string).split(',') as ApplicationStatus[])
+      : undefined;
+    const dueBefore = req.query.dueBefore
+      ? new Date(req.query.dueBefore as string)
+      : undefined;
+
+    const result = await applicationService.listApplications(userId, {
+      status,
+      dueBefore,
+    });
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Get tracked applications grouped by status (Kanban board)
+ */
+router.get(
+  '/applications/board',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+
+    const result = await applicationService.getBoard(userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Get a tracked application with its status history
+ */
+router.get(
+  '/applications/:applicationId',
+  validate([
+    param('applicationId').isUUID().withMessage('Invalid application ID'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+    const applicationId = Array.isArray(req.params.applicationId)
+      ? req.params.applicationId[0]
+      : req.params.applicationId;
+
+    const result = await applicationService.getApplication(
+      userId,
+      applicationId
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  })
+);
+
+/**
+ * Start tracking an application
+ */
+router.post(
+  '/applications',
+  validate([
+    body('opportunityId').isUUID().withMessage('Invalid opportunity ID'),
+    body('status')
+      .optional()
+      .isIn([...APPLICATION_STATUSES])
+      .withMessage('Invalid application status'),
+    body('notes')
+      .optional()
+      .isString()
+      .isLength({ max: 5000 })
+      .withMessage('Notes must be at most 5000 characters'),
+    body('nextAction')
+      .optional()
+      .isString()
+      .isLength({ max: 200 })
+      .withMessage('Next action must be at most 200 characters'),
+    body('nextActionAt')
+      .optional()
+      .isISO8601()
+      .withMessage('Next action date must be a valid date'),
+    body('documents')
+      .optional()
+      .isArray({ max: 20 })
+      .withMessage('Documents must be an array'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+
+    const result = await applicationService.createApplication(userId, req.body);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else if (result.error === 'Opportunity not found') {
+      res.status(404).json(result);
+    } else if (result.error === 'Opportunity is already being tracked') {
+      res.status(409).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Update a tracked application (status, notes, next action, board position)
+ */
+router.patch(
+  '/applications/:applicationId',
+  validate([
+    param('applicationId').isUUID().withMessage('Invalid application ID'),
+    body('status')
+      .optional()
+      .isIn([...APPLICATION_STATUSES])
+      .withMessage('Invalid application status'),
+    body('statusNote')
+      .optional()
+      .isString()
+      .isLength({ max: 1000 })
+      .withMessage('Status note must be at most 1000 characters'),
+    body('notes')
+      .optional({ values: 'null' })
+      .isString()
+      .isLength({ max: 5000 })
+      .withMessage('Notes must be at most 5000 characters'),
+    body('nextAction')
+      .optional({ values: 'null' })
+      .isString()
+      .isLength({ max: 200 })
+      .withMessage('Next action must be at most 200 characters'),
+    body('nextActionAt')
+      .optional({ values: 'null' })
+      .isISO8601()
+      .withMessage('Next action date must be a valid date'),
+    body('position')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Position must be a non-negative integer'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+    const applicationId = Array.isArray(req.params.applicationId)
+      ? req.params.applicationId[0]
+      : req.params.applicationId;
+
+    const result = await applicationService.updateApplication(
+      userId,
+      applicationId,
+      req.body
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else if (result.error === 'Application not found') {
+      res.status(404).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Stop tracking an application
+ */
+router.delete(
+  '/applications/:applicationId',
+  validate([
+    param('applicationId').isUUID().withMessage('Invalid application ID'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+    const applicationId = Array.isArray(req.params.applicationId)
+      ? req.params.applicationId[0]
+      : req.params.applicationId;
+
+    const result = await applicationService.deleteApplication(
+      userId,
+      applicationId
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  })
+);
+
+/**
+ * Attach a document to an application
+ */
+router.post(
+  '/applications/:applicationId/documents',
+  validate([
+    param('applicationId').isUUID().withMessage('Invalid application ID'),
+    body('name')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Name must be between 1 and 200 characters'),
+    body('url').isURL().withMessage('Invalid document URL'),
+    body('kind')
+      .optional()
+      .isIn(['resume', 'cover_letter', 'portfolio', 'transcript', 'other'])
+      .withMessage('Invalid document kind'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+    const applicationId = Array.isArray(req.params.applicationId)
+      ? req.params.applicationId[0]
+      : req.params.applicationId;
+
+    const result = await applicationService.addDocument(
+      userId,
+      applicationId,
+      req.body
+    );
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else if (result.error === 'Application not found') {
+      res.status(404).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Remove a document from an application
+ */
+router.delete(
+  '/applications/:applicationId/documents/:documentId',
+  validate([
+    param('applicationId').isUUID().withMessage('Invalid application ID'),
+    param('documentId').isUUID().withMessage('Invalid document ID'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+    const applicationId = Array.isArray(req.params.applicationId)
+      ? req.params.applicationId[0]
+      : req.params.applicationId;
+    const documentId = Array.isArray(req.params.documentId)
+      ? req.params.documentId[0]
+      : req.params.documentId;
+
+    const result = await applicationService.removeDocument(
+      userId,
+      applicationId,
+      documentId
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  })
+);
+
+/**
+ * List saved searches with their new-since-last-viewed counts
+ */
+router.get(
+  '/saved-searches',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+
+    const result = await savedSearchService.listSavedSearches(userId);
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Get a saved search
+ */
+router.get(
+  '/saved-searches/:savedSearchId',
+  validate([
+    param('savedSearchId').isUUID().withMessage('Invalid saved search ID'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+    const savedSearchId = Array.isArray(req.params.savedSearchId)
+      ? req.params.savedSearchId[0]
+      : req.params.savedSearchId;
+
+    const result = await savedSearchService.getSavedSearch(
+      userId,
+      savedSearchId
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  })
+);
+
+/**
+ * Save a search request under a name
+ */
+router.post(
+  '/saved-searches',
+  validate([
+    body('name')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Name must be between 1 and 100 characters'),
+    body('query')
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Query must be at most 500 characters'),
+    body('filters')
+      .optional()
+      .isObject()
+      .withMessage('Filters must be an object'),
+    body('sort')
+      .optional()
+      .isIn([
+        'relevance',
+        'deadline',
+        'newest',
+        'stipend',
+        'quality',
+        'distance',
+      ])
+      .withMessage('Invalid sort order'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+
+    const result = await savedSearchService.createSavedSearch(userId, req.body);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else if (
+      result.error === 'A saved search with this name already exists'
+    ) {
+      res.status(409).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Rename or change a saved search. A linked alert is kept in sync.
+ */
+router.patch(
+  '/saved-searches/:savedSearchId',
+  validate([
+    param('savedSearchId').isUUID().withMessage('Invalid saved search ID'),
+    body('name')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Name must be between 1 and 100 characters'),
+    body('query')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Query must be at most 500 characters'),
+    body('filters')
+      .optional()
+      .isObject()
+      .withMessage('Filters must be an object'),
+    body('sort')
+      .optional()
+      .isIn([
+        'relevance',
+        'deadline',
+        'newest',
+        'stipend',
+        'quality',
+        'distance',
+      ])
+      .withMessage('Invalid sort order'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+    const savedSearchId = Array.isArray(req.params.savedSearchId)
+      ? req.params.savedSearchId[0]
+      : req.params.savedSearchId;
+
+    const result = await savedSearchService.updateSavedSearch(
+      userId,
+      savedSearchId,
+      req.body
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else if (result.error === 'Saved search not found') {
+      res.status(404).json(result);
+    } else if (
+      result.error === 'A saved search with this name already exists'
+    ) {
+      res.status(409).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Delete a saved search
+ */
+router.delete(
+  '/saved-searches/:savedSearchId',
+  validate([
+    param('savedSearchId').isUUID().withMessage('Invalid saved search ID'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+    const savedSearchId = Array.isArray(req.params.savedSearchId)
+      ? req.params.savedSearchId[0]
+      : req.params.savedSearchId;
+
+    const result = await savedSearchService.deleteSavedSearch(
+      userId,
+      savedSearchId
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else {
+      res.status(404).json(result);
+    }
+  })
+);
+
+/**
+ * Run a saved search and reset its new count
+ */
+router.post(
+  '/saved-searches/:savedSearchId/run',
+  validate([
+    param('savedSearchId').isUUID().withMessage('Invalid saved search ID'),
+    body('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer')
+      .toInt(),
+    body('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limit must be between 1 and 100')
+      .toInt(),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+    const savedSearchId = Array.isArray(req.params.savedSearchId)
+      ? req.params.savedSearchId[0]
+      : req.params.savedSearchId;
+
+    const result = await savedSearchService.runSavedSearch(
+      userId,
+      savedSearchId,
+      { page: req.body.page || 1, limit: req.body.limit || 20 }
+    );
+
+    if (result.success) {
+      res.status(200).json(result);
+    } else if (result.error === 'Saved search not found') {
+      res.status(404).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
+/**
+ * Turn a saved search into an opportunity alert
+ */
+router.post(
+  '/saved-searches/:savedSearchId/alert',
+  validate([
+    param('savedSearchId').isUUID().withMessage('Invalid saved search ID'),
+    body('channels')
+      .isArray({ min: 1 })
+      .withMessage('Choose at least one channel'),
+    body('channels.*')
+      .isIn(['email', 'sms', 'in_app', 'push'])
+      .withMessage('Invalid alert channel'),
+    body('frequency')
+      .optional()
+      .isIn(['immediate', 'daily', 'weekly'])
+      .withMessage('Invalid alert frequency'),
+  ]),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.id;
+    const savedSearchId = Array.isArray(req.params.savedSearchId)
+      ? req.params.savedSearchId[0]
+      : req.params.savedSearchId;
+
+    const result = await savedSearchService.convertToAlert(
+      userId,
+      savedSearchId,
+      req.body
+    );
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else if (result.error === 'Saved search not found') {
+      res.status(404).json(result);
+    } else if (result.error === 'Saved search already has an alert') {
+      res.status(409).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  })
+);
+
 /**
  * Get user analytics
  */
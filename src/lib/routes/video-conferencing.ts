@@ -1,12 +1,20 @@
 // Video Conferencing API Routes
-import { Request, Response, Router } from 'express';
-import { Pool } from 'pg';
+import type { Request, Response } from 'express';
+import express, { Router } from 'express';
+import type { Pool } from 'pg';
+import type { AuthenticatedRequest } from '../middleware/auth';
 import { authMiddleware } from '../middleware/auth';
+import { logger } from '../monitoring';
+import {
+  MAX_RECORDING_CHUNK_BYTES,
+  RecordingService,
+} from '../services/recording.service';
 import { VideoConferencingService } from '../services/video-conferencing.service';
 
 export function createVideoConferencingRoutes(pool: Pool): Router {
   const router = Router();
   const service = new VideoConferencingService(pool);
+  const recordings = new RecordingService(pool);
 
   /**
    * Create a new video call room
@@ -14,7 +22,7 @@ export function createVideoConferencingRoutes(pool: Pool): Router {
    */
   router.post('/rooms', authMiddleware, async (req: Request, res: Response) => {
     try {
-      const userId = (req as any).user.userId;
+      const userId = (req as any).user.id;
       const result = await service.createRoom(userId, req.body);
 
       res.json({
@@ -66,7 +74,7 @@ export function createVideoConferencingRoutes(pool: Pool): Router {
   router.post('/rooms/:roomCode/join', async (req: Request, res: Response) => {
     try {
       const { roomCode } = req.params;
-      const userId = (req as any).user?.userId;
+      const userId = (req as any).user.id;
 
       const result = await service.joinRoom(
         {
@@ -166,26 +174,28 @@ export function createVideoConferencingRoutes(pool: Pool): Router {
   );
 
   /**
-   * Start recording
+   * Start recording. The host's client then uploads MediaRecorder chunks.
    * POST /api/video/rooms/:roomId/recording/start
    */
   router.post(
     '/rooms/:roomId/recording/start',
     authMiddleware,
-    async (req: Request, res: Response) => {
+    async (req: AuthenticatedRequest, res: Response) => {
       try {
-        const { roomId } = req.params;
-        const { format } = req.body;
-
-        const recording = await service.startRecording(roomId, format);
+        const userId = req.user!.id;
+        const recording = await recordings.startRecording(
+          String(req.params.roomId),
+          userId,
+          req.body
+        );
 
         res.json({
           success: true,
           data: recording,
         });
       } catch (error: any) {
-        console.error('Error starting recording:', error);
-        res.status(500).json({
+        logger.error('Error starting recording', error);
+        res.status(400).json({
           success: false,
           error: error.message || 'Failed to start recording',
         });
@@ -194,24 +204,60 @@ export function createVideoConferencingRoutes(pool: Pool): Router {
   );
 
   /**
-   * Stop recording
+   * Upload one recording chunk. The body is the raw chunk.
+   * PUT /api/video/recordings/:recordingId/chunks/:sequence
+   */
+  router.put(
+    '/recordings/:recordingId/chunks/:sequence',
+    authMiddleware,
+    express.raw({ type: () => true, limit: MAX_RECORDING_CHUNK_BYTES }),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const userId = req.user!.id;
+        await recordings.uploadChunk(
+          String(req.params.recordingId),
+          userId,
+          Number(req.params.sequence),
+          Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0)
+        );
+
+        res.json({
+          success: true,
+          message: 'Chunk uploaded',
+        });
+      } catch (error: any) {
+        logger.error('Error uploading recording chunk', error);
+        res.status(400).json({
+          success: false,
+          error: error.message || 'Failed to upload recording chunk',
+        });
+      }
+    }
+  );
+
+  /**
+   * Stop recording and queue it for processing
    * POST /api/video/recordings/:recordingId/stop
    */
   router.post(
     '/recordings/:recordingId/stop',
     authMiddleware,
-    async (req: Request, res: Response) => {
+    async (req: AuthenticatedRequest, res: Response) => {
       try {
-        const { recordingId } = req.params;
-        await service.stopRecording(recordingId);
+        const userId = req.user!.id;
+        const recording = await recordings.stopRecording(
+          String(req.params.recordingId),
+          userId
+        );
 
         res.json({
           success: true,
+          data: recording,
           message: 'Recording stopped',
         });
       } catch (error: any) {
-        console.error('Error stopping recording:', error);
-        res.status(500).json({
+        logger.error('Error stopping recording', error);
+        res.status(400).json({
           success: false,
           error: error.message || 'Failed to stop recording',
         });
@@ -219,6 +265,194 @@ export function createVideoConferencingRoutes(pool: Pool): Router {
     }
   );
 
+  /**
+   * Get a room's recordings
+   * GET /api/video/rooms/:roomId/recordings
+   */
+  router.get(
+    '/rooms/:roomId/recordings',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const userId = req.user!.id;
+        const roomRecordings = await recordings.getRoomRecordings(
+          String(req.params.roomId),
+          userId
+        );
+
+        res.json({
+          success: true,
+          data: roomRecordings,
+        });
+      } catch (error: any) {
+        logger.error('Error getting recordings', error);
+        res.status(500).json({
+          success: false,
+          error: error.message || 'Failed to get recordings',
+        });
+      }
+    }
+  );
+
+  /**
+   * Search call transcripts
+   * GET /api/video/transcripts/search?q=&roomId=&mentorshipSessionId=&limit=
+   */
+  router.get(
+    '/transcripts/search',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const userId = req.user!.id;
+        const { q, roomId, mentorshipSessionId, limit } = req.query;
+
+        const results = await recordings.searchTranscripts(
+          userId,
+          typeof q === 'string' ? q : '',
+          {
+            roomId: typeof roomId === 'string' ? roomId : undefined,
+            mentorshipSessionId:
+              typeof mentorshipSessionId === 'string'
+                ? mentorshipSessionId
+                : undefined,
+          },
+          limit ? parseInt(String(limit), 10) || undefined : undefined
+        );
+
+        res.json({
+          success: true,
+          data: results,
+        });
+      } catch (error: any) {
+        logger.error('Error searching transcripts', error);
+        res.status(500).json({
+          success: false,
+          error: error.message || 'Failed to search transcripts',
+        });
+      }
+    }
+  );
+
+  /**
+   * Get recording status
+   * GET /api/video/recordings/:recordingId
+   */
+  router.get(
+    '/recordings/:recordingId',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const userId = req.user!.id;
+        const recording = await recordings.getRecordingForUser(
+          String(req.params.recordingId),
+          userId
+        );
+
+        if (!recording) {
+          res.status(404).json({
+            success: false,
+            error: 'Recording not found',
+          });
+          return;
+        }
+
+        res.json({
+          success: true,
+          data: recording,
+        });
+      } catch (error: any) {
+        logger.error('Error getting recording', error);
+        res.status(500).json({
+          success: false,
+          error: error.message || 'Failed to get recording',
+        });
+      }
+    }
+  );
+
+  /**
+   * Download a recording
+   * GET /api/video/recordings/:recordingId/download
+   */
+  router.get(
+    '/recordings/:recordingId/download',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const userId = req.user!.id;
+        const recording = await recordings.getRecordingForUser(
+          String(req.params.recordingId),
+          userId
+        );
+
+        if (!recording) {
+          res.status(404).json({
+            success: false,
+            error: 'Recording not found',
+          });
+          return;
+        }
+
+        const { stream, mimeType } = recordings.openRecording(recording);
+        res.setHeader('Content-Type', mimeType);
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="recording-${recording.id}.${recording.format}"`
+        );
+        stream.on('error', error => {
+          logger.error('Error streaming recording', error, {
+            recordingId: recording.id,
+          });
+          res.destroy(error);
+        });
+        stream.pipe(res);
+      } catch (error: any) {
+        logger.error('Error downloading recording', error);
+        res.status(400).json({
+          success: false,
+          error: error.message || 'Failed to download recording',
+        });
+      }
+    }
+  );
+
+  /**
+   * Get a recording's transcript
+   * GET /api/video/recordings/:recordingId/transcript
+   */
+  router.get(
+    '/recordings/:recordingId/transcript',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const userId = req.user!.id;
+        const transcript = await recordings.getTranscript(
+          String(req.params.recordingId),
+          userId
+        );
+
+        if (!transcript) {
+          res.status(404).json({
+            success: false,
+            error: 'Transcript not found',
+          });
+          return;
+        }
+
+        res.json({
+          success: true,
+          data: transcript,
+        });
+      } catch (error: any) {
+        logger.error('Error getting transcript', error);
+        res.status(500).json({
+          success: false,
+          error: error.message || 'Failed to get transcript',
+        });
+      }
+    }
+  );
+
   /**
    * Get chat messages
    * GET /api/video/rooms/:roomId/messages
@@ -300,6 +534,43 @@ export function createVideoConferencingRoutes(pool: Pool): Router {
     }
   );
 
+  /**
+   * Get poll results, for people who were in the call
+   * GET /api/video/polls/:pollId/results
+   */
+  router.get(
+    '/polls/:pollId/results',
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const userId = (req as any).user.id;
+        const poll = await service.getPoll(String(req.params.pollId));
+        const participants = poll
+          ? await service.getRoomParticipants(poll.roomId)
+          : [];
+
+        if (!poll || !participants.some(p => p.userId === userId)) {
+          res.status(404).json({
+            success: false,
+            error: 'Poll not found',
+          });
+          return;
+        }
+
+        res.json({
+          success: true,
+          data: await service.getPollResults(poll.id),
+        });
+      } catch (error: any) {
+        console.error('Error getting poll results:', error);
+        res.status(500).json({
+          success: false,
+          error: error.message || 'Failed to get poll results',
+        });
+      }
+    }
+  );
+
   /**
    * Create breakout rooms
    * POST /api/video/rooms/:roomId/breakout-rooms
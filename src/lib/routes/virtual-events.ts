@@ -6,6 +6,7 @@ import { authMiddleware } from '../middleware/auth';
 import { arBusinessCardService } from '../services/ar-business-card.service';
 import { avatarService } from '../services/avatar.service';
 import { deviceCapabilityService } from '../services/device-capability.service';
+import { virtualEventPresenceService } from '../services/virtual-event-presence.service';
 import { virtualEventsService } from '../services/virtual-events.service';
 
 const router = Router();
@@ -59,6 +60,7 @@ router.put('/spaces/:spaceId', async (req: Request, res: Response) => {
       req.params.spaceId,
       req.body
     );
+    virtualEventPresenceService.updateScene(space.id, space.sceneConfig);
     res.json(space);
   } catch (error: any) {
     res.status(400).json({ error: error.message });
@@ -106,7 +108,8 @@ router.post(
   }
 );
 
-// Update user position
+// Update user position. Connected clients send positions over the presence
+// socket instead, which saves them periodically.
 router.put(
   '/sessions/:sessionId/position',
   async (req: Request, res: Response) => {
@@ -132,7 +135,7 @@ router.get(
       const participants = await virtualEventsService.getActiveParticipants(
         req.params.spaceId
       );
-      res.json(participants);
+      res.json(virtualEventPresenceService.withLivePositions(participants));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -144,9 +147,11 @@ router.get(
 // Create a booth
 router.post('/spaces/:spaceId/booths', async (req: Request, res: Response) => {
   try {
+    const userId = (req as any).user.id;
     const booth = await virtualEventsService.createBooth({
-      spaceId: req.params.spaceId,
       ...req.body,
+      spaceId: req.params.spaceId,
+      ownerId: userId,
     });
     res.status(201).json(booth);
   } catch (error: any) {
@@ -210,6 +215,46 @@ router.post(
   }
 );
 
+// Register to attend a presentation
+router.post(
+  '/presentations/:presentationId/registration',
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const presentationId = Array.isArray(req.params.presentationId)
+        ? req.params.presentationId[0]
+        : req.params.presentationId;
+      await virtualEventsService.registerForPresentation(
+        presentationId,
+        userId
+      );
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  }
+);
+
+// Cancel a presentation registration
+router.delete(
+  '/presentations/:presentationId/registration',
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const presentationId = Array.isArray(req.params.presentationId)
+        ? req.params.presentationId[0]
+        : req.params.presentationId;
+      await virtualEventsService.unregisterFromPresentation(
+        presentationId,
+        userId
+      );
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
 // ===== Interactions =====
 
 // Log an interaction
@@ -159,7 +159,7 @@ router.post(
       result.data.transcription = text;
       result.data.searchQuery = text
         .toLowerCase()
-        .replace(/[^\w\s]/g, ' ')
+        .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
         .trim();
       result.data.confidence = 1.0;
     }
@@ -0,0 +1,323 @@
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { load } from 'cheerio';
+import type {
+  ScrapedOpportunity,
+  ScrapingConfig,
+} from '../services/scraping.service';
+import { cleanText } from './parsing-utils';
+
+/**
+ * Partially populated opportunity collected from a listing page and later
+ * completed from the detail page
+ */
+export type OpportunityDraft = Partial<ScrapedOpportunity> & {
+  externalUrl: string;
+  sourceUrl: string;
+};
+
+export interface ListingPage<T> {
+  items: T[];
+  nextPageUrl?: string;
+}
+
+/**
+ * Base scraper class
+ */
+export abstract class BaseScraper {
+  protected config: ScrapingConfig;
+
+  constructor(config: ScrapingConfig) {
+    this.config = config;
+  }
+
+  abstract scrape(url: string): Promise<ScrapedOpportunity[]>;
+
+  protected async makeRequest(
+    url: string,
+    options: any = {}
+  ): Promise<Response> {
+    const userAgent = this.getRandomUserAgent();
+    const proxy = this.getRandomProxy();
+
+    const fetchOptions: RequestInit = {
+      headers: {
+        'User-Agent': userAgent,
+        Accept:
+          'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+        'Accept-Encoding': 'gzip, deflate',
+        Connection: 'keep-alive',
+        ...options.headers,
+      },
+      ...options,
+    };
+
+    // Add proxy if available
+    if (proxy) {
+      // Note: In a real implementation, you'd configure proxy here
+      // This is a simplified example
+    }
+
+    // Add delay to be respectful
+    await this.delay(this.config.requestDelay);
+
+    return fetch(url, fetchOptions);
+  }
+
+  /**
+   * Fetch a page body as text, retrying transient failures
+   */
+  protected async fetchText(url: string): Promise<string> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+      try {
+        const response = await this.makeRequest(url);
+
+        if (!response.ok) {
+          throw new Error(`Request to ${url} failed with ${response.status}`);
+        }
+
+        return await response.text();
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+      }
+    }
+
+    throw lastError ?? new Error(`Request to ${url} failed`);
+  }
+
+  /**
+   * Fetch a page and load it into cheerio
+   */
+  protected async fetchDocument(url: string): Promise<CheerioAPI> {
+    return load(await this.fetchText(url));
+  }
+
+  /**
+   * Fetch and parse a JSON endpoint
+   */
+  protected async fetchJson(url: string): Promise<unknown> {
+    return JSON.parse(await this.fetchText(url));
+  }
+
+  /**
+   * Walk listing pages from `startUrl`, following the next-page link returned
+   * by `parsePage` until it runs out or `maxPages` is reached. Only a failure
+   * on the first page is fatal; later pages keep what was already collected.
+   * Pages are loaded with cheerio unless `fetchPage` is given.
+   */
+  protected async crawlListing<T, D = CheerioAPI>(
+    startUrl: string,
+    parsePage: (page: D, pageUrl: string) => ListingPage<T>,
+    fetchPage: (url: string) => Promise<D> = url =>
+      this.fetchDocument(url) as Promise<D>
+  ): Promise<T[]> {
+    const items: T[] = [];
+    const maxItems = this.config.maxItems ?? Infinity;
+    const visited = new Set<string>();
+    let pageUrl: string | undefined = startUrl;
+
+    while (
+      pageUrl &&
+      !visited.has(pageUrl) &&
+      visited.size < this.config.maxPages &&
+      items.length < maxItems
+    ) {
+      visited.add(pageUrl);
+
+      let document: D;
+      try {
+        document = await fetchPage(pageUrl);
+      } catch (error) {
+        if (pageUrl === startUrl) throw error;
+        console.warn(`Stopping pagination at ${pageUrl}:`, error);
+        break;
+      }
+
+      const page = parsePage(document, pageUrl);
+
+      items.push(...page.items.slice(0, maxItems - items.length));
+
+      // Stop on an empty page even if the site still renders a "next" link
+      pageUrl = page.items.length > 0 ? page.nextPageUrl : undefined;
+    }
+
+    return items;
+  }
+
+  /**
+   * Complete listing drafts from their detail pages. A failed detail request
+   * keeps the listing data rather than dropping the opportunity.
+   */
+  protected async enrichDrafts<D = CheerioAPI>(
+    drafts: OpportunityDraft[],
+    parseDetail: (
+      page: D,
+      draft: OpportunityDraft
+    ) => Partial<ScrapedOpportunity>,
+    fetchPage: (url: string) => Promise<D> = url =>
+      this.fetchDocument(url) as Promise<D>
+  ): Promise<OpportunityDraft[]> {
+    if (!this.config.fetchDetails) {
+      return drafts;
+    }
+
+    const enriched: OpportunityDraft[] = [];
+
+    for (const draft of drafts) {
+      try {
+        const page = await fetchPage(draft.externalUrl);
+        enriched.push(mergeDraft(draft, parseDetail(page, draft)));
+      } catch (error) {
+        console.warn(
+          `Failed to fetch details for ${draft.externalUrl}:`,
+          error instanceof Error ? error.message : error
+        );
+        enriched.push(draft);
+      }
+    }
+
+    return enriched;
+  }
+
+  /**
+   * Turn drafts into ScrapedOpportunity records, dropping any that are
+   * missing a title or deadline
+   */
+  protected finalizeDrafts(drafts: OpportunityDraft[]): ScrapedOpportunity[] {
+    const opportunities: ScrapedOpportunity[] = [];
+
+    for (const draft of drafts) {
+      if (!draft.title || !draft.applicationDeadline) {
+        continue;
+      }
+
+      opportunities.push({
+        title: draft.title,
+        description: draft.description || '',
+        type: draft.type || 'hackathon',
+        organizerName: draft.organizerName || 'Unknown',
+        organizerType: draft.organizerType || 'startup',
+        organizerLogo: draft.organizerLogo,
+        requiredSkills: draft.requiredSkills || [],
+        experienceRequired: draft.experienceRequired,
+        educationRequired: draft.educationRequired,
+        eligibilityCriteria: draft.eligibilityCriteria || [],
+        mode: draft.mode || 'online',
+        location: draft.location,
+        duration: draft.duration,
+        stipend: draft.stipend,
+        prizes: draft.prizes || [],
+        applicationDeadline: draft.applicationDeadline,
+        startDate: draft.startDate,
+        endDate: draft.endDate,
+        externalUrl: draft.externalUrl,
+        sourceUrl: draft.sourceUrl,
+        tags: draft.tags || [],
+        rawData: draft.rawData,
+      });
+    }
+
+    return opportunities;
+  }
+
+  /**
+   * Collect schema.org objects from every JSON-LD block on the page,
+   * flattening arrays and `@graph` containers
+   */
+  protected extractJsonLd($: CheerioAPI): any[] {
+    const nodes: any[] = [];
+
+    $('script[type="application/ld+json"]').each((_, element) => {
+      try {
+        const parsed = JSON.parse($(element).contents().text());
+        const queue = Array.isArray(parsed) ? [...parsed] : [parsed];
+
+        while (queue.length > 0) {
+          const node = queue.shift();
+          if (!node || typeof node !== 'object') continue;
+          if (Array.isArray(node['@graph'])) {
+            queue.push(...node['@graph']);
+          }
+          nodes.push(node);
+        }
+      } catch {
+        // Ignore malformed blocks, sites frequently ship broken JSON-LD
+      }
+    });
+
+    return nodes;
+  }
+
+  /**
+   * Find the value rendered next to a label, e.g. `<span>Duration</span>
+   * <span>3 Months</span>`, searching within `scope`
+   */
+  protected labelledValue(
+    $: CheerioAPI,
+    scope: string | Cheerio<any>,
+    label: string | RegExp
+  ): string {
+    let value = '';
+    const matcher =
+      typeof label === 'string'
+        ? (text: string) => text.toLowerCase() === label.toLowerCase()
+        : (text: string) => label.test(text);
+
+    $(scope)
+      .find('*')
+      .each((_, element) => {
+        const $element = $(element);
+        if (
+          $element.children().length > 1 ||
+          !matcher(cleanText($element.text()))
+        ) {
+          return true;
+        }
+
+        value =
+          cleanText($element.next().text()) ||
+          cleanText($element.parent().next().text());
+        return false;
+      });
+
+    return value;
+  }
+
+  protected getRandomUserAgent(): string {
+    return this.config.userAgents[
+      Math.floor(Math.random() * this.config.userAgents.length)
+    ];
+  }
+
+  protected getRandomProxy(): string | null {
+    if (this.config.proxies.length === 0) return null;
+    return this.config.proxies[
+      Math.floor(Math.random() * this.config.proxies.length)
+    ];
+  }
+
+  protected async delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Overlay detail-page fields on a listing draft, ignoring empty values so
+ * a sparse detail page cannot erase listing data
+ */
+export function mergeDraft(
+  draft: OpportunityDraft,
+  detail: Partial<ScrapedOpportunity>
+): OpportunityDraft {
+  const merged: OpportunityDraft = { ...draft };
+
+  for (const [key, value] of Object.entries(detail)) {
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+    (merged as any)[key] = value;
+  }
+
+  return merged;
+}
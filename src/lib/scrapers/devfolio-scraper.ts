@@ -0,0 +1,156 @@
+import type { CheerioAPI } from 'cheerio';
+import type { ScrapedOpportunity } from '../services/scraping.service';
+import type { ListingPage, OpportunityDraft } from './base-scraper';
+import { BaseScraper } from './base-scraper';
+import {
+  cleanText,
+  inferMode,
+  inferOrganizerType,
+  parseDate,
+  parseDateRange,
+  resolveUrl,
+  splitList,
+} from './parsing-utils';
+
+const SELECTORS = {
+  card: '[class*="HackathonCard__Wrapper"]',
+  cardLink: 'a[href*=".devfolio.co"]',
+  cardTitle: 'h3',
+  cardMeta: '[class*="HackathonCard__Meta"] p',
+  cardThemes: '[class*="HackathonCard__Themes"] span',
+  nextPage: 'a[rel="next"], link[rel="next"]',
+  description: '[class*="Overview__Description"]',
+  schedule: '[class*="Schedule"]',
+  organizer: '[class*="Organizer"]',
+  prize: '[class*="PrizeCard"]',
+  eligibility: '[class*="Eligibility"] li',
+  logo: '[class*="Organizer"] img',
+};
+
+/**
+ * Devfolio scraper
+ *
+ * Listing: devfolio.co/hackathons cards linking to <slug>.devfolio.co
+ * Detail: the hackathon's own subdomain with schedule, prizes and eligibility
+ */
+export class DevfolioScraper extends BaseScraper {
+  async scrape(url: string): Promise<ScrapedOpportunity[]> {
+    const drafts = await this.crawlListing(url, ($, pageUrl) =>
+      this.parseListingPage($, pageUrl)
+    );
+    const enriched = await this.enrichDrafts(drafts, ($, draft) =>
+      this.parseDetailPage($, draft)
+    );
+
+    return this.finalizeDrafts(enriched);
+  }
+
+  parseListingPage(
+    $: CheerioAPI,
+    pageUrl: string
+  ): ListingPage<OpportunityDraft> {
+    const items: OpportunityDraft[] = [];
+
+    $(SELECTORS.card).each((_, element) => {
+      const card = $(element);
+      const externalUrl = resolveUrl(
+        card.find(SELECTORS.cardLink).first().attr('href'),
+        pageUrl
+      );
+      const title = cleanText(card.find(SELECTORS.cardTitle).first().text());
+
+      if (!externalUrl || !title) return;
+
+      const meta = card
+        .find(SELECTORS.cardMeta)
+        .map((_, p) => cleanText($(p).text()))
+        .get();
+      const modeText = meta.find(text => /online|offline|hybrid/i.test(text));
+      const startText = meta.find(text => /^starts/i.test(text));
+      const themes = card
+        .find(SELECTORS.cardThemes)
+        .map((_, span) => cleanText($(span).text()))
+        .get()
+        .filter(Boolean);
+      const mode = inferMode(modeText);
+
+      items.push({
+        title,
+        type: 'hackathon',
+        mode,
+        location:
+          mode === 'online'
+            ? undefined
+            : meta.find(
+                text =>
+                  text !== modeText &&
+                  text !== startText &&
+                  !/open|closed/i.test(text)
+              ),
+        startDate: parseDate(startText?.replace(/^starts\s*/i, '')),
+        requiredSkills: themes,
+        tags: themes,
+        externalUrl,
+        sourceUrl: pageUrl,
+      });
+    });
+
+    return {
+      items,
+      nextPageUrl: resolveUrl($(SELECTORS.nextPage).attr('href'), pageUrl),
+    };
+  }
+
+  parseDetailPage(
+    $: CheerioAPI,
+    draft: OpportunityDraft
+  ): Partial<ScrapedOpportunity> {
+    const description =
+      cleanText($(SELECTORS.description).text()) ||
+      cleanText($('meta[property="og:description"]').attr('content'));
+    const deadline = parseDate(
+      this.labelledValue($, SELECTORS.schedule, /^applications close/i)
+    );
+    const runs = parseDateRange(
+      this.labelledValue($, SELECTORS.schedule, /^runs from/i)
+    );
+    const organizerName = this.labelledValue(
+      $,
+      SELECTORS.organizer,
+      /^hosted by/i
+    );
+    const venue = this.labelledValue($, SELECTORS.schedule, /^happening at/i);
+    const prizes = $(SELECTORS.prize)
+      .map((_, element) => {
+        const prize = $(element);
+        const name = cleanText(prize.find('h4').first().text());
+        const amount = cleanText(prize.find('p').first().text());
+        return [name, amount].filter(Boolean).join(': ');
+      })
+      .get()
+      .filter(Boolean);
+    const eligibility = $(SELECTORS.eligibility)
+      .map((_, li) => cleanText($(li).text()))
+      .get()
+      .filter(Boolean);
+
+    return {
+      description,
+      organizerName,
+      organizerType: organizerName
+        ? inferOrganizerType(organizerName)
+        : undefined,
+      organizerLogo: resolveUrl(
+        $(SELECTORS.logo).first().attr('src'),
+        draft.externalUrl
+      ),
+      applicationDeadline: deadline,
+      startDate: runs.start,
+      endDate: runs.end,
+      location: draft.mode === 'online' ? undefined : venue || undefined,
+      prizes,
+      eligibilityCriteria: eligibility,
+      tags: splitList([...(draft.tags || []), 'Hackathon'].join(',')),
+    };
+  }
+}
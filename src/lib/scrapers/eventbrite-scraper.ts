@@ -0,0 +1,79 @@
+import type { CheerioAPI } from 'cheerio';
+import type { ScrapedOpportunity } from '../services/scraping.service';
+import type { ListingPage, OpportunityDraft } from './base-scraper';
+import { BaseScraper } from './base-scraper';
+import { draftFromJsonLd, isOpportunityNode } from './json-ld';
+import { cleanText, resolveUrl, splitList } from './parsing-utils';
+
+const SELECTORS = {
+  nextPage: 'link[rel="next"], a[data-spec="page-next"]',
+  tags: '[data-testid="tag"], .tags-link',
+};
+
+/**
+ * Eventbrite scraper
+ *
+ * Eventbrite renders schema.org JSON-LD on both search and event pages, so
+ * the listing ItemList and the detail Event are read from structured data
+ * rather than from the (frequently changing) markup.
+ */
+export class EventbriteScraper extends BaseScraper {
+  async scrape(url: string): Promise<ScrapedOpportunity[]> {
+    const drafts = await this.crawlListing(url, ($, pageUrl) =>
+      this.parseListingPage($, pageUrl)
+    );
+    const enriched = await this.enrichDrafts(drafts, ($, draft) =>
+      this.parseDetailPage($, draft)
+    );
+
+    return this.finalizeDrafts(enriched);
+  }
+
+  parseListingPage(
+    $: CheerioAPI,
+    pageUrl: string
+  ): ListingPage<OpportunityDraft> {
+    const items: OpportunityDraft[] = [];
+
+    for (const node of this.extractJsonLd($)) {
+      if (node['@type'] !== 'ItemList') continue;
+
+      for (const entry of node.itemListElement || []) {
+        const event = entry?.item ?? entry;
+        const draft = draftFromJsonLd(event, pageUrl);
+        if (draft) {
+          items.push({ ...draft, sourceUrl: pageUrl });
+        }
+      }
+    }
+
+    return {
+      items,
+      nextPageUrl: resolveUrl($(SELECTORS.nextPage).attr('href'), pageUrl),
+    };
+  }
+
+  parseDetailPage(
+    $: CheerioAPI,
+    draft: OpportunityDraft
+  ): Partial<ScrapedOpportunity> {
+    const event = this.extractJsonLd($).find(isOpportunityNode);
+    const detail = event ? draftFromJsonLd(event, draft.externalUrl) : null;
+    const tags = $(SELECTORS.tags)
+      .map((_, tag) => cleanText($(tag).text()).replace(/^#/, ''))
+      .get()
+      .filter(Boolean);
+
+    if (!detail) {
+      return { tags };
+    }
+
+    return {
+      ...detail,
+      // Keep the canonical listing URL; detail pages often add tracking params
+      externalUrl: draft.externalUrl,
+      sourceUrl: draft.sourceUrl,
+      tags: splitList([...(draft.tags || []), ...tags].join(',')),
+    };
+  }
+}
@@ -0,0 +1,201 @@
+import type { CheerioAPI } from 'cheerio';
+import type {
+  ScrapedOpportunity,
+  ScrapingConfig,
+} from '../services/scraping.service';
+import type { ListingPage, OpportunityDraft } from './base-scraper';
+import { BaseScraper } from './base-scraper';
+import { draftFromJsonLd } from './json-ld';
+import { resolveUrl } from './parsing-utils';
+import type { ScraperSpec } from './scraper-spec';
+import {
+  applyDefaults,
+  extractHtmlFields,
+  extractJsonFields,
+  selectJsonPath,
+} from './scraper-spec';
+
+/**
+ * Generic scraper for unknown sources
+ *
+ * With a ScraperSpec it executes the spec's selectors, field mappings and
+ * pagination rules. Without one it reads schema.org Event/Hackathon/JobPosting
+ * JSON-LD, which most event platforms and job boards publish for search
+ * engines, and follows rel="next" pagination.
+ */
+export class GenericScraper extends BaseScraper {
+  private spec?: ScraperSpec;
+
+  constructor(config: ScrapingConfig, spec?: ScraperSpec) {
+    super(
+      spec?.pagination?.maxPages
+        ? { ...config, maxPages: spec.pagination.maxPages }
+        : config
+    );
+    this.spec = spec;
+  }
+
+  async scrape(url: string): Promise<ScrapedOpportunity[]> {
+    if (this.spec) {
+      return this.scrapeWithSpec(url, this.spec);
+    }
+
+    const drafts = await this.crawlListing(url, ($, pageUrl) =>
+      this.parseListingPage($, pageUrl)
+    );
+
+    return this.finalizeDrafts(drafts);
+  }
+
+  parseListingPage(
+    $: CheerioAPI,
+    pageUrl: string
+  ): ListingPage<OpportunityDraft> {
+    const items: OpportunityDraft[] = [];
+
+    for (const node of this.extractJsonLd($)) {
+      const entries =
+        node['@type'] === 'ItemList'
+          ? (node.itemListElement || []).map(
+              (entry: any) => entry?.item ?? entry
+            )
+          : [node];
+
+      for (const entry of entries) {
+        const draft = draftFromJsonLd(entry, pageUrl);
+        if (draft) items.push(draft);
+      }
+    }
+
+    return {
+      items,
+      nextPageUrl: resolveUrl(
+        $('link[rel="next"], a[rel="next"]').attr('href'),
+        pageUrl
+      ),
+    };
+  }
+
+  private async scrapeWithSpec(
+    url: string,
+    spec: ScraperSpec
+  ): Promise<ScrapedOpportunity[]> {
+    let drafts: OpportunityDraft[];
+
+    if (spec.format === 'json') {
+      drafts = await this.crawlListing(
+        url,
+        (data: unknown, pageUrl) => this.parseJsonListing(data, pageUrl, spec),
+        pageUrl => this.fetchJson(pageUrl)
+      );
+    } else {
+      drafts = await this.crawlListing(url, ($, pageUrl) =>
+        this.parseHtmlListing($, pageUrl, spec)
+      );
+    }
+
+    if (spec.detail) {
+      const { detail } = spec;
+
+      drafts =
+        (detail.format ?? spec.format) === 'json'
+          ? await this.enrichDrafts(
+              drafts,
+              (data: unknown, draft) =>
+                extractJsonFields(data, detail.fields, draft.externalUrl),
+              detailUrl => this.fetchJson(detailUrl)
+            )
+          : await this.enrichDrafts(drafts, ($, draft) =>
+              extractHtmlFields($, $.root(), detail.fields, draft.externalUrl)
+            );
+    }
+
+    return this.finalizeDrafts(
+      drafts.map(draft => applyDefaults(draft, spec.defaults))
+    );
+  }
+
+  private parseHtmlListing(
+    $: CheerioAPI,
+    pageUrl: string,
+    spec: ScraperSpec
+  ): ListingPage<OpportunityDraft> {
+    const items = $(spec.listing.items)
+      .toArray()
+      .map(element =>
+        this.toDraft(
+          extractHtmlFields($, $(element), spec.listing.fields, pageUrl),
+          pageUrl
+        )
+      );
+
+    const nextHref = spec.pagination?.nextSelector
+      ? $(spec.pagination.nextSelector).first().attr('href')
+      : undefined;
+
+    return {
+      items,
+      nextPageUrl: nextHref
+        ? resolveUrl(nextHref, pageUrl)
+        : this.nextPageFromParam(pageUrl, spec),
+    };
+  }
+
+  private parseJsonListing(
+    data: unknown,
+    pageUrl: string,
+    spec: ScraperSpec
+  ): ListingPage<OpportunityDraft> {
+    const items = selectJsonPath(data, spec.listing.items)
+      .flatMap(value => (Array.isArray(value) ? value : [value]))
+      .map(item =>
+        this.toDraft(
+          extractJsonFields(item, spec.listing.fields, pageUrl),
+          pageUrl
+        )
+      );
+
+    const nextHref = spec.pagination?.nextPath
+      ? selectJsonPath(data, spec.pagination.nextPath)[0]
+      : undefined;
+
+    return {
+      items,
+      nextPageUrl:
+        typeof nextHref === 'string' && nextHref
+          ? resolveUrl(nextHref, pageUrl)
+          : this.nextPageFromParam(pageUrl, spec),
+    };
+  }
+
+  private toDraft(
+    fields: Partial<ScrapedOpportunity>,
+    pageUrl: string
+  ): OpportunityDraft {
+    return {
+      ...fields,
+      // Items without their own link point at the listing page
+      externalUrl: fields.externalUrl || pageUrl,
+      sourceUrl: pageUrl,
+    };
+  }
+
+  /**
+   * Increment the configured page query parameter, e.g. ?page=2 -> ?page=3
+   */
+  private nextPageFromParam(
+    pageUrl: string,
+    spec: ScraperSpec
+  ): string | undefined {
+    const param = spec.pagination?.pageParam;
+    if (!param) return undefined;
+
+    const next = new URL(pageUrl);
+    const current = parseInt(
+      next.searchParams.get(param) ?? String(spec.pagination!.startPage)
+    );
+    next.searchParams.set(param, String(current + 1));
+
+    return next.toString();
+  }
+}
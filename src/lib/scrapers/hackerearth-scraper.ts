@@ -0,0 +1,151 @@
+import type { CheerioAPI } from 'cheerio';
+import type { ScrapedOpportunity } from '../services/scraping.service';
+import type { ListingPage, OpportunityDraft } from './base-scraper';
+import { BaseScraper } from './base-scraper';
+import {
+  cleanText,
+  inferOrganizerType,
+  parseDate,
+  resolveUrl,
+} from './parsing-utils';
+
+const SELECTORS = {
+  card: '.challenge-card-modern',
+  cardLink: 'a.challenge-card-link, a.challenge-card-wrapper',
+  cardTitle: '.challenge-list-title',
+  cardType: '.challenge-type',
+  cardCompany: '.company-details',
+  cardDate: '.date',
+  nextPage: 'a[rel="next"], link[rel="next"]',
+  timing: '.event-details',
+  overview: '#overview .content',
+  themes: '.themes .theme-title',
+  prize: '.prizes-section .prize',
+  eligibility: '.eligibility li',
+  companyName: '.event-details .company-name',
+  logo: '.event-details .company-logo img',
+};
+
+/**
+ * HackerEarth scraper
+ *
+ * Listing: hackerearth.com/challenges/hackathon/ challenge cards
+ * Detail: the challenge page with timings, themes and prizes
+ */
+export class HackerEarthScraper extends BaseScraper {
+  async scrape(url: string): Promise<ScrapedOpportunity[]> {
+    const drafts = await this.crawlListing(url, ($, pageUrl) =>
+      this.parseListingPage($, pageUrl)
+    );
+    const enriched = await this.enrichDrafts(drafts, ($, draft) =>
+      this.parseDetailPage($, draft)
+    );
+
+    return this.finalizeDrafts(enriched);
+  }
+
+  parseListingPage(
+    $: CheerioAPI,
+    pageUrl: string
+  ): ListingPage<OpportunityDraft> {
+    const items: OpportunityDraft[] = [];
+
+    $(SELECTORS.card).each((_, element) => {
+      const card = $(element);
+      const externalUrl = resolveUrl(
+        card.find(SELECTORS.cardLink).first().attr('href'),
+        pageUrl
+      );
+      const title = cleanText(card.find(SELECTORS.cardTitle).first().text());
+
+      if (!externalUrl || !title) return;
+
+      const organizerName = cleanText(
+        card.find(SELECTORS.cardCompany).first().text()
+      );
+      const challengeType = cleanText(
+        card.find(SELECTORS.cardType).first().text()
+      );
+      const dateText = cleanText(card.find(SELECTORS.cardDate).first().text());
+      const endsOn = /ends on/i.test(dateText)
+        ? parseDate(dateText.replace(/^.*ends on:?/i, ''))
+        : undefined;
+
+      items.push({
+        title,
+        type: /hackathon/i.test(challengeType) ? 'hackathon' : 'workshop',
+        organizerName: organizerName || undefined,
+        organizerType: organizerName
+          ? inferOrganizerType(organizerName)
+          : undefined,
+        // HackerEarth challenges are run on the platform itself
+        mode: 'online',
+        applicationDeadline: endsOn,
+        endDate: endsOn,
+        tags: challengeType ? [challengeType] : [],
+        externalUrl,
+        sourceUrl: pageUrl,
+      });
+    });
+
+    return {
+      items,
+      nextPageUrl: resolveUrl($(SELECTORS.nextPage).attr('href'), pageUrl),
+    };
+  }
+
+  parseDetailPage(
+    $: CheerioAPI,
+    draft: OpportunityDraft
+  ): Partial<ScrapedOpportunity> {
+    const startDate = parseDate(
+      this.labelledValue($, SELECTORS.timing, /^starts on:?$/i)
+    );
+    const endDate = parseDate(
+      this.labelledValue($, SELECTORS.timing, /^ends on:?$/i)
+    );
+    const registrationCloses = parseDate(
+      this.labelledValue(
+        $,
+        SELECTORS.timing,
+        /^registrations? close[sd]? on:?$/i
+      )
+    );
+    const themes = $(SELECTORS.themes)
+      .map((_, theme) => cleanText($(theme).text()))
+      .get()
+      .filter(Boolean);
+    const prizes = $(SELECTORS.prize)
+      .map((_, element) => {
+        const prize = $(element);
+        const name = cleanText(prize.find('.prize-title').text());
+        const amount = cleanText(prize.find('.prize-amount').text());
+        return [name, amount].filter(Boolean).join(': ');
+      })
+      .get()
+      .filter(Boolean);
+    const organizerName = cleanText($(SELECTORS.companyName).first().text());
+
+    return {
+      description: cleanText($(SELECTORS.overview).first().text()),
+      organizerName,
+      organizerType: organizerName
+        ? inferOrganizerType(organizerName)
+        : undefined,
+      organizerLogo: resolveUrl(
+        $(SELECTORS.logo).first().attr('src'),
+        draft.externalUrl
+      ),
+      startDate,
+      endDate,
+      applicationDeadline: registrationCloses || endDate,
+      requiredSkills: themes,
+      prizes,
+      eligibilityCriteria: $(SELECTORS.eligibility)
+        .map((_, li) => cleanText($(li).text()))
+        .get()
+        .filter(Boolean),
+      tags: Array.from(new Set([...(draft.tags || []), ...themes])),
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import type { CheerioAPI } from 'cheerio';
+import type { ScrapedOpportunity } from '../services/scraping.service';
+import type { ListingPage, OpportunityDraft } from './base-scraper';
+import { BaseScraper } from './base-scraper';
+import {
+  cleanText,
+  inferMode,
+  inferOrganizerType,
+  parseDate,
+  resolveUrl,
+} from './parsing-utils';
+
+const SELECTORS = {
+  card: '.individual_internship',
+  cardLink: '.job-internship-name a, a.job-title-href',
+  cardTitle: '.job-internship-name',
+  cardCompany: '.company-name',
+  cardLocations: '#location_names a, .locations a',
+  cardDetails: '.internship_other_details_container',
+  nextPage: '#navigation-forward:not(.disabled), link[rel="next"]',
+  detail: '.internship_details',
+  aboutHeading: '.section_heading',
+  skills: '.skills_heading + .round_tabs_container .round_tabs',
+  whoCanApply: '.who_can_apply',
+  logo: '.internship_logo img',
+};
+
+/**
+ * Internshala scraper
+ *
+ * Listing: internshala.com/internships/ cards, paginated as /page-N/
+ * Detail: /internship/detail/<slug> with skills and eligibility
+ */
+export class IntershalaScraper extends BaseScraper {
+  async scrape(url: string): Promise<ScrapedOpportunity[]> {
+    const drafts = await this.crawlListing(url, ($, pageUrl) =>
+      this.parseListingPage($, pageUrl)
+    );
+    const enriched = await this.enrichDrafts(drafts, ($, draft) =>
+      this.parseDetailPage($, draft)
+    );
+
+    return this.finalizeDrafts(enriched);
+  }
+
+  parseListingPage(
+    $: CheerioAPI,
+    pageUrl: string
+  ): ListingPage<OpportunityDraft> {
+    const items: OpportunityDraft[] = [];
+
+    $(SELECTORS.card).each((_, element) => {
+      const card = $(element);
+      const externalUrl = resolveUrl(
+        card.attr('data-href') ||
+          card.find(SELECTORS.cardLink).first().attr('href'),
+        pageUrl
+      );
+      const title = cleanText(card.find(SELECTORS.cardTitle).first().text());
+
+      if (!externalUrl || !title) return;
+
+      const organizerName = cleanText(
+        card.find(SELECTORS.cardCompany).first().text()
+      );
+      const locations = card
+        .find(SELECTORS.cardLocations)
+        .map((_, a) => cleanText($(a).text()))
+        .get()
+        .filter(Boolean);
+      const mode = inferMode(locations.join(' '));
+      const details = (label: string) =>
+        this.labelledValue($, card.find(SELECTORS.cardDetails), label);
+      const startText = details('Start Date');
+
+      items.push({
+        title,
+        type: 'internship',
+        organizerName,
+        organizerType: inferOrganizerType(organizerName),
+        mode,
+        location:
+          mode === 'online'
+            ? undefined
+            : locations.filter(l => !/work from home/i.test(l)).join(', '),
+        duration: details('Duration') || undefined,
+        stipend: details('Stipend') || undefined,
+        // "Immediately" is the common start date and carries no date
+        startDate: parseDate(startText),
+        applicationDeadline: parseDate(details('Apply By')),
+        tags: ['Internship', title],
+        externalUrl,
+        sourceUrl: pageUrl,
+      });
+    });
+
+    return {
+      items,
+      nextPageUrl: resolveUrl($(SELECTORS.nextPage).attr('href'), pageUrl),
+    };
+  }
+
+  parseDetailPage(
+    $: CheerioAPI,
+    draft: OpportunityDraft
+  ): Partial<ScrapedOpportunity> {
+    const detail = $(SELECTORS.detail);
+    const aboutHeading = detail
+      .find(SELECTORS.aboutHeading)
+      .filter((_, h) => /about the (internship|work)/i.test($(h).text()))
+      .first();
+    const description = cleanText(
+      aboutHeading.nextAll('.text-container').first().text()
+    );
+    const skills = detail
+      .find(SELECTORS.skills)
+      .map((_, tab) => cleanText($(tab).text()))
+      .get()
+      .filter(Boolean);
+    const eligibility = detail
+      .find(`${SELECTORS.whoCanApply} p, ${SELECTORS.whoCanApply} li`)
+      .map((_, line) => cleanText($(line).text()).replace(/^\d+\.\s*/, ''))
+      .get()
+      .filter(line => line && !/^only those candidates/i.test(line));
+
+    return {
+      description,
+      requiredSkills: skills,
+      eligibilityCriteria: eligibility,
+      applicationDeadline:
+        parseDate(this.labelledValue($, SELECTORS.detail, 'Apply By')) ||
+        draft.applicationDeadline,
+      organizerLogo: resolveUrl(
+        $(SELECTORS.logo).first().attr('src'),
+        draft.externalUrl
+      ),
+      tags: Array.from(new Set([...(draft.tags || []), ...skills])),
+    };
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Mapping of schema.org JSON-LD nodes (Event, Hackathon, JobPosting) onto
+ * opportunity drafts
+ */
+
+import { load } from 'cheerio';
+import type { ScrapedOpportunity } from '../services/scraping.service';
+import type { OpportunityDraft } from './base-scraper';
+import {
+  cleanText,
+  inferMode,
+  inferOrganizerType,
+  parseDate,
+  resolveUrl,
+  splitList,
+} from './parsing-utils';
+
+const EVENT_TYPES = ['Event', 'Hackathon', 'EducationEvent', 'BusinessEvent'];
+
+/**
+ * Whether a JSON-LD node describes something we can turn into an opportunity
+ */
+export function isOpportunityNode(node: any): boolean {
+  const types = ([] as string[]).concat(node?.['@type'] || []);
+  return types.some(t => t === 'JobPosting' || EVENT_TYPES.includes(t));
+}
+
+/**
+ * Map a schema.org Event or JobPosting node onto an opportunity draft
+ */
+export function draftFromJsonLd(
+  node: any,
+  pageUrl: string
+): OpportunityDraft | null {
+  if (!isOpportunityNode(node)) return null;
+
+  const types = ([] as string[]).concat(node['@type']);
+  const externalUrl = resolveUrl(node.url, pageUrl) || pageUrl;
+  const title = cleanText(node.name || node.title);
+
+  if (!title) return null;
+
+  const description = htmlToText(node.description);
+
+  if (types.includes('JobPosting')) {
+    const organizerName = cleanText(node.hiringOrganization?.name);
+    const remote =
+      node.jobLocationType === 'TELECOMMUTE' ||
+      /remote/i.test(JSON.stringify(node.jobLocation || ''));
+    const employment = ([] as string[])
+      .concat(node.employmentType || [])
+      .join(' ');
+
+    return {
+      title,
+      description,
+      type: /intern/i.test(`${employment} ${title}`)
+        ? 'internship'
+        : 'workshop',
+      organizerName: organizerName || undefined,
+      organizerType: inferOrganizerType(organizerName),
+      organizerLogo: node.hiringOrganization?.logo,
+      requiredSkills: splitList(
+        ([] as string[]).concat(node.skills || []).join(',')
+      ),
+      experienceRequired: cleanText(node.experienceRequirements) || undefined,
+      educationRequired:
+        cleanText(
+          node.educationRequirements?.credentialCategory ||
+            node.educationRequirements
+        ) || undefined,
+      mode: remote ? 'online' : 'offline',
+      location: remote ? undefined : locationName(node.jobLocation),
+      stipend: salaryText(node.baseSalary),
+      applicationDeadline: parseDate(node.validThrough),
+      startDate: parseDate(node.jobStartDate),
+      externalUrl,
+      sourceUrl: pageUrl,
+      tags: splitList(node.occupationalCategory || node.industry),
+      rawData: node,
+    };
+  }
+
+  const organizer = Array.isArray(node.organizer)
+    ? node.organizer[0]
+    : node.organizer;
+  const organizerName = cleanText(organizer?.name);
+  const offers = Array.isArray(node.offers) ? node.offers[0] : node.offers;
+  const startDate = parseDate(node.startDate);
+  const online =
+    /Online/.test(node.eventAttendanceMode || '') ||
+    node.location?.['@type'] === 'VirtualLocation';
+  const mixed = /Mixed/.test(node.eventAttendanceMode || '');
+
+  return {
+    title,
+    description,
+    type:
+      types.includes('Hackathon') || /hackathon/i.test(title)
+        ? 'hackathon'
+        : 'workshop',
+    organizerName: organizerName || undefined,
+    organizerType: inferOrganizerType(organizerName),
+    organizerLogo: typeof node.image === 'string' ? node.image : undefined,
+    mode: mixed ? 'hybrid' : online ? 'online' : inferMode(node.location?.name),
+    location: online ? undefined : locationName(node.location),
+    // Events rarely publish a registration deadline; registration closes when
+    // ticket sales end or, failing that, when the event starts
+    applicationDeadline: parseDate(offers?.validThrough) || startDate,
+    startDate,
+    endDate: parseDate(node.endDate),
+    prizes: [],
+    externalUrl,
+    sourceUrl: pageUrl,
+    tags: splitList(
+      ([] as string[]).concat(node.keywords || node.about || []).join(',')
+    ),
+    rawData: node,
+  };
+}
+
+function locationName(location: any): string | undefined {
+  const place = Array.isArray(location) ? location[0] : location;
+  if (!place) return undefined;
+  if (typeof place === 'string') return cleanText(place) || undefined;
+
+  const { address } = place;
+  if (typeof address === 'string') return cleanText(address) || undefined;
+
+  return (
+    cleanText(address?.addressLocality || address?.addressRegion) ||
+    cleanText(place.name) ||
+    undefined
+  );
+}
+
+function salaryText(salary: any): ScrapedOpportunity['stipend'] {
+  if (!salary) return undefined;
+  if (typeof salary !== 'object') return cleanText(String(salary)) || undefined;
+
+  const { value } = salary;
+  const currency = salary.currency === 'INR' ? '₹' : `${salary.currency} `;
+  const unit = value?.unitText
+    ? `/${String(value.unitText).toLowerCase()}`
+    : '';
+
+  if (value?.minValue && value?.maxValue) {
+    return `${currency}${value.minValue}-${value.maxValue}${unit}`;
+  }
+  const amount = value?.value ?? value;
+  return typeof amount === 'number' || typeof amount === 'string'
+    ? `${currency}${amount}${unit}`
+    : undefined;
+}
+
+function htmlToText(html: string | undefined): string {
+  if (!html) return '';
+  return cleanText(load(html).text());
+}
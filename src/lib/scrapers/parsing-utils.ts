@@ -0,0 +1,296 @@
+/**
+ * Parsing helpers shared by the source scrapers
+ *
+ * Listing and detail pages express dates, money and locations as free text in
+ * a handful of regional formats; these helpers normalise them into the shapes
+ * expected by ScrapedOpportunity.
+ */
+
+import type { ScrapedOpportunity } from '../services/scraping.service';
+
+const MONTHS: Record<string, number> = {
+  jan: 0,
+  feb: 1,
+  mar: 2,
+  apr: 3,
+  may: 4,
+  jun: 5,
+  jul: 6,
+  aug: 7,
+  sep: 8,
+  sept: 8,
+  oct: 9,
+  nov: 10,
+  dec: 11,
+};
+
+const MONTH_NAMES = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+/**
+ * Collapse whitespace and trim text extracted from HTML
+ */
+export function cleanText(text: string | undefined | null): string {
+  if (!text) return '';
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse a human readable date such as "12 Mar' 25", "Mar 12, 2025",
+ * "12/03/2025" or an ISO timestamp. Two-digit years are treated as 20xx and
+ * dates without a year roll forward to the next occurrence after `reference`.
+ */
+export function parseDate(
+  text: string | undefined | null,
+  reference: Date = new Date()
+): Date | undefined {
+  const value = cleanText(text)
+    .replace(/(\d+)(st|nd|rd|th)\b/gi, '$1')
+    .replace(/[’']/g, ' ');
+  if (!value) return undefined;
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const iso = new Date(value);
+    return isNaN(iso.getTime()) ? undefined : iso;
+  }
+
+  const numeric = value.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})\b/);
+  if (numeric) {
+    return buildDate(
+      parseInt(numeric[3]),
+      parseInt(numeric[2]) - 1,
+      parseInt(numeric[1])
+    );
+  }
+
+  // "12 Mar 2025" / "12 March, 25"
+  const dayFirst = value.match(
+    /\b(\d{1,2})\s+([a-z]{3,9})\.?,?(?:\s+(\d{2,4}))?\b/i
+  );
+  if (dayFirst && monthIndex(dayFirst[2]) !== undefined) {
+    return resolveYear(
+      parseInt(dayFirst[1]),
+      monthIndex(dayFirst[2])!,
+      dayFirst[3],
+      reference
+    );
+  }
+
+  // "Mar 12, 2025" / "March 12"
+  const monthFirst = value.match(
+    /\b([a-z]{3,9})\.?\s+(\d{1,2}),?(?:\s+(\d{2,4}))?\b/i
+  );
+  if (monthFirst && monthIndex(monthFirst[1]) !== undefined) {
+    return resolveYear(
+      parseInt(monthFirst[2]),
+      monthIndex(monthFirst[1])!,
+      monthFirst[3],
+      reference
+    );
+  }
+
+  const fallback = new Date(value);
+  return isNaN(fallback.getTime()) ? undefined : fallback;
+}
+
+/**
+ * Parse a date range such as "Mar 12 - 14, 2025" or "12 Mar - 2 Apr 2025"
+ */
+export function parseDateRange(
+  text: string | undefined | null,
+  reference: Date = new Date()
+): { start?: Date; end?: Date } {
+  const value = cleanText(text);
+  if (!value) return {};
+
+  const parts = value.split(/\s+(?:-|–|to)\s+/i);
+  if (parts.length < 2) {
+    return { start: parseDate(value, reference) };
+  }
+
+  const [startText, endText] = parts;
+  const yearSuffix = endText.match(/\b(\d{4})\b/)?.[1];
+  let start = parseDate(
+    yearSuffix && !/\d{4}/.test(startText)
+      ? `${startText} ${yearSuffix}`
+      : startText,
+    reference
+  );
+
+  // "Mar 12 - 14, 2025": the end part only carries a day number
+  if (start && /^\d{1,2}(,?\s*\d{4})?$/.test(endText)) {
+    return {
+      start,
+      end: buildDate(
+        start.getUTCFullYear(),
+        start.getUTCMonth(),
+        parseInt(endText)
+      ),
+    };
+  }
+
+  const end = parseDate(endText, reference);
+
+  if (start && end && start > end) {
+    start = buildDate(
+      end.getUTCFullYear() - 1,
+      start.getUTCMonth(),
+      start.getUTCDate()
+    );
+  }
+
+  return { start, end };
+}
+
+/**
+ * Extract the largest rupee/dollar amount mentioned in a string,
+ * understanding the Indian "lakh"/"L" and "k" shorthands
+ */
+export function parseAmount(text: string | undefined | null): number | null {
+  const amounts = parseAmounts(text);
+  return amounts.length > 0 ? Math.max(...amounts) : null;
+}
+
+/**
+ * Extract every amount mentioned in a string, in order of appearance, with
+ * the same shorthand handling as parseAmount ("2.5 LPA" is 250000)
+ */
+export function parseAmounts(text: string | undefined | null): number[] {
+  const value = cleanText(text).toLowerCase();
+  if (!value) return [];
+
+  const matches = value.matchAll(
+    /(\d[\d,]*(?:\.\d+)?)\s*(lakhs?|lacs?|lpa\b|l\b|k\b|cr\b|crores?)?/g
+  );
+  const amounts: number[] = [];
+
+  for (const match of matches) {
+    let amount = parseFloat(match[1].replace(/,/g, ''));
+    if (isNaN(amount)) continue;
+
+    const unit = match[2];
+    if (unit?.startsWith('l')) amount *= 100000;
+    else if (unit === 'k') amount *= 1000;
+    else if (unit?.startsWith('cr')) amount *= 10000000;
+
+    amounts.push(amount);
+  }
+
+  return amounts;
+}
+
+/**
+ * Split a comma/pipe/bullet separated list into unique trimmed entries.
+ * Commas inside numbers ("₹3,00,000") are not treated as separators.
+ */
+export function splitList(text: string | undefined | null): string[] {
+  const seen = new Set<string>();
+  const items: string[] = [];
+
+  for (const raw of cleanText(text).split(/[|•;\n]|,(?!\d)/)) {
+    const item = cleanText(raw);
+    const key = item.toLowerCase();
+    if (item && !seen.has(key)) {
+      seen.add(key);
+      items.push(item);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Infer the delivery mode from free text such as "Work From Home"
+ */
+export function inferMode(
+  text: string | undefined | null
+): ScrapedOpportunity['mode'] {
+  const value = cleanText(text).toLowerCase();
+  if (/hybrid/.test(value)) return 'hybrid';
+  if (/online|virtual|remote|work from home|wfh/.test(value)) return 'online';
+  return 'offline';
+}
+
+/**
+ * Infer the organizer category from its name
+ */
+export function inferOrganizerType(
+  name: string | undefined | null
+): ScrapedOpportunity['organizerType'] {
+  const value = cleanText(name).toLowerCase();
+  if (
+    /\b(iit|nit|iiit|bits|university|college|institute|school|academy)\b/.test(
+      value
+    )
+  ) {
+    return 'academic';
+  }
+  if (
+    /\b(government|govt|ministry|niti|isro|drdo|department|municipal|aicte|mygov)\b/.test(
+      value
+    )
+  ) {
+    return 'government';
+  }
+  if (
+    /\b(ltd|limited|inc|corp|corporation|technologies|bank|group)\b/.test(value)
+  ) {
+    return 'corporate';
+  }
+  return 'startup';
+}
+
+/**
+ * Resolve a possibly relative href against the page it was found on
+ */
+export function resolveUrl(
+  href: string | undefined | null,
+  base: string
+): string | undefined {
+  if (!href) return undefined;
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function monthIndex(name: string): number | undefined {
+  const key = name.toLowerCase();
+  if (key in MONTHS) return MONTHS[key];
+  const full = MONTH_NAMES.indexOf(key);
+  return full === -1 ? undefined : full;
+}
+
+function buildDate(year: number, month: number, day: number): Date {
+  const fullYear = year < 100 ? 2000 + year : year;
+  return new Date(Date.UTC(fullYear, month, day, 23, 59, 59));
+}
+
+function resolveYear(
+  day: number,
+  month: number,
+  yearText: string | undefined,
+  reference: Date
+): Date {
+  if (yearText) {
+    return buildDate(parseInt(yearText), month, day);
+  }
+
+  const candidate = buildDate(reference.getUTCFullYear(), month, day);
+  return candidate < reference
+    ? buildDate(reference.getUTCFullYear() + 1, month, day)
+    : candidate;
+}
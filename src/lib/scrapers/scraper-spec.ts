@@ -0,0 +1,344 @@
+/**
+ * Declarative scraper specifications
+ *
+ * A spec is stored as JSON on the Source row and executed by GenericScraper,
+ * so new sources can be onboarded without a code deploy. It describes where
+ * the listing items are (CSS selector or JSON path), how each field maps onto
+ * ScrapedOpportunity, how to paginate and, optionally, which fields to read
+ * from each item's detail page.
+ *
+ * Field rules are either a shorthand string or an object:
+ *   "h3"                    text of the first match (HTML)
+ *   "a.title@href"          attribute of the first match (HTML)
+ *   "$.organizer.name"      JSON path relative to the item (JSON)
+ *   { selector, attr, path, all, pattern, value }
+ *
+ * Values are coerced by target field: dates are parsed, list fields are split,
+ * URLs are resolved against the page and enum fields are inferred from text.
+ */
+
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { z } from 'zod';
+import type { ScrapedOpportunity } from '../services/scraping.service';
+import type { OpportunityDraft } from './base-scraper';
+import {
+  cleanText,
+  inferMode,
+  inferOrganizerType,
+  parseDate,
+  resolveUrl,
+  splitList,
+} from './parsing-utils';
+
+export const SPEC_FIELDS = [
+  'title',
+  'description',
+  'type',
+  'organizerName',
+  'organizerType',
+  'organizerLogo',
+  'requiredSkills',
+  'experienceRequired',
+  'educationRequired',
+  'eligibilityCriteria',
+  'mode',
+  'location',
+  'duration',
+  'stipend',
+  'prizes',
+  'applicationDeadline',
+  'startDate',
+  'endDate',
+  'externalUrl',
+  'tags',
+] as const;
+
+export type SpecField = (typeof SPEC_FIELDS)[number];
+
+const DATE_FIELDS: SpecField[] = [
+  'applicationDeadline',
+  'startDate',
+  'endDate',
+];
+const LIST_FIELDS: SpecField[] = [
+  'requiredSkills',
+  'eligibilityCriteria',
+  'prizes',
+  'tags',
+];
+const URL_FIELDS: SpecField[] = ['externalUrl', 'organizerLogo'];
+
+const fieldRuleSchema = z.union([
+  z.string().min(1),
+  z
+    .object({
+      selector: z.string().min(1).optional(),
+      attr: z.string().min(1).optional(),
+      path: z.string().startsWith('$').optional(),
+      all: z.boolean().optional(),
+      pattern: z.string().optional(),
+      value: z.string().optional(),
+    })
+    .refine(rule => rule.selector || rule.path || rule.value !== undefined, {
+      message: 'A field rule needs a selector, path or value',
+    }),
+]);
+
+const fieldMapSchema = z
+  .record(z.enum(SPEC_FIELDS), fieldRuleSchema)
+  .refine(fields => Object.keys(fields).length > 0, {
+    message: 'At least one field mapping is required',
+  });
+
+export const scraperSpecSchema = z
+  .object({
+    format: z.enum(['html', 'json']).default('html'),
+    listing: z.object({
+      items: z.string().min(1),
+      fields: fieldMapSchema,
+    }),
+    pagination: z
+      .object({
+        nextSelector: z.string().min(1).optional(),
+        nextPath: z.string().startsWith('$').optional(),
+        pageParam: z.string().min(1).optional(),
+        startPage: z.number().int().min(0).default(1),
+        maxPages: z.number().int().min(1).max(50).optional(),
+      })
+      .optional(),
+    detail: z
+      .object({
+        format: z.enum(['html', 'json']).optional(),
+        fields: fieldMapSchema,
+      })
+      .optional(),
+    defaults: z
+      .object({
+        type: z.enum(['hackathon', 'internship', 'workshop']).optional(),
+        organizerName: z.string().optional(),
+        organizerType: z
+          .enum(['corporate', 'startup', 'government', 'academic'])
+          .optional(),
+        mode: z.enum(['online', 'offline', 'hybrid']).optional(),
+        location: z.string().optional(),
+        tags: z.array(z.string()).optional(),
+      })
+      .optional(),
+  })
+  .refine(spec => spec.listing.fields.title, {
+    message: 'listing.fields.title is required',
+    path: ['listing', 'fields', 'title'],
+  });
+
+export type ScraperSpec = z.infer<typeof scraperSpecSchema>;
+export type FieldRule = z.infer<typeof fieldRuleSchema>;
+export type FieldMap = Partial<Record<SpecField, FieldRule>>;
+
+/**
+ * Validate an untrusted spec (e.g. a Source row or admin request body)
+ */
+export function parseScraperSpec(
+  input: unknown
+): { success: true; spec: ScraperSpec } | { success: false; error: string } {
+  const result = scraperSpecSchema.safeParse(input);
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error.issues
+        .map(issue => `${issue.path.join('.') || 'spec'}: ${issue.message}`)
+        .join('; '),
+    };
+  }
+
+  return { success: true, spec: result.data };
+}
+
+/**
+ * Evaluate a JSON path against a value. Supports the subset used by specs:
+ * `$`, `.key`, `['key']`, `[0]` and the `[*]` wildcard.
+ */
+export function selectJsonPath(data: unknown, path: string): unknown[] {
+  const tokens =
+    path
+      .replace(/^\$/, '')
+      .match(/\.[^.[\]]+|\[\*\]|\[\d+\]|\['[^']+'\]|\["[^"]+"\]/g) || [];
+  let current: unknown[] = [data];
+
+  for (const token of tokens) {
+    const next: unknown[] = [];
+
+    for (const value of current) {
+      if (value === null || typeof value !== 'object') continue;
+
+      if (token === '[*]') {
+        next.push(...(Array.isArray(value) ? value : Object.values(value)));
+      } else if (/^\[\d+\]$/.test(token)) {
+        const item = (value as unknown[])[parseInt(token.slice(1, -1))];
+        if (item !== undefined) next.push(item);
+      } else {
+        const key = token.startsWith('.') ? token.slice(1) : token.slice(2, -2);
+        const item = (value as Record<string, unknown>)[key];
+        if (item !== undefined) next.push(item);
+      }
+    }
+
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Read every mapped field from an HTML element
+ */
+export function extractHtmlFields(
+  $: CheerioAPI,
+  scope: Cheerio<any>,
+  fields: FieldMap,
+  pageUrl: string
+): Partial<ScrapedOpportunity> {
+  return extractFields(fields, pageUrl, rule => {
+    if (rule.value !== undefined) return [rule.value];
+
+    const matches = rule.selector ? scope.find(rule.selector) : scope;
+    const selected = rule.all
+      ? matches.toArray()
+      : matches.toArray().slice(0, 1);
+
+    return selected.map(element => {
+      const $element = $(element);
+      return rule.attr
+        ? ($element.attr(rule.attr) ?? '')
+        : cleanText($element.text());
+    });
+  });
+}
+
+/**
+ * Read every mapped field from a JSON item
+ */
+export function extractJsonFields(
+  item: unknown,
+  fields: FieldMap,
+  pageUrl: string
+): Partial<ScrapedOpportunity> {
+  return extractFields(fields, pageUrl, rule => {
+    if (rule.value !== undefined) return [rule.value];
+
+    const matches = selectJsonPath(item, rule.path || '$');
+    const selected = rule.all ? matches : matches.slice(0, 1);
+
+    // An array value is read as a list, e.g. "tags": ["AI", "Web3"]
+    return selected
+      .flatMap(value => (Array.isArray(value) ? value : [value]))
+      .filter(value => value !== null && value !== undefined)
+      .map(value =>
+        typeof value === 'object' ? JSON.stringify(value) : String(value)
+      );
+  });
+}
+
+/**
+ * Apply spec defaults underneath the extracted values
+ */
+export function applyDefaults(
+  draft: OpportunityDraft,
+  defaults: ScraperSpec['defaults']
+): OpportunityDraft {
+  if (!defaults) return draft;
+
+  return {
+    ...draft,
+    type: draft.type ?? defaults.type,
+    organizerName: draft.organizerName ?? defaults.organizerName,
+    organizerType:
+      draft.organizerType ??
+      defaults.organizerType ??
+      (draft.organizerName || defaults.organizerName
+        ? inferOrganizerType(draft.organizerName || defaults.organizerName)
+        : undefined),
+    mode: draft.mode ?? defaults.mode,
+    location: draft.location ?? defaults.location,
+    tags: [...(draft.tags || []), ...(defaults.tags || [])],
+  };
+}
+
+function normalizeRule(rule: FieldRule): Exclude<FieldRule, string> {
+  if (typeof rule !== 'string') return rule;
+  if (rule.startsWith('$')) return { path: rule };
+
+  const at = rule.lastIndexOf('@');
+  return at > 0
+    ? { selector: rule.slice(0, at), attr: rule.slice(at + 1) }
+    : { selector: rule };
+}
+
+function extractFields(
+  fields: FieldMap,
+  pageUrl: string,
+  read: (rule: Exclude<FieldRule, string>) => string[]
+): Partial<ScrapedOpportunity> {
+  const result: Partial<ScrapedOpportunity> = {};
+
+  for (const field of SPEC_FIELDS) {
+    const rawRule = fields[field];
+    if (!rawRule) continue;
+
+    const rule = normalizeRule(rawRule);
+    let values = read(rule);
+
+    if (rule.pattern) {
+      const pattern = new RegExp(rule.pattern, 'i');
+      values = values
+        .map(value => {
+          const match = value.match(pattern);
+          return match ? (match[1] ?? match[0]) : '';
+        })
+        .filter(Boolean);
+    }
+
+    const value = coerceField(field, values, pageUrl);
+    if (value !== undefined) {
+      (result as Record<string, unknown>)[field] = value;
+    }
+  }
+
+  return result;
+}
+
+function coerceField(
+  field: SpecField,
+  values: string[],
+  pageUrl: string
+): unknown {
+  if (LIST_FIELDS.includes(field)) {
+    const items = values.flatMap(value => splitList(value));
+    return items.length > 0 ? items : undefined;
+  }
+
+  const value = cleanText(values[0]);
+  if (!value) return undefined;
+
+  if (DATE_FIELDS.includes(field)) return parseDate(value);
+  if (URL_FIELDS.includes(field)) return resolveUrl(value, pageUrl);
+
+  switch (field) {
+    case 'type': {
+      const type = value.toLowerCase();
+      if (/hackathon|challenge|competition/.test(type)) return 'hackathon';
+      if (/intern/.test(type)) return 'internship';
+      return 'workshop';
+    }
+    case 'mode':
+      return inferMode(value);
+    case 'organizerType':
+      return ['corporate', 'startup', 'government', 'academic'].includes(
+        value.toLowerCase()
+      )
+        ? value.toLowerCase()
+        : inferOrganizerType(value);
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Mapping from search requests to opportunity alert criteria
+ *
+ * Saved searches store a SearchRequest while alerts match incoming
+ * opportunities against AlertCriteria. Alerts created from a saved search are
+ * always derived through this mapping, on creation and whenever the search is
+ * edited, so both describe the same opportunities. Alerts have no notion of
+ * start/end dates, prize pools, durations or radius, so those filters are
+ * reported rather than silently dropped, and absolute deadline dates become
+ * day offsets from the time of mapping.
+ */
+
+import type { AlertCriteria } from './services/opportunity-alerts.service';
+import type { SearchFilters, SearchRequest } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UNMAPPED_FILTERS: Array<[keyof SearchFilters, string]> = [
+  ['startsAfter', 'start date'],
+  ['startsBefore', 'start date'],
+  ['endsAfter', 'end date'],
+  ['endsBefore', 'end date'],
+  ['postedAfter', 'posted date'],
+  ['prizePoolMin', 'prize pool'],
+  ['prizePoolMax', 'prize pool'],
+  ['durationMinDays', 'duration'],
+  ['durationMaxDays', 'duration'],
+  ['maxDistance', 'distance'],
+];
+
+/**
+ * Alert criteria matching the same opportunities as a search request
+ */
+export function searchToAlertCriteria(
+  request: Pick<SearchRequest, 'query' | 'filters'>,
+  now: Date = new Date()
+): AlertCriteria {
+  const filters = request.filters || {};
+  const keywords = [
+    ...new Set(request.query.split(/[\s,]+/).filter(word => word.length > 1)),
+  ];
+  const locations = [filters.location, filters.nearCity].filter(
+    (location): location is string => Boolean(location)
+  );
+
+  // Every mapped key is present, undefined when unset, so the result also
+  // clears criteria that an edited search no longer has
+  return {
+    keywords: keywords.length > 0 ? keywords : undefined,
+    skills: filters.skills?.length ? [...filters.skills] : undefined,
+    opportunityTypes: filters.type ? [filters.type] : undefined,
+    organizerTypes: filters.organizerType ? [filters.organizerType] : undefined,
+    modes: filters.mode ? [filters.mode] : undefined,
+    locations: locations.length > 0 ? locations : undefined,
+    minStipend: filters.stipendMin,
+    maxStipend: filters.stipendMax,
+    deadlineRange:
+      filters.deadlineAfter || filters.deadlineBefore
+        ? {
+            min: filters.deadlineAfter
+              ? daysFrom(now, filters.deadlineAfter)
+              : 0,
+            max: filters.deadlineBefore
+              ? daysFrom(now, filters.deadlineBefore)
+              : Number.MAX_SAFE_INTEGER,
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Human readable names of the filters an alert cannot apply
+ */
+export function unmappedSearchFilters(filters: SearchFilters = {}): string[] {
+  const names = UNMAPPED_FILTERS.filter(
+    ([key]) => filters[key] !== undefined
+  ).map(([, name]) => name);
+
+  return [...new Set(names)];
+}
+
+function daysFrom(now: Date, date: Date): number {
+  return Math.max(
+    0,
+    Math.ceil((new Date(date).getTime() - now.getTime()) / DAY_MS)
+  );
+}
@@ -1,5 +1,32 @@
+import type { Locale } from '../i18n/config';
 import { esUtils, INDICES } from './elasticsearch';
 
+// Analyzer for each language opportunities are translated into. Tamil and
+// Telugu have no built-in analyzer, so they are only normalized.
+export const TRANSLATION_ANALYZERS: Record<Exclude<Locale, 'en'>, string> = {
+  hi: 'hindi',
+  es: 'spanish',
+  fr: 'french',
+  de: 'german',
+  ta: 'indic_text_analyzer',
+  te: 'indic_text_analyzer',
+};
+
+// Translated titles and descriptions, under translations.<locale>
+export const TRANSLATIONS_MAPPING = {
+  properties: Object.fromEntries(
+    Object.entries(TRANSLATION_ANALYZERS).map(([locale, analyzer]) => [
+      locale,
+      {
+        properties: {
+          title: { type: 'text', analyzer },
+          description: { type: 'text', analyzer },
+        },
+      },
+    ])
+  ),
+};
+
 // Opportunities index mapping
 export const OPPORTUNITIES_MAPPING = {
   properties: {
@@ -135,6 +162,24 @@ export const OPPORTUNITIES_MAPPING = {
     relevanceScore: {
       type: 'float',
     },
+    // Numeric fields derived from the free-text details
+    stipendMin: {
+      type: 'integer',
+    },
+    stipendMax: {
+      type: 'integer',
+    },
+    prizePool: {
+      type: 'long',
+    },
+    durationDays: {
+      type: 'integer',
+    },
+    // Gazetteer coordinates of offline and hybrid opportunities
+    geoLocation: {
+      type: 'geo_point',
+    },
+    translations: TRANSLATIONS_MAPPING,
   },
 };
 
@@ -388,6 +433,11 @@ export const INDEX_CONFIGS = {
             tokenizer: 'standard',
             filter: ['lowercase', 'stop', 'snowball'],
           },
+          indic_text_analyzer: {
+            type: 'custom',
+            tokenizer: 'standard',
+            filter: ['lowercase', 'decimal_digit', 'indic_normalization'],
+          },
         },
       },
     },
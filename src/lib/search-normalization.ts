@@ -0,0 +1,183 @@
+/**
+ * Numeric search fields derived from free-text opportunity details
+ *
+ * Stipends, prizes and durations arrive from scrapers and partner APIs as
+ * display strings ("₹10,000 - 15,000 /month", "2.5 LPA", "48 hours"). Range
+ * filters and sort orders need numbers, so these helpers derive them when an
+ * opportunity is indexed. Amounts are taken at face value in the listing's
+ * currency; stipends are converted to a monthly figure. Locations of offline
+ * and hybrid opportunities are geocoded against the city gazetteer.
+ */
+
+import type { Opportunity } from '../types';
+import type { GeoPoint } from './geo/gazetteer';
+import { geocodeLocation } from './geo/gazetteer';
+import { cleanText, parseAmounts } from './scrapers/parsing-utils';
+
+export interface OpportunitySearchFields {
+  stipendMin?: number;
+  stipendMax?: number;
+  prizePool?: number;
+  durationDays?: number;
+  geoLocation?: GeoPoint;
+}
+
+const UNPAID_PATTERN = /\b(unpaid|no stipend|volunteer(ing)?|not paid)\b/;
+const POOL_PATTERN = /\b(pool|total|worth)\b/;
+const EACH_PATTERN = /\beach\b/;
+
+// A number with a currency before or after it, or a lakh/k/crore suffix.
+// Bare numbers in prize text are counts ("Top 3 teams", "4 tracks").
+const PRIZE_NUMBER =
+  /(₹|\$|€|£|\brs\.?|\binr|\busd)?\s*(\d[\d,]*(?:\.\d+)?)\s*(lakhs?|lacs?|l\b|k\b|cr\b|crores?)?(\s*(?:inr|rupees|usd|dollars)\b)?/g;
+const MAX_PRIZE_COUNT = 100;
+
+// Durations embedded in money text ("₹10k/month for 3 months") are not amounts
+const PERIOD_PHRASE =
+  /\b\d+(\.\d+)?\s*(-|–|to)?\s*\d*\s*(hours?|hrs?|days?|weeks?|wks?|months?|mos?|years?|yrs?)\b/g;
+const ORDINAL = /\b\d+(st|nd|rd|th)\b/g;
+
+const DAYS_PER_UNIT: Record<string, number> = {
+  hour: 1 / 24,
+  hr: 1 / 24,
+  day: 1,
+  week: 7,
+  wk: 7,
+  month: 30,
+  mo: 30,
+  year: 365,
+  yr: 365,
+};
+
+/**
+ * Parse a stipend into a monthly range. Unpaid listings map to 0 and
+ * listings without an amount ("Performance based") to an empty range.
+ */
+export function normalizeStipend(text: string | undefined | null): {
+  min?: number;
+  max?: number;
+} {
+  const value = cleanText(text).toLowerCase();
+  if (!value) return {};
+  if (UNPAID_PATTERN.test(value)) return { min: 0, max: 0 };
+
+  const amounts = parseAmounts(
+    value.replace(PERIOD_PHRASE, ' ').replace(ORDINAL, ' ')
+  );
+  if (amounts.length === 0) return {};
+
+  const factor = monthlyFactor(value);
+  return {
+    min: Math.round(Math.min(...amounts) * factor),
+    max: Math.round(Math.max(...amounts) * factor),
+  };
+}
+
+/**
+ * Total prize money across all prize lines. A line that states the pool
+ * itself ("Prizes worth ₹5 lakh") wins over summing the individual prizes,
+ * and a prize paid to each of several winners ("Top 3 teams win ₹10,000
+ * each") counts once per winner.
+ */
+export function normalizePrizePool(
+  prizes: string[] | undefined | null
+): number | undefined {
+  let total = 0;
+  let found = false;
+
+  for (const prize of prizes || []) {
+    const value = cleanText(prize).toLowerCase();
+    const { amounts, counts } = parsePrizeNumbers(
+      value.replace(PERIOD_PHRASE, ' ').replace(ORDINAL, ' ')
+    );
+    if (amounts.length === 0) continue;
+
+    if (POOL_PATTERN.test(value)) {
+      return Math.max(...amounts);
+    }
+
+    const winners = EACH_PATTERN.test(value)
+      ? (counts.find(count => count >= 1 && count <= MAX_PRIZE_COUNT) ?? 1)
+      : 1;
+    total += amounts.reduce((sum, amount) => sum + amount, 0) * winners;
+    found = true;
+  }
+
+  return found ? total : undefined;
+}
+
+/**
+ * Parse a duration such as "48 hours", "6 weeks" or "2-3 months" into days,
+ * taking the upper end of a range
+ */
+export function normalizeDuration(
+  text: string | undefined | null
+): number | undefined {
+  const value = cleanText(text).toLowerCase();
+  const match = value.match(
+    /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(hours?|hrs?|days?|weeks?|wks?|months?|mos?|years?|yrs?)\b/
+  );
+  if (!match) return undefined;
+
+  const amount = parseFloat(match[2] ?? match[1]);
+  const unit = match[3].replace(/s$/, '');
+  return Math.ceil(amount * DAYS_PER_UNIT[unit]);
+}
+
+/**
+ * Derive every search field for an opportunity
+ */
+export function deriveSearchFields(
+  opportunity: Opportunity
+): OpportunitySearchFields {
+  const stipend = normalizeStipend(opportunity.details.stipend);
+  const city =
+    opportunity.details.mode === 'online'
+      ? undefined
+      : geocodeLocation(opportunity.details.location);
+
+  return {
+    stipendMin: stipend.min,
+    stipendMax: stipend.max,
+    prizePool: normalizePrizePool(opportunity.details.prizes),
+    durationDays: normalizeDuration(opportunity.details.duration),
+    geoLocation: city && { lat: city.lat, lon: city.lon },
+  };
+}
+
+/**
+ * Split the numbers in a prize line into money amounts and bare whole-number
+ * counts
+ */
+function parsePrizeNumbers(value: string): {
+  amounts: number[];
+  counts: number[];
+} {
+  const amounts: number[] = [];
+  const counts: number[] = [];
+
+  for (const [, currency, number, unit, suffix] of value.matchAll(
+    PRIZE_NUMBER
+  )) {
+    if (currency || unit || suffix) {
+      amounts.push(...parseAmounts(`${number} ${unit ?? ''}`));
+    } else if (/^\d+$/.test(number)) {
+      counts.push(parseInt(number, 10));
+    }
+  }
+
+  return { amounts, counts };
+}
+
+function monthlyFactor(value: string): number {
+  if (
+    /\b(lpa|p\.?a\.?|per annum|per year|annual(ly)?|yearly)\b|\/\s*(year|yr|annum)/.test(
+      value
+    )
+  ) {
+    return 1 / 12;
+  }
+  if (/\b(per week|weekly)\b|\/\s*(week|wk)/.test(value)) return 52 / 12;
+  if (/\b(per day|daily)\b|\/\s*day/.test(value)) return 30;
+  return 1;
+}
@@ -1,9 +1,13 @@
 import { elasticsearch, esUtils, INDICES } from './elasticsearch';
+import type { GeoPoint } from './geo/gazetteer';
+import { distanceKm, geocodeLocation } from './geo/gazetteer';
+import { deriveSearchFields } from './search-normalization';
 import type {
   SearchRequest,
   SearchResponse,
   SearchFilters,
   SearchFacets,
+  SearchSort,
   Opportunity,
 } from '../types';
 
@@ -13,6 +17,7 @@ export class SearchQueryBuilder {
   private filters: any[] = [];
   private sort: any[] = [];
   private aggregations: any = {};
+  private origin?: GeoPoint;
   private size = 20;
   private from = 0;
 
@@ -102,22 +107,83 @@ export class SearchQueryBuilder {
       },
     });
 
-    // Filter out expired opportunities
+    // Filter out expired opportunities unless an explicit window is given
     this.filters.push({
       range: {
         'timeline.applicationDeadline': {
-          gte: 'now',
+          gte: filters.deadlineAfter ?? 'now',
+          ...(filters.deadlineBefore && { lte: filters.deadlineBefore }),
         },
       },
     });
 
+    this.addRange(
+      'timeline.startDate',
+      filters.startsAfter,
+      filters.startsBefore
+    );
+    this.addRange('timeline.endDate', filters.endsAfter, filters.endsBefore);
+    this.addRange('createdAt', filters.postedAfter, undefined);
+    // A stipend bound matches when any part of the listed range satisfies it
+    this.addRange('stipendMax', filters.stipendMin, undefined);
+    this.addRange('stipendMin', undefined, filters.stipendMax);
+    this.addRange('prizePool', filters.prizePoolMin, filters.prizePoolMax);
+    this.addRange(
+      'durationDays',
+      filters.durationMinDays,
+      filters.durationMaxDays
+    );
+
     return this;
   }
 
+  /**
+   * Limit results to a radius around a point; online opportunities always
+   * match. The point is also used for distance sorting.
+   */
+  setSearchArea(origin: GeoPoint, radiusKm?: number): this {
+    this.origin = origin;
+
+    if (radiusKm) {
+      this.filters.push({
+        bool: {
+          should: [
+            { term: { 'details.mode': 'online' } },
+            {
+              geo_distance: {
+                distance: `${radiusKm}km`,
+                geoLocation: origin,
+              },
+            },
+          ],
+          minimum_should_match: 1,
+        },
+      });
+    }
+
+    return this;
+  }
+
+  private addRange(field: string, gte?: unknown, lte?: unknown): void {
+    if (gte === undefined && lte === undefined) return;
+
+    this.filters.push({
+      range: {
+        [field]: {
+          ...(gte !== undefined && { gte }),
+          ...(lte !== undefined && { lte }),
+        },
+      },
+    });
+  }
+
   /**
    * Set sorting options
    */
-  setSorting(sortBy?: string, sortOrder: 'asc' | 'desc' = 'desc'): this {
+  setSorting(
+    sortBy?: SearchSort | 'created' | 'popularity',
+    sortOrder: 'asc' | 'desc' = 'desc'
+  ): this {
     switch (sortBy) {
       case 'deadline':
         this.sort.push({
@@ -125,10 +191,38 @@ export class SearchQueryBuilder {
         });
         break;
       case 'created':
+      case 'newest':
         this.sort.push({
           createdAt: { order: sortOrder },
         });
         break;
+      case 'stipend':
+        this.sort.push(
+          { stipendMax: { order: sortOrder, missing: '_last' } },
+          { _score: { order: 'desc' } }
+        );
+        break;
+      case 'quality':
+        this.sort.push(
+          { relevanceScore: { order: sortOrder } },
+          { 'timeline.applicationDeadline': { order: 'asc' } }
+        );
+        break;
+      case 'distance':
+        if (this.origin) {
+          this.sort.push(
+            {
+              _geo_distance: {
+                geoLocation: this.origin,
+                order: 'asc',
+                unit: 'km',
+              },
+            },
+            { _score: { order: 'desc' } }
+          );
+          break;
+        }
+        return this.setSorting('relevance');
       case 'popularity':
         this.sort.push({
           popularity: { order: sortOrder },
@@ -232,14 +326,23 @@ export class SearchService {
     request: SearchRequest
   ): Promise<SearchResponse> {
     try {
+      const city = geocodeLocation(request.filters?.nearCity);
+      const origin = city && { lat: city.lat, lon: city.lon };
+
       const queryBuilder = new SearchQueryBuilder()
         .setQuery(request.query)
-        .addFilters(request.filters || {})
+        .addFilters(request.filters || {});
+
+      if (origin) {
+        queryBuilder.setSearchArea(origin, request.filters?.maxDistance);
+      }
+
+      queryBuilder
         .setPagination(
           request.pagination?.page || 1,
           request.pagination?.limit || 20
         )
-        .setSorting()
+        .setSorting(request.sort, request.sort === 'deadline' ? 'asc' : 'desc')
         .addAggregations();
 
       const esQuery = queryBuilder.build();
@@ -250,6 +353,10 @@ export class SearchService {
         (hit: any) => ({
           ...hit._source,
           _score: hit._score,
+          distanceKm:
+            origin && hit._source.geoLocation
+              ? distanceKm(origin, hit._source.geoLocation)
+              : undefined,
         })
       );
 
@@ -288,6 +395,10 @@ export class SearchService {
         opportunities,
         totalCount: response.hits.total.value,
         facets,
+        searchArea: city && {
+          city: city.name,
+          radiusKm: request.filters?.maxDistance,
+        },
         suggestions: await this.generateSuggestions(request.query),
       };
     } catch (error) {
@@ -368,6 +479,7 @@ export class SearchService {
       // Prepare the document for indexing
       const document = {
         ...opportunity,
+        ...deriveSearchFields(opportunity),
         searchText: this.buildSearchText(opportunity),
         popularity: 0, // Will be updated based on user interactions
         relevanceScore: this.calculateRelevanceScore(opportunity),
@@ -398,6 +510,7 @@ export class SearchService {
       // Prepare documents for bulk indexing
       const documents = opportunities.map(opportunity => ({
         ...opportunity,
+        ...deriveSearchFields(opportunity),
         searchText: this.buildSearchText(opportunity),
         popularity: 0,
         relevanceScore: this.calculateRelevanceScore(opportunity),
@@ -421,6 +534,7 @@ export class SearchService {
     try {
       const document = {
         ...opportunity,
+        ...deriveSearchFields(opportunity),
         searchText: this.buildSearchText(opportunity),
         relevanceScore: this.calculateRelevanceScore(opportunity),
       };
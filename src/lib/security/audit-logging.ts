@@ -37,6 +37,19 @@ export class AuditLogger {
     SUSPICIOUS_ACTIVITY: 'suspicious_activity',
     SECURITY_VIOLATION: 'security_violation',
 
+    // Moderation events
+    CONTENT_REPORTED: 'content_reported',
+    CONTENT_FLAGGED: 'content_flagged',
+    CONTENT_BLOCKED: 'content_blocked',
+    CONTENT_HIDDEN: 'content_hidden',
+    CONTENT_RESTORED: 'content_restored',
+    AUTHOR_BANNED: 'author_banned', // content removed along with its author
+    REPORT_DISMISSED: 'report_dismissed',
+    USER_BANNED: 'user_banned',
+    USER_UNBANNED: 'user_unbanned',
+    USER_BLOCKED: 'user_blocked',
+    USER_UNBLOCKED: 'user_unblocked',
+
     // System events
     SYSTEM_ERROR: 'system_error',
     CONFIGURATION_CHANGE: 'configuration_change',
@@ -187,6 +200,30 @@ export class AuditLogger {
     });
   }
 
+  /**
+   * Log moderation event. The resource is the moderated content, as
+   * "<contentType>:<contentId>"; userId is whoever acted, if anyone.
+   */
+  static async logModerationEvent(
+    eventType: string,
+    resource: string,
+    details: any,
+    userId?: string
+  ): Promise<void> {
+    await this.logEvent({
+      eventType,
+      userId,
+      resource,
+      action: eventType,
+      details,
+      riskLevel:
+        eventType === this.EVENT_TYPES.USER_BANNED
+          ? this.RISK_LEVELS.MEDIUM
+          : this.RISK_LEVELS.LOW,
+      success: true,
+    });
+  }
+
   /**
    * Log security violation
    */
@@ -36,8 +36,8 @@ export class XSSProtection {
         'i'
       ),
       KEEP_CONTENT: true,
-      REMOVE_DATA_ATTRIBUTES: true,
-      REMOVE_UNKNOWN_PROTOCOLS: true,
+      ALLOW_DATA_ATTR: false,
+      ALLOW_UNKNOWN_PROTOCOLS: false,
       USE_PROFILES: { html: true },
     });
   }
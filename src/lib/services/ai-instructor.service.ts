@@ -23,6 +23,7 @@ export interface RoadmapRequest {
   userProfile: UserProfile;
   targetDate?: Date;
   customGoals?: string[];
+  resumeSkills?: string[]; // Skills found by resume analysis
 }
 
 export interface RoadmapResponse {
@@ -131,7 +132,10 @@ export class AIInstructorService {
 
       // Assess user skills against opportunity requirements
       const skillAssessment = await this.assessSkills(
-        request.userProfile.skills.technical,
+        [
+          ...request.userProfile.skills.technical,
+          ...(request.resumeSkills ?? []),
+        ],
         opportunity.requiredSkills,
         request.userProfile.skills.proficiencyLevel
       );
@@ -0,0 +1,575 @@
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import type { ApiResponse } from '../../types';
+import { eventBus } from '../events/event-bus';
+import { personalizationService } from './personalization.service';
+import { socialService } from './social.service';
+
+const prisma = new PrismaClient();
+
+export const APPLICATION_STATUSES = [
+  'interested',
+  'applied',
+  'shortlisted',
+  'interview',
+  'offer',
+  'rejected',
+  'withdrawn',
+] as const;
+
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+// Statuses followers see on the activity feed. Outcomes such as rejections
+// and withdrawals stay private to the user.
+const SHARED_STATUSES: ApplicationStatus[] = ['interested', 'applied'];
+
+export interface ApplicationDocument {
+  id: string;
+  name: string;
+  url: string;
+  kind: string;
+  createdAt: Date;
+}
+
+export interface ApplicationStatusChange {
+  id: string;
+  fromStatus?: ApplicationStatus;
+  toStatus: ApplicationStatus;
+  note?: string;
+  createdAt: Date;
+}
+
+export interface TrackedApplication {
+  id: string;
+  userId: string;
+  opportunity: {
+    id: string;
+    title: string;
+    type: 'hackathon' | 'internship' | 'workshop';
+    organizerName: string;
+    applicationDeadline: Date;
+    externalUrl: string;
+  };
+  status: ApplicationStatus;
+  notes?: string;
+  appliedAt?: Date;
+  nextAction?: string;
+  nextActionAt?: Date;
+  position: number;
+  documents: ApplicationDocument[];
+  history?: ApplicationStatusChange[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ApplicationBoard = Record<ApplicationStatus, TrackedApplication[]>;
+
+const documentSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  url: z.string().url().max(1000),
+  kind: z
+    .enum(['resume', 'cover_letter', 'portfolio', 'transcript', 'other'])
+    .default('other'),
+});
+
+const createApplicationSchema = z.object({
+  opportunityId: z.string().uuid(),
+  status: z.enum(APPLICATION_STATUSES).default('interested'),
+  notes: z.string().max(5000).optional(),
+  nextAction: z.string().max(200).optional(),
+  nextActionAt: z.coerce.date().optional(),
+  documents: z.array(documentSchema).max(20).optional(),
+});
+
+const updateApplicationSchema = z.object({
+  status: z.enum(APPLICATION_STATUSES).optional(),
+  statusNote: z.string().max(1000).optional(),
+  notes: z.string().max(5000).nullable().optional(),
+  nextAction: z.string().max(200).nullable().optional(),
+  nextActionAt: z.coerce.date().nullable().optional(),
+  position: z.number().int().min(0).optional(),
+});
+
+export type CreateApplicationRequest = z.input<typeof createApplicationSchema>;
+export type UpdateApplicationRequest = z.input<typeof updateApplicationSchema>;
+export type AddDocumentRequest = z.input<typeof documentSchema>;
+
+const opportunitySelect = {
+  id: true,
+  title: true,
+  type: true,
+  organizerName: true,
+  applicationDeadline: true,
+  externalUrl: true,
+};
+
+export class ApplicationService {
+  /**
+   * List a user's tracked applications
+   */
+  async listApplications(
+    userId: string,
+    options: { status?: ApplicationStatus[]; dueBefore?: Date } = {}
+  ): Promise<ApiResponse<TrackedApplication[]>> {
+    try {
+      const applications = await prisma.application.findMany({
+        where: {
+          userId,
+          status: options.status ? { in: options.status } : undefined,
+          nextActionAt: options.dueBefore
+            ? { lte: options.dueBefore }
+            : undefined,
+        },
+        include: {
+          opportunity: { select: opportunitySelect },
+          documents: { orderBy: { createdAt: 'asc' } },
+        },
+        orderBy: [{ position: 'asc' }, { updatedAt: 'desc' }],
+      });
+
+      return {
+        success: true,
+        data: applications.map(toApplication),
+      };
+    } catch (error) {
+      console.error('List applications error:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve applications',
+      };
+    }
+  }
+
+  /**
+   * Get applications grouped into one column per status
+   */
+  async getBoard(userId: string): Promise<ApiResponse<ApplicationBoard>> {
+    const result = await this.listApplications(userId);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    const board = Object.fromEntries(
+      APPLICATION_STATUSES.map(status => [status, [] as TrackedApplication[]])
+    ) as ApplicationBoard;
+
+    for (const application of result.data!) {
+      board[application.status].push(application);
+    }
+
+    return {
+      success: true,
+      data: board,
+    };
+  }
+
+  /**
+   * Get a single application with its status history
+   */
+  async getApplication(
+    userId: string,
+    applicationId: string
+  ): Promise<ApiResponse<TrackedApplication>> {
+    try {
+      const application = await prisma.application.findFirst({
+        where: { id: applicationId, userId },
+        include: {
+          opportunity: { select: opportunitySelect },
+          documents: { orderBy: { createdAt: 'asc' } },
+          history: { orderBy: { createdAt: 'asc' } },
+        },
+      });
+
+      if (!application) {
+        return {
+          success: false,
+          error: 'Application not found',
+        };
+      }
+
+      return {
+        success: true,
+        data: toApplication(application),
+      };
+    } catch (error) {
+      console.error('Get application error:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve application',
+      };
+    }
+  }
+
+  /**
+   * Start tracking an opportunity
+   */
+  async createApplication(
+    userId: string,
+    request: CreateApplicationRequest
+  ): Promise<ApiResponse<TrackedApplication>> {
+    const parsed = createApplicationSchema.safeParse(request);
+    if (!parsed.success) {
+      return {
+        success: false,
+        error: parsed.error.issues[0].message,
+      };
+    }
+    const { data } = parsed;
+
+    try {
+      const opportunity = await prisma.opportunity.findUnique({
+        where: { id: data.opportunityId },
+        select: { id: true },
+      });
+
+      if (!opportunity) {
+        return {
+          success: false,
+          error: 'Opportunity not found',
+        };
+      }
+
+      const existing = await prisma.application.findUnique({
+        where: {
+          userId_opportunityId: { userId, opportunityId: data.opportunityId },
+        },
+        select: { id: true },
+      });
+
+      if (existing) {
+        return {
+          success: false,
+          error: 'Opportunity is already being tracked',
+        };
+      }
+
+      const application = await prisma.application.create({
+        data: {
+          userId,
+          opportunityId: data.opportunityId,
+          status: data.status,
+          notes: data.notes,
+          appliedAt: isApplied(data.status) ? new Date() : undefined,
+          nextAction: data.nextAction,
+          nextActionAt: data.nextActionAt,
+          documents: data.documents ? { create: data.documents } : undefined,
+          history: { create: { toStatus: data.status } },
+        },
+        include: {
+          opportunity: { select: opportunitySelect },
+          documents: true,
+          history: true,
+        },
+      });
+
+      await this.recordActivity(
+        userId,
+        'tracked_application',
+        application,
+        undefined
+      );
+
+      return {
+        success: true,
+        data: toApplication(application),
+        message: 'Application tracked successfully',
+      };
+    } catch (error) {
+      console.error('Create application error:', error);
+      return {
+        success: false,
+        error: 'Failed to track application',
+      };
+    }
+  }
+
+  /**
+   * Update an application. A status change is added to its history and to
+   * the activity feed.
+   */
+  async updateApplication(
+    userId: string,
+    applicationId: string,
+    request: UpdateApplicationRequest
+  ): Promise<ApiResponse<TrackedApplication>> {
+    const parsed = updateApplicationSchema.safeParse(request);
+    if (!parsed.success) {
+      return {
+        success: false,
+        error: parsed.error.issues[0].message,
+      };
+    }
+    const updates = parsed.data;
+
+    try {
+      const current = await prisma.application.findFirst({
+        where: { id: applicationId, userId },
+      });
+
+      if (!current) {
+        return {
+          success: false,
+          error: 'Application not found',
+        };
+      }
+
+      const statusChanged =
+        updates.status !== undefined && updates.status !== current.status;
+
+      const application = await prisma.application.update({
+        where: { id: applicationId },
+        data: {
+          status: updates.status,
+          notes: updates.notes,
+          nextAction: updates.nextAction,
+          nextActionAt: updates.nextActionAt,
+          position: updates.position,
+          appliedAt:
+            statusChanged && !current.appliedAt && isApplied(updates.status!)
+              ? new Date()
+              : undefined,
+          history: statusChanged
+            ? {
+                create: {
+                  fromStatus: current.status,
+                  toStatus: updates.status!,
+                  note: updates.statusNote,
+                },
+              }
+            : undefined,
+        },
+        include: {
+          opportunity: { select: opportunitySelect },
+          documents: { orderBy: { createdAt: 'asc' } },
+          history: { orderBy: { createdAt: 'asc' } },
+        },
+      });
+
+      if (statusChanged) {
+        await this.recordActivity(
+          userId,
+          'updated_application',
+          application,
+          current.status
+        );
+
+        eventBus.emit(
+          'application.status_changed',
+          {
+            id: application.id,
+            userId,
+            opportunityId: application.opportunityId,
+            fromStatus: current.status,
+            toStatus: application.status,
+          },
+          { audience: [userId] }
+        );
+      }
+
+      return {
+        success: true,
+        data: toApplication(application),
+        message: 'Application updated successfully',
+      };
+    } catch (error) {
+      console.error('Update application error:', error);
+      return {
+        success: false,
+        error: 'Failed to update application',
+      };
+    }
+  }
+
+  /**
+   * Stop tracking an application
+   */
+  async deleteApplication(
+    userId: string,
+    applicationId: string
+  ): Promise<ApiResponse<null>> {
+    try {
+      const { count } = await prisma.application.deleteMany({
+        where: { id: applicationId, userId },
+      });
+
+      if (count === 0) {
+        return {
+          success: false,
+          error: 'Application not found',
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Application deleted successfully',
+      };
+    } catch (error) {
+      console.error('Delete application error:', error);
+      return {
+        success: false,
+        error: 'Failed to delete application',
+      };
+    }
+  }
+
+  /**
+   * Attach a document to an application
+   */
+  async addDocument(
+    userId: string,
+    applicationId: string,
+    request: AddDocumentRequest
+  ): Promise<ApiResponse<ApplicationDocument>> {
+    const parsed = documentSchema.safeParse(request);
+    if (!parsed.success) {
+      return {
+        success: false,
+        error: parsed.error.issues[0].message,
+      };
+    }
+
+    try {
+      const application = await prisma.application.findFirst({
+        where: { id: applicationId, userId },
+        select: { id: true },
+      });
+
+      if (!application) {
+        return {
+          success: false,
+          error: 'Application not found',
+        };
+      }
+
+      const document = await prisma.applicationDocument.create({
+        data: { applicationId, ...parsed.data },
+      });
+
+      return {
+        success: true,
+        data: toDocument(document),
+        message: 'Document attached successfully',
+      };
+    } catch (error) {
+      console.error('Add application document error:', error);
+      return {
+        success: false,
+        error: 'Failed to attach document',
+      };
+    }
+  }
+
+  /**
+   * Remove a document from an application
+   */
+  async removeDocument(
+    userId: string,
+    applicationId: string,
+    documentId: string
+  ): Promise<ApiResponse<null>> {
+    try {
+      const { count } = await prisma.applicationDocument.deleteMany({
+        where: {
+          id: documentId,
+          applicationId,
+          application: { userId },
+        },
+      });
+
+      if (count === 0) {
+        return {
+          success: false,
+          error: 'Document not found',
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Document removed successfully',
+      };
+    } catch (error) {
+      console.error('Remove application document error:', error);
+      return {
+        success: false,
+        error: 'Failed to remove document',
+      };
+    }
+  }
+
+  /**
+   * Post an application event to the activity feed when its status is one
+   * followers may see. Feed failures are logged by the social service and
+   * never fail the application change itself.
+   */
+  private async recordActivity(
+    userId: string,
+    activityType: 'tracked_application' | 'updated_application',
+    application: any,
+    fromStatus: ApplicationStatus | undefined
+  ): Promise<void> {
+    if (SHARED_STATUSES.includes(application.status)) {
+      await socialService.createActivity(
+        userId,
+        activityType,
+        application.id,
+        'application',
+        {
+          opportunityId: application.opportunityId,
+          opportunityTitle: application.opportunity?.title,
+          status: application.status,
+        }
+      );
+    }
+
+    if (isApplied(application.status) && !isApplied(fromStatus)) {
+      await personalizationService.analyzeUserBehavior(userId, {
+        appliedOpportunity: application.opportunityId,
+      });
+    }
+  }
+}
+
+/**
+ * Whether the status means the user has actually submitted an application
+ */
+function isApplied(status: ApplicationStatus | undefined): boolean {
+  return (
+    status !== undefined && status !== 'interested' && status !== 'withdrawn'
+  );
+}
+
+function toDocument(document: any): ApplicationDocument {
+  return {
+    id: document.id,
+    name: document.name,
+    url: document.url,
+    kind: document.kind,
+    createdAt: document.createdAt,
+  };
+}
+
+function toApplication(application: any): TrackedApplication {
+  return {
+    id: application.id,
+    userId: application.userId,
+    opportunity: application.opportunity,
+    status: application.status,
+    notes: application.notes ?? undefined,
+    appliedAt: application.appliedAt ?? undefined,
+    nextAction: application.nextAction ?? undefined,
+    nextActionAt: application.nextActionAt ?? undefined,
+    position: application.position,
+    documents: (application.documents ?? []).map(toDocument),
+    history: application.history?.map((change: any) => ({
+      id: change.id,
+      fromStatus: change.fromStatus ?? undefined,
+      toStatus: change.toStatus,
+      note: change.note ?? undefined,
+      createdAt: change.createdAt,
+    })),
+    createdAt: application.createdAt,
+    updatedAt: application.updatedAt,
+  };
+}
+
+export const applicationService = new ApplicationService();
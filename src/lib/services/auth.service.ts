@@ -2,8 +2,18 @@ import { PrismaClient } from '@prisma/client';
 import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import type { ApiResponse } from '../../types';
+import { buildTotpUri, generateTotpSecret, verifyTotp } from '../security/totp';
+import { createEmailService, renderEmailTemplate } from './email.service';
 
 const prisma = new PrismaClient();
+const emailService = createEmailService();
+
+const TOTP_ISSUER = 'OpportuneX';
+const RECOVERY_CODE_COUNT = 10;
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN_MS = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+const EMAIL_VERIFICATION_EXPIRES_IN = '24h';
 
 export interface RegisterRequest {
   email: string;
@@ -23,11 +33,44 @@ export interface AuthResponse {
     email: string;
     name: string;
     role?: string;
+    emailVerified: boolean;
   };
   accessToken: string;
   refreshToken: string;
 }
 
+// Returned by login instead of tokens when the account has 2FA enabled
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code: string; // Authenticator code or a recovery code
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUrl: string; // Encode as a QR code for authenticator apps
+}
+
+// Where a sign-in came from, recorded on the session
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface UserSessionItem {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
 export interface RefreshTokenRequest {
   refreshToken: string;
 }
@@ -75,9 +118,15 @@ export class AuthService {
   }
 
   /**
-   * Verify password against hash
+   * Verify password against hash. Users who only sign in with Google, GitHub
+   * or LinkedIn have no password, which never matches.
    */
-  private verifyPassword(password: string, hashedPassword: string): boolean {
+  private verifyPassword(
+    password: string,
+    hashedPassword: string | null
+  ): boolean {
+    if (!hashedPassword) return false;
+
     const [salt, hash] = hashedPassword.split(':');
     const verifyHash = crypto
       .pbkdf2Sync(password, salt, 10000, 64, 'sha512')
@@ -88,7 +137,10 @@ export class AuthService {
   /**
    * Register a new user
    */
-  async register(data: RegisterRequest): Promise<ApiResponse<AuthResponse>> {
+  async register(
+    data: RegisterRequest,
+    context: SessionContext = {}
+  ): Promise<ApiResponse<AuthResponse>> {
     try {
       // Check if user already exists
       const existingUser = await prisma.user.findUnique({
@@ -125,34 +177,20 @@ export class AuthService {
           id: true,
           email: true,
           name: true,
+          emailVerifiedAt: true,
         },
       });
 
-      // Generate tokens
-      const accessToken = this.generateAccessToken({
-        id: user.id,
-        email: user.email,
-        role: 'user',
-      });
-
-      const refreshToken = this.generateRefreshToken({
-        id: user.id,
-        email: user.email,
+      // A failed send should not fail registration; the user can ask again
+      this.sendVerificationEmail(user.id).catch(error => {
+        console.error('Verification email error:', error);
       });
 
       return {
         success: true,
-        data: {
-          user: {
-            id: user.id,
-            email: user.email,
-            name: user.name,
-            role: 'user',
-          },
-          accessToken,
-          refreshToken,
-        },
-        message: 'User registered successfully',
+        data: await this.createSession(user, context),
+        message:
+          'User registered successfully. Check your email to verify your address.',
       };
     } catch (error) {
       console.error('Registration error:', error);
@@ -164,9 +202,13 @@ export class AuthService {
   }
 
   /**
-   * Login user
+   * Login user. Accounts with two-factor authentication get a challenge token
+   * to complete with verifyTwoFactorLogin instead of session tokens.
    */
-  async login(data: LoginRequest): Promise<ApiResponse<AuthResponse>> {
+  async login(
+    data: LoginRequest,
+    context: SessionContext = {}
+  ): Promise<ApiResponse<AuthResponse | TwoFactorChallengeResponse>> {
     try {
       // Find user
       const user = await prisma.user.findUnique({
@@ -176,6 +218,9 @@ export class AuthService {
           email: true,
           name: true,
           passwordHash: true,
+          emailVerifiedAt: true,
+          twoFactorEnabled: true,
+          bannedAt: true,
         },
       });
 
@@ -199,34 +244,161 @@ export class AuthService {
         };
       }
 
-      // Generate tokens
-      const accessToken = this.generateAccessToken({
-        id: user.id,
-        email: user.email,
-        role: 'user',
-      });
+      if (user.bannedAt) {
+        return {
+          success: false,
+          error: 'This account has been suspended',
+        };
+      }
 
-      const refreshToken = this.generateRefreshToken({
-        id: user.id,
-        email: user.email,
-      });
+      const result = await this.startSignIn(user, context);
 
       return {
         success: true,
+        data: result,
+        message:
+          'twoFactorRequired' in result
+            ? 'Two-factor authentication code required'
+            : 'Login successful',
+      };
+    } catch (error) {
+      console.error('Login error:', error);
+      return {
+        success: false,
+        error: 'Failed to login',
+      };
+    }
+  }
+
+  /**
+   * Sign in a user whose identity has already been established, by password
+   * or by an identity provider. Accounts with two-factor authentication get
+   * a challenge token instead of session tokens.
+   */
+  async startSignIn(
+    user: {
+      id: string;
+      email: string;
+      name: string;
+      emailVerifiedAt: Date | null;
+      twoFactorEnabled: boolean;
+    },
+    context: SessionContext = {}
+  ): Promise<AuthResponse | TwoFactorChallengeResponse> {
+    if (user.twoFactorEnabled) {
+      // Abandoned challenges are cleared as new ones start
+      await prisma.twoFactorChallenge.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+      });
+
+      // Counts the codes tried against this challenge
+      const challenge = await prisma.twoFactorChallenge.create({
         data: {
-          user: {
-            id: user.id,
-            email: user.email,
-            name: user.name,
-            role: 'user',
-          },
-          accessToken,
-          refreshToken,
+          userId: user.id,
+          expiresAt: new Date(Date.now() + TWO_FACTOR_CHALLENGE_EXPIRES_IN_MS),
+        },
+      });
+
+      // No id/email claims, so the auth middleware never accepts it
+      const challengeToken = jwt.sign(
+        { sub: user.id, type: 'two_factor_challenge' },
+        this.jwtSecret,
+        { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN, jwtid: challenge.id }
+      );
+
+      return { twoFactorRequired: true, challengeToken };
+    }
+
+    return this.createSession(user, context);
+  }
+
+  /**
+   * Complete a two-step login with an authenticator or recovery code
+   */
+  async verifyTwoFactorLogin(
+    data: TwoFactorLoginRequest,
+    context: SessionContext = {}
+  ): Promise<ApiResponse<AuthResponse>> {
+    let decoded: any;
+    try {
+      decoded = jwt.verify(data.challengeToken, this.jwtSecret);
+    } catch {
+      return {
+        success: false,
+        error: 'Login challenge has expired. Please sign in again',
+      };
+    }
+
+    if (
+      !decoded?.sub ||
+      !decoded.jti ||
+      decoded.type !== 'two_factor_challenge'
+    ) {
+      return {
+        success: false,
+        error: 'Invalid login challenge',
+      };
+    }
+
+    try {
+      // Take one of the challenge's attempts before checking the code, so
+      // parallel guesses cannot get past the limit
+      const { count } = await prisma.twoFactorChallenge.updateMany({
+        where: {
+          id: decoded.jti,
+          userId: decoded.sub,
+          attempts: { lt: TWO_FACTOR_MAX_ATTEMPTS },
+          expiresAt: { gt: new Date() },
         },
+        data: { attempts: { increment: 1 } },
+      });
+
+      if (count === 0) {
+        return {
+          success: false,
+          error: 'Too many attempts. Please sign in again',
+        };
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: decoded.sub },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          emailVerifiedAt: true,
+          twoFactorEnabled: true,
+          twoFactorSecret: true,
+          twoFactorRecoveryCodes: true,
+          twoFactorLastUsedStep: true,
+        },
+      });
+
+      if (!user || !user.twoFactorEnabled) {
+        return {
+          success: false,
+          error: 'Invalid login challenge',
+        };
+      }
+
+      if (!(await this.consumeTwoFactorCode(user, data.code))) {
+        return {
+          success: false,
+          error: 'Invalid authentication code',
+        };
+      }
+
+      await prisma.twoFactorChallenge.deleteMany({
+        where: { id: decoded.jti },
+      });
+
+      return {
+        success: true,
+        data: await this.createSession(user, context),
         message: 'Login successful',
       };
     } catch (error) {
-      console.error('Login error:', error);
+      console.error('Two-factor login error:', error);
       return {
         success: false,
         error: 'Failed to login',
@@ -235,7 +407,8 @@ export class AuthService {
   }
 
   /**
-   * Refresh access token
+   * Refresh access token. Refresh tokens are single use: each refresh rotates
+   * the session's token, and presenting an old one revokes the session.
    */
   async refreshToken(
     data: RefreshTokenRequest
@@ -247,13 +420,42 @@ export class AuthService {
         this.refreshTokenSecret
       ) as any;
 
-      if (!decoded || !decoded.id || !decoded.email) {
+      if (!decoded || !decoded.id || !decoded.email || !decoded.sid) {
         return {
           success: false,
           error: 'Invalid refresh token',
         };
       }
 
+      const session = await prisma.userSession.findUnique({
+        where: { id: decoded.sid },
+      });
+
+      if (
+        !session ||
+        session.userId !== decoded.id ||
+        session.revokedAt ||
+        session.expiresAt < new Date()
+      ) {
+        return {
+          success: false,
+          error: 'Session has been revoked',
+        };
+      }
+
+      if (session.refreshTokenHash !== this.hashToken(data.refreshToken)) {
+        // An already rotated token was replayed, so it may have leaked
+        await prisma.userSession.update({
+          where: { id: session.id },
+          data: { revokedAt: new Date() },
+        });
+
+        return {
+          success: false,
+          error: 'Session has been revoked',
+        };
+      }
+
       // Verify user still exists
       const user = await prisma.user.findUnique({
         where: { id: decoded.id },
@@ -276,11 +478,21 @@ export class AuthService {
         id: user.id,
         email: user.email,
         role: 'user',
+        sid: session.id,
       });
 
       const refreshToken = this.generateRefreshToken({
         id: user.id,
         email: user.email,
+        sid: session.id,
+      });
+
+      await prisma.userSession.update({
+        where: { id: session.id },
+        data: {
+          refreshTokenHash: this.hashToken(refreshToken),
+          lastUsedAt: new Date(),
+        },
       });
 
       return {
@@ -300,6 +512,462 @@ export class AuthService {
     }
   }
 
+  /**
+   * Sign out the session a refresh token belongs to
+   */
+  async logout(refreshToken: string): Promise<ApiResponse<null>> {
+    try {
+      const decoded = jwt.verify(refreshToken, this.refreshTokenSecret) as any;
+
+      if (decoded?.sid) {
+        await prisma.userSession.updateMany({
+          where: { id: decoded.sid, userId: decoded.id, revokedAt: null },
+          data: { revokedAt: new Date() },
+        });
+      }
+    } catch {
+      // An invalid or expired token has no session left to end
+    }
+
+    return {
+      success: true,
+      message: 'Logged out successfully',
+    };
+  }
+
+  /**
+   * List the user's signed-in devices
+   */
+  async listSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<ApiResponse<UserSessionItem[]>> {
+    try {
+      const sessions = await prisma.userSession.findMany({
+        where: {
+          userId,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        orderBy: { lastUsedAt: 'desc' },
+      });
+
+      return {
+        success: true,
+        data: sessions.map((session: Omit<UserSessionItem, 'current'>) => ({
+          id: session.id,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          expiresAt: session.expiresAt,
+          current: session.id === currentSessionId,
+        })),
+        message: 'Sessions retrieved successfully',
+      };
+    } catch (error) {
+      console.error('List sessions error:', error);
+      return {
+        success: false,
+        error: 'Failed to list sessions',
+      };
+    }
+  }
+
+  /**
+   * Revoke one session. Its refresh token stops working immediately; access
+   * tokens already issued to it remain valid until they expire.
+   */
+  async revokeSession(
+    userId: string,
+    sessionId: string
+  ): Promise<ApiResponse<null>> {
+    try {
+      const { count } = await prisma.userSession.updateMany({
+        where: { id: sessionId, userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return {
+          success: false,
+          error: 'Session not found',
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Session revoked successfully',
+      };
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      return {
+        success: false,
+        error: 'Failed to revoke session',
+      };
+    }
+  }
+
+  /**
+   * Revoke every session, optionally keeping the one making the request
+   */
+  async revokeAllSessions(
+    userId: string,
+    exceptSessionId?: string
+  ): Promise<ApiResponse<{ revoked: number }>> {
+    try {
+      const { count } = await prisma.userSession.updateMany({
+        where: {
+          userId,
+          revokedAt: null,
+          ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+        },
+        data: { revokedAt: new Date() },
+      });
+
+      return {
+        success: true,
+        data: { revoked: count },
+        message: 'Sessions revoked successfully',
+      };
+    } catch (error) {
+      console.error('Revoke sessions error:', error);
+      return {
+        success: false,
+        error: 'Failed to revoke sessions',
+      };
+    }
+  }
+
+  /**
+   * Email the user a link to verify their address
+   */
+  async sendVerificationEmail(userId: string): Promise<ApiResponse<null>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, name: true, emailVerifiedAt: true },
+      });
+
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      if (user.emailVerifiedAt) {
+        return {
+          success: false,
+          error: 'Email is already verified',
+        };
+      }
+
+      // Bound to the address, so changing email invalidates old links
+      const token = jwt.sign(
+        { sub: user.id, email: user.email, type: 'email_verification' },
+        this.jwtSecret,
+        { expiresIn: EMAIL_VERIFICATION_EXPIRES_IN }
+      );
+
+      const content = renderEmailTemplate('email-verification', {
+        name: user.name,
+        verifyUrl: `${process.env.NEXT_PUBLIC_APP_URL}/verify-email?token=${token}`,
+      });
+
+      await emailService.sendEmail({
+        to: user.email,
+        ...content,
+        templateId: 'email-verification',
+      });
+
+      return {
+        success: true,
+        message: 'Verification email sent',
+      };
+    } catch (error) {
+      console.error('Send verification email error:', error);
+      return {
+        success: false,
+        error: 'Failed to send verification email',
+      };
+    }
+  }
+
+  /**
+   * Mark the user's email as verified from a link token
+   */
+  async verifyEmail(token: string): Promise<ApiResponse<null>> {
+    try {
+      const decoded = jwt.verify(token, this.jwtSecret) as any;
+
+      if (!decoded?.sub || decoded.type !== 'email_verification') {
+        return {
+          success: false,
+          error: 'Invalid or expired verification link',
+        };
+      }
+
+      const { count } = await prisma.user.updateMany({
+        where: { id: decoded.sub, email: decoded.email },
+        data: { emailVerifiedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return {
+          success: false,
+          error: 'Invalid or expired verification link',
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Email verified successfully',
+      };
+    } catch {
+      return {
+        success: false,
+        error: 'Invalid or expired verification link',
+      };
+    }
+  }
+
+  /**
+   * Start 2FA enrolment with a new secret. Nothing changes for login until
+   * the user confirms a code with enableTwoFactor.
+   */
+  async setupTwoFactor(
+    userId: string
+  ): Promise<ApiResponse<TwoFactorSetupResponse>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true, twoFactorEnabled: true },
+      });
+
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      if (user.twoFactorEnabled) {
+        return {
+          success: false,
+          error: 'Two-factor authentication is already enabled',
+        };
+      }
+
+      const secret = generateTotpSecret();
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorSecret: this.encryptSecret(secret) },
+      });
+
+      return {
+        success: true,
+        data: {
+          secret,
+          otpauthUrl: buildTotpUri(secret, user.email, TOTP_ISSUER),
+        },
+        message: 'Scan the QR code and confirm a code to enable 2FA',
+      };
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      return {
+        success: false,
+        error: 'Failed to set up two-factor authentication',
+      };
+    }
+  }
+
+  /**
+   * Confirm enrolment with a code from the authenticator app. Returns the
+   * recovery codes, which are only shown this once.
+   */
+  async enableTwoFactor(
+    userId: string,
+    code: string
+  ): Promise<ApiResponse<{ recoveryCodes: string[] }>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { twoFactorEnabled: true, twoFactorSecret: true },
+      });
+
+      if (!user || !user.twoFactorSecret) {
+        return {
+          success: false,
+          error: 'Start two-factor setup first',
+        };
+      }
+
+      if (user.twoFactorEnabled) {
+        return {
+          success: false,
+          error: 'Two-factor authentication is already enabled',
+        };
+      }
+
+      const step = verifyTotp(this.decryptSecret(user.twoFactorSecret), code);
+      if (step === null) {
+        return {
+          success: false,
+          error: 'Invalid authentication code',
+        };
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorEnabled: true,
+          twoFactorLastUsedStep: step,
+          twoFactorRecoveryCodes: recoveryCodes.map(item =>
+            this.hashToken(item)
+          ),
+        },
+      });
+
+      return {
+        success: true,
+        data: { recoveryCodes },
+        message: 'Two-factor authentication enabled',
+      };
+    } catch (error) {
+      console.error('Enable two-factor error:', error);
+      return {
+        success: false,
+        error: 'Failed to enable two-factor authentication',
+      };
+    }
+  }
+
+  /**
+   * Turn 2FA off. Needs the password and a current code.
+   */
+  async disableTwoFactor(
+    userId: string,
+    password: string,
+    code: string
+  ): Promise<ApiResponse<null>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          passwordHash: true,
+          twoFactorEnabled: true,
+          twoFactorSecret: true,
+          twoFactorRecoveryCodes: true,
+          twoFactorLastUsedStep: true,
+        },
+      });
+
+      if (!user || !user.twoFactorEnabled) {
+        return {
+          success: false,
+          error: 'Two-factor authentication is not enabled',
+        };
+      }
+
+      if (
+        !this.verifyPassword(password, user.passwordHash) ||
+        !(await this.consumeTwoFactorCode({ id: userId, ...user }, code))
+      ) {
+        return {
+          success: false,
+          error: 'Invalid password or authentication code',
+        };
+      }
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorRecoveryCodes: [],
+          twoFactorLastUsedStep: null,
+        },
+      });
+
+      return {
+        success: true,
+        message: 'Two-factor authentication disabled',
+      };
+    } catch (error) {
+      console.error('Disable two-factor error:', error);
+      return {
+        success: false,
+        error: 'Failed to disable two-factor authentication',
+      };
+    }
+  }
+
+  /**
+   * Replace the recovery codes. Needs a current authenticator code.
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string
+  ): Promise<ApiResponse<{ recoveryCodes: string[] }>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          twoFactorEnabled: true,
+          twoFactorSecret: true,
+          twoFactorLastUsedStep: true,
+        },
+      });
+
+      if (!user || !user.twoFactorEnabled) {
+        return {
+          success: false,
+          error: 'Two-factor authentication is not enabled',
+        };
+      }
+
+      // Recovery codes cannot be used to mint new ones
+      if (
+        !(await this.consumeTwoFactorCode(
+          { id: userId, ...user, twoFactorRecoveryCodes: [] },
+          code
+        ))
+      ) {
+        return {
+          success: false,
+          error: 'Invalid authentication code',
+        };
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorRecoveryCodes: recoveryCodes.map(item =>
+            this.hashToken(item)
+          ),
+        },
+      });
+
+      return {
+        success: true,
+        data: { recoveryCodes },
+        message: 'Recovery codes regenerated',
+      };
+    } catch (error) {
+      console.error('Regenerate recovery codes error:', error);
+      return {
+        success: false,
+        error: 'Failed to regenerate recovery codes',
+      };
+    }
+  }
+
   /**
    * Change user password
    */
@@ -324,6 +992,13 @@ export class AuthService {
         };
       }
 
+      if (!user.passwordHash) {
+        return {
+          success: false,
+          error: 'No password is set. Use forgot password to create one',
+        };
+      }
+
       // Verify current password
       const isCurrentPasswordValid = this.verifyPassword(
         data.currentPassword,
@@ -456,6 +1131,12 @@ export class AuthService {
         },
       });
 
+      // Whoever knew the old password should not stay signed in
+      await prisma.userSession.updateMany({
+        where: { userId: user.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
       return {
         success: true,
         message: 'Password reset successfully',
@@ -480,6 +1161,193 @@ export class AuthService {
     }
   }
 
+  /**
+   * Start a session for a signed-in user and issue its tokens
+   */
+  private async createSession(
+    user: {
+      id: string;
+      email: string;
+      name: string;
+      emailVerifiedAt: Date | null;
+    },
+    context: SessionContext
+  ): Promise<AuthResponse> {
+    const sessionId = crypto.randomUUID();
+
+    const accessToken = this.generateAccessToken({
+      id: user.id,
+      email: user.email,
+      role: 'user',
+      sid: sessionId,
+    });
+
+    const refreshToken = this.generateRefreshToken({
+      id: user.id,
+      email: user.email,
+      sid: sessionId,
+    });
+
+    const { exp } = jwt.decode(refreshToken) as jwt.JwtPayload;
+
+    await prisma.userSession.create({
+      data: {
+        id: sessionId,
+        userId: user.id,
+        refreshTokenHash: this.hashToken(refreshToken),
+        userAgent: context.userAgent?.slice(0, 500),
+        ipAddress: context.ipAddress,
+        expiresAt: new Date(exp! * 1000),
+      },
+    });
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: 'user',
+        emailVerified: !!user.emailVerifiedAt,
+      },
+      accessToken,
+      refreshToken,
+    };
+  }
+
+  /**
+   * Accept an authenticator code (once per time step) or an unused recovery
+   * code, recording that it was used
+   */
+  private async consumeTwoFactorCode(
+    user: {
+      id: string;
+      twoFactorSecret: string | null;
+      twoFactorRecoveryCodes: string[];
+      twoFactorLastUsedStep: number | null;
+    },
+    code: string
+  ): Promise<boolean> {
+    const normalized = code.trim().toLowerCase();
+
+    if (/^\d{6}$/.test(normalized)) {
+      if (!user.twoFactorSecret) return false;
+
+      const step = verifyTotp(
+        this.decryptSecret(user.twoFactorSecret),
+        normalized
+      );
+      if (step === null || step <= (user.twoFactorLastUsedStep ?? -1)) {
+        return false;
+      }
+
+      // Conditional so two requests cannot both spend the same code
+      const { count } = await prisma.user.updateMany({
+        where: {
+          id: user.id,
+          OR: [
+            { twoFactorLastUsedStep: null },
+            { twoFactorLastUsedStep: { lt: step } },
+          ],
+        },
+        data: { twoFactorLastUsedStep: step },
+      });
+      return count === 1;
+    }
+
+    const hash = this.hashToken(normalized);
+    if (!user.twoFactorRecoveryCodes.includes(hash)) {
+      return false;
+    }
+
+    // Only written if the codes are still the ones read, which contain this
+    // code, so two requests cannot both spend it or put back a spent one
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        twoFactorRecoveryCodes: { equals: user.twoFactorRecoveryCodes },
+      },
+      data: {
+        twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(
+          item => item !== hash
+        ),
+      },
+    });
+    return count === 1;
+  }
+
+  /**
+   * One-time recovery codes in xxxxx-xxxxx form
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const value = crypto.randomBytes(5).toString('hex');
+      return `${value.slice(0, 5)}-${value.slice(5)}`;
+    });
+  }
+
+  /**
+   * SHA-256 of a token or code, for storing and comparing
+   */
+  private hashToken(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  /**
+   * Key for TOTP secrets at rest, from ENCRYPTION_KEY (falls back to the JWT
+   * secret outside production)
+   */
+  private getSecretKey(): Buffer {
+    const key = process.env.ENCRYPTION_KEY;
+    if (!key && process.env.NODE_ENV === 'production') {
+      throw new Error('ENCRYPTION_KEY environment variable is not configured');
+    }
+
+    return crypto
+      .createHash('sha256')
+      .update(key || this.jwtSecret)
+      .digest();
+  }
+
+  /**
+   * Encrypt a TOTP secret with AES-256-GCM
+   */
+  private encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(
+      'aes-256-gcm',
+      this.getSecretKey(),
+      iv
+    );
+    const encrypted = Buffer.concat([
+      cipher.update(secret, 'utf8'),
+      cipher.final(),
+    ]);
+
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map(part => part.toString('base64'))
+      .join(':');
+  }
+
+  /**
+   * Decrypt a TOTP secret stored by encryptSecret
+   */
+  private decryptSecret(stored: string): string {
+    const [iv, tag, encrypted] = stored
+      .split(':')
+      .map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      this.getSecretKey(),
+      iv
+    );
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
   /**
    * Generate access token
    */
@@ -487,17 +1355,26 @@ export class AuthService {
     id: string;
     email: string;
     role?: string;
+    sid?: string;
   }): string {
-    return jwt.sign(payload, this.jwtSecret, { expiresIn: this.jwtExpiresIn });
+    return jwt.sign(payload, this.jwtSecret, {
+      expiresIn: this.jwtExpiresIn,
+    } as jwt.SignOptions);
   }
 
   /**
    * Generate refresh token
    */
-  private generateRefreshToken(payload: { id: string; email: string }): string {
+  private generateRefreshToken(payload: {
+    id: string;
+    email: string;
+    sid: string;
+  }): string {
+    // jwtid keeps tokens rotated within the same second distinct
     return jwt.sign(payload, this.refreshTokenSecret, {
       expiresIn: this.refreshTokenExpiresIn,
-    });
+      jwtid: crypto.randomUUID(),
+    } as jwt.SignOptions);
   }
 }
 
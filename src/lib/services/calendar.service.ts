@@ -0,0 +1,318 @@
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import type { ApiResponse } from '../../types';
+import {
+  mentorshipSessionEvent,
+  opportunityEvents,
+  presentationEvent,
+} from '../calendar-events';
+import type { CalendarAlarm, CalendarEvent } from '../icalendar';
+import { buildCalendar } from '../icalendar';
+
+const prisma = new PrismaClient();
+
+// Older items only clutter calendars
+const FEED_HISTORY_DAYS = 30;
+const FEED_REFRESH_INTERVAL = 60 * 60 * 1000;
+
+// Applications whose deadlines no longer matter to the user
+const CLOSED_APPLICATION_STATUSES = ['rejected', 'withdrawn'];
+
+export interface CalendarFeedInfo {
+  url: string; // Only returned on creation
+  createdAt: Date;
+}
+
+export interface CalendarFeedStatus {
+  active: boolean;
+  createdAt?: Date;
+  lastAccessedAt?: Date;
+}
+
+/**
+ * Per-user iCalendar subscription feeds of opportunity deadlines, mentorship
+ * sessions and virtual presentations. Calendar apps fetch feeds without
+ * credentials, so each feed URL carries a secret token instead.
+ */
+export class CalendarService {
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Create the user's feed, replacing any existing one so that its old URL
+   * stops working
+   */
+  async createFeed(
+    userId: string,
+    baseUrl: string
+  ): Promise<ApiResponse<CalendarFeedInfo>> {
+    try {
+      const token = crypto.randomBytes(32).toString('base64url');
+      const tokenHash = this.hashToken(token);
+
+      const feed = await prisma.calendarFeed.upsert({
+        where: { userId },
+        create: { userId, tokenHash },
+        update: { tokenHash, createdAt: new Date(), lastAccessedAt: null },
+      });
+
+      return {
+        success: true,
+        data: {
+          url: `${baseUrl}/feeds/${token}.ics`,
+          createdAt: feed.createdAt,
+        },
+        message: 'Calendar feed created successfully',
+      };
+    } catch (error) {
+      console.error('Create calendar feed error:', error);
+      return {
+        success: false,
+        error: 'Failed to create calendar feed',
+      };
+    }
+  }
+
+  /**
+   * Whether the user has a feed, and when calendars last fetched it
+   */
+  async getFeed(userId: string): Promise<ApiResponse<CalendarFeedStatus>> {
+    try {
+      const feed = await prisma.calendarFeed.findUnique({ where: { userId } });
+
+      return {
+        success: true,
+        data: feed
+          ? {
+              active: true,
+              createdAt: feed.createdAt,
+              lastAccessedAt: feed.lastAccessedAt || undefined,
+            }
+          : { active: false },
+      };
+    } catch (error) {
+      console.error('Get calendar feed error:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve calendar feed',
+      };
+    }
+  }
+
+  async revokeFeed(userId: string): Promise<ApiResponse<null>> {
+    try {
+      const { count } = await prisma.calendarFeed.deleteMany({
+        where: { userId },
+      });
+
+      if (count === 0) {
+        return {
+          success: false,
+          error: 'Calendar feed not found',
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Calendar feed revoked successfully',
+      };
+    } catch (error) {
+      console.error('Revoke calendar feed error:', error);
+      return {
+        success: false,
+        error: 'Failed to revoke calendar feed',
+      };
+    }
+  }
+
+  /**
+   * Render the feed a token belongs to, or null for an unknown token
+   */
+  async renderFeed(token: string): Promise<string | null> {
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+    });
+    if (!feed) return null;
+
+    await prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastAccessedAt: new Date() },
+    });
+
+    return buildCalendar(await this.getUserEvents(feed.userId), {
+      name: 'OpportuneX',
+      refreshInterval: FEED_REFRESH_INTERVAL,
+    });
+  }
+
+  /**
+   * Calendar events for everything the user has on: deadlines and dates of
+   * favourite and applied opportunities, mentorship sessions as mentor or
+   * student, and presentations they give or registered for
+   */
+  async getUserEvents(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<CalendarEvent[]> {
+    const since = new Date(
+      now.getTime() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    const [opportunities, sessions, presentations] = await Promise.all([
+      this.getOpportunityEvents(userId, since),
+      this.getMentorshipSessionEvents(userId, since),
+      this.getPresentationEvents(userId, since),
+    ]);
+
+    return [...opportunities, ...sessions, ...presentations].sort(
+      (a, b) => a.start.getTime() - b.start.getTime()
+    );
+  }
+
+  private async getOpportunityEvents(
+    userId: string,
+    since: Date
+  ): Promise<CalendarEvent[]> {
+    const [favorites, applications] = await Promise.all([
+      prisma.userFavorite.findMany({
+        where: { userId },
+        include: { opportunity: true },
+      }),
+      prisma.application.findMany({
+        where: { userId, status: { notIn: CLOSED_APPLICATION_STATUSES } },
+        include: { opportunity: true },
+      }),
+    ]);
+
+    // Favourited and applied to is still one opportunity
+    const opportunities = new Map<string, any>();
+    for (const { opportunity } of [...favorites, ...applications]) {
+      const lastDate =
+        opportunity.endDate ||
+        opportunity.startDate ||
+        opportunity.applicationDeadline;
+      if (lastDate >= since) {
+        opportunities.set(opportunity.id, opportunity);
+      }
+    }
+    if (opportunities.size === 0) return [];
+
+    const alarms = await this.getDeadlineAlarms(userId, [
+      ...opportunities.keys(),
+    ]);
+
+    return [...opportunities.values()].flatMap(opportunity =>
+      opportunityEvents(
+        {
+          id: opportunity.id,
+          title: opportunity.title,
+          description: opportunity.description || undefined,
+          organizerName: opportunity.organizerName,
+          location:
+            opportunity.mode === 'online'
+              ? 'Online'
+              : opportunity.location || undefined,
+          url: opportunity.externalUrl,
+          deadline: opportunity.applicationDeadline,
+          startDate: opportunity.startDate || undefined,
+          endDate: opportunity.endDate || undefined,
+          updatedAt: opportunity.updatedAt,
+        },
+        alarms.get(opportunity.id)
+      )
+    );
+  }
+
+  /**
+   * Alarms at the times of the user's own deadline reminders, for
+   * opportunities they set reminders on
+   */
+  private async getDeadlineAlarms(
+    userId: string,
+    opportunityIds: string[]
+  ): Promise<Map<string, CalendarAlarm[]>> {
+    const reminders = await prisma.deadlineReminder.findMany({
+      where: {
+        userId,
+        isActive: true,
+        opportunityId: { in: opportunityIds },
+      },
+    });
+
+    const alarms = new Map<string, CalendarAlarm[]>();
+    for (const reminder of reminders) {
+      const description = `Deadline: ${reminder.opportunityTitle}`;
+      alarms.set(
+        reminder.opportunityId,
+        reminder.reminderTimes.map((time: Date) => ({
+          before: reminder.deadline.getTime() - time.getTime(),
+          description,
+        }))
+      );
+    }
+
+    return alarms;
+  }
+
+  private async getMentorshipSessionEvents(
+    userId: string,
+    since: Date
+  ): Promise<CalendarEvent[]> {
+    // Mentorship tables are managed outside Prisma
+    const rows: any[] = await prisma.$queryRaw`
+      SELECT s.*
+      FROM mentorship_sessions s
+      LEFT JOIN mentor_profiles m ON m.id = s.mentor_id
+      WHERE (s.student_id = ${userId}::uuid OR m.user_id = ${userId}::uuid)
+        AND s.scheduled_at >= ${since}
+        AND s.status <> 'no_show'
+      ORDER BY s.scheduled_at
+    `;
+
+    return rows.map(row =>
+      mentorshipSessionEvent({
+        id: row.id,
+        title: row.title,
+        description: row.description || undefined,
+        agenda: row.agenda || undefined,
+        scheduledAt: new Date(row.scheduled_at),
+        durationMinutes: row.duration_minutes,
+        meetingUrl: row.meeting_url || undefined,
+        meetingPlatform: row.meeting_platform || undefined,
+        status: row.status,
+        updatedAt: new Date(row.updated_at),
+      })
+    );
+  }
+
+  private async getPresentationEvents(
+    userId: string,
+    since: Date
+  ): Promise<CalendarEvent[]> {
+    const presentations = await prisma.virtualPresentation.findMany({
+      where: {
+        scheduledAt: { gte: since },
+        OR: [{ presenterId: userId }, { registrations: { some: { userId } } }],
+      },
+      include: { space: { select: { name: true } } },
+      orderBy: { scheduledAt: 'asc' },
+    });
+
+    return presentations.map((presentation: any) =>
+      presentationEvent({
+        id: presentation.id,
+        title: presentation.title,
+        description: presentation.description || undefined,
+        spaceName: presentation.space?.name,
+        scheduledAt: presentation.scheduledAt,
+        startedAt: presentation.startedAt || undefined,
+        endedAt: presentation.endedAt || undefined,
+        isActive: presentation.isActive,
+        updatedAt: presentation.updatedAt,
+      })
+    );
+  }
+}
+
+export const calendarService = new CalendarService();
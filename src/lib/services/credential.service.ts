@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { eventBus } from '../events/event-bus';
 import { blockchainService, CredentialMetadata } from './blockchain.service';
 import { ipfsService } from './ipfs.service';
 
@@ -130,6 +131,20 @@ class CredentialService {
         },
       });
 
+      eventBus.emit(
+        'credential.issued',
+        {
+          id: credential.id,
+          userId: credential.userId,
+          opportunityId: request.opportunityId,
+          credentialType: credential.credentialType,
+          title: request.title,
+          blockchainId: credential.blockchainId,
+          issuedAt: credential.issuedAt.toISOString(),
+        },
+        { audience: [credential.userId] }
+      );
+
       return credential;
     } catch (error) {
       console.error('Failed to issue credential:', error);
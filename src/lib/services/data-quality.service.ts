@@ -1,5 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import type { ApiResponse, Opportunity } from '../../types';
+import { eventBus } from '../events/event-bus';
+import { standardizeSkills } from '../skills-taxonomy';
 import { searchService } from './search.service';
 
 const prisma = new PrismaClient();
@@ -260,7 +262,7 @@ export class DataQualityService {
 
       // Standardize skills
       const originalSkills = [...standardized.requirements.skills];
-      standardized.requirements.skills = this.standardizeSkills(
+      standardized.requirements.skills = standardizeSkills(
         standardized.requirements.skills
       );
       if (
@@ -356,46 +358,6 @@ export class DataQualityService {
       .trim();
   }
 
-  /**
-   * Standardize skills
-   */
-  private standardizeSkills(skills: string[]): string[] {
-    const skillMap: { [key: string]: string } = {
-      js: 'JavaScript',
-      javascript: 'JavaScript',
-      ts: 'TypeScript',
-      typescript: 'TypeScript',
-      py: 'Python',
-      python: 'Python',
-      java: 'Java',
-      'c++': 'C++',
-      cpp: 'C++',
-      'c#': 'C#',
-      csharp: 'C#',
-      html: 'HTML',
-      css: 'CSS',
-      react: 'React',
-      reactjs: 'React',
-      vue: 'Vue.js',
-      vuejs: 'Vue.js',
-      angular: 'Angular',
-      node: 'Node.js',
-      nodejs: 'Node.js',
-      ml: 'Machine Learning',
-      ai: 'Artificial Intelligence',
-      ds: 'Data Science',
-    };
-
-    return skills
-      .map(skill => skill.trim().toLowerCase())
-      .filter(skill => skill.length > 0)
-      .map(
-        skill =>
-          skillMap[skill] || skill.charAt(0).toUpperCase() + skill.slice(1)
-      )
-      .filter((skill, index, arr) => arr.indexOf(skill) === index); // Remove duplicates
-  }
-
   /**
    * Standardize location
    */
@@ -771,6 +733,12 @@ export class DataQualityService {
       // Remove from search index
       for (const opportunity of expiredOpportunities) {
         await searchService.removeOpportunity(opportunity.id);
+
+        eventBus.emit('opportunity.expired', {
+          id: opportunity.id,
+          title: opportunity.title,
+          applicationDeadline: opportunity.applicationDeadline.toISOString(),
+        });
       }
 
       return {
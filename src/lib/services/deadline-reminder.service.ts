@@ -1,6 +1,15 @@
+import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
+import type { ReminderInterval } from '../reminder-schedules';
+import {
+  DEFAULT_REMINDER_SCHEDULES,
+  STANDARD_REMINDER_SCHEDULE_ID,
+} from '../reminder-schedules';
+import { jobQueue } from './job-queue.service';
 import { notificationService } from './notification.service';
 
+const prisma = new PrismaClient();
+
 // Deadline reminder interfaces
 export interface DeadlineReminder {
   id: string;
@@ -21,14 +30,17 @@ export interface ReminderSchedule {
   id: string;
   name: string;
   description: string;
-  intervals: Array<{
-    value: number;
-    unit: 'minutes' | 'hours' | 'days' | 'weeks';
-    label: string;
-  }>;
+  intervals: ReminderInterval[];
   active: boolean;
 }
 
+const REMINDER_JOB = 'reminder.send';
+
+interface ReminderJobPayload {
+  reminderId: string;
+  reminderIndex: number;
+}
+
 // Validation schemas
 const deadlineReminderSchema = z.object({
   userId: z.string().min(1),
@@ -47,58 +59,33 @@ const deadlineReminderSchema = z.object({
   channels: z.array(z.enum(['email', 'sms', 'in_app', 'push'])).min(1),
 });
 
+const idSchema = z.string().uuid();
+
 // Deadline reminder service
 export class DeadlineReminderService {
-  private reminders: Map<string, DeadlineReminder> = new Map();
+  // Built-in schedules; custom ones are stored in the database
   private schedules: Map<string, ReminderSchedule> = new Map();
   private intervalId?: NodeJS.Timeout;
 
   constructor() {
     this.initializeDefaultSchedules();
     this.startReminderProcessor();
+
+    jobQueue.registerHandler<ReminderJobPayload>(
+      REMINDER_JOB,
+      job =>
+        this.sendQueuedReminder(
+          job.payload.reminderId,
+          job.payload.reminderIndex
+        ),
+      { queue: 'notifications', maxAttempts: 3, backoffMs: 60 * 1000 }
+    );
   }
 
   // Initialize default reminder schedules
   private initializeDefaultSchedules(): void {
-    const defaultSchedules: Array<Omit<ReminderSchedule, 'id'>> = [
-      {
-        name: 'Standard Reminders',
-        description: 'Standard reminder schedule for most opportunities',
-        intervals: [
-          { value: 7, unit: 'days', label: '1 week before' },
-          { value: 3, unit: 'days', label: '3 days before' },
-          { value: 1, unit: 'days', label: '1 day before' },
-          { value: 6, unit: 'hours', label: '6 hours before' },
-        ],
-        active: true,
-      },
-      {
-        name: 'Urgent Reminders',
-        description: 'More frequent reminders for high-priority opportunities',
-        intervals: [
-          { value: 2, unit: 'weeks', label: '2 weeks before' },
-          { value: 1, unit: 'weeks', label: '1 week before' },
-          { value: 3, unit: 'days', label: '3 days before' },
-          { value: 1, unit: 'days', label: '1 day before' },
-          { value: 6, unit: 'hours', label: '6 hours before' },
-          { value: 2, unit: 'hours', label: '2 hours before' },
-        ],
-        active: true,
-      },
-      {
-        name: 'Minimal Reminders',
-        description: 'Fewer reminders for users who prefer less notifications',
-        intervals: [
-          { value: 3, unit: 'days', label: '3 days before' },
-          { value: 1, unit: 'days', label: '1 day before' },
-        ],
-        active: true,
-      },
-    ];
-
-    defaultSchedules.forEach((schedule, index) => {
-      const id = `schedule-${index + 1}`;
-      this.schedules.set(id, { ...schedule, id });
+    DEFAULT_REMINDER_SCHEDULES.forEach(schedule => {
+      this.schedules.set(schedule.id, { ...schedule, active: true });
     });
   }
 
@@ -125,14 +112,16 @@ export class DeadlineReminderService {
     // Use provided intervals or default schedule
     let intervals = params.reminderIntervals;
     if (!intervals && params.scheduleId) {
-      const schedule = this.schedules.get(params.scheduleId);
+      const schedule = await this.getSchedule(params.scheduleId);
       if (schedule) {
         intervals = schedule.intervals;
       }
     }
     if (!intervals) {
       // Use standard schedule as default
-      const standardSchedule = this.schedules.get('schedule-1');
+      const standardSchedule = this.schedules.get(
+        STANDARD_REMINDER_SCHEDULE_ID
+      );
       intervals = standardSchedule?.intervals || [
         { value: 1, unit: 'days', label: '1 day before' },
       ];
@@ -161,24 +150,23 @@ export class DeadlineReminderService {
       .filter(time => time > new Date()) // Only future reminders
       .sort((a, b) => a.getTime() - b.getTime()); // Sort chronologically
 
-    const reminder: DeadlineReminder = {
-      id: this.generateId(),
-      userId: validatedParams.userId,
-      opportunityId: validatedParams.opportunityId,
-      opportunityTitle: validatedParams.opportunityTitle,
-      opportunityType: validatedParams.opportunityType,
-      deadline: validatedParams.deadline,
-      reminderTimes,
-      channels: validatedParams.channels,
-      sent: new Array(reminderTimes.length).fill(false),
-      active: true,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    const reminder = toReminder(
+      await prisma.deadlineReminder.create({
+        data: {
+          userId: validatedParams.userId,
+          opportunityId: validatedParams.opportunityId,
+          opportunityTitle: validatedParams.opportunityTitle,
+          opportunityType: validatedParams.opportunityType,
+          deadline: validatedParams.deadline,
+          reminderTimes,
+          channels: validatedParams.channels,
+          sent: new Array(reminderTimes.length).fill(false),
+        },
+      })
+    );
 
-    this.reminders.set(reminder.id, reminder);
+    await this.queueReminderJobs(reminder);
 
-    // TODO: Store in database
     console.log(
       `Created deadline reminder ${reminder.id} for opportunity ${params.opportunityId}`
     );
@@ -195,30 +183,17 @@ export class DeadlineReminderService {
       upcoming?: boolean;
     } = {}
   ): Promise<DeadlineReminder[]> {
-    let userReminders = Array.from(this.reminders.values()).filter(
-      reminder => reminder.userId === userId
-    );
-
-    if (options.active !== undefined) {
-      userReminders = userReminders.filter(
-        reminder => reminder.active === options.active
-      );
-    }
-
-    if (options.opportunityId) {
-      userReminders = userReminders.filter(
-        reminder => reminder.opportunityId === options.opportunityId
-      );
-    }
-
-    if (options.upcoming) {
-      const now = new Date();
-      userReminders = userReminders.filter(reminder => reminder.deadline > now);
-    }
+    const records = await prisma.deadlineReminder.findMany({
+      where: {
+        userId,
+        isActive: options.active,
+        opportunityId: options.opportunityId || undefined,
+        deadline: options.upcoming ? { gt: new Date() } : undefined,
+      },
+      orderBy: { deadline: 'asc' },
+    });
 
-    return userReminders.sort(
-      (a, b) => a.deadline.getTime() - b.deadline.getTime()
-    );
+    return records.map(toReminder);
   }
 
   // Update reminder
@@ -229,21 +204,29 @@ export class DeadlineReminderService {
       active?: boolean;
     }
   ): Promise<DeadlineReminder | null> {
-    const reminder = this.reminders.get(reminderId);
-    if (!reminder) return null;
+    if (!idSchema.safeParse(reminderId).success) return null;
 
-    if (updates.channels) {
-      reminder.channels = updates.channels;
-    }
+    const { count } = await prisma.deadlineReminder.updateMany({
+      where: { id: reminderId },
+      data: {
+        channels: updates.channels,
+        isActive: updates.active,
+      },
+    });
+    if (count === 0) return null;
 
-    if (updates.active !== undefined) {
-      reminder.active = updates.active;
-    }
+    const reminder = toReminder(
+      await prisma.deadlineReminder.findUniqueOrThrow({
+        where: { id: reminderId },
+      })
+    );
 
-    reminder.updatedAt = new Date();
-    this.reminders.set(reminderId, reminder);
+    // Re-queue so that an inactive reminder has no pending jobs left
+    await this.cancelReminderJobs(reminderId);
+    if (reminder.active) {
+      await this.queueReminderJobs(reminder);
+    }
 
-    // TODO: Update in database
     console.log(`Updated reminder ${reminderId}`);
 
     return reminder;
@@ -251,52 +234,70 @@ export class DeadlineReminderService {
 
   // Delete reminder
   async deleteReminder(reminderId: string, userId: string): Promise<boolean> {
-    const reminder = this.reminders.get(reminderId);
-    if (!reminder || reminder.userId !== userId) {
+    const { count } = idSchema.safeParse(reminderId).success
+      ? await prisma.deadlineReminder.deleteMany({
+          where: { id: reminderId, userId },
+        })
+      : { count: 0 };
+
+    if (count === 0) {
       return false;
     }
 
-    this.reminders.delete(reminderId);
+    await this.cancelReminderJobs(reminderId);
 
-    // TODO: Delete from database
     console.log(`Deleted reminder ${reminderId}`);
 
     return true;
   }
 
-  // Process due reminders
-  private async processReminders(): Promise<void> {
-    const now = new Date();
-    const dueReminders: Array<{
-      reminder: DeadlineReminder;
-      reminderIndex: number;
-    }> = [];
-
-    // Find due reminders
-    for (const reminder of this.reminders.values()) {
-      if (!reminder.active) continue;
-
-      reminder.reminderTimes.forEach((reminderTime, index) => {
-        if (!reminder.sent[index] && reminderTime <= now) {
-          dueReminders.push({ reminder, reminderIndex: index });
+  // Queue one job per unsent reminder time. Jobs survive restarts and the
+  // queue runs each of them on exactly one instance.
+  private async queueReminderJobs(reminder: DeadlineReminder): Promise<void> {
+    for (const [index, reminderTime] of reminder.reminderTimes.entries()) {
+      if (reminder.sent[index]) continue;
+
+      await jobQueue.enqueue<ReminderJobPayload>(
+        REMINDER_JOB,
+        { reminderId: reminder.id, reminderIndex: index },
+        {
+          subject: reminder.id,
+          runAt: reminderTime,
+          dedupeKey: `${REMINDER_JOB}:${reminder.id}:${index}:${reminder.updatedAt.getTime()}`,
         }
-      });
+      );
     }
+  }
 
-    // Send due reminders
-    for (const { reminder, reminderIndex } of dueReminders) {
-      try {
-        await this.sendReminder(reminder, reminderIndex);
-        reminder.sent[reminderIndex] = true;
-        reminder.updatedAt = new Date();
-        this.reminders.set(reminder.id, reminder);
-      } catch (error) {
-        console.error(`Failed to send reminder ${reminder.id}:`, error);
-      }
-    }
+  private async cancelReminderJobs(reminderId: string): Promise<void> {
+    await jobQueue.cancelPending(
+      { name: REMINDER_JOB, subject: reminderId },
+      'Reminder updated or deleted'
+    );
+  }
 
-    // Clean up expired reminders
-    await this.cleanupExpiredReminders();
+  // Send a reminder from the job queue
+  private async sendQueuedReminder(
+    reminderId: string,
+    reminderIndex: number
+  ): Promise<void> {
+    const record = await prisma.deadlineReminder.findUnique({
+      where: { id: reminderId },
+    });
+    if (!record) return;
+
+    const reminder = toReminder(record);
+    if (!reminder.active || reminder.sent[reminderIndex]) return;
+
+    await this.sendReminder(reminder, reminderIndex);
+
+    // Flip only this slot so that jobs for other reminder times of the same
+    // reminder cannot overwrite each other (Postgres arrays are 1-based)
+    await prisma.$executeRaw`
+      UPDATE deadline_reminders
+      SET sent[${reminderIndex + 1}] = true, updated_at = NOW()
+      WHERE id = ${reminderId}::uuid
+    `;
   }
 
   // Send individual reminder
@@ -374,40 +375,29 @@ export class DeadlineReminderService {
 
   // Clean up expired reminders
   private async cleanupExpiredReminders(): Promise<number> {
-    const now = new Date();
-    const expiredReminders: string[] = [];
-
-    for (const [id, reminder] of this.reminders.entries()) {
-      // Remove reminders for opportunities that are past deadline + 1 day
-      const cleanupTime = new Date(reminder.deadline);
-      cleanupTime.setDate(cleanupTime.getDate() + 1);
-
-      if (now > cleanupTime) {
-        expiredReminders.push(id);
-      }
-    }
+    // Remove reminders for opportunities that are past deadline + 1 day
+    const cleanupTime = new Date();
+    cleanupTime.setDate(cleanupTime.getDate() - 1);
 
-    expiredReminders.forEach(id => {
-      this.reminders.delete(id);
+    const { count } = await prisma.deadlineReminder.deleteMany({
+      where: { deadline: { lt: cleanupTime } },
     });
 
-    if (expiredReminders.length > 0) {
-      // TODO: Delete from database
-      console.log(
-        `Cleaned up ${expiredReminders.length} expired deadline reminders`
-      );
+    if (count > 0) {
+      console.log(`Cleaned up ${count} expired deadline reminders`);
     }
 
-    return expiredReminders.length;
+    return count;
   }
 
-  // Start reminder processor
+  // Start reminder processor. Sending is driven by the job queue; this only
+  // deletes expired reminders.
   private startReminderProcessor(): void {
-    // Process reminders every 5 minutes
+    // Clean up every 5 minutes
     this.intervalId = setInterval(
       () => {
-        this.processReminders().catch(error => {
-          console.error('Error processing deadline reminders:', error);
+        this.cleanupExpiredReminders().catch(error => {
+          console.error('Error cleaning up deadline reminders:', error);
         });
       },
       5 * 60 * 1000
@@ -426,20 +416,45 @@ export class DeadlineReminderService {
   }
 
   // Get reminder schedules
-  getReminderSchedules(): ReminderSchedule[] {
-    return Array.from(this.schedules.values()).filter(
-      schedule => schedule.active
-    );
+  async getReminderSchedules(): Promise<ReminderSchedule[]> {
+    const custom = await prisma.reminderSchedule.findMany({
+      where: { isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return Array.from(this.schedules.values())
+      .filter(schedule => schedule.active)
+      .concat(custom.map(toSchedule));
   }
 
   // Add custom reminder schedule
-  addReminderSchedule(
+  async addReminderSchedule(
     schedule: Omit<ReminderSchedule, 'id'>
-  ): ReminderSchedule {
-    const id = this.generateId();
-    const fullSchedule: ReminderSchedule = { ...schedule, id };
-    this.schedules.set(id, fullSchedule);
-    return fullSchedule;
+  ): Promise<ReminderSchedule> {
+    const record = await prisma.reminderSchedule.create({
+      data: {
+        name: schedule.name,
+        description: schedule.description,
+        intervals: schedule.intervals,
+        isActive: schedule.active,
+      },
+    });
+
+    return toSchedule(record);
+  }
+
+  // Look up a built-in or custom schedule
+  private async getSchedule(
+    scheduleId: string
+  ): Promise<ReminderSchedule | null> {
+    const builtIn = this.schedules.get(scheduleId);
+    if (builtIn) return builtIn;
+    if (!idSchema.safeParse(scheduleId).success) return null;
+
+    const record = await prisma.reminderSchedule.findUnique({
+      where: { id: scheduleId },
+    });
+    return record ? toSchedule(record) : null;
   }
 
   // Get reminder statistics
@@ -451,11 +466,9 @@ export class DeadlineReminderService {
     byOpportunityType: Record<string, number>;
     byChannel: Record<string, number>;
   }> {
-    let reminders = Array.from(this.reminders.values());
-
-    if (userId) {
-      reminders = reminders.filter(r => r.userId === userId);
-    }
+    const reminders: DeadlineReminder[] = (
+      await prisma.deadlineReminder.findMany({ where: { userId } })
+    ).map(toReminder);
 
     const now = new Date();
     const activeReminders = reminders.filter(r => r.active);
@@ -526,11 +539,33 @@ export class DeadlineReminderService {
 
     return reminders;
   }
+}
 
-  // Generate unique ID
-  private generateId(): string {
-    return Math.random().toString(36).substring(2) + Date.now().toString(36);
-  }
+function toReminder(record: any): DeadlineReminder {
+  return {
+    id: record.id,
+    userId: record.userId,
+    opportunityId: record.opportunityId,
+    opportunityTitle: record.opportunityTitle,
+    opportunityType: record.opportunityType,
+    deadline: record.deadline,
+    reminderTimes: record.reminderTimes,
+    channels: record.channels,
+    sent: record.sent,
+    active: record.isActive,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+function toSchedule(record: any): ReminderSchedule {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description,
+    intervals: record.intervals as ReminderSchedule['intervals'],
+    active: record.isActive,
+  };
 }
 
 // Export singleton instance
@@ -0,0 +1,245 @@
+import type { Namespace, Socket, Server as SocketIOServer } from 'socket.io';
+import type { ApiResponse } from '../../types';
+import { authService } from './auth.service';
+import { notificationService } from './notification.service';
+import type { DirectMessageData, ReadReceipt } from './social.service';
+import { socialService } from './social.service';
+
+// Longest message preview in offline notifications
+const PREVIEW_LENGTH = 120;
+
+type Ack<T = any> = (response: ApiResponse<T>) => void;
+
+const userRoom = (userId: string) => `user:${userId}`;
+
+/**
+ * Real-time direct messaging over the `/messages` namespace of the signaling
+ * server's socket.io instance. Every socket of a user joins that user's room,
+ * so messages, edits, deletions, read receipts and typing indicators reach
+ * all of their open tabs and devices. Recipients with no open socket get a
+ * push and in-app notification instead.
+ *
+ * Messages sent through the REST API are delivered the same way, and without
+ * an attached server every recipient counts as offline.
+ */
+export class DirectMessagingService {
+  private namespace?: Namespace;
+
+  /**
+   * Start serving the messaging namespace on a socket.io server
+   */
+  attach(io: SocketIOServer): void {
+    this.namespace = io.of('/messages');
+    this.namespace.use((socket, next) => this.authenticate(socket, next));
+    this.namespace.on('connection', socket => this.handleConnection(socket));
+  }
+
+  /**
+   * Whether the user has a messaging socket open
+   */
+  isOnline(userId: string): boolean {
+    return Boolean(this.namespace?.adapter.rooms.get(userRoom(userId))?.size);
+  }
+
+  /**
+   * Push a new message to both users, or notify an offline recipient
+   */
+  async deliverMessage(message: DirectMessageData): Promise<void> {
+    this.emitToUsers(
+      [message.sender.id, message.receiver.id],
+      'new-message',
+      message
+    );
+
+    if (!this.isOnline(message.receiver.id)) {
+      await this.notifyOfflineRecipient(message);
+    }
+  }
+
+  messageUpdated(message: DirectMessageData): void {
+    this.emitToUsers(
+      [message.sender.id, message.receiver.id],
+      'message-updated',
+      message
+    );
+  }
+
+  messageDeleted(message: DirectMessageData): void {
+    this.emitToUsers(
+      [message.sender.id, message.receiver.id],
+      'message-deleted',
+      message
+    );
+  }
+
+  /**
+   * Tell the sender their messages were read, and the reader's other
+   * sockets that the conversation has no unread messages left
+   */
+  messagesRead(receipt: ReadReceipt): void {
+    if (receipt.messageIds.length === 0) return;
+
+    this.emitToUsers(
+      [receipt.senderId, receipt.readerId],
+      'messages-read',
+      receipt
+    );
+  }
+
+  /**
+   * Stop serving the namespace and disconnect its sockets
+   */
+  close(): void {
+    this.namespace?.disconnectSockets(true);
+    this.namespace = undefined;
+  }
+
+  private authenticate(socket: Socket, next: (error?: Error) => void): void {
+    try {
+      const token = socket.handshake.auth?.token;
+      const decoded = token ? authService.verifyAccessToken(token) : null;
+
+      if (!decoded || !decoded.id) {
+        return next(new Error('Unauthorized'));
+      }
+
+      socket.data.userId = decoded.id;
+      next();
+    } catch {
+      next(new Error('Unauthorized'));
+    }
+  }
+
+  private handleConnection(socket: Socket): void {
+    const { userId } = socket.data as { userId: string };
+    socket.join(userRoom(userId));
+
+    socket.on('list-conversations', async (ack: Ack) => {
+      this.reply(ack, await socialService.getConversations(userId));
+    });
+
+    socket.on('send-message', async (data: any, ack: Ack) => {
+      if (typeof data?.receiverId !== 'string') {
+        return this.reply(ack, { success: false, error: 'Invalid message' });
+      }
+
+      const result = await socialService.sendDirectMessage(
+        userId,
+        data.receiverId,
+        typeof data.content === 'string' ? data.content : '',
+        Array.isArray(data.attachmentIds) ? data.attachmentIds : []
+      );
+      this.reply(ack, result);
+
+      if (result.success) {
+        await this.deliverMessage(result.data!);
+      }
+    });
+
+    socket.on('edit-message', async (data: any, ack: Ack) => {
+      if (
+        typeof data?.messageId !== 'string' ||
+        typeof data?.content !== 'string'
+      ) {
+        return this.reply(ack, { success: false, error: 'Invalid message' });
+      }
+
+      const result = await socialService.editDirectMessage(
+        data.messageId,
+        userId,
+        data.content
+      );
+      this.reply(ack, result);
+
+      if (result.success) {
+        this.messageUpdated(result.data!);
+      }
+    });
+
+    socket.on('delete-message', async (data: any, ack: Ack) => {
+      if (typeof data?.messageId !== 'string') {
+        return this.reply(ack, { success: false, error: 'Invalid message' });
+      }
+
+      const result = await socialService.deleteDirectMessage(
+        data.messageId,
+        userId
+      );
+      this.reply(ack, result);
+
+      if (result.success) {
+        this.messageDeleted(result.data!);
+      }
+    });
+
+    socket.on('mark-read', async (data: any, ack: Ack) => {
+      if (typeof data?.userId !== 'string') {
+        return this.reply(ack, { success: false, error: 'Invalid user' });
+      }
+
+      const result = await socialService.markMessagesRead(userId, data.userId);
+      this.reply(ack, result);
+
+      if (result.success) {
+        this.messagesRead(result.data!);
+      }
+    });
+
+    // Typing indicators are not stored; clients expire them after a few
+    // seconds without a refresh
+    socket.on('typing', (data: any) => {
+      if (typeof data?.receiverId !== 'string' || data.receiverId === userId) {
+        return;
+      }
+
+      socket.to(userRoom(data.receiverId)).emit('typing', {
+        userId,
+        isTyping: Boolean(data.isTyping),
+      });
+    });
+  }
+
+  private emitToUsers(userIds: string[], event: string, data: any): void {
+    if (!this.namespace) return;
+
+    this.namespace.to([...new Set(userIds)].map(userRoom)).emit(event, data);
+  }
+
+  private reply<T>(ack: Ack<T> | undefined, response: ApiResponse<T>): void {
+    if (typeof ack === 'function') {
+      ack(response);
+    }
+  }
+
+  private async notifyOfflineRecipient(
+    message: DirectMessageData
+  ): Promise<void> {
+    const attachmentCount = message.attachments.length;
+    const preview =
+      message.content.length > PREVIEW_LENGTH
+        ? `${message.content.slice(0, PREVIEW_LENGTH - 1)}…`
+        : message.content ||
+          `Sent ${attachmentCount} attachment${attachmentCount === 1 ? '' : 's'}`;
+
+    try {
+      await notificationService.sendNotification({
+        userId: message.receiver.id,
+        type: 'direct_message',
+        channels: ['push', 'in_app'],
+        content: {
+          title: `New message from ${message.sender.name}`,
+          message: preview,
+          data: {
+            messageId: message.id,
+            senderId: message.sender.id,
+          },
+        },
+        priority: 'normal',
+      });
+    } catch (error) {
+      console.error('Direct message notification error:', error);
+    }
+  }
+}
+
+export const directMessagingService = new DirectMessagingService();
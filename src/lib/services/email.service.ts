@@ -80,33 +80,15 @@ export interface EmailDeliveryStatus {
   openCount?: number;
 }
 
-// SendGrid email service implementation
-export class SendGridEmailService implements EmailService {
-  private config: z.infer<typeof emailConfigSchema>;
-  private baseUrl = 'https://api.sendgrid.com/v3';
-  private templates: Map<string, EmailTemplate> = new Map();
-
-  constructor(config: {
-    apiKey: string;
-    fromEmail: string;
-    fromName: string;
-    replyToEmail?: string;
-    webhookSecret?: string;
-  }) {
-    this.config = emailConfigSchema.parse(config);
-    this.initializeDefaultTemplates();
-  }
-
-  // Initialize default email templates
-  private initializeDefaultTemplates(): void {
-    const defaultTemplates: Array<
-      Omit<EmailTemplate, 'createdAt' | 'updatedAt'>
-    > = [
-      {
-        id: 'welcome',
-        name: 'Welcome Email',
-        subject: 'Welcome to OpportuneX!',
-        htmlContent: `
+// Default email templates
+const DEFAULT_EMAIL_TEMPLATES: Array<
+  Omit<EmailTemplate, 'createdAt' | 'updatedAt'>
+> = [
+  {
+    id: 'welcome',
+    name: 'Welcome Email',
+    subject: 'Welcome to OpportuneX!',
+    htmlContent: `
           <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
             <h1 style="color: #007bff;">Welcome to OpportuneX!</h1>
             <p>Hi {{name}},</p>
@@ -127,7 +109,7 @@ export class SendGridEmailService implements EmailService {
             </p>
           </div>
         `,
-        textContent: `
+    textContent: `
           Welcome to OpportuneX!
           
           Hi {{name}},
@@ -146,14 +128,14 @@ export class SendGridEmailService implements EmailService {
           Best regards,
           The OpportuneX Team
         `,
-        variables: ['name', 'dashboardUrl'],
-        active: true,
-      },
-      {
-        id: 'password-reset',
-        name: 'Password Reset',
-        subject: 'Reset Your OpportuneX Password',
-        htmlContent: `
+    variables: ['name', 'dashboardUrl'],
+    active: true,
+  },
+  {
+    id: 'password-reset',
+    name: 'Password Reset',
+    subject: 'Reset Your OpportuneX Password',
+    htmlContent: `
           <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
             <h1 style="color: #007bff;">Password Reset Request</h1>
             <p>Hi {{name}},</p>
@@ -167,7 +149,7 @@ export class SendGridEmailService implements EmailService {
             </p>
           </div>
         `,
-        textContent: `
+    textContent: `
           Password Reset Request
           
           Hi {{name}},
@@ -183,14 +165,51 @@ export class SendGridEmailService implements EmailService {
           Best regards,
           The OpportuneX Team
         `,
-        variables: ['name', 'resetUrl'],
-        active: true,
-      },
-      {
-        id: 'opportunity-digest',
-        name: 'Weekly Opportunity Digest',
-        subject: 'Your Weekly Opportunity Digest - {{count}} New Opportunities',
-        htmlContent: `
+    variables: ['name', 'resetUrl'],
+    active: true,
+  },
+  {
+    id: 'email-verification',
+    name: 'Email Verification',
+    subject: 'Verify your OpportuneX email address',
+    htmlContent: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h1 style="color: #007bff;">Verify your email</h1>
+            <p>Hi {{name}},</p>
+            <p>Please confirm that this is your email address so we can send you opportunity alerts and account notices.</p>
+            <p>This link will expire in 24 hours.</p>
+            <a href="{{verifyUrl}}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">Verify Email</a>
+            <p style="margin-top: 20px;">If you didn't create an OpportuneX account, please ignore this email.</p>
+            <p style="color: #666;">
+              Best regards,<br>
+              The OpportuneX Team
+            </p>
+          </div>
+        `,
+    textContent: `
+          Verify your email
+          
+          Hi {{name}},
+          
+          Please confirm that this is your email address so we can send you opportunity alerts and account notices.
+          
+          Open the link below to verify. This link will expire in 24 hours.
+          
+          {{verifyUrl}}
+          
+          If you didn't create an OpportuneX account, please ignore this email.
+          
+          Best regards,
+          The OpportuneX Team
+        `,
+    variables: ['name', 'verifyUrl'],
+    active: true,
+  },
+  {
+    id: 'opportunity-digest',
+    name: 'Weekly Opportunity Digest',
+    subject: 'Your Weekly Opportunity Digest - {{count}} New Opportunities',
+    htmlContent: `
           <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
             <h1 style="color: #007bff;">Your Weekly Opportunity Digest</h1>
             <p>Hi {{name}},</p>
@@ -222,7 +241,7 @@ export class SendGridEmailService implements EmailService {
             </p>
           </div>
         `,
-        textContent: `
+    textContent: `
           Your Weekly Opportunity Digest
           
           Hi {{name}},
@@ -244,19 +263,100 @@ export class SendGridEmailService implements EmailService {
           Unsubscribe: {{unsubscribeUrl}}
           Manage preferences: {{preferencesUrl}}
         `,
-        variables: [
-          'name',
-          'count',
-          'opportunities',
-          'moreOpportunitiesUrl',
-          'unsubscribeUrl',
-          'preferencesUrl',
-        ],
-        active: true,
-      },
-    ];
+    variables: [
+      'name',
+      'count',
+      'opportunities',
+      'moreOpportunitiesUrl',
+      'unsubscribeUrl',
+      'preferencesUrl',
+    ],
+    active: true,
+  },
+];
+
+// Substitute {{variables}} and {{#arrays}}...{{/arrays}} in a template
+function processEmailTemplate(
+  template: Omit<EmailTemplate, 'createdAt' | 'updatedAt'>,
+  variables: Record<string, any>
+): {
+  subject: string;
+  html: string;
+  text: string;
+} {
+  const processString = (str: string) => {
+    // Handle simple variable substitution
+    let processed = str.replace(/\{\{(\w+)\}\}/g, (match, key) => {
+      return variables[key] || match;
+    });
+
+    // Handle array iteration (basic Handlebars-like syntax)
+    processed = processed.replace(
+      /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g,
+      (match, arrayKey, template) => {
+        const array = variables[arrayKey];
+        if (!Array.isArray(array)) return '';
+
+        return array
+          .map(item => {
+            return template.replace(
+              /\{\{(\w+)\}\}/g,
+              (itemMatch: string, itemKey: string) => {
+                return item[itemKey] || itemMatch;
+              }
+            );
+          })
+          .join('');
+      }
+    );
+
+    return processed;
+  };
+
+  return {
+    subject: processString(template.subject),
+    html: processString(template.htmlContent),
+    text: processString(template.textContent),
+  };
+}
+
+/**
+ * Render one of the default templates, for callers that send through the
+ * EmailService interface (which takes ready-made subject, html and text)
+ */
+export function renderEmailTemplate(
+  templateId: string,
+  variables: Record<string, any>
+): { subject: string; html: string; text: string } {
+  const template = DEFAULT_EMAIL_TEMPLATES.find(item => item.id === templateId);
+
+  if (!template) {
+    throw new Error(`Email template not found: ${templateId}`);
+  }
 
-    defaultTemplates.forEach(template => {
+  return processEmailTemplate(template, variables);
+}
+
+// SendGrid email service implementation
+export class SendGridEmailService implements EmailService {
+  private config: z.infer<typeof emailConfigSchema>;
+  private baseUrl = 'https://api.sendgrid.com/v3';
+  private templates: Map<string, EmailTemplate> = new Map();
+
+  constructor(config: {
+    apiKey: string;
+    fromEmail: string;
+    fromName: string;
+    replyToEmail?: string;
+    webhookSecret?: string;
+  }) {
+    this.config = emailConfigSchema.parse(config);
+    this.initializeDefaultTemplates();
+  }
+
+  // Initialize default email templates
+  private initializeDefaultTemplates(): void {
+    DEFAULT_EMAIL_TEMPLATES.forEach(template => {
       this.templates.set(template.id, {
         ...template,
         createdAt: new Date(),
@@ -521,40 +621,7 @@ export class SendGridEmailService implements EmailService {
     html: string;
     text: string;
   } {
-    const processString = (str: string) => {
-      // Handle simple variable substitution
-      let processed = str.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-        return variables[key] || match;
-      });
-
-      // Handle array iteration (basic Handlebars-like syntax)
-      processed = processed.replace(
-        /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g,
-        (match, arrayKey, template) => {
-          const array = variables[arrayKey];
-          if (!Array.isArray(array)) return '';
-
-          return array
-            .map(item => {
-              return template.replace(
-                /\{\{(\w+)\}\}/g,
-                (itemMatch: string, itemKey: string) => {
-                  return item[itemKey] || itemMatch;
-                }
-              );
-            })
-            .join('');
-        }
-      );
-
-      return processed;
-    };
-
-    return {
-      subject: processString(template.subject),
-      html: processString(template.htmlContent),
-      text: processString(template.textContent),
-    };
+    return processEmailTemplate(template, variables);
   }
 
   // Make HTTP request to SendGrid API
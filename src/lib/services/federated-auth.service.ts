@@ -0,0 +1,879 @@
+import { PrismaClient } from '@prisma/client';
+import axios from 'axios';
+import crypto from 'crypto';
+import type { ApiResponse } from '../../types';
+import { findSkills, standardizeSkills } from '../skills-taxonomy';
+import type {
+  AuthResponse,
+  SessionContext,
+  TwoFactorChallengeResponse,
+} from './auth.service';
+import { authService } from './auth.service';
+
+const prisma = new PrismaClient();
+
+const LOGIN_STATE_EXPIRES_IN_MS = 10 * 60 * 1000; // 10 minutes
+const PROVIDER_REQUEST_TIMEOUT_MS = 10000;
+const MAX_IMPORTED_SKILLS = 15;
+
+export type FederatedProvider = 'google' | 'github' | 'linkedin';
+
+// Display names of the providers users can sign in with
+export const FEDERATED_PROVIDERS: Record<FederatedProvider, string> = {
+  google: 'Google',
+  github: 'GitHub',
+  linkedin: 'LinkedIn',
+};
+
+// Profile read from a provider, normalized across providers
+export interface FederatedProfile {
+  providerUserId: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+  technicalSkills: string[];
+  institution?: string;
+  degree?: string;
+}
+
+export interface FederatedProviderItem {
+  id: FederatedProvider;
+  name: string;
+}
+
+export interface FederatedIdentityItem {
+  provider: FederatedProvider;
+  providerName: string;
+  email: string | null;
+  displayName: string | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface StartAuthorizationOptions {
+  linkUserId?: string; // Link to this signed-in user instead of signing in
+  returnTo?: string; // App path to open afterwards
+}
+
+export interface AuthorizationCallback {
+  code: string;
+  state: string;
+}
+
+export type FederatedCallbackResult =
+  | {
+      action: 'signed_in';
+      isNewUser: boolean;
+      returnTo: string | null;
+      session: AuthResponse | TwoFactorChallengeResponse;
+    }
+  | {
+      action: 'linked';
+      returnTo: string | null;
+      identity: FederatedIdentityItem;
+    };
+
+interface ProviderEndpoints {
+  authorizationUrl: string;
+  tokenUrl: string;
+  apiBaseUrl: string;
+  scopes: string[];
+  pkce: boolean;
+}
+
+interface ProviderConfig extends ProviderEndpoints {
+  clientId: string;
+  clientSecret: string;
+}
+
+const PROVIDER_ENDPOINTS: Record<FederatedProvider, ProviderEndpoints> = {
+  google: {
+    authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    apiBaseUrl: 'https://openidconnect.googleapis.com',
+    scopes: ['openid', 'email', 'profile'],
+    pkce: true,
+  },
+  github: {
+    authorizationUrl: 'https://github.com/login/oauth/authorize',
+    tokenUrl: 'https://github.com/login/oauth/access_token',
+    apiBaseUrl: 'https://api.github.com',
+    scopes: ['read:user', 'user:email'],
+    pkce: true,
+  },
+  linkedin: {
+    authorizationUrl: 'https://www.linkedin.com/oauth/v2/authorization',
+    tokenUrl: 'https://www.linkedin.com/oauth/v2/accessToken',
+    apiBaseUrl: 'https://api.linkedin.com',
+    scopes: ['openid', 'profile', 'email'],
+    // LinkedIn only accepts PKCE from native apps
+    pkce: false,
+  },
+};
+
+// Fields selected for a user about to be signed in
+const SIGN_IN_USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  emailVerifiedAt: true,
+  twoFactorEnabled: true,
+  bannedAt: true,
+  technicalSkills: true,
+  institution: true,
+  degree: true,
+};
+
+export function isFederatedProvider(value: string): value is FederatedProvider {
+  return Object.prototype.hasOwnProperty.call(FEDERATED_PROVIDERS, value);
+}
+
+/**
+ * Client credentials and endpoints for a provider, or null when it is not
+ * configured. FEDERATED_IDP_BASE_URL points every provider at a local mock
+ * IdP (see src/scripts/mock-idp.ts) outside production.
+ */
+function getProviderConfig(provider: FederatedProvider): ProviderConfig | null {
+  const prefix = provider.toUpperCase();
+  const clientId = process.env[`${prefix}_OAUTH_CLIENT_ID`];
+  const clientSecret = process.env[`${prefix}_OAUTH_CLIENT_SECRET`];
+
+  if (!clientId || !clientSecret) {
+    return null;
+  }
+
+  const endpoints = PROVIDER_ENDPOINTS[provider];
+  const mockBaseUrl = process.env.FEDERATED_IDP_BASE_URL?.replace(/\/$/, '');
+
+  if (mockBaseUrl && process.env.NODE_ENV !== 'production') {
+    return {
+      ...endpoints,
+      clientId,
+      clientSecret,
+      authorizationUrl: `${mockBaseUrl}/${provider}/authorize`,
+      tokenUrl: `${mockBaseUrl}/${provider}/token`,
+      apiBaseUrl: `${mockBaseUrl}/${provider}/api`,
+    };
+  }
+
+  return { ...endpoints, clientId, clientSecret };
+}
+
+/**
+ * Page in the app the provider sends the browser back to
+ */
+function getRedirectUri(provider: FederatedProvider): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/auth/callback/${provider}`;
+}
+
+function hashState(state: string): string {
+  return crypto.createHash('sha256').update(state).digest('hex');
+}
+
+/**
+ * Only same-origin paths, so the callback cannot be used as an open redirect
+ */
+function sanitizeReturnTo(returnTo?: string): string | null {
+  if (!returnTo || !returnTo.startsWith('/') || /^\/[/\\]/.test(returnTo)) {
+    return null;
+  }
+
+  return returnTo.slice(0, 500);
+}
+
+function toIdentityItem(identity: any): FederatedIdentityItem {
+  return {
+    provider: identity.provider,
+    providerName:
+      FEDERATED_PROVIDERS[identity.provider as FederatedProvider] ||
+      identity.provider,
+    email: identity.email,
+    displayName: identity.displayName,
+    lastUsedAt: identity.lastUsedAt,
+    createdAt: identity.createdAt,
+  };
+}
+
+function authorizationHeaders(accessToken: string) {
+  return {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/json',
+    },
+    timeout: PROVIDER_REQUEST_TIMEOUT_MS,
+  };
+}
+
+// Google sends email_verified as a boolean, older responses as a string
+function isTrue(value: unknown): boolean {
+  return value === true || value === 'true';
+}
+
+async function fetchGoogleProfile(
+  config: ProviderConfig,
+  accessToken: string
+): Promise<FederatedProfile> {
+  const { data } = await axios.get(
+    `${config.apiBaseUrl}/v1/userinfo`,
+    authorizationHeaders(accessToken)
+  );
+
+  return {
+    providerUserId: String(data.sub),
+    email: data.email || null,
+    emailVerified: isTrue(data.email_verified),
+    name: data.name || null,
+    technicalSkills: [],
+  };
+}
+
+/**
+ * GitHub profile, primary email and the languages of the user's own
+ * repositories, most used first
+ */
+async function fetchGithubProfile(
+  config: ProviderConfig,
+  accessToken: string
+): Promise<FederatedProfile> {
+  const options = authorizationHeaders(accessToken);
+  const [user, emails, repos] = await Promise.all([
+    axios.get(`${config.apiBaseUrl}/user`, options),
+    axios.get(`${config.apiBaseUrl}/user/emails`, options),
+    axios.get(
+      `${config.apiBaseUrl}/user/repos?per_page=100&sort=pushed&affiliation=owner`,
+      options
+    ),
+  ]);
+
+  const primary = (emails.data as any[]).find(item => item.primary);
+
+  const languageCounts = new Map<string, number>();
+  for (const repo of repos.data as any[]) {
+    if (repo.fork || !repo.language) continue;
+    languageCounts.set(
+      repo.language,
+      (languageCounts.get(repo.language) || 0) + 1
+    );
+  }
+  const languages = [...languageCounts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([language]) => language);
+
+  // "company" is where students usually put their college, often as @handle
+  const institution = user.data.company?.replace(/^@/, '').trim();
+
+  return {
+    providerUserId: String(user.data.id),
+    email: primary?.email || null,
+    emailVerified: !!primary?.verified,
+    name: user.data.name || user.data.login || null,
+    technicalSkills: standardizeSkills([
+      ...languages,
+      ...findSkills(user.data.bio || ''),
+    ]).slice(0, MAX_IMPORTED_SKILLS),
+    institution: institution || undefined,
+  };
+}
+
+// LinkedIn returns localized fields as { localized: { en_US: '...' } }
+function localizedText(value: any): string | undefined {
+  if (typeof value === 'string') return value;
+  if (value?.localized) {
+    return Object.values(value.localized)[0] as string | undefined;
+  }
+  return undefined;
+}
+
+function elementsOf(value: any): any[] {
+  if (Array.isArray(value)) return value;
+  return Array.isArray(value?.elements) ? value.elements : [];
+}
+
+/**
+ * LinkedIn member details, plus education and skills for apps approved for
+ * LinkedIn's profile API. Without that approval the profile request is
+ * refused and only name and email are imported.
+ */
+async function fetchLinkedinProfile(
+  config: ProviderConfig,
+  accessToken: string
+): Promise<FederatedProfile> {
+  const options = authorizationHeaders(accessToken);
+  const { data } = await axios.get(`${config.apiBaseUrl}/v2/userinfo`, options);
+
+  let details: any = {};
+  try {
+    ({ data: details } = await axios.get(
+      `${config.apiBaseUrl}/v2/me?projection=(id,educations,skills)`,
+      options
+    ));
+  } catch {
+    // Not approved for the profile API
+  }
+
+  const [education] = elementsOf(details.educations);
+  const skills = elementsOf(details.skills)
+    .map(skill => localizedText(skill.name))
+    .filter((skill): skill is string => !!skill);
+
+  return {
+    providerUserId: String(data.sub),
+    email: data.email || null,
+    emailVerified: isTrue(data.email_verified),
+    name: data.name || null,
+    technicalSkills: standardizeSkills(skills).slice(0, MAX_IMPORTED_SKILLS),
+    institution: localizedText(education?.schoolName),
+    degree: localizedText(education?.degreeName),
+  };
+}
+
+const PROFILE_FETCHERS: Record<
+  FederatedProvider,
+  (config: ProviderConfig, accessToken: string) => Promise<FederatedProfile>
+> = {
+  google: fetchGoogleProfile,
+  github: fetchGithubProfile,
+  linkedin: fetchLinkedinProfile,
+};
+
+export class FederatedAuthService {
+  /**
+   * Providers with client credentials configured
+   */
+  listProviders(): FederatedProviderItem[] {
+    return (Object.keys(FEDERATED_PROVIDERS) as FederatedProvider[])
+      .filter(provider => getProviderConfig(provider) !== null)
+      .map(provider => ({ id: provider, name: FEDERATED_PROVIDERS[provider] }));
+  }
+
+  /**
+   * Start signing in (or linking an account) with a provider. Returns the
+   * URL to send the browser to and the state it will come back with, which
+   * the app keeps to check the callback came from this browser.
+   */
+  async startAuthorization(
+    provider: FederatedProvider,
+    options: StartAuthorizationOptions = {}
+  ): Promise<ApiResponse<{ authorizationUrl: string; state: string }>> {
+    const config = getProviderConfig(provider);
+    if (!config) {
+      return {
+        success: false,
+        error: `${FEDERATED_PROVIDERS[provider]} sign-in is not available`,
+      };
+    }
+
+    try {
+      const state = crypto.randomBytes(32).toString('base64url');
+      const codeVerifier = crypto.randomBytes(32).toString('base64url');
+
+      // Abandoned sign-ins are cleared as new ones start
+      await prisma.federatedLoginState.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+      });
+
+      await prisma.federatedLoginState.create({
+        data: {
+          stateHash: hashState(state),
+          provider,
+          codeVerifier,
+          linkUserId: options.linkUserId,
+          returnTo: sanitizeReturnTo(options.returnTo),
+          expiresAt: new Date(Date.now() + LOGIN_STATE_EXPIRES_IN_MS),
+        },
+      });
+
+      const params = new URLSearchParams({
+        response_type: 'code',
+        client_id: config.clientId,
+        redirect_uri: getRedirectUri(provider),
+        scope: config.scopes.join(' '),
+        state,
+      });
+
+      if (config.pkce) {
+        params.set(
+          'code_challenge',
+          crypto.createHash('sha256').update(codeVerifier).digest('base64url')
+        );
+        params.set('code_challenge_method', 'S256');
+      }
+
+      return {
+        success: true,
+        data: {
+          authorizationUrl: `${config.authorizationUrl}?${params.toString()}`,
+          state,
+        },
+        message: 'Authorization started',
+      };
+    } catch (error) {
+      console.error('Federated authorization start error:', error);
+      return {
+        success: false,
+        error: 'Failed to start sign-in',
+      };
+    }
+  }
+
+  /**
+   * Finish a sign-in or link from the provider's callback. currentUserId is
+   * the user making the request, which must be the one who started a link.
+   */
+  async completeAuthorization(
+    provider: FederatedProvider,
+    callback: AuthorizationCallback,
+    currentUserId?: string,
+    context: SessionContext = {}
+  ): Promise<ApiResponse<FederatedCallbackResult>> {
+    const providerName = FEDERATED_PROVIDERS[provider];
+    const config = getProviderConfig(provider);
+    if (!config) {
+      return {
+        success: false,
+        error: `${providerName} sign-in is not available`,
+      };
+    }
+
+    const loginState = await this.consumeState(provider, callback.state);
+    if (!loginState) {
+      return {
+        success: false,
+        error: 'Sign-in request is invalid or has expired. Please try again',
+      };
+    }
+
+    if (loginState.linkUserId && loginState.linkUserId !== currentUserId) {
+      return {
+        success: false,
+        error: `Sign in to link your ${providerName} account`,
+      };
+    }
+
+    let profile: FederatedProfile;
+    try {
+      const accessToken = await this.exchangeCode(
+        provider,
+        config,
+        callback.code,
+        loginState.codeVerifier
+      );
+      profile = await PROFILE_FETCHERS[provider](config, accessToken);
+    } catch (error) {
+      console.error(`${providerName} authorization error:`, error);
+      return {
+        success: false,
+        error: `Failed to sign in with ${providerName}`,
+      };
+    }
+
+    try {
+      return loginState.linkUserId
+        ? await this.linkIdentity(
+            loginState.linkUserId,
+            provider,
+            profile,
+            loginState.returnTo
+          )
+        : await this.signIn(provider, profile, loginState.returnTo, context);
+    } catch (error) {
+      console.error('Federated sign-in error:', error);
+      return {
+        success: false,
+        error: `Failed to sign in with ${providerName}`,
+      };
+    }
+  }
+
+  /**
+   * Provider accounts linked to a user
+   */
+  async listIdentities(
+    userId: string
+  ): Promise<ApiResponse<FederatedIdentityItem[]>> {
+    try {
+      const identities = await prisma.userIdentity.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return {
+        success: true,
+        data: identities.map(toIdentityItem),
+        message: 'Linked accounts retrieved successfully',
+      };
+    } catch (error) {
+      console.error('List identities error:', error);
+      return {
+        success: false,
+        error: 'Failed to list linked accounts',
+      };
+    }
+  }
+
+  /**
+   * Unlink a provider account. The last way to sign in cannot be removed.
+   */
+  async unlinkIdentity(
+    userId: string,
+    provider: FederatedProvider
+  ): Promise<ApiResponse<null>> {
+    const providerName = FEDERATED_PROVIDERS[provider];
+
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          passwordHash: true,
+          identities: { select: { provider: true } },
+        },
+      });
+
+      if (
+        !user ||
+        !user.identities.some(
+          (identity: { provider: string }) => identity.provider === provider
+        )
+      ) {
+        return {
+          success: false,
+          error: 'Linked account not found',
+        };
+      }
+
+      if (!user.passwordHash && user.identities.length === 1) {
+        return {
+          success: false,
+          error: `Set a password or link another account before unlinking ${providerName}`,
+        };
+      }
+
+      await prisma.userIdentity.deleteMany({
+        where: { userId, provider },
+      });
+
+      return {
+        success: true,
+        message: `${providerName} account unlinked`,
+      };
+    } catch (error) {
+      console.error('Unlink identity error:', error);
+      return {
+        success: false,
+        error: 'Failed to unlink account',
+      };
+    }
+  }
+
+  /**
+   * Look up and delete a pending sign-in in one step, so a state is only
+   * ever used once
+   */
+  private async consumeState(provider: FederatedProvider, state: string) {
+    try {
+      const loginState = await prisma.federatedLoginState.delete({
+        where: { stateHash: hashState(state) },
+      });
+
+      if (
+        loginState.provider !== provider ||
+        loginState.expiresAt < new Date()
+      ) {
+        return null;
+      }
+
+      return loginState;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Trade the authorization code for an access token at the provider
+   */
+  private async exchangeCode(
+    provider: FederatedProvider,
+    config: ProviderConfig,
+    code: string,
+    codeVerifier: string
+  ): Promise<string> {
+    const params = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: getRedirectUri(provider),
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+    });
+
+    if (config.pkce) {
+      params.set('code_verifier', codeVerifier);
+    }
+
+    const { data } = await axios.post(config.tokenUrl, params.toString(), {
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      timeout: PROVIDER_REQUEST_TIMEOUT_MS,
+    });
+
+    // GitHub reports failures in a 200 response
+    if (!data?.access_token) {
+      throw new Error(
+        `Token exchange failed: ${data?.error_description || data?.error || 'no access token'}`
+      );
+    }
+
+    return data.access_token;
+  }
+
+  /**
+   * Sign in with a provider account: the user it is linked to, else the user
+   * with the same verified email (linking it), else a new user
+   */
+  private async signIn(
+    provider: FederatedProvider,
+    profile: FederatedProfile,
+    returnTo: string | null,
+    context: SessionContext
+  ): Promise<ApiResponse<FederatedCallbackResult>> {
+    const providerName = FEDERATED_PROVIDERS[provider];
+
+    const identity = await prisma.userIdentity.findUnique({
+      where: {
+        provider_providerUserId: {
+          provider,
+          providerUserId: profile.providerUserId,
+        },
+      },
+      include: { user: { select: SIGN_IN_USER_SELECT } },
+    });
+
+    if (identity?.user.bannedAt) {
+      return {
+        success: false,
+        error: 'This account has been suspended',
+      };
+    }
+
+    if (identity) {
+      await prisma.userIdentity.update({
+        where: { id: identity.id },
+        data: {
+          email: profile.email,
+          displayName: profile.name,
+          lastUsedAt: new Date(),
+        },
+      });
+
+      return {
+        success: true,
+        data: {
+          action: 'signed_in',
+          isNewUser: false,
+          returnTo,
+          session: await authService.startSignIn(identity.user, context),
+        },
+        message: `Signed in with ${providerName}`,
+      };
+    }
+
+    // Only an address the provider has verified can claim an account
+    if (!profile.email || !profile.emailVerified) {
+      return {
+        success: false,
+        error: `Your ${providerName} account has no verified email address`,
+      };
+    }
+
+    const email = profile.email.toLowerCase();
+    const identityData = {
+      provider,
+      providerUserId: profile.providerUserId,
+      email,
+      displayName: profile.name,
+      lastUsedAt: new Date(),
+    };
+
+    let user = await prisma.user.findUnique({
+      where: { email },
+      select: SIGN_IN_USER_SELECT,
+    });
+    const isNewUser = !user;
+
+    if (user?.bannedAt) {
+      return {
+        success: false,
+        error: 'This account has been suspended',
+      };
+    }
+
+    if (user) {
+      if (!user.emailVerifiedAt) {
+        // Whoever registered this address never proved they own it, and the
+        // provider just proved someone else does. Their password, 2FA and
+        // sessions go so they cannot keep access to the owner's account.
+        await prisma.user.update({
+          where: { id: user.id },
+          data: {
+            emailVerifiedAt: new Date(),
+            passwordHash: null,
+            twoFactorEnabled: false,
+            twoFactorSecret: null,
+            twoFactorRecoveryCodes: [],
+            twoFactorLastUsedStep: null,
+          },
+        });
+        await authService.revokeAllSessions(user.id);
+        user = {
+          ...user,
+          emailVerifiedAt: new Date(),
+          twoFactorEnabled: false,
+        };
+      }
+
+      await prisma.userIdentity.create({
+        data: { ...identityData, userId: user.id },
+      });
+      await this.prefillProfile(user, profile);
+    } else {
+      user = await prisma.user.create({
+        data: {
+          email,
+          name: (profile.name || email.split('@')[0]).slice(0, 100),
+          emailVerifiedAt: new Date(),
+          technicalSkills: profile.technicalSkills,
+          institution: profile.institution?.slice(0, 200),
+          degree: profile.degree?.slice(0, 100),
+          // Set default preferences
+          preferredOpportunityTypes: ['hackathon', 'internship'],
+          preferredMode: 'online',
+          emailNotifications: true,
+          smsNotifications: false,
+          inAppNotifications: true,
+          notificationFrequency: 'daily',
+          notificationTypes: ['new_opportunities', 'deadlines'],
+          identities: { create: identityData },
+        },
+        select: SIGN_IN_USER_SELECT,
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        action: 'signed_in',
+        isNewUser,
+        returnTo,
+        session: await authService.startSignIn(user!, context),
+      },
+      message: `Signed in with ${providerName}`,
+    };
+  }
+
+  /**
+   * Link a provider account to a signed-in user
+   */
+  private async linkIdentity(
+    userId: string,
+    provider: FederatedProvider,
+    profile: FederatedProfile,
+    returnTo: string | null
+  ): Promise<ApiResponse<FederatedCallbackResult>> {
+    const providerName = FEDERATED_PROVIDERS[provider];
+
+    const existing = await prisma.userIdentity.findUnique({
+      where: {
+        provider_providerUserId: {
+          provider,
+          providerUserId: profile.providerUserId,
+        },
+      },
+    });
+
+    if (existing && existing.userId !== userId) {
+      return {
+        success: false,
+        error: `This ${providerName} account is linked to another user`,
+      };
+    }
+
+    if (!existing) {
+      const current = await prisma.userIdentity.findFirst({
+        where: { userId, provider },
+      });
+
+      if (current) {
+        return {
+          success: false,
+          error: `Another ${providerName} account is already linked. Unlink it first`,
+        };
+      }
+    }
+
+    const identity = existing
+      ? await prisma.userIdentity.update({
+          where: { id: existing.id },
+          data: {
+            email: profile.email,
+            displayName: profile.name,
+            lastUsedAt: new Date(),
+          },
+        })
+      : await prisma.userIdentity.create({
+          data: {
+            userId,
+            provider,
+            providerUserId: profile.providerUserId,
+            email: profile.email,
+            displayName: profile.name,
+          },
+        });
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: SIGN_IN_USER_SELECT,
+    });
+    if (user) {
+      await this.prefillProfile(user, profile);
+    }
+
+    return {
+      success: true,
+      data: { action: 'linked', returnTo, identity: toIdentityItem(identity) },
+      message: `${providerName} account linked`,
+    };
+  }
+
+  /**
+   * Copy skills, institution and degree from the provider into profile
+   * fields the user has not filled in themselves
+   */
+  private async prefillProfile(
+    user: {
+      id: string;
+      technicalSkills: string[];
+      institution: string | null;
+      degree: string | null;
+    },
+    profile: FederatedProfile
+  ): Promise<void> {
+    const data: Record<string, unknown> = {};
+
+    if (user.technicalSkills.length === 0 && profile.technicalSkills.length) {
+      data.technicalSkills = profile.technicalSkills;
+    }
+    if (!user.institution && profile.institution) {
+      data.institution = profile.institution.slice(0, 200);
+    }
+    if (!user.degree && profile.degree) {
+      data.degree = profile.degree.slice(0, 100);
+    }
+
+    if (Object.keys(data).length > 0) {
+      await prisma.user.update({ where: { id: user.id }, data });
+    }
+  }
+}
+
+export const federatedAuthService = new FederatedAuthService();
@@ -1,5 +1,7 @@
 import type { Locale } from '@/i18n/config';
 import type { ApiResponse } from '@/types';
+import type { TranslationProvider } from './translation-provider';
+import { createTranslationProvider } from './translation-provider';
 
 export interface TranslationRequest {
   text: string;
@@ -15,21 +17,48 @@ export interface TranslationResult {
 }
 
 export class I18nService {
+  constructor(
+    private translationProvider: TranslationProvider = createTranslationProvider()
+  ) {}
+
+  /**
+   * Name of the translation provider in use
+   */
+  get translationProviderName(): string {
+    return this.translationProvider.name;
+  }
+
   /**
    * Translate text from one language to another
-   * In production, this would use a translation API like Google Translate or DeepL
    */
   async translateText(
     request: TranslationRequest
   ): Promise<ApiResponse<TranslationResult>> {
     try {
-      // Mock translation for development
-      // In production, integrate with translation API
+      if (request.sourceLanguage === request.targetLanguage) {
+        return {
+          success: true,
+          data: {
+            translatedText: request.text,
+            sourceLanguage: request.sourceLanguage,
+            targetLanguage: request.targetLanguage,
+            confidence: 1,
+          },
+          message: 'Text translated successfully',
+        };
+      }
+
+      const [translatedText] = await this.translationProvider.translate(
+        [request.text],
+        request.sourceLanguage,
+        request.targetLanguage
+      );
+
       const result: TranslationResult = {
-        translatedText: request.text,
+        translatedText,
         sourceLanguage: request.sourceLanguage,
         targetLanguage: request.targetLanguage,
-        confidence: 0.95,
+        confidence: this.translationProvider.name === 'dictionary' ? 0.5 : 0.9,
       };
 
       return {
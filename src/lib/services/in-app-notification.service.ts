@@ -48,7 +48,13 @@ export interface NotificationSort {
 // Validation schemas
 const notificationFilterSchema = z.object({
   type: z
-    .enum(['new_opportunity', 'deadline_reminder', 'recommendation', 'system'])
+    .enum([
+      'new_opportunity',
+      'deadline_reminder',
+      'recommendation',
+      'direct_message',
+      'system',
+    ])
     .optional(),
   read: z.boolean().optional(),
   priority: z.enum(['low', 'normal', 'high', 'urgent']).optional(),
@@ -364,6 +370,7 @@ export class InAppNotificationService {
       new_opportunity: 0,
       deadline_reminder: 0,
       recommendation: 0,
+      direct_message: 0,
       system: 0,
     };
 
@@ -470,6 +477,7 @@ export class InAppNotificationService {
       new_opportunity: 0,
       deadline_reminder: 0,
       recommendation: 0,
+      direct_message: 0,
       system: 0,
     };
 
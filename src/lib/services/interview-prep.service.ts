@@ -1,4 +1,9 @@
+import { PrismaClient } from '@prisma/client';
 import type { ApiResponse } from '../../types';
+import type { ResumeGapReport } from '../resume-analysis';
+import { analyzeResumeText } from '../resume-analysis';
+
+const prisma = new PrismaClient();
 
 export interface InterviewSession {
   id: string;
@@ -62,6 +67,8 @@ export interface ResumeAnalysis {
       score: number;
       feedback: string;
     }[];
+    skills: string[];
+    gapReport?: ResumeGapReport;
     keywords: {
       present: string[];
       missing: string[];
@@ -170,9 +177,7 @@ export class InterviewPrepService {
   /**
    * Submit answer and get feedback
    */
-  async submitAnswer(
-    request: SubmitAnswerRequest
-  ): Promise<
+  async submitAnswer(request: SubmitAnswerRequest): Promise<
     ApiResponse<{
       response: InterviewResponse;
       nextQuestion?: InterviewQuestion;
@@ -366,62 +371,42 @@ Format your response as JSON with keys: score, feedback, strengths, improvements
   }
 
   /**
-   * Analyze resume
+   * Analyze resume text. With an opportunity, keywords are matched against
+   * its required skills and the result includes a gap report.
    */
   async analyzeResume(
     userId: string,
-    resumeText: string
+    resumeText: string,
+    opportunityId?: string
   ): Promise<ApiResponse<ResumeAnalysis>> {
     try {
+      let target;
+      if (opportunityId) {
+        target = await prisma.opportunity.findUnique({
+          where: { id: opportunityId },
+          select: { id: true, title: true, requiredSkills: true },
+        });
+
+        if (!target) {
+          return {
+            success: false,
+            error: 'Opportunity not found',
+          };
+        }
+      }
+
+      const { suggestions, ...analysisResult } = analyzeResumeText(
+        resumeText,
+        target ?? undefined
+      );
+
       const analysis: ResumeAnalysis = {
         id: `analysis_${Date.now()}`,
         userId,
         resumeText,
-        analysisResult: {
-          overallScore: 78,
-          sections: [
-            {
-              name: 'Contact Information',
-              score: 90,
-              feedback: 'Complete and professional',
-            },
-            {
-              name: 'Work Experience',
-              score: 75,
-              feedback: 'Good descriptions, add more quantifiable achievements',
-            },
-            {
-              name: 'Skills',
-              score: 80,
-              feedback: 'Comprehensive list, organize by proficiency',
-            },
-            {
-              name: 'Education',
-              score: 85,
-              feedback: 'Well presented',
-            },
-          ],
-          keywords: {
-            present: ['Python', 'JavaScript', 'React', 'Node.js', 'SQL'],
-            missing: ['Docker', 'Kubernetes', 'CI/CD', 'Testing'],
-          },
-          formatting: {
-            score: 70,
-            issues: [
-              'Inconsistent bullet point formatting',
-              'Use more action verbs',
-              'Reduce length to 1-2 pages',
-            ],
-          },
-        },
-        suggestions: [
-          'Add quantifiable achievements (e.g., "Improved performance by 40%")',
-          'Include relevant keywords for ATS optimization',
-          'Use consistent formatting throughout',
-          'Add a professional summary at the top',
-          'Include links to GitHub/portfolio',
-        ],
-        score: 78,
+        analysisResult,
+        suggestions,
+        score: analysisResult.overallScore,
       };
 
       return {
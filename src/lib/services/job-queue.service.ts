@@ -0,0 +1,697 @@
+import { hostname } from 'os';
+import type { ApiResponse } from '../../types';
+import { MemoryJobStore } from '../jobs/memory-job-store';
+import { PostgresJobStore } from '../jobs/postgres-job-store';
+import { logger } from '../monitoring';
+
+export type JobStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'dead'
+  | 'cancelled';
+
+export type JobEventType =
+  | 'enqueued'
+  | 'started'
+  | 'lease_expired'
+  | 'completed'
+  | 'retry_scheduled'
+  | 'dead_lettered'
+  | 'cancelled'
+  | 'requeued';
+
+export interface QueueJob<TPayload = unknown, TResult = unknown> {
+  id: string;
+  queue: string;
+  name: string;
+  subject?: string; // what the job is about, e.g. a source or task ID
+  payload: TPayload;
+  status: JobStatus;
+  dedupeKey?: string;
+  runAt: Date;
+  attempts: number;
+  maxAttempts: number;
+  backoffMs: number;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastError?: string;
+  result?: TResult;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ClaimedJob extends QueueJob {
+  reclaimed: boolean; // the previous worker's lease expired
+}
+
+export interface JobEvent {
+  id: string;
+  jobId: string;
+  type: JobEventType;
+  attempt: number;
+  workerId?: string;
+  message?: string;
+  createdAt: Date;
+}
+
+export interface NewJob {
+  queue: string;
+  name: string;
+  subject?: string;
+  payload: unknown;
+  dedupeKey?: string;
+  runAt: Date;
+  maxAttempts: number;
+  backoffMs: number;
+}
+
+export interface JobFilter {
+  queue?: string;
+  name?: string;
+  subject?: string;
+  status?: JobStatus | JobStatus[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface ScheduledTaskSetting {
+  id: string;
+  schedule: string;
+  timezone?: string;
+  isActive: boolean;
+}
+
+/**
+ * Storage backend for the queue. Claims must be atomic across processes so
+ * that a job is only ever leased to one worker at a time.
+ */
+export interface JobStore {
+  /** Insert a job; resolves to null if the dedupe key already exists */
+  insert(job: NewJob): Promise<QueueJob | null>;
+  /** Lease due jobs (and jobs whose lease expired) to a worker */
+  claim(
+    names: string[],
+    workerId: string,
+    leaseMs: number,
+    limit: number
+  ): Promise<ClaimedJob[]>;
+  /** Extend a lease; false if the worker no longer holds the job */
+  renewLease(id: string, workerId: string, leaseMs: number): Promise<boolean>;
+  /** Store intermediate results while the worker holds the lease */
+  saveProgress(id: string, workerId: string, result: unknown): Promise<boolean>;
+  complete(id: string, workerId: string, result: unknown): Promise<boolean>;
+  /** Record a failed attempt: retry at `retryAt`, or dead-letter when null */
+  fail(
+    id: string,
+    workerId: string,
+    error: string,
+    retryAt: Date | null
+  ): Promise<boolean>;
+  /** Conditionally move a job between states (cancel, requeue) */
+  transition(
+    id: string,
+    from: JobStatus[],
+    changes: Partial<Pick<QueueJob, 'status' | 'runAt' | 'attempts'>>
+  ): Promise<QueueJob | null>;
+  find(id: string): Promise<QueueJob | null>;
+  list(filter: JobFilter): Promise<QueueJob[]>;
+  countByStatus(queue?: string): Promise<Record<JobStatus, number>>;
+  addEvent(event: Omit<JobEvent, 'id' | 'createdAt'>): Promise<void>;
+  listEvents(jobId: string): Promise<JobEvent[]>;
+  /** Delete finished jobs older than the given date */
+  purge(before: Date): Promise<number>;
+  getTaskSettings(): Promise<ScheduledTaskSetting[]>;
+  saveTaskSetting(setting: ScheduledTaskSetting): Promise<void>;
+}
+
+export interface JobContext {
+  workerId: string;
+  attempt: number;
+  /** Aborted when the job is cancelled or the lease is lost */
+  signal: AbortSignal;
+  /** Persist partial results so they are visible while the job runs */
+  progress: (result: unknown) => Promise<void>;
+}
+
+export type JobHandler<TPayload = unknown, TResult = unknown> = (
+  job: QueueJob<TPayload>,
+  context: JobContext
+) => Promise<TResult>;
+
+export interface JobDefaults {
+  queue?: string;
+  maxAttempts?: number;
+  backoffMs?: number;
+}
+
+export interface EnqueueOptions extends JobDefaults {
+  subject?: string;
+  dedupeKey?: string;
+  runAt?: Date;
+  delayMs?: number;
+}
+
+export interface JobQueueConfig {
+  concurrency: number;
+  pollInterval: number;
+  leaseMs: number;
+  maxBackoffMs: number;
+  retentionDays: number;
+}
+
+const EMPTY_COUNTS: Record<JobStatus, number> = {
+  pending: 0,
+  running: 0,
+  completed: 0,
+  dead: 0,
+  cancelled: 0,
+};
+
+export class JobQueueService {
+  private store: JobStore;
+  private config: JobQueueConfig;
+  private handlers: Map<
+    string,
+    { handler: JobHandler; defaults: JobDefaults }
+  > = new Map();
+  private running: Map<
+    string,
+    { controller: AbortController; done: Promise<void> }
+  > = new Map();
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+  readonly workerId: string;
+
+  constructor(store: JobStore, config: Partial<JobQueueConfig> = {}) {
+    this.store = store;
+    this.config = {
+      concurrency: parseInt(process.env.JOB_QUEUE_CONCURRENCY || '4'),
+      pollInterval: parseInt(process.env.JOB_QUEUE_POLL_INTERVAL || '1000'),
+      leaseMs: parseInt(process.env.JOB_QUEUE_LEASE_MS || '60000'),
+      maxBackoffMs: parseInt(process.env.JOB_QUEUE_MAX_BACKOFF_MS || '3600000'),
+      retentionDays: parseInt(process.env.JOB_QUEUE_RETENTION_DAYS || '14'),
+      ...config,
+    };
+    this.workerId = `${process.env.INSTANCE_ID || hostname()}:${process.pid}:${Math.random().toString(36).substr(2, 6)}`;
+  }
+
+  /**
+   * Register the function that processes jobs with the given name. Every
+   * instance registers the same handlers; whichever claims a job runs it.
+   */
+  registerHandler<TPayload = unknown, TResult = unknown>(
+    name: string,
+    handler: JobHandler<TPayload, TResult>,
+    defaults: JobDefaults = {}
+  ): void {
+    // Payloads come back from the store untyped; the name ties them to
+    // this handler
+    this.handlers.set(name, { handler: handler as JobHandler, defaults });
+  }
+
+  /**
+   * Add a job to the queue. With a dedupe key, enqueueing the same key twice
+   * (e.g. from several instances) creates a single job and resolves to null
+   * for the duplicates.
+   */
+  async enqueue<TPayload = unknown>(
+    name: string,
+    payload: TPayload,
+    options: EnqueueOptions = {}
+  ): Promise<QueueJob<TPayload> | null> {
+    const defaults = this.handlers.get(name)?.defaults || {};
+    const runAt =
+      options.runAt ?? new Date(Date.now() + Math.max(0, options.delayMs ?? 0));
+
+    const job = await this.store.insert({
+      queue: options.queue ?? defaults.queue ?? 'default',
+      name,
+      subject: options.subject,
+      payload: payload ?? {},
+      dedupeKey: options.dedupeKey,
+      runAt,
+      maxAttempts: options.maxAttempts ?? defaults.maxAttempts ?? 3,
+      backoffMs: options.backoffMs ?? defaults.backoffMs ?? 30000,
+    });
+
+    if (job) {
+      await this.store.addEvent({
+        jobId: job.id,
+        type: 'enqueued',
+        attempt: 0,
+        workerId: this.workerId,
+        message: `Scheduled for ${runAt.toISOString()}`,
+      });
+    }
+
+    return job as QueueJob<TPayload> | null;
+  }
+
+  /**
+   * Start polling for jobs
+   */
+  start(): void {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => {
+      this.poll().catch(error => {
+        logger.error('Job queue poll failed', toError(error));
+      });
+    }, this.config.pollInterval);
+
+    logger.info('Job queue worker started', { workerId: this.workerId });
+  }
+
+  /**
+   * Stop polling. Jobs already running finish; their leases are not renewed
+   * past shutdown, so another instance picks up anything left unfinished.
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+      logger.info('Job queue worker stopped', { workerId: this.workerId });
+    }
+  }
+
+  /**
+   * Claim due jobs and start running them. Resolves with the number of jobs
+   * claimed; use idle() to wait for them to finish.
+   */
+  async poll(): Promise<number> {
+    if (this.polling) return 0;
+
+    const available = this.config.concurrency - this.running.size;
+    if (available <= 0 || this.handlers.size === 0) return 0;
+
+    this.polling = true;
+    try {
+      const jobs = await this.store.claim(
+        Array.from(this.handlers.keys()),
+        this.workerId,
+        this.config.leaseMs,
+        available
+      );
+
+      for (const job of jobs) {
+        const controller = new AbortController();
+        const done = this.runJob(job, controller)
+          .catch(error => {
+            logger.error('Job crashed', toError(error), {
+              jobId: job.id,
+              name: job.name,
+            });
+          })
+          .finally(() => {
+            this.running.delete(job.id);
+          });
+
+        this.running.set(job.id, { controller, done });
+      }
+
+      return jobs.length;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Wait for every job this worker is running to finish
+   */
+  async idle(): Promise<void> {
+    await Promise.all(
+      Array.from(this.running.values()).map(entry => entry.done)
+    );
+  }
+
+  private async runJob(
+    job: ClaimedJob,
+    controller: AbortController
+  ): Promise<void> {
+    const registration = this.handlers.get(job.name);
+    if (!registration) return;
+
+    if (job.reclaimed) {
+      await this.store.addEvent({
+        jobId: job.id,
+        type: 'lease_expired',
+        attempt: job.attempts - 1,
+        workerId: this.workerId,
+        message: 'Previous worker stopped renewing its lease',
+      });
+    }
+
+    // A worker that died mid-job still used up an attempt
+    if (job.attempts > job.maxAttempts) {
+      await this.recordFailure(job, 'Lease expired on final attempt', null);
+      return;
+    }
+
+    await this.store.addEvent({
+      jobId: job.id,
+      type: 'started',
+      attempt: job.attempts,
+      workerId: this.workerId,
+    });
+
+    const heartbeat = setInterval(
+      () => {
+        this.store
+          .renewLease(job.id, this.workerId, this.config.leaseMs)
+          .then(held => {
+            if (!held) controller.abort();
+          })
+          .catch(error => {
+            logger.error('Failed to renew job lease', toError(error), {
+              jobId: job.id,
+            });
+          });
+      },
+      Math.max(1000, Math.floor(this.config.leaseMs / 3))
+    );
+
+    try {
+      const result = await registration.handler(job, {
+        workerId: this.workerId,
+        attempt: job.attempts,
+        signal: controller.signal,
+        progress: async partial => {
+          await this.store.saveProgress(job.id, this.workerId, partial);
+        },
+      });
+
+      if (controller.signal.aborted) return;
+
+      const completed = await this.store.complete(
+        job.id,
+        this.workerId,
+        result ?? null
+      );
+      if (completed) {
+        await this.store.addEvent({
+          jobId: job.id,
+          type: 'completed',
+          attempt: job.attempts,
+          workerId: this.workerId,
+        });
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      const message = error instanceof Error ? error.message : String(error);
+      const retryAt =
+        job.attempts < job.maxAttempts
+          ? new Date(Date.now() + this.calculateBackoff(job))
+          : null;
+
+      await this.recordFailure(job, message, retryAt);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async recordFailure(
+    job: QueueJob,
+    message: string,
+    retryAt: Date | null
+  ): Promise<void> {
+    const recorded = await this.store.fail(
+      job.id,
+      this.workerId,
+      message,
+      retryAt
+    );
+    if (!recorded) return;
+
+    await this.store.addEvent({
+      jobId: job.id,
+      type: retryAt ? 'retry_scheduled' : 'dead_lettered',
+      attempt: job.attempts,
+      workerId: this.workerId,
+      message: retryAt
+        ? `${message} (retry at ${retryAt.toISOString()})`
+        : message,
+    });
+
+    if (!retryAt) {
+      logger.error('Job moved to dead letter', undefined, {
+        jobId: job.id,
+        name: job.name,
+        attempts: job.attempts,
+        error: message,
+      });
+    }
+  }
+
+  /**
+   * Exponential backoff: backoffMs, 2x, 4x, ... capped at maxBackoffMs
+   */
+  private calculateBackoff(job: QueueJob): number {
+    return Math.min(
+      job.backoffMs * Math.pow(2, Math.max(0, job.attempts - 1)),
+      this.config.maxBackoffMs
+    );
+  }
+
+  /**
+   * Get a job with its history
+   */
+  async getJob(
+    jobId: string
+  ): Promise<ApiResponse<QueueJob & { events: JobEvent[] }>> {
+    try {
+      const job = await this.store.find(jobId);
+
+      if (!job) {
+        return {
+          success: false,
+          error: 'Job not found',
+        };
+      }
+
+      return {
+        success: true,
+        data: { ...job, events: await this.store.listEvents(jobId) },
+        message: 'Job retrieved successfully',
+      };
+    } catch (error) {
+      logger.error('Get job error', toError(error));
+      return {
+        success: false,
+        error: 'Failed to get job',
+      };
+    }
+  }
+
+  async findJob<TPayload = unknown, TResult = unknown>(
+    jobId: string
+  ): Promise<QueueJob<TPayload, TResult> | null> {
+    const job = await this.store.find(jobId);
+    return job as QueueJob<TPayload, TResult> | null;
+  }
+
+  async listJobs<TPayload = unknown, TResult = unknown>(
+    filter: JobFilter = {}
+  ): Promise<Array<QueueJob<TPayload, TResult>>> {
+    const jobs = await this.store.list({ limit: 50, ...filter });
+    return jobs as Array<QueueJob<TPayload, TResult>>;
+  }
+
+  /**
+   * Job counts per status plus this worker's load
+   */
+  async getStats(queue?: string): Promise<
+    ApiResponse<{
+      counts: Record<JobStatus, number>;
+      workerId: string;
+      running: number;
+      concurrency: number;
+    }>
+  > {
+    try {
+      const counts = await this.store.countByStatus(queue);
+
+      return {
+        success: true,
+        data: {
+          counts: { ...EMPTY_COUNTS, ...counts },
+          workerId: this.workerId,
+          running: this.running.size,
+          concurrency: this.config.concurrency,
+        },
+        message: 'Job queue stats retrieved successfully',
+      };
+    } catch (error) {
+      logger.error('Get job queue stats error', toError(error));
+      return {
+        success: false,
+        error: 'Failed to get job queue stats',
+      };
+    }
+  }
+
+  /**
+   * Cancel a pending or running job. A running handler sees its abort signal
+   * fire at the next lease renewal.
+   */
+  async cancelJob(
+    jobId: string,
+    reason = 'Job cancelled by user'
+  ): Promise<ApiResponse<QueueJob>> {
+    try {
+      const job = await this.store.transition(jobId, ['pending', 'running'], {
+        status: 'cancelled',
+      });
+
+      if (!job) {
+        const existing = await this.store.find(jobId);
+        return {
+          success: false,
+          error: existing
+            ? `Job is already ${existing.status}`
+            : 'Job not found',
+        };
+      }
+
+      this.running.get(jobId)?.controller.abort();
+
+      await this.store.addEvent({
+        jobId,
+        type: 'cancelled',
+        attempt: job.attempts,
+        workerId: this.workerId,
+        message: reason,
+      });
+
+      return {
+        success: true,
+        data: job,
+        message: 'Job cancelled successfully',
+      };
+    } catch (error) {
+      logger.error('Cancel job error', toError(error));
+      return {
+        success: false,
+        error: 'Failed to cancel job',
+      };
+    }
+  }
+
+  /**
+   * Cancel every pending job matching the filter, e.g. all retries for a
+   * notification delivery
+   */
+  async cancelPending(
+    filter: Omit<JobFilter, 'status'>,
+    reason?: string
+  ): Promise<number> {
+    const jobs = await this.store.list({
+      ...filter,
+      status: 'pending',
+      limit: 1000,
+    });
+    let cancelled = 0;
+
+    for (const job of jobs) {
+      const result = await this.cancelJob(job.id, reason);
+      if (result.success) cancelled++;
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * Move a dead-lettered or cancelled job back into the queue with a fresh
+   * set of attempts
+   */
+  async retryJob(jobId: string): Promise<ApiResponse<QueueJob>> {
+    try {
+      const job = await this.store.transition(jobId, ['dead', 'cancelled'], {
+        status: 'pending',
+        runAt: new Date(),
+        attempts: 0,
+      });
+
+      if (!job) {
+        const existing = await this.store.find(jobId);
+        return {
+          success: false,
+          error: existing
+            ? `Only dead or cancelled jobs can be retried (job is ${existing.status})`
+            : 'Job not found',
+        };
+      }
+
+      await this.store.addEvent({
+        jobId,
+        type: 'requeued',
+        attempt: 0,
+        workerId: this.workerId,
+        message: 'Requeued by admin',
+      });
+
+      return {
+        success: true,
+        data: job,
+        message: 'Job requeued successfully',
+      };
+    } catch (error) {
+      logger.error('Retry job error', toError(error));
+      return {
+        success: false,
+        error: 'Failed to retry job',
+      };
+    }
+  }
+
+  /**
+   * Delete completed, cancelled and dead jobs past the retention period
+   */
+  async purgeOldJobs(): Promise<number> {
+    const before = new Date(
+      Date.now() - this.config.retentionDays * 24 * 60 * 60 * 1000
+    );
+    return this.store.purge(before);
+  }
+
+  async getTaskSettings(): Promise<ScheduledTaskSetting[]> {
+    return this.store.getTaskSettings();
+  }
+
+  async saveTaskSetting(setting: ScheduledTaskSetting): Promise<void> {
+    await this.store.saveTaskSetting(setting);
+  }
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Postgres by default; JOB_QUEUE_STORE=memory keeps jobs in-process (tests
+ * and single-instance development only)
+ */
+function createJobStore(): JobStore {
+  const driver =
+    process.env.JOB_QUEUE_STORE ||
+    (process.env.NODE_ENV === 'test' ? 'memory' : 'postgres');
+
+  return driver === 'memory' ? new MemoryJobStore() : new PostgresJobStore();
+}
+
+// Create singleton instance
+export const jobQueue = new JobQueueService(createJobStore());
+
+// Web-only instances can opt out of processing with JOB_QUEUE_WORKER=false
+if (
+  process.env.NODE_ENV !== 'test' &&
+  process.env.JOB_QUEUE_WORKER !== 'false'
+) {
+  jobQueue.start();
+
+  process.on('SIGTERM', () => jobQueue.stop());
+  process.on('SIGINT', () => jobQueue.stop());
+}
@@ -20,6 +20,7 @@ import {
   UpdateSessionRequest,
 } from '@/types/mentor-matching';
 import { Pool } from 'pg';
+import { eventBus } from '../events/event-bus';
 
 export class MentorMatchingService {
   private pool: Pool;
@@ -513,7 +514,29 @@ export class MentorMatchingService {
     ];
 
     const result = await this.pool.query(query, values);
-    return this.mapSession(result.rows[0]);
+    const session = this.mapSession(result.rows[0]);
+
+    const mentor = await this.getMentorProfile(session.mentorId);
+    eventBus.emit(
+      'mentorship.session.scheduled',
+      {
+        id: session.id,
+        mentorId: session.mentorId,
+        studentId: session.studentId,
+        requestId: session.requestId,
+        title: session.title,
+        scheduledAt: session.scheduledAt.toISOString(),
+        durationMinutes: session.durationMinutes,
+      },
+      {
+        audience: [
+          session.studentId,
+          ...(mentor?.userId ? [mentor.userId] : []),
+        ],
+      }
+    );
+
+    return session;
   }
 
   async updateSession(
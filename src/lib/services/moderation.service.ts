@@ -0,0 +1,730 @@
+import { PrismaClient } from '@prisma/client';
+import type { ApiResponse, PaginatedResponse } from '../../types';
+import type {
+  ContentRule,
+  FilterResult,
+  ReportReason,
+} from '../content-filter';
+import { CONTENT_RULES, evaluateContent } from '../content-filter';
+import { AuditLogger } from '../security/audit-logging';
+import { XSSProtection } from '../security/xss-protection';
+
+const prisma = new PrismaClient();
+
+export const REPORTABLE_CONTENT_TYPES = [
+  'opportunity',
+  'roadmap',
+  'discussion',
+  'comment',
+  'direct_message',
+  'team',
+  'user',
+] as const;
+
+export type ReportableContentType = (typeof REPORTABLE_CONTENT_TYPES)[number];
+
+export const MODERATION_ACTIONS = [
+  'hide',
+  'restore',
+  'ban',
+  'dismiss',
+] as const;
+
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+
+export type ReportStatus = 'pending' | 'resolved' | 'dismissed';
+
+export const CONTENT_BLOCKED_ERROR =
+  'This content was blocked by the content filter';
+export const ACCOUNT_SUSPENDED_ERROR = 'This account has been suspended';
+
+// Script tags, event handlers and script URLs that XSSProtection strips. Only
+// checked when the text looks like markup, so "condition=1" is left alone.
+const UNSAFE_MARKUP_RULE: ContentRule = {
+  id: 'unsafe_markup',
+  reason: 'other',
+  action: 'block',
+  matches: text =>
+    /<[a-z!/]|\b(javascript|vbscript|data):/i.test(text) &&
+    XSSProtection.removeJavaScript(text) !== text,
+};
+
+const REPORT_INCLUDE = {
+  reporter: { select: { id: true, name: true } },
+  author: { select: { id: true, name: true, bannedAt: true } },
+};
+
+export interface ContentReportData {
+  id: string;
+  contentType: ReportableContentType;
+  contentId: string;
+  authorId?: string;
+  reporterId?: string;
+  reason: ReportReason;
+  details?: string;
+  matchedRules: string[];
+  status: ReportStatus;
+  action?: ModerationAction;
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+export interface ModerationQueueItem extends ContentReportData {
+  reporter: { id: string; name: string } | null; // Null for filter flags
+  author: { id: string; name: string; isBanned: boolean } | null;
+  content: { text: string; hidden: boolean } | null; // Null once deleted
+}
+
+export interface ScreeningResult extends FilterResult {
+  error?: string;
+}
+
+interface ContentRecord {
+  authorId: string | null;
+  recipientId?: string;
+  text: string;
+  hidden: boolean;
+}
+
+export class ModerationService {
+  /**
+   * First-pass check of text a user is about to publish. Blocked content
+   * comes back with the error to show; flagged content should be saved and
+   * then passed to flagContent.
+   */
+  async screenContent(
+    authorId: string,
+    contentType: ReportableContentType,
+    text: string
+  ): Promise<ScreeningResult> {
+    const author = await prisma.user.findUnique({
+      where: { id: authorId },
+      select: { bannedAt: true },
+    });
+
+    if (author?.bannedAt) {
+      return {
+        action: 'block',
+        matchedRules: [],
+        error: ACCOUNT_SUSPENDED_ERROR,
+      };
+    }
+
+    const result = evaluateContent(text, [
+      ...CONTENT_RULES,
+      UNSAFE_MARKUP_RULE,
+    ]);
+
+    if (result.action === 'block') {
+      await AuditLogger.logModerationEvent(
+        AuditLogger.EVENT_TYPES.CONTENT_BLOCKED,
+        contentType,
+        { reason: result.reason, matchedRules: result.matchedRules },
+        authorId
+      );
+
+      return { ...result, error: CONTENT_BLOCKED_ERROR };
+    }
+
+    return result;
+  }
+
+  /**
+   * Queue content the filter flagged for a moderator
+   */
+  async flagContent(
+    contentType: ReportableContentType,
+    contentId: string,
+    authorId: string,
+    result: FilterResult
+  ): Promise<void> {
+    try {
+      await prisma.contentReport.create({
+        data: {
+          contentType,
+          contentId,
+          authorId,
+          reason: result.reason || 'other',
+          matchedRules: result.matchedRules,
+        },
+      });
+
+      await AuditLogger.logModerationEvent(
+        AuditLogger.EVENT_TYPES.CONTENT_FLAGGED,
+        `${contentType}:${contentId}`,
+        { reason: result.reason, matchedRules: result.matchedRules }
+      );
+    } catch (error) {
+      // The content is already published, so a lost flag must not fail it
+      console.error('Flag content error:', error);
+    }
+  }
+
+  /**
+   * Report content for a moderator to review
+   */
+  async reportContent(
+    reporterId: string,
+    contentType: ReportableContentType,
+    contentId: string,
+    reason: ReportReason,
+    details?: string
+  ): Promise<ApiResponse<ContentReportData>> {
+    try {
+      const content = await this.loadContent(contentType, contentId);
+
+      // Only the recipient of a direct message can see it to report it
+      if (
+        !content ||
+        (contentType === 'direct_message' && content.recipientId !== reporterId)
+      ) {
+        return {
+          success: false,
+          error: 'Content not found',
+        };
+      }
+
+      if (content.authorId === reporterId) {
+        return {
+          success: false,
+          error: 'You cannot report your own content',
+        };
+      }
+
+      const existing = await prisma.contentReport.findUnique({
+        where: {
+          reporterId_contentType_contentId: {
+            reporterId,
+            contentType,
+            contentId,
+          },
+        },
+      });
+
+      if (existing) {
+        return {
+          success: false,
+          error: 'You have already reported this content',
+        };
+      }
+
+      const report = await prisma.contentReport.create({
+        data: {
+          contentType,
+          contentId,
+          authorId: content.authorId,
+          reporterId,
+          reason,
+          details,
+        },
+      });
+
+      await AuditLogger.logModerationEvent(
+        AuditLogger.EVENT_TYPES.CONTENT_REPORTED,
+        `${contentType}:${contentId}`,
+        { reportId: report.id, reason },
+        reporterId
+      );
+
+      return {
+        success: true,
+        data: this.toReportData(report),
+        message: 'Report submitted successfully',
+      };
+    } catch (error) {
+      console.error('Report content error:', error);
+      return {
+        success: false,
+        error: 'Failed to submit report',
+      };
+    }
+  }
+
+  /**
+   * Reports for moderators to review, oldest first, with the reported content
+   */
+  async getModerationQueue(
+    filters: {
+      status?: ReportStatus;
+      contentType?: ReportableContentType;
+    } = {},
+    page = 1,
+    limit = 20
+  ): Promise<ApiResponse<PaginatedResponse<ModerationQueueItem>>> {
+    try {
+      const skip = (page - 1) * limit;
+      const where: any = { status: filters.status || 'pending' };
+
+      if (filters.contentType) {
+        where.contentType = filters.contentType;
+      }
+
+      const [reports, total] = await Promise.all([
+        prisma.contentReport.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: { createdAt: 'asc' },
+          include: REPORT_INCLUDE,
+        }),
+        prisma.contentReport.count({ where }),
+      ]);
+
+      const items: ModerationQueueItem[] = await Promise.all(
+        reports.map(async (report: any) => {
+          const content = await this.loadContent(
+            report.contentType,
+            report.contentId
+          );
+
+          return {
+            ...this.toReportData(report),
+            reporter: report.reporter,
+            author: report.author
+              ? {
+                  id: report.author.id,
+                  name: report.author.name,
+                  isBanned: !!report.author.bannedAt,
+                }
+              : null,
+            content: content
+              ? { text: content.text, hidden: content.hidden }
+              : null,
+          };
+        })
+      );
+
+      return {
+        success: true,
+        data: {
+          data: items,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+            hasNext: page * limit < total,
+            hasPrev: page > 1,
+          },
+        },
+      };
+    } catch (error) {
+      console.error('Get moderation queue error:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve moderation queue',
+      };
+    }
+  }
+
+  /**
+   * Act on a report. Hiding and restoring apply to the reported content
+   * (restoring a reported user lifts their ban); banning suspends the author
+   * and hides the content. Every open report on the same content is closed
+   * with the report acted on.
+   */
+  async takeAction(
+    reportId: string,
+    moderatorId: string,
+    action: ModerationAction,
+    note?: string
+  ): Promise<ApiResponse<ContentReportData>> {
+    try {
+      const report = await prisma.contentReport.findUnique({
+        where: { id: reportId },
+      });
+
+      if (!report) {
+        return {
+          success: false,
+          error: 'Report not found',
+        };
+      }
+
+      const contentType = report.contentType as ReportableContentType;
+      const resource = `${contentType}:${report.contentId}`;
+      const isUser = contentType === 'user';
+
+      if (action === 'hide' && isUser) {
+        return {
+          success: false,
+          error: 'Users cannot be hidden; ban them instead',
+        };
+      }
+
+      if (action === 'ban') {
+        if (!report.authorId) {
+          return {
+            success: false,
+            error: 'This content has no author to ban',
+          };
+        }
+
+        const banned = await this.banUser(
+          report.authorId,
+          moderatorId,
+          note || `Report ${report.id}`
+        );
+        if (!banned.success) {
+          return { success: false, error: banned.error };
+        }
+      }
+
+      if (action === 'restore' && isUser) {
+        const unbanned = await this.unbanUser(report.contentId, moderatorId);
+        if (!unbanned.success) {
+          return { success: false, error: unbanned.error };
+        }
+      } else if ((action === 'hide' || action === 'ban') && !isUser) {
+        if (
+          !(await this.setContentVisibility(
+            contentType,
+            report.contentId,
+            false
+          ))
+        ) {
+          return {
+            success: false,
+            error: 'Content not found',
+          };
+        }
+      } else if (action === 'restore' && contentType !== 'user') {
+        if (
+          !(await this.setContentVisibility(
+            contentType,
+            report.contentId,
+            true
+          ))
+        ) {
+          return {
+            success: false,
+            error: 'Content not found',
+          };
+        }
+      }
+
+      const resolvedAt = new Date();
+      await prisma.contentReport.updateMany({
+        where: {
+          contentType: report.contentType,
+          contentId: report.contentId,
+          OR: [{ status: 'pending' }, { id: report.id }],
+        },
+        data: {
+          status: action === 'dismiss' ? 'dismissed' : 'resolved',
+          action,
+          resolvedById: moderatorId,
+          resolvedAt,
+        },
+      });
+
+      // Bans and unbans of reported users are logged by banUser and unbanUser
+      const eventType = {
+        hide: AuditLogger.EVENT_TYPES.CONTENT_HIDDEN,
+        restore: AuditLogger.EVENT_TYPES.CONTENT_RESTORED,
+        ban: AuditLogger.EVENT_TYPES.AUTHOR_BANNED,
+        dismiss: AuditLogger.EVENT_TYPES.REPORT_DISMISSED,
+      }[action];
+
+      if (!isUser || action === 'dismiss') {
+        await AuditLogger.logModerationEvent(
+          eventType,
+          resource,
+          { reportId: report.id, action, note },
+          moderatorId
+        );
+      }
+
+      return {
+        success: true,
+        data: this.toReportData({
+          ...report,
+          status: action === 'dismiss' ? 'dismissed' : 'resolved',
+          action,
+          resolvedAt,
+        }),
+        message: 'Moderation action applied',
+      };
+    } catch (error) {
+      console.error('Moderation action error:', error);
+      return {
+        success: false,
+        error: 'Failed to apply moderation action',
+      };
+    }
+  }
+
+  /**
+   * Suspend an account: it can no longer sign in or publish, and its
+   * sessions are revoked
+   */
+  async banUser(
+    userId: string,
+    moderatorId: string,
+    reason: string
+  ): Promise<ApiResponse<null>> {
+    try {
+      if (userId === moderatorId) {
+        return {
+          success: false,
+          error: 'You cannot ban yourself',
+        };
+      }
+
+      const { count } = await prisma.user.updateMany({
+        where: { id: userId },
+        data: { bannedAt: new Date(), banReason: reason.slice(0, 500) },
+      });
+
+      if (count === 0) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      await prisma.userSession.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      await AuditLogger.logModerationEvent(
+        AuditLogger.EVENT_TYPES.USER_BANNED,
+        `user:${userId}`,
+        { reason },
+        moderatorId
+      );
+
+      return {
+        success: true,
+        message: 'User banned successfully',
+      };
+    } catch (error) {
+      console.error('Ban user error:', error);
+      return {
+        success: false,
+        error: 'Failed to ban user',
+      };
+    }
+  }
+
+  /**
+   * Lift a ban
+   */
+  async unbanUser(
+    userId: string,
+    moderatorId: string
+  ): Promise<ApiResponse<null>> {
+    try {
+      const { count } = await prisma.user.updateMany({
+        where: { id: userId },
+        data: { bannedAt: null, banReason: null },
+      });
+
+      if (count === 0) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      await AuditLogger.logModerationEvent(
+        AuditLogger.EVENT_TYPES.USER_UNBANNED,
+        `user:${userId}`,
+        {},
+        moderatorId
+      );
+
+      return {
+        success: true,
+        message: 'User unbanned successfully',
+      };
+    } catch (error) {
+      console.error('Unban user error:', error);
+      return {
+        success: false,
+        error: 'Failed to unban user',
+      };
+    }
+  }
+
+  /**
+   * The author, text and visibility of a piece of content, or null if it
+   * does not exist
+   */
+  private async loadContent(
+    contentType: ReportableContentType,
+    contentId: string
+  ): Promise<ContentRecord | null> {
+    switch (contentType) {
+      case 'opportunity': {
+        const opportunity = await prisma.opportunity.findUnique({
+          where: { id: contentId },
+          select: { title: true, description: true, isActive: true },
+        });
+        return opportunity
+          ? {
+              authorId: null, // Aggregated from sources, not written by users
+              text: [opportunity.title, opportunity.description]
+                .filter(Boolean)
+                .join('\n'),
+              hidden: !opportunity.isActive,
+            }
+          : null;
+      }
+      case 'roadmap': {
+        const roadmap = await prisma.roadmap.findUnique({
+          where: { id: contentId },
+          select: {
+            userId: true,
+            title: true,
+            description: true,
+            isActive: true,
+          },
+        });
+        return roadmap
+          ? {
+              authorId: roadmap.userId,
+              text: [roadmap.title, roadmap.description]
+                .filter(Boolean)
+                .join('\n'),
+              hidden: !roadmap.isActive,
+            }
+          : null;
+      }
+      case 'discussion': {
+        const discussion = await prisma.discussion.findUnique({
+          where: { id: contentId },
+          select: { userId: true, title: true, content: true, isActive: true },
+        });
+        return discussion
+          ? {
+              authorId: discussion.userId,
+              text: `${discussion.title}\n${discussion.content}`,
+              hidden: !discussion.isActive,
+            }
+          : null;
+      }
+      case 'comment': {
+        const comment = await prisma.comment.findUnique({
+          where: { id: contentId },
+          select: { userId: true, content: true, isActive: true },
+        });
+        return comment
+          ? {
+              authorId: comment.userId,
+              text: comment.content,
+              hidden: !comment.isActive,
+            }
+          : null;
+      }
+      case 'direct_message': {
+        const message = await prisma.directMessage.findUnique({
+          where: { id: contentId },
+          select: {
+            senderId: true,
+            receiverId: true,
+            content: true,
+            hiddenAt: true,
+            deletedAt: true,
+          },
+        });
+        return message && !message.deletedAt
+          ? {
+              authorId: message.senderId,
+              recipientId: message.receiverId,
+              text: message.content,
+              hidden: !!message.hiddenAt,
+            }
+          : null;
+      }
+      case 'team': {
+        const team = await prisma.team.findUnique({
+          where: { id: contentId },
+          select: {
+            creatorId: true,
+            name: true,
+            description: true,
+            isActive: true,
+          },
+        });
+        return team
+          ? {
+              authorId: team.creatorId,
+              text: [team.name, team.description].filter(Boolean).join('\n'),
+              hidden: !team.isActive,
+            }
+          : null;
+      }
+      case 'user': {
+        const user = await prisma.user.findUnique({
+          where: { id: contentId },
+          select: { id: true, name: true, bannedAt: true },
+        });
+        return user
+          ? { authorId: user.id, text: user.name, hidden: !!user.bannedAt }
+          : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Hide or restore content, returning false if it does not exist
+   */
+  private async setContentVisibility(
+    contentType: Exclude<ReportableContentType, 'user'>,
+    contentId: string,
+    visible: boolean
+  ): Promise<boolean> {
+    const where = { id: contentId };
+    const data = { isActive: visible };
+    let result: { count: number };
+
+    switch (contentType) {
+      case 'opportunity':
+        result = await prisma.opportunity.updateMany({ where, data });
+        break;
+      case 'roadmap':
+        result = await prisma.roadmap.updateMany({ where, data });
+        break;
+      case 'discussion':
+        result = await prisma.discussion.updateMany({ where, data });
+        break;
+      case 'comment':
+        result = await prisma.comment.updateMany({ where, data });
+        break;
+      case 'team':
+        result = await prisma.team.updateMany({ where, data });
+        break;
+      case 'direct_message':
+        result = await prisma.directMessage.updateMany({
+          where,
+          data: { hiddenAt: visible ? null : new Date() },
+        });
+        break;
+    }
+
+    return result.count > 0;
+  }
+
+  private toReportData(report: any): ContentReportData {
+    return {
+      id: report.id,
+      contentType: report.contentType,
+      contentId: report.contentId,
+      authorId: report.authorId || undefined,
+      reporterId: report.reporterId || undefined,
+      reason: report.reason,
+      details: report.details || undefined,
+      matchedRules: report.matchedRules || [],
+      status: report.status,
+      action: report.action || undefined,
+      resolvedAt: report.resolvedAt || undefined,
+      createdAt: report.createdAt,
+    };
+  }
+}
+
+export const moderationService = new ModerationService();
@@ -1,10 +1,19 @@
 import { z } from 'zod';
+import { jobQueue } from './job-queue.service';
 import type {
   NotificationChannel,
   NotificationDelivery,
   NotificationStatus,
 } from './notification.service';
 
+const RETRY_JOB = 'notification.retry';
+
+interface RetryJobPayload {
+  deliveryId: string;
+  // Snapshot so that any instance can retry, not just the one that sent it
+  delivery: NotificationDelivery;
+}
+
 // Delivery tracking interfaces
 export interface DeliveryAttempt {
   id: string;
@@ -74,13 +83,20 @@ export class NotificationDeliveryService {
   private rules: Map<NotificationChannel, DeliveryRule> = new Map();
   private circuitBreakers: Map<NotificationChannel, CircuitBreakerState> =
     new Map();
-  private retryQueue: Map<string, NodeJS.Timeout> = new Map();
   private statsCache: Map<string, DeliveryStats> = new Map();
 
   constructor() {
     this.initializeDefaultRules();
     this.initializeCircuitBreakers();
     this.startStatsProcessor();
+
+    jobQueue.registerHandler<RetryJobPayload>(
+      RETRY_JOB,
+      async job => {
+        await this.retryDelivery(job.payload.deliveryId, job.payload.delivery);
+      },
+      { queue: 'notifications', maxAttempts: 2, backoffMs: 60 * 1000 }
+    );
   }
 
   // Initialize default delivery rules
@@ -283,26 +299,29 @@ export class NotificationDeliveryService {
     const retryDelay = this.calculateRetryDelay(delivery, rule);
     const retryTime = new Date(Date.now() + retryDelay);
 
-    // Clear existing retry timer
-    const existingTimer = this.retryQueue.get(delivery.id);
-    if (existingTimer) {
-      clearTimeout(existingTimer);
-    }
-
-    // Schedule retry
-    const timer = setTimeout(async () => {
-      await this.retryDelivery(delivery.id);
-      this.retryQueue.delete(delivery.id);
-    }, retryDelay);
-
-    this.retryQueue.set(delivery.id, timer);
-
     // Update delivery with retry time
     delivery.metadata = {
       ...delivery.metadata,
       nextRetryAt: retryTime.toISOString(),
     };
 
+    // Replace any retry already queued for this delivery
+    await jobQueue.cancelPending(
+      { name: RETRY_JOB, subject: delivery.id },
+      'Superseded by a newer retry'
+    );
+
+    // Schedule retry; the key makes each attempt number queue only once
+    await jobQueue.enqueue<RetryJobPayload>(
+      RETRY_JOB,
+      { deliveryId: delivery.id, delivery },
+      {
+        subject: delivery.id,
+        runAt: retryTime,
+        dedupeKey: `${RETRY_JOB}:${delivery.id}:${delivery.attempts}`,
+      }
+    );
+
     console.log(
       `Scheduled retry for delivery ${delivery.id} in ${retryDelay}ms`
     );
@@ -335,8 +354,13 @@ export class NotificationDeliveryService {
   }
 
   // Retry failed delivery
-  private async retryDelivery(deliveryId: string): Promise<void> {
-    const delivery = this.deliveries.get(deliveryId);
+  private async retryDelivery(
+    deliveryId: string,
+    snapshot?: NotificationDelivery
+  ): Promise<void> {
+    const delivery =
+      this.deliveries.get(deliveryId) ||
+      (snapshot && this.reviveDelivery(snapshot));
     if (!delivery) return;
 
     try {
@@ -636,43 +660,59 @@ export class NotificationDeliveryService {
 
   // Cancel pending retries for a delivery
   async cancelRetries(deliveryId: string): Promise<boolean> {
-    const timer = this.retryQueue.get(deliveryId);
-    if (timer) {
-      clearTimeout(timer);
-      this.retryQueue.delete(deliveryId);
+    const cancelled = await jobQueue.cancelPending({
+      name: RETRY_JOB,
+      subject: deliveryId,
+    });
+
+    if (cancelled > 0) {
       console.log(`Cancelled retries for delivery ${deliveryId}`);
       return true;
     }
     return false;
   }
 
-  // Get retry queue status
-  getRetryQueueStatus(): Array<{
-    deliveryId: string;
-    channel: NotificationChannel;
-    attempts: number;
-    nextRetryAt?: string;
-  }> {
-    const status: Array<{
+  // Get retry queue status (pending retries across all instances)
+  async getRetryQueueStatus(): Promise<
+    Array<{
       deliveryId: string;
       channel: NotificationChannel;
       attempts: number;
       nextRetryAt?: string;
-    }> = [];
-
-    for (const deliveryId of this.retryQueue.keys()) {
-      const delivery = this.deliveries.get(deliveryId);
-      if (delivery) {
-        status.push({
-          deliveryId,
-          channel: delivery.channel,
-          attempts: delivery.attempts,
-          nextRetryAt: delivery.metadata?.nextRetryAt,
-        });
-      }
-    }
+    }>
+  > {
+    const jobs = await jobQueue.listJobs({
+      name: RETRY_JOB,
+      status: 'pending',
+      limit: 500,
+    });
 
-    return status;
+    return jobs.map(job => {
+      const payload = job.payload as RetryJobPayload;
+      const delivery =
+        this.deliveries.get(payload.deliveryId) || payload.delivery;
+
+      return {
+        deliveryId: payload.deliveryId,
+        channel: delivery.channel,
+        attempts: delivery.attempts,
+        nextRetryAt: job.runAt.toISOString(),
+      };
+    });
+  }
+
+  // Restore dates on a delivery snapshot read back from a job payload
+  private reviveDelivery(snapshot: NotificationDelivery): NotificationDelivery {
+    const toDate = (value?: Date | string) =>
+      value ? new Date(value) : undefined;
+
+    return {
+      ...snapshot,
+      lastAttemptAt: toDate(snapshot.lastAttemptAt),
+      deliveredAt: toDate(snapshot.deliveredAt),
+      createdAt: new Date(snapshot.createdAt),
+      updatedAt: new Date(snapshot.updatedAt),
+    };
   }
 
   // Generate unique ID
@@ -111,6 +111,7 @@ const notificationTemplateSchema = z.object({
     'new_opportunity',
     'deadline_reminder',
     'recommendation',
+    'direct_message',
     'system',
   ]),
   channels: z.array(z.enum(['email', 'sms', 'in_app', 'push'])).min(1),
@@ -1017,6 +1018,7 @@ The OpportuneX Team`,
       new_opportunity: 0,
       deadline_reminder: 0,
       recommendation: 0,
+      direct_message: 0,
       system: 0,
     };
 
@@ -5,6 +5,7 @@ export type NotificationType =
   | 'new_opportunity'
   | 'deadline_reminder'
   | 'recommendation'
+  | 'direct_message'
   | 'system';
 export type NotificationChannel = 'email' | 'sms' | 'in_app' | 'push';
 export type NotificationStatus =
@@ -106,6 +107,7 @@ const notificationRequestSchema = z.object({
     'new_opportunity',
     'deadline_reminder',
     'recommendation',
+    'direct_message',
     'system',
   ]),
   channels: z.array(z.enum(['email', 'sms', 'in_app', 'push'])).min(1),
@@ -130,7 +132,13 @@ const notificationPreferencesSchema = z.object({
   push: z.boolean().default(true),
   frequency: z.enum(['immediate', 'daily', 'weekly']).default('immediate'),
   types: z.array(
-    z.enum(['new_opportunity', 'deadline_reminder', 'recommendation', 'system'])
+    z.enum([
+      'new_opportunity',
+      'deadline_reminder',
+      'recommendation',
+      'direct_message',
+      'system',
+    ])
   ),
   quietHours: z.object({
     enabled: z.boolean().default(false),
@@ -363,6 +371,7 @@ export class NotificationService {
           'new_opportunity',
           'deadline_reminder',
           'recommendation',
+          'direct_message',
         ],
       quietHours: preferences.quietHours ??
         existing?.quietHours ?? {
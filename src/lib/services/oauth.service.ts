@@ -1,24 +1,45 @@
 import { PrismaClient } from '@prisma/client';
 import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
 
 const prisma = new PrismaClient();
 
+/**
+ * Scopes a client can request, with the description shown on the consent
+ * screen
+ */
+export const OAUTH_SCOPES: Record<string, string> = {
+  openid: 'Sign you in with your OpportuneX account',
+  profile: 'See your name and preferred language',
+  email: 'See your email address',
+  'opportunities:read': 'Read opportunity data',
+  'opportunities:write': 'Create and update opportunities',
+  'users:read': 'Read user profile data',
+  'users:write': 'Update user profile',
+  'developer:read': 'Read API keys and webhooks',
+  'developer:write': 'Manage API keys and webhooks',
+};
+
+const ID_TOKEN_TTL_SECONDS = 3600;
+
 export interface CreateOAuthClientInput {
   userId: string;
   name: string;
   description?: string;
   redirectUris: string[];
   scopes: string[];
+  isPublic?: boolean; // Mobile and single-page apps that cannot keep a secret
 }
 
 export interface OAuthClientResponse {
   id: string;
   clientId: string;
-  clientSecret: string; // Only returned on creation
+  clientSecret: string | null; // Only returned on creation, null for public clients
   name: string;
   description: string | null;
   redirectUris: string[];
   scopes: string[];
+  isPublic: boolean;
   isActive: boolean;
   createdAt: Date;
 }
@@ -30,10 +51,30 @@ export interface OAuthClientListItem {
   description: string | null;
   redirectUris: string[];
   scopes: string[];
+  isPublic: boolean;
   isActive: boolean;
   createdAt: Date;
 }
 
+export interface AuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  scopes: string[];
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+  nonce?: string;
+}
+
+export interface AuthorizationDetails {
+  client: {
+    clientId: string;
+    name: string;
+    description: string | null;
+  };
+  scopes: Array<{ scope: string; description: string }>;
+  consentGranted: boolean; // The user already granted every requested scope
+}
+
 export interface AuthorizationCodeResponse {
   code: string;
   expiresAt: Date;
@@ -45,6 +86,78 @@ export interface TokenResponse {
   tokenType: string;
   expiresIn: number;
   scope: string;
+  idToken?: string; // Only when the openid scope was granted
+}
+
+export interface OAuthConsentItem {
+  clientId: string;
+  clientName: string;
+  clientDescription: string | null;
+  scopes: string[];
+  grantedAt: Date;
+  updatedAt: Date;
+}
+
+// A stored consent with the client it was given to
+interface ConsentWithClient {
+  clientId: string;
+  scopes: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  client: { name: string; description: string | null };
+}
+
+interface SigningKey {
+  kid: string;
+  privateKey: crypto.KeyObject;
+  publicJwk: crypto.JsonWebKey;
+}
+
+let signingKey: SigningKey | undefined;
+
+/**
+ * Load the RSA key ID tokens are signed with. Outside production a key is
+ * generated on first use, so ID tokens do not survive a restart there.
+ */
+function getSigningKey(): SigningKey {
+  if (signingKey) return signingKey;
+
+  let privateKey: crypto.KeyObject;
+  if (process.env.OIDC_PRIVATE_KEY) {
+    privateKey = crypto.createPrivateKey(
+      process.env.OIDC_PRIVATE_KEY.replace(/\\n/g, '\n')
+    );
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new Error('OIDC_PRIVATE_KEY environment variable is not configured');
+  } else {
+    console.warn('OIDC_PRIVATE_KEY is not set; using a temporary signing key');
+    ({ privateKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    }));
+  }
+
+  const { n, e } = crypto.createPublicKey(privateKey).export({ format: 'jwk' });
+  // RFC 7638 thumbprint, so the key ID only changes with the key
+  const kid = crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ e, kty: 'RSA', n }))
+    .digest('base64url');
+
+  signingKey = {
+    kid,
+    privateKey,
+    publicJwk: { kty: 'RSA', n, e, kid, use: 'sig', alg: 'RS256' },
+  };
+  return signingKey;
+}
+
+/**
+ * Issuer identifier used in ID tokens and the discovery document
+ */
+export function getOidcIssuer(): string {
+  return (
+    process.env.OIDC_ISSUER || 'http://localhost:3001/api/v1/oauth'
+  ).replace(/\/$/, '');
 }
 
 export class OAuthService {
@@ -106,27 +219,30 @@ export class OAuthService {
   ): Promise<OAuthClientResponse> {
     const { clientId, clientSecret, clientSecretHash } =
       this.generateClientCredentials();
+    const isPublic = input.isPublic ?? false;
 
     const client = await prisma.oAuthClient.create({
       data: {
         userId: input.userId,
         clientId,
-        clientSecretHash,
+        clientSecretHash: isPublic ? null : clientSecretHash,
         name: input.name,
         description: input.description,
         redirectUris: input.redirectUris,
         scopes: input.scopes,
+        isPublic,
       },
     });
 
     return {
       id: client.id,
       clientId: client.clientId,
-      clientSecret, // Only returned on creation
+      clientSecret: isPublic ? null : clientSecret, // Only returned on creation
       name: client.name,
       description: client.description,
       redirectUris: client.redirectUris,
       scopes: client.scopes,
+      isPublic: client.isPublic,
       isActive: client.isActive,
       createdAt: client.createdAt,
     };
@@ -148,6 +264,7 @@ export class OAuthService {
       description: client.description,
       redirectUris: client.redirectUris,
       scopes: client.scopes,
+      isPublic: client.isPublic,
       isActive: client.isActive,
       createdAt: client.createdAt,
     }));
@@ -190,6 +307,7 @@ export class OAuthService {
       description: client.description,
       redirectUris: client.redirectUris,
       scopes: client.scopes,
+      isPublic: client.isPublic,
       isActive: client.isActive,
       createdAt: client.createdAt,
     };
@@ -215,7 +333,7 @@ export class OAuthService {
       where: { clientId },
     });
 
-    if (!client || !client.isActive) {
+    if (!client || !client.isActive || !client.clientSecretHash) {
       return false;
     }
 
@@ -224,34 +342,199 @@ export class OAuthService {
   }
 
   /**
-   * Create authorization code
+   * Authenticate the client calling the token endpoint. Public clients have
+   * no secret and are identified by their client ID alone.
    */
-  async createAuthorizationCode(
-    clientId: string,
-    userId: string,
-    redirectUri: string,
-    scopes: string[]
-  ): Promise<AuthorizationCodeResponse> {
+  private async authenticateClient(clientId: string, clientSecret?: string) {
     const client = await prisma.oAuthClient.findUnique({
       where: { clientId },
     });
 
+    if (!client || !client.isActive) {
+      throw new Error('Invalid client credentials');
+    }
+
+    if (!client.isPublic) {
+      if (!clientSecret || !(await this.verifyClient(clientId, clientSecret))) {
+        throw new Error('Invalid client credentials');
+      }
+    }
+
+    return client;
+  }
+
+  /**
+   * Check an authorization request against the client's registration
+   */
+  private async validateAuthorizationRequest(request: AuthorizationRequest) {
+    const client = await prisma.oAuthClient.findUnique({
+      where: { clientId: request.clientId },
+    });
+
     if (!client || !client.isActive) {
       throw new Error('Invalid client');
     }
 
-    if (!client.redirectUris.includes(redirectUri)) {
+    if (!client.redirectUris.includes(request.redirectUri)) {
       throw new Error('Invalid redirect URI');
     }
 
     // Verify requested scopes are allowed
-    const invalidScopes = scopes.filter(
+    const invalidScopes = request.scopes.filter(
       scope => !client.scopes.includes(scope)
     );
     if (invalidScopes.length > 0) {
       throw new Error(`Invalid scopes: ${invalidScopes.join(', ')}`);
     }
 
+    if (request.codeChallenge) {
+      if (request.codeChallengeMethod !== 'S256') {
+        throw new Error('code_challenge_method must be S256');
+      }
+      if (!/^[A-Za-z0-9_-]{43,128}$/.test(request.codeChallenge)) {
+        throw new Error('Invalid code_challenge');
+      }
+    } else if (client.isPublic) {
+      throw new Error('Public clients must use PKCE');
+    }
+
+    return client;
+  }
+
+  /**
+   * Describe an authorization request for the consent screen
+   */
+  async getAuthorizationDetails(
+    userId: string,
+    request: AuthorizationRequest
+  ): Promise<AuthorizationDetails> {
+    const client = await this.validateAuthorizationRequest(request);
+
+    const consent = await prisma.oAuthConsent.findUnique({
+      where: { userId_clientId: { userId, clientId: request.clientId } },
+    });
+
+    return {
+      client: {
+        clientId: client.clientId,
+        name: client.name,
+        description: client.description,
+      },
+      scopes: request.scopes.map(scope => ({
+        scope,
+        description: OAUTH_SCOPES[scope] || scope,
+      })),
+      consentGranted:
+        !!consent &&
+        request.scopes.every(scope => consent.scopes.includes(scope)),
+    };
+  }
+
+  /**
+   * Record that the user granted the client these scopes, in addition to any
+   * granted before
+   */
+  async grantConsent(
+    userId: string,
+    clientId: string,
+    scopes: string[]
+  ): Promise<void> {
+    const existing = await prisma.oAuthConsent.findUnique({
+      where: { userId_clientId: { userId, clientId } },
+    });
+
+    await prisma.oAuthConsent.upsert({
+      where: { userId_clientId: { userId, clientId } },
+      create: { userId, clientId, scopes },
+      update: {
+        scopes: [...new Set([...(existing?.scopes || []), ...scopes])],
+      },
+    });
+  }
+
+  /**
+   * Issue an authorization code for a request the user approved and remember
+   * the scopes they granted
+   */
+  async approveAuthorization(
+    userId: string,
+    request: AuthorizationRequest
+  ): Promise<AuthorizationCodeResponse> {
+    const authCode = await this.createAuthorizationCode(
+      request.clientId,
+      userId,
+      request.redirectUri,
+      request.scopes,
+      request
+    );
+
+    await this.grantConsent(userId, request.clientId, request.scopes);
+
+    return authCode;
+  }
+
+  /**
+   * List the clients a user has granted access to
+   */
+  async listConsents(userId: string): Promise<OAuthConsentItem[]> {
+    const consents = await prisma.oAuthConsent.findMany({
+      where: { userId },
+      include: { client: { select: { name: true, description: true } } },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return consents.map((consent: ConsentWithClient) => ({
+      clientId: consent.clientId,
+      clientName: consent.client.name,
+      clientDescription: consent.client.description,
+      scopes: consent.scopes,
+      grantedAt: consent.createdAt,
+      updatedAt: consent.updatedAt,
+    }));
+  }
+
+  /**
+   * Withdraw a user's consent for a client and revoke every token it holds
+   * for them
+   */
+  async revokeConsent(userId: string, clientId: string): Promise<void> {
+    const { count } = await prisma.oAuthConsent.deleteMany({
+      where: { userId, clientId },
+    });
+
+    if (count === 0) {
+      throw new Error('Consent not found');
+    }
+
+    await prisma.oAuthRefreshToken.updateMany({
+      where: { accessToken: { userId, clientId } },
+      data: { revoked: true },
+    });
+    await this.revokeAllClientTokens(userId, clientId);
+  }
+
+  /**
+   * Create authorization code
+   */
+  async createAuthorizationCode(
+    clientId: string,
+    userId: string,
+    redirectUri: string,
+    scopes: string[],
+    options: Pick<
+      AuthorizationRequest,
+      'codeChallenge' | 'codeChallengeMethod' | 'nonce'
+    > = {}
+  ): Promise<AuthorizationCodeResponse> {
+    await this.validateAuthorizationRequest({
+      clientId,
+      redirectUri,
+      scopes,
+      codeChallenge: options.codeChallenge,
+      codeChallengeMethod: options.codeChallengeMethod,
+      nonce: options.nonce,
+    });
+
     const code = this.generateAuthorizationCode();
     const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
 
@@ -262,6 +545,11 @@ export class OAuthService {
         userId,
         redirectUri,
         scopes,
+        codeChallenge: options.codeChallenge,
+        codeChallengeMethod: options.codeChallenge
+          ? options.codeChallengeMethod
+          : undefined,
+        nonce: options.nonce,
         expiresAt,
       },
     });
@@ -275,14 +563,11 @@ export class OAuthService {
   async exchangeAuthorizationCode(
     code: string,
     clientId: string,
-    clientSecret: string,
-    redirectUri: string
+    clientSecret: string | undefined,
+    redirectUri: string,
+    codeVerifier?: string
   ): Promise<TokenResponse> {
-    // Verify client
-    const isValidClient = await this.verifyClient(clientId, clientSecret);
-    if (!isValidClient) {
-      throw new Error('Invalid client credentials');
-    }
+    await this.authenticateClient(clientId, clientSecret);
 
     // Find authorization code
     const authCode = await prisma.oAuthAuthorizationCode.findUnique({
@@ -301,54 +586,51 @@ export class OAuthService {
       throw new Error('Invalid redirect URI');
     }
 
+    if (authCode.codeChallenge) {
+      if (
+        !codeVerifier ||
+        !verifyCodeChallenge(codeVerifier, authCode.codeChallenge)
+      ) {
+        throw new Error('Invalid code_verifier');
+      }
+    } else if (codeVerifier) {
+      throw new Error('code_verifier sent for a code issued without PKCE');
+    }
+
     // Mark code as used
     await prisma.oAuthAuthorizationCode.update({
       where: { code },
       data: { used: true },
     });
 
-    // Generate tokens
-    const { token: accessToken, hash: accessTokenHash } =
-      this.generateAccessToken();
-    const { token: refreshToken, hash: refreshTokenHash } =
-      this.generateRefreshToken();
-
-    const accessTokenExpiresAt = new Date(Date.now() + 3600 * 1000); // 1 hour
-    const refreshTokenExpiresAt = new Date(Date.now() + 30 * 24 * 3600 * 1000); // 30 days
-
-    // Store access token
-    const accessTokenRecord = await prisma.oAuthAccessToken.create({
-      data: {
-        tokenHash: accessTokenHash,
-        clientId,
-        userId: authCode.userId,
-        scopes: authCode.scopes,
-        expiresAt: accessTokenExpiresAt,
-      },
-    });
-
-    // Store refresh token
-    await prisma.oAuthRefreshToken.create({
-      data: {
-        tokenHash: refreshTokenHash,
-        accessTokenId: accessTokenRecord.id,
-        expiresAt: refreshTokenExpiresAt,
-      },
-    });
+    const tokens = await this.issueTokens(
+      clientId,
+      authCode.userId,
+      authCode.scopes
+    );
 
-    return {
-      accessToken,
-      refreshToken,
-      tokenType: 'Bearer',
-      expiresIn: 3600,
-      scope: authCode.scopes.join(' '),
-    };
+    return authCode.scopes.includes('openid')
+      ? {
+          ...tokens,
+          idToken: await this.createIdToken(
+            clientId,
+            authCode.userId,
+            authCode.scopes,
+            tokens.accessToken,
+            authCode.nonce ?? undefined
+          ),
+        }
+      : tokens;
   }
 
   /**
    * Refresh access token
    */
-  async refreshAccessToken(refreshToken: string): Promise<TokenResponse> {
+  async refreshAccessToken(
+    refreshToken: string,
+    clientId?: string,
+    clientSecret?: string
+  ): Promise<TokenResponse> {
     const refreshTokenHash = crypto
       .createHash('sha256')
       .update(refreshToken)
@@ -371,6 +653,13 @@ export class OAuthService {
 
     const oldAccessToken = refreshTokenRecord.accessToken;
 
+    if (clientId !== undefined) {
+      await this.authenticateClient(clientId, clientSecret);
+      if (oldAccessToken.clientId !== clientId) {
+        throw new Error('Invalid refresh token');
+      }
+    }
+
     // Revoke old tokens
     await prisma.oAuthAccessToken.update({
       where: { id: oldAccessToken.id },
@@ -382,41 +671,185 @@ export class OAuthService {
       data: { revoked: true },
     });
 
-    // Generate new tokens
-    const { token: newAccessToken, hash: newAccessTokenHash } =
+    const tokens = await this.issueTokens(
+      oldAccessToken.clientId,
+      oldAccessToken.userId,
+      oldAccessToken.scopes
+    );
+
+    return oldAccessToken.scopes.includes('openid')
+      ? {
+          ...tokens,
+          idToken: await this.createIdToken(
+            oldAccessToken.clientId,
+            oldAccessToken.userId,
+            oldAccessToken.scopes,
+            tokens.accessToken
+          ),
+        }
+      : tokens;
+  }
+
+  /**
+   * Store a new access and refresh token pair
+   */
+  private async issueTokens(
+    clientId: string,
+    userId: string,
+    scopes: string[]
+  ): Promise<TokenResponse> {
+    const { token: accessToken, hash: accessTokenHash } =
       this.generateAccessToken();
-    const { token: newRefreshToken, hash: newRefreshTokenHash } =
+    const { token: refreshToken, hash: refreshTokenHash } =
       this.generateRefreshToken();
 
     const accessTokenExpiresAt = new Date(Date.now() + 3600 * 1000); // 1 hour
     const refreshTokenExpiresAt = new Date(Date.now() + 30 * 24 * 3600 * 1000); // 30 days
 
-    // Store new access token
-    const newAccessTokenRecord = await prisma.oAuthAccessToken.create({
+    // Store access token
+    const accessTokenRecord = await prisma.oAuthAccessToken.create({
       data: {
-        tokenHash: newAccessTokenHash,
-        clientId: oldAccessToken.clientId,
-        userId: oldAccessToken.userId,
-        scopes: oldAccessToken.scopes,
+        tokenHash: accessTokenHash,
+        clientId,
+        userId,
+        scopes,
         expiresAt: accessTokenExpiresAt,
       },
     });
 
-    // Store new refresh token
+    // Store refresh token
     await prisma.oAuthRefreshToken.create({
       data: {
-        tokenHash: newRefreshTokenHash,
-        accessTokenId: newAccessTokenRecord.id,
+        tokenHash: refreshTokenHash,
+        accessTokenId: accessTokenRecord.id,
         expiresAt: refreshTokenExpiresAt,
       },
     });
 
     return {
-      accessToken: newAccessToken,
-      refreshToken: newRefreshToken,
+      accessToken,
+      refreshToken,
       tokenType: 'Bearer',
       expiresIn: 3600,
-      scope: oldAccessToken.scopes.join(' '),
+      scope: scopes.join(' '),
+    };
+  }
+
+  /**
+   * Sign an OpenID Connect ID token for the user
+   */
+  private async createIdToken(
+    clientId: string,
+    userId: string,
+    scopes: string[],
+    accessToken: string,
+    nonce?: string
+  ): Promise<string> {
+    const claims = await this.getUserClaims(userId, scopes);
+    const { kid, privateKey } = getSigningKey();
+
+    // at_hash: left half of the SHA-256 of the access token (OIDC Core 3.1.3.6)
+    const digest = crypto.createHash('sha256').update(accessToken).digest();
+    const atHash = digest.subarray(0, digest.length / 2).toString('base64url');
+
+    return jwt.sign(
+      { ...claims, at_hash: atHash, ...(nonce ? { nonce } : {}) },
+      privateKey,
+      {
+        algorithm: 'RS256',
+        keyid: kid,
+        issuer: getOidcIssuer(),
+        audience: clientId,
+        expiresIn: ID_TOKEN_TTL_SECONDS,
+      }
+    );
+  }
+
+  /**
+   * Standard OpenID Connect claims for the scopes granted
+   */
+  async getUserClaims(
+    userId: string,
+    scopes: string[]
+  ): Promise<Record<string, unknown>> {
+    const claims: Record<string, unknown> = { sub: userId };
+
+    if (!scopes.includes('profile') && !scopes.includes('email')) {
+      return claims;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        name: true,
+        email: true,
+        preferredLanguage: true,
+        updatedAt: true,
+      },
+    });
+
+    if (!user) {
+      return claims;
+    }
+
+    if (scopes.includes('profile')) {
+      claims.name = user.name;
+      claims.locale = user.preferredLanguage;
+      claims.updated_at = Math.floor(user.updatedAt.getTime() / 1000);
+    }
+
+    if (scopes.includes('email')) {
+      claims.email = user.email;
+    }
+
+    return claims;
+  }
+
+  /**
+   * Public keys ID tokens can be verified with
+   */
+  getJwks(): { keys: crypto.JsonWebKey[] } {
+    return { keys: [getSigningKey().publicJwk] };
+  }
+
+  /**
+   * OpenID Connect discovery document
+   */
+  getDiscoveryDocument(): Record<string, unknown> {
+    const issuer = getOidcIssuer();
+
+    return {
+      issuer,
+      // The consent screen, which calls the API's /authorize on the user's behalf
+      authorization_endpoint: `${new URL(issuer).origin}/oauth/authorize`,
+      token_endpoint: `${issuer}/token`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      revocation_endpoint: `${issuer}/revoke`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code', 'refresh_token'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      scopes_supported: Object.keys(OAUTH_SCOPES),
+      token_endpoint_auth_methods_supported: [
+        'client_secret_basic',
+        'client_secret_post',
+        'none',
+      ],
+      code_challenge_methods_supported: ['S256'],
+      claims_supported: [
+        'sub',
+        'iss',
+        'aud',
+        'exp',
+        'iat',
+        'nonce',
+        'at_hash',
+        'name',
+        'locale',
+        'updated_at',
+        'email',
+      ],
     };
   }
 
@@ -475,4 +908,23 @@ export class OAuthService {
   }
 }
 
+/**
+ * Check a PKCE code verifier against the S256 challenge (RFC 7636 4.6)
+ */
+function verifyCodeChallenge(verifier: string, challenge: string): boolean {
+  if (!/^[A-Za-z0-9\-._~]{43,128}$/.test(verifier)) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    crypto.createHash('sha256').update(verifier).digest('base64url')
+  );
+  const actual = Buffer.from(challenge);
+
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+}
+
 export const oauthService = new OAuthService();
@@ -1,6 +1,18 @@
+import type {
+  Prisma,
+  OpportunityAlert as OpportunityAlertRecord,
+  OpportunityMatch as OpportunityMatchRecord,
+} from '@prisma/client';
+import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
+import { normalizeStipend } from '../search-normalization';
+import { jobQueue } from './job-queue.service';
 import { notificationService } from './notification.service';
 
+const prisma = new PrismaClient();
+
+const DIGEST_JOB = 'alerts.digest';
+
 // Opportunity alert interfaces
 export interface OpportunityAlert {
   id: string;
@@ -89,14 +101,19 @@ const opportunityAlertSchema = z.object({
   frequency: z.enum(['immediate', 'daily', 'weekly']).default('immediate'),
 });
 
+const idSchema = z.string().uuid();
+
 // Opportunity alerts service
 export class OpportunityAlertsService {
-  private alerts: Map<string, OpportunityAlert> = new Map();
-  private matches: Map<string, OpportunityMatch[]> = new Map();
   private processingInterval?: NodeJS.Timeout;
 
   constructor() {
     this.startAlertProcessor();
+
+    jobQueue.registerHandler(DIGEST_JOB, () => this.processBatchAlerts(), {
+      queue: 'notifications',
+      maxAttempts: 2,
+    });
   }
 
   // Create opportunity alert
@@ -111,29 +128,22 @@ export class OpportunityAlertsService {
     // Validate input
     const validatedParams = opportunityAlertSchema.parse(params);
 
-    const alert: OpportunityAlert = {
-      id: this.generateId(),
-      userId: validatedParams.userId,
-      name: validatedParams.name,
-      description: validatedParams.description,
-      criteria: validatedParams.criteria,
-      channels: validatedParams.channels,
-      frequency: validatedParams.frequency,
-      active: true,
-      matchCount: 0,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
-    this.alerts.set(alert.id, alert);
-    this.matches.set(alert.id, []);
+    const record = await prisma.opportunityAlert.create({
+      data: {
+        userId: validatedParams.userId,
+        name: validatedParams.name,
+        description: validatedParams.description,
+        criteria: validatedParams.criteria,
+        channels: validatedParams.channels,
+        frequency: validatedParams.frequency,
+      },
+    });
 
-    // TODO: Store in database
     console.log(
-      `Created opportunity alert ${alert.id} for user ${params.userId}`
+      `Created opportunity alert ${record.id} for user ${params.userId}`
     );
 
-    return alert;
+    return toAlert(record);
   }
 
   // Get user's alerts
@@ -143,17 +153,12 @@ export class OpportunityAlertsService {
       active?: boolean;
     } = {}
   ): Promise<OpportunityAlert[]> {
-    let userAlerts = Array.from(this.alerts.values()).filter(
-      alert => alert.userId === userId
-    );
-
-    if (options.active !== undefined) {
-      userAlerts = userAlerts.filter(alert => alert.active === options.active);
-    }
+    const records = await prisma.opportunityAlert.findMany({
+      where: { userId, isActive: options.active },
+      orderBy: { createdAt: 'desc' },
+    });
 
-    return userAlerts.sort(
-      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
-    );
+    return records.map(toAlert);
   }
 
   // Get alert by ID
@@ -161,11 +166,8 @@ export class OpportunityAlertsService {
     alertId: string,
     userId: string
   ): Promise<OpportunityAlert | null> {
-    const alert = this.alerts.get(alertId);
-    if (!alert || alert.userId !== userId) {
-      return null;
-    }
-    return alert;
+    const record = await this.findUserAlert(alertId, userId);
+    return record ? toAlert(record) : null;
   }
 
   // Update alert
@@ -181,55 +183,58 @@ export class OpportunityAlertsService {
       active?: boolean;
     }
   ): Promise<OpportunityAlert | null> {
-    const alert = this.alerts.get(alertId);
-    if (!alert || alert.userId !== userId) {
+    const existing = await this.findUserAlert(alertId, userId);
+    if (!existing) {
       return null;
     }
 
-    if (updates.name) alert.name = updates.name;
-    if (updates.description !== undefined)
-      alert.description = updates.description;
-    if (updates.criteria) {
-      alert.criteria = { ...alert.criteria, ...updates.criteria };
-    }
-    if (updates.channels) alert.channels = updates.channels;
-    if (updates.frequency) alert.frequency = updates.frequency;
-    if (updates.active !== undefined) alert.active = updates.active;
-
-    alert.updatedAt = new Date();
-    this.alerts.set(alertId, alert);
+    const record = await prisma.opportunityAlert.update({
+      where: { id: alertId },
+      data: {
+        name: updates.name || undefined,
+        description: updates.description,
+        criteria: updates.criteria
+          ? { ...(existing.criteria as AlertCriteria), ...updates.criteria }
+          : undefined,
+        channels: updates.channels,
+        frequency: updates.frequency,
+        isActive: updates.active,
+      },
+    });
 
-    // TODO: Update in database
     console.log(`Updated alert ${alertId}`);
 
-    return alert;
+    return toAlert(record);
   }
 
   // Delete alert
   async deleteAlert(alertId: string, userId: string): Promise<boolean> {
-    const alert = this.alerts.get(alertId);
-    if (!alert || alert.userId !== userId) {
+    const { count } = idSchema.safeParse(alertId).success
+      ? await prisma.opportunityAlert.deleteMany({
+          where: { id: alertId, userId },
+        })
+      : { count: 0 };
+
+    if (count === 0) {
       return false;
     }
 
-    this.alerts.delete(alertId);
-    this.matches.delete(alertId);
-
-    // TODO: Delete from database
     console.log(`Deleted alert ${alertId}`);
 
     return true;
   }
 
-  // Check opportunities against alerts
+  // Check opportunities against alerts. Returns the new matches only; an
+  // opportunity that already matched an alert is not recorded or sent twice.
   async checkOpportunityAgainstAlerts(
     opportunity: OpportunityMatch['opportunity']
   ): Promise<OpportunityMatch[]> {
     const matches: OpportunityMatch[] = [];
+    const records = await prisma.opportunityAlert.findMany({
+      where: { isActive: true },
+    });
 
-    for (const alert of this.alerts.values()) {
-      if (!alert.active) continue;
-
+    for (const alert of records.map(toAlert)) {
       const matchScore = this.calculateMatchScore(opportunity, alert.criteria);
       if (matchScore > 0) {
         const matchedCriteria = this.getMatchedCriteria(
@@ -246,18 +251,33 @@ export class OpportunityAlertsService {
           createdAt: new Date(),
         };
 
-        matches.push(match);
-
         // Store match
-        const alertMatches = this.matches.get(alert.id) || [];
-        alertMatches.push(match);
-        this.matches.set(alert.id, alertMatches);
+        const { count } = await prisma.opportunityMatch.createMany({
+          data: [
+            {
+              alertId: match.alertId,
+              opportunityId: match.opportunityId,
+              matchScore,
+              matchedCriteria,
+              opportunity: opportunity as Prisma.InputJsonValue,
+              createdAt: match.createdAt,
+            },
+          ],
+          skipDuplicates: true,
+        });
+        if (count === 0) continue;
+
+        matches.push(match);
 
         // Update alert match count
-        alert.matchCount++;
-        alert.lastTriggered = new Date();
-        alert.updatedAt = new Date();
-        this.alerts.set(alert.id, alert);
+        await prisma.opportunityAlert.update({
+          where: { id: alert.id },
+          data: {
+            matchCount: { increment: 1 },
+            lastTriggered:
+              alert.frequency === 'immediate' ? match.createdAt : undefined,
+          },
+        });
 
         // Send immediate notification if frequency is immediate
         if (alert.frequency === 'immediate') {
@@ -354,6 +374,22 @@ export class OpportunityAlertsService {
       }
     }
 
+    // Stipend bounds exclude, using the same monthly figures as search
+    if (
+      criteria.minStipend !== undefined ||
+      criteria.maxStipend !== undefined
+    ) {
+      const stipend = normalizeStipend(opportunity.stipend);
+      if (
+        (criteria.minStipend !== undefined &&
+          (stipend.max === undefined || stipend.max < criteria.minStipend)) ||
+        (criteria.maxStipend !== undefined &&
+          (stipend.min === undefined || stipend.min > criteria.maxStipend))
+      ) {
+        return 0;
+      }
+    }
+
     // Exclude keywords (negative scoring)
     if (criteria.excludeKeywords && criteria.excludeKeywords.length > 0) {
       const excludeMatches = criteria.excludeKeywords.filter(
@@ -486,83 +522,69 @@ export class OpportunityAlertsService {
     matches: OpportunityMatch[];
     total: number;
   }> {
-    const alert = this.alerts.get(alertId);
-    if (!alert || alert.userId !== userId) {
+    const alert = await this.findUserAlert(alertId, userId);
+    if (!alert) {
       return { matches: [], total: 0 };
     }
 
-    let matches = this.matches.get(alertId) || [];
-
-    // Filter by minimum score
-    if (options.minScore) {
-      matches = matches.filter(match => match.matchScore >= options.minScore);
-    }
+    const where = {
+      alertId,
+      matchScore: options.minScore ? { gte: options.minScore } : undefined,
+    };
 
     // Sort by match score and creation date
-    matches.sort((a, b) => {
-      if (a.matchScore !== b.matchScore) {
-        return b.matchScore - a.matchScore;
-      }
-      return b.createdAt.getTime() - a.createdAt.getTime();
-    });
-
-    const total = matches.length;
-    const offset = options.offset || 0;
-    const limit = options.limit || 20;
-
-    const paginatedMatches = matches.slice(offset, offset + limit);
+    const [records, total] = await Promise.all([
+      prisma.opportunityMatch.findMany({
+        where,
+        orderBy: [{ matchScore: 'desc' }, { createdAt: 'desc' }],
+        skip: options.offset || 0,
+        take: options.limit || 20,
+      }),
+      prisma.opportunityMatch.count({ where }),
+    ]);
 
     return {
-      matches: paginatedMatches,
+      matches: records.map(toMatch),
       total,
     };
   }
 
-  // Process daily/weekly alerts
+  // Process daily/weekly alerts. lastTriggered records the last digest, so
+  // each digest covers the matches found since the previous one.
   private async processBatchAlerts(): Promise<void> {
     const now = new Date();
-    const dailyAlerts = Array.from(this.alerts.values()).filter(
-      alert => alert.active && alert.frequency === 'daily'
-    );
-
-    const weeklyAlerts = Array.from(this.alerts.values()).filter(
-      alert => alert.active && alert.frequency === 'weekly'
-    );
-
-    // Process daily alerts (send if last triggered > 24 hours ago)
-    for (const alert of dailyAlerts) {
-      const shouldSend =
-        !alert.lastTriggered ||
-        now.getTime() - alert.lastTriggered.getTime() > 24 * 60 * 60 * 1000;
-
-      if (shouldSend) {
-        const matches = this.matches.get(alert.id) || [];
-        const recentMatches = matches.filter(
-          match =>
-            now.getTime() - match.createdAt.getTime() <= 24 * 60 * 60 * 1000
-        );
+    const periods = {
+      daily: 24 * 60 * 60 * 1000,
+      weekly: 7 * 24 * 60 * 60 * 1000,
+    };
 
-        if (recentMatches.length > 0) {
-          await this.sendAlertNotification(alert, recentMatches);
-        }
-      }
-    }
+    for (const [frequency, period] of Object.entries(periods)) {
+      const records = await prisma.opportunityAlert.findMany({
+        where: {
+          isActive: true,
+          frequency: frequency as 'daily' | 'weekly',
+          OR: [
+            { lastTriggered: null },
+            { lastTriggered: { lt: new Date(now.getTime() - period) } },
+          ],
+        },
+      });
 
-    // Process weekly alerts (send if last triggered > 7 days ago)
-    for (const alert of weeklyAlerts) {
-      const shouldSend =
-        !alert.lastTriggered ||
-        now.getTime() - alert.lastTriggered.getTime() > 7 * 24 * 60 * 60 * 1000;
-
-      if (shouldSend) {
-        const matches = this.matches.get(alert.id) || [];
-        const recentMatches = matches.filter(
-          match =>
-            now.getTime() - match.createdAt.getTime() <= 7 * 24 * 60 * 60 * 1000
+      for (const alert of records.map(toAlert)) {
+        const since = new Date(
+          Math.max(alert.lastTriggered?.getTime() ?? 0, now.getTime() - period)
         );
+        const recentMatches = await prisma.opportunityMatch.findMany({
+          where: { alertId: alert.id, createdAt: { gt: since } },
+          orderBy: { matchScore: 'desc' },
+        });
 
         if (recentMatches.length > 0) {
-          await this.sendAlertNotification(alert, recentMatches);
+          await this.sendAlertNotification(alert, recentMatches.map(toMatch));
+          await prisma.opportunityAlert.update({
+            where: { id: alert.id },
+            data: { lastTriggered: now },
+          });
         }
       }
     }
@@ -570,12 +592,22 @@ export class OpportunityAlertsService {
 
   // Start alert processor
   private startAlertProcessor(): void {
-    // Process batch alerts every hour
+    // Process batch alerts every hour. Every instance ticks, but the hourly
+    // dedupe key means only one digest run is queued per hour.
     this.processingInterval = setInterval(
       () => {
-        this.processBatchAlerts().catch(error => {
-          console.error('Error processing batch alerts:', error);
-        });
+        const hour = new Date();
+        hour.setUTCMinutes(0, 0, 0);
+
+        jobQueue
+          .enqueue(
+            DIGEST_JOB,
+            {},
+            { dedupeKey: `${DIGEST_JOB}:${hour.toISOString()}` }
+          )
+          .catch(error => {
+            console.error('Error processing batch alerts:', error);
+          });
       },
       60 * 60 * 1000
     );
@@ -602,11 +634,13 @@ export class OpportunityAlertsService {
     byChannel: Record<string, number>;
     topMatchingCriteria: Array<{ criteria: string; count: number }>;
   }> {
-    let alerts = Array.from(this.alerts.values());
-
-    if (userId) {
-      alerts = alerts.filter(alert => alert.userId === userId);
-    }
+    const records = await prisma.opportunityAlert.findMany({
+      where: { userId },
+      include: {
+        matches: { select: { matchScore: true, matchedCriteria: true } },
+      },
+    });
+    const alerts: OpportunityAlert[] = records.map(toAlert);
 
     const activeAlerts = alerts.filter(alert => alert.active);
 
@@ -616,8 +650,7 @@ export class OpportunityAlertsService {
     const byChannel: Record<string, number> = {};
     const criteriaCount: Record<string, number> = {};
 
-    alerts.forEach(alert => {
-      const matches = this.matches.get(alert.id) || [];
+    records.forEach(({ matches, frequency, channels }) => {
       totalMatches += matches.length;
 
       matches.forEach(match => {
@@ -627,9 +660,9 @@ export class OpportunityAlertsService {
         });
       });
 
-      byFrequency[alert.frequency] = (byFrequency[alert.frequency] || 0) + 1;
+      byFrequency[frequency] = (byFrequency[frequency] || 0) + 1;
 
-      alert.channels.forEach(channel => {
+      channels.forEach(channel => {
         byChannel[channel] = (byChannel[channel] || 0) + 1;
       });
     });
@@ -680,11 +713,56 @@ export class OpportunityAlertsService {
     });
   }
 
-  // Generate unique ID
-  private generateId(): string {
-    return Math.random().toString(36).substring(2) + Date.now().toString(36);
+  // Look up an alert owned by the user. IDs that are not UUIDs cannot exist,
+  // so they are rejected before reaching the database.
+  private async findUserAlert(alertId: string, userId: string) {
+    if (!idSchema.safeParse(alertId).success) {
+      return null;
+    }
+
+    return prisma.opportunityAlert.findFirst({
+      where: { id: alertId, userId },
+    });
   }
 }
 
+function toAlert(record: OpportunityAlertRecord): OpportunityAlert {
+  return {
+    id: record.id,
+    userId: record.userId,
+    name: record.name,
+    description: record.description ?? undefined,
+    criteria: record.criteria as AlertCriteria,
+    channels: record.channels as OpportunityAlert['channels'],
+    frequency: record.frequency,
+    active: record.isActive,
+    lastTriggered: record.lastTriggered ?? undefined,
+    matchCount: record.matchCount,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+function toMatch(record: OpportunityMatchRecord): OpportunityMatch {
+  // The opportunity snapshot is stored as JSON, so its deadline comes back
+  // as a string
+  const opportunity = record.opportunity as unknown as Omit<
+    OpportunityMatch['opportunity'],
+    'deadline'
+  > & { deadline: string };
+
+  return {
+    alertId: record.alertId,
+    opportunityId: record.opportunityId,
+    matchScore: record.matchScore,
+    matchedCriteria: record.matchedCriteria,
+    opportunity: {
+      ...opportunity,
+      deadline: new Date(opportunity.deadline),
+    },
+    createdAt: record.createdAt,
+  };
+}
+
 // Export singleton instance
 export const opportunityAlertsService = new OpportunityAlertsService();
@@ -0,0 +1,355 @@
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import type { Locale } from '../../i18n/config';
+import { defaultLocale, locales } from '../../i18n/config';
+import { eventBus } from '../events/event-bus';
+import { i18nService } from './i18n.service';
+import type { QueueJob } from './job-queue.service';
+import { jobQueue } from './job-queue.service';
+
+const prisma = new PrismaClient();
+
+const TRANSLATE_JOB = 'opportunity.translate';
+
+// Opportunities are written in English and translated into every other locale
+export const TRANSLATED_LOCALES = locales.filter(
+  locale => locale !== defaultLocale
+);
+
+export interface TranslateOpportunityResult {
+  translated: Locale[];
+  skipped: Locale[];
+}
+
+// Up-to-date translations of one opportunity, as indexed for search
+export type SearchTranslations = Partial<
+  Record<Locale, { title: string; description?: string }>
+>;
+
+interface LocalizableOpportunity {
+  id: string;
+  title: string;
+  description: string;
+  language?: string;
+}
+
+/**
+ * Hash of the English text a translation was made from. A translation whose
+ * hash no longer matches its opportunity is stale.
+ */
+export function translationSourceHash(
+  title: string,
+  description?: string | null
+): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${title}\n${description || ''}`)
+    .digest('hex');
+}
+
+export function isSupportedLocale(value: unknown): value is Locale {
+  return (
+    typeof value === 'string' && (locales as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Machine translation of opportunity titles and descriptions. New and updated
+ * opportunities are translated from the job queue, and responses swap in the
+ * caller's language when an up-to-date translation exists.
+ */
+export class OpportunityTranslationService {
+  constructor() {
+    jobQueue.registerHandler(
+      TRANSLATE_JOB,
+      (job: QueueJob<{ opportunityId: string }>) =>
+        this.translateOpportunity(job.payload.opportunityId),
+      { queue: 'translations', backoffMs: 60000 }
+    );
+
+    const enqueue = async (event: { id: string; data: { id: string } }) => {
+      await jobQueue.enqueue(
+        TRANSLATE_JOB,
+        { opportunityId: event.data.id },
+        {
+          dedupeKey: `${TRANSLATE_JOB}:${event.id}`,
+          subject: event.data.id,
+        }
+      );
+    };
+
+    eventBus.on('opportunity.created', enqueue);
+    eventBus.on('opportunity.updated', async event => {
+      // Only the title and description are translated
+      if (
+        event.data.changedFields.includes('title') ||
+        event.data.changedFields.includes('description')
+      ) {
+        await enqueue(event);
+      }
+    });
+  }
+
+  /**
+   * Translate an opportunity into every locale whose translation is missing,
+   * was made from different source text or by a different provider
+   */
+  async translateOpportunity(
+    opportunityId: string
+  ): Promise<TranslateOpportunityResult> {
+    const opportunity = await prisma.opportunity.findUnique({
+      where: { id: opportunityId },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        translations: {
+          select: { language: true, sourceHash: true, provider: true },
+        },
+      },
+    });
+
+    if (!opportunity) {
+      return { translated: [], skipped: [] };
+    }
+
+    const sourceHash = translationSourceHash(
+      opportunity.title,
+      opportunity.description
+    );
+    const provider = i18nService.translationProviderName;
+    const result: TranslateOpportunityResult = { translated: [], skipped: [] };
+
+    for (const language of TRANSLATED_LOCALES) {
+      const existing = opportunity.translations.find(
+        (translation: any) => translation.language === language
+      );
+
+      if (
+        existing?.sourceHash === sourceHash &&
+        existing.provider === provider
+      ) {
+        result.skipped.push(language);
+        continue;
+      }
+
+      const title = await this.translate(opportunity.title, language);
+      const description = opportunity.description
+        ? await this.translate(opportunity.description, language)
+        : null;
+
+      await prisma.opportunityTranslation.upsert({
+        where: {
+          opportunityId_language: { opportunityId, language },
+        },
+        create: {
+          opportunityId,
+          language,
+          title: title.slice(0, 500),
+          description,
+          sourceHash,
+          provider,
+        },
+        update: {
+          title: title.slice(0, 500),
+          description,
+          sourceHash,
+          provider,
+        },
+      });
+
+      result.translated.push(language);
+    }
+
+    if (result.translated.length > 0) {
+      eventBus.emit('opportunity.translated', {
+        id: opportunityId,
+        languages: result.translated,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Queue translation of active opportunities with a missing or stale
+   * translation. Catches up opportunities that predate the pipeline or whose
+   * jobs failed, and retranslates everything when the provider changes.
+   */
+  async enqueueStaleTranslations(): Promise<number> {
+    const opportunities = await prisma.opportunity.findMany({
+      where: { isActive: true },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        translations: { select: { sourceHash: true, provider: true } },
+      },
+    });
+
+    const provider = i18nService.translationProviderName;
+    let queued = 0;
+
+    for (const opportunity of opportunities) {
+      const sourceHash = translationSourceHash(
+        opportunity.title,
+        opportunity.description
+      );
+      const upToDate = opportunity.translations.filter(
+        (translation: any) =>
+          translation.sourceHash === sourceHash &&
+          translation.provider === provider
+      );
+
+      if (upToDate.length < TRANSLATED_LOCALES.length) {
+        const job = await jobQueue.enqueue(
+          TRANSLATE_JOB,
+          { opportunityId: opportunity.id },
+          {
+            dedupeKey: `${TRANSLATE_JOB}:${opportunity.id}:${sourceHash}:${provider}`,
+            subject: opportunity.id,
+          }
+        );
+        if (job) queued++;
+      }
+    }
+
+    return queued;
+  }
+
+  /**
+   * Swap in the translated title and description for the given language.
+   * Opportunities without an up-to-date translation stay in English.
+   */
+  async localize<T extends LocalizableOpportunity>(
+    opportunities: T[],
+    language: Locale
+  ): Promise<T[]> {
+    if (language === defaultLocale || opportunities.length === 0) {
+      return opportunities;
+    }
+
+    let translations: any[];
+    try {
+      translations = await prisma.opportunityTranslation.findMany({
+        where: {
+          language,
+          opportunityId: { in: opportunities.map(item => item.id) },
+        },
+      });
+    } catch (error) {
+      // Untranslated results beat no results
+      console.error('Load opportunity translations error:', error);
+      return opportunities;
+    }
+
+    const byOpportunity = new Map<string, any>(
+      translations.map(translation => [translation.opportunityId, translation])
+    );
+
+    return opportunities.map(opportunity => {
+      const translation = byOpportunity.get(opportunity.id);
+      const current =
+        translation &&
+        translation.sourceHash ===
+          translationSourceHash(opportunity.title, opportunity.description);
+
+      return current
+        ? {
+            ...opportunity,
+            title: translation.title,
+            description: translation.description ?? opportunity.description,
+            language,
+          }
+        : opportunity;
+    });
+  }
+
+  /**
+   * Up-to-date translations of each opportunity, keyed by opportunity ID
+   */
+  async getSearchTranslations(
+    opportunities: LocalizableOpportunity[]
+  ): Promise<Map<string, SearchTranslations>> {
+    const result = new Map<string, SearchTranslations>();
+    if (opportunities.length === 0) return result;
+
+    let translations: any[];
+    try {
+      translations = await prisma.opportunityTranslation.findMany({
+        where: {
+          opportunityId: { in: opportunities.map(item => item.id) },
+        },
+      });
+    } catch (error) {
+      // Index without translations rather than not at all
+      console.error('Load opportunity translations error:', error);
+      return result;
+    }
+
+    for (const opportunity of opportunities) {
+      const sourceHash = translationSourceHash(
+        opportunity.title,
+        opportunity.description
+      );
+      const current: SearchTranslations = {};
+
+      for (const translation of translations) {
+        const { language } = translation;
+        if (
+          translation.opportunityId === opportunity.id &&
+          translation.sourceHash === sourceHash &&
+          isSupportedLocale(language)
+        ) {
+          current[language] = {
+            title: translation.title,
+            description: translation.description || undefined,
+          };
+        }
+      }
+
+      result.set(opportunity.id, current);
+    }
+
+    return result;
+  }
+
+  /**
+   * Language a user has chosen for content, or the default locale
+   */
+  async getPreferredLanguage(userId?: string): Promise<Locale> {
+    if (!userId) return defaultLocale;
+
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { preferredLanguage: true },
+      });
+
+      return isSupportedLocale(user?.preferredLanguage)
+        ? user.preferredLanguage
+        : defaultLocale;
+    } catch (error) {
+      console.error('Get preferred language error:', error);
+      return defaultLocale;
+    }
+  }
+
+  private async translate(text: string, language: Locale): Promise<string> {
+    const result = await i18nService.translateText({
+      text,
+      sourceLanguage: defaultLocale,
+      targetLanguage: language,
+    });
+
+    if (!result.success || result.data === undefined) {
+      // Thrown so the job is retried
+      throw new Error(result.error || `Failed to translate into ${language}`);
+    }
+
+    return result.data.translatedText;
+  }
+}
+
+export const opportunityTranslationService =
+  new OpportunityTranslationService();
@@ -0,0 +1,175 @@
+import { PrismaClient } from '@prisma/client';
+import type { ApiResponse, Opportunity } from '../../types';
+import { opportunityTranslationService } from './opportunity-translation.service';
+
+const prisma = new PrismaClient();
+
+export interface OpportunityListFilters {
+  type?: Opportunity['type'];
+  skills?: string[];
+  location?: string;
+}
+
+export interface OpportunityList {
+  opportunities: Opportunity[];
+  pagination: {
+    page: number;
+    limit: number;
+    totalPages: number;
+    totalCount: number;
+  };
+  totalCount: number;
+}
+
+/**
+ * Map an opportunity row to the API shape
+ */
+export function toOpportunity(opp: any): Opportunity {
+  return {
+    id: opp.id,
+    title: opp.title,
+    description: opp.description || '',
+    type: opp.type as 'hackathon' | 'internship' | 'workshop',
+    organizer: {
+      name: opp.organizerName,
+      type: opp.organizerType as
+        | 'corporate'
+        | 'startup'
+        | 'government'
+        | 'academic',
+      logo: opp.organizerLogo || undefined,
+    },
+    requirements: {
+      skills: opp.requiredSkills,
+      experience: opp.experienceRequired || undefined,
+      education: opp.educationRequired || undefined,
+      eligibility: opp.eligibilityCriteria,
+    },
+    details: {
+      mode: opp.mode as 'online' | 'offline' | 'hybrid',
+      location: opp.location || undefined,
+      duration: opp.duration || undefined,
+      stipend: opp.stipend || undefined,
+      prizes: opp.prizes,
+    },
+    timeline: {
+      applicationDeadline: opp.applicationDeadline,
+      startDate: opp.startDate || undefined,
+      endDate: opp.endDate || undefined,
+    },
+    externalUrl: opp.externalUrl,
+    sourceId: opp.sourceId,
+    tags: opp.tags,
+    createdAt: opp.createdAt,
+    updatedAt: opp.updatedAt,
+    isActive: opp.isActive,
+  };
+}
+
+/**
+ * Browsing of active opportunities, in the caller's preferred language
+ */
+export class OpportunityService {
+  /**
+   * List active opportunities with an open deadline, soonest deadline first
+   */
+  async listOpportunities(
+    filters: OpportunityListFilters,
+    pagination: { page: number; limit: number },
+    userId?: string
+  ): Promise<ApiResponse<OpportunityList>> {
+    try {
+      const where: any = {
+        isActive: true,
+        applicationDeadline: { gte: new Date() },
+      };
+      if (filters.type) {
+        where.type = filters.type;
+      }
+      if (filters.skills && filters.skills.length > 0) {
+        where.requiredSkills = { hasSome: filters.skills };
+      }
+      if (filters.location) {
+        where.location = { contains: filters.location, mode: 'insensitive' };
+      }
+
+      const { page, limit } = pagination;
+      const [records, totalCount] = await Promise.all([
+        prisma.opportunity.findMany({
+          where,
+          orderBy: { applicationDeadline: 'asc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.opportunity.count({ where }),
+      ]);
+
+      const results: Opportunity[] = records.map(toOpportunity);
+      const opportunities = await opportunityTranslationService.localize(
+        results,
+        await opportunityTranslationService.getPreferredLanguage(userId)
+      );
+
+      return {
+        success: true,
+        data: {
+          opportunities,
+          pagination: {
+            page,
+            limit,
+            totalPages: Math.ceil(totalCount / limit),
+            totalCount,
+          },
+          totalCount,
+        },
+        message: 'Opportunities retrieved successfully',
+      };
+    } catch (error) {
+      console.error('List opportunities error:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve opportunities',
+      };
+    }
+  }
+
+  /**
+   * Get one opportunity
+   */
+  async getOpportunity(
+    opportunityId: string,
+    userId?: string
+  ): Promise<ApiResponse<Opportunity>> {
+    try {
+      const record = await prisma.opportunity.findUnique({
+        where: { id: opportunityId },
+      });
+
+      if (!record) {
+        return {
+          success: false,
+          error: 'Opportunity not found',
+        };
+      }
+
+      const [opportunity] = await opportunityTranslationService.localize(
+        [toOpportunity(record)],
+        await opportunityTranslationService.getPreferredLanguage(userId)
+      );
+
+      return {
+        success: true,
+        data: opportunity,
+        message: 'Opportunity retrieved successfully',
+      };
+    } catch (error) {
+      console.error('Get opportunity error:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve opportunity',
+      };
+    }
+  }
+}
+
+export const opportunityService = new OpportunityService();
@@ -0,0 +1,107 @@
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+/**
+ * Where call recordings live. Chunks are kept apart from finished files so a
+ * recording can be assembled once every chunk has arrived.
+ */
+export interface RecordingStorage {
+  readonly name: string;
+  saveChunk(recordingId: string, sequence: number, data: Buffer): Promise<void>;
+  /** Join the chunks in the given order into one file and return its size */
+  assemble(
+    recordingId: string,
+    sequences: number[],
+    key: string
+  ): Promise<number>;
+  deleteChunks(recordingId: string): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  createReadStream(key: string): Readable;
+  delete(key: string): Promise<void>;
+}
+
+// Files on local disk, under RECORDINGS_DIR
+export class LocalRecordingStorage implements RecordingStorage {
+  readonly name = 'local';
+
+  constructor(
+    private baseDir: string = process.env.RECORDINGS_DIR ||
+      path.join(process.cwd(), 'uploads', 'recordings')
+  ) {}
+
+  async saveChunk(
+    recordingId: string,
+    sequence: number,
+    data: Buffer
+  ): Promise<void> {
+    await fs.mkdir(this.chunkDir(recordingId), { recursive: true });
+    await fs.writeFile(this.chunkPath(recordingId, sequence), data);
+  }
+
+  async assemble(
+    recordingId: string,
+    sequences: number[],
+    key: string
+  ): Promise<number> {
+    const target = this.filePath(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    // One chunk at a time, so a long recording is never held in memory
+    const output = createWriteStream(target);
+    try {
+      for (const sequence of sequences) {
+        await pipeline(
+          createReadStream(this.chunkPath(recordingId, sequence)),
+          output,
+          { end: false }
+        );
+      }
+    } finally {
+      await new Promise<void>((resolve, reject) =>
+        output.end((error?: Error | null) =>
+          error ? reject(error) : resolve()
+        )
+      );
+    }
+
+    return (await fs.stat(target)).size;
+  }
+
+  async deleteChunks(recordingId: string): Promise<void> {
+    await fs.rm(this.chunkDir(recordingId), { recursive: true, force: true });
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.readFile(this.filePath(key));
+  }
+
+  createReadStream(key: string): Readable {
+    return createReadStream(this.filePath(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  private chunkDir(recordingId: string): string {
+    return path.join(this.baseDir, 'chunks', recordingId);
+  }
+
+  private chunkPath(recordingId: string, sequence: number): string {
+    return path.join(this.chunkDir(recordingId), String(sequence));
+  }
+
+  private filePath(key: string): string {
+    const resolved = path.resolve(this.baseDir, key);
+    if (!resolved.startsWith(path.resolve(this.baseDir) + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return resolved;
+  }
+}
+
+export function createRecordingStorage(): RecordingStorage {
+  return new LocalRecordingStorage();
+}
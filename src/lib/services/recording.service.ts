@@ -0,0 +1,672 @@
+// Video Call Recording Service
+import type {
+  StartRecordingRequest,
+  TranscriptSearchResult,
+  VideoCallRecording,
+  VideoCallTranscript,
+  VideoCallTranscriptSegment,
+} from '@/types/video-conferencing';
+import type { Pool } from 'pg';
+import type { Readable } from 'stream';
+import { jobQueue } from './job-queue.service';
+import type { JobContext, QueueJob } from './job-queue.service';
+import type { RecordingStorage } from './recording-storage';
+import { createRecordingStorage } from './recording-storage';
+import type { SpeechToTextProvider } from './speech-to-text-provider';
+import {
+  createSpeechToTextProvider,
+  isSpeechLanguage,
+} from './speech-to-text-provider';
+
+const ASSEMBLE_JOB = 'video.recording.assemble';
+const TRANSCRIBE_JOB = 'video.recording.transcribe';
+
+export const MAX_RECORDING_CHUNK_BYTES = 25 * 1024 * 1024;
+const MAX_RECORDING_CHUNKS = 10000;
+const MAX_SEARCH_RESULTS = 50;
+
+// Segments per INSERT when saving a transcript
+const SEGMENT_BATCH_SIZE = 500;
+
+const MIME_TYPES: Record<string, string> = {
+  webm: 'video/webm',
+  mp4: 'video/mp4',
+  ogg: 'video/ogg',
+};
+
+interface RecordingJobPayload {
+  recordingId: string;
+}
+
+/**
+ * Call recordings from upload to searchable transcript. The recording
+ * client uploads MediaRecorder chunks while the call is recorded. Stopping
+ * queues a job that joins the chunks into one file, and a second job runs it
+ * through speech-to-text.
+ */
+export class RecordingService {
+  private pool: Pool;
+  private storage: RecordingStorage;
+  private speechProvider: SpeechToTextProvider;
+
+  constructor(
+    pool: Pool,
+    storage: RecordingStorage = createRecordingStorage(),
+    speechProvider: SpeechToTextProvider = createSpeechToTextProvider()
+  ) {
+    this.pool = pool;
+    this.storage = storage;
+    this.speechProvider = speechProvider;
+
+    jobQueue.registerHandler(
+      ASSEMBLE_JOB,
+      (job: QueueJob<RecordingJobPayload>, context: JobContext) =>
+        this.runRecordingJob(job, context, () =>
+          this.assembleRecording(job.payload.recordingId)
+        ),
+      { queue: 'recordings' }
+    );
+    jobQueue.registerHandler(
+      TRANSCRIBE_JOB,
+      (job: QueueJob<RecordingJobPayload>, context: JobContext) =>
+        this.runRecordingJob(job, context, () =>
+          this.transcribeRecording(job.payload.recordingId)
+        ),
+      { queue: 'recordings', backoffMs: 5 * 60 * 1000 }
+    );
+  }
+
+  /**
+   * Start recording a call. Only the host or a co-host can.
+   */
+  async startRecording(
+    roomId: string,
+    userId: string,
+    request: StartRecordingRequest = {}
+  ): Promise<VideoCallRecording> {
+    if (!(await this.isRoomModerator(roomId, userId))) {
+      throw new Error('Only the host or a co-host can record the call');
+    }
+
+    const format = request.format || 'webm';
+    if (!MIME_TYPES[format]) {
+      throw new Error('Unsupported recording format');
+    }
+
+    const language = request.language || 'en';
+    if (!isSpeechLanguage(language)) {
+      throw new Error('Unsupported recording language');
+    }
+
+    const active = await this.pool.query(
+      `SELECT id FROM video_call_recordings
+       WHERE room_id = $1 AND status = 'recording'`,
+      [roomId]
+    );
+    if (active.rows.length > 0) {
+      throw new Error('The call is already being recorded');
+    }
+
+    const result = await this.pool.query(
+      `INSERT INTO video_call_recordings (
+        room_id, format, status, started_at, started_by, language
+      ) VALUES ($1, $2, 'recording', NOW(), $3, $4)
+      RETURNING *`,
+      [roomId, format, userId, language]
+    );
+
+    return this.mapRecordingFromDb(result.rows[0]);
+  }
+
+  /**
+   * Store one MediaRecorder chunk. Chunks are numbered from 0 in recording
+   * order, and uploading the same number again replaces it.
+   */
+  async uploadChunk(
+    recordingId: string,
+    userId: string,
+    sequence: number,
+    data: Buffer
+  ): Promise<void> {
+    const recording = await this.getRecording(recordingId);
+    if (!recording || recording.startedBy !== userId) {
+      throw new Error('Recording not found');
+    }
+
+    if (recording.status !== 'recording') {
+      throw new Error('Recording has already stopped');
+    }
+
+    if (
+      !Number.isInteger(sequence) ||
+      sequence < 0 ||
+      sequence >= MAX_RECORDING_CHUNKS
+    ) {
+      throw new Error('Invalid chunk number');
+    }
+
+    if (data.length === 0) {
+      throw new Error('Chunk is empty');
+    }
+
+    if (data.length > MAX_RECORDING_CHUNK_BYTES) {
+      throw new Error('Chunk is too large');
+    }
+
+    await this.storage.saveChunk(recordingId, sequence, data);
+    await this.pool.query(
+      `INSERT INTO video_call_recording_chunks (
+        recording_id, sequence, size_bytes
+      ) VALUES ($1, $2, $3)
+      ON CONFLICT (recording_id, sequence)
+      DO UPDATE SET size_bytes = EXCLUDED.size_bytes, created_at = NOW()`,
+      [recordingId, sequence, data.length]
+    );
+  }
+
+  /**
+   * Stop recording and queue the upload for processing. Send this after the
+   * last chunk has been uploaded.
+   */
+  async stopRecording(
+    recordingId: string,
+    userId: string
+  ): Promise<VideoCallRecording> {
+    const recording = await this.getRecording(recordingId);
+    if (
+      !recording ||
+      (recording.startedBy !== userId &&
+        !(await this.isRoomModerator(recording.roomId, userId)))
+    ) {
+      throw new Error('Recording not found');
+    }
+
+    const result = await this.pool.query(
+      `UPDATE video_call_recordings
+       SET ended_at = NOW(),
+           duration_seconds = EXTRACT(EPOCH FROM (NOW() - started_at))::INT,
+           status = 'processing',
+           updated_at = NOW()
+       WHERE id = $1 AND status = 'recording'
+       RETURNING *`,
+      [recordingId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Recording has already stopped');
+    }
+
+    await jobQueue.enqueue<RecordingJobPayload>(
+      ASSEMBLE_JOB,
+      { recordingId },
+      { dedupeKey: `${ASSEMBLE_JOB}:${recordingId}`, subject: recordingId }
+    );
+
+    return this.mapRecordingFromDb(result.rows[0]);
+  }
+
+  /**
+   * Join a stopped recording's chunks into its final file, then queue the
+   * transcript. Missing chunks fail the recording, since the file would not
+   * play.
+   */
+  async assembleRecording(
+    recordingId: string
+  ): Promise<VideoCallRecording | null> {
+    const recording = await this.getRecording(recordingId);
+    if (!recording || recording.status !== 'processing') {
+      return recording;
+    }
+
+    const chunks = await this.pool.query<{ sequence: number }>(
+      `SELECT sequence FROM video_call_recording_chunks
+       WHERE recording_id = $1
+       ORDER BY sequence ASC`,
+      [recordingId]
+    );
+    const sequences = chunks.rows.map(row => row.sequence);
+
+    if (sequences.length === 0) {
+      return this.failRecording(recordingId, 'No recording was uploaded');
+    }
+
+    const missing = sequences.findIndex(
+      (sequence, index) => sequence !== index
+    );
+    if (missing !== -1) {
+      return this.failRecording(recordingId, `Chunk ${missing} is missing`);
+    }
+
+    const storageKey = `${recording.roomId}/${recording.id}.${recording.format}`;
+    const size = await this.storage.assemble(
+      recordingId,
+      sequences,
+      storageKey
+    );
+
+    const result = await this.pool.query(
+      `UPDATE video_call_recordings
+       SET status = 'ready',
+           storage_key = $2,
+           file_size_bytes = $3,
+           recording_url = $4,
+           error_message = NULL,
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [
+        recordingId,
+        storageKey,
+        size,
+        `/api/v1/video/recordings/${recordingId}/download`,
+      ]
+    );
+
+    await this.pool.query(
+      'DELETE FROM video_call_recording_chunks WHERE recording_id = $1',
+      [recordingId]
+    );
+    await this.storage.deleteChunks(recordingId);
+
+    await jobQueue.enqueue<RecordingJobPayload>(
+      TRANSCRIBE_JOB,
+      { recordingId },
+      { dedupeKey: `${TRANSCRIBE_JOB}:${recordingId}`, subject: recordingId }
+    );
+
+    return this.mapRecordingFromDb(result.rows[0]);
+  }
+
+  /**
+   * Transcribe a ready recording and, for mentorship calls, link the
+   * transcript from the session notes
+   */
+  async transcribeRecording(
+    recordingId: string
+  ): Promise<VideoCallTranscript | null> {
+    const recording = await this.getRecording(recordingId);
+    if (!recording || recording.status !== 'ready' || !recording.storageKey) {
+      return null;
+    }
+
+    const language = isSpeechLanguage(recording.language)
+      ? recording.language
+      : 'en';
+
+    const created = await this.pool.query(
+      `INSERT INTO video_call_transcripts (recording_id, language, status)
+       VALUES ($1, $2, 'processing')
+       ON CONFLICT (recording_id)
+       DO UPDATE SET status = 'processing', error_message = NULL,
+                     updated_at = NOW()
+       RETURNING id`,
+      [recordingId, language]
+    );
+    const transcriptId: string = created.rows[0].id;
+
+    const file = await this.storage.read(recording.storageKey);
+    const audio = new Blob([new Uint8Array(file)], {
+      type: MIME_TYPES[recording.format] || MIME_TYPES.webm,
+    });
+    const transcription = await this.speechProvider.transcribe(audio, language);
+
+    // No speech still makes a transcript, just an empty one
+    const segments = transcription?.segments || [];
+
+    await this.pool.query(
+      'DELETE FROM video_call_transcript_segments WHERE transcript_id = $1',
+      [transcriptId]
+    );
+
+    for (let i = 0; i < segments.length; i += SEGMENT_BATCH_SIZE) {
+      const values: string[] = [];
+      const params: Array<string | number | null> = [transcriptId];
+
+      segments.slice(i, i + SEGMENT_BATCH_SIZE).forEach(segment => {
+        params.push(
+          segment.startMs,
+          segment.endMs,
+          segment.text,
+          segment.confidence ?? null
+        );
+        const n = params.length;
+        values.push(`($1, $${n - 3}, $${n - 2}, $${n - 1}, $${n})`);
+      });
+
+      await this.pool.query(
+        `INSERT INTO video_call_transcript_segments (
+          transcript_id, start_ms, end_ms, text, confidence
+        ) VALUES ${values.join(', ')}`,
+        params
+      );
+    }
+
+    await this.pool.query(
+      `UPDATE video_call_transcripts
+       SET status = 'ready', provider = $2, full_text = $3, confidence = $4,
+           updated_at = NOW()
+       WHERE id = $1`,
+      [
+        transcriptId,
+        this.speechProvider.name,
+        transcription?.text || '',
+        transcription?.confidence ?? null,
+      ]
+    );
+
+    await this.linkToMentorshipSession(recording);
+
+    return this.loadTranscript(recordingId);
+  }
+
+  /**
+   * Get recording
+   */
+  async getRecording(recordingId: string): Promise<VideoCallRecording | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM video_call_recordings WHERE id = $1',
+      [recordingId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRecordingFromDb(result.rows[0]);
+  }
+
+  /**
+   * A recording, for someone who was in the call
+   */
+  async getRecordingForUser(
+    recordingId: string,
+    userId: string
+  ): Promise<VideoCallRecording | null> {
+    const recording = await this.getRecording(recordingId);
+    if (!recording || !(await this.canAccessRoom(recording.roomId, userId))) {
+      return null;
+    }
+    return recording;
+  }
+
+  /**
+   * A room's recordings, newest first, for someone who was in the call
+   */
+  async getRoomRecordings(
+    roomId: string,
+    userId: string
+  ): Promise<VideoCallRecording[]> {
+    if (!(await this.canAccessRoom(roomId, userId))) {
+      return [];
+    }
+
+    const result = await this.pool.query(
+      `SELECT * FROM video_call_recordings
+       WHERE room_id = $1 AND status <> 'deleted'
+       ORDER BY started_at DESC`,
+      [roomId]
+    );
+    return result.rows.map(row => this.mapRecordingFromDb(row));
+  }
+
+  /**
+   * Stream a ready recording's file
+   */
+  openRecording(recording: VideoCallRecording): {
+    stream: Readable;
+    mimeType: string;
+  } {
+    if (recording.status !== 'ready' || !recording.storageKey) {
+      throw new Error('Recording is not ready');
+    }
+
+    return {
+      stream: this.storage.createReadStream(recording.storageKey),
+      mimeType: MIME_TYPES[recording.format] || MIME_TYPES.webm,
+    };
+  }
+
+  /**
+   * A recording's transcript, for someone who was in the call
+   */
+  async getTranscript(
+    recordingId: string,
+    userId: string
+  ): Promise<VideoCallTranscript | null> {
+    if (!(await this.getRecordingForUser(recordingId, userId))) {
+      return null;
+    }
+    return this.loadTranscript(recordingId);
+  }
+
+  /**
+   * Full-text search over the transcripts of calls the user was in. Each
+   * hit is one timed segment, best matches first.
+   */
+  async searchTranscripts(
+    userId: string,
+    query: string,
+    filters: { roomId?: string; mentorshipSessionId?: string } = {},
+    limit = 20
+  ): Promise<TranscriptSearchResult[]> {
+    if (!query.trim()) {
+      return [];
+    }
+
+    const result = await this.pool.query(
+      `SELECT t.recording_id, rec.room_id, room.name AS room_name,
+              rec.started_at, s.start_ms, s.end_ms, s.text
+       FROM video_call_transcript_segments s
+       JOIN video_call_transcripts t ON t.id = s.transcript_id
+       JOIN video_call_recordings rec ON rec.id = t.recording_id
+       JOIN video_call_rooms room ON room.id = rec.room_id,
+       websearch_to_tsquery('simple', $2) query
+       WHERE s.search_vector @@ query
+         AND t.status = 'ready'
+         AND rec.status = 'ready'
+         AND (room.host_id = $1 OR EXISTS (
+           SELECT 1 FROM video_call_participants p
+           WHERE p.room_id = room.id AND p.user_id = $1
+         ))
+         AND ($3::uuid IS NULL OR room.id = $3)
+         AND ($4::uuid IS NULL OR room.mentorship_session_id = $4)
+       ORDER BY ts_rank(s.search_vector, query) DESC, rec.started_at DESC,
+                s.start_ms ASC
+       LIMIT $5`,
+      [
+        userId,
+        query,
+        filters.roomId || null,
+        filters.mentorshipSessionId || null,
+        Math.min(Math.max(limit, 1), MAX_SEARCH_RESULTS),
+      ]
+    );
+
+    return result.rows.map(row => ({
+      recordingId: row.recording_id,
+      roomId: row.room_id,
+      roomName: row.room_name,
+      recordedAt: row.started_at,
+      startMs: row.start_ms,
+      endMs: row.end_ms,
+      text: row.text,
+    }));
+  }
+
+  private async loadTranscript(
+    recordingId: string
+  ): Promise<VideoCallTranscript | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM video_call_transcripts WHERE recording_id = $1',
+      [recordingId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const segments = await this.pool.query(
+      `SELECT start_ms, end_ms, text, confidence
+       FROM video_call_transcript_segments
+       WHERE transcript_id = $1
+       ORDER BY start_ms ASC`,
+      [result.rows[0].id]
+    );
+
+    return this.mapTranscriptFromDb(
+      result.rows[0],
+      segments.rows.map(
+        (row): VideoCallTranscriptSegment => ({
+          startMs: row.start_ms,
+          endMs: row.end_ms,
+          text: row.text,
+          confidence: row.confidence ?? undefined,
+        })
+      )
+    );
+  }
+
+  /**
+   * Add a link to the transcript to the notes of the call's mentorship
+   * session, once
+   */
+  private async linkToMentorshipSession(
+    recording: VideoCallRecording
+  ): Promise<void> {
+    const room = await this.pool.query(
+      'SELECT mentorship_session_id FROM video_call_rooms WHERE id = $1',
+      [recording.roomId]
+    );
+    const sessionId = room.rows[0]?.mentorship_session_id;
+    if (!sessionId) return;
+
+    const url = `${process.env.NEXT_PUBLIC_APP_URL}/api/v1/video/recordings/${recording.id}/transcript`;
+    const recordedOn = new Date(recording.startedAt).toISOString().slice(0, 10);
+
+    await this.pool.query(
+      `UPDATE mentorship_sessions
+       SET notes = CONCAT_WS(E'\\n\\n', NULLIF(notes, ''), $2::text),
+           updated_at = NOW()
+       WHERE id = $1 AND POSITION($3 IN COALESCE(notes, '')) = 0`,
+      [sessionId, `Call transcript (${recordedOn}): ${url}`, url]
+    );
+  }
+
+  /**
+   * Give up on a recording once its job has used its last attempt, so it
+   * does not stay "processing" for ever
+   */
+  private async runRecordingJob<T>(
+    job: QueueJob<RecordingJobPayload>,
+    context: JobContext,
+    run: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      if (context.attempt >= job.maxAttempts) {
+        const message =
+          error instanceof Error ? error.message : 'Processing failed';
+
+        if (job.name === ASSEMBLE_JOB) {
+          await this.failRecording(job.payload.recordingId, message);
+        } else {
+          await this.pool.query(
+            `UPDATE video_call_transcripts
+             SET status = 'failed', error_message = $2, updated_at = NOW()
+             WHERE recording_id = $1`,
+            [job.payload.recordingId, message]
+          );
+        }
+      }
+      throw error;
+    }
+  }
+
+  private async failRecording(
+    recordingId: string,
+    message: string
+  ): Promise<VideoCallRecording | null> {
+    const result = await this.pool.query(
+      `UPDATE video_call_recordings
+       SET status = 'failed', error_message = $2, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [recordingId, message]
+    );
+    return result.rows[0] ? this.mapRecordingFromDb(result.rows[0]) : null;
+  }
+
+  private async isRoomModerator(
+    roomId: string,
+    userId: string
+  ): Promise<boolean> {
+    const result = await this.pool.query(
+      `SELECT 1 FROM video_call_rooms room
+       WHERE room.id = $1 AND (room.host_id = $2 OR EXISTS (
+         SELECT 1 FROM video_call_participants p
+         WHERE p.room_id = room.id AND p.user_id = $2
+           AND p.role IN ('host', 'co_host') AND p.left_at IS NULL
+       ))`,
+      [roomId, userId]
+    );
+    return result.rows.length > 0;
+  }
+
+  private async canAccessRoom(
+    roomId: string,
+    userId: string
+  ): Promise<boolean> {
+    const result = await this.pool.query(
+      `SELECT 1 FROM video_call_rooms room
+       WHERE room.id = $1 AND (room.host_id = $2 OR EXISTS (
+         SELECT 1 FROM video_call_participants p
+         WHERE p.room_id = room.id AND p.user_id = $2
+       ))`,
+      [roomId, userId]
+    );
+    return result.rows.length > 0;
+  }
+
+  private mapRecordingFromDb(row: any): VideoCallRecording {
+    return {
+      id: row.id,
+      roomId: row.room_id,
+      recordingUrl: row.recording_url,
+      storageKey: row.storage_key,
+      fileSizeBytes: row.file_size_bytes,
+      durationSeconds: row.duration_seconds,
+      format: row.format,
+      status: row.status,
+      startedBy: row.started_by,
+      language: row.language,
+      errorMessage: row.error_message,
+      startedAt: row.started_at,
+      endedAt: row.ended_at,
+      isPublic: row.is_public,
+      accessToken: row.access_token,
+      expiresAt: row.expires_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapTranscriptFromDb(
+    row: any,
+    segments: VideoCallTranscriptSegment[]
+  ): VideoCallTranscript {
+    return {
+      id: row.id,
+      recordingId: row.recording_id,
+      status: row.status,
+      language: row.language,
+      provider: row.provider,
+      text: row.full_text,
+      confidence: row.confidence ?? undefined,
+      errorMessage: row.error_message,
+      segments,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
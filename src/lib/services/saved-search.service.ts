@@ -0,0 +1,479 @@
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import type {
+  ApiResponse,
+  SearchFilters,
+  SearchRequest,
+  SearchResponse,
+} from '../../types';
+import {
+  searchToAlertCriteria,
+  unmappedSearchFilters,
+} from '../search-alert-mapping';
+import type { OpportunityAlert } from './opportunity-alerts.service';
+import { opportunityAlertsService } from './opportunity-alerts.service';
+import { searchService } from './search.service';
+
+const prisma = new PrismaClient();
+
+const SEARCH_SORTS = [
+  'relevance',
+  'deadline',
+  'newest',
+  'stipend',
+  'quality',
+  'distance',
+] as const;
+
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  request: Pick<SearchRequest, 'query' | 'filters' | 'sort'>;
+  alertId?: string;
+  lastViewedAt: Date;
+  newCount?: number; // Matches posted since lastViewedAt
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Filters are stored as JSON, so dates are coerced back when read
+const filtersSchema = z.object({
+  skills: z.array(z.string()).optional(),
+  organizerType: z
+    .enum(['corporate', 'startup', 'government', 'academic'])
+    .optional(),
+  mode: z.enum(['online', 'offline', 'hybrid']).optional(),
+  location: z.string().optional(),
+  type: z.enum(['hackathon', 'internship', 'workshop']).optional(),
+  deadlineAfter: z.coerce.date().optional(),
+  deadlineBefore: z.coerce.date().optional(),
+  startsAfter: z.coerce.date().optional(),
+  startsBefore: z.coerce.date().optional(),
+  endsAfter: z.coerce.date().optional(),
+  endsBefore: z.coerce.date().optional(),
+  postedAfter: z.coerce.date().optional(),
+  stipendMin: z.number().min(0).optional(),
+  stipendMax: z.number().min(0).optional(),
+  prizePoolMin: z.number().min(0).optional(),
+  prizePoolMax: z.number().min(0).optional(),
+  durationMinDays: z.number().int().min(0).optional(),
+  durationMaxDays: z.number().int().min(0).optional(),
+  nearCity: z.string().optional(),
+  maxDistance: z.number().int().min(1).max(5000).optional(),
+});
+
+const createSavedSearchSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  query: z.string().max(500),
+  filters: filtersSchema.optional(),
+  sort: z.enum(SEARCH_SORTS).optional(),
+});
+
+const updateSavedSearchSchema = createSavedSearchSchema.partial();
+
+const convertToAlertSchema = z.object({
+  channels: z
+    .array(z.enum(['email', 'sms', 'in_app', 'push']))
+    .min(1, 'Choose at least one channel'),
+  frequency: z.enum(['immediate', 'daily', 'weekly']).default('daily'),
+});
+
+export type CreateSavedSearchRequest = z.input<typeof createSavedSearchSchema>;
+export type UpdateSavedSearchRequest = z.input<typeof updateSavedSearchSchema>;
+export type ConvertToAlertRequest = z.input<typeof convertToAlertSchema>;
+
+export class SavedSearchService {
+  /**
+   * List a user's saved searches with the number of matches posted since
+   * each was last viewed
+   */
+  async listSavedSearches(userId: string): Promise<ApiResponse<SavedSearch[]>> {
+    try {
+      const records = await prisma.savedSearch.findMany({
+        where: { userId },
+        orderBy: { updatedAt: 'desc' },
+      });
+
+      const savedSearches: SavedSearch[] = records.map(toSavedSearch);
+      const newCounts = await Promise.all(
+        savedSearches.map(savedSearch => this.countNew(userId, savedSearch))
+      );
+
+      return {
+        success: true,
+        data: savedSearches.map((savedSearch, index) => ({
+          ...savedSearch,
+          newCount: newCounts[index],
+        })),
+      };
+    } catch (error) {
+      console.error('List saved searches error:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve saved searches',
+      };
+    }
+  }
+
+  /**
+   * Get a single saved search
+   */
+  async getSavedSearch(
+    userId: string,
+    savedSearchId: string
+  ): Promise<ApiResponse<SavedSearch>> {
+    try {
+      const record = await prisma.savedSearch.findFirst({
+        where: { id: savedSearchId, userId },
+      });
+
+      if (!record) {
+        return {
+          success: false,
+          error: 'Saved search not found',
+        };
+      }
+
+      const savedSearch = toSavedSearch(record);
+      return {
+        success: true,
+        data: {
+          ...savedSearch,
+          newCount: await this.countNew(userId, savedSearch),
+        },
+      };
+    } catch (error) {
+      console.error('Get saved search error:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve saved search',
+      };
+    }
+  }
+
+  /**
+   * Save a search request under a name
+   */
+  async createSavedSearch(
+    userId: string,
+    request: CreateSavedSearchRequest
+  ): Promise<ApiResponse<SavedSearch>> {
+    const parsed = createSavedSearchSchema.safeParse(request);
+    if (!parsed.success) {
+      return {
+        success: false,
+        error: parsed.error.issues[0].message,
+      };
+    }
+    const { data } = parsed;
+
+    try {
+      const existing = await prisma.savedSearch.findUnique({
+        where: { userId_name: { userId, name: data.name } },
+        select: { id: true },
+      });
+
+      if (existing) {
+        return {
+          success: false,
+          error: 'A saved search with this name already exists',
+        };
+      }
+
+      const record = await prisma.savedSearch.create({
+        data: {
+          userId,
+          name: data.name,
+          query: data.query,
+          filters: data.filters,
+          sort: data.sort,
+        },
+      });
+
+      return {
+        success: true,
+        data: { ...toSavedSearch(record), newCount: 0 },
+        message: 'Search saved successfully',
+      };
+    } catch (error) {
+      console.error('Create saved search error:', error);
+      return {
+        success: false,
+        error: 'Failed to save search',
+      };
+    }
+  }
+
+  /**
+   * Update a saved search. A linked alert is re-derived from the new request
+   * so it keeps matching the same opportunities.
+   */
+  async updateSavedSearch(
+    userId: string,
+    savedSearchId: string,
+    request: UpdateSavedSearchRequest
+  ): Promise<ApiResponse<SavedSearch>> {
+    const parsed = updateSavedSearchSchema.safeParse(request);
+    if (!parsed.success) {
+      return {
+        success: false,
+        error: parsed.error.issues[0].message,
+      };
+    }
+    const updates = parsed.data;
+
+    try {
+      const current = await prisma.savedSearch.findFirst({
+        where: { id: savedSearchId, userId },
+      });
+
+      if (!current) {
+        return {
+          success: false,
+          error: 'Saved search not found',
+        };
+      }
+
+      if (updates.name && updates.name !== current.name) {
+        const existing = await prisma.savedSearch.findUnique({
+          where: { userId_name: { userId, name: updates.name } },
+          select: { id: true },
+        });
+
+        if (existing) {
+          return {
+            success: false,
+            error: 'A saved search with this name already exists',
+          };
+        }
+      }
+
+      const record = await prisma.savedSearch.update({
+        where: { id: savedSearchId },
+        data: {
+          name: updates.name,
+          query: updates.query,
+          filters: updates.filters,
+          sort: updates.sort,
+        },
+      });
+      const savedSearch = toSavedSearch(record);
+
+      if (
+        savedSearch.alertId &&
+        (updates.query !== undefined || updates.filters !== undefined)
+      ) {
+        await opportunityAlertsService.updateAlert(
+          savedSearch.alertId,
+          userId,
+          { criteria: searchToAlertCriteria(savedSearch.request) }
+        );
+      }
+
+      return {
+        success: true,
+        data: savedSearch,
+        message: 'Saved search updated successfully',
+      };
+    } catch (error) {
+      console.error('Update saved search error:', error);
+      return {
+        success: false,
+        error: 'Failed to update saved search',
+      };
+    }
+  }
+
+  /**
+   * Delete a saved search. An alert created from it is kept.
+   */
+  async deleteSavedSearch(
+    userId: string,
+    savedSearchId: string
+  ): Promise<ApiResponse<void>> {
+    try {
+      const { count } = await prisma.savedSearch.deleteMany({
+        where: { id: savedSearchId, userId },
+      });
+
+      if (count === 0) {
+        return {
+          success: false,
+          error: 'Saved search not found',
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Saved search deleted successfully',
+      };
+    } catch (error) {
+      console.error('Delete saved search error:', error);
+      return {
+        success: false,
+        error: 'Failed to delete saved search',
+      };
+    }
+  }
+
+  /**
+   * Run a saved search and mark its results as viewed
+   */
+  async runSavedSearch(
+    userId: string,
+    savedSearchId: string,
+    pagination?: SearchRequest['pagination']
+  ): Promise<ApiResponse<SearchResponse>> {
+    try {
+      const record = await prisma.savedSearch.findFirst({
+        where: { id: savedSearchId, userId },
+      });
+
+      if (!record) {
+        return {
+          success: false,
+          error: 'Saved search not found',
+        };
+      }
+
+      const result = await searchService.searchOpportunities({
+        ...toSavedSearch(record).request,
+        pagination,
+        userId,
+      });
+
+      if (result.success) {
+        await prisma.savedSearch.update({
+          where: { id: savedSearchId },
+          data: { lastViewedAt: new Date() },
+        });
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Run saved search error:', error);
+      return {
+        success: false,
+        error: 'Failed to run saved search',
+      };
+    }
+  }
+
+  /**
+   * Create an opportunity alert that matches the same opportunities as a
+   * saved search. Filters an alert cannot apply are listed in the message.
+   */
+  async convertToAlert(
+    userId: string,
+    savedSearchId: string,
+    request: ConvertToAlertRequest
+  ): Promise<ApiResponse<OpportunityAlert>> {
+    const parsed = convertToAlertSchema.safeParse(request);
+    if (!parsed.success) {
+      return {
+        success: false,
+        error: parsed.error.issues[0].message,
+      };
+    }
+    const { channels, frequency } = parsed.data;
+
+    try {
+      const record = await prisma.savedSearch.findFirst({
+        where: { id: savedSearchId, userId },
+      });
+
+      if (!record) {
+        return {
+          success: false,
+          error: 'Saved search not found',
+        };
+      }
+
+      if (record.alertId) {
+        return {
+          success: false,
+          error: 'Saved search already has an alert',
+        };
+      }
+
+      const savedSearch = toSavedSearch(record);
+      const alert = await opportunityAlertsService.createAlert({
+        userId,
+        name: savedSearch.name,
+        description: savedSearch.request.query || undefined,
+        criteria: searchToAlertCriteria(savedSearch.request),
+        channels,
+        frequency,
+      });
+
+      await prisma.savedSearch.update({
+        where: { id: savedSearchId },
+        data: { alertId: alert.id },
+      });
+
+      const unmapped = unmappedSearchFilters(savedSearch.request.filters);
+      return {
+        success: true,
+        data: alert,
+        message:
+          unmapped.length > 0
+            ? `Alert created. Alerts do not filter by ${unmapped.join(', ')}`
+            : 'Alert created successfully',
+      };
+    } catch (error) {
+      console.error('Convert saved search error:', error);
+      return {
+        success: false,
+        error: 'Failed to create alert',
+      };
+    }
+  }
+
+  /**
+   * Count matches posted since the search was last viewed. A failed count is
+   * left undefined rather than failing the listing.
+   */
+  private async countNew(
+    userId: string,
+    savedSearch: SavedSearch
+  ): Promise<number | undefined> {
+    const { filters, ...request } = savedSearch.request;
+    const postedAfter =
+      filters?.postedAfter && filters.postedAfter > savedSearch.lastViewedAt
+        ? filters.postedAfter
+        : savedSearch.lastViewedAt;
+
+    const result = await searchService.searchOpportunities({
+      ...request,
+      filters: { ...filters, postedAfter },
+      pagination: { page: 1, limit: 1 },
+      userId,
+    });
+
+    return result.success ? result.data!.totalCount : undefined;
+  }
+}
+
+function toSavedSearch(record: any): SavedSearch {
+  const filters: SearchFilters | undefined = record.filters
+    ? filtersSchema.parse(record.filters)
+    : undefined;
+
+  return {
+    id: record.id,
+    userId: record.userId,
+    name: record.name,
+    request: {
+      query: record.query,
+      filters,
+      sort: record.sort ?? undefined,
+    },
+    alertId: record.alertId ?? undefined,
+    lastViewedAt: record.lastViewedAt,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+export const savedSearchService = new SavedSearchService();
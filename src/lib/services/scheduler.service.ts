@@ -1,5 +1,10 @@
+import type { ApiResponse } from '../../types';
+import { CronExpression, defaultTimezone } from '../cron';
 import { dataQualityService } from './data-quality.service';
 import { externalAPIService } from './external-api.service';
+import type { QueueJob, ScheduledTaskSetting } from './job-queue.service';
+import { jobQueue } from './job-queue.service';
+import { opportunityTranslationService } from './opportunity-translation.service';
 import { scrapingService } from './scraping.service';
 import { searchService } from './search.service';
 
@@ -7,18 +12,54 @@ export interface ScheduledTask {
   id: string;
   name: string;
   schedule: string; // cron expression
+  timezone?: string; // IANA timezone, defaults to SCHEDULER_TIMEZONE
   lastRun?: Date;
   nextRun: Date;
   isActive: boolean;
   handler: () => Promise<void>;
 }
 
+interface TaskRunPayload {
+  taskId: string;
+  scheduledFor?: string;
+}
+
+// setTimeout overflows for delays longer than ~24.8 days
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const TASK_JOB = 'scheduler.task';
+
+/**
+ * Cron-driven tasks. Every instance keeps timers for every task, but a timer
+ * only enqueues a job keyed by the task and slot; the job queue dedupes the
+ * key across instances and leases the job to a single worker, so each slot
+ * runs exactly once however many replicas are up. Schedule changes are
+ * persisted so that all instances (and restarts) agree on them.
+ */
 export class SchedulerService {
   private tasks: Map<string, ScheduledTask> = new Map();
   private intervals: Map<string, NodeJS.Timeout> = new Map();
+  private timezone = process.env.SCHEDULER_TIMEZONE || defaultTimezone();
 
   constructor() {
     this.initializeDefaultTasks();
+
+    jobQueue.registerHandler<TaskRunPayload>(
+      TASK_JOB,
+      async job => {
+        const task = this.tasks.get(job.payload.taskId);
+        if (!task) {
+          throw new Error(`Unknown scheduled task ${job.payload.taskId}`);
+        }
+
+        console.log(`⏰ Executing task: ${task.name}`);
+        task.lastRun = new Date();
+        await task.handler();
+        console.log(`✅ Task completed: ${task.name}`);
+      },
+      // A failed run is retried once; after that the next slot takes over
+      { queue: 'scheduler', maxAttempts: 2, backoffMs: 60 * 1000 }
+    );
   }
 
   /**
@@ -89,6 +130,33 @@ export class SchedulerService {
         await searchService.syncOpportunities();
       },
     });
+
+    // Opportunity translation catch-up (daily at 4 AM)
+    this.addTask({
+      id: 'translation_backfill',
+      name: 'Opportunity Translation Backfill',
+      schedule: '0 4 * * *', // Daily at 4 AM
+      nextRun: this.calculateNextRun('0 4 * * *'),
+      isActive: true,
+      handler: async () => {
+        const queued =
+          await opportunityTranslationService.enqueueStaleTranslations();
+        console.log(`🌐 Queued translation of ${queued} opportunities`);
+      },
+    });
+
+    // Job queue cleanup (daily at 3:30 AM)
+    this.addTask({
+      id: 'job_queue_cleanup',
+      name: 'Job Queue Cleanup',
+      schedule: '30 3 * * *', // Daily at 3:30 AM
+      nextRun: this.calculateNextRun('30 3 * * *'),
+      isActive: true,
+      handler: async () => {
+        const purged = await jobQueue.purgeOldJobs();
+        console.log(`🧹 Purged ${purged} finished jobs`);
+      },
+    });
   }
 
   /**
@@ -106,21 +174,25 @@ export class SchedulerService {
    * Remove a scheduled task
    */
   removeTask(taskId: string): boolean {
-    const interval = this.intervals.get(taskId);
-    if (interval) {
-      clearTimeout(interval);
-      this.intervals.delete(taskId);
-    }
+    this.clearTimer(taskId);
 
     return this.tasks.delete(taskId);
   }
 
   /**
-   * Start the scheduler
+   * Start the scheduler. Persisted schedule changes are applied first.
    */
-  start(): void {
+  async start(): Promise<void> {
     console.log('📅 Starting scheduler service...');
 
+    try {
+      for (const setting of await jobQueue.getTaskSettings()) {
+        this.applySetting(setting);
+      }
+    } catch (error) {
+      console.error('Failed to load scheduled task settings:', error);
+    }
+
     for (const task of this.tasks.values()) {
       if (task.isActive) {
         this.scheduleTask(task);
@@ -148,70 +220,143 @@ export class SchedulerService {
    * Schedule a specific task
    */
   private scheduleTask(task: ScheduledTask): void {
+    this.clearTimer(task.id);
+
     const now = new Date();
-    const delay = task.nextRun.getTime() - now.getTime();
+    const scheduledFor = task.nextRun;
+    const delay = scheduledFor.getTime() - now.getTime();
 
     if (delay <= 0) {
       // Task should run immediately
-      this.executeTask(task);
+      this.enqueueRun(task, scheduledFor);
+    } else if (delay > MAX_TIMER_DELAY) {
+      // Wake up part-way and re-check rather than overflowing the timer
+      const timeout = setTimeout(() => {
+        this.scheduleTask(task);
+      }, MAX_TIMER_DELAY);
+
+      this.intervals.set(task.id, timeout);
     } else {
       // Schedule task for future execution
       const timeout = setTimeout(() => {
-        this.executeTask(task);
+        this.enqueueRun(task, scheduledFor);
       }, delay);
 
       this.intervals.set(task.id, timeout);
     }
   }
 
+  private clearTimer(taskId: string): void {
+    const interval = this.intervals.get(taskId);
+    if (interval) {
+      clearTimeout(interval);
+      this.intervals.delete(taskId);
+    }
+  }
+
   /**
-   * Execute a task
+   * Enqueue the run for a slot and schedule the next one. `scheduledFor` is
+   * the slot the timer fired for, so that a timer firing slightly early does
+   * not pick the same slot again.
    */
-  private async executeTask(task: ScheduledTask): Promise<void> {
+  private async enqueueRun(
+    task: ScheduledTask,
+    scheduledFor: Date
+  ): Promise<void> {
     try {
-      console.log(`⏰ Executing task: ${task.name}`);
-
-      task.lastRun = new Date();
-      await task.handler();
-
-      console.log(`✅ Task completed: ${task.name}`);
+      // Another instance may have changed the schedule since we set the timer
+      const setting = (await jobQueue.getTaskSettings()).find(
+        candidate => candidate.id === task.id
+      );
+      if (setting) this.applySetting(setting);
+
+      // The slot is still current if the (possibly updated) schedule would
+      // pick it. Comparing next runs rather than matching the fields keeps
+      // slots shifted by a DST gap valid.
+      const slotIsCurrent =
+        task.isActive &&
+        this.calculateNextRun(
+          task.schedule,
+          task.timezone,
+          new Date(scheduledFor.getTime() - 1000)
+        ).getTime() === scheduledFor.getTime();
+
+      if (slotIsCurrent) {
+        await jobQueue.enqueue<TaskRunPayload>(
+          TASK_JOB,
+          { taskId: task.id, scheduledFor: scheduledFor.toISOString() },
+          {
+            subject: task.id,
+            dedupeKey: `${TASK_JOB}:${task.id}:${scheduledFor.toISOString()}`,
+          }
+        );
+      }
     } catch (error) {
-      console.error(`❌ Task failed: ${task.name}`, error);
+      console.error(`❌ Failed to enqueue task: ${task.name}`, error);
     } finally {
-      // Schedule next run
-      task.nextRun = this.calculateNextRun(task.schedule);
-      this.scheduleTask(task);
+      if (task.isActive) {
+        const after = new Date(Math.max(Date.now(), scheduledFor.getTime()));
+        task.nextRun = this.calculateNextRun(
+          task.schedule,
+          task.timezone,
+          after
+        );
+        this.scheduleTask(task);
+      } else {
+        this.clearTimer(task.id);
+      }
     }
   }
 
   /**
-   * Calculate next run time based on cron expression
-   * This is a simplified implementation - in production, use a proper cron library
+   * Apply a persisted setting to the in-memory task definition
    */
-  private calculateNextRun(cronExpression: string): Date {
-    const now = new Date();
-
-    // Simple cron parsing for common patterns
-    switch (cronExpression) {
-      case '*/5 * * * *': // Every 5 minutes
-        return new Date(now.getTime() + 5 * 60 * 1000);
-      case '0 */2 * * *': // Every 2 hours
-        return new Date(now.getTime() + 2 * 60 * 60 * 1000);
-      case '0 */4 * * *': // Every 4 hours
-        return new Date(now.getTime() + 4 * 60 * 60 * 1000);
-      case '0 */6 * * *': // Every 6 hours
-        return new Date(now.getTime() + 6 * 60 * 60 * 1000);
-      case '0 2 * * *': // Daily at 2 AM
-        const tomorrow2AM = new Date(now);
-        tomorrow2AM.setDate(tomorrow2AM.getDate() + 1);
-        tomorrow2AM.setHours(2, 0, 0, 0);
-        return tomorrow2AM;
-      default:
-        // Default to 1 hour
-        return new Date(now.getTime() + 60 * 60 * 1000);
+  private applySetting(setting: ScheduledTaskSetting): void {
+    const task = this.tasks.get(setting.id);
+    if (!task) return;
+
+    const changed =
+      task.schedule !== setting.schedule ||
+      (task.timezone || undefined) !== (setting.timezone || undefined);
+
+    task.isActive = setting.isActive;
+
+    if (changed) {
+      try {
+        task.nextRun = this.calculateNextRun(
+          setting.schedule,
+          setting.timezone
+        );
+        task.schedule = setting.schedule;
+        task.timezone = setting.timezone;
+      } catch (error) {
+        console.error(`Ignoring invalid schedule for task ${task.id}:`, error);
+      }
     }
   }
 
+  private async persistSetting(task: ScheduledTask): Promise<void> {
+    await jobQueue.saveTaskSetting({
+      id: task.id,
+      schedule: task.schedule,
+      timezone: task.timezone,
+      isActive: task.isActive,
+    });
+  }
+
+  /**
+   * Calculate next run time based on cron expression
+   */
+  private calculateNextRun(
+    cronExpression: string,
+    timezone?: string,
+    after: Date = new Date()
+  ): Date {
+    return CronExpression.parse(cronExpression, timezone || this.timezone).next(
+      after
+    );
+  }
+
   /**
    * Get all tasks
    */
@@ -226,37 +371,69 @@ export class SchedulerService {
     return this.tasks.get(taskId);
   }
 
+  /**
+   * Get all tasks with their last run, read from the job queue so that runs
+   * on other instances are included
+   */
+  async listTasks(): Promise<
+    Array<Omit<ScheduledTask, 'handler'> & { lastStatus?: string }>
+  > {
+    return Promise.all(
+      this.getTasks().map(async task => {
+        const [lastJob] = await jobQueue.listJobs({
+          name: TASK_JOB,
+          subject: task.id,
+          status: ['running', 'completed', 'dead'],
+          limit: 1,
+        });
+
+        return {
+          id: task.id,
+          name: task.name,
+          schedule: task.schedule,
+          timezone: task.timezone,
+          lastRun: lastJob?.startedAt ?? task.lastRun,
+          lastStatus: lastJob?.status,
+          nextRun: task.nextRun,
+          isActive: task.isActive,
+        };
+      })
+    );
+  }
+
   /**
    * Enable/disable a task
    */
-  toggleTask(taskId: string, isActive: boolean): boolean {
+  async toggleTask(taskId: string, isActive: boolean): Promise<boolean> {
     const task = this.tasks.get(taskId);
     if (!task) return false;
 
     task.isActive = isActive;
+    await this.persistSetting(task);
 
     if (isActive) {
+      // Don't fire runs that were missed while the task was disabled
+      task.nextRun = this.calculateNextRun(task.schedule, task.timezone);
       this.scheduleTask(task);
     } else {
-      const interval = this.intervals.get(taskId);
-      if (interval) {
-        clearTimeout(interval);
-        this.intervals.delete(taskId);
-      }
+      this.clearTimer(taskId);
     }
 
     return true;
   }
 
   /**
-   * Run a task immediately
+   * Queue a task to run immediately, outside its schedule
    */
-  async runTaskNow(taskId: string): Promise<boolean> {
+  async runTaskNow(taskId: string): Promise<QueueJob | null> {
     const task = this.tasks.get(taskId);
-    if (!task) return false;
+    if (!task) return null;
 
-    await this.executeTask(task);
-    return true;
+    return jobQueue.enqueue<TaskRunPayload>(
+      TASK_JOB,
+      { taskId },
+      { subject: taskId }
+    );
   }
 
   /**
@@ -289,46 +466,135 @@ export class SchedulerService {
   }
 
   /**
-   * Update task schedule
+   * Update task schedule. The expression is validated before anything is
+   * changed, so an invalid schedule leaves the task as it was.
    */
-  updateTaskSchedule(taskId: string, newSchedule: string): boolean {
+  async updateTaskSchedule(
+    taskId: string,
+    newSchedule: string,
+    timezone?: string
+  ): Promise<
+    ApiResponse<{ schedule: string; timezone: string; nextRun: Date }>
+  > {
     const task = this.tasks.get(taskId);
-    if (!task) return false;
+    if (!task) {
+      return { success: false, error: 'Task not found' };
+    }
+
+    const zone = timezone ?? task.timezone;
+    let nextRun: Date;
+    try {
+      nextRun = this.calculateNextRun(newSchedule, zone);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid schedule',
+      };
+    }
 
-    task.schedule = newSchedule;
-    task.nextRun = this.calculateNextRun(newSchedule);
+    task.schedule = newSchedule.trim();
+    task.timezone = zone;
+    task.nextRun = nextRun;
+
+    try {
+      await this.persistSetting(task);
+    } catch (error) {
+      console.error('Persist task schedule error:', error);
+      return {
+        success: false,
+        error: 'Failed to save task schedule',
+      };
+    }
 
     // Reschedule if active
     if (task.isActive) {
-      const interval = this.intervals.get(taskId);
-      if (interval) {
-        clearTimeout(interval);
-      }
       this.scheduleTask(task);
     }
 
-    return true;
+    return {
+      success: true,
+      data: {
+        schedule: task.schedule,
+        timezone: zone || this.timezone,
+        nextRun,
+      },
+      message: 'Task schedule updated successfully',
+    };
+  }
+
+  /**
+   * Preview the next runs of a task
+   */
+  getUpcomingRuns(taskId: string, count = 5): Date[] | null {
+    const task = this.tasks.get(taskId);
+    if (!task) return null;
+
+    return CronExpression.parse(
+      task.schedule,
+      task.timezone || this.timezone
+    ).upcoming(count);
   }
 
   /**
-   * Get task execution history (simplified)
+   * Preview the next runs of an arbitrary expression, e.g. before saving it
    */
-  getTaskHistory(taskId: string): {
+  previewSchedule(
+    schedule: string,
+    timezone?: string,
+    count = 5
+  ): ApiResponse<{ schedule: string; timezone: string; runs: Date[] }> {
+    try {
+      const expression = CronExpression.parse(
+        schedule,
+        timezone || this.timezone
+      );
+
+      return {
+        success: true,
+        data: {
+          schedule: expression.source,
+          timezone: expression.timezone,
+          runs: expression.upcoming(count),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid schedule',
+      };
+    }
+  }
+
+  /**
+   * Get task execution history from the job queue
+   */
+  async getTaskHistory(
+    taskId: string,
+    limit = 20
+  ): Promise<{
     taskId: string;
     name: string;
     lastRun?: Date;
     nextRun: Date;
     isActive: boolean;
-  } | null {
+    runs: QueueJob[];
+  } | null> {
     const task = this.tasks.get(taskId);
     if (!task) return null;
 
+    const runs = await jobQueue.listJobs({
+      name: TASK_JOB,
+      subject: taskId,
+      limit,
+    });
+
     return {
       taskId: task.id,
       name: task.name,
-      lastRun: task.lastRun,
+      lastRun: runs.find(run => run.startedAt)?.startedAt ?? task.lastRun,
       nextRun: task.nextRun,
       isActive: task.isActive,
+      runs,
     };
   }
 }
@@ -338,7 +604,9 @@ export const schedulerService = new SchedulerService();
 
 // Auto-start scheduler when module is loaded
 if (process.env.NODE_ENV !== 'test') {
-  schedulerService.start();
+  schedulerService.start().catch(error => {
+    console.error('📅 Failed to start scheduler:', error);
+  });
 
   // Graceful shutdown
   process.on('SIGTERM', () => {
@@ -1,5 +1,17 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import type { ApiResponse, Opportunity } from '../../types';
+import type { OpportunityEventData } from '../events/catalog';
+import { eventBus } from '../events/event-bus';
+import type { BaseScraper } from '../scrapers/base-scraper';
+import { DevfolioScraper } from '../scrapers/devfolio-scraper';
+import { EventbriteScraper } from '../scrapers/eventbrite-scraper';
+import { GenericScraper } from '../scrapers/generic-scraper';
+import { HackerEarthScraper } from '../scrapers/hackerearth-scraper';
+import { IntershalaScraper } from '../scrapers/internshala-scraper';
+import type { ScraperSpec } from '../scrapers/scraper-spec';
+import { parseScraperSpec } from '../scrapers/scraper-spec';
+import type { JobContext, QueueJob } from './job-queue.service';
+import { jobQueue } from './job-queue.service';
 import { searchService } from './search.service';
 
 const prisma = new PrismaClient();
@@ -11,6 +23,9 @@ export interface ScrapingConfig {
   maxRetries: number;
   respectRobotsTxt: boolean;
   enableJavaScript: boolean;
+  maxPages: number;
+  maxItems?: number;
+  fetchDetails: boolean;
 }
 
 export interface ScrapingJob {
@@ -22,8 +37,22 @@ export interface ScrapingJob {
   completedAt?: Date;
   itemsScraped: number;
   errors: string[];
+  attempts?: number;
+  nextAttemptAt?: Date;
 }
 
+interface ScrapingJobPayload {
+  sourceId: string;
+  url: string;
+}
+
+interface ScrapingJobResult {
+  itemsScraped: number;
+  errors: string[];
+}
+
+const SCRAPING_JOB = 'scraping.source';
+
 export interface ScrapedOpportunity {
   title: string;
   description: string;
@@ -49,9 +78,26 @@ export interface ScrapedOpportunity {
   rawData?: any;
 }
 
+export interface ScraperSource {
+  id: string;
+  scraperSpec?: unknown;
+}
+
+export interface DryRunRecord {
+  opportunity: ScrapedOpportunity;
+  valid: boolean;
+  error?: string;
+}
+
+export interface DryRunResult {
+  url: string;
+  scraper: string;
+  records: DryRunRecord[];
+  validCount: number;
+}
+
 export class ScrapingService {
   private config: ScrapingConfig;
-  private activeJobs: Map<string, ScrapingJob> = new Map();
 
   constructor() {
     this.config = {
@@ -67,7 +113,21 @@ export class ScrapingService {
       maxRetries: parseInt(process.env.SCRAPING_MAX_RETRIES || '3'),
       respectRobotsTxt: process.env.RESPECT_ROBOTS_TXT !== 'false',
       enableJavaScript: process.env.ENABLE_JS_SCRAPING === 'true',
+      maxPages: parseInt(process.env.SCRAPING_MAX_PAGES || '5'),
+      fetchDetails: process.env.SCRAPING_FETCH_DETAILS !== 'false',
     };
+
+    // Jobs run on whichever instance claims them; failed runs are retried
+    // with backoff before landing in the dead-letter state
+    jobQueue.registerHandler<ScrapingJobPayload, ScrapingJobResult>(
+      SCRAPING_JOB,
+      (job, context) => this.runScrapingJob(job, context),
+      {
+        queue: 'scraping',
+        maxAttempts: parseInt(process.env.SCRAPING_JOB_ATTEMPTS || '3'),
+        backoffMs: 5 * 60 * 1000,
+      }
+    );
   }
 
   /**
@@ -94,10 +154,13 @@ export class ScrapingService {
         };
       }
 
-      // Check if job is already running
-      const existingJob = Array.from(this.activeJobs.values()).find(
-        job => job.sourceId === sourceId && job.status === 'running'
-      );
+      // Check if job is already queued or running
+      const [existingJob] = await jobQueue.listJobs({
+        name: SCRAPING_JOB,
+        subject: sourceId,
+        status: ['pending', 'running'],
+        limit: 1,
+      });
 
       if (existingJob) {
         return {
@@ -106,29 +169,22 @@ export class ScrapingService {
         };
       }
 
-      // Create new job
-      const job: ScrapingJob = {
-        id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        sourceId,
-        url: source.url,
-        status: 'pending',
-        itemsScraped: 0,
-        errors: [],
-      };
-
-      this.activeJobs.set(job.id, job);
+      const job = await jobQueue.enqueue<ScrapingJobPayload>(
+        SCRAPING_JOB,
+        { sourceId, url: source.url },
+        { subject: sourceId }
+      );
 
-      // Start scraping in background
-      this.executeScrapingJob(job).catch(error => {
-        console.error(`Scraping job ${job.id} failed:`, error);
-        job.status = 'failed';
-        job.errors.push(error.message);
-        job.completedAt = new Date();
-      });
+      if (!job) {
+        return {
+          success: false,
+          error: 'Failed to queue scraping job',
+        };
+      }
 
       return {
         success: true,
-        data: job,
+        data: this.toScrapingJob(job),
         message: 'Scraping job started successfully',
       };
     } catch (error) {
@@ -140,16 +196,41 @@ export class ScrapingService {
     }
   }
 
+  /**
+   * Queue handler: load the source and run the scrape
+   */
+  private async runScrapingJob(
+    queued: QueueJob<ScrapingJobPayload>,
+    context: JobContext
+  ): Promise<ScrapingJobResult> {
+    const source = await prisma.source.findUnique({
+      where: { id: queued.payload.sourceId },
+    });
+
+    if (!source) {
+      throw new Error(`Source ${queued.payload.sourceId} no longer exists`);
+    }
+
+    const job = this.toScrapingJob(queued);
+    await this.executeScrapingJob(job, source, context);
+
+    return { itemsScraped: job.itemsScraped, errors: job.errors };
+  }
+
   /**
    * Execute a scraping job
    */
-  private async executeScrapingJob(job: ScrapingJob): Promise<void> {
+  private async executeScrapingJob(
+    job: ScrapingJob,
+    source: ScraperSource,
+    context?: JobContext
+  ): Promise<void> {
     job.status = 'running';
     job.startedAt = new Date();
 
     try {
       // Get source-specific scraper
-      const scraper = this.getScraperForSource(job.sourceId);
+      const scraper = this.getScraperForSource(source);
 
       if (!scraper) {
         throw new Error(`No scraper available for source ${job.sourceId}`);
@@ -173,10 +254,19 @@ export class ScrapingService {
 
       // Save to database
       for (const opportunity of validOpportunities) {
+        if (context?.signal.aborted) {
+          throw new Error('Job cancelled');
+        }
+
         await this.saveOpportunity(opportunity, job.sourceId);
         job.itemsScraped++;
       }
 
+      await context?.progress({
+        itemsScraped: job.itemsScraped,
+        errors: job.errors,
+      });
+
       // Index in Elasticsearch
       if (validOpportunities.length > 0) {
         await searchService.bulkIndexOpportunities(validOpportunities);
@@ -203,20 +293,185 @@ export class ScrapingService {
   }
 
   /**
-   * Get scraper instance for a specific source
+   * Get scraper instance for a specific source. A declarative spec stored on
+   * the source takes precedence over the built-in site scrapers.
    */
-  private getScraperForSource(sourceId: string): BaseScraper | null {
-    switch (sourceId) {
+  private getScraperForSource(
+    source: ScraperSource,
+    config: ScrapingConfig = this.config
+  ): BaseScraper | null {
+    if (source.scraperSpec) {
+      const parsed = parseScraperSpec(source.scraperSpec);
+
+      if (!parsed.success) {
+        throw new Error(
+          `Invalid scraper spec for source ${source.id}: ${parsed.error}`
+        );
+      }
+
+      return new GenericScraper(config, parsed.spec);
+    }
+
+    switch (source.id) {
       case 'devfolio':
-        return new DevfolioScraper(this.config);
+        return new DevfolioScraper(config);
       case 'internshala':
-        return new IntershalaScraper(this.config);
+        return new IntershalaScraper(config);
       case 'hackerearth':
-        return new HackerEarthScraper(this.config);
+        return new HackerEarthScraper(config);
       case 'eventbrite':
-        return new EventbriteScraper(this.config);
+        return new EventbriteScraper(config);
       default:
-        return new GenericScraper(this.config);
+        return new GenericScraper(config);
+    }
+  }
+
+  /**
+   * Store (or clear, with null) the declarative scraper spec for a source
+   */
+  async updateSourceSpec(
+    sourceId: string,
+    spec: unknown | null
+  ): Promise<
+    ApiResponse<{ sourceId: string; scraperSpec: ScraperSpec | null }>
+  > {
+    try {
+      let scraperSpec: ScraperSpec | null = null;
+
+      if (spec !== null) {
+        const parsed = parseScraperSpec(spec);
+        if (!parsed.success) {
+          return {
+            success: false,
+            error: `Invalid scraper spec: ${parsed.error}`,
+          };
+        }
+        scraperSpec = parsed.spec;
+      }
+
+      const source = await prisma.source.findUnique({
+        where: { id: sourceId },
+      });
+
+      if (!source) {
+        return {
+          success: false,
+          error: 'Source not found',
+        };
+      }
+
+      await prisma.source.update({
+        where: { id: sourceId },
+        data: { scraperSpec: scraperSpec ?? Prisma.DbNull },
+      });
+
+      return {
+        success: true,
+        data: { sourceId, scraperSpec },
+        message: scraperSpec
+          ? 'Scraper spec updated successfully'
+          : 'Scraper spec removed successfully',
+      };
+    } catch (error) {
+      console.error('Update source spec error:', error);
+      return {
+        success: false,
+        error: 'Failed to update scraper spec',
+      };
+    }
+  }
+
+  /**
+   * Preview what a spec (or a source's configured scraper) extracts from a
+   * URL without saving or indexing anything
+   */
+  async dryRun(params: {
+    url: string;
+    sourceId?: string;
+    spec?: unknown;
+    maxPages?: number;
+    maxItems?: number;
+    fetchDetails?: boolean;
+  }): Promise<ApiResponse<DryRunResult>> {
+    try {
+      if (!this.isValidUrl(params.url)) {
+        return {
+          success: false,
+          error: 'Valid URL is required',
+        };
+      }
+
+      let source: ScraperSource;
+
+      if (params.spec !== undefined) {
+        const parsed = parseScraperSpec(params.spec);
+        if (!parsed.success) {
+          return {
+            success: false,
+            error: `Invalid scraper spec: ${parsed.error}`,
+          };
+        }
+        source = { id: params.sourceId || 'dry-run', scraperSpec: parsed.spec };
+      } else if (params.sourceId) {
+        const row = await prisma.source.findUnique({
+          where: { id: params.sourceId },
+        });
+        if (!row) {
+          return {
+            success: false,
+            error: 'Source not found',
+          };
+        }
+        source = row;
+      } else {
+        return {
+          success: false,
+          error: 'Either a spec or a sourceId is required',
+        };
+      }
+
+      const scraper = this.getScraperForSource(source, {
+        ...this.config,
+        maxPages: params.maxPages ?? 1,
+        maxItems: params.maxItems ?? 20,
+        fetchDetails: params.fetchDetails ?? true,
+      });
+
+      if (!scraper) {
+        return {
+          success: false,
+          error: `No scraper available for source ${source.id}`,
+        };
+      }
+
+      const scraped = await scraper.scrape(params.url);
+      const records: DryRunRecord[] = [];
+
+      for (const opportunity of scraped) {
+        const validation = await this.validateScrapedOpportunity(opportunity);
+        records.push({
+          opportunity,
+          valid: validation.success,
+          error: validation.error,
+        });
+      }
+
+      return {
+        success: true,
+        data: {
+          url: params.url,
+          scraper: source.scraperSpec ? 'spec' : scraper.constructor.name,
+          records,
+          validCount: records.filter(record => record.valid).length,
+        },
+        message: `Extracted ${records.length} records`,
+      };
+    } catch (error) {
+      console.error('Scraper dry run error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to run scraper',
+      };
     }
   }
 
@@ -324,26 +579,36 @@ export class ScrapingService {
       });
 
       if (existing) {
-        // Update existing opportunity
+        const data = {
+          description: opportunity.description,
+          requiredSkills: opportunity.requirements.skills,
+          experienceRequired: opportunity.requirements.experience,
+          educationRequired: opportunity.requirements.education,
+          eligibilityCriteria: opportunity.requirements.eligibility,
+          mode: opportunity.details.mode,
+          location: opportunity.details.location,
+          duration: opportunity.details.duration,
+          stipend: opportunity.details.stipend,
+          prizes: opportunity.details.prizes,
+          startDate: opportunity.timeline.startDate,
+          endDate: opportunity.timeline.endDate,
+          externalUrl: opportunity.externalUrl,
+          tags: opportunity.tags,
+        };
+
+        // Sources are scraped every few hours and mostly come back the same,
+        // so only write and announce listings that actually changed
+        const changedFields = changedOpportunityFields(existing, data);
+        if (changedFields.length === 0) return;
+
         await prisma.opportunity.update({
           where: { id: existing.id },
-          data: {
-            description: opportunity.description,
-            requiredSkills: opportunity.requirements.skills,
-            experienceRequired: opportunity.requirements.experience,
-            educationRequired: opportunity.requirements.education,
-            eligibilityCriteria: opportunity.requirements.eligibility,
-            mode: opportunity.details.mode,
-            location: opportunity.details.location,
-            duration: opportunity.details.duration,
-            stipend: opportunity.details.stipend,
-            prizes: opportunity.details.prizes,
-            startDate: opportunity.timeline.startDate,
-            endDate: opportunity.timeline.endDate,
-            externalUrl: opportunity.externalUrl,
-            tags: opportunity.tags,
-            updatedAt: new Date(),
-          },
+          data: { ...data, updatedAt: new Date() },
+        });
+
+        eventBus.emit('opportunity.updated', {
+          ...toOpportunityEvent(existing.id, opportunity),
+          changedFields,
         });
       } else {
         // Create new opportunity
@@ -375,6 +640,11 @@ export class ScrapingService {
             qualityScore: 0,
           },
         });
+
+        eventBus.emit(
+          'opportunity.created',
+          toOpportunityEvent(opportunity.id, opportunity)
+        );
       }
     } catch (error) {
       console.error('Save opportunity error:', error);
@@ -386,62 +656,109 @@ export class ScrapingService {
    * Get job status
    */
   async getJobStatus(jobId: string): Promise<ApiResponse<ScrapingJob>> {
-    const job = this.activeJobs.get(jobId);
+    try {
+      const job = await jobQueue.findJob<ScrapingJobPayload>(jobId);
+
+      if (!job || job.name !== SCRAPING_JOB) {
+        return {
+          success: false,
+          error: 'Job not found',
+        };
+      }
 
-    if (!job) {
+      return {
+        success: true,
+        data: this.toScrapingJob(job),
+        message: 'Job status retrieved successfully',
+      };
+    } catch (error) {
+      console.error('Get scraping job status error:', error);
       return {
         success: false,
-        error: 'Job not found',
+        error: 'Failed to get job status',
       };
     }
-
-    return {
-      success: true,
-      data: job,
-      message: 'Job status retrieved successfully',
-    };
   }
 
   /**
-   * Get all active jobs
+   * Get all queued and running jobs, across all instances
    */
   async getActiveJobs(): Promise<ApiResponse<ScrapingJob[]>> {
-    const jobs = Array.from(this.activeJobs.values());
+    try {
+      const jobs = await jobQueue.listJobs<ScrapingJobPayload>({
+        name: SCRAPING_JOB,
+        status: ['pending', 'running'],
+        limit: 100,
+      });
 
-    return {
-      success: true,
-      data: jobs,
-      message: 'Active jobs retrieved successfully',
-    };
+      return {
+        success: true,
+        data: jobs.map(job => this.toScrapingJob(job)),
+        message: 'Active jobs retrieved successfully',
+      };
+    } catch (error) {
+      console.error('Get active scraping jobs error:', error);
+      return {
+        success: false,
+        error: 'Failed to get active jobs',
+      };
+    }
   }
 
   /**
-   * Cancel a running job
+   * Cancel a queued or running job
    */
   async cancelJob(jobId: string): Promise<ApiResponse<null>> {
-    const job = this.activeJobs.get(jobId);
+    const job = await jobQueue.findJob(jobId);
 
-    if (!job) {
+    if (!job || job.name !== SCRAPING_JOB) {
       return {
         success: false,
         error: 'Job not found',
       };
     }
 
-    if (job.status !== 'running') {
+    if (job.status !== 'running' && job.status !== 'pending') {
       return {
         success: false,
         error: 'Job is not running',
       };
     }
 
-    job.status = 'failed';
-    job.errors.push('Job cancelled by user');
-    job.completedAt = new Date();
+    const result = await jobQueue.cancelJob(jobId);
+
+    return result.success
+      ? { success: true, message: 'Job cancelled successfully' }
+      : { success: false, error: result.error };
+  }
+
+  /**
+   * Present a queue job in the shape the scraping API has always returned
+   */
+  private toScrapingJob(job: QueueJob<ScrapingJobPayload>): ScrapingJob {
+    const result: Partial<ScrapingJobResult> = job.result || {};
+    const errors = [...(result.errors || [])];
+
+    if (job.status === 'cancelled') {
+      errors.push('Job cancelled by user');
+    } else if (job.lastError) {
+      errors.push(job.lastError);
+    }
 
     return {
-      success: true,
-      message: 'Job cancelled successfully',
+      id: job.id,
+      sourceId: job.payload.sourceId,
+      url: job.payload.url,
+      status:
+        job.status === 'dead' || job.status === 'cancelled'
+          ? 'failed'
+          : job.status,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      itemsScraped: result.itemsScraped ?? 0,
+      errors,
+      attempts: job.attempts,
+      nextAttemptAt: job.status === 'pending' ? job.runAt : undefined,
     };
   }
 
@@ -483,188 +800,50 @@ export class ScrapingService {
 }
 
 /**
- * Base scraper class
- */
-abstract class BaseScraper {
-  protected config: ScrapingConfig;
-
-  constructor(config: ScrapingConfig) {
-    this.config = config;
-  }
-
-  abstract scrape(url: string): Promise<ScrapedOpportunity[]>;
-
-  protected async makeRequest(
-    url: string,
-    options: any = {}
-  ): Promise<Response> {
-    const userAgent = this.getRandomUserAgent();
-    const proxy = this.getRandomProxy();
-
-    const fetchOptions: RequestInit = {
-      headers: {
-        'User-Agent': userAgent,
-        Accept:
-          'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Accept-Encoding': 'gzip, deflate',
-        Connection: 'keep-alive',
-        ...options.headers,
-      },
-      ...options,
-    };
-
-    // Add proxy if available
-    if (proxy) {
-      // Note: In a real implementation, you'd configure proxy here
-      // This is a simplified example
-    }
-
-    // Add delay to be respectful
-    await this.delay(this.config.requestDelay);
-
-    return fetch(url, fetchOptions);
-  }
-
-  protected getRandomUserAgent(): string {
-    return this.config.userAgents[
-      Math.floor(Math.random() * this.config.userAgents.length)
-    ];
-  }
-
-  protected getRandomProxy(): string | null {
-    if (this.config.proxies.length === 0) return null;
-    return this.config.proxies[
-      Math.floor(Math.random() * this.config.proxies.length)
-    ];
-  }
-
-  protected async delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-}
-
-/**
- * Generic scraper for unknown sources
+ * The fields whose incoming value differs from the stored row. Missing and
+ * null values count as the same, and dates compare by time.
  */
-class GenericScraper extends BaseScraper {
-  async scrape(url: string): Promise<ScrapedOpportunity[]> {
-    // This would implement generic scraping logic
-    // For now, return empty array
-    console.log(`Generic scraping not implemented for ${url}`);
-    return [];
-  }
+function changedOpportunityFields(
+  stored: Record<string, unknown>,
+  incoming: Record<string, unknown>
+): string[] {
+  return Object.keys(incoming).filter(
+    field => !sameValue(stored[field], incoming[field])
+  );
 }
 
-/**
- * Devfolio scraper
- */
-class DevfolioScraper extends BaseScraper {
-  async scrape(url: string): Promise<ScrapedOpportunity[]> {
-    // Mock implementation - in reality, this would parse Devfolio pages
-    return [
-      {
-        title: 'AI Innovation Hackathon 2024',
-        description: 'Build innovative AI solutions for real-world problems',
-        type: 'hackathon',
-        organizerName: 'TechCorp',
-        organizerType: 'corporate',
-        requiredSkills: ['Python', 'Machine Learning', 'AI'],
-        eligibilityCriteria: ['Students', 'Professionals'],
-        mode: 'online',
-        prizes: ['₹1,00,000', '₹50,000', '₹25,000'],
-        applicationDeadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-        externalUrl: 'https://devfolio.co/hackathon/ai-innovation-2024',
-        sourceUrl: url,
-        tags: ['AI', 'Machine Learning', 'Innovation'],
-      },
-    ];
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === undefined || a === null || b === undefined || b === null) {
+    return (a ?? null) === (b ?? null);
   }
-}
-
-/**
- * Internshala scraper
- */
-class IntershalaScraper extends BaseScraper {
-  async scrape(url: string): Promise<ScrapedOpportunity[]> {
-    // Mock implementation
-    return [
-      {
-        title: 'Software Development Internship',
-        description: 'Work on cutting-edge web applications',
-        type: 'internship',
-        organizerName: 'StartupXYZ',
-        organizerType: 'startup',
-        requiredSkills: ['JavaScript', 'React', 'Node.js'],
-        eligibilityCriteria: ['Computer Science Students'],
-        mode: 'hybrid',
-        location: 'Mumbai',
-        duration: '3 months',
-        stipend: '₹15,000/month',
-        prizes: [],
-        applicationDeadline: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000),
-        externalUrl:
-          'https://internshala.com/internship/detail/software-dev-123',
-        sourceUrl: url,
-        tags: ['Software Development', 'Web Development', 'Internship'],
-      },
-    ];
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((value, i) => sameValue(value, b[i]))
+    );
   }
-}
-
-/**
- * HackerEarth scraper
- */
-class HackerEarthScraper extends BaseScraper {
-  async scrape(url: string): Promise<ScrapedOpportunity[]> {
-    // Mock implementation
-    return [
-      {
-        title: 'Data Science Challenge 2024',
-        description: 'Solve complex data problems and win prizes',
-        type: 'hackathon',
-        organizerName: 'DataCorp',
-        organizerType: 'corporate',
-        requiredSkills: ['Python', 'Data Science', 'Machine Learning'],
-        eligibilityCriteria: ['All levels welcome'],
-        mode: 'online',
-        prizes: ['₹2,00,000', '₹1,00,000', '₹50,000'],
-        applicationDeadline: new Date(Date.now() + 45 * 24 * 60 * 60 * 1000),
-        externalUrl:
-          'https://hackerearth.com/challenge/competitive/data-science-2024',
-        sourceUrl: url,
-        tags: ['Data Science', 'Analytics', 'Competition'],
-      },
-    ];
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() === new Date(b as Date).getTime();
   }
+  return a === b;
 }
 
-/**
- * Eventbrite scraper
- */
-class EventbriteScraper extends BaseScraper {
-  async scrape(url: string): Promise<ScrapedOpportunity[]> {
-    // Mock implementation
-    return [
-      {
-        title: 'Web Development Workshop',
-        description: 'Learn modern web development techniques',
-        type: 'workshop',
-        organizerName: 'TechEducation',
-        organizerType: 'academic',
-        requiredSkills: ['Basic HTML', 'CSS'],
-        eligibilityCriteria: ['Beginners welcome'],
-        mode: 'offline',
-        location: 'Bangalore',
-        duration: '2 days',
-        prizes: [],
-        applicationDeadline: new Date(Date.now() + 20 * 24 * 60 * 60 * 1000),
-        externalUrl: 'https://eventbrite.com/e/web-dev-workshop-123',
-        sourceUrl: url,
-        tags: ['Web Development', 'Workshop', 'Learning'],
-      },
-    ];
-  }
+function toOpportunityEvent(
+  id: string,
+  opportunity: Opportunity
+): OpportunityEventData {
+  return {
+    id,
+    title: opportunity.title,
+    type: opportunity.type,
+    organizerName: opportunity.organizer.name,
+    applicationDeadline: new Date(
+      opportunity.timeline.applicationDeadline
+    ).toISOString(),
+    externalUrl: opportunity.externalUrl,
+  };
 }
 
 export const scrapingService = new ScrapingService();
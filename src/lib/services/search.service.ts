@@ -3,13 +3,58 @@ import type {
   ApiResponse,
   Opportunity,
   SearchFacets,
+  SearchFilters,
   SearchRequest,
   SearchResponse,
+  SearchSort,
 } from '../../types';
 import { elasticsearch, esUtils, INDICES } from '../elasticsearch';
+import { eventBus } from '../events/event-bus';
+import type { GeoPoint } from '../geo/gazetteer';
+import { distanceKm, geocodeLocation } from '../geo/gazetteer';
+import type { QueryLanguage } from '../multilingual-search';
+import {
+  buildMultilingualQuery,
+  resolveQueryLanguage,
+} from '../multilingual-search';
+import { TRANSLATIONS_MAPPING } from '../search-indices';
+import { deriveSearchFields } from '../search-normalization';
+import { i18nService } from './i18n.service';
+import type { SearchTranslations } from './opportunity-translation.service';
+import { opportunityTranslationService } from './opportunity-translation.service';
+import { toOpportunity } from './opportunity.service';
 
 const prisma = new PrismaClient();
 
+interface SearchArea {
+  city: string;
+  origin: GeoPoint;
+  radiusKm?: number;
+}
+
+// Distance ordering needs a search area and is built per request
+const SORT_ORDERS: Record<Exclude<SearchSort, 'distance'>, any[]> = {
+  relevance: [
+    { _score: { order: 'desc' } },
+    { qualityScore: { order: 'desc' } },
+    { applicationDeadline: { order: 'asc' } },
+  ],
+  deadline: [
+    { applicationDeadline: { order: 'asc' } },
+    { _score: { order: 'desc' } },
+  ],
+  newest: [{ createdAt: { order: 'desc' } }, { _score: { order: 'desc' } }],
+  stipend: [
+    { stipendMax: { order: 'desc', missing: '_last' } },
+    { _score: { order: 'desc' } },
+  ],
+  quality: [
+    { qualityScore: { order: 'desc' } },
+    { applicationDeadline: { order: 'asc' } },
+    { _score: { order: 'desc' } },
+  ],
+};
+
 export interface OpportunityDocument {
   id: string;
   title: string;
@@ -25,7 +70,12 @@ export interface OpportunityDocument {
   location?: string;
   duration?: string;
   stipend?: string;
+  stipendMin?: number;
+  stipendMax?: number;
   prizes: string[];
+  prizePool?: number;
+  durationDays?: number;
+  geoLocation?: GeoPoint;
   applicationDeadline: string;
   startDate?: string;
   endDate?: string;
@@ -36,11 +86,19 @@ export interface OpportunityDocument {
   qualityScore: number;
   createdAt: string;
   updatedAt: string;
+  translations?: SearchTranslations;
 }
 
 export class SearchService {
   private readonly opportunitiesIndex = INDICES.OPPORTUNITIES;
 
+  constructor() {
+    // Make new translations searchable without waiting for the next sync
+    eventBus.on('opportunity.translated', event =>
+      this.reindexTranslations(event.data.id)
+    );
+  }
+
   /**
    * Initialize Elasticsearch indices
    */
@@ -84,7 +142,12 @@ export class SearchService {
           },
           duration: { type: 'keyword' },
           stipend: { type: 'keyword' },
+          stipendMin: { type: 'integer' },
+          stipendMax: { type: 'integer' },
           prizes: { type: 'text' },
+          prizePool: { type: 'long' },
+          durationDays: { type: 'integer' },
+          geoLocation: { type: 'geo_point' },
           applicationDeadline: { type: 'date' },
           startDate: { type: 'date' },
           endDate: { type: 'date' },
@@ -100,6 +163,7 @@ export class SearchService {
           qualityScore: { type: 'integer' },
           createdAt: { type: 'date' },
           updatedAt: { type: 'date' },
+          translations: TRANSLATIONS_MAPPING,
         },
       };
 
@@ -128,6 +192,10 @@ export class SearchService {
    */
   async indexOpportunity(opportunity: Opportunity): Promise<ApiResponse<null>> {
     try {
+      const translations =
+        await opportunityTranslationService.getSearchTranslations([
+          opportunity,
+        ]);
       const document: OpportunityDocument = {
         id: opportunity.id,
         title: opportunity.title,
@@ -155,6 +223,8 @@ export class SearchService {
         qualityScore: 0, // This would be calculated based on various factors
         createdAt: opportunity.createdAt.toISOString(),
         updatedAt: opportunity.updatedAt.toISOString(),
+        translations: translations.get(opportunity.id),
+        ...deriveSearchFields(opportunity),
       };
 
       await elasticsearch.index({
@@ -183,6 +253,10 @@ export class SearchService {
     opportunities: Opportunity[]
   ): Promise<ApiResponse<{ indexed: number; errors: any[] }>> {
     try {
+      const translations =
+        await opportunityTranslationService.getSearchTranslations(
+          opportunities
+        );
       const documents = opportunities.map(opportunity => ({
         id: opportunity.id,
         title: opportunity.title,
@@ -210,6 +284,8 @@ export class SearchService {
         qualityScore: 0,
         createdAt: opportunity.createdAt.toISOString(),
         updatedAt: opportunity.updatedAt.toISOString(),
+        translations: translations.get(opportunity.id),
+        ...deriveSearchFields(opportunity),
       }));
 
       const result = await esUtils.bulkIndex(
@@ -264,39 +340,60 @@ export class SearchService {
     searchRequest: SearchRequest
   ): Promise<ApiResponse<SearchResponse>> {
     try {
-      const { query, filters, pagination, userId } = searchRequest;
+      const { query, filters, sort, pagination, userId } = searchRequest;
       const page = pagination?.page || 1;
       const limit = pagination?.limit || 20;
       const from = (page - 1) * limit;
 
+      let area: SearchArea | undefined;
+      if (filters?.nearCity) {
+        const city = geocodeLocation(filters.nearCity);
+        if (!city) {
+          return {
+            success: false,
+            error: `Unknown city: ${filters.nearCity}`,
+          };
+        }
+        area = {
+          city: city.name,
+          origin: { lat: city.lat, lon: city.lon },
+          radiusKm: filters.maxDistance,
+        };
+      } else if (userId && !filters?.location && filters?.mode !== 'online') {
+        area = await this.getUserSearchArea(userId, filters?.maxDistance);
+      }
+
       // Build Elasticsearch query
       const esQuery: any = {
         bool: {
           must: [],
           filter: [
             { term: { isActive: true } },
-            { range: { applicationDeadline: { gte: 'now' } } },
+            {
+              range: {
+                applicationDeadline: {
+                  gte: filters?.deadlineAfter ?? 'now',
+                  ...(filters?.deadlineBefore && {
+                    lte: filters.deadlineBefore,
+                  }),
+                },
+              },
+            },
           ],
         },
       };
 
-      // Add text search
+      // Add text search, against the fields of the query's language
+      let queryLanguage: QueryLanguage | undefined;
       if (query && query.trim()) {
-        esQuery.bool.must.push({
-          multi_match: {
-            query: query.trim(),
-            fields: [
-              'title^3',
-              'description^2',
-              'organizerName^2',
-              'requiredSkills.text^2',
-              'tags.text',
-              'location',
-            ],
-            type: 'best_fields',
-            fuzziness: 'AUTO',
-          },
-        });
+        const detected = await i18nService.detectLanguage(query.trim());
+        queryLanguage = resolveQueryLanguage(
+          query.trim(),
+          detected.data || 'en'
+        );
+        esQuery.bool.must.push(
+          buildMultilingualQuery(query.trim(), queryLanguage)
+        );
       } else {
         esQuery.bool.must.push({ match_all: {} });
       }
@@ -329,6 +426,28 @@ export class SearchService {
             terms: { requiredSkills: filters.skills },
           });
         }
+        esQuery.bool.filter.push(...this.buildRangeFilters(filters));
+      }
+
+      // Online opportunities are never out of range. Indices created before
+      // geoLocation was mapped as a geo_point have it unmapped; those match
+      // online opportunities only rather than failing the whole search.
+      if (area?.radiusKm) {
+        esQuery.bool.filter.push({
+          bool: {
+            should: [
+              { term: { mode: 'online' } },
+              {
+                geo_distance: {
+                  distance: `${area.radiusKm}km`,
+                  geoLocation: area.origin,
+                  ignore_unmapped: true,
+                },
+              },
+            ],
+            minimum_should_match: 1,
+          },
+        });
       }
 
       // Execute search
@@ -337,11 +456,7 @@ export class SearchService {
         query: esQuery,
         from,
         size: limit,
-        sort: [
-          { qualityScore: { order: 'desc' } },
-          { applicationDeadline: { order: 'asc' } },
-          { _score: { order: 'desc' } },
-        ],
+        sort: this.buildSort(sort, area),
         aggs: {
           types: {
             terms: { field: 'type', size: 10 },
@@ -362,7 +477,7 @@ export class SearchService {
       });
 
       // Transform results
-      const opportunities: Opportunity[] = searchResponse.hits.hits.map(
+      const results: Opportunity[] = searchResponse.hits.hits.map(
         (hit: any) => {
           const source = hit._source;
           return {
@@ -401,6 +516,10 @@ export class SearchService {
             createdAt: new Date(source.createdAt),
             updatedAt: new Date(source.updatedAt),
             isActive: source.isActive,
+            distanceKm:
+              area && source.geoLocation
+                ? distanceKm(area.origin, source.geoLocation)
+                : undefined,
           };
         }
       );
@@ -438,6 +557,12 @@ export class SearchService {
           })) || [],
       };
 
+      // Titles and descriptions in the user's language where translated
+      const opportunities = await opportunityTranslationService.localize(
+        results,
+        await opportunityTranslationService.getPreferredLanguage(userId)
+      );
+
       // Track search if user is provided
       if (userId && query) {
         // This would be handled by analytics service
@@ -448,6 +573,8 @@ export class SearchService {
         opportunities,
         totalCount: searchResponse.hits.total?.value || 0,
         facets,
+        searchArea: area && { city: area.city, radiusKm: area.radiusKm },
+        queryLanguage: queryLanguage?.language,
       };
 
       return {
@@ -464,6 +591,78 @@ export class SearchService {
     }
   }
 
+  /**
+   * Range filters over dates and the numeric fields derived at index time.
+   * A stipend bound matches when any part of the listed range satisfies it.
+   */
+  private buildRangeFilters(filters: SearchFilters): any[] {
+    const ranges: Array<[string, unknown, unknown]> = [
+      ['startDate', filters.startsAfter, filters.startsBefore],
+      ['endDate', filters.endsAfter, filters.endsBefore],
+      ['createdAt', filters.postedAfter, undefined],
+      ['stipendMax', filters.stipendMin, undefined],
+      ['stipendMin', undefined, filters.stipendMax],
+      ['prizePool', filters.prizePoolMin, filters.prizePoolMax],
+      ['durationDays', filters.durationMinDays, filters.durationMaxDays],
+    ];
+
+    return ranges
+      .filter(([, gte, lte]) => gte !== undefined || lte !== undefined)
+      .map(([field, gte, lte]) => ({
+        range: {
+          [field]: {
+            ...(gte !== undefined && { gte }),
+            ...(lte !== undefined && { lte }),
+          },
+        },
+      }));
+  }
+
+  private buildSort(sort: SearchSort | undefined, area?: SearchArea): any[] {
+    if (sort === 'distance') {
+      if (!area) return SORT_ORDERS.relevance;
+      return [
+        {
+          _geo_distance: {
+            geoLocation: area.origin,
+            order: 'asc',
+            unit: 'km',
+            ignore_unmapped: true,
+          },
+        },
+        { _score: { order: 'desc' } },
+      ];
+    }
+    return SORT_ORDERS[sort || 'relevance'];
+  }
+
+  /**
+   * Search area from the user's profile city and maxDistance preference.
+   * Search still works without one, so lookup failures are only logged.
+   */
+  private async getUserSearchArea(
+    userId: string,
+    maxDistance?: number
+  ): Promise<SearchArea | undefined> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { city: true, maxDistance: true },
+      });
+      const city = geocodeLocation(user?.city);
+      if (!city) return undefined;
+
+      return {
+        city: city.name,
+        origin: { lat: city.lat, lon: city.lon },
+        radiusKm: maxDistance ?? user?.maxDistance ?? undefined,
+      };
+    } catch (error) {
+      console.error('Get user search area error:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Get search suggestions
    */
@@ -504,6 +703,33 @@ export class SearchService {
     }
   }
 
+  /**
+   * Replace the indexed translations of an opportunity with its current ones
+   */
+  async reindexTranslations(opportunityId: string): Promise<void> {
+    const opportunity = await prisma.opportunity.findUnique({
+      where: { id: opportunityId },
+      select: { id: true, title: true, description: true },
+    });
+    if (!opportunity) return;
+
+    const translations =
+      await opportunityTranslationService.getSearchTranslations([
+        { ...opportunity, description: opportunity.description || '' },
+      ]);
+
+    try {
+      await elasticsearch.update({
+        index: this.opportunitiesIndex,
+        id: opportunityId,
+        doc: { translations: translations.get(opportunityId) },
+      });
+    } catch (error: any) {
+      // Not indexed yet; it is indexed with its translations later
+      if (error?.meta?.statusCode !== 404) throw error;
+    }
+  }
+
   /**
    * Sync opportunities from database to Elasticsearch
    */
@@ -520,47 +746,7 @@ export class SearchService {
       });
 
       // Transform to Opportunity format
-      const transformedOpportunities: Opportunity[] = opportunities.map(
-        opp => ({
-          id: opp.id,
-          title: opp.title,
-          description: opp.description || '',
-          type: opp.type as 'hackathon' | 'internship' | 'workshop',
-          organizer: {
-            name: opp.organizerName,
-            type: opp.organizerType as
-              | 'corporate'
-              | 'startup'
-              | 'government'
-              | 'academic',
-            logo: opp.organizerLogo || undefined,
-          },
-          requirements: {
-            skills: opp.requiredSkills,
-            experience: opp.experienceRequired || undefined,
-            education: opp.educationRequired || undefined,
-            eligibility: opp.eligibilityCriteria,
-          },
-          details: {
-            mode: opp.mode as 'online' | 'offline' | 'hybrid',
-            location: opp.location || undefined,
-            duration: opp.duration || undefined,
-            stipend: opp.stipend || undefined,
-            prizes: opp.prizes,
-          },
-          timeline: {
-            applicationDeadline: opp.applicationDeadline,
-            startDate: opp.startDate || undefined,
-            endDate: opp.endDate || undefined,
-          },
-          externalUrl: opp.externalUrl,
-          sourceId: opp.sourceId,
-          tags: opp.tags,
-          createdAt: opp.createdAt,
-          updatedAt: opp.updatedAt,
-          isActive: opp.isActive,
-        })
-      );
+      const transformedOpportunities = opportunities.map(toOpportunity);
 
       const result = await this.bulkIndexOpportunities(
         transformedOpportunities
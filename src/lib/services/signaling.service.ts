@@ -1,19 +1,76 @@
 // Signaling Service for WebRTC
-import {
+import type {
+  BreakoutRoomAssignment,
+  CreateBreakoutRoomsRequest,
+  CreatePollRequest,
   JoinRoomMessage,
   MediaStateMessage,
+  ParticipantRole,
   SignalingMessage,
 } from '@/types/video-conferencing';
-import { Server as HTTPServer } from 'http';
-import { Socket, Server as SocketIOServer } from 'socket.io';
+import type { Server as HTTPServer } from 'http';
+import type { Socket } from 'socket.io';
+import { Server as SocketIOServer } from 'socket.io';
+import { logger } from '../monitoring';
+import { authService } from './auth.service';
+import type { VideoConferencingService } from './video-conferencing.service';
+
+type SignalingAck = (response: any) => void;
+
+// What to tell the client when a request fails
+function failureMessage(error: unknown, fallback: string): string {
+  return (error instanceof Error && error.message) || fallback;
+}
+
+// A socket that has joined a room, whether admitted or still waiting
+interface RoomMember {
+  roomCode: string;
+  roomId: string;
+  participantId: string;
+  peerId: string;
+  userId: string;
+  displayName: string;
+  role: ParticipantRole;
+  // The main room or the breakout room the member is in
+  breakoutRoomId: string | null;
+}
+
+// Higher ranks can moderate lower ones, never the other way round
+const ROLE_RANK: Record<ParticipantRole, number> = {
+  observer: 0,
+  participant: 1,
+  co_host: 2,
+  host: 3,
+};
+
+const HOST_ONLY_ERROR = 'Only the host can do that';
+const MODERATOR_ONLY_ERROR = 'Only the host or a co-host can do that';
+const TARGET_NOT_FOUND_ERROR = 'Participant not found';
+
+const MAX_BREAKOUT_ROOMS = 20;
+
+const moderatorsRoom = (roomCode: string) => `${roomCode}:moderators`;
+
+// Media, chat and WebRTC signals only reach members of the same channel:
+// the main room or one breakout room. Call-wide events go to the room code.
+const channelRoom = (roomCode: string, breakoutRoomId: string | null) =>
+  breakoutRoomId
+    ? `${roomCode}:breakout:${breakoutRoomId}`
+    : `${roomCode}:main`;
 
 export class SignalingService {
   private io: SocketIOServer;
+  private videoService: VideoConferencingService;
   private rooms: Map<string, Set<string>> = new Map();
-  private socketToRoom: Map<string, string> = new Map();
-  private socketToPeer: Map<string, string> = new Map();
+  private waiting: Map<string, Set<string>> = new Map();
+  private members: Map<string, RoomMember> = new Map();
+  // Participants let into each call, so reconnects skip the waiting room
+  private admitted: Map<string, Set<string>> = new Map();
+  private pollTimers: Map<string, NodeJS.Timeout> = new Map();
+  private breakoutTimers: Map<string, NodeJS.Timeout> = new Map();
 
-  constructor(httpServer: HTTPServer) {
+  constructor(httpServer: HTTPServer, videoService: VideoConferencingService) {
+    this.videoService = videoService;
     this.io = new SocketIOServer(httpServer, {
       cors: {
         origin: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
@@ -25,9 +82,26 @@ export class SignalingService {
       pingInterval: 25000,
     });
 
+    this.io.use((socket, next) => this.authenticate(socket, next));
     this.setupEventHandlers();
   }
 
+  private authenticate(socket: Socket, next: (error?: Error) => void): void {
+    try {
+      const token = socket.handshake.auth?.token;
+      const decoded = token ? authService.verifyAccessToken(token) : null;
+
+      if (!decoded || !decoded.id) {
+        return next(new Error('Unauthorized'));
+      }
+
+      socket.data.userId = decoded.id;
+      next();
+    } catch {
+      next(new Error('Unauthorized'));
+    }
+  }
+
   private setupEventHandlers(): void {
     this.io.on('connection', (socket: Socket) => {
       console.log(`Socket connected: ${socket.id}`);
@@ -85,30 +159,154 @@ export class SignalingService {
       });
 
       // Host controls
-      socket.on('kick-participant', (data: { peerId: string }) => {
-        this.handleKickParticipant(socket, data.peerId);
+      socket.on(
+        'kick-participant',
+        (data: { peerId: string }, callback?: SignalingAck) => {
+          this.handleKickParticipant(socket, data?.peerId, callback);
+        }
+      );
+
+      socket.on(
+        'mute-participant',
+        (data: { peerId: string }, callback?: SignalingAck) => {
+          this.handleMuteParticipant(socket, data?.peerId, callback);
+        }
+      );
+
+      socket.on(
+        'set-role',
+        (
+          data: { peerId: string; role: ParticipantRole },
+          callback?: SignalingAck
+        ) => {
+          this.handleSetRole(socket, data, callback);
+        }
+      );
+
+      socket.on(
+        'lock-room',
+        (data: { locked: boolean }, callback?: SignalingAck) => {
+          this.handleLockRoom(socket, Boolean(data?.locked), callback);
+        }
+      );
+
+      // Waiting room
+      socket.on('list-waiting', (callback?: SignalingAck) => {
+        const member = this.requireRole(socket, 'co_host', callback);
+        if (member) {
+          this.reply(callback, {
+            success: true,
+            waiting: this.getWaitingList(member.roomCode),
+          });
+        }
       });
 
-      socket.on('mute-participant', (data: { peerId: string }) => {
-        this.handleMuteParticipant(socket, data.peerId);
+      socket.on(
+        'admit-participant',
+        (data: { peerId: string }, callback?: SignalingAck) => {
+          this.handleAdmitParticipant(socket, data?.peerId, callback);
+        }
+      );
+
+      socket.on('admit-all', (callback?: SignalingAck) => {
+        const member = this.requireRole(socket, 'co_host', callback);
+        if (member) {
+          const admitted = this.admitAllWaiting(member.roomCode);
+          this.reply(callback, { success: true, admitted });
+        }
       });
 
+      socket.on(
+        'deny-participant',
+        (data: { peerId: string }, callback?: SignalingAck) => {
+          this.handleDenyParticipant(socket, data?.peerId, callback);
+        }
+      );
+
+      socket.on(
+        'set-waiting-room',
+        (data: { enabled: boolean }, callback?: SignalingAck) => {
+          this.handleSetWaitingRoom(socket, Boolean(data?.enabled), callback);
+        }
+      );
+
       // Polls
-      socket.on('poll-created', (data: any) => {
-        this.broadcastToRoom(socket, 'poll-created', data, true);
+      socket.on(
+        'create-poll',
+        (data: CreatePollRequest, callback?: SignalingAck) => {
+          this.handleCreatePoll(socket, data, callback);
+        }
+      );
+
+      socket.on(
+        'poll-vote',
+        (
+          data: { pollId: string; optionIds: string[] },
+          callback?: SignalingAck
+        ) => {
+          this.handlePollVote(socket, data, callback);
+        }
+      );
+
+      socket.on(
+        'close-poll',
+        (data: { pollId: string }, callback?: SignalingAck) => {
+          this.handleClosePoll(socket, data?.pollId, callback);
+        }
+      );
+
+      // Breakout rooms
+      socket.on(
+        'create-breakout-rooms',
+        (data: CreateBreakoutRoomsRequest, callback?: SignalingAck) => {
+          this.handleCreateBreakoutRooms(socket, data, callback);
+        }
+      );
+
+      socket.on(
+        'assign-breakout-rooms',
+        (
+          data: {
+            assignments: Array<{ peerId: string; breakoutRoomId: string }>;
+          },
+          callback?: SignalingAck
+        ) => {
+          this.handleAssignBreakoutRooms(socket, data, callback);
+        }
+      );
+
+      socket.on('auto-assign-breakout-rooms', (callback?: SignalingAck) => {
+        this.handleAutoAssignBreakoutRooms(socket, callback);
       });
 
-      socket.on('poll-vote', (data: any) => {
-        this.broadcastToRoom(socket, 'poll-vote', data, true);
+      socket.on('open-breakout-rooms', (callback?: SignalingAck) => {
+        this.handleOpenBreakoutRooms(socket, callback);
       });
 
-      // Breakout rooms
-      socket.on('breakout-rooms-created', (data: any) => {
-        this.broadcastToRoom(socket, 'breakout-rooms-created', data, true);
+      socket.on(
+        'join-breakout-room',
+        (data: { breakoutRoomId: string }, callback?: SignalingAck) => {
+          this.handleJoinBreakoutRoom(socket, data?.breakoutRoomId, callback);
+        }
+      );
+
+      socket.on('return-to-main-room', (callback?: SignalingAck) => {
+        const member = this.getAdmittedMember(socket);
+        if (!member || !member.breakoutRoomId) {
+          return this.reply(callback, {
+            success: false,
+            error: 'You are not in a breakout room',
+          });
+        }
+
+        this.reply(callback, {
+          success: true,
+          ...this.moveToChannel(socket, member, null),
+        });
       });
 
-      socket.on('join-breakout-room', (data: any) => {
-        this.handleJoinBreakoutRoom(socket, data);
+      socket.on('close-breakout-rooms', (callback?: SignalingAck) => {
+        this.handleCloseBreakoutRooms(socket, callback);
       });
 
       // Connection quality
@@ -130,72 +328,182 @@ export class SignalingService {
     });
   }
 
-  private handleJoinRoom(
+  /**
+   * Bring a socket into a room as the participant it joined as through the
+   * API. Participants other than the host and co-hosts go to the waiting
+   * room first when it is enabled.
+   */
+  private async handleJoinRoom(
     socket: Socket,
     data: JoinRoomMessage,
-    callback: (response: any) => void
-  ): void {
-    const { roomCode, displayName, userId } = data;
+    callback?: SignalingAck
+  ): Promise<void> {
+    const roomCode = data?.roomCode;
+    const participantId = data?.participantId;
+
+    if (typeof roomCode !== 'string' || typeof participantId !== 'string') {
+      return this.reply(callback, {
+        success: false,
+        error: 'Invalid join request',
+      });
+    }
+
+    if (this.members.has(socket.id)) {
+      return this.reply(callback, {
+        success: false,
+        error: 'Already in a room',
+      });
+    }
+
+    try {
+      const room = await this.videoService.getRoomByCode(roomCode);
+      if (!room || room.status === 'ended' || room.status === 'cancelled') {
+        return this.reply(callback, {
+          success: false,
+          error: 'Room not found',
+        });
+      }
+
+      const participant = await this.videoService.getParticipant(participantId);
+      if (
+        !participant ||
+        participant.roomId !== room.id ||
+        participant.userId !== socket.data.userId ||
+        participant.leftAt
+      ) {
+        return this.reply(callback, {
+          success: false,
+          error: 'You are not a participant in this room',
+        });
+      }
+
+      if (
+        await this.videoService.isRemovedFromRoom(room.id, socket.data.userId)
+      ) {
+        return this.reply(callback, {
+          success: false,
+          error: 'You were removed from this room',
+        });
+      }
+
+      // A participant reconnecting replaces their old socket
+      const previous = this.findMember(
+        roomCode,
+        member => member.participantId === participant.id
+      );
+      if (previous) {
+        this.disconnectMember(previous[0]);
+      }
+
+      const member: RoomMember = {
+        roomCode,
+        roomId: room.id,
+        participantId: participant.id,
+        peerId: participant.peerId,
+        userId: socket.data.userId,
+        displayName: participant.displayName,
+        role: participant.role,
+        breakoutRoomId: null,
+      };
+      this.members.set(socket.id, member);
 
-    // Generate peer ID
-    const peerId = this.generatePeerId();
-    this.socketToPeer.set(socket.id, peerId);
-    this.socketToRoom.set(socket.id, roomCode);
+      if (
+        room.isWaitingRoomEnabled &&
+        !this.isModerator(member) &&
+        !this.admitted.get(roomCode)?.has(member.participantId)
+      ) {
+        this.addToWaitingRoom(socket, member);
+        return this.reply(callback, { success: true, waiting: true });
+      }
+
+      this.reply(callback, { success: true, ...this.admit(socket, member) });
+    } catch (error) {
+      console.error('Error joining signaling room:', error);
+      this.members.delete(socket.id);
+      this.reply(callback, { success: false, error: 'Failed to join room' });
+    }
+  }
+
+  /**
+   * Add a member to the call and tell everyone already in it. Returns what
+   * the new member needs to connect to the others.
+   */
+  private admit(socket: Socket, member: RoomMember) {
+    const { roomCode } = member;
 
-    // Add to room
     if (!this.rooms.has(roomCode)) {
       this.rooms.set(roomCode, new Set());
     }
     this.rooms.get(roomCode)!.add(socket.id);
+    if (!this.admitted.has(roomCode)) {
+      this.admitted.set(roomCode, new Set());
+    }
+    this.admitted.get(roomCode)!.add(member.participantId);
 
-    // Join socket.io room
     socket.join(roomCode);
+    if (this.isModerator(member)) {
+      socket.join(moderatorsRoom(roomCode));
+    }
 
-    // Get existing participants
-    const existingParticipants = Array.from(this.rooms.get(roomCode)!)
-      .filter(id => id !== socket.id)
-      .map(id => ({
-        socketId: id,
-        peerId: this.socketToPeer.get(id),
-      }));
-
-    // Notify existing participants
-    socket.to(roomCode).emit('participant-joined', {
-      socketId: socket.id,
-      peerId,
-      displayName,
-      userId,
-    });
-
-    // Send response to joining participant
-    callback({
-      success: true,
-      peerId,
-      participants: existingParticipants,
-    });
+    const { participants } = this.moveToChannel(socket, member, null);
 
     console.log(
-      `${displayName} (${peerId}) joined room ${roomCode}. Total participants: ${this.rooms.get(roomCode)!.size}`
+      `${member.displayName} (${member.peerId}) joined room ${roomCode}. Total participants: ${this.rooms.get(roomCode)!.size}`
     );
+
+    return {
+      peerId: member.peerId,
+      role: member.role,
+      participants,
+      ...(this.isModerator(member) && {
+        waiting: this.getWaitingList(roomCode),
+      }),
+    };
+  }
+
+  private addToWaitingRoom(socket: Socket, member: RoomMember): void {
+    if (!this.waiting.has(member.roomCode)) {
+      this.waiting.set(member.roomCode, new Set());
+    }
+    this.waiting.get(member.roomCode)!.add(socket.id);
+
+    this.io
+      .to(moderatorsRoom(member.roomCode))
+      .emit('participant-waiting', this.describe(member));
   }
 
   private handleLeaveRoom(socket: Socket): void {
-    const roomCode = this.socketToRoom.get(socket.id);
-    const peerId = this.socketToPeer.get(socket.id);
+    const member = this.members.get(socket.id);
+    if (!member) return;
+
+    const { roomCode, peerId } = member;
+    this.members.delete(socket.id);
 
-    if (roomCode && this.rooms.has(roomCode)) {
-      const room = this.rooms.get(roomCode)!;
-      room.delete(socket.id);
+    const waiting = this.waiting.get(roomCode);
+    if (waiting?.delete(socket.id)) {
+      if (waiting.size === 0) {
+        this.waiting.delete(roomCode);
+      }
+
+      this.io
+        .to(moderatorsRoom(roomCode))
+        .emit('participant-left-waiting-room', { peerId });
+    }
 
+    const room = this.rooms.get(roomCode);
+    if (room?.delete(socket.id)) {
       // Notify other participants
-      socket.to(roomCode).emit('participant-left', {
+      const channel = channelRoom(roomCode, member.breakoutRoomId);
+      socket.to(channel).emit('participant-left', {
         socketId: socket.id,
         peerId,
       });
+      socket.leave(channel);
 
       // Clean up empty rooms
       if (room.size === 0) {
         this.rooms.delete(roomCode);
+        this.admitted.delete(roomCode);
       }
 
       console.log(
@@ -203,25 +511,27 @@ export class SignalingService {
       );
     }
 
-    // Clean up mappings
-    this.socketToRoom.delete(socket.id);
-    this.socketToPeer.delete(socket.id);
-    socket.leave(roomCode || '');
+    socket.leave(roomCode);
+    socket.leave(moderatorsRoom(roomCode));
   }
 
   private forwardSignal(socket: Socket, data: SignalingMessage): void {
-    const { to, type, data: signalData } = data;
-    const from = this.socketToPeer.get(socket.id);
-
-    if (to) {
-      // Find target socket
-      const targetSocket = this.findSocketByPeerId(to);
-      if (targetSocket) {
-        this.io.to(targetSocket).emit(type, {
-          from,
-          data: signalData,
-        });
-      }
+    const member = this.getAdmittedMember(socket);
+    if (!member || !data?.to) return;
+
+    // Signals only go to peers in the same channel of the call
+    const target = this.findMember(
+      member.roomCode,
+      other =>
+        other.peerId === data.to &&
+        other.breakoutRoomId === member.breakoutRoomId,
+      true
+    );
+    if (target) {
+      this.io.to(target[0]).emit(data.type, {
+        from: member.peerId,
+        data: data.data,
+      });
     }
   }
 
@@ -229,73 +539,936 @@ export class SignalingService {
     socket: Socket,
     event: string,
     data: any,
-    includeSelf: boolean = false
+    includeSelf = false
   ): void {
-    const roomCode = this.socketToRoom.get(socket.id);
-    if (roomCode) {
-      if (includeSelf) {
-        this.io.to(roomCode).emit(event, data);
+    const member = this.getAdmittedMember(socket);
+    if (!member) return;
+
+    // Stamp the sender so nobody can speak for another peer
+    const message = { ...data, peerId: member.peerId };
+    const channel = channelRoom(member.roomCode, member.breakoutRoomId);
+
+    if (includeSelf) {
+      this.io.to(channel).emit(event, message);
+    } else {
+      socket.to(channel).emit(event, message);
+    }
+  }
+
+  private async handleKickParticipant(
+    socket: Socket,
+    targetPeerId: string,
+    callback?: SignalingAck
+  ): Promise<void> {
+    const member = this.requireRole(socket, 'co_host', callback);
+    if (!member) return;
+
+    const target = this.findOutrankedMember(member, targetPeerId);
+    if (!target) {
+      return this.reply(callback, {
+        success: false,
+        error: TARGET_NOT_FOUND_ERROR,
+      });
+    }
+
+    const [targetSocketId, targetMember] = target;
+
+    try {
+      // Recorded as removed, so they cannot join the room again
+      await this.videoService.removeParticipant(
+        targetMember.participantId,
+        member.userId
+      );
+      this.admitted.get(member.roomCode)?.delete(targetMember.participantId);
+
+      this.io.to(targetSocketId).emit('kicked', {
+        reason: 'Removed by host',
+      });
+      this.disconnectMember(targetSocketId);
+
+      this.reply(callback, { success: true });
+    } catch (error) {
+      console.error('Error removing participant:', error);
+      this.reply(callback, {
+        success: false,
+        error: 'Failed to remove participant',
+      });
+    }
+  }
+
+  private handleMuteParticipant(
+    socket: Socket,
+    targetPeerId: string,
+    callback?: SignalingAck
+  ): void {
+    const member = this.requireRole(socket, 'co_host', callback);
+    if (!member) return;
+
+    const target = this.findOutrankedMember(member, targetPeerId, true);
+    if (!target) {
+      return this.reply(callback, {
+        success: false,
+        error: TARGET_NOT_FOUND_ERROR,
+      });
+    }
+
+    this.io.to(target[0]).emit('force-mute', {
+      reason: 'Muted by host',
+    });
+    this.reply(callback, { success: true });
+  }
+
+  /**
+   * Make a participant a co-host, or take it away. Only the host can.
+   */
+  private async handleSetRole(
+    socket: Socket,
+    data: { peerId: string; role: ParticipantRole },
+    callback?: SignalingAck
+  ): Promise<void> {
+    const member = this.requireRole(socket, 'host', callback);
+    if (!member) return;
+
+    const role = data?.role;
+    if (!['co_host', 'participant', 'observer'].includes(role)) {
+      return this.reply(callback, { success: false, error: 'Invalid role' });
+    }
+
+    const target = this.findOutrankedMember(member, data.peerId, true);
+    if (!target) {
+      return this.reply(callback, {
+        success: false,
+        error: TARGET_NOT_FOUND_ERROR,
+      });
+    }
+
+    const [targetSocketId, targetMember] = target;
+
+    try {
+      await this.videoService.updateParticipantRole(
+        targetMember.participantId,
+        role
+      );
+      targetMember.role = role;
+
+      const targetSocket = this.io.sockets.sockets.get(targetSocketId);
+      if (this.isModerator(targetMember)) {
+        targetSocket?.join(moderatorsRoom(member.roomCode));
       } else {
-        socket.to(roomCode).emit(event, data);
+        targetSocket?.leave(moderatorsRoom(member.roomCode));
       }
+
+      this.io
+        .to(member.roomCode)
+        .emit('role-changed', { peerId: targetMember.peerId, role });
+      this.reply(callback, { success: true });
+    } catch (error) {
+      console.error('Error changing participant role:', error);
+      this.reply(callback, {
+        success: false,
+        error: 'Failed to change role',
+      });
     }
   }
 
-  private handleKickParticipant(socket: Socket, targetPeerId: string): void {
-    const roomCode = this.socketToRoom.get(socket.id);
-    if (!roomCode) return;
+  private async handleLockRoom(
+    socket: Socket,
+    locked: boolean,
+    callback?: SignalingAck
+  ): Promise<void> {
+    const member = this.requireRole(socket, 'co_host', callback);
+    if (!member) return;
 
-    const targetSocket = this.findSocketByPeerId(targetPeerId);
-    if (targetSocket) {
-      this.io.to(targetSocket).emit('kicked', {
-        reason: 'Removed by host',
+    try {
+      await this.videoService.setRoomLocked(member.roomId, locked);
+
+      this.io.to(member.roomCode).emit('room-lock-changed', { locked });
+      this.reply(callback, { success: true });
+    } catch (error) {
+      console.error('Error locking room:', error);
+      this.reply(callback, {
+        success: false,
+        error: 'Failed to update room lock',
+      });
+    }
+  }
+
+  private handleAdmitParticipant(
+    socket: Socket,
+    targetPeerId: string,
+    callback?: SignalingAck
+  ): void {
+    const member = this.requireRole(socket, 'co_host', callback);
+    if (!member) return;
+
+    const target = this.findWaitingMember(member.roomCode, targetPeerId);
+    if (!target) {
+      return this.reply(callback, {
+        success: false,
+        error: TARGET_NOT_FOUND_ERROR,
+      });
+    }
+
+    this.admitFromWaitingRoom(target[0]);
+    this.reply(callback, { success: true });
+  }
+
+  private async handleDenyParticipant(
+    socket: Socket,
+    targetPeerId: string,
+    callback?: SignalingAck
+  ): Promise<void> {
+    const member = this.requireRole(socket, 'co_host', callback);
+    if (!member) return;
+
+    const target = this.findWaitingMember(member.roomCode, targetPeerId);
+    if (!target) {
+      return this.reply(callback, {
+        success: false,
+        error: TARGET_NOT_FOUND_ERROR,
+      });
+    }
+
+    const [targetSocketId, targetMember] = target;
+
+    try {
+      await this.videoService.removeParticipant(
+        targetMember.participantId,
+        member.userId
+      );
+
+      this.io.to(targetSocketId).emit('denied', {
+        reason: 'The host did not let you in',
+      });
+      this.disconnectMember(targetSocketId);
+
+      this.reply(callback, { success: true });
+    } catch (error) {
+      console.error('Error denying participant:', error);
+      this.reply(callback, {
+        success: false,
+        error: 'Failed to deny participant',
+      });
+    }
+  }
+
+  /**
+   * Turn the waiting room on or off. Turning it off lets everyone waiting in.
+   */
+  private async handleSetWaitingRoom(
+    socket: Socket,
+    enabled: boolean,
+    callback?: SignalingAck
+  ): Promise<void> {
+    const member = this.requireRole(socket, 'co_host', callback);
+    if (!member) return;
+
+    try {
+      await this.videoService.setWaitingRoomEnabled(member.roomId, enabled);
+
+      if (!enabled) {
+        this.admitAllWaiting(member.roomCode);
+      }
+
+      this.io
+        .to(moderatorsRoom(member.roomCode))
+        .emit('waiting-room-changed', { enabled });
+      this.reply(callback, { success: true });
+    } catch (error) {
+      console.error('Error updating waiting room:', error);
+      this.reply(callback, {
+        success: false,
+        error: 'Failed to update waiting room',
+      });
+    }
+  }
+
+  private admitFromWaitingRoom(socketId: string): void {
+    const socket = this.io.sockets.sockets.get(socketId);
+    const member = this.members.get(socketId);
+    if (!socket || !member) return;
+
+    const waiting = this.waiting.get(member.roomCode);
+    waiting?.delete(socketId);
+    if (waiting?.size === 0) {
+      this.waiting.delete(member.roomCode);
+    }
+
+    socket.emit('admitted', this.admit(socket, member));
+    this.io
+      .to(moderatorsRoom(member.roomCode))
+      .emit('participant-admitted', { peerId: member.peerId });
+  }
+
+  private admitAllWaiting(roomCode: string): number {
+    const socketIds = Array.from(this.waiting.get(roomCode) || []);
+    socketIds.forEach(socketId => this.admitFromWaitingRoom(socketId));
+    return socketIds.length;
+  }
+
+  /**
+   * Start a poll in the call. If it has a duration it closes by itself.
+   */
+  private async handleCreatePoll(
+    socket: Socket,
+    data: CreatePollRequest,
+    callback?: SignalingAck
+  ): Promise<void> {
+    const member = this.requireRole(socket, 'co_host', callback);
+    if (!member) return;
+
+    const question = data?.question?.trim();
+    const options = (Array.isArray(data?.options) ? data.options : [])
+      .map(option => String(option).trim())
+      .filter(Boolean);
+
+    if (!question || options.length < 2) {
+      return this.reply(callback, {
+        success: false,
+        error: 'A poll needs a question and at least two options',
+      });
+    }
+
+    try {
+      const poll = await this.videoService.createPoll(
+        member.roomId,
+        member.participantId,
+        {
+          question,
+          options,
+          allowMultiple: Boolean(data.allowMultiple),
+          isAnonymous: Boolean(data.isAnonymous),
+          durationMinutes: data.durationMinutes,
+        }
+      );
+
+      if (poll.endsAt) {
+        this.schedulePollClose(member.roomCode, poll.id, poll.endsAt);
+      }
+
+      this.io.to(member.roomCode).emit('poll-created', poll);
+      this.reply(callback, { success: true, poll });
+    } catch (error) {
+      logger.error(
+        'Error creating poll',
+        error instanceof Error ? error : undefined
+      );
+      this.reply(callback, {
+        success: false,
+        error: failureMessage(error, 'Failed to create poll'),
+      });
+    }
+  }
+
+  /**
+   * Record a vote and send everyone the new totals
+   */
+  private async handlePollVote(
+    socket: Socket,
+    data: { pollId: string; optionIds: string[] },
+    callback?: SignalingAck
+  ): Promise<void> {
+    const member = this.getAdmittedMember(socket);
+    if (!member) {
+      return this.reply(callback, {
+        success: false,
+        error: 'Only participants in the call can vote',
+      });
+    }
+
+    try {
+      const results = await this.videoService.votePoll(
+        data?.pollId,
+        member.participantId,
+        Array.isArray(data?.optionIds) ? data.optionIds : []
+      );
+
+      this.io.to(member.roomCode).emit('poll-results', results);
+      this.reply(callback, { success: true, results });
+    } catch (error) {
+      this.reply(callback, {
+        success: false,
+        error: failureMessage(error, 'Failed to record vote'),
+      });
+    }
+  }
+
+  private async handleClosePoll(
+    socket: Socket,
+    pollId: string,
+    callback?: SignalingAck
+  ): Promise<void> {
+    const member = this.requireRole(socket, 'co_host', callback);
+    if (!member) return;
+
+    try {
+      const poll = await this.videoService.getPoll(pollId);
+      if (!poll || poll.roomId !== member.roomId) {
+        return this.reply(callback, {
+          success: false,
+          error: 'Poll not found',
+        });
+      }
+
+      const results = await this.closePoll(member.roomCode, pollId);
+      this.reply(callback, { success: true, results });
+    } catch (error) {
+      logger.error(
+        'Error closing poll',
+        error instanceof Error ? error : undefined
+      );
+      this.reply(callback, {
+        success: false,
+        error: failureMessage(error, 'Failed to close poll'),
+      });
+    }
+  }
+
+  private schedulePollClose(
+    roomCode: string,
+    pollId: string,
+    endsAt: Date
+  ): void {
+    const delay = Math.max(new Date(endsAt).getTime() - Date.now(), 0);
+    const timer = setTimeout(() => {
+      this.closePoll(roomCode, pollId).catch(error =>
+        logger.error('Error closing poll', error)
+      );
+    }, delay);
+    timer.unref();
+    this.pollTimers.set(pollId, timer);
+  }
+
+  private async closePoll(roomCode: string, pollId: string) {
+    clearTimeout(this.pollTimers.get(pollId));
+    this.pollTimers.delete(pollId);
+
+    const results = await this.videoService.closePoll(pollId);
+    if (results) {
+      this.io.to(roomCode).emit('poll-closed', results);
+    }
+    return results;
+  }
+
+  /**
+   * Set up breakout rooms for the call, optionally sharing out everyone in
+   * the main room who is not a host or co-host
+   */
+  private async handleCreateBreakoutRooms(
+    socket: Socket,
+    data: CreateBreakoutRoomsRequest,
+    callback?: SignalingAck
+  ): Promise<void> {
+    const member = this.requireRole(socket, 'co_host', callback);
+    if (!member) return;
+
+    const count = Number(data?.count);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_BREAKOUT_ROOMS) {
+      return this.reply(callback, {
+        success: false,
+        error: `Choose between 1 and ${MAX_BREAKOUT_ROOMS} breakout rooms`,
+      });
+    }
+
+    try {
+      const existing = await this.videoService.getBreakoutRooms(member.roomId);
+      if (existing.length > 0) {
+        return this.reply(callback, {
+          success: false,
+          error: 'Close the current breakout rooms first',
+        });
+      }
+
+      const rooms = await this.videoService.createBreakoutRooms(member.roomId, {
+        ...data,
+        count,
+      });
+
+      let assignments: BreakoutRoomAssignment[] = [];
+      if (data.autoAssign) {
+        assignments = await this.videoService.autoAssignBreakoutRooms(
+          member.roomId,
+          this.getAssignableParticipants(member.roomCode)
+        );
+      }
+
+      this.io
+        .to(moderatorsRoom(member.roomCode))
+        .emit('breakout-rooms-created', { rooms });
+      this.notifyAssignments(member.roomCode, assignments);
+      this.reply(callback, {
+        success: true,
+        rooms,
+        assignments: this.describeAssignments(member.roomCode, assignments),
+      });
+    } catch (error) {
+      logger.error(
+        'Error creating breakout rooms',
+        error instanceof Error ? error : undefined
+      );
+      this.reply(callback, {
+        success: false,
+        error: failureMessage(error, 'Failed to create breakout rooms'),
+      });
+    }
+  }
+
+  private async handleAssignBreakoutRooms(
+    socket: Socket,
+    data: { assignments: Array<{ peerId: string; breakoutRoomId: string }> },
+    callback?: SignalingAck
+  ): Promise<void> {
+    const member = this.requireRole(socket, 'co_host', callback);
+    if (!member) return;
+
+    const requested = Array.isArray(data?.assignments) ? data.assignments : [];
+    const assignments = [];
+
+    for (const { peerId, breakoutRoomId } of requested) {
+      const target = this.findMember(
+        member.roomCode,
+        other => other.peerId === peerId,
+        true
+      );
+      if (!target) {
+        return this.reply(callback, {
+          success: false,
+          error: TARGET_NOT_FOUND_ERROR,
+        });
+      }
+      assignments.push({
+        breakoutRoomId,
+        participantId: target[1].participantId,
+      });
+    }
+
+    try {
+      const saved = await this.videoService.assignBreakoutRooms(
+        member.roomId,
+        assignments
+      );
+
+      this.notifyAssignments(member.roomCode, saved);
+      this.reply(callback, {
+        success: true,
+        assignments: this.describeAssignments(member.roomCode, saved),
+      });
+    } catch (error) {
+      this.reply(callback, {
+        success: false,
+        error: failureMessage(error, 'Failed to assign breakout rooms'),
+      });
+    }
+  }
+
+  private async handleAutoAssignBreakoutRooms(
+    socket: Socket,
+    callback?: SignalingAck
+  ): Promise<void> {
+    const member = this.requireRole(socket, 'co_host', callback);
+    if (!member) return;
+
+    try {
+      const assignments = await this.videoService.autoAssignBreakoutRooms(
+        member.roomId,
+        this.getAssignableParticipants(member.roomCode)
+      );
+
+      this.notifyAssignments(member.roomCode, assignments);
+      this.reply(callback, {
+        success: true,
+        assignments: this.describeAssignments(member.roomCode, assignments),
+      });
+    } catch (error) {
+      this.reply(callback, {
+        success: false,
+        error: failureMessage(error, 'Failed to assign breakout rooms'),
+      });
+    }
+  }
+
+  /**
+   * Send everyone to their assigned breakout room. If the rooms have a
+   * duration, everyone comes back to the main room when it runs out.
+   */
+  private async handleOpenBreakoutRooms(
+    socket: Socket,
+    callback?: SignalingAck
+  ): Promise<void> {
+    const member = this.requireRole(socket, 'co_host', callback);
+    if (!member) return;
+
+    try {
+      const rooms = await this.videoService.openBreakoutRooms(member.roomId);
+      if (rooms.length === 0) {
+        return this.reply(callback, {
+          success: false,
+          error: 'No breakout rooms to open',
+        });
+      }
+
+      const assignments = await this.videoService.getBreakoutAssignments(
+        member.roomId
+      );
+
+      for (const assignment of assignments) {
+        const target = this.findMember(
+          member.roomCode,
+          other => other.participantId === assignment.participantId,
+          true
+        );
+        const targetSocket = target && this.io.sockets.sockets.get(target[0]);
+        if (!targetSocket) continue;
+
+        targetSocket.emit(
+          'moved-to-breakout-room',
+          this.moveToChannel(targetSocket, target[1], assignment.breakoutRoomId)
+        );
+        await this.videoService.markBreakoutRoomJoined(
+          assignment.breakoutRoomId,
+          assignment.participantId
+        );
+      }
+
+      const [{ durationMinutes, startedAt }] = rooms;
+      const endsAt = durationMinutes
+        ? new Date(
+            new Date(startedAt || Date.now()).getTime() +
+              durationMinutes * 60000
+          )
+        : null;
+
+      if (endsAt && !this.breakoutTimers.has(member.roomCode)) {
+        const { roomCode, roomId } = member;
+        const timer = setTimeout(
+          () => {
+            this.closeBreakoutRooms(roomCode, roomId).catch(error =>
+              logger.error('Error closing breakout rooms', error)
+            );
+          },
+          Math.max(endsAt.getTime() - Date.now(), 0)
+        );
+        timer.unref();
+        this.breakoutTimers.set(roomCode, timer);
+      }
+
+      this.io
+        .to(member.roomCode)
+        .emit('breakout-rooms-opened', { rooms, endsAt });
+      this.reply(callback, { success: true, rooms, endsAt });
+    } catch (error) {
+      logger.error(
+        'Error opening breakout rooms',
+        error instanceof Error ? error : undefined
+      );
+      this.reply(callback, {
+        success: false,
+        error: failureMessage(error, 'Failed to open breakout rooms'),
+      });
+    }
+  }
+
+  /**
+   * Go into an open breakout room. Hosts and co-hosts can visit any of
+   * them, everyone else only the one they were assigned to.
+   */
+  private async handleJoinBreakoutRoom(
+    socket: Socket,
+    breakoutRoomId: string,
+    callback?: SignalingAck
+  ): Promise<void> {
+    const member = this.getAdmittedMember(socket);
+    if (!member) {
+      return this.reply(callback, {
+        success: false,
+        error: 'Not in a room',
       });
+    }
 
-      // Force disconnect
-      const targetSocketObj = this.io.sockets.sockets.get(targetSocket);
-      if (targetSocketObj) {
-        targetSocketObj.disconnect(true);
+    try {
+      const rooms = await this.videoService.getBreakoutRooms(member.roomId);
+      const room = rooms.find(candidate => candidate.id === breakoutRoomId);
+      if (!room || !room.startedAt) {
+        return this.reply(callback, {
+          success: false,
+          error: 'Breakout room not found',
+        });
+      }
+
+      if (!this.isModerator(member)) {
+        const assignments = await this.videoService.getBreakoutAssignments(
+          member.roomId
+        );
+        const assigned = assignments.some(
+          assignment =>
+            assignment.participantId === member.participantId &&
+            assignment.breakoutRoomId === breakoutRoomId
+        );
+        if (!assigned) {
+          return this.reply(callback, {
+            success: false,
+            error: 'You are not assigned to that breakout room',
+          });
+        }
       }
+
+      const moved = this.moveToChannel(socket, member, breakoutRoomId);
+      await this.videoService.markBreakoutRoomJoined(
+        breakoutRoomId,
+        member.participantId
+      );
+      this.reply(callback, { success: true, ...moved });
+    } catch (error) {
+      logger.error(
+        'Error joining breakout room',
+        error instanceof Error ? error : undefined
+      );
+      this.reply(callback, {
+        success: false,
+        error: failureMessage(error, 'Failed to join breakout room'),
+      });
+    }
+  }
+
+  private async handleCloseBreakoutRooms(
+    socket: Socket,
+    callback?: SignalingAck
+  ): Promise<void> {
+    const member = this.requireRole(socket, 'co_host', callback);
+    if (!member) return;
+
+    try {
+      await this.closeBreakoutRooms(member.roomCode, member.roomId);
+      this.reply(callback, { success: true });
+    } catch (error) {
+      logger.error(
+        'Error closing breakout rooms',
+        error instanceof Error ? error : undefined
+      );
+      this.reply(callback, {
+        success: false,
+        error: failureMessage(error, 'Failed to close breakout rooms'),
+      });
     }
   }
 
-  private handleMuteParticipant(socket: Socket, targetPeerId: string): void {
-    const targetSocket = this.findSocketByPeerId(targetPeerId);
-    if (targetSocket) {
-      this.io.to(targetSocket).emit('force-mute', {
-        reason: 'Muted by host',
+  /**
+   * Close the breakout rooms and bring everyone back to the main room
+   */
+  private async closeBreakoutRooms(
+    roomCode: string,
+    roomId: string
+  ): Promise<void> {
+    clearTimeout(this.breakoutTimers.get(roomCode));
+    this.breakoutTimers.delete(roomCode);
+
+    await this.videoService.closeBreakoutRooms(roomId);
+
+    for (const socketId of this.rooms.get(roomCode) || []) {
+      const socket = this.io.sockets.sockets.get(socketId);
+      const member = this.members.get(socketId);
+      if (socket && member?.breakoutRoomId) {
+        socket.emit(
+          'returned-to-main-room',
+          this.moveToChannel(socket, member, null)
+        );
+      }
+    }
+
+    this.io.to(roomCode).emit('breakout-rooms-closed');
+  }
+
+  /**
+   * Move an admitted member between the main room and a breakout room,
+   * telling both sides. Returns who is already in the new one.
+   */
+  private moveToChannel(
+    socket: Socket,
+    member: RoomMember,
+    breakoutRoomId: string | null
+  ) {
+    const previous = channelRoom(member.roomCode, member.breakoutRoomId);
+    const next = channelRoom(member.roomCode, breakoutRoomId);
+
+    if (socket.rooms.has(previous) && previous !== next) {
+      socket.to(previous).emit('participant-left', {
+        socketId: socket.id,
+        peerId: member.peerId,
+      });
+      socket.leave(previous);
+    }
+
+    member.breakoutRoomId = breakoutRoomId;
+
+    const participants = Array.from(this.rooms.get(member.roomCode) || [])
+      .filter(
+        id =>
+          id !== socket.id &&
+          this.members.get(id)?.breakoutRoomId === breakoutRoomId
+      )
+      .map(id => ({ socketId: id, ...this.describe(this.members.get(id)!) }));
+
+    if (!socket.rooms.has(next)) {
+      socket.to(next).emit('participant-joined', {
+        socketId: socket.id,
+        ...this.describe(member),
       });
+      socket.join(next);
     }
+
+    return { breakoutRoomId, participants };
   }
 
-  private handleJoinBreakoutRoom(socket: Socket, data: any): void {
-    const { breakoutRoomId } = data;
-    const mainRoomCode = this.socketToRoom.get(socket.id);
+  // Everyone in the main room who can be sent to a breakout room
+  private getAssignableParticipants(roomCode: string): string[] {
+    return Array.from(this.rooms.get(roomCode) || [])
+      .map(socketId => this.members.get(socketId)!)
+      .filter(member => !this.isModerator(member) && !member.breakoutRoomId)
+      .map(member => member.participantId);
+  }
+
+  private notifyAssignments(
+    roomCode: string,
+    assignments: BreakoutRoomAssignment[]
+  ): void {
+    for (const assignment of assignments) {
+      const target = this.findMember(
+        roomCode,
+        member => member.participantId === assignment.participantId,
+        true
+      );
+      if (target) {
+        this.io.to(target[0]).emit('breakout-room-assigned', {
+          breakoutRoomId: assignment.breakoutRoomId,
+        });
+      }
+    }
+
+    this.io
+      .to(moderatorsRoom(roomCode))
+      .emit(
+        'breakout-assignments-changed',
+        this.describeAssignments(roomCode, assignments)
+      );
+  }
 
-    if (mainRoomCode) {
-      // Leave main room temporarily
-      socket.leave(mainRoomCode);
+  // Assignments keyed by peer id, which is what clients know people by
+  private describeAssignments(
+    roomCode: string,
+    assignments: BreakoutRoomAssignment[]
+  ) {
+    return assignments.map(assignment => ({
+      breakoutRoomId: assignment.breakoutRoomId,
+      peerId: this.findMember(
+        roomCode,
+        member => member.participantId === assignment.participantId
+      )?.[1].peerId,
+    }));
+  }
 
-      // Join breakout room
-      const breakoutRoomCode = `${mainRoomCode}-breakout-${breakoutRoomId}`;
-      socket.join(breakoutRoomCode);
+  /**
+   * The socket's membership if it is in a call and holds at least the given
+   * role, otherwise an error is sent back
+   */
+  private requireRole(
+    socket: Socket,
+    role: ParticipantRole,
+    callback?: SignalingAck
+  ): RoomMember | null {
+    const member = this.getAdmittedMember(socket);
 
-      // Notify
-      socket.emit('joined-breakout-room', { breakoutRoomId });
+    if (!member || ROLE_RANK[member.role] < ROLE_RANK[role]) {
+      this.reply(callback, {
+        success: false,
+        error: role === 'host' ? HOST_ONLY_ERROR : MODERATOR_ONLY_ERROR,
+      });
+      return null;
     }
+
+    return member;
+  }
+
+  private isModerator(member: RoomMember): boolean {
+    return ROLE_RANK[member.role] >= ROLE_RANK.co_host;
   }
 
-  private findSocketByPeerId(peerId: string): string | undefined {
-    for (const [socketId, pId] of this.socketToPeer.entries()) {
-      if (pId === peerId) {
-        return socketId;
+  private getAdmittedMember(socket: Socket): RoomMember | undefined {
+    const member = this.members.get(socket.id);
+    if (member && this.rooms.get(member.roomCode)?.has(socket.id)) {
+      return member;
+    }
+    return undefined;
+  }
+
+  private findMember(
+    roomCode: string,
+    predicate: (member: RoomMember) => boolean,
+    admittedOnly = false
+  ): [string, RoomMember] | undefined {
+    for (const [socketId, member] of this.members.entries()) {
+      if (
+        member.roomCode === roomCode &&
+        predicate(member) &&
+        (!admittedOnly || this.rooms.get(roomCode)?.has(socketId))
+      ) {
+        return [socketId, member];
       }
     }
     return undefined;
   }
 
-  private generatePeerId(): string {
-    return `peer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // A member of the moderator's room with a lower role than theirs
+  private findOutrankedMember(
+    moderator: RoomMember,
+    peerId: string,
+    admittedOnly = false
+  ): [string, RoomMember] | undefined {
+    return this.findMember(
+      moderator.roomCode,
+      member =>
+        member.peerId === peerId &&
+        ROLE_RANK[member.role] < ROLE_RANK[moderator.role],
+      admittedOnly
+    );
+  }
+
+  private findWaitingMember(
+    roomCode: string,
+    peerId: string
+  ): [string, RoomMember] | undefined {
+    const socketId = Array.from(this.waiting.get(roomCode) || []).find(
+      id => this.members.get(id)?.peerId === peerId
+    );
+    return socketId ? [socketId, this.members.get(socketId)!] : undefined;
+  }
+
+  private getWaitingList(roomCode: string) {
+    return Array.from(this.waiting.get(roomCode) || []).map(socketId =>
+      this.describe(this.members.get(socketId)!)
+    );
+  }
+
+  private describe(member: RoomMember) {
+    return {
+      peerId: member.peerId,
+      displayName: member.displayName,
+      role: member.role,
+      userId: member.userId,
+    };
+  }
+
+  private disconnectMember(socketId: string): void {
+    const socket = this.io.sockets.sockets.get(socketId);
+    if (socket) {
+      this.handleLeaveRoom(socket);
+      socket.disconnect();
+    }
+  }
+
+  private reply(callback: SignalingAck | undefined, response: any): void {
+    if (typeof callback === 'function') {
+      callback(response);
+    }
   }
 
   /**
@@ -312,10 +1485,20 @@ export class SignalingService {
     return this.rooms;
   }
 
+  /**
+   * Underlying socket.io server, for other real-time channels to add their
+   * namespaces to
+   */
+  getServer(): SocketIOServer {
+    return this.io;
+  }
+
   /**
    * Close signaling server
    */
   close(): void {
+    this.pollTimers.forEach(timer => clearTimeout(timer));
+    this.breakoutTimers.forEach(timer => clearTimeout(timer));
     this.io.close();
   }
 }
@@ -324,7 +1507,8 @@ export class SignalingService {
  * Create signaling server instance
  */
 export function createSignalingServer(
-  httpServer: HTTPServer
+  httpServer: HTTPServer,
+  videoService: VideoConferencingService
 ): SignalingService {
-  return new SignalingService(httpServer);
+  return new SignalingService(httpServer, videoService);
 }
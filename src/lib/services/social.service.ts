@@ -1,8 +1,40 @@
 import { PrismaClient } from '@prisma/client';
+import { promises as fs } from 'fs';
+import path from 'path';
 import type { ApiResponse, PaginatedResponse } from '../../types';
+import {
+  getAttachmentError,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_MESSAGE_LENGTH,
+  matchesFileSignature,
+  sanitizeFileName,
+} from '../direct-messages';
+import { AuditLogger } from '../security/audit-logging';
+import { moderationService } from './moderation.service';
 
 const prisma = new PrismaClient();
 
+// Per-user upload directories, removed with the user's data on deletion
+const UPLOADS_DIR = path.join(process.cwd(), 'uploads');
+
+const MESSAGE_INCLUDE = {
+  sender: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  receiver: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  attachments: {
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
 export interface PublicUserProfile {
   id: string;
   name: string;
@@ -70,6 +102,20 @@ export interface TeamData {
   createdAt: Date;
 }
 
+export interface BlockedUser {
+  id: string;
+  name: string;
+  blockedAt: Date;
+}
+
+export interface DirectMessageAttachmentData {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  url: string;
+}
+
 export interface DirectMessageData {
   id: string;
   sender: {
@@ -80,11 +126,45 @@ export interface DirectMessageData {
     id: string;
     name: string;
   };
-  content: string;
+  content: string; // Empty once deleted
+  attachments: DirectMessageAttachmentData[];
   isRead: boolean;
+  readAt?: Date;
+  editedAt?: Date;
+  deletedAt?: Date;
   createdAt: Date;
 }
 
+export interface ConversationSummary {
+  user: {
+    id: string;
+    name: string;
+  };
+  lastMessage: {
+    id: string;
+    senderId: string;
+    content: string;
+    hasAttachments: boolean;
+    deletedAt?: Date;
+    createdAt: Date;
+  };
+  unreadCount: number;
+}
+
+export interface ReadReceipt {
+  readerId: string;
+  senderId: string;
+  messageIds: string[];
+  readAt: Date;
+}
+
+export interface StoredAttachment {
+  fileName: string;
+  mimeType: string;
+  size: number;
+  path: string;
+}
+
 export class SocialService {
   /**
    * Get public user profile
@@ -168,6 +248,13 @@ export class SocialService {
         };
       }
 
+      if (await this.isBlockedBetween(followerId, followingId)) {
+        return {
+          success: false,
+          error: 'You cannot follow this user',
+        };
+      }
+
       await prisma.userFollow.create({
         data: {
           followerId,
@@ -365,6 +452,138 @@ export class SocialService {
     }
   }
 
+  /**
+   * Block a user. Blocking ends follows in both directions; afterwards
+   * neither can follow or message the other, or see the other's activity.
+   */
+  async blockUser(
+    blockerId: string,
+    blockedId: string
+  ): Promise<ApiResponse<null>> {
+    try {
+      if (blockerId === blockedId) {
+        return {
+          success: false,
+          error: 'Cannot block yourself',
+        };
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: blockedId },
+        select: { id: true },
+      });
+
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      await prisma.userBlock.upsert({
+        where: { blockerId_blockedId: { blockerId, blockedId } },
+        create: { blockerId, blockedId },
+        update: {},
+      });
+
+      await prisma.userFollow.deleteMany({
+        where: {
+          OR: [
+            { followerId: blockerId, followingId: blockedId },
+            { followerId: blockedId, followingId: blockerId },
+          ],
+        },
+      });
+
+      await AuditLogger.logModerationEvent(
+        AuditLogger.EVENT_TYPES.USER_BLOCKED,
+        `user:${blockedId}`,
+        {},
+        blockerId
+      );
+
+      return {
+        success: true,
+        message: 'User blocked successfully',
+      };
+    } catch (error) {
+      console.error('Block user error:', error);
+      return {
+        success: false,
+        error: 'Failed to block user',
+      };
+    }
+  }
+
+  /**
+   * Unblock a user
+   */
+  async unblockUser(
+    blockerId: string,
+    blockedId: string
+  ): Promise<ApiResponse<null>> {
+    try {
+      const { count } = await prisma.userBlock.deleteMany({
+        where: { blockerId, blockedId },
+      });
+
+      if (count > 0) {
+        await AuditLogger.logModerationEvent(
+          AuditLogger.EVENT_TYPES.USER_UNBLOCKED,
+          `user:${blockedId}`,
+          {},
+          blockerId
+        );
+      }
+
+      return {
+        success: true,
+        message: 'User unblocked successfully',
+      };
+    } catch (error) {
+      console.error('Unblock user error:', error);
+      return {
+        success: false,
+        error: 'Failed to unblock user',
+      };
+    }
+  }
+
+  /**
+   * Get the users a user has blocked, most recent first
+   */
+  async getBlockedUsers(userId: string): Promise<ApiResponse<BlockedUser[]>> {
+    try {
+      const blocks = await prisma.userBlock.findMany({
+        where: { blockerId: userId },
+        orderBy: { createdAt: 'desc' },
+        include: {
+          blocked: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      });
+
+      return {
+        success: true,
+        data: blocks.map((block: any) => ({
+          id: block.blocked.id,
+          name: block.blocked.name,
+          blockedAt: block.createdAt,
+        })),
+      };
+    } catch (error) {
+      console.error('Get blocked users error:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve blocked users',
+      };
+    }
+  }
+
   /**
    * Get activity feed for a user (from people they follow)
    */
@@ -384,11 +603,16 @@ export class SocialService {
 
       const followingIds = following.map(f => f.followingId);
 
+      // Nothing by or about users on either side of a block
+      const blockedIds = await this.getBlockedUserIds(userId);
+      const where = {
+        userId: { in: followingIds, notIn: blockedIds },
+        entityId: { notIn: blockedIds },
+      };
+
       const [activities, total] = await Promise.all([
         prisma.activityFeed.findMany({
-          where: {
-            userId: { in: followingIds },
-          },
+          where,
           skip,
           take: limit,
           orderBy: { createdAt: 'desc' },
@@ -401,11 +625,7 @@ export class SocialService {
             },
           },
         }),
-        prisma.activityFeed.count({
-          where: {
-            userId: { in: followingIds },
-          },
-        }),
+        prisma.activityFeed.count({ where }),
       ]);
 
       const feedItems: ActivityFeedItem[] = activities.map(a => ({
@@ -559,6 +779,18 @@ export class SocialService {
     content: string
   ): Promise<ApiResponse<DiscussionThread>> {
     try {
+      const screening = await moderationService.screenContent(
+        userId,
+        'discussion',
+        `${title}\n${content}`
+      );
+      if (screening.action === 'block') {
+        return {
+          success: false,
+          error: screening.error,
+        };
+      }
+
       const discussion = await prisma.discussion.create({
         data: {
           opportunityId,
@@ -576,6 +808,15 @@ export class SocialService {
         },
       });
 
+      if (screening.action === 'flag') {
+        await moderationService.flagContent(
+          'discussion',
+          discussion.id,
+          userId,
+          screening
+        );
+      }
+
       return {
         success: true,
         data: {
@@ -672,6 +913,18 @@ export class SocialService {
     parentId?: string
   ): Promise<ApiResponse<CommentData>> {
     try {
+      const screening = await moderationService.screenContent(
+        userId,
+        'comment',
+        content
+      );
+      if (screening.action === 'block') {
+        return {
+          success: false,
+          error: screening.error,
+        };
+      }
+
       const comment = await prisma.comment.create({
         data: {
           discussionId,
@@ -689,6 +942,15 @@ export class SocialService {
         },
       });
 
+      if (screening.action === 'flag') {
+        await moderationService.flagContent(
+          'comment',
+          comment.id,
+          userId,
+          screening
+        );
+      }
+
       return {
         success: true,
         data: {
@@ -721,6 +983,18 @@ export class SocialService {
     isPublic = true
   ): Promise<ApiResponse<TeamData>> {
     try {
+      const screening = await moderationService.screenContent(
+        creatorId,
+        'team',
+        [name, description].filter(Boolean).join('\n')
+      );
+      if (screening.action === 'block') {
+        return {
+          success: false,
+          error: screening.error,
+        };
+      }
+
       const team = await prisma.team.create({
         data: {
           name,
@@ -750,6 +1024,15 @@ export class SocialService {
         },
       });
 
+      if (screening.action === 'flag') {
+        await moderationService.flagContent(
+          'team',
+          team.id,
+          creatorId,
+          screening
+        );
+      }
+
       // Create activity
       await this.createActivity(creatorId, 'joined_team', team.id, 'team', {
         action: 'created',
@@ -928,46 +1211,101 @@ export class SocialService {
   }
 
   /**
-   * Send a direct message
+   * Send a direct message, with files the sender uploaded beforehand
    */
   async sendDirectMessage(
     senderId: string,
     receiverId: string,
-    content: string
+    content: string,
+    attachmentIds: string[] = []
   ): Promise<ApiResponse<DirectMessageData>> {
     try {
+      if (senderId === receiverId) {
+        return {
+          success: false,
+          error: 'Cannot message yourself',
+        };
+      }
+
+      const text = content.trim();
+      if (!text && attachmentIds.length === 0) {
+        return {
+          success: false,
+          error: 'Message is empty',
+        };
+      }
+
+      if (text.length > MAX_MESSAGE_LENGTH) {
+        return {
+          success: false,
+          error: 'Message is too long',
+        };
+      }
+
+      const ids = [...new Set(attachmentIds)];
+      if (ids.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+        return {
+          success: false,
+          error: `A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`,
+        };
+      }
+
+      if (await this.isBlockedBetween(senderId, receiverId)) {
+        return {
+          success: false,
+          error: 'You cannot message this user',
+        };
+      }
+
+      const screening = await moderationService.screenContent(
+        senderId,
+        'direct_message',
+        text
+      );
+      if (screening.action === 'block') {
+        return {
+          success: false,
+          error: screening.error,
+        };
+      }
+
+      if (ids.length > 0) {
+        // Only the sender's own uploads that are not already sent
+        const available = await prisma.directMessageAttachment.count({
+          where: { id: { in: ids }, uploaderId: senderId, messageId: null },
+        });
+        if (available !== ids.length) {
+          return {
+            success: false,
+            error: 'Attachment not found',
+          };
+        }
+      }
+
       const message = await prisma.directMessage.create({
         data: {
           senderId,
           receiverId,
-          content,
-        },
-        include: {
-          sender: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-          receiver: {
-            select: {
-              id: true,
-              name: true,
-            },
+          content: text,
+          attachments: {
+            connect: ids.map(id => ({ id })),
           },
         },
+        include: MESSAGE_INCLUDE,
       });
 
+      if (screening.action === 'flag') {
+        await moderationService.flagContent(
+          'direct_message',
+          message.id,
+          senderId,
+          screening
+        );
+      }
+
       return {
         success: true,
-        data: {
-          id: message.id,
-          sender: message.sender,
-          receiver: message.receiver,
-          content: message.content,
-          isRead: message.isRead,
-          createdAt: message.createdAt,
-        },
+        data: this.toDirectMessageData(message),
       };
     } catch (error) {
       console.error('Send direct message error:', error);
@@ -979,7 +1317,7 @@ export class SocialService {
   }
 
   /**
-   * Get direct messages between two users
+   * Get direct messages between two users, newest first
    */
   async getDirectMessages(
     userId: string,
@@ -990,62 +1328,29 @@ export class SocialService {
     try {
       const skip = (page - 1) * limit;
 
+      // Messages a moderator hid stay visible to their sender only
+      const where = {
+        OR: [
+          { senderId: userId, receiverId: otherUserId },
+          { senderId: otherUserId, receiverId: userId },
+        ],
+        NOT: { receiverId: userId, hiddenAt: { not: null } },
+      };
+
       const [messages, total] = await Promise.all([
         prisma.directMessage.findMany({
-          where: {
-            OR: [
-              { senderId: userId, receiverId: otherUserId },
-              { senderId: otherUserId, receiverId: userId },
-            ],
-          },
+          where,
           skip,
           take: limit,
           orderBy: { createdAt: 'desc' },
-          include: {
-            sender: {
-              select: {
-                id: true,
-                name: true,
-              },
-            },
-            receiver: {
-              select: {
-                id: true,
-                name: true,
-              },
-            },
-          },
-        }),
-        prisma.directMessage.count({
-          where: {
-            OR: [
-              { senderId: userId, receiverId: otherUserId },
-              { senderId: otherUserId, receiverId: userId },
-            ],
-          },
+          include: MESSAGE_INCLUDE,
         }),
+        prisma.directMessage.count({ where }),
       ]);
 
-      // Mark messages as read
-      await prisma.directMessage.updateMany({
-        where: {
-          senderId: otherUserId,
-          receiverId: userId,
-          isRead: false,
-        },
-        data: {
-          isRead: true,
-        },
-      });
-
-      const messageData: DirectMessageData[] = messages.map(m => ({
-        id: m.id,
-        sender: m.sender,
-        receiver: m.receiver,
-        content: m.content,
-        isRead: m.isRead,
-        createdAt: m.createdAt,
-      }));
+      const messageData: DirectMessageData[] = messages.map((m: any) =>
+        this.toDirectMessageData(m)
+      );
 
       return {
         success: true,
@@ -1070,6 +1375,452 @@ export class SocialService {
     }
   }
 
+  /**
+   * Everyone the user has exchanged messages with, most recent first, with
+   * the last message and how many of theirs the user has not read
+   */
+  async getConversations(
+    userId: string
+  ): Promise<ApiResponse<ConversationSummary[]>> {
+    try {
+      const rows: any[] = await prisma.$queryRaw`
+        SELECT DISTINCT ON (c.partner_id)
+          c.partner_id,
+          u.name AS partner_name,
+          c.id,
+          c.sender_id,
+          c.content,
+          c.deleted_at,
+          c.created_at,
+          EXISTS (
+            SELECT 1 FROM direct_message_attachments a WHERE a.message_id = c.id
+          ) AS has_attachments,
+          (
+            SELECT COUNT(*)::int
+            FROM direct_messages r
+            WHERE r.sender_id = c.partner_id
+              AND r.receiver_id = ${userId}::uuid
+              AND r.is_read = false
+              AND r.deleted_at IS NULL
+              AND r.hidden_at IS NULL
+          ) AS unread_count
+        FROM (
+          SELECT m.*,
+            CASE WHEN m.sender_id = ${userId}::uuid
+              THEN m.receiver_id ELSE m.sender_id END AS partner_id
+          FROM direct_messages m
+          WHERE m.sender_id = ${userId}::uuid
+            OR (m.receiver_id = ${userId}::uuid AND m.hidden_at IS NULL)
+        ) c
+        JOIN users u ON u.id = c.partner_id
+        ORDER BY c.partner_id, c.created_at DESC
+      `;
+
+      const conversations: ConversationSummary[] = rows
+        .map(row => ({
+          user: {
+            id: row.partner_id,
+            name: row.partner_name,
+          },
+          lastMessage: {
+            id: row.id,
+            senderId: row.sender_id,
+            content: row.deleted_at ? '' : row.content,
+            hasAttachments: Boolean(row.has_attachments) && !row.deleted_at,
+            deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
+            createdAt: new Date(row.created_at),
+          },
+          unreadCount: Number(row.unread_count),
+        }))
+        .sort(
+          (a, b) =>
+            b.lastMessage.createdAt.getTime() -
+            a.lastMessage.createdAt.getTime()
+        );
+
+      return {
+        success: true,
+        data: conversations,
+      };
+    } catch (error) {
+      console.error('Get conversations error:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve conversations',
+      };
+    }
+  }
+
+  /**
+   * Mark every unread message from another user as read. The receipt lists
+   * the messages that were newly read, so it is empty if there were none.
+   */
+  async markMessagesRead(
+    userId: string,
+    otherUserId: string
+  ): Promise<ApiResponse<ReadReceipt>> {
+    try {
+      const unread = await prisma.directMessage.findMany({
+        where: {
+          senderId: otherUserId,
+          receiverId: userId,
+          isRead: false,
+        },
+        select: { id: true },
+      });
+
+      const readAt = new Date();
+      const messageIds = unread.map((message: { id: string }) => message.id);
+
+      if (messageIds.length > 0) {
+        await prisma.directMessage.updateMany({
+          where: { id: { in: messageIds }, isRead: false },
+          data: { isRead: true, readAt },
+        });
+      }
+
+      return {
+        success: true,
+        data: {
+          readerId: userId,
+          senderId: otherUserId,
+          messageIds,
+          readAt,
+        },
+      };
+    } catch (error) {
+      console.error('Mark messages read error:', error);
+      return {
+        success: false,
+        error: 'Failed to mark messages as read',
+      };
+    }
+  }
+
+  /**
+   * Change the text of a message. Only its sender may, until it is deleted.
+   */
+  async editDirectMessage(
+    messageId: string,
+    userId: string,
+    content: string
+  ): Promise<ApiResponse<DirectMessageData>> {
+    try {
+      const message = await prisma.directMessage.findUnique({
+        where: { id: messageId },
+        include: { attachments: { select: { id: true } } },
+      });
+
+      if (!message || message.deletedAt) {
+        return {
+          success: false,
+          error: 'Message not found',
+        };
+      }
+
+      if (message.senderId !== userId) {
+        return {
+          success: false,
+          error: 'Only the sender can edit this message',
+        };
+      }
+
+      const text = content.trim();
+      if (!text && message.attachments.length === 0) {
+        return {
+          success: false,
+          error: 'Message is empty',
+        };
+      }
+
+      if (text.length > MAX_MESSAGE_LENGTH) {
+        return {
+          success: false,
+          error: 'Message is too long',
+        };
+      }
+
+      const screening = await moderationService.screenContent(
+        userId,
+        'direct_message',
+        text
+      );
+      if (screening.action === 'block') {
+        return {
+          success: false,
+          error: screening.error,
+        };
+      }
+
+      const updated = await prisma.directMessage.update({
+        where: { id: messageId },
+        data: { content: text, editedAt: new Date() },
+        include: MESSAGE_INCLUDE,
+      });
+
+      if (screening.action === 'flag') {
+        await moderationService.flagContent(
+          'direct_message',
+          messageId,
+          userId,
+          screening
+        );
+      }
+
+      return {
+        success: true,
+        data: this.toDirectMessageData(updated),
+      };
+    } catch (error) {
+      console.error('Edit direct message error:', error);
+      return {
+        success: false,
+        error: 'Failed to edit message',
+      };
+    }
+  }
+
+  /**
+   * Delete a message for both users. The row stays, without its text or
+   * files, so the conversation shows where it was.
+   */
+  async deleteDirectMessage(
+    messageId: string,
+    userId: string
+  ): Promise<ApiResponse<DirectMessageData>> {
+    try {
+      const message = await prisma.directMessage.findUnique({
+        where: { id: messageId },
+        include: { attachments: true },
+      });
+
+      if (!message || message.deletedAt) {
+        return {
+          success: false,
+          error: 'Message not found',
+        };
+      }
+
+      if (message.senderId !== userId) {
+        return {
+          success: false,
+          error: 'Only the sender can delete this message',
+        };
+      }
+
+      const deleted = await prisma.directMessage.update({
+        where: { id: messageId },
+        data: {
+          content: '',
+          deletedAt: new Date(),
+          attachments: { deleteMany: {} },
+        },
+        include: MESSAGE_INCLUDE,
+      });
+
+      await Promise.all(
+        message.attachments.map((attachment: any) =>
+          this.removeAttachmentFile(attachment)
+        )
+      );
+
+      return {
+        success: true,
+        data: this.toDirectMessageData(deleted),
+      };
+    } catch (error) {
+      console.error('Delete direct message error:', error);
+      return {
+        success: false,
+        error: 'Failed to delete message',
+      };
+    }
+  }
+
+  /**
+   * Store a file to attach to a message the user is about to send
+   */
+  async uploadMessageAttachment(
+    userId: string,
+    fileName: string,
+    mimeType: string,
+    content: Buffer
+  ): Promise<ApiResponse<DirectMessageAttachmentData>> {
+    try {
+      const name = sanitizeFileName(fileName);
+      const invalid =
+        getAttachmentError({
+          fileName: name,
+          mimeType,
+          size: content.length,
+        }) ||
+        (matchesFileSignature(mimeType, content)
+          ? null
+          : 'File content does not match its type');
+
+      if (invalid) {
+        return {
+          success: false,
+          error: invalid,
+        };
+      }
+
+      const attachment = await prisma.directMessageAttachment.create({
+        data: {
+          uploaderId: userId,
+          fileName: name,
+          mimeType,
+          size: content.length,
+        },
+      });
+
+      try {
+        await fs.mkdir(path.join(UPLOADS_DIR, userId), { recursive: true });
+        await fs.writeFile(this.attachmentPath(attachment), content);
+      } catch (error) {
+        await prisma.directMessageAttachment.delete({
+          where: { id: attachment.id },
+        });
+        throw error;
+      }
+
+      return {
+        success: true,
+        data: this.toAttachmentData(attachment),
+      };
+    } catch (error) {
+      console.error('Upload message attachment error:', error);
+      return {
+        success: false,
+        error: 'Failed to upload attachment',
+      };
+    }
+  }
+
+  /**
+   * An attachment's stored file, for its uploader or the user its message
+   * was sent to
+   */
+  async getMessageAttachment(
+    attachmentId: string,
+    userId: string
+  ): Promise<ApiResponse<StoredAttachment>> {
+    try {
+      const attachment = await prisma.directMessageAttachment.findUnique({
+        where: { id: attachmentId },
+        include: { message: { select: { receiverId: true } } },
+      });
+
+      const canRead =
+        attachment &&
+        (attachment.uploaderId === userId ||
+          attachment.message?.receiverId === userId);
+
+      if (!canRead) {
+        return {
+          success: false,
+          error: 'Attachment not found',
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          fileName: attachment.fileName,
+          mimeType: attachment.mimeType,
+          size: attachment.size,
+          path: this.attachmentPath(attachment),
+        },
+      };
+    } catch (error) {
+      console.error('Get message attachment error:', error);
+      return {
+        success: false,
+        error: 'Failed to retrieve attachment',
+      };
+    }
+  }
+
+  /**
+   * Whether either user has blocked the other
+   */
+  private async isBlockedBetween(userId: string, otherUserId: string) {
+    const block = await prisma.userBlock.findFirst({
+      where: {
+        OR: [
+          { blockerId: userId, blockedId: otherUserId },
+          { blockerId: otherUserId, blockedId: userId },
+        ],
+      },
+      select: { id: true },
+    });
+
+    return !!block;
+  }
+
+  /**
+   * Everyone the user has blocked or been blocked by
+   */
+  private async getBlockedUserIds(userId: string): Promise<string[]> {
+    const blocks = await prisma.userBlock.findMany({
+      where: {
+        OR: [{ blockerId: userId }, { blockedId: userId }],
+      },
+      select: { blockerId: true, blockedId: true },
+    });
+
+    return blocks.map((block: { blockerId: string; blockedId: string }) =>
+      block.blockerId === userId ? block.blockedId : block.blockerId
+    );
+  }
+
+  private attachmentPath(attachment: { id: string; uploaderId: string }) {
+    return path.join(UPLOADS_DIR, attachment.uploaderId, attachment.id);
+  }
+
+  private async removeAttachmentFile(attachment: {
+    id: string;
+    uploaderId: string;
+  }): Promise<void> {
+    try {
+      await fs.unlink(this.attachmentPath(attachment));
+    } catch (error) {
+      // Already gone, which is fine
+      if ((error as any).code !== 'ENOENT') {
+        console.error('Remove attachment file error:', error);
+      }
+    }
+  }
+
+  private toAttachmentData(attachment: any): DirectMessageAttachmentData {
+    return {
+      id: attachment.id,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      url: `/api/v1/social/messages/attachments/${attachment.id}`,
+    };
+  }
+
+  private toDirectMessageData(message: any): DirectMessageData {
+    return {
+      id: message.id,
+      sender: message.sender,
+      receiver: message.receiver,
+      content: message.deletedAt ? '' : message.content,
+      attachments: message.deletedAt
+        ? []
+        : (message.attachments || []).map((attachment: any) =>
+            this.toAttachmentData(attachment)
+          ),
+      isRead: message.isRead,
+      readAt: message.readAt || undefined,
+      editedAt: message.editedAt || undefined,
+      deletedAt: message.deletedAt || undefined,
+      createdAt: message.createdAt,
+    };
+  }
+
   /**
    * Share content with another user
    */
@@ -0,0 +1,259 @@
+// Spatial Audio Coordinator for Virtual Event Spaces
+import type {
+  AudioLink,
+  AudioPeersUpdate,
+  AudioSignal,
+} from '@/types/virtual-events';
+import type { Socket } from 'socket.io-client';
+import type { WebRTCService } from './webrtc.service';
+
+// How quickly volume and pan follow the server, in seconds. Updates come
+// ten times a second, so this glides between them.
+const SMOOTHING_SECONDS = 0.1;
+
+interface RemotePeer {
+  link: AudioLink;
+  panner: StereoPannerNode;
+  gain: GainNode;
+  source?: MediaStreamAudioSourceNode;
+  element?: HTMLAudioElement;
+  // Candidates that arrived before the peer's description
+  pendingCandidates: RTCIceCandidateInit[];
+}
+
+/**
+ * Plays the people around the user in a virtual event space.
+ *
+ * The server decides who can hear whom and sends `audio-peers` on the
+ * presence socket; this connects to and disconnects from those peers with
+ * `WebRTCService` and plays each one through its own gain and stereo panner,
+ * so voices get quieter with distance and come from where the avatar is.
+ */
+export class SpatialAudioCoordinator {
+  private context: AudioContext;
+  private peers = new Map<string, RemotePeer>();
+  private groupId: string | null = null;
+  // Updates and signals are handled one at a time, in order, once the
+  // microphone is ready
+  private queue: Promise<void>;
+  private startQueue!: () => void;
+  private closed = false;
+
+  constructor(
+    private socket: Socket,
+    private webrtc: WebRTCService,
+    private onChange?: () => void
+  ) {
+    this.context = new AudioContext();
+    this.queue = new Promise(resolve => (this.startQueue = resolve));
+
+    socket.on('audio-peers', this.handlePeers);
+    socket.on('audio-signal', this.handleSignal);
+  }
+
+  /**
+   * Ask for the microphone and start connecting. Without one the user can
+   * still listen.
+   */
+  async start(): Promise<void> {
+    try {
+      await this.webrtc.getUserMedia({
+        audio: {
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true,
+        },
+        video: false,
+      });
+      await this.context.resume();
+    } finally {
+      this.startQueue();
+    }
+  }
+
+  setMuted(muted: boolean): void {
+    this.webrtc.toggleAudio(!muted);
+  }
+
+  /**
+   * Broadcast to everyone within a radius of a booth the user owns
+   */
+  async startBroadcast(
+    boothId: string,
+    radius?: number
+  ): Promise<{ boothId: string; channelId: string; radius: number }> {
+    const response = await this.socket.emitWithAck('start-broadcast', {
+      boothId,
+      radius,
+    });
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to start broadcast');
+    }
+    return response.data;
+  }
+
+  async stopBroadcast(): Promise<void> {
+    await this.socket.emitWithAck('stop-broadcast');
+  }
+
+  getPeers(): AudioLink[] {
+    return Array.from(this.peers.values()).map(peer => peer.link);
+  }
+
+  getGroupId(): string | null {
+    return this.groupId;
+  }
+
+  /**
+   * Disconnect from every peer and release the microphone
+   */
+  close(): void {
+    this.closed = true;
+    this.socket.off('audio-peers', this.handlePeers);
+    this.socket.off('audio-signal', this.handleSignal);
+
+    Array.from(this.peers.keys()).forEach(id => this.removePeer(id));
+    this.webrtc.closeAllConnections();
+    this.context.close().catch(() => undefined);
+  }
+
+  private handlePeers = (update: AudioPeersUpdate): void => {
+    this.enqueue(() => this.applyPeers(update));
+  };
+
+  private handleSignal = (signal: AudioSignal & { from: string }): void => {
+    this.enqueue(() => this.applySignal(signal));
+  };
+
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue
+      .then(() => (this.closed ? undefined : task()))
+      .catch(error => console.error('Spatial audio error:', error));
+  }
+
+  private async applyPeers(update: AudioPeersUpdate): Promise<void> {
+    update.disconnect.forEach(id => this.removePeer(id));
+    update.update.forEach(link => {
+      const peer = this.peers.get(link.sessionId);
+      if (peer) this.setLink(peer, link);
+    });
+
+    if (update.groupId !== undefined) {
+      this.groupId = update.groupId;
+    }
+
+    for (const link of update.connect) {
+      await this.addPeer(link);
+    }
+
+    this.onChange?.();
+  }
+
+  private async addPeer(link: AudioLink): Promise<void> {
+    const id = link.sessionId;
+
+    // A peer that reconnected gets a fresh connection
+    this.removePeer(id);
+
+    const panner = this.context.createStereoPanner();
+    const gain = this.context.createGain();
+    gain.gain.value = link.gain;
+    panner.pan.value = link.pan;
+    panner.connect(gain).connect(this.context.destination);
+
+    const peer: RemotePeer = { link, panner, gain, pendingCandidates: [] };
+    this.peers.set(id, peer);
+
+    this.webrtc.createPeerConnection(
+      id,
+      candidate =>
+        this.socket.emit('audio-signal', {
+          to: id,
+          type: 'ice-candidate',
+          data: candidate.toJSON(),
+        }),
+      event => this.play(id, event.streams[0])
+    );
+
+    if (link.initiator) {
+      const offer = await this.webrtc.createOffer(id);
+      this.socket.emit('audio-signal', { to: id, type: 'offer', data: offer });
+    }
+  }
+
+  private async applySignal(
+    signal: AudioSignal & { from: string }
+  ): Promise<void> {
+    const peer = this.peers.get(signal.from);
+    if (!peer || !this.webrtc.getPeerConnection(signal.from)) return;
+
+    switch (signal.type) {
+      case 'offer': {
+        await this.webrtc.setRemoteDescription(signal.from, signal.data);
+        await this.flushCandidates(signal.from, peer);
+        const answer = await this.webrtc.createAnswer(signal.from);
+        this.socket.emit('audio-signal', {
+          to: signal.from,
+          type: 'answer',
+          data: answer,
+        });
+        break;
+      }
+      case 'answer':
+        await this.webrtc.setRemoteDescription(signal.from, signal.data);
+        await this.flushCandidates(signal.from, peer);
+        break;
+      case 'ice-candidate':
+        if (this.webrtc.getPeerConnection(signal.from)?.remoteDescription) {
+          await this.webrtc.addIceCandidate(signal.from, signal.data);
+        } else {
+          peer.pendingCandidates.push(signal.data);
+        }
+        break;
+    }
+  }
+
+  private async flushCandidates(id: string, peer: RemotePeer): Promise<void> {
+    const candidates = peer.pendingCandidates.splice(0);
+    for (const candidate of candidates) {
+      await this.webrtc.addIceCandidate(id, candidate);
+    }
+  }
+
+  private play(id: string, stream: MediaStream | undefined): void {
+    const peer = this.peers.get(id);
+    if (!peer || peer.source || !stream) return;
+
+    // Chrome only feeds a remote stream into Web Audio while a media element
+    // is playing it, so play it muted as well
+    peer.element = new Audio();
+    peer.element.muted = true;
+    peer.element.srcObject = stream;
+    peer.element.play().catch(() => undefined);
+
+    peer.source = this.context.createMediaStreamSource(stream);
+    peer.source.connect(peer.panner);
+  }
+
+  private setLink(peer: RemotePeer, link: AudioLink): void {
+    peer.link = link;
+    const now = this.context.currentTime;
+    peer.gain.gain.setTargetAtTime(link.gain, now, SMOOTHING_SECONDS);
+    peer.panner.pan.setTargetAtTime(link.pan, now, SMOOTHING_SECONDS);
+  }
+
+  private removePeer(id: string): void {
+    const peer = this.peers.get(id);
+    if (!peer) return;
+
+    peer.source?.disconnect();
+    peer.panner.disconnect();
+    peer.gain.disconnect();
+    if (peer.element) {
+      peer.element.srcObject = null;
+    }
+
+    this.webrtc.removePeerConnection(id);
+    this.peers.delete(id);
+  }
+}
@@ -0,0 +1,452 @@
+import type {
+  AudioLink,
+  AudioPeersUpdate,
+  Vector3,
+} from '@/types/virtual-events';
+import { PrismaClient } from '@prisma/client';
+import type { Namespace, Socket, Server as SocketIOServer } from 'socket.io';
+import type { ApiResponse } from '../../types';
+import type { AudioBroadcast } from '../spatial-audio';
+import { planAudio } from '../spatial-audio';
+import type {
+  PresenceParticipant,
+  VirtualEventPresenceService,
+} from './virtual-event-presence.service';
+
+const prisma = new PrismaClient();
+
+// Used until a space's proximity channel says otherwise
+const DEFAULT_HEARING_RADIUS = 12;
+
+const DEFAULT_BROADCAST_RADIUS = 30;
+const MAX_BROADCAST_RADIUS = 60;
+
+const SIGNAL_TYPES = ['offer', 'answer', 'ice-candidate'];
+
+type Ack<T = any> = (response: ApiResponse<T>) => void;
+
+interface BoothBroadcast extends AudioBroadcast {
+  boothId: string;
+  channelId: string;
+}
+
+interface AudioSpace {
+  id: string;
+  hearingRadius: number;
+  participants: PresenceParticipant[];
+  // By broadcaster session
+  broadcasts: Map<string, BoothBroadcast>;
+  // What each session was last sent, and on which socket
+  sent: Map<
+    string,
+    {
+      socketId: string;
+      links: Map<string, AudioLink>;
+      groupId: string | null;
+    }
+  >;
+}
+
+/**
+ * Spatial audio for virtual event spaces, on the `/virtual-events`
+ * namespace alongside presence.
+ *
+ * Presence reports where everyone is after each tick. From that this
+ * service works out who should hear whom and tells each client which peers
+ * to connect to and disconnect from, and how loud and where to play each
+ * one. Clients connect to each other with `WebRTCService`, relaying their
+ * offers and candidates through `audio-signal`. Booth owners can broadcast
+ * to everyone within a radius of their booth.
+ *
+ * Each space has a 'proximity' `SpatialAudioChannel` whose `maxDistance` is
+ * how far away people can be heard, and each broadcast a 'broadcast' one.
+ */
+export class SpatialAudioService {
+  private namespace?: Namespace;
+  private presence?: VirtualEventPresenceService;
+  private spaces = new Map<string, AudioSpace>();
+  private unsubscribe?: () => void;
+
+  /**
+   * Start serving spatial audio. Sockets are authenticated and join spaces
+   * through presence, so attach it first.
+   */
+  attach(io: SocketIOServer, presence: VirtualEventPresenceService): void {
+    this.presence = presence;
+    this.namespace = io.of('/virtual-events');
+    this.namespace.on('connection', socket => this.handleConnection(socket));
+    this.unsubscribe = presence.onSpaceChanged((spaceId, participants) =>
+      this.update(spaceId, participants)
+    );
+  }
+
+  /**
+   * Sessions in a space that can hear each other, one array per
+   * conversation
+   */
+  getAudioGroups(spaceId: string): string[][] {
+    const groups = new Map<string, string[]>();
+    this.spaces.get(spaceId)?.sent.forEach(({ groupId }, sessionId) => {
+      if (groupId) {
+        groups.set(groupId, [...(groups.get(groupId) || []), sessionId]);
+      }
+    });
+
+    return [...groups.values()];
+  }
+
+  /**
+   * Work out the audio for a space again after people moved
+   */
+  update(spaceId: string, participants: PresenceParticipant[]): void {
+    if (participants.length === 0) {
+      const space = this.spaces.get(spaceId);
+      space?.broadcasts.forEach((_, sessionId) =>
+        this.endBroadcast(space, sessionId)
+      );
+      this.spaces.delete(spaceId);
+      return;
+    }
+
+    const space = this.spaceFor(spaceId);
+    space.participants = participants;
+
+    // Leaving the space ends a broadcast
+    const present = new Set(participants.map(p => p.sessionId));
+    space.broadcasts.forEach((_, sessionId) => {
+      if (!present.has(sessionId)) this.endBroadcast(space, sessionId);
+    });
+
+    this.recompute(space);
+  }
+
+  /**
+   * Stop listening to presence and forget all spaces. Broadcast channels are
+   * left as they are.
+   */
+  close(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    this.namespace = undefined;
+    this.presence = undefined;
+    this.spaces.clear();
+  }
+
+  private handleConnection(socket: Socket): void {
+    socket.on('audio-signal', (data: any) => this.relaySignal(socket, data));
+
+    socket.on('start-broadcast', async (data: any, ack: Ack) => {
+      try {
+        const broadcast = await this.startBroadcast(socket, data);
+        this.reply(ack, { success: true, data: broadcast });
+      } catch (error: any) {
+        this.reply(ack, { success: false, error: error.message });
+      }
+    });
+
+    socket.on('stop-broadcast', (ack?: Ack) => {
+      this.stopBroadcast(socket);
+      this.reply(ack, { success: true });
+    });
+  }
+
+  /**
+   * Pass an offer, answer or ICE candidate on to a peer the sender has been
+   * told to connect to
+   */
+  private relaySignal(socket: Socket, data: any): void {
+    const joined = this.presence?.getSocketSession(socket);
+    if (
+      !joined ||
+      typeof data?.to !== 'string' ||
+      !SIGNAL_TYPES.includes(data.type)
+    ) {
+      return;
+    }
+
+    const links = this.spaces
+      .get(joined.spaceId)
+      ?.sent.get(joined.sessionId)?.links;
+    if (!links?.has(data.to)) return;
+
+    this.presence!.sendToSession(joined.spaceId, data.to, 'audio-signal', {
+      from: joined.sessionId,
+      type: data.type,
+      data: data.data,
+    });
+  }
+
+  private async startBroadcast(
+    socket: Socket,
+    data: any
+  ): Promise<{ boothId: string; channelId: string; radius: number }> {
+    const joined = this.presence?.getSocketSession(socket);
+    if (!joined) {
+      throw new Error('Join the space first');
+    }
+    if (typeof data?.boothId !== 'string') {
+      throw new Error('Invalid booth');
+    }
+
+    let radius = DEFAULT_BROADCAST_RADIUS;
+    if (data.radius !== undefined) {
+      radius = Number(data.radius);
+      if (!Number.isFinite(radius) || radius <= 0) {
+        throw new Error('Invalid radius');
+      }
+      radius = Math.min(radius, MAX_BROADCAST_RADIUS);
+    }
+
+    const booth = await prisma.virtualBooth.findUnique({
+      where: { id: data.boothId },
+    });
+    if (!booth || booth.spaceId !== joined.spaceId || !booth.isActive) {
+      throw new Error('Booth not found');
+    }
+    if (booth.ownerId !== socket.data.userId) {
+      throw new Error('Only the booth owner can broadcast from it');
+    }
+
+    const center = readVector(booth.position);
+    if (!center) {
+      throw new Error('Booth has no position');
+    }
+
+    const channelId = await this.saveChannel(
+      joined.spaceId,
+      `booth:${booth.id}`,
+      'broadcast',
+      radius
+    );
+
+    if (
+      this.presence?.getSocketSession(socket)?.sessionId !== joined.sessionId
+    ) {
+      throw new Error('Disconnected');
+    }
+
+    const space = this.spaceFor(joined.spaceId);
+
+    // One broadcast per person, and per booth
+    if (space.broadcasts.get(joined.sessionId)?.boothId !== booth.id) {
+      this.endBroadcast(space, joined.sessionId);
+    }
+    space.broadcasts.set(joined.sessionId, {
+      sessionId: joined.sessionId,
+      boothId: booth.id,
+      channelId,
+      center,
+      radius,
+    });
+    space.broadcasts.forEach((broadcast, sessionId) => {
+      if (broadcast.boothId === booth.id && sessionId !== joined.sessionId) {
+        this.endBroadcast(space, sessionId);
+      }
+    });
+    this.recompute(space);
+
+    return { boothId: booth.id, channelId, radius };
+  }
+
+  private stopBroadcast(socket: Socket): void {
+    const joined = this.presence?.getSocketSession(socket);
+    const space = joined && this.spaces.get(joined.spaceId);
+    if (!joined || !space?.broadcasts.has(joined.sessionId)) return;
+
+    this.endBroadcast(space, joined.sessionId);
+    this.recompute(space);
+  }
+
+  private endBroadcast(space: AudioSpace, sessionId: string): void {
+    const broadcast = space.broadcasts.get(sessionId);
+    if (!broadcast) return;
+
+    space.broadcasts.delete(sessionId);
+
+    // Someone else may be broadcasting from the same booth now
+    const takenOver = [...space.broadcasts.values()].some(
+      other => other.channelId === broadcast.channelId
+    );
+    if (takenOver) return;
+
+    prisma.spatialAudioChannel
+      .update({ where: { id: broadcast.channelId }, data: { isActive: false } })
+      .catch((error: unknown) =>
+        console.error('Spatial audio channel error:', error)
+      );
+  }
+
+  private spaceFor(spaceId: string): AudioSpace {
+    let space = this.spaces.get(spaceId);
+    if (!space) {
+      space = {
+        id: spaceId,
+        hearingRadius: DEFAULT_HEARING_RADIUS,
+        participants: [],
+        broadcasts: new Map(),
+        sent: new Map(),
+      };
+      this.spaces.set(spaceId, space);
+      this.loadHearingRadius(space);
+    }
+    return space;
+  }
+
+  /**
+   * Read the hearing radius from the space's proximity channel, creating
+   * the channel with the default radius the first time
+   */
+  private async loadHearingRadius(space: AudioSpace): Promise<void> {
+    try {
+      const channel = await prisma.spatialAudioChannel.findFirst({
+        where: { spaceId: space.id, channelType: 'proximity', isActive: true },
+      });
+
+      if (!channel) {
+        await this.saveChannel(
+          space.id,
+          'proximity',
+          'proximity',
+          DEFAULT_HEARING_RADIUS
+        );
+        return;
+      }
+
+      const radius = Number(channel.maxDistance);
+      if (
+        Number.isFinite(radius) &&
+        radius > 0 &&
+        radius !== space.hearingRadius &&
+        this.spaces.get(space.id) === space
+      ) {
+        space.hearingRadius = radius;
+        this.recompute(space);
+      }
+    } catch (error) {
+      console.error('Spatial audio channel error:', error);
+    }
+  }
+
+  private async saveChannel(
+    spaceId: string,
+    channelName: string,
+    channelType: 'proximity' | 'broadcast',
+    maxDistance: number
+  ): Promise<string> {
+    const existing = await prisma.spatialAudioChannel.findFirst({
+      where: { spaceId, channelName },
+    });
+
+    const channel = existing
+      ? await prisma.spatialAudioChannel.update({
+          where: { id: existing.id },
+          data: { channelType, maxDistance, isActive: true },
+        })
+      : await prisma.spatialAudioChannel.create({
+          data: {
+            spaceId,
+            channelName,
+            channelType,
+            maxDistance,
+            isActive: true,
+          },
+        });
+
+    return channel.id;
+  }
+
+  /**
+   * Plan the space's audio and send each client what changed for it
+   */
+  private recompute(space: AudioSpace): void {
+    if (!this.presence) return;
+
+    // Someone who reconnected starts again with no peers, and their peers
+    // connect to the new socket
+    space.participants.forEach(({ sessionId, socketId }) => {
+      if (space.sent.get(sessionId)?.socketId !== socketId) {
+        space.sent.delete(sessionId);
+        space.sent.forEach(({ links }) => links.delete(sessionId));
+      }
+    });
+
+    const plan = planAudio(space.participants, {
+      hearingRadius: space.hearingRadius,
+      broadcasts: [...space.broadcasts.values()],
+      connected: (a, b) => !!space.sent.get(a)?.links.has(b),
+    });
+
+    const present = new Set<string>();
+    space.participants.forEach(({ sessionId, socketId }) => {
+      present.add(sessionId);
+
+      const previous = space.sent.get(sessionId);
+      const links = plan.links.get(sessionId) || new Map<string, AudioLink>();
+      const groupId = plan.groups.get(sessionId) ?? null;
+      const update: AudioPeersUpdate = {
+        connect: [],
+        update: [],
+        disconnect: [],
+      };
+
+      links.forEach((link, peerId) => {
+        const before = previous?.links.get(peerId);
+        if (!before) {
+          update.connect.push(link);
+        } else if (
+          before.gain !== link.gain ||
+          before.pan !== link.pan ||
+          before.kind !== link.kind
+        ) {
+          update.update.push(link);
+        }
+      });
+      previous?.links.forEach((_, peerId) => {
+        if (!links.has(peerId)) update.disconnect.push(peerId);
+      });
+      if ((previous?.groupId ?? null) !== groupId) {
+        update.groupId = groupId;
+      }
+
+      space.sent.set(sessionId, { socketId, links, groupId });
+
+      if (
+        update.connect.length > 0 ||
+        update.update.length > 0 ||
+        update.disconnect.length > 0 ||
+        update.groupId !== undefined
+      ) {
+        this.presence!.sendToSession(
+          space.id,
+          sessionId,
+          'audio-peers',
+          update
+        );
+      }
+    });
+
+    space.sent.forEach((_, sessionId) => {
+      if (!present.has(sessionId)) space.sent.delete(sessionId);
+    });
+  }
+
+  private reply<T>(ack: Ack<T> | undefined, response: ApiResponse<T>): void {
+    if (typeof ack === 'function') {
+      ack(response);
+    }
+  }
+}
+
+function readVector(value: any): Vector3 | null {
+  if (
+    !value ||
+    !Number.isFinite(value.x) ||
+    !Number.isFinite(value.y) ||
+    !Number.isFinite(value.z)
+  ) {
+    return null;
+  }
+  return { x: value.x, y: value.y, z: value.z };
+}
+
+export const spatialAudioService = new SpatialAudioService();
@@ -0,0 +1,288 @@
+/**
+ * Speech-to-text backend shared by voice search and call recordings.
+ * Providers return the transcript split into timed segments, or null when
+ * the audio holds no speech.
+ */
+
+export type SpeechLanguage = 'en' | 'hi' | 'es' | 'fr' | 'de' | 'ta' | 'te';
+
+export interface TranscriptSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+  confidence?: number;
+}
+
+export interface SpeechTranscription {
+  text: string;
+  confidence: number;
+  language: string;
+  segments: TranscriptSegment[];
+}
+
+export interface SpeechToTextProvider {
+  readonly name: string;
+  transcribe(
+    audio: Blob,
+    language: SpeechLanguage
+  ): Promise<SpeechTranscription | null>;
+}
+
+export const SPEECH_LANGUAGE_CODES: Record<SpeechLanguage, string> = {
+  en: 'en-US',
+  hi: 'hi-IN',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  de: 'de-DE',
+  ta: 'ta-IN',
+  te: 'te-IN',
+};
+
+export function isSpeechLanguage(value: unknown): value is SpeechLanguage {
+  return typeof value === 'string' && value in SPEECH_LANGUAGE_CODES;
+}
+
+// Google durations look like "3.500s"
+function parseGoogleDuration(value?: string): number | undefined {
+  return value ? Math.round(parseFloat(value) * 1000) : undefined;
+}
+
+// Google Speech-to-Text implementation
+export class GoogleSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'google';
+
+  constructor(private apiKey?: string) {}
+
+  async transcribe(
+    audio: Blob,
+    language: SpeechLanguage
+  ): Promise<SpeechTranscription | null> {
+    if (!this.apiKey) {
+      throw new Error('Google Speech API key not configured');
+    }
+
+    const languageCode = SPEECH_LANGUAGE_CODES[language];
+    const base64Audio = Buffer.from(await audio.arrayBuffer()).toString(
+      'base64'
+    );
+
+    const response = await fetch(
+      'https://speech.googleapis.com/v1/speech:recognize',
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          config: {
+            encoding: 'WEBM_OPUS',
+            sampleRateHertz: 48000,
+            languageCode,
+            enableAutomaticPunctuation: true,
+            enableWordTimeOffsets: true,
+            model: 'latest_long',
+          },
+          audio: {
+            content: base64Audio,
+          },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Google Speech API error: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    if (!result.results || result.results.length === 0) {
+      return null;
+    }
+
+    // Each result covers the audio since the one before it
+    let previousEndMs = 0;
+    const segments: TranscriptSegment[] = result.results.map((item: any) => {
+      const best = item.alternatives[0];
+      const words = best.words || [];
+      const startMs = parseGoogleDuration(words[0]?.startTime) ?? previousEndMs;
+      const endMs =
+        parseGoogleDuration(item.resultEndTime) ??
+        parseGoogleDuration(words[words.length - 1]?.endTime) ??
+        startMs;
+      previousEndMs = endMs;
+
+      return {
+        startMs,
+        endMs,
+        text: best.transcript.trim(),
+        confidence: best.confidence,
+      };
+    });
+
+    return {
+      text: segments.map(segment => segment.text).join(' '),
+      confidence: result.results[0].alternatives[0].confidence || 0.8,
+      language: languageCode,
+      segments,
+    };
+  }
+}
+
+// Azure short-audio REST implementation. Offsets are in 100 ns ticks.
+export class AzureSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'azure';
+
+  constructor(
+    private apiKey?: string,
+    private region?: string
+  ) {}
+
+  async transcribe(
+    audio: Blob,
+    language: SpeechLanguage
+  ): Promise<SpeechTranscription | null> {
+    if (!this.apiKey || !this.region) {
+      throw new Error('Azure Speech API key or region not configured');
+    }
+
+    const languageCode = SPEECH_LANGUAGE_CODES[language];
+
+    const response = await fetch(
+      `https://${this.region}.stt.speech.microsoft.com/speech/recognition/conversation/cognitiveservices/v1?language=${languageCode}`,
+      {
+        method: 'POST',
+        headers: {
+          'Ocp-Apim-Subscription-Key': this.apiKey,
+          'Content-Type': 'audio/wav',
+        },
+        body: audio,
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Azure Speech API error: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    if (result.RecognitionStatus !== 'Success') {
+      return null;
+    }
+
+    const confidence = result.Confidence || 0.8;
+    const startMs = Math.round((result.Offset || 0) / 10000);
+
+    return {
+      text: result.DisplayText,
+      confidence,
+      language: languageCode,
+      segments: [
+        {
+          startMs,
+          endMs: startMs + Math.round((result.Duration || 0) / 10000),
+          text: result.DisplayText,
+          confidence,
+        },
+      ],
+    };
+  }
+}
+
+const MOCK_TRANSCRIPTIONS: Record<SpeechLanguage, string[]> = {
+  en: [
+    'Find AI hackathons in Mumbai',
+    'Show me remote internships',
+    'I want to participate in web development workshops',
+    'Search for machine learning competitions',
+    'Find startup internships for beginners',
+  ],
+  hi: [
+    'मुंबई में AI हैकाथॉन खोजें',
+    'रिमोट इंटर्नशिप दिखाएं',
+    'वेब डेवलपमेंट वर्कशॉप में भाग लेना चाहता हूं',
+    'मशीन लर्निंग प्रतियोगिताएं खोजें',
+    'शुरुआती लोगों के लिए स्टार्टअप इंटर्नशिप खोजें',
+  ],
+  es: [
+    'Buscar hackathons de IA en Mumbai',
+    'Mostrar pasantías remotas',
+    'Quiero participar en talleres de desarrollo web',
+    'Buscar competencias de aprendizaje automático',
+    'Encontrar pasantías de startups para principiantes',
+  ],
+  fr: [
+    'Trouver des hackathons IA à Mumbai',
+    'Montrer les stages à distance',
+    'Je veux participer à des ateliers de développement web',
+    "Rechercher des compétitions d'apprentissage automatique",
+    'Trouver des stages de startups pour débutants',
+  ],
+  de: [
+    'KI-Hackathons in Mumbai finden',
+    'Remote-Praktika anzeigen',
+    'Ich möchte an Webentwicklungs-Workshops teilnehmen',
+    'Nach Machine-Learning-Wettbewerben suchen',
+    'Startup-Praktika für Anfänger finden',
+  ],
+  ta: [
+    'மும்பையில் AI ஹேக்கத்தான்களைக் கண்டறியுங்கள்',
+    'தொலைநிலை பயிற்சிகளைக் காட்டு',
+    'வலை மேம்பாட்டு பட்டறைகளில் பங்கேற்க விரும்புகிறேன்',
+    'இயந்திர கற்றல் போட்டிகளைத் தேடு',
+    'தொடக்கநிலைக்கான ஸ்டார்ட்அப் பயிற்சிகளைக் கண்டறியுங்கள்',
+  ],
+  te: [
+    'ముంబైలో AI హ్యాకథాన్‌లను కనుగొనండి',
+    'రిమోట్ ఇంటర్న్‌షిప్‌లను చూపించు',
+    'వెబ్ డెవలప్‌మెంట్ వర్క్‌షాప్‌లలో పాల్గొనాలనుకుంటున్నాను',
+    'మెషిన్ లెర్నింగ్ పోటీలను వెతకండి',
+    'ప్రారంభకుల కోసం స్టార్టప్ ఇంటర్న్‌షిప్‌లను కనుగొనండి',
+  ],
+};
+
+// Canned phrases for development and tests. The same audio always gives the
+// same transcript.
+export class MockSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'mock';
+
+  constructor(private delayMs = 1000) {}
+
+  async transcribe(
+    audio: Blob,
+    language: SpeechLanguage
+  ): Promise<SpeechTranscription | null> {
+    // Simulate processing delay
+    if (this.delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.delayMs));
+    }
+
+    const transcriptions =
+      MOCK_TRANSCRIPTIONS[language] || MOCK_TRANSCRIPTIONS.en;
+    const text = transcriptions[audio.size % transcriptions.length];
+
+    return {
+      text,
+      confidence: 0.9,
+      language: SPEECH_LANGUAGE_CODES[language] || SPEECH_LANGUAGE_CODES.en,
+      segments: [{ startMs: 0, endMs: 3000, text, confidence: 0.9 }],
+    };
+  }
+}
+
+/**
+ * The provider named by SPEECH_PROVIDER, or the mock
+ */
+export function createSpeechToTextProvider(): SpeechToTextProvider {
+  switch (process.env.SPEECH_PROVIDER) {
+    case 'google':
+      return new GoogleSpeechToTextProvider(
+        process.env.GOOGLE_SPEECH_TO_TEXT_API_KEY
+      );
+    case 'azure':
+      return new AzureSpeechToTextProvider(
+        process.env.AZURE_SPEECH_KEY,
+        process.env.AZURE_SPEECH_REGION
+      );
+    default:
+      return new MockSpeechToTextProvider();
+  }
+}
@@ -0,0 +1,182 @@
+import axios from 'axios';
+import type { Locale } from '../../i18n/config';
+
+/**
+ * Machine translation backend used by the i18n service. Providers translate
+ * a batch of plain-text strings and return them in the same order.
+ */
+export interface TranslationProvider {
+  readonly name: string;
+  translate(
+    texts: string[],
+    sourceLanguage: Locale,
+    targetLanguage: Locale
+  ): Promise<string[]>;
+}
+
+// Google Cloud Translation (v2) implementation. Unlike most alternatives it
+// covers Tamil and Telugu.
+export class GoogleTranslationProvider implements TranslationProvider {
+  readonly name = 'google';
+  private baseUrl = 'https://translation.googleapis.com/language/translate/v2';
+
+  constructor(private apiKey: string) {}
+
+  async translate(
+    texts: string[],
+    sourceLanguage: Locale,
+    targetLanguage: Locale
+  ): Promise<string[]> {
+    if (texts.length === 0) return [];
+
+    const response = await axios.post(
+      this.baseUrl,
+      {
+        q: texts,
+        source: sourceLanguage,
+        target: targetLanguage,
+        format: 'text',
+      },
+      { params: { key: this.apiKey }, timeout: 15000 }
+    );
+
+    const translations: Array<{ translatedText: string }> =
+      response.data?.data?.translations || [];
+    if (translations.length !== texts.length) {
+      throw new Error('Translation response did not match the request');
+    }
+
+    return translations.map(item => item.translatedText);
+  }
+}
+
+// Common opportunity terms, used by the dictionary provider
+const GLOSSARY: Record<string, Partial<Record<Locale, string>>> = {
+  hackathon: {
+    hi: 'हैकाथॉन',
+    ta: 'ஹேக்கத்தான்',
+    te: 'హ్యాకథాన్',
+    es: 'hackatón',
+    fr: 'hackathon',
+    de: 'Hackathon',
+  },
+  internship: {
+    hi: 'इंटर्नशिप',
+    ta: 'இன்டர்ன்ஷிப்',
+    te: 'ఇంటర్న్‌షిప్',
+    es: 'prácticas',
+    fr: 'stage',
+    de: 'Praktikum',
+  },
+  workshop: {
+    hi: 'कार्यशाला',
+    ta: 'பயிலரங்கம்',
+    te: 'కార్యశాల',
+    es: 'taller',
+    fr: 'atelier',
+    de: 'Workshop',
+  },
+  online: {
+    hi: 'ऑनलाइन',
+    ta: 'ஆன்லைன்',
+    te: 'ఆన్‌లైన్',
+    es: 'en línea',
+    fr: 'en ligne',
+    de: 'online',
+  },
+  deadline: {
+    hi: 'अंतिम तिथि',
+    ta: 'கடைசி தேதி',
+    te: 'చివరి తేదీ',
+    es: 'fecha límite',
+    fr: 'date limite',
+    de: 'Frist',
+  },
+  prize: {
+    hi: 'पुरस्कार',
+    ta: 'பரிசு',
+    te: 'బహుమతి',
+    es: 'premio',
+    fr: 'prix',
+    de: 'Preis',
+  },
+  stipend: {
+    hi: 'वजीफा',
+    ta: 'உதவித்தொகை',
+    te: 'స్టైపెండ్',
+    es: 'estipendio',
+    fr: 'gratification',
+    de: 'Vergütung',
+  },
+  students: {
+    hi: 'छात्र',
+    ta: 'மாணவர்கள்',
+    te: 'విద్యార్థులు',
+    es: 'estudiantes',
+    fr: 'étudiants',
+    de: 'Studierende',
+  },
+  registration: {
+    hi: 'पंजीकरण',
+    ta: 'பதிவு',
+    te: 'నమోదు',
+    es: 'inscripción',
+    fr: 'inscription',
+    de: 'Anmeldung',
+  },
+  free: {
+    hi: 'निःशुल्क',
+    ta: 'இலவசம்',
+    te: 'ఉచితం',
+    es: 'gratis',
+    fr: 'gratuit',
+    de: 'kostenlos',
+  },
+};
+
+const GLOSSARY_PATTERN = new RegExp(
+  `\\b(${Object.keys(GLOSSARY).join('|')})\\b`,
+  'gi'
+);
+
+/**
+ * Deterministic offline provider that swaps known opportunity terms for their
+ * glossary translation and leaves everything else as it is. Used in tests and
+ * wherever no translation API is configured.
+ */
+export class DictionaryTranslationProvider implements TranslationProvider {
+  readonly name = 'dictionary';
+
+  async translate(
+    texts: string[],
+    sourceLanguage: Locale,
+    targetLanguage: Locale
+  ): Promise<string[]> {
+    if (sourceLanguage !== 'en' || targetLanguage === 'en') {
+      return [...texts];
+    }
+
+    return texts.map(text =>
+      text.replace(GLOSSARY_PATTERN, match => {
+        const translated = GLOSSARY[match.toLowerCase()][targetLanguage];
+        if (!translated) return match;
+
+        // Keep title case for scripts that have it
+        return match[0] === match[0].toUpperCase()
+          ? translated[0].toUpperCase() + translated.slice(1)
+          : translated;
+      })
+    );
+  }
+}
+
+// Factory function to create the translation provider
+export function createTranslationProvider(): TranslationProvider {
+  const apiKey = process.env.GOOGLE_TRANSLATE_API_KEY;
+
+  if (process.env.NODE_ENV === 'test' || !apiKey) {
+    return new DictionaryTranslationProvider();
+  }
+
+  return new GoogleTranslationProvider(apiKey);
+}
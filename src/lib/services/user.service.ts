@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import type { ApiResponse, UserProfile } from '../../types';
+import { eventBus } from '../events/event-bus';
 
 const prisma = new PrismaClient();
 
@@ -402,6 +403,12 @@ export class UserService {
         },
       });
 
+      eventBus.emit(
+        'favorite.added',
+        { userId, opportunityId },
+        { audience: [userId] }
+      );
+
       return {
         success: true,
         message: 'Opportunity added to favorites successfully',
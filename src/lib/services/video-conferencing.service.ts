@@ -1,22 +1,26 @@
 // Video Conferencing Service
-import {
+import type {
   BandwidthMeasurement,
+  BreakoutAssignmentRequest,
   BreakoutRoom,
+  BreakoutRoomAssignment,
   CreateBreakoutRoomsRequest,
   CreatePollRequest,
   CreateRoomRequest,
   CreateRoomResponse,
   JoinRoomRequest,
   JoinRoomResponse,
+  ParticipantRole,
+  PollResults,
+  PollVoter,
   VideoCallMessage,
   VideoCallParticipant,
   VideoCallPoll,
-  VideoCallRecording,
   VideoCallRoom,
 } from '@/types/video-conferencing';
 import * as bcrypt from 'bcrypt';
 import * as crypto from 'crypto';
-import { Pool } from 'pg';
+import type { Pool, PoolClient } from 'pg';
 
 export class VideoConferencingService {
   private pool: Pool;
@@ -37,12 +41,25 @@ export class VideoConferencingService {
       ? await bcrypt.hash(request.password, 10)
       : null;
 
+    // A call for a mentorship session must be made by its mentor or student
+    if (request.mentorshipSessionId) {
+      const session = await this.pool.query(
+        `SELECT s.id FROM mentorship_sessions s
+         JOIN mentor_profiles m ON m.id = s.mentor_id
+         WHERE s.id = $1 AND (m.user_id = $2 OR s.student_id = $2)`,
+        [request.mentorshipSessionId, hostId]
+      );
+      if (session.rows.length === 0) {
+        throw new Error('Mentorship session not found');
+      }
+    }
+
     const query = `
       INSERT INTO video_call_rooms (
         room_code, name, description, room_type, host_id,
         max_participants, is_recording_enabled, is_waiting_room_enabled,
-        password_hash, scheduled_at, settings, status
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        password_hash, scheduled_at, settings, status, mentorship_session_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
       RETURNING *
     `;
 
@@ -59,6 +76,7 @@ export class VideoConferencingService {
       request.scheduledAt || null,
       JSON.stringify(request.settings || {}),
       request.scheduledAt ? 'scheduled' : 'active',
+      request.mentorshipSessionId || null,
     ];
 
     const result = await this.pool.query(query, values);
@@ -69,6 +87,16 @@ export class VideoConferencingService {
 
     const joinUrl = `${process.env.NEXT_PUBLIC_APP_URL}/video/${roomCode}`;
 
+    if (room.mentorshipSessionId) {
+      await this.pool.query(
+        `UPDATE mentorship_sessions
+         SET meeting_url = $2, meeting_platform = 'video-call',
+             updated_at = NOW()
+         WHERE id = $1 AND meeting_url IS NULL`,
+        [room.mentorshipSessionId, joinUrl]
+      );
+    }
+
     return {
       room,
       roomCode,
@@ -107,10 +135,17 @@ export class VideoConferencingService {
       throw new Error('Room has ended');
     }
 
-    if (room.isLocked) {
+    // The host can always get back into their own room
+    const isHost = Boolean(userId) && userId === room.hostId;
+
+    if (room.isLocked && !isHost) {
       throw new Error('Room is locked');
     }
 
+    if (userId && !isHost && (await this.isRemovedFromRoom(room.id, userId))) {
+      throw new Error('You were removed from this room');
+    }
+
     // Verify password if required
     if (room.passwordHash && request.password) {
       const isValid = await bcrypt.compare(request.password, room.passwordHash);
@@ -131,7 +166,8 @@ export class VideoConferencingService {
       room.id,
       userId,
       peerId,
-      request.displayName
+      request.displayName,
+      isHost ? 'host' : 'participant'
     );
 
     // Get ICE servers
@@ -164,7 +200,8 @@ export class VideoConferencingService {
     roomId: string,
     userId: string | undefined,
     peerId: string,
-    displayName: string
+    displayName: string,
+    role: ParticipantRole
   ): Promise<VideoCallParticipant> {
     const query = `
       INSERT INTO video_call_participants (
@@ -173,7 +210,7 @@ export class VideoConferencingService {
       RETURNING *
     `;
 
-    const values = [roomId, userId || null, peerId, displayName, 'participant'];
+    const values = [roomId, userId || null, peerId, displayName, role];
 
     const result = await this.pool.query(query, values);
     return this.mapParticipantFromDb(result.rows[0]);
@@ -229,6 +266,19 @@ export class VideoConferencingService {
     await this.pool.query(query, values);
   }
 
+  /**
+   * Change a participant's role, e.g. to make them a co-host
+   */
+  async updateParticipantRole(
+    participantId: string,
+    role: ParticipantRole
+  ): Promise<void> {
+    await this.pool.query(
+      'UPDATE video_call_participants SET role = $1 WHERE id = $2',
+      [role, participantId]
+    );
+  }
+
   /**
    * Leave room
    */
@@ -254,6 +304,42 @@ export class VideoConferencingService {
     }
   }
 
+  /**
+   * Remove a participant from the call for good: they leave it and, if
+   * signed in, cannot join the room again
+   */
+  async removeParticipant(
+    participantId: string,
+    removedBy: string
+  ): Promise<void> {
+    const participant = await this.getParticipant(participantId);
+    if (!participant) return;
+
+    if (participant.userId) {
+      await this.pool.query(
+        `
+        INSERT INTO video_call_room_removals (room_id, user_id, removed_by)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (room_id, user_id) DO NOTHING
+      `,
+        [participant.roomId, participant.userId, removedBy]
+      );
+    }
+
+    await this.leaveRoom(participantId);
+  }
+
+  /**
+   * Whether a user was removed from a room by its host or a co-host
+   */
+  async isRemovedFromRoom(roomId: string, userId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'SELECT 1 FROM video_call_room_removals WHERE room_id = $1 AND user_id = $2',
+      [roomId, userId]
+    );
+    return result.rows.length > 0;
+  }
+
   /**
    * Get participant
    */
@@ -298,39 +384,6 @@ export class VideoConferencingService {
     return result.rows.map(this.mapParticipantFromDb);
   }
 
-  /**
-   * Start recording
-   */
-  async startRecording(
-    roomId: string,
-    format: string = 'webm'
-  ): Promise<VideoCallRecording> {
-    const query = `
-      INSERT INTO video_call_recordings (
-        room_id, format, status, started_at
-      ) VALUES ($1, $2, 'processing', NOW())
-      RETURNING *
-    `;
-
-    const result = await this.pool.query(query, [roomId, format]);
-    return this.mapRecordingFromDb(result.rows[0]);
-  }
-
-  /**
-   * Stop recording
-   */
-  async stopRecording(recordingId: string): Promise<void> {
-    const query = `
-      UPDATE video_call_recordings
-      SET ended_at = NOW(),
-          duration_seconds = EXTRACT(EPOCH FROM (NOW() - started_at))::INT,
-          status = 'ready'
-      WHERE id = $1
-    `;
-
-    await this.pool.query(query, [recordingId]);
-  }
-
   /**
    * Save chat message
    */
@@ -407,6 +460,146 @@ export class VideoConferencingService {
     return this.mapPollFromDb(result.rows[0]);
   }
 
+  /**
+   * Get poll
+   */
+  async getPoll(pollId: string): Promise<VideoCallPoll | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM video_call_polls WHERE id = $1',
+      [pollId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapPollFromDb(result.rows[0]);
+  }
+
+  /**
+   * Record a participant's vote and return the updated results. Each
+   * participant votes once per poll.
+   */
+  async votePoll(
+    pollId: string,
+    participantId: string,
+    optionIds: string[]
+  ): Promise<PollResults> {
+    const poll = await this.getPoll(pollId);
+
+    if (!poll) {
+      throw new Error('Poll not found');
+    }
+
+    if (
+      !poll.isActive ||
+      (poll.endsAt && new Date(poll.endsAt) <= new Date())
+    ) {
+      throw new Error('Poll is closed');
+    }
+
+    const selected = [...new Set(optionIds)];
+    const validIds = new Set(poll.options.map(option => option.id));
+
+    if (selected.length === 0 || selected.some(id => !validIds.has(id))) {
+      throw new Error('Invalid poll option');
+    }
+
+    if (!poll.allowMultiple && selected.length > 1) {
+      throw new Error('This poll allows only one option');
+    }
+
+    const participant = await this.getParticipant(participantId);
+    if (
+      !participant ||
+      participant.roomId !== poll.roomId ||
+      participant.leftAt
+    ) {
+      throw new Error('Only participants in the call can vote');
+    }
+
+    const result = await this.pool.query(
+      `INSERT INTO video_call_poll_responses (
+        poll_id, participant_id, selected_options
+      ) VALUES ($1, $2, $3)
+      ON CONFLICT (poll_id, participant_id) DO NOTHING
+      RETURNING id`,
+      [pollId, participantId, JSON.stringify(selected)]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('You have already voted in this poll');
+    }
+
+    return this.tallyPoll(poll);
+  }
+
+  /**
+   * Get poll results
+   */
+  async getPollResults(pollId: string): Promise<PollResults | null> {
+    const poll = await this.getPoll(pollId);
+    return poll ? this.tallyPoll(poll) : null;
+  }
+
+  /**
+   * Close a poll to further votes and return its final results
+   */
+  async closePoll(pollId: string): Promise<PollResults | null> {
+    const result = await this.pool.query(
+      'UPDATE video_call_polls SET is_active = false WHERE id = $1 RETURNING *',
+      [pollId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.tallyPoll(this.mapPollFromDb(result.rows[0]));
+  }
+
+  /**
+   * Count the votes for each option. Anonymous polls only get the counts.
+   */
+  private async tallyPoll(poll: VideoCallPoll): Promise<PollResults> {
+    const result = await this.pool.query(
+      `SELECT r.participant_id, r.selected_options, p.display_name
+       FROM video_call_poll_responses r
+       JOIN video_call_participants p ON p.id = r.participant_id
+       WHERE r.poll_id = $1
+       ORDER BY r.created_at ASC`,
+      [poll.id]
+    );
+
+    const voters: Record<string, PollVoter[]> = {};
+    poll.options.forEach(option => {
+      voters[option.id] = [];
+    });
+
+    for (const row of result.rows) {
+      for (const optionId of row.selected_options as string[]) {
+        voters[optionId]?.push({
+          participantId: row.participant_id,
+          displayName: row.display_name,
+        });
+      }
+    }
+
+    return {
+      pollId: poll.id,
+      question: poll.question,
+      isAnonymous: poll.isAnonymous,
+      isActive: poll.isActive,
+      totalVotes: result.rows.length,
+      options: poll.options.map(option => ({
+        id: option.id,
+        text: option.text,
+        votes: voters[option.id].length,
+      })),
+      ...(!poll.isAnonymous && { voters }),
+    };
+  }
+
   /**
    * Create breakout rooms
    */
@@ -442,6 +635,249 @@ export class VideoConferencingService {
     return breakoutRooms;
   }
 
+  /**
+   * Get the open breakout rooms of a call
+   */
+  async getBreakoutRooms(parentRoomId: string): Promise<BreakoutRoom[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM breakout_rooms
+       WHERE parent_room_id = $1 AND is_active = true
+       ORDER BY created_at ASC, name ASC`,
+      [parentRoomId]
+    );
+
+    return result.rows.map(this.mapBreakoutRoomFromDb);
+  }
+
+  /**
+   * Get the current breakout room assignments of a call
+   */
+  async getBreakoutAssignments(
+    parentRoomId: string
+  ): Promise<BreakoutRoomAssignment[]> {
+    const result = await this.pool.query(
+      `SELECT a.* FROM breakout_room_assignments a
+       JOIN breakout_rooms b ON b.id = a.breakout_room_id
+       WHERE b.parent_room_id = $1 AND b.is_active = true
+         AND a.left_at IS NULL`,
+      [parentRoomId]
+    );
+
+    return result.rows.map(this.mapAssignmentFromDb);
+  }
+
+  /**
+   * Put participants in breakout rooms, replacing any earlier assignment
+   */
+  async assignBreakoutRooms(
+    parentRoomId: string,
+    assignments: BreakoutAssignmentRequest[]
+  ): Promise<BreakoutRoomAssignment[]> {
+    if (assignments.length === 0) {
+      return [];
+    }
+
+    const participantIds = [...new Set(assignments.map(a => a.participantId))];
+    if (participantIds.length !== assignments.length) {
+      throw new Error('Each participant can only be in one breakout room');
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Locking the rooms makes assignments to the same call take turns, so
+      // two of them cannot both fill the last seat
+      const roomRows = await client.query(
+        `SELECT * FROM breakout_rooms
+         WHERE parent_room_id = $1 AND is_active = true
+         FOR UPDATE`,
+        [parentRoomId]
+      );
+      const rooms = new Map<string, BreakoutRoom>(
+        roomRows.rows.map(row => {
+          const room = this.mapBreakoutRoomFromDb(row);
+          return [room.id, room];
+        })
+      );
+      const counts = await this.countBreakoutSeats(
+        client,
+        parentRoomId,
+        participantIds
+      );
+
+      for (const { breakoutRoomId } of assignments) {
+        const room = rooms.get(breakoutRoomId);
+        if (!room) {
+          throw new Error('Breakout room not found');
+        }
+
+        const count = (counts.get(breakoutRoomId) || 0) + 1;
+        counts.set(breakoutRoomId, count);
+        if (count > room.maxParticipants) {
+          throw new Error(`${room.name} is full`);
+        }
+      }
+
+      const inCall = await client.query(
+        `SELECT id FROM video_call_participants
+         WHERE room_id = $1 AND left_at IS NULL AND id = ANY($2)`,
+        [parentRoomId, participantIds]
+      );
+      if (inCall.rows.length !== participantIds.length) {
+        throw new Error('Participant not found');
+      }
+
+      await client.query(
+        `UPDATE breakout_room_assignments SET left_at = NOW()
+         WHERE participant_id = ANY($1) AND left_at IS NULL`,
+        [participantIds]
+      );
+
+      const values: string[] = [];
+      const params: string[] = [];
+      assignments.forEach(({ breakoutRoomId, participantId }) => {
+        params.push(breakoutRoomId, participantId);
+        values.push(`($${params.length - 1}, $${params.length})`);
+      });
+
+      const result = await client.query(
+        `INSERT INTO breakout_room_assignments (breakout_room_id, participant_id)
+         VALUES ${values.join(', ')}
+         RETURNING *`,
+        params
+      );
+
+      await client.query('COMMIT');
+      return result.rows.map(this.mapAssignmentFromDb);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Open assignments in each of a call's breakout rooms, leaving out the
+   * given participants
+   */
+  private async countBreakoutSeats(
+    db: Pool | PoolClient,
+    parentRoomId: string,
+    excludeParticipantIds: string[]
+  ): Promise<Map<string, number>> {
+    const result = await db.query(
+      `SELECT a.breakout_room_id, COUNT(*)::int AS count
+       FROM breakout_room_assignments a
+       JOIN breakout_rooms b ON b.id = a.breakout_room_id
+       WHERE b.parent_room_id = $1 AND b.is_active = true
+         AND a.left_at IS NULL AND a.participant_id <> ALL($2)
+       GROUP BY a.breakout_room_id`,
+      [parentRoomId, excludeParticipantIds]
+    );
+
+    return new Map(
+      result.rows.map(row => [row.breakout_room_id, Number(row.count)])
+    );
+  }
+
+  /**
+   * Spread participants evenly over the breakout rooms in random order.
+   * Anyone who does not fit stays in the main room.
+   */
+  async autoAssignBreakoutRooms(
+    parentRoomId: string,
+    participantIds: string[]
+  ): Promise<BreakoutRoomAssignment[]> {
+    const rooms = await this.getBreakoutRooms(parentRoomId);
+    if (rooms.length === 0) {
+      throw new Error('No breakout rooms to assign');
+    }
+
+    const shuffled = [...participantIds];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = crypto.randomInt(i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+
+    // People already in a room who are not being moved keep their seats
+    const taken = await this.countBreakoutSeats(
+      this.pool,
+      parentRoomId,
+      participantIds
+    );
+    const counts = rooms.map(room => taken.get(room.id) || 0);
+    const assignments: BreakoutAssignmentRequest[] = [];
+
+    for (const participantId of shuffled) {
+      // The emptiest room that still has space
+      let index = -1;
+      rooms.forEach((room, i) => {
+        if (
+          counts[i] < room.maxParticipants &&
+          (index === -1 || counts[i] < counts[index])
+        ) {
+          index = i;
+        }
+      });
+      if (index === -1) break;
+
+      counts[index]++;
+      assignments.push({ breakoutRoomId: rooms[index].id, participantId });
+    }
+
+    return this.assignBreakoutRooms(parentRoomId, assignments);
+  }
+
+  /**
+   * Open a call's breakout rooms, starting their timers
+   */
+  async openBreakoutRooms(parentRoomId: string): Promise<BreakoutRoom[]> {
+    await this.pool.query(
+      `UPDATE breakout_rooms SET started_at = NOW()
+       WHERE parent_room_id = $1 AND is_active = true AND started_at IS NULL`,
+      [parentRoomId]
+    );
+
+    return this.getBreakoutRooms(parentRoomId);
+  }
+
+  /**
+   * Record that a participant went into their breakout room
+   */
+  async markBreakoutRoomJoined(
+    breakoutRoomId: string,
+    participantId: string
+  ): Promise<void> {
+    await this.pool.query(
+      `UPDATE breakout_room_assignments
+       SET joined_at = COALESCE(joined_at, NOW())
+       WHERE breakout_room_id = $1 AND participant_id = $2
+         AND left_at IS NULL`,
+      [breakoutRoomId, participantId]
+    );
+  }
+
+  /**
+   * Close a call's breakout rooms and end their assignments
+   */
+  async closeBreakoutRooms(parentRoomId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE breakout_room_assignments a SET left_at = NOW()
+       FROM breakout_rooms b
+       WHERE b.id = a.breakout_room_id AND b.parent_room_id = $1
+         AND b.is_active = true AND a.left_at IS NULL`,
+      [parentRoomId]
+    );
+
+    await this.pool.query(
+      `UPDATE breakout_rooms SET is_active = false, ended_at = NOW()
+       WHERE parent_room_id = $1 AND is_active = true`,
+      [parentRoomId]
+    );
+  }
+
   /**
    * Save bandwidth measurement
    */
@@ -484,6 +920,27 @@ export class VideoConferencingService {
     await this.pool.query(query, [status, roomId]);
   }
 
+  /**
+   * Lock or unlock a room. Nobody but the host can join a locked room.
+   */
+  async setRoomLocked(roomId: string, isLocked: boolean): Promise<void> {
+    await this.pool.query(
+      'UPDATE video_call_rooms SET is_locked = $1 WHERE id = $2',
+      [isLocked, roomId]
+    );
+  }
+
+  /**
+   * Turn the waiting room on or off. While it is on, participants wait for
+   * the host or a co-host to admit them.
+   */
+  async setWaitingRoomEnabled(roomId: string, enabled: boolean): Promise<void> {
+    await this.pool.query(
+      'UPDATE video_call_rooms SET is_waiting_room_enabled = $1 WHERE id = $2',
+      [enabled, roomId]
+    );
+  }
+
   /**
    * End room
    */
@@ -614,6 +1071,7 @@ export class VideoConferencingService {
       endedAt: row.ended_at,
       status: row.status,
       settings: row.settings,
+      mentorshipSessionId: row.mentorship_session_id,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -639,26 +1097,6 @@ export class VideoConferencingService {
     };
   }
 
-  private mapRecordingFromDb(row: any): VideoCallRecording {
-    return {
-      id: row.id,
-      roomId: row.room_id,
-      recordingUrl: row.recording_url,
-      storageKey: row.storage_key,
-      fileSizeBytes: row.file_size_bytes,
-      durationSeconds: row.duration_seconds,
-      format: row.format,
-      status: row.status,
-      startedAt: row.started_at,
-      endedAt: row.ended_at,
-      isPublic: row.is_public,
-      accessToken: row.access_token,
-      expiresAt: row.expires_at,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    };
-  }
-
   private mapMessageFromDb(row: any): VideoCallMessage {
     return {
       id: row.id,
@@ -686,6 +1124,17 @@ export class VideoConferencingService {
     };
   }
 
+  private mapAssignmentFromDb(row: any): BreakoutRoomAssignment {
+    return {
+      id: row.id,
+      breakoutRoomId: row.breakout_room_id,
+      participantId: row.participant_id,
+      assignedAt: row.assigned_at,
+      joinedAt: row.joined_at,
+      leftAt: row.left_at,
+    };
+  }
+
   private mapBreakoutRoomFromDb(row: any): BreakoutRoom {
     return {
       id: row.id,
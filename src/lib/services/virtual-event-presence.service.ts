@@ -0,0 +1,636 @@
+import type {
+  PresenceAvatar,
+  PresenceUpdate,
+  RemoteAvatar,
+  SceneConfig,
+  SpaceZone,
+  Vector3,
+  VirtualEventSession,
+} from '@/types/virtual-events';
+import { PrismaClient } from '@prisma/client';
+import type { Namespace, Socket, Server as SocketIOServer } from 'socket.io';
+import type { ApiResponse } from '../../types';
+import {
+  diffAvatar,
+  findZone,
+  quantizePosition,
+  quantizeRotation,
+  toRemoteAvatar,
+} from '../virtual-presence';
+import { authService } from './auth.service';
+
+const prisma = new PrismaClient();
+
+const TICK_MS = 100;
+const SNAPSHOT_MS = 15000;
+
+// Avatars further away than this are not sent. Avatars already in view stay
+// until they pass the exit radius, so people standing at the edge do not
+// flicker in and out.
+const INTEREST_RADIUS = 20;
+const INTEREST_EXIT_RADIUS = 24;
+
+// However crowded a booth gets, each client is sent its nearest avatars only
+const MAX_VISIBLE_AVATARS = 50;
+
+// Moves beyond this are dropped; clients send about ten a second
+const MAX_MOVES_PER_SECOND = 20;
+const MAX_COORDINATE = 10000;
+const MAX_ANIMATION_LENGTH = 32;
+
+type Ack<T = any> = (response: ApiResponse<T>) => void;
+
+/**
+ * Where someone is standing, for services that build on presence
+ */
+export interface PresenceParticipant {
+  sessionId: string;
+  userId: string;
+  // Changes when the same session reconnects or opens in another tab
+  socketId: string;
+  position: Vector3;
+  rotation: Vector3;
+  zoneId: string | null;
+}
+
+export type SpaceChangeListener = (
+  spaceId: string,
+  participants: PresenceParticipant[]
+) => void;
+
+interface PresenceMember {
+  socket: Socket;
+  sessionId: string;
+  userId: string;
+  position: Vector3;
+  rotation: Vector3;
+  avatar: PresenceAvatar;
+  zoneId: string | null;
+  cell: string;
+  // What this client was last sent: its zone and the avatars it can see
+  sentZoneId?: string | null;
+  sent: Map<string, PresenceAvatar>;
+  // Moved since the last snapshot
+  dirty: boolean;
+  moveWindowStart: number;
+  movesInWindow: number;
+}
+
+interface PresenceSpace {
+  id: string;
+  zones: SpaceZone[];
+  floor?: { width: number; depth: number };
+  members: Map<string, PresenceMember>;
+  // Members by grid cell, so finding neighbours does not scan the space
+  grid: Map<string, Set<string>>;
+  changed: boolean;
+}
+
+/**
+ * Live avatar presence in virtual event spaces, over the `/virtual-events`
+ * namespace of the signaling server's socket.io instance.
+ *
+ * Clients send their position as often as they like. The server keeps the
+ * latest one in memory and, on a fixed tick, sends each client the avatars
+ * near it in the same zone, as changes since what that client was last sent.
+ * Positions are written back to the `VirtualEventSession` on a slower
+ * snapshot timer and when the client leaves.
+ */
+export class VirtualEventPresenceService {
+  private namespace?: Namespace;
+  private spaces = new Map<string, PresenceSpace>();
+  private timers: NodeJS.Timeout[] = [];
+  private listeners: SpaceChangeListener[] = [];
+
+  constructor(private options: { tickMs?: number; snapshotMs?: number } = {}) {}
+
+  /**
+   * Start serving the presence namespace on a socket.io server
+   */
+  attach(io: SocketIOServer): void {
+    this.namespace = io.of('/virtual-events');
+    this.namespace.use((socket, next) => this.authenticate(socket, next));
+    this.namespace.on('connection', socket => this.handleConnection(socket));
+
+    this.timers = [
+      setInterval(() => this.tick(), this.options.tickMs ?? TICK_MS),
+      setInterval(
+        () => this.snapshot(),
+        this.options.snapshotMs ?? SNAPSHOT_MS
+      ),
+    ];
+    this.timers.forEach(timer => timer.unref());
+  }
+
+  /**
+   * Live avatars in a space
+   */
+  getAvatars(spaceId: string): RemoteAvatar[] {
+    const space = this.spaces.get(spaceId);
+    if (!space) return [];
+
+    return [...space.members.values()].map(member =>
+      toRemoteAvatar(member.avatar)
+    );
+  }
+
+  /**
+   * Call the listener with everyone in a space after each tick in which
+   * someone there moved, joined or left. A space that empties is reported
+   * once with nobody in it. Returns a function that removes the listener.
+   */
+  onSpaceChanged(listener: SpaceChangeListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(other => other !== listener);
+    };
+  }
+
+  /**
+   * The space and session a socket has joined, if any
+   */
+  getSocketSession(
+    socket: Socket
+  ): { spaceId: string; sessionId: string } | null {
+    return this.memberFor(socket) ? socket.data.presence : null;
+  }
+
+  /**
+   * Emit an event to the socket connected for a session. Returns false if
+   * the session is not in the space.
+   */
+  sendToSession(
+    spaceId: string,
+    sessionId: string,
+    event: string,
+    data: unknown
+  ): boolean {
+    const member = this.spaces.get(spaceId)?.members.get(sessionId);
+    if (!member) return false;
+
+    member.socket.emit(event, data);
+    return true;
+  }
+
+  /**
+   * Replace stored positions with live ones where the session is connected
+   */
+  withLivePositions(sessions: VirtualEventSession[]): VirtualEventSession[] {
+    return sessions.map(session => {
+      const member = this.spaces.get(session.spaceId)?.members.get(session.id);
+      return member
+        ? { ...session, position: member.position, rotation: member.rotation }
+        : session;
+    });
+  }
+
+  /**
+   * Pick up new zones or floor size after a space's scene is edited
+   */
+  updateScene(spaceId: string, sceneConfig: SceneConfig): void {
+    const space = this.spaces.get(spaceId);
+    if (!space) return;
+
+    space.zones = sceneConfig.zones || [];
+    space.floor = sceneConfig.floor?.size;
+    space.members.forEach(member => {
+      member.zoneId = findZone(space.zones, member.position)?.id ?? null;
+    });
+    space.changed = true;
+  }
+
+  /**
+   * Send every client in a changed space what changed around it. Runs on
+   * the tick timer.
+   */
+  tick(): void {
+    this.spaces.forEach(space => {
+      if (!space.changed) return;
+      space.changed = false;
+
+      space.members.forEach(member => this.sendUpdate(space, member));
+      this.notify(space.id, [...space.members.values()]);
+    });
+  }
+
+  /**
+   * Save the positions of everyone who moved since the last snapshot. Runs
+   * on the snapshot timer.
+   */
+  async snapshot(): Promise<number> {
+    const moved: PresenceMember[] = [];
+    this.spaces.forEach(space =>
+      space.members.forEach(member => {
+        if (member.dirty) {
+          member.dirty = false;
+          moved.push(member);
+        }
+      })
+    );
+
+    if (moved.length === 0) return 0;
+
+    // One write per session, so a session deleted meanwhile updates nothing
+    // instead of failing everyone else's
+    const results = await Promise.allSettled(
+      moved.map(member =>
+        prisma.virtualEventSession.updateMany({
+          where: { id: member.sessionId },
+          data: {
+            position: member.position as any,
+            rotation: member.rotation as any,
+          },
+        })
+      )
+    );
+
+    let saved = 0;
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        saved += result.value.count;
+      } else {
+        console.error('Presence snapshot error:', result.reason);
+        moved[index].dirty = true;
+      }
+    });
+
+    return saved;
+  }
+
+  /**
+   * Stop serving the namespace, save positions and disconnect its sockets
+   */
+  async close(): Promise<void> {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+    await this.snapshot();
+
+    this.namespace?.disconnectSockets(true);
+    this.namespace = undefined;
+    this.spaces.clear();
+    this.listeners = [];
+  }
+
+  private authenticate(socket: Socket, next: (error?: Error) => void): void {
+    try {
+      const token = socket.handshake.auth?.token;
+      const decoded = token ? authService.verifyAccessToken(token) : null;
+
+      if (!decoded || !decoded.id) {
+        return next(new Error('Unauthorized'));
+      }
+
+      socket.data.userId = decoded.id;
+      next();
+    } catch {
+      next(new Error('Unauthorized'));
+    }
+  }
+
+  private handleConnection(socket: Socket): void {
+    socket.on('join-space', async (data: any, ack: Ack) => {
+      if (typeof data?.sessionId !== 'string') {
+        return this.reply(ack, { success: false, error: 'Invalid session' });
+      }
+
+      try {
+        const zoneId = await this.join(socket, data.sessionId);
+        this.reply(ack, { success: true, data: { zoneId } });
+      } catch (error: any) {
+        this.reply(ack, { success: false, error: error.message });
+      }
+    });
+
+    socket.on('move', (data: any) => this.move(socket, data));
+
+    socket.on('leave-space', async (ack?: Ack) => {
+      await this.leave(socket);
+      this.reply(ack, { success: true });
+    });
+
+    socket.on('disconnect', () => this.leave(socket));
+  }
+
+  private async join(
+    socket: Socket,
+    sessionId: string
+  ): Promise<string | null> {
+    const session = await prisma.virtualEventSession.findUnique({
+      where: { id: sessionId },
+      include: { space: true },
+    });
+
+    if (
+      !session ||
+      session.userId !== socket.data.userId ||
+      !session.isActive ||
+      !session.space.isActive
+    ) {
+      throw new Error('Session not found');
+    }
+
+    if (!socket.connected) {
+      throw new Error('Disconnected');
+    }
+
+    await this.leave(socket);
+
+    let space = this.spaces.get(session.spaceId);
+    if (!space) {
+      const sceneConfig = session.space.sceneConfig as unknown as SceneConfig;
+      space = {
+        id: session.spaceId,
+        zones: sceneConfig?.zones || [],
+        floor: sceneConfig?.floor?.size,
+        members: new Map(),
+        grid: new Map(),
+        changed: false,
+      };
+      this.spaces.set(space.id, space);
+    }
+
+    // The same session opened again, say in a new tab, takes over
+    const previous = space.members.get(sessionId);
+    if (previous) {
+      this.removeMember(space, previous);
+      previous.socket.data.presence = undefined;
+    }
+
+    const member: PresenceMember = {
+      socket,
+      sessionId,
+      userId: session.userId,
+      position: { x: 0, y: 0, z: 0 },
+      rotation: { x: 0, y: 0, z: 0 },
+      avatar: {
+        id: sessionId,
+        userId: session.userId,
+        p: [0, 0, 0],
+        r: [0, 0, 0],
+      },
+      zoneId: null,
+      cell: '',
+      sent: new Map(),
+      dirty: false,
+      moveWindowStart: 0,
+      movesInWindow: 0,
+    };
+    space.members.set(sessionId, member);
+    this.spaces.set(space.id, space);
+    socket.data.presence = { spaceId: space.id, sessionId };
+
+    this.place(
+      space,
+      member,
+      this.readVector(session.position) || member.position,
+      this.readVector(session.rotation) || member.rotation
+    );
+    member.dirty = false;
+
+    return member.zoneId;
+  }
+
+  private move(socket: Socket, data: any): void {
+    const member = this.memberFor(socket);
+    if (!member) return;
+
+    const now = Date.now();
+    if (now - member.moveWindowStart >= 1000) {
+      member.moveWindowStart = now;
+      member.movesInWindow = 0;
+    }
+    if (++member.movesInWindow > MAX_MOVES_PER_SECOND) return;
+
+    const position = this.readVector(data?.position);
+    const rotation = this.readVector(data?.rotation);
+    if (!position || !rotation) return;
+
+    const animation =
+      typeof data.animation === 'string'
+        ? data.animation.slice(0, MAX_ANIMATION_LENGTH)
+        : undefined;
+
+    const space = this.spaces.get(socket.data.presence.spaceId)!;
+    this.place(space, member, position, rotation, animation);
+  }
+
+  private async leave(socket: Socket): Promise<void> {
+    const member = this.memberFor(socket);
+    if (!member) return;
+
+    const space = this.spaces.get(socket.data.presence.spaceId)!;
+    socket.data.presence = undefined;
+    this.removeMember(space, member);
+
+    if (member.dirty) {
+      try {
+        await prisma.virtualEventSession.update({
+          where: { id: member.sessionId },
+          data: {
+            position: member.position as any,
+            rotation: member.rotation as any,
+          },
+        });
+      } catch (error) {
+        console.error('Presence save error:', error);
+      }
+    }
+  }
+
+  private memberFor(socket: Socket): PresenceMember | undefined {
+    const { presence } = socket.data;
+    if (!presence) return undefined;
+
+    const member = this.spaces
+      .get(presence.spaceId)
+      ?.members.get(presence.sessionId);
+    return member?.socket === socket ? member : undefined;
+  }
+
+  private place(
+    space: PresenceSpace,
+    member: PresenceMember,
+    position: Vector3,
+    rotation: Vector3,
+    animation?: string
+  ): void {
+    // The floor is centred on the origin
+    const halfWidth = space.floor ? space.floor.width / 2 : MAX_COORDINATE;
+    const halfDepth = space.floor ? space.floor.depth / 2 : MAX_COORDINATE;
+    member.position = {
+      x: clamp(position.x, halfWidth),
+      y: clamp(position.y, MAX_COORDINATE),
+      z: clamp(position.z, halfDepth),
+    };
+    member.rotation = rotation;
+
+    // Moves without an animation keep the current one
+    const a = animation !== undefined ? animation : member.avatar.a;
+    member.avatar = {
+      id: member.sessionId,
+      userId: member.userId,
+      p: quantizePosition(member.position),
+      r: quantizeRotation(rotation),
+      ...(a ? { a } : {}),
+    };
+    member.zoneId = findZone(space.zones, member.position)?.id ?? null;
+
+    const cell = cellKey(member.position);
+    if (cell !== member.cell) {
+      space.grid.get(member.cell)?.delete(member.sessionId);
+      if (!space.grid.has(cell)) {
+        space.grid.set(cell, new Set());
+      }
+      space.grid.get(cell)!.add(member.sessionId);
+      member.cell = cell;
+    }
+
+    member.dirty = true;
+    space.changed = true;
+  }
+
+  private removeMember(space: PresenceSpace, member: PresenceMember): void {
+    space.members.delete(member.sessionId);
+
+    const cell = space.grid.get(member.cell);
+    cell?.delete(member.sessionId);
+    if (cell?.size === 0) {
+      space.grid.delete(member.cell);
+    }
+
+    if (space.members.size === 0) {
+      this.spaces.delete(space.id);
+      this.notify(space.id, []);
+    } else {
+      space.changed = true;
+    }
+  }
+
+  /**
+   * The nearest avatars in the member's zone and interest radius
+   */
+  private visibleTo(
+    space: PresenceSpace,
+    member: PresenceMember
+  ): PresenceMember[] {
+    const [cellX, cellZ] = member.cell.split(':').map(Number);
+    const nearby: Array<{ other: PresenceMember; distance: number }> = [];
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        space.grid.get(`${cellX + dx}:${cellZ + dz}`)?.forEach(sessionId => {
+          const other = space.members.get(sessionId);
+          if (!other || other === member || other.zoneId !== member.zoneId) {
+            return;
+          }
+
+          const distance = Math.hypot(
+            other.position.x - member.position.x,
+            other.position.y - member.position.y,
+            other.position.z - member.position.z
+          );
+          const radius = member.sent.has(sessionId)
+            ? INTEREST_EXIT_RADIUS
+            : INTEREST_RADIUS;
+          if (distance <= radius) {
+            nearby.push({ other, distance });
+          }
+        });
+      }
+    }
+
+    return nearby
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, MAX_VISIBLE_AVATARS)
+      .map(({ other }) => other);
+  }
+
+  private sendUpdate(space: PresenceSpace, member: PresenceMember): void {
+    const update: PresenceUpdate = { enter: [], move: [], leave: [] };
+    const visible = new Map<string, PresenceAvatar>();
+
+    this.visibleTo(space, member).forEach(other => {
+      visible.set(other.sessionId, other.avatar);
+
+      const previous = member.sent.get(other.sessionId);
+      if (!previous) {
+        update.enter.push(other.avatar);
+      } else {
+        const delta = diffAvatar(previous, other.avatar);
+        if (delta) update.move.push(delta);
+      }
+    });
+
+    member.sent.forEach((_, sessionId) => {
+      if (!visible.has(sessionId)) update.leave.push(sessionId);
+    });
+    member.sent = visible;
+
+    if (member.sentZoneId !== member.zoneId) {
+      update.zoneId = member.zoneId;
+      member.sentZoneId = member.zoneId;
+    }
+
+    if (
+      update.enter.length > 0 ||
+      update.move.length > 0 ||
+      update.leave.length > 0 ||
+      update.zoneId !== undefined
+    ) {
+      member.socket.emit('presence', update);
+    }
+  }
+
+  private notify(spaceId: string, members: PresenceMember[]): void {
+    if (this.listeners.length === 0) return;
+
+    const participants = members.map(member => ({
+      sessionId: member.sessionId,
+      userId: member.userId,
+      socketId: member.socket.id,
+      position: member.position,
+      rotation: member.rotation,
+      zoneId: member.zoneId,
+    }));
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(spaceId, participants);
+      } catch (error) {
+        console.error('Presence listener error:', error);
+      }
+    });
+  }
+
+  private readVector(value: any): Vector3 | null {
+    if (
+      !value ||
+      !Number.isFinite(value.x) ||
+      !Number.isFinite(value.y) ||
+      !Number.isFinite(value.z)
+    ) {
+      return null;
+    }
+    return { x: value.x, y: value.y, z: value.z };
+  }
+
+  private reply<T>(ack: Ack<T> | undefined, response: ApiResponse<T>): void {
+    if (typeof ack === 'function') {
+      ack(response);
+    }
+  }
+}
+
+function clamp(value: number, limit: number): number {
+  return Math.min(Math.max(value, -limit), limit);
+}
+
+// Grid cells are as wide as the exit radius, so everyone in view is in the
+// member's cell or one of its eight neighbours
+function cellKey(position: Vector3): string {
+  return `${Math.floor(position.x / INTEREST_EXIT_RADIUS)}:${Math.floor(
+    position.z / INTEREST_EXIT_RADIUS
+  )}`;
+}
+
+export const virtualEventPresenceService = new VirtualEventPresenceService();
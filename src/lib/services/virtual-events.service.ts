@@ -174,6 +174,7 @@ export class VirtualEventsService {
   async createBooth(data: {
     spaceId: string;
     companyName: string;
+    ownerId?: string;
     boothConfig: BoothConfig;
     position: Vector3;
   }): Promise<VirtualBooth> {
@@ -181,6 +182,7 @@ export class VirtualEventsService {
       data: {
         spaceId: data.spaceId,
         companyName: data.companyName,
+        ownerId: data.ownerId,
         boothConfig: data.boothConfig as any,
         position: data.position as any,
         isActive: true,
@@ -249,6 +251,28 @@ export class VirtualEventsService {
     });
   }
 
+  // Register to attend a presentation, which adds it to the user's calendar
+  async registerForPresentation(
+    presentationId: string,
+    userId: string
+  ): Promise<void> {
+    await prisma.virtualPresentationRegistration.upsert({
+      where: { presentationId_userId: { presentationId, userId } },
+      create: { presentationId, userId },
+      update: {},
+    });
+  }
+
+  // Cancel a presentation registration
+  async unregisterFromPresentation(
+    presentationId: string,
+    userId: string
+  ): Promise<void> {
+    await prisma.virtualPresentationRegistration.deleteMany({
+      where: { presentationId, userId },
+    });
+  }
+
   // Log a virtual interaction
   async logInteraction(data: {
     spaceId: string;
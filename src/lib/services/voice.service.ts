@@ -1,11 +1,6 @@
 import type { ApiResponse, VoiceRequest, VoiceResponse } from '../../types';
-
-export interface SpeechToTextConfig {
-  provider: 'google' | 'azure' | 'mock';
-  apiKey?: string;
-  region?: string;
-  endpoint?: string;
-}
+import type { SpeechToTextProvider } from './speech-to-text-provider';
+import { createSpeechToTextProvider } from './speech-to-text-provider';
 
 export interface AudioProcessingResult {
   transcription: string;
@@ -15,17 +10,10 @@ export interface AudioProcessingResult {
 }
 
 export class VoiceService {
-  private config: SpeechToTextConfig;
+  private provider: SpeechToTextProvider;
 
-  constructor() {
-    this.config = {
-      provider: (process.env.SPEECH_PROVIDER as 'google' | 'azure') || 'mock',
-      apiKey:
-        process.env.GOOGLE_SPEECH_TO_TEXT_API_KEY ||
-        process.env.AZURE_SPEECH_KEY,
-      region: process.env.AZURE_SPEECH_REGION,
-      endpoint: process.env.SPEECH_ENDPOINT,
-    };
+  constructor(provider: SpeechToTextProvider = createSpeechToTextProvider()) {
+    this.provider = provider;
   }
 
   /**
@@ -91,155 +79,9 @@ export class VoiceService {
     language: 'en' | 'hi' | 'es' | 'fr' | 'de' | 'ta' | 'te'
   ): Promise<ApiResponse<AudioProcessingResult>> {
     try {
-      switch (this.config.provider) {
-        case 'google':
-          return await this.googleSpeechToText(audioData, language);
-        case 'azure':
-          return await this.azureSpeechToText(audioData, language);
-        case 'mock':
-        default:
-          return await this.mockSpeechToText(audioData, language);
-      }
-    } catch (error) {
-      console.error('Speech to text error:', error);
-      return {
-        success: false,
-        error: 'Failed to convert speech to text',
-      };
-    }
-  }
-
-  /**
-   * Google Speech-to-Text implementation
-   */
-  private async googleSpeechToText(
-    audioData: Blob,
-    language: 'en' | 'hi' | 'es' | 'fr' | 'de' | 'ta' | 'te'
-  ): Promise<ApiResponse<AudioProcessingResult>> {
-    try {
-      if (!this.config.apiKey) {
-        throw new Error('Google Speech API key not configured');
-      }
-
-      // Convert language code
-      const languageCodeMap: Record<string, string> = {
-        en: 'en-US',
-        hi: 'hi-IN',
-        es: 'es-ES',
-        fr: 'fr-FR',
-        de: 'de-DE',
-        ta: 'ta-IN',
-        te: 'te-IN',
-      };
-      const languageCode = languageCodeMap[language];
-
-      // Convert Blob to base64
-      const arrayBuffer = await audioData.arrayBuffer();
-      const base64Audio = Buffer.from(arrayBuffer).toString('base64');
-
-      // Google Speech-to-Text API request
-      const response = await fetch(
-        'https://speech.googleapis.com/v1/speech:recognize',
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${this.config.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            config: {
-              encoding: 'WEBM_OPUS',
-              sampleRateHertz: 48000,
-              languageCode,
-              enableAutomaticPunctuation: true,
-              model: 'latest_long',
-            },
-            audio: {
-              content: base64Audio,
-            },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`Google Speech API error: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-
-      if (!result.results || result.results.length === 0) {
-        return {
-          success: false,
-          error: 'No speech detected in audio',
-        };
-      }
-
-      const bestResult = result.results[0];
-      const { transcript } = bestResult.alternatives[0];
-      const confidence = bestResult.alternatives[0].confidence || 0.8;
-
-      return {
-        success: true,
-        data: {
-          transcription: transcript,
-          confidence,
-          language: languageCode,
-        },
-        message: 'Speech transcribed successfully',
-      };
-    } catch (error) {
-      console.error('Google Speech-to-Text error:', error);
-      return {
-        success: false,
-        error: 'Failed to transcribe with Google Speech API',
-      };
-    }
-  }
-
-  /**
-   * Azure Speech-to-Text implementation
-   */
-  private async azureSpeechToText(
-    audioData: Blob,
-    language: 'en' | 'hi' | 'es' | 'fr' | 'de' | 'ta' | 'te'
-  ): Promise<ApiResponse<AudioProcessingResult>> {
-    try {
-      if (!this.config.apiKey || !this.config.region) {
-        throw new Error('Azure Speech API key or region not configured');
-      }
-
-      // Convert language code
-      const languageCodeMap: Record<string, string> = {
-        en: 'en-US',
-        hi: 'hi-IN',
-        es: 'es-ES',
-        fr: 'fr-FR',
-        de: 'de-DE',
-        ta: 'ta-IN',
-        te: 'te-IN',
-      };
-      const languageCode = languageCodeMap[language];
-
-      // Azure Speech-to-Text API request
-      const response = await fetch(
-        `https://${this.config.region}.stt.speech.microsoft.com/speech/recognition/conversation/cognitiveservices/v1?language=${languageCode}`,
-        {
-          method: 'POST',
-          headers: {
-            'Ocp-Apim-Subscription-Key': this.config.apiKey,
-            'Content-Type': 'audio/wav',
-          },
-          body: audioData,
-        }
-      );
+      const result = await this.provider.transcribe(audioData, language);
 
-      if (!response.ok) {
-        throw new Error(`Azure Speech API error: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-
-      if (result.RecognitionStatus !== 'Success') {
+      if (!result) {
         return {
           success: false,
           error: 'No speech detected in audio',
@@ -249,110 +91,21 @@ export class VoiceService {
       return {
         success: true,
         data: {
-          transcription: result.DisplayText,
-          confidence: result.Confidence || 0.8,
-          language: languageCode,
+          transcription: result.text,
+          confidence: result.confidence,
+          language: result.language,
         },
         message: 'Speech transcribed successfully',
       };
     } catch (error) {
-      console.error('Azure Speech-to-Text error:', error);
+      console.error('Speech to text error:', error);
       return {
         success: false,
-        error: 'Failed to transcribe with Azure Speech API',
+        error: 'Failed to convert speech to text',
       };
     }
   }
 
-  /**
-   * Mock speech-to-text for development/testing
-   */
-  private async mockSpeechToText(
-    audioData: Blob,
-    language: 'en' | 'hi' | 'es' | 'fr' | 'de' | 'ta' | 'te'
-  ): Promise<ApiResponse<AudioProcessingResult>> {
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    // Mock transcriptions based on language
-    const mockTranscriptions: Record<string, string[]> = {
-      en: [
-        'Find AI hackathons in Mumbai',
-        'Show me remote internships',
-        'I want to participate in web development workshops',
-        'Search for machine learning competitions',
-        'Find startup internships for beginners',
-      ],
-      hi: [
-        'मुंबई में AI हैकाथॉन खोजें',
-        'रिमोट इंटर्नशिप दिखाएं',
-        'वेब डेवलपमेंट वर्कशॉप में भाग लेना चाहता हूं',
-        'मशीन लर्निंग प्रतियोगिताएं खोजें',
-        'शुरुआती लोगों के लिए स्टार्टअप इंटर्नशिप खोजें',
-      ],
-      es: [
-        'Buscar hackathons de IA en Mumbai',
-        'Mostrar pasantías remotas',
-        'Quiero participar en talleres de desarrollo web',
-        'Buscar competencias de aprendizaje automático',
-        'Encontrar pasantías de startups para principiantes',
-      ],
-      fr: [
-        'Trouver des hackathons IA à Mumbai',
-        'Montrer les stages à distance',
-        'Je veux participer à des ateliers de développement web',
-        "Rechercher des compétitions d'apprentissage automatique",
-        'Trouver des stages de startups pour débutants',
-      ],
-      de: [
-        'KI-Hackathons in Mumbai finden',
-        'Remote-Praktika anzeigen',
-        'Ich möchte an Webentwicklungs-Workshops teilnehmen',
-        'Nach Machine-Learning-Wettbewerben suchen',
-        'Startup-Praktika für Anfänger finden',
-      ],
-      ta: [
-        'மும்பையில் AI ஹேக்கத்தான்களைக் கண்டறியுங்கள்',
-        'தொலைநிலை பயிற்சிகளைக் காட்டு',
-        'வலை மேம்பாட்டு பட்டறைகளில் பங்கேற்க விரும்புகிறேன்',
-        'இயந்திர கற்றல் போட்டிகளைத் தேடு',
-        'தொடக்கநிலைக்கான ஸ்டார்ட்அப் பயிற்சிகளைக் கண்டறியுங்கள்',
-      ],
-      te: [
-        'ముంబైలో AI హ్యాకథాన్‌లను కనుగొనండి',
-        'రిమోట్ ఇంటర్న్‌షిప్‌లను చూపించు',
-        'వెబ్ డెవలప్‌మెంట్ వర్క్‌షాప్‌లలో పాల్గొనాలనుకుంటున్నాను',
-        'మెషిన్ లెర్నింగ్ పోటీలను వెతకండి',
-        'ప్రారంభకుల కోసం స్టార్టప్ ఇంటర్న్‌షిప్‌లను కనుగొనండి',
-      ],
-    };
-
-    const transcriptions =
-      mockTranscriptions[language] || mockTranscriptions.en;
-    const randomTranscription =
-      transcriptions[Math.floor(Math.random() * transcriptions.length)];
-
-    const languageCodeMap: Record<string, string> = {
-      en: 'en-US',
-      hi: 'hi-IN',
-      es: 'es-ES',
-      fr: 'fr-FR',
-      de: 'de-DE',
-      ta: 'ta-IN',
-      te: 'te-IN',
-    };
-
-    return {
-      success: true,
-      data: {
-        transcription: randomTranscription,
-        confidence: 0.85 + Math.random() * 0.1, // Random confidence between 0.85-0.95
-        language: languageCodeMap[language],
-      },
-      message: 'Mock speech transcribed successfully',
-    };
-  }
-
   /**
    * Extract search intent from transcription
    */
@@ -384,7 +137,7 @@ export class VoiceService {
 
     // Clean up the query
     searchQuery = searchQuery
-      .replace(/[^\w\s]/g, ' ') // Remove special characters
+      .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ') // Remove special characters, in any script
       .replace(/\s+/g, ' ') // Normalize whitespace
       .trim();
 
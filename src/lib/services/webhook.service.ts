@@ -1,8 +1,32 @@
 import { PrismaClient } from '@prisma/client';
 import crypto from 'crypto';
+import { EVENT_CATALOG } from '../events/catalog';
+import type { DomainEvent } from '../events/event-bus';
+import { eventBus } from '../events/event-bus';
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+} from '../webhook-signature';
+import type { JobContext, QueueJob } from './job-queue.service';
+import { jobQueue } from './job-queue.service';
+import { notificationService } from './notification.service';
 
 const prisma = new PrismaClient();
 
+const DISPATCH_JOB = 'webhooks.dispatch';
+const DELIVER_JOB = 'webhooks.deliver';
+
+// Endpoints are disabled after this many deliveries in a row exhaust their
+// retries
+const DISABLE_AFTER_FAILURES = 10;
+
+// Most deliveries a single replay request will queue
+const REPLAY_LIMIT = 500;
+
+// Longest endpoint response kept on a delivery record
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
 export interface CreateWebhookInput {
   userId: string;
   apiKeyId: string;
@@ -30,17 +54,51 @@ export interface WebhookListItem {
   events: string[];
   isActive: boolean;
   retryCount: number;
+  consecutiveFailures: number;
+  disabledAt: Date | null;
+  disabledReason: string | null;
   lastTriggeredAt: Date | null;
   createdAt: Date;
 }
 
 export interface WebhookEvent {
+  id: string; // Event ID, shared by every delivery and redelivery of the event
   event: string;
   timestamp: string;
   data: any;
 }
 
+interface DeliveryAttempt {
+  success: boolean;
+  responseStatus?: number;
+  responseBody?: string;
+  errorMessage?: string;
+}
+
 export class WebhookService {
+  constructor() {
+    jobQueue.registerHandler(
+      DISPATCH_JOB,
+      (job: QueueJob<DomainEvent>) => this.dispatchEvent(job.payload),
+      { queue: 'webhooks' }
+    );
+    jobQueue.registerHandler(
+      DELIVER_JOB,
+      (job: QueueJob<{ deliveryId: string }>, context: JobContext) =>
+        this.deliverWebhook(job, context),
+      { queue: 'webhooks', backoffMs: 10000 }
+    );
+
+    // Every domain event is fanned out to webhooks from the queue, so a slow
+    // endpoint never holds up the service that emitted the event
+    eventBus.onAny(async event => {
+      await jobQueue.enqueue(DISPATCH_JOB, event, {
+        dedupeKey: `${DISPATCH_JOB}:${event.id}`,
+        subject: event.type,
+      });
+    });
+  }
+
   /**
    * Generate a webhook secret
    */
@@ -48,13 +106,6 @@ export class WebhookService {
     return crypto.randomBytes(32).toString('hex');
   }
 
-  /**
-   * Create HMAC signature for webhook payload
-   */
-  private createSignature(payload: string, secret: string): string {
-    return crypto.createHmac('sha256', secret).update(payload).digest('hex');
-  }
-
   /**
    * Create a new webhook
    */
@@ -95,19 +146,11 @@ export class WebhookService {
       orderBy: { createdAt: 'desc' },
     });
 
-    return webhooks.map(webhook => ({
-      id: webhook.id,
-      url: webhook.url,
-      events: webhook.events,
-      isActive: webhook.isActive,
-      retryCount: webhook.retryCount,
-      lastTriggeredAt: webhook.lastTriggeredAt,
-      createdAt: webhook.createdAt,
-    }));
+    return webhooks.map(toListItem);
   }
 
   /**
-   * Update webhook
+   * Update webhook. Re-enabling a webhook clears its failure streak.
    */
   async updateWebhook(
     userId: string,
@@ -125,7 +168,15 @@ export class WebhookService {
         id: webhookId,
         userId,
       },
-      data: updates,
+      data:
+        updates.isActive === true
+          ? {
+              ...updates,
+              consecutiveFailures: 0,
+              disabledAt: null,
+              disabledReason: null,
+            }
+          : updates,
     });
 
     const webhook = await prisma.webhook.findUnique({
@@ -136,15 +187,7 @@ export class WebhookService {
       throw new Error('Webhook not found');
     }
 
-    return {
-      id: webhook.id,
-      url: webhook.url,
-      events: webhook.events,
-      isActive: webhook.isActive,
-      retryCount: webhook.retryCount,
-      lastTriggeredAt: webhook.lastTriggeredAt,
-      createdAt: webhook.createdAt,
-    };
+    return toListItem(webhook);
   }
 
   /**
@@ -180,107 +223,355 @@ export class WebhookService {
 
     const webhooks = await prisma.webhook.findMany({ where });
 
-    // Trigger all matching webhooks in parallel
-    await Promise.all(
-      webhooks.map(webhook => this.deliverWebhook(webhook.id, eventType, data))
-    );
+    const payload: WebhookEvent = {
+      id: crypto.randomUUID(),
+      event: eventType,
+      timestamp: new Date().toISOString(),
+      data,
+    };
+
+    for (const webhook of webhooks) {
+      await this.queueDelivery(webhook, payload);
+    }
   }
 
   /**
-   * Deliver webhook with retries
+   * Queue a delivery of a domain event to every webhook subscribed to it.
+   * User scoped events only reach webhooks owned by the event's audience.
    */
-  private async deliverWebhook(
+  async dispatchEvent(event: DomainEvent): Promise<{ queued: number }> {
+    const definition = EVENT_CATALOG[event.type];
+    if (!definition) {
+      return { queued: 0 };
+    }
+
+    if (definition.scope === 'user' && event.audience.length === 0) {
+      return { queued: 0 };
+    }
+
+    const webhooks = await prisma.webhook.findMany({
+      where: {
+        isActive: true,
+        events: { has: event.type },
+        ...(definition.scope === 'user'
+          ? { userId: { in: event.audience } }
+          : {}),
+      },
+      select: { id: true, retryCount: true },
+    });
+
+    const payload: WebhookEvent = {
+      id: event.id,
+      event: event.type,
+      timestamp: event.occurredAt,
+      data: event.data,
+    };
+
+    let queued = 0;
+    for (const webhook of webhooks) {
+      // A retried dispatch skips webhooks it already queued the event for
+      const existing = await prisma.webhookDelivery.findFirst({
+        where: { webhookId: webhook.id, eventId: event.id },
+        select: { id: true },
+      });
+      if (existing) continue;
+
+      await this.queueDelivery(webhook, payload);
+      queued++;
+    }
+
+    return { queued };
+  }
+
+  /**
+   * Send a past delivery again as a new delivery of the same event
+   */
+  async redeliver(
+    userId: string,
     webhookId: string,
-    eventType: string,
-    data: any
-  ): Promise<void> {
-    const webhook = await prisma.webhook.findUnique({
-      where: { id: webhookId },
+    deliveryId: string
+  ): Promise<{ id: string; eventType: string; createdAt: Date }> {
+    const webhook = await this.getActiveWebhook(userId, webhookId);
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, webhookId },
     });
 
-    if (!webhook || !webhook.isActive) {
-      return;
+    if (!delivery) {
+      throw new Error('Delivery not found');
     }
 
-    const payload: WebhookEvent = {
-      event: eventType,
-      timestamp: new Date().toISOString(),
-      data,
+    const queued = await this.queueDelivery(
+      webhook,
+      delivery.payload as unknown as WebhookEvent
+    );
+
+    return {
+      id: queued.id,
+      eventType: queued.eventType,
+      createdAt: queued.createdAt,
     };
+  }
 
-    const payloadString = JSON.stringify(payload);
-    const signature = this.createSignature(payloadString, webhook.secret);
-
-    let attemptCount = 0;
-    let success = false;
-    let responseStatus: number | null = null;
-    let responseBody: string | null = null;
-    let errorMessage: string | null = null;
-
-    while (attemptCount < webhook.retryCount && !success) {
-      attemptCount++;
-
-      try {
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), webhook.timeoutMs);
-
-        const response = await fetch(webhook.url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'X-Webhook-Signature': signature,
-            'X-Webhook-Event': eventType,
-            'X-Webhook-Delivery-ID': crypto.randomUUID(),
-          },
-          body: payloadString,
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeout);
-
-        responseStatus = response.status;
-        responseBody = await response.text();
-
-        if (response.ok) {
-          success = true;
-        } else {
-          errorMessage = `HTTP ${response.status}: ${responseBody}`;
-        }
-      } catch (error: any) {
-        errorMessage = error.message;
+  /**
+   * Send every event delivered to a webhook since a point in time again, in
+   * the order they first occurred. Each event is replayed once.
+   */
+  async replayDeliveries(
+    userId: string,
+    webhookId: string,
+    since: Date,
+    options: { failedOnly?: boolean } = {}
+  ): Promise<{ queued: number }> {
+    const webhook = await this.getActiveWebhook(userId, webhookId);
+
+    const deliveries: Array<{
+      id: string;
+      payload: unknown;
+      deliveredAt: Date | null;
+    }> = await prisma.webhookDelivery.findMany({
+      where: {
+        webhookId,
+        createdAt: { gte: since },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: REPLAY_LIMIT,
+    });
+
+    const eventKey = (delivery: (typeof deliveries)[number]): string =>
+      (delivery.payload as unknown as WebhookEvent).id ?? delivery.id;
+
+    // An event counts as delivered if any of its deliveries succeeded
+    const delivered = new Set(
+      deliveries
+        .filter(delivery => delivery.deliveredAt)
+        .map(delivery => eventKey(delivery))
+    );
+
+    const replayed = new Set<string>();
+    for (const delivery of deliveries) {
+      const payload = delivery.payload as unknown as WebhookEvent;
+      const key = eventKey(delivery);
+      if (replayed.has(key) || (options.failedOnly && delivered.has(key))) {
+        continue;
       }
 
-      // Exponential backoff between retries
-      if (!success && attemptCount < webhook.retryCount) {
-        await new Promise(resolve =>
-          setTimeout(resolve, Math.pow(2, attemptCount) * 1000)
-        );
+      replayed.add(key);
+      await this.queueDelivery(webhook, payload);
+    }
+
+    return { queued: replayed.size };
+  }
+
+  /**
+   * Record a delivery and queue it. Retries happen through the job queue, up
+   * to the webhook's retry count.
+   */
+  private async queueDelivery(
+    webhook: { id: string; retryCount: number },
+    payload: WebhookEvent
+  ) {
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        webhookId: webhook.id,
+        eventId: payload.id,
+        eventType: payload.event,
+        payload: payload as any,
+        attemptCount: 0,
+      },
+    });
+
+    await jobQueue.enqueue(
+      DELIVER_JOB,
+      { deliveryId: delivery.id },
+      {
+        dedupeKey: `${DELIVER_JOB}:${delivery.id}`,
+        subject: webhook.id,
+        // The first attempt plus retryCount retries
+        maxAttempts: webhook.retryCount + 1,
       }
+    );
+
+    return delivery;
+  }
+
+  /**
+   * Make one delivery attempt. A failed attempt throws so the job queue
+   * schedules the next one with backoff.
+   */
+  private async deliverWebhook(
+    job: QueueJob<{ deliveryId: string }>,
+    context: JobContext
+  ): Promise<void> {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: job.payload.deliveryId },
+      include: { webhook: true },
+    });
+
+    if (!delivery || delivery.deliveredAt) {
+      return;
+    }
+
+    const { webhook } = delivery;
+    if (!webhook.isActive) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { errorMessage: 'Webhook is disabled' },
+      });
+      return;
     }
 
-    // Log delivery attempt
-    await prisma.webhookDelivery.create({
+    const attempt = await this.send(
+      webhook,
+      delivery.payload as unknown as WebhookEvent,
+      delivery.id
+    );
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
       data: {
-        webhookId,
-        eventType,
-        payload,
-        responseStatus,
-        responseBody,
-        errorMessage,
-        attemptCount,
-        deliveredAt: success ? new Date() : null,
+        responseStatus: attempt.responseStatus ?? null,
+        responseBody: attempt.responseBody ?? null,
+        errorMessage: attempt.errorMessage ?? null,
+        attemptCount: { increment: 1 },
+        deliveredAt: attempt.success ? new Date() : null,
       },
     });
 
-    // Update last triggered timestamp
-    if (success) {
+    if (attempt.success) {
       await prisma.webhook.update({
-        where: { id: webhookId },
-        data: { lastTriggeredAt: new Date() },
+        where: { id: webhook.id },
+        data: { lastTriggeredAt: new Date(), consecutiveFailures: 0 },
+      });
+      return;
+    }
+
+    if (context.attempt >= job.maxAttempts) {
+      await this.recordExhaustedDelivery(webhook);
+    }
+
+    throw new Error(attempt.errorMessage || 'Webhook delivery failed');
+  }
+
+  /**
+   * Count a delivery that used up its retries, disabling the webhook and
+   * notifying its owner once too many fail in a row
+   */
+  private async recordExhaustedDelivery(webhook: {
+    id: string;
+    userId: string;
+    url: string;
+  }): Promise<void> {
+    const { consecutiveFailures } = await prisma.webhook.update({
+      where: { id: webhook.id },
+      data: { consecutiveFailures: { increment: 1 } },
+      select: { consecutiveFailures: true },
+    });
+
+    if (consecutiveFailures < DISABLE_AFTER_FAILURES) {
+      return;
+    }
+
+    const reason = `${consecutiveFailures} deliveries in a row failed after all retries`;
+    const { count } = await prisma.webhook.updateMany({
+      where: { id: webhook.id, isActive: true },
+      data: { isActive: false, disabledAt: new Date(), disabledReason: reason },
+    });
+
+    // Another worker may have disabled it first
+    if (count === 0) {
+      return;
+    }
+
+    try {
+      await notificationService.sendNotification({
+        userId: webhook.userId,
+        type: 'system',
+        channels: ['email', 'in_app'],
+        priority: 'high',
+        content: {
+          title: 'Webhook disabled',
+          message: `Your webhook for ${webhook.url} was disabled because ${reason}. Fix the endpoint, re-enable it and replay the missed events.`,
+          data: { webhookId: webhook.id, url: webhook.url },
+        },
       });
+    } catch (error) {
+      console.error('Webhook disabled notification error:', error);
     }
   }
 
+  /**
+   * POST a payload to a webhook once, signed with the current timestamp
+   */
+  private async send(
+    webhook: { url: string; secret: string; timeoutMs: number },
+    payload: WebhookEvent,
+    deliveryId: string
+  ): Promise<DeliveryAttempt> {
+    const payloadString = JSON.stringify(payload);
+
+    // The timeout covers reading the response body as well as connecting
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), webhook.timeoutMs);
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            payloadString,
+            webhook.secret
+          ),
+          'X-Webhook-Event': payload.event,
+          'X-Webhook-Delivery-ID': deliveryId,
+        },
+        body: payloadString,
+        signal: controller.signal,
+      });
+
+      const responseBody = (await response.text()).slice(
+        0,
+        MAX_RESPONSE_BODY_LENGTH
+      );
+
+      return {
+        success: response.ok,
+        responseStatus: response.status,
+        responseBody,
+        errorMessage: response.ok
+          ? undefined
+          : `HTTP ${response.status}: ${responseBody}`,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        errorMessage: error.message,
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private async getActiveWebhook(userId: string, webhookId: string) {
+    const webhook = await prisma.webhook.findFirst({
+      where: {
+        id: webhookId,
+        userId,
+      },
+    });
+
+    if (!webhook) {
+      throw new Error('Webhook not found');
+    }
+
+    if (!webhook.isActive) {
+      throw new Error('Webhook is disabled. Re-enable it before redelivering');
+    }
+
+    return webhook;
+  }
+
   /**
    * Get webhook delivery logs
    */
@@ -308,6 +599,7 @@ export class WebhookService {
 
     return deliveries.map(delivery => ({
       id: delivery.id,
+      eventId: delivery.eventId,
       eventType: delivery.eventType,
       payload: delivery.payload,
       responseStatus: delivery.responseStatus,
@@ -342,6 +634,7 @@ export class WebhookService {
     }
 
     const testPayload: WebhookEvent = {
+      id: crypto.randomUUID(),
       event: 'webhook.test',
       timestamp: new Date().toISOString(),
       data: {
@@ -349,52 +642,42 @@ export class WebhookService {
       },
     };
 
-    const payloadString = JSON.stringify(testPayload);
-    const signature = this.createSignature(payloadString, webhook.secret);
-
-    try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), webhook.timeoutMs);
+    const { success, responseStatus, responseBody, errorMessage } =
+      await this.send(webhook, testPayload, crypto.randomUUID());
 
-      const response = await fetch(webhook.url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Webhook-Signature': signature,
-          'X-Webhook-Event': 'webhook.test',
-          'X-Webhook-Delivery-ID': crypto.randomUUID(),
-        },
-        body: payloadString,
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeout);
-
-      const responseBody = await response.text();
-
-      return {
-        success: response.ok,
-        responseStatus: response.status,
-        responseBody,
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        errorMessage: error.message,
-      };
-    }
+    return success || responseStatus
+      ? { success, responseStatus, responseBody }
+      : { success, errorMessage };
   }
 
   /**
    * Verify webhook signature
    */
-  verifySignature(payload: string, signature: string, secret: string): boolean {
-    const expectedSignature = this.createSignature(payload, secret);
-    return crypto.timingSafeEqual(
-      Buffer.from(signature),
-      Buffer.from(expectedSignature)
-    );
+  verifySignature(
+    payload: string,
+    signature: string,
+    secret: string,
+    toleranceSeconds?: number
+  ): boolean {
+    return verifyWebhookSignature(payload, signature, secret, {
+      toleranceSeconds,
+    }).valid;
   }
 }
 
+function toListItem(webhook: any): WebhookListItem {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    events: webhook.events,
+    isActive: webhook.isActive,
+    retryCount: webhook.retryCount,
+    consecutiveFailures: webhook.consecutiveFailures,
+    disabledAt: webhook.disabledAt,
+    disabledReason: webhook.disabledReason,
+    lastTriggeredAt: webhook.lastTriggeredAt,
+    createdAt: webhook.createdAt,
+  };
+}
+
 export const webhookService = new WebhookService();
@@ -0,0 +1,139 @@
+/**
+ * Canonical skill names shared by opportunity ingestion and resume analysis
+ *
+ * Scraped listings and resumes spell skills many ways ("reactjs", "k8s",
+ * "Node"). Both sides are mapped onto the same canonical names so that an
+ * opportunity's requiredSkills can be compared with the skills found in a
+ * resume.
+ */
+
+const SKILL_ALIASES: Record<string, string> = {
+  js: 'JavaScript',
+  javascript: 'JavaScript',
+  ts: 'TypeScript',
+  typescript: 'TypeScript',
+  py: 'Python',
+  python: 'Python',
+  java: 'Java',
+  'c++': 'C++',
+  cpp: 'C++',
+  'c#': 'C#',
+  csharp: 'C#',
+  golang: 'Go',
+  rust: 'Rust',
+  kotlin: 'Kotlin',
+  swift: 'Swift',
+  php: 'PHP',
+  ruby: 'Ruby',
+  sql: 'SQL',
+  html: 'HTML',
+  css: 'CSS',
+  tailwind: 'Tailwind CSS',
+  tailwindcss: 'Tailwind CSS',
+  react: 'React',
+  reactjs: 'React',
+  'react.js': 'React',
+  'react native': 'React Native',
+  nextjs: 'Next.js',
+  'next.js': 'Next.js',
+  vue: 'Vue.js',
+  vuejs: 'Vue.js',
+  'vue.js': 'Vue.js',
+  angular: 'Angular',
+  node: 'Node.js',
+  nodejs: 'Node.js',
+  'node.js': 'Node.js',
+  expressjs: 'Express',
+  'express.js': 'Express',
+  django: 'Django',
+  flask: 'Flask',
+  graphql: 'GraphQL',
+  flutter: 'Flutter',
+  android: 'Android',
+  mysql: 'MySQL',
+  postgres: 'PostgreSQL',
+  postgresql: 'PostgreSQL',
+  mongo: 'MongoDB',
+  mongodb: 'MongoDB',
+  redis: 'Redis',
+  git: 'Git',
+  linux: 'Linux',
+  docker: 'Docker',
+  k8s: 'Kubernetes',
+  kubernetes: 'Kubernetes',
+  aws: 'AWS',
+  azure: 'Azure',
+  gcp: 'Google Cloud',
+  'google cloud': 'Google Cloud',
+  'ci/cd': 'CI/CD',
+  ml: 'Machine Learning',
+  'machine learning': 'Machine Learning',
+  'deep learning': 'Deep Learning',
+  ai: 'Artificial Intelligence',
+  'artificial intelligence': 'Artificial Intelligence',
+  nlp: 'NLP',
+  ds: 'Data Science',
+  'data science': 'Data Science',
+  'data analysis': 'Data Analysis',
+  tensorflow: 'TensorFlow',
+  pytorch: 'PyTorch',
+  pandas: 'Pandas',
+  numpy: 'NumPy',
+  sklearn: 'scikit-learn',
+  'scikit-learn': 'scikit-learn',
+  figma: 'Figma',
+  solidity: 'Solidity',
+  blockchain: 'Blockchain',
+};
+
+// Characters that continue a skill token ("c++", "node.js", "c#")
+const TOKEN_CHARS = 'a-z0-9+#';
+
+/**
+ * Map a skill onto its canonical name. Unknown skills are capitalized.
+ */
+export function standardizeSkill(skill: string): string {
+  const value = skill.trim().toLowerCase();
+  return SKILL_ALIASES[value] || value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Standardize a list of skills, dropping blanks and duplicates
+ */
+export function standardizeSkills(skills: string[]): string[] {
+  return skills
+    .filter(skill => skill.trim().length > 0)
+    .map(standardizeSkill)
+    .filter((skill, index, arr) => arr.indexOf(skill) === index);
+}
+
+/**
+ * Find every known skill mentioned in free text. Extra skills (such as an
+ * opportunity's requirements) are matched by name alongside the taxonomy.
+ */
+export function findSkills(text: string, extraSkills: string[] = []): string[] {
+  const value = text.toLowerCase();
+  const names = new Map<string, string>();
+
+  for (const [alias, skill] of Object.entries(SKILL_ALIASES)) {
+    names.set(alias, skill);
+    names.set(skill.toLowerCase(), skill);
+  }
+  for (const skill of standardizeSkills(extraSkills)) {
+    names.set(skill.toLowerCase(), skill);
+  }
+
+  const found = new Set<string>();
+  for (const [name, skill] of names) {
+    const pattern = new RegExp(
+      `(?<![${TOKEN_CHARS}.])${escapeRegExp(name)}(?![${TOKEN_CHARS}])`
+    );
+    if (pattern.test(value)) found.add(skill);
+  }
+
+  return [...found];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
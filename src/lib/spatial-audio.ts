@@ -0,0 +1,258 @@
+/**
+ * Proximity spatial audio for virtual event spaces
+ *
+ * Works out from avatar positions who should be connected to whom, how loud
+ * each peer should play and where it sits in the stereo field. Audio goes
+ * peer to peer, so each person only connects to the few people near them
+ * in the same zone, plus any booth broadcast they are standing in.
+ */
+
+import type { AudioLink, Vector3 } from '@/types/virtual-events';
+
+export interface AudioParticipant {
+  sessionId: string;
+  userId: string;
+  position: Vector3;
+  rotation: Vector3;
+  zoneId: string | null;
+}
+
+export interface AudioBroadcast {
+  sessionId: string; // who is broadcasting
+  center: Vector3;
+  radius: number;
+}
+
+export interface AudioPlan {
+  // Listener session, then peer session, to the link
+  links: Map<string, Map<string, AudioLink>>;
+  // Sessions in a conversation with someone, to the smallest session ID in
+  // that conversation
+  groups: Map<string, string>;
+}
+
+export interface AudioPlanOptions {
+  hearingRadius: number;
+  broadcasts?: AudioBroadcast[];
+  // Whether two sessions are already connected. Connections stay open a
+  // little past the radius, so people at the edge are not reconnected on
+  // every step.
+  connected?: (a: string, b: string) => boolean;
+}
+
+// Full volume up to this distance, then falling off with the inverse of it,
+// as in the Web Audio 'inverse' distance model
+const REFERENCE_DISTANCE = 1.5;
+const ROLLOFF_FACTOR = 1;
+
+// The last fifth of the radius fades out to silence
+const FADE_FROM = 0.8;
+
+const KEEP_CONNECTED = 1.25;
+
+export const MAX_AUDIO_PEERS = 8;
+export const MAX_BROADCAST_LISTENERS = 50;
+
+/**
+ * How loud a peer plays at a distance, from 1 down to 0 at the radius
+ */
+export function computeGain(
+  distance: number,
+  maxDistance: number,
+  referenceDistance = REFERENCE_DISTANCE
+): number {
+  if (distance >= maxDistance) return 0;
+
+  let gain =
+    distance <= referenceDistance
+      ? 1
+      : referenceDistance /
+        (referenceDistance + ROLLOFF_FACTOR * (distance - referenceDistance));
+
+  const fadeFrom = maxDistance * FADE_FROM;
+  if (distance > fadeFrom) {
+    gain *= (maxDistance - distance) / (maxDistance - fadeFrom);
+  }
+
+  return round(gain);
+}
+
+/**
+ * Where a sound is for a listener, from -1 (left) to 1 (right). Rotation is
+ * the avatar's yaw, with 0 facing -Z as in three.js.
+ */
+export function computePan(
+  listener: { position: Vector3; rotation: Vector3 },
+  source: Vector3
+): number {
+  const dx = source.x - listener.position.x;
+  const dz = source.z - listener.position.z;
+  const length = Math.hypot(dx, dz);
+  if (length < 0.01) return 0;
+
+  const yaw = listener.rotation.y;
+  return round((dx * Math.cos(yaw) - dz * Math.sin(yaw)) / length);
+}
+
+/**
+ * Who is connected to whom in a space and how each of them hears the other.
+ * Links are symmetric: if one side is connected, so is the other, even
+ * where only one of them can hear.
+ */
+export function planAudio(
+  participants: AudioParticipant[],
+  options: AudioPlanOptions
+): AudioPlan {
+  const { hearingRadius, broadcasts = [] } = options;
+  const connected = options.connected || (() => false);
+  const bySession = new Map(participants.map(p => [p.sessionId, p]));
+
+  const pairs = new Set<string>();
+  // Listener, then broadcaster, to how loud the broadcast plays
+  const heard = new Map<string, Map<string, number>>();
+  const unionFind = new UnionFind();
+
+  // Nearest people in the same zone; the open floor counts as a zone
+  participants.forEach(listener => {
+    nearest(participants, listener.position, MAX_AUDIO_PEERS, other => {
+      if (other === listener || other.zoneId !== listener.zoneId) return null;
+
+      const distance = distanceBetween(listener.position, other.position);
+      if (distance < hearingRadius) {
+        unionFind.union(listener.sessionId, other.sessionId);
+      }
+      const radius = connected(listener.sessionId, other.sessionId)
+        ? hearingRadius * KEEP_CONNECTED
+        : hearingRadius;
+      return distance <= radius ? distance : null;
+    }).forEach(other =>
+      pairs.add(pairKey(listener.sessionId, other.sessionId))
+    );
+  });
+
+  // Everyone inside a broadcast's radius hears it, whatever zone they are in
+  broadcasts.forEach(broadcast => {
+    if (!bySession.has(broadcast.sessionId)) return;
+
+    nearest(participants, broadcast.center, MAX_BROADCAST_LISTENERS, other => {
+      if (other.sessionId === broadcast.sessionId) return null;
+
+      const distance = distanceBetween(broadcast.center, other.position);
+      const radius = connected(other.sessionId, broadcast.sessionId)
+        ? broadcast.radius * KEEP_CONNECTED
+        : broadcast.radius;
+      return distance <= radius ? distance : null;
+    }).forEach(listener => {
+      const distance = distanceBetween(broadcast.center, listener.position);
+      if (!heard.has(listener.sessionId)) {
+        heard.set(listener.sessionId, new Map());
+      }
+      heard
+        .get(listener.sessionId)!
+        .set(
+          broadcast.sessionId,
+          computeGain(distance, broadcast.radius, broadcast.radius)
+        );
+      pairs.add(pairKey(listener.sessionId, broadcast.sessionId));
+    });
+  });
+
+  const links = new Map<string, Map<string, AudioLink>>();
+  const addLink = (listener: AudioParticipant, peer: AudioParticipant) => {
+    const broadcastGain = heard.get(listener.sessionId)?.get(peer.sessionId);
+    const proximityGain =
+      peer.zoneId === listener.zoneId
+        ? computeGain(
+            distanceBetween(listener.position, peer.position),
+            hearingRadius
+          )
+        : 0;
+
+    if (!links.has(listener.sessionId)) {
+      links.set(listener.sessionId, new Map());
+    }
+    links.get(listener.sessionId)!.set(peer.sessionId, {
+      sessionId: peer.sessionId,
+      userId: peer.userId,
+      gain: Math.max(proximityGain, broadcastGain ?? 0),
+      pan: computePan(listener, peer.position),
+      kind: broadcastGain !== undefined ? 'broadcast' : 'proximity',
+      initiator: listener.sessionId < peer.sessionId,
+    });
+  };
+
+  pairs.forEach(key => {
+    const [a, b] = key.split('|').map(id => bySession.get(id)!);
+    addLink(a, b);
+    addLink(b, a);
+  });
+
+  const members = new Map<string, string[]>();
+  participants.forEach(({ sessionId }) => {
+    const root = unionFind.find(sessionId);
+    members.set(root, [...(members.get(root) || []), sessionId]);
+  });
+
+  const groups = new Map<string, string>();
+  members.forEach(sessionIds => {
+    if (sessionIds.length < 2) return;
+    const groupId = [...sessionIds].sort()[0];
+    sessionIds.forEach(sessionId => groups.set(sessionId, groupId));
+  });
+
+  return { links, groups };
+}
+
+/**
+ * The closest participants the filter accepts, where it returns their
+ * distance, or null to leave them out
+ */
+function nearest(
+  participants: AudioParticipant[],
+  from: Vector3,
+  limit: number,
+  filter: (participant: AudioParticipant) => number | null
+): AudioParticipant[] {
+  const found: Array<{ participant: AudioParticipant; distance: number }> = [];
+  participants.forEach(participant => {
+    const distance = filter(participant);
+    if (distance !== null) found.push({ participant, distance });
+  });
+
+  return found
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ participant }) => participant);
+}
+
+function distanceBetween(a: Vector3, b: Vector3): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function round(value: number): number {
+  // `|| 0` turns -0 into 0
+  return Math.round(value * 100) / 100 || 0;
+}
+
+class UnionFind {
+  private parents = new Map<string, string>();
+
+  find(id: string): string {
+    const parent = this.parents.get(id);
+    if (!parent || parent === id) return id;
+
+    const root = this.find(parent);
+    this.parents.set(id, root);
+    return root;
+  }
+
+  union(a: string, b: string): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) this.parents.set(rootA, rootB);
+  }
+}
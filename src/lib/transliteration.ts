@@ -0,0 +1,390 @@
+/**
+ * Rule-based transliteration between Devanagari and Roman script for search
+ *
+ * Many users type Hindi in Roman script ("internship bangalore mein") and
+ * voice transcription returns Devanagari even for English loanwords
+ * ("इंटर्नशिप"). Neither matches the other script as is, so queries are
+ * transliterated before they reach the index. The rules follow everyday
+ * Hinglish spelling rather than a formal scheme: long and short vowels share
+ * a letter and the inherent vowel is dropped at the end of a word. Search
+ * pairs the output with fuzzy matching, so close is good enough.
+ */
+
+const INDEPENDENT_VOWELS: Record<string, string> = {
+  अ: 'a',
+  आ: 'a',
+  इ: 'i',
+  ई: 'i',
+  उ: 'u',
+  ऊ: 'u',
+  ऋ: 'ri',
+  ए: 'e',
+  ऐ: 'ai',
+  ओ: 'o',
+  औ: 'au',
+  ऑ: 'o',
+};
+
+const VOWEL_SIGNS: Record<string, string> = {
+  'ा': 'a',
+  'ि': 'i',
+  'ी': 'i',
+  'ु': 'u',
+  'ू': 'u',
+  'ृ': 'ri',
+  'े': 'e',
+  'ै': 'ai',
+  'ो': 'o',
+  'ौ': 'au',
+  'ॉ': 'o',
+};
+
+const CONSONANTS: Record<string, string> = {
+  क: 'k',
+  ख: 'kh',
+  ग: 'g',
+  घ: 'gh',
+  ङ: 'n',
+  च: 'ch',
+  छ: 'chh',
+  ज: 'j',
+  झ: 'jh',
+  ञ: 'n',
+  ट: 't',
+  ठ: 'th',
+  ड: 'd',
+  ढ: 'dh',
+  ण: 'n',
+  त: 't',
+  थ: 'th',
+  द: 'd',
+  ध: 'dh',
+  न: 'n',
+  प: 'p',
+  फ: 'ph',
+  ब: 'b',
+  भ: 'bh',
+  म: 'm',
+  य: 'y',
+  र: 'r',
+  ल: 'l',
+  व: 'v',
+  श: 'sh',
+  ष: 'sh',
+  स: 's',
+  ह: 'h',
+};
+
+// Consonants written with a nukta for Persian and English sounds
+const NUKTA_CONSONANTS: Record<string, string> = {
+  क: 'q',
+  ख: 'kh',
+  ग: 'g',
+  ज: 'z',
+  ड: 'r',
+  ढ: 'rh',
+  फ: 'f',
+};
+
+const NUKTA = '़';
+const VIRAMA = '्';
+const NASALS: Record<string, string> = { 'ं': 'n', 'ँ': 'n', 'ः': 'h' };
+const LABIALS = new Set(['प', 'फ', 'ब', 'भ', 'म']);
+
+/**
+ * Write Devanagari text in Roman script. Other characters pass through.
+ */
+export function devanagariToLatin(text: string): string {
+  // Precomposed nukta letters (U+0958-U+095F) become base + nukta
+  const chars = Array.from(text.normalize('NFD'));
+  let output = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+
+    if (CONSONANTS[char]) {
+      let latin = CONSONANTS[char];
+      if (chars[i + 1] === NUKTA) {
+        latin = NUKTA_CONSONANTS[char] || latin;
+        i++;
+      }
+
+      const next = chars[i + 1];
+      if (next && VOWEL_SIGNS[next]) {
+        output += latin + VOWEL_SIGNS[next];
+        i++;
+      } else if (next === VIRAMA) {
+        output += latin;
+        i++;
+      } else if (
+        next &&
+        (CONSONANTS[next] || NASALS[next] || INDEPENDENT_VOWELS[next])
+      ) {
+        output += `${latin}a`;
+      } else {
+        // Inherent vowel is silent at the end of a word
+        output += latin;
+      }
+    } else if (INDEPENDENT_VOWELS[char]) {
+      output += INDEPENDENT_VOWELS[char];
+    } else if (NASALS[char]) {
+      // Anusvara is pronounced "m" before p, b and m (मुंबई is Mumbai)
+      output += char === 'ं' && LABIALS.has(chars[i + 1]) ? 'm' : NASALS[char];
+    } else if (char !== NUKTA && char !== VIRAMA) {
+      output += char;
+    }
+  }
+
+  return output;
+}
+
+// Longest first so "chh" wins over "ch" and "aa" over "a"
+const LATIN_CONSONANTS: Array<[string, string]> = (
+  [
+    ['chh', 'छ'],
+    ['kh', 'ख'],
+    ['gh', 'घ'],
+    ['ch', 'च'],
+    ['jh', 'झ'],
+    ['th', 'थ'],
+    ['dh', 'ध'],
+    ['ph', 'फ'],
+    ['bh', 'भ'],
+    ['sh', 'श'],
+    ['k', 'क'],
+    ['g', 'ग'],
+    ['c', 'क'],
+    ['j', 'ज'],
+    ['t', 'ट'],
+    ['d', 'ड'],
+    ['n', 'न'],
+    ['p', 'प'],
+    ['f', 'फ़'],
+    ['b', 'ब'],
+    ['m', 'म'],
+    ['y', 'य'],
+    ['r', 'र'],
+    ['l', 'ल'],
+    ['v', 'व'],
+    ['w', 'व'],
+    ['s', 'स'],
+    ['h', 'ह'],
+    ['z', 'ज़'],
+    ['q', 'क़'],
+    ['x', 'क्स'],
+  ] as Array<[string, string]>
+).sort(([a], [b]) => b.length - a.length);
+
+// [independent vowel, vowel sign]
+const LATIN_VOWELS: Array<[string, string, string]> = (
+  [
+    ['aa', 'आ', 'ा'],
+    ['ee', 'ई', 'ी'],
+    ['ii', 'ई', 'ी'],
+    ['oo', 'ऊ', 'ू'],
+    ['uu', 'ऊ', 'ू'],
+    ['ai', 'ऐ', 'ै'],
+    ['au', 'औ', 'ौ'],
+    ['a', 'अ', ''],
+    ['i', 'इ', 'ि'],
+    ['u', 'उ', 'ु'],
+    ['e', 'ए', 'े'],
+    ['o', 'ओ', 'ो'],
+  ] as Array<[string, string, string]>
+).sort(([a], [b]) => b.length - a.length);
+
+const matchAt = <T extends string[]>(
+  word: string,
+  index: number,
+  table: T[]
+): T | undefined => table.find(([latin]) => word.startsWith(latin, index));
+
+function latinWordToDevanagari(word: string): string {
+  let output = '';
+  let i = 0;
+
+  while (i < word.length) {
+    const consonant = matchAt(word, i, LATIN_CONSONANTS);
+
+    if (consonant) {
+      i += consonant[0].length;
+      const vowel = matchAt(word, i, LATIN_VOWELS);
+      const next = matchAt(word, i, LATIN_CONSONANTS);
+
+      if (vowel) {
+        output += consonant[1] + vowel[2];
+        i += vowel[0].length;
+      } else if (
+        (consonant[0] === 'n' || consonant[0] === 'm') &&
+        output &&
+        !output.endsWith(VIRAMA) &&
+        next
+      ) {
+        // Nasal after a vowel and before another consonant
+        output += 'ं';
+      } else if (next) {
+        output += consonant[1] + VIRAMA;
+      } else {
+        output += consonant[1];
+      }
+      continue;
+    }
+
+    const vowel = matchAt(word, i, LATIN_VOWELS);
+    if (vowel) {
+      output += vowel[1];
+      i += vowel[0].length;
+      continue;
+    }
+
+    output += word[i];
+    i++;
+  }
+
+  return output;
+}
+
+/**
+ * Write Romanised Hindi in Devanagari. Words that are not all letters, such
+ * as numbers, pass through.
+ */
+export function latinToDevanagari(text: string): string {
+  return text
+    .toLowerCase()
+    .split(/(\s+)/)
+    .map(word => (/^[a-z]+$/.test(word) ? latinWordToDevanagari(word) : word))
+    .join('');
+}
+
+// Grammatical words that carry no search meaning, in both scripts
+const HINDI_FUNCTION_WORDS = new Set([
+  'mein',
+  'main',
+  'me',
+  'ke',
+  'ki',
+  'ka',
+  'ko',
+  'se',
+  'par',
+  'pe',
+  'liye',
+  'lie',
+  'hai',
+  'hain',
+  'chahiye',
+  'chaiye',
+  'mujhe',
+  'muje',
+  'wala',
+  'wali',
+  'wale',
+  'aur',
+  'ya',
+  'koi',
+  'kuch',
+  'kya',
+  'kahan',
+  'dikhao',
+  'batao',
+  'dhundo',
+  'khojo',
+  'में',
+  'के',
+  'की',
+  'का',
+  'को',
+  'से',
+  'पर',
+  'लिए',
+  'है',
+  'हैं',
+  'चाहिए',
+  'मुझे',
+  'वाला',
+  'वाली',
+  'वाले',
+  'और',
+  'या',
+  'कोई',
+  'कुछ',
+  'क्या',
+  'कहाँ',
+  'दिखाओ',
+  'बताओ',
+]);
+
+// Words that only appear in Romanised Hindi, never in English queries
+const ROMANIZED_HINDI_MARKERS = new Set([
+  'mein',
+  'ke',
+  'ki',
+  'ka',
+  'liye',
+  'hai',
+  'hain',
+  'chahiye',
+  'chaiye',
+  'mujhe',
+  'muje',
+  'wala',
+  'wali',
+  'wale',
+  'aur',
+  'koi',
+  'kuch',
+  'kya',
+  'kahan',
+  'dikhao',
+  'batao',
+  'dhundo',
+  'khojo',
+  'naukri',
+  'kaam',
+]);
+
+// Common Romanised Hindi search words and their English equivalent
+const ROMANIZED_HINDI_VOCABULARY: Record<string, string> = {
+  naukri: 'job',
+  naukriyan: 'jobs',
+  kaam: 'work',
+  prashikshan: 'training',
+  chhatravritti: 'scholarship',
+  muft: 'free',
+  mufat: 'free',
+  vetan: 'stipend',
+  pratiyogita: 'competition',
+  karyashala: 'workshop',
+  shahar: 'city',
+  sheher: 'city',
+};
+
+const tokenize = (text: string) =>
+  text.toLowerCase().split(/\s+/).filter(Boolean);
+
+/**
+ * Whether a Roman-script query is written in Hindi rather than English
+ */
+export function isRomanizedHindi(text: string): boolean {
+  return tokenize(text).some(word => ROMANIZED_HINDI_MARKERS.has(word));
+}
+
+/**
+ * Drop Hindi grammatical words ("mein", "के लिए") from a query
+ */
+export function removeHindiFunctionWords(text: string): string {
+  return tokenize(text)
+    .filter(word => !HINDI_FUNCTION_WORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Turn a Romanised Hindi query into English search terms: grammatical words
+ * are dropped and common Hindi words translated, so "internship bangalore
+ * mein" becomes "internship bangalore"
+ */
+export function romanizedHindiToEnglish(text: string): string {
+  return tokenize(removeHindiFunctionWords(text))
+    .map(word => ROMANIZED_HINDI_VOCABULARY[word] || word)
+    .join(' ');
+}
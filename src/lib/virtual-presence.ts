@@ -0,0 +1,136 @@
+/**
+ * Wire format for live avatar presence in virtual event spaces
+ *
+ * Shared by the presence server and the browser. The server sends each
+ * client only the avatars near it, and after an avatar's first appearance
+ * only the parts that changed, as integer differences.
+ */
+
+import type {
+  PresenceAvatar,
+  PresenceDelta,
+  PresenceUpdate,
+  QuantizedVector,
+  RemoteAvatar,
+  SpaceZone,
+  Vector3,
+} from '@/types/virtual-events';
+
+const POSITION_SCALE = 100; // centimetres
+const ROTATION_SCALE = 100; // hundredths of a radian
+
+export function quantizePosition(position: Vector3): QuantizedVector {
+  return [
+    Math.round(position.x * POSITION_SCALE),
+    Math.round(position.y * POSITION_SCALE),
+    Math.round(position.z * POSITION_SCALE),
+  ];
+}
+
+export function quantizeRotation(rotation: Vector3): QuantizedVector {
+  return [
+    Math.round(rotation.x * ROTATION_SCALE),
+    Math.round(rotation.y * ROTATION_SCALE),
+    Math.round(rotation.z * ROTATION_SCALE),
+  ];
+}
+
+/**
+ * The difference between two avatar states, or null if nothing changed
+ */
+export function diffAvatar(
+  previous: PresenceAvatar,
+  next: PresenceAvatar
+): PresenceDelta | null {
+  const delta: PresenceDelta = { id: next.id };
+  const p = subtract(next.p, previous.p);
+  const r = subtract(next.r, previous.r);
+
+  if (p) delta.p = p;
+  if (r) delta.r = r;
+  if (next.a !== previous.a) delta.a = next.a || '';
+
+  return p || r || delta.a !== undefined ? delta : null;
+}
+
+export function applyDelta(
+  avatar: PresenceAvatar,
+  delta: PresenceDelta
+): PresenceAvatar {
+  return {
+    ...avatar,
+    p: delta.p ? add(avatar.p, delta.p) : avatar.p,
+    r: delta.r ? add(avatar.r, delta.r) : avatar.r,
+    a: delta.a !== undefined ? delta.a || undefined : avatar.a,
+  };
+}
+
+/**
+ * Apply an update from the server to the avatars the client knows about
+ */
+export function applyPresenceUpdate(
+  avatars: Map<string, PresenceAvatar>,
+  update: PresenceUpdate
+): Map<string, PresenceAvatar> {
+  const next = new Map(avatars);
+
+  update.leave.forEach(id => next.delete(id));
+  update.enter.forEach(avatar => next.set(avatar.id, avatar));
+  update.move.forEach(delta => {
+    const avatar = next.get(delta.id);
+    if (avatar) {
+      next.set(delta.id, applyDelta(avatar, delta));
+    }
+  });
+
+  return next;
+}
+
+export function toRemoteAvatar(avatar: PresenceAvatar): RemoteAvatar {
+  return {
+    sessionId: avatar.id,
+    userId: avatar.userId,
+    position: {
+      x: avatar.p[0] / POSITION_SCALE,
+      y: avatar.p[1] / POSITION_SCALE,
+      z: avatar.p[2] / POSITION_SCALE,
+    },
+    rotation: {
+      x: avatar.r[0] / ROTATION_SCALE,
+      y: avatar.r[1] / ROTATION_SCALE,
+      z: avatar.r[2] / ROTATION_SCALE,
+    },
+    animation: avatar.a,
+  };
+}
+
+/**
+ * The zone a floor position is in. Where zones overlap the first one listed
+ * wins, and positions outside every zone are on the open floor (null).
+ */
+export function findZone(
+  zones: SpaceZone[],
+  position: Vector3
+): SpaceZone | null {
+  return (
+    zones.find(
+      zone =>
+        position.x >= zone.bounds.minX &&
+        position.x <= zone.bounds.maxX &&
+        position.z >= zone.bounds.minZ &&
+        position.z <= zone.bounds.maxZ
+    ) || null
+  );
+}
+
+function subtract(
+  a: QuantizedVector,
+  b: QuantizedVector
+): QuantizedVector | null {
+  const diff: QuantizedVector = [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+  return diff[0] || diff[1] || diff[2] ? diff : null;
+}
+
+function add(a: QuantizedVector, b: QuantizedVector): QuantizedVector {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
@@ -0,0 +1,97 @@
+/**
+ * Timestamped webhook signatures
+ *
+ * Deliveries carry an `X-Webhook-Signature: t=<unix seconds>,v1=<hex>` header
+ * where v1 is an HMAC-SHA256 of `${t}.${body}` keyed with the webhook secret.
+ * Signing the timestamp lets a receiver reject a captured delivery once it is
+ * older than the tolerance window. This module only depends on `crypto` so
+ * consumers can copy it as is.
+ */
+
+import crypto from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface VerifyWebhookSignatureOptions {
+  toleranceSeconds?: number;
+  now?: Date;
+}
+
+export type WebhookSignatureResult =
+  | { valid: true; timestamp: number }
+  | {
+      valid: false;
+      reason: 'malformed_header' | 'timestamp_out_of_tolerance' | 'mismatch';
+    };
+
+function computeSignature(
+  payload: string,
+  secret: string,
+  timestamp: number
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex');
+}
+
+/**
+ * Build the signature header value for a payload
+ */
+export function signWebhookPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+}
+
+/**
+ * Verify a signature header against the raw request body. Several v1 values
+ * may be present (e.g. while a secret is rotated); any match is accepted.
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  header: string,
+  secret: string,
+  options: VerifyWebhookSignatureOptions = {}
+): WebhookSignatureResult {
+  const tolerance =
+    options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't' && /^\d+$/.test(value ?? '')) {
+      timestamp = parseInt(value);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === undefined || signatures.length === 0) {
+    return { valid: false, reason: 'malformed_header' };
+  }
+
+  if (Math.abs(now - timestamp) > tolerance) {
+    return { valid: false, reason: 'timestamp_out_of_tolerance' };
+  }
+
+  const expected = Buffer.from(computeSignature(payload, secret, timestamp));
+  const matched = signatures.some(signature => {
+    const candidate = Buffer.from(signature);
+    return (
+      candidate.length === expected.length &&
+      crypto.timingSafeEqual(candidate, expected)
+    );
+  });
+
+  return matched
+    ? { valid: true, timestamp }
+    : { valid: false, reason: 'mismatch' };
+}
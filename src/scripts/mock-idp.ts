@@ -0,0 +1,276 @@
+/**
+ * Mock Identity Provider
+ * Stands in for Google, GitHub and LinkedIn so federated sign-in can be run
+ * locally and in tests. Point the API at it with
+ * FEDERATED_IDP_BASE_URL=http://localhost:4010 and any client ID and secret.
+ *
+ * Authorization is approved straight away for the account given as
+ * login_hint (an email), or the provider's first account.
+ */
+
+import crypto from 'crypto';
+import type { Request, Response } from 'express';
+import express from 'express';
+
+export interface MockIdpAccount {
+  id: string;
+  email: string;
+  emailVerified: boolean;
+  name: string;
+  // GitHub
+  login?: string;
+  company?: string;
+  bio?: string;
+  repositories?: Array<{ name: string; language: string; fork?: boolean }>;
+  // LinkedIn
+  educations?: Array<{ schoolName: string; degreeName: string }>;
+  skills?: string[];
+}
+
+export type MockIdpAccounts = Record<
+  'google' | 'github' | 'linkedin',
+  MockIdpAccount[]
+>;
+
+interface IssuedCode {
+  provider: string;
+  account: MockIdpAccount;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge?: string;
+}
+
+export const DEFAULT_MOCK_IDP_ACCOUNTS: MockIdpAccounts = {
+  google: [
+    {
+      id: '108234567890123456789',
+      email: 'asha.rao@example.com',
+      emailVerified: true,
+      name: 'Asha Rao',
+    },
+  ],
+  github: [
+    {
+      id: '5831234',
+      email: 'asha.rao@example.com',
+      emailVerified: true,
+      name: 'Asha Rao',
+      login: 'asharao',
+      company: '@iitb',
+      bio: 'CS undergrad. Building things with React and Docker.',
+      repositories: [
+        { name: 'portfolio', language: 'TypeScript' },
+        { name: 'ml-notes', language: 'Python' },
+        { name: 'dsa', language: 'C++' },
+        { name: 'hackathon-bot', language: 'TypeScript' },
+        { name: 'forked-lib', language: 'Rust', fork: true },
+      ],
+    },
+  ],
+  linkedin: [
+    {
+      id: 'xYz123AbC',
+      email: 'asha.rao@example.com',
+      emailVerified: true,
+      name: 'Asha Rao',
+      educations: [
+        {
+          schoolName: 'Indian Institute of Technology Bombay',
+          degreeName: 'B.Tech',
+        },
+      ],
+      skills: ['Python', 'Machine Learning', 'SQL'],
+    },
+  ],
+};
+
+/**
+ * Express app serving each provider's authorize, token and API endpoints
+ * under /<provider>
+ */
+export function createMockIdpApp(
+  accounts: MockIdpAccounts = DEFAULT_MOCK_IDP_ACCOUNTS
+): express.Express {
+  const app = express();
+  const codes = new Map<string, IssuedCode>();
+  const accessTokens = new Map<string, MockIdpAccount>();
+
+  app.use(express.urlencoded({ extended: false }));
+  app.use(express.json());
+
+  app.get('/:provider/authorize', (req: Request, res: Response) => {
+    const provider = String(req.params.provider);
+    const query = req.query as Record<string, string | undefined>;
+    const providerAccounts = accounts[provider as keyof MockIdpAccounts];
+
+    if (!providerAccounts || !query.client_id || !query.redirect_uri) {
+      res.status(400).json({ error: 'invalid_request' });
+      return;
+    }
+
+    const account =
+      providerAccounts.find(item => item.email === query.login_hint) ||
+      providerAccounts[0];
+
+    const code = crypto.randomBytes(16).toString('hex');
+    codes.set(code, {
+      provider,
+      account,
+      clientId: query.client_id,
+      redirectUri: query.redirect_uri,
+      codeChallenge: query.code_challenge,
+    });
+
+    const redirect = new URL(query.redirect_uri);
+    redirect.searchParams.set('code', code);
+    if (query.state) {
+      redirect.searchParams.set('state', query.state);
+    }
+
+    res.redirect(302, redirect.toString());
+  });
+
+  app.post('/:provider/token', (req: Request, res: Response) => {
+    const issued = codes.get(req.body.code);
+    codes.delete(req.body.code);
+
+    const verifierMatches =
+      !issued?.codeChallenge ||
+      crypto
+        .createHash('sha256')
+        .update(String(req.body.code_verifier || ''))
+        .digest('base64url') === issued.codeChallenge;
+
+    if (
+      !issued ||
+      issued.provider !== req.params.provider ||
+      issued.clientId !== req.body.client_id ||
+      issued.redirectUri !== req.body.redirect_uri ||
+      !req.body.client_secret ||
+      !verifierMatches
+    ) {
+      // Like GitHub, report the failure in the body
+      res.status(req.params.provider === 'github' ? 200 : 400).json({
+        error: 'invalid_grant',
+        error_description: 'The code is invalid or was already used',
+      });
+      return;
+    }
+
+    const accessToken = crypto.randomBytes(24).toString('hex');
+    accessTokens.set(accessToken, issued.account);
+
+    res.json({
+      access_token: accessToken,
+      token_type: 'bearer',
+      expires_in: 3600,
+    });
+  });
+
+  // Resolve the bearer token to the account it was issued for
+  const withAccount =
+    (handler: (account: MockIdpAccount, res: Response) => void) =>
+    (req: Request, res: Response) => {
+      const token = req.get('authorization')?.replace(/^Bearer /, '');
+      const account = token ? accessTokens.get(token) : undefined;
+
+      if (!account) {
+        res.status(401).json({ message: 'Bad credentials' });
+        return;
+      }
+
+      handler(account, res);
+    };
+
+  app.get(
+    '/google/api/v1/userinfo',
+    withAccount((account, res) => {
+      res.json({
+        sub: account.id,
+        email: account.email,
+        email_verified: account.emailVerified,
+        name: account.name,
+      });
+    })
+  );
+
+  app.get(
+    '/github/api/user',
+    withAccount((account, res) => {
+      res.json({
+        id: Number(account.id),
+        login: account.login,
+        name: account.name,
+        company: account.company || null,
+        bio: account.bio || null,
+      });
+    })
+  );
+
+  app.get(
+    '/github/api/user/emails',
+    withAccount((account, res) => {
+      res.json([
+        {
+          email: account.email,
+          primary: true,
+          verified: account.emailVerified,
+        },
+      ]);
+    })
+  );
+
+  app.get(
+    '/github/api/user/repos',
+    withAccount((account, res) => {
+      res.json(account.repositories || []);
+    })
+  );
+
+  app.get(
+    '/linkedin/api/v2/userinfo',
+    withAccount((account, res) => {
+      res.json({
+        sub: account.id,
+        email: account.email,
+        email_verified: account.emailVerified,
+        name: account.name,
+      });
+    })
+  );
+
+  app.get(
+    '/linkedin/api/v2/me',
+    withAccount((account, res) => {
+      res.json({
+        id: account.id,
+        educations: {
+          elements: (account.educations || []).map(education => ({
+            schoolName: { localized: { en_US: education.schoolName } },
+            degreeName: { localized: { en_US: education.degreeName } },
+          })),
+        },
+        skills: {
+          elements: (account.skills || []).map(skill => ({
+            name: { localized: { en_US: skill } },
+          })),
+        },
+      });
+    })
+  );
+
+  return app;
+}
+
+if (require.main === module) {
+  const port = Number(process.env.MOCK_IDP_PORT || 4010);
+
+  createMockIdpApp().listen(port, () => {
+    console.log(
+      `🔐 Mock identity provider listening on http://localhost:${port}`
+    );
+    console.log(
+      `   Set FEDERATED_IDP_BASE_URL=http://localhost:${port} to sign in with it`
+    );
+  });
+}
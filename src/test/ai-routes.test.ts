@@ -0,0 +1,109 @@
+/**
+ * Route tests for the AI roadmap API
+ */
+
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { AuthenticatedRequest } from '../lib/middleware/auth';
+import { aiRouter } from '../lib/routes/ai';
+import { aiInstructorService } from '../lib/services/ai-instructor.service';
+import { userService } from '../lib/services/user.service';
+
+jest.mock('../lib/services/ai-instructor.service', () => ({
+  aiInstructorService: { generateRoadmap: jest.fn() },
+}));
+
+jest.mock('../lib/services/user.service', () => ({
+  userService: { getUserProfile: jest.fn() },
+}));
+
+const opportunityId = '5f0c8a4e-2b1d-4c3e-9f6a-7b8c9d0e1f2a';
+const userProfile = { id: 'user-1', skills: { technical: ['React'] } };
+
+describe('AI routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const postRoadmap = (body: Record<string, unknown>) =>
+    fetch(`${baseUrl}/ai/roadmap`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  beforeAll(() => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      (req as AuthenticatedRequest).user = {
+        id: 'user-1',
+        email: 'user@example.com',
+      };
+      next();
+    });
+    app.use('/ai', aiRouter);
+
+    server = app.listen(0);
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (userService.getUserProfile as jest.Mock).mockResolvedValue({
+      success: true,
+      data: userProfile,
+    });
+    (aiInstructorService.generateRoadmap as jest.Mock).mockResolvedValue({
+      success: true,
+      data: { roadmap: { id: 'roadmap-1' } },
+    });
+  });
+
+  describe('POST /ai/roadmap', () => {
+    it('passes skills from resume analysis to roadmap generation', async () => {
+      const response = await postRoadmap({
+        opportunityId,
+        resumeSkills: ['Python', 'Docker'],
+      });
+
+      expect(response.status).toBe(200);
+      expect(aiInstructorService.generateRoadmap).toHaveBeenCalledWith(
+        expect.objectContaining({
+          opportunityId,
+          userProfile,
+          resumeSkills: ['Python', 'Docker'],
+        })
+      );
+    });
+
+    it('generates a roadmap without resume skills', async () => {
+      const response = await postRoadmap({ opportunityId });
+
+      expect(response.status).toBe(200);
+      expect(aiInstructorService.generateRoadmap).toHaveBeenCalledWith(
+        expect.objectContaining({ resumeSkills: undefined })
+      );
+    });
+
+    it('rejects resume skills that are not a list of strings', async () => {
+      const notArray = await postRoadmap({
+        opportunityId,
+        resumeSkills: 'Python',
+      });
+      const notStrings = await postRoadmap({
+        opportunityId,
+        resumeSkills: ['Python', 42],
+      });
+
+      expect(notArray.status).toBe(400);
+      expect(notStrings.status).toBe(400);
+      expect(aiInstructorService.generateRoadmap).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Unit tests for the application tracker
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { applicationService } from '../lib/services/application.service';
+import { socialService } from '../lib/services/social.service';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    opportunity: { findUnique: jest.fn() },
+    application: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    applicationDocument: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+jest.mock('../lib/services/social.service', () => ({
+  socialService: { createActivity: jest.fn() },
+}));
+
+// Every PrismaClient instance shares the mocked client above
+const mockPrisma = new PrismaClient() as any;
+
+describe('ApplicationService', () => {
+  const userId = '0b9c8d7e-6f5a-4b3c-8d2e-1f0a9b8c7d6e';
+  const opportunityId = '6f1d2a8e-4b3c-4d5e-9f60-718293a4b5c6';
+  const applicationId = '2a3b4c5d-6e7f-4a8b-9c0d-1e2f3a4b5c6d';
+
+  const record = (overrides: Record<string, unknown> = {}) => ({
+    id: applicationId,
+    userId,
+    opportunityId,
+    opportunity: {
+      id: opportunityId,
+      title: 'Summer Internship',
+      type: 'internship',
+      organizerName: 'TechCorp',
+      applicationDeadline: new Date('2025-05-01T00:00:00Z'),
+      externalUrl: 'https://example.com/internship',
+    },
+    status: 'interested',
+    notes: null,
+    appliedAt: null,
+    nextAction: null,
+    nextActionAt: null,
+    position: 0,
+    documents: [],
+    createdAt: new Date('2025-03-01T00:00:00Z'),
+    updatedAt: new Date('2025-03-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createApplication', () => {
+    it('tracks an opportunity with its first history entry', async () => {
+      mockPrisma.opportunity.findUnique.mockResolvedValue({
+        id: opportunityId,
+      });
+      mockPrisma.application.findUnique.mockResolvedValue(null);
+      mockPrisma.application.create.mockResolvedValue(record());
+
+      const result = await applicationService.createApplication(userId, {
+        opportunityId,
+        nextAction: 'Ask for a referral',
+      });
+
+      expect(result.success).toBe(true);
+      const { data } = mockPrisma.application.create.mock.calls[0][0];
+      expect(data.history).toEqual({ create: { toStatus: 'interested' } });
+      expect(data.appliedAt).toBeUndefined();
+      expect(socialService.createActivity).toHaveBeenCalledWith(
+        userId,
+        'tracked_application',
+        applicationId,
+        'application',
+        expect.objectContaining({ status: 'interested' })
+      );
+    });
+
+    it('rejects an opportunity that is already tracked', async () => {
+      mockPrisma.opportunity.findUnique.mockResolvedValue({
+        id: opportunityId,
+      });
+      mockPrisma.application.findUnique.mockResolvedValue({
+        id: applicationId,
+      });
+
+      const result = await applicationService.createApplication(userId, {
+        opportunityId,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Opportunity is already being tracked');
+      expect(mockPrisma.application.create).not.toHaveBeenCalled();
+    });
+
+    it('validates the status', async () => {
+      const result = await applicationService.createApplication(userId, {
+        opportunityId,
+        status: 'hired' as any,
+      });
+
+      expect(result.success).toBe(false);
+      expect(mockPrisma.opportunity.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateApplication', () => {
+    it('records a status change in the history and the feed', async () => {
+      mockPrisma.application.findFirst.mockResolvedValue(record());
+      mockPrisma.application.update.mockResolvedValue(
+        record({ status: 'applied', history: [] })
+      );
+
+      const result = await applicationService.updateApplication(
+        userId,
+        applicationId,
+        { status: 'applied', statusNote: 'Submitted via portal' }
+      );
+
+      expect(result.success).toBe(true);
+      const { data } = mockPrisma.application.update.mock.calls[0][0];
+      expect(data.history).toEqual({
+        create: {
+          fromStatus: 'interested',
+          toStatus: 'applied',
+          note: 'Submitted via portal',
+        },
+      });
+      expect(data.appliedAt).toBeInstanceOf(Date);
+      expect(socialService.createActivity).toHaveBeenCalledWith(
+        userId,
+        'updated_application',
+        applicationId,
+        'application',
+        expect.objectContaining({ status: 'applied' })
+      );
+    });
+
+    it('keeps rejections and withdrawals off the feed', async () => {
+      for (const status of ['rejected', 'withdrawn'] as const) {
+        mockPrisma.application.findFirst.mockResolvedValue(
+          record({ status: 'applied' })
+        );
+        mockPrisma.application.update.mockResolvedValue(
+          record({ status, history: [] })
+        );
+
+        const result = await applicationService.updateApplication(
+          userId,
+          applicationId,
+          { status }
+        );
+
+        expect(result.success).toBe(true);
+      }
+
+      expect(mockPrisma.application.update).toHaveBeenCalledTimes(2);
+      expect(socialService.createActivity).not.toHaveBeenCalled();
+    });
+
+    it('leaves the history alone when only notes change', async () => {
+      mockPrisma.application.findFirst.mockResolvedValue(record());
+      mockPrisma.application.update.mockResolvedValue(
+        record({ notes: 'Follow up next week' })
+      );
+
+      await applicationService.updateApplication(userId, applicationId, {
+        status: 'interested',
+        notes: 'Follow up next week',
+      });
+
+      const { data } = mockPrisma.application.update.mock.calls[0][0];
+      expect(data.history).toBeUndefined();
+      expect(socialService.createActivity).not.toHaveBeenCalled();
+    });
+
+    it("does not update another user's application", async () => {
+      mockPrisma.application.findFirst.mockResolvedValue(null);
+
+      const result = await applicationService.updateApplication(
+        userId,
+        applicationId,
+        { status: 'offer' }
+      );
+
+      expect(result.error).toBe('Application not found');
+      expect(mockPrisma.application.findFirst).toHaveBeenCalledWith({
+        where: { id: applicationId, userId },
+      });
+      expect(mockPrisma.application.update).not.toHaveBeenCalled();
+    });
+  });
+
+  it('groups applications into board columns', async () => {
+    mockPrisma.application.findMany.mockResolvedValue([
+      record(),
+      record({ id: 'b', status: 'interview' }),
+    ]);
+
+    const result = await applicationService.getBoard(userId);
+
+    expect(result.success).toBe(true);
+    expect(Object.keys(result.data!)).toHaveLength(7);
+    expect(result.data!.interested).toHaveLength(1);
+    expect(result.data!.interview[0].id).toBe('b');
+    expect(result.data!.offer).toEqual([]);
+  });
+});
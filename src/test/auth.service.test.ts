@@ -0,0 +1,474 @@
+/**
+ * Unit tests for email verification, two-factor login and sessions in the
+ * auth service
+ */
+
+import { PrismaClient } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import {
+  buildTotpUri,
+  generateTotp,
+  getTotpStep,
+  verifyTotp,
+} from '../lib/security/totp';
+import type { AuthService } from '../lib/services/auth.service';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    twoFactorChallenge: {
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    userSession: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+jest.mock('../lib/services/email.service', () => ({
+  createEmailService: () => ({ sendEmail: mockSendEmail }),
+  renderEmailTemplate: jest.fn(() => ({
+    subject: 'Verify your OpportuneX email address',
+    html: '<p>verify</p>',
+    text: 'verify',
+  })),
+}));
+
+const mockSendEmail = jest.fn();
+
+// Every PrismaClient instance shares the mocked client above
+const mockPrisma = new PrismaClient() as any;
+
+// RFC 6238 test secret ("12345678901234567890")
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP', () => {
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(new Date(59 * 1000)))).toBe(
+      '287082'
+    );
+    expect(
+      generateTotp(RFC_SECRET, getTotpStep(new Date(1111111109 * 1000)))
+    ).toBe('081804');
+  });
+
+  it('accepts codes one step either side of now', () => {
+    const now = new Date(1111111109 * 1000);
+    const previous = generateTotp(RFC_SECRET, getTotpStep(now) - 1);
+    const stale = generateTotp(RFC_SECRET, getTotpStep(now) - 2);
+
+    expect(verifyTotp(RFC_SECRET, previous, { now })).toBe(
+      getTotpStep(now) - 1
+    );
+    expect(verifyTotp(RFC_SECRET, stale, { now })).toBeNull();
+  });
+
+  it('builds an otpauth provisioning URI', () => {
+    expect(buildTotpUri(RFC_SECRET, 'asha@example.com', 'OpportuneX')).toBe(
+      'otpauth://totp/OpportuneX%3Aasha%40example.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=OpportuneX&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+});
+
+describe('AuthService', () => {
+  let authService: AuthService;
+
+  const user = {
+    id: 'user-1',
+    email: 'asha@example.com',
+    name: 'Asha Rao',
+    emailVerifiedAt: null,
+  };
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = 'test-jwt-secret';
+    process.env.REFRESH_TOKEN_SECRET = 'test-refresh-secret';
+    const { AuthService } = await import('../lib/services/auth.service');
+    authService = new AuthService();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.userSession.create.mockResolvedValue({});
+    mockPrisma.twoFactorChallenge.create.mockResolvedValue({
+      id: 'challenge-1',
+    });
+    mockPrisma.twoFactorChallenge.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  /**
+   * Enrol the mocked user in 2FA and return the secret
+   */
+  async function enrolTwoFactor(): Promise<{
+    secret: string;
+    storedSecret: string;
+  }> {
+    mockPrisma.user.findUnique.mockResolvedValueOnce({
+      email: user.email,
+      twoFactorEnabled: false,
+    });
+
+    const setup = await authService.setupTwoFactor(user.id);
+    const storedSecret =
+      mockPrisma.user.update.mock.calls[0][0].data.twoFactorSecret;
+
+    return { secret: setup.data!.secret, storedSecret };
+  }
+
+  describe('two-factor authentication', () => {
+    it('stores the secret encrypted until a code confirms it', async () => {
+      const { secret, storedSecret } = await enrolTwoFactor();
+
+      expect(storedSecret).not.toContain(secret);
+
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        twoFactorEnabled: false,
+        twoFactorSecret: storedSecret,
+      });
+
+      const result = await authService.enableTwoFactor(
+        user.id,
+        generateTotp(secret)
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data!.recoveryCodes).toHaveLength(10);
+      expect(mockPrisma.user.update).toHaveBeenLastCalledWith({
+        where: { id: user.id },
+        data: expect.objectContaining({
+          twoFactorEnabled: true,
+          twoFactorRecoveryCodes: expect.not.arrayContaining(
+            result.data!.recoveryCodes
+          ),
+        }),
+      });
+    });
+
+    it('makes login two-step', async () => {
+      const { secret, storedSecret } = await enrolTwoFactor();
+      const passwordHash = (authService as any).hashPassword('Secret123!');
+
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        ...user,
+        passwordHash,
+        twoFactorEnabled: true,
+      });
+
+      const login = await authService.login({
+        email: user.email,
+        password: 'Secret123!',
+      });
+
+      expect(login.data).toEqual({
+        twoFactorRequired: true,
+        challengeToken: expect.any(String),
+      });
+      expect(mockPrisma.userSession.create).not.toHaveBeenCalled();
+
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        ...user,
+        twoFactorEnabled: true,
+        twoFactorSecret: storedSecret,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastUsedStep: null,
+      });
+
+      const verified = await authService.verifyTwoFactorLogin(
+        {
+          challengeToken: (login.data as any).challengeToken,
+          code: generateTotp(secret),
+        },
+        { userAgent: 'jest', ipAddress: '127.0.0.1' }
+      );
+
+      expect(verified.success).toBe(true);
+      expect(verified.data!.refreshToken).toBeDefined();
+      expect(mockPrisma.userSession.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: user.id,
+          userAgent: 'jest',
+          ipAddress: '127.0.0.1',
+        }),
+      });
+    });
+
+    it('does not accept the same code twice', async () => {
+      const { secret, storedSecret } = await enrolTwoFactor();
+      const challengeToken = jwt.sign(
+        { sub: user.id, type: 'two_factor_challenge' },
+        'test-jwt-secret',
+        { jwtid: 'challenge-1' }
+      );
+
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        ...user,
+        twoFactorEnabled: true,
+        twoFactorSecret: storedSecret,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastUsedStep: getTotpStep(),
+      });
+
+      const result = await authService.verifyTwoFactorLogin({
+        challengeToken,
+        code: generateTotp(secret),
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Invalid authentication code',
+      });
+    });
+
+    it('spends a recovery code when it is used', async () => {
+      await enrolTwoFactor();
+      const hashToken = (value: string) =>
+        (authService as any).hashToken(value);
+      const challengeToken = jwt.sign(
+        { sub: user.id, type: 'two_factor_challenge' },
+        'test-jwt-secret',
+        { jwtid: 'challenge-1' }
+      );
+
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        ...user,
+        twoFactorEnabled: true,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [hashToken('abcde-12345'), hashToken('other')],
+        twoFactorLastUsedStep: null,
+      });
+
+      const result = await authService.verifyTwoFactorLogin({
+        challengeToken,
+        code: 'ABCDE-12345',
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: user.id,
+          twoFactorRecoveryCodes: {
+            equals: [hashToken('abcde-12345'), hashToken('other')],
+          },
+        },
+        data: { twoFactorRecoveryCodes: [hashToken('other')] },
+      });
+    });
+
+    it('does not accept a recovery code another login just spent', async () => {
+      await enrolTwoFactor();
+      const hashToken = (value: string) =>
+        (authService as any).hashToken(value);
+      const challengeToken = jwt.sign(
+        { sub: user.id, type: 'two_factor_challenge' },
+        'test-jwt-secret',
+        { jwtid: 'challenge-1' }
+      );
+
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        ...user,
+        twoFactorEnabled: true,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [hashToken('abcde-12345')],
+        twoFactorLastUsedStep: null,
+      });
+      mockPrisma.user.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await authService.verifyTwoFactorLogin({
+        challengeToken,
+        code: 'abcde-12345',
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Invalid authentication code',
+      });
+      expect(mockPrisma.userSession.create).not.toHaveBeenCalled();
+    });
+
+    it('closes a challenge after five attempts', async () => {
+      const challengeToken = jwt.sign(
+        { sub: user.id, type: 'two_factor_challenge' },
+        'test-jwt-secret',
+        { jwtid: 'challenge-1' }
+      );
+      mockPrisma.twoFactorChallenge.updateMany.mockResolvedValueOnce({
+        count: 0,
+      });
+
+      const result = await authService.verifyTwoFactorLogin({
+        challengeToken,
+        code: '123456',
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Too many attempts. Please sign in again',
+      });
+      expect(mockPrisma.twoFactorChallenge.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'challenge-1',
+          userId: user.id,
+          attempts: { lt: 5 },
+          expiresAt: { gt: expect.any(Date) },
+        },
+        data: { attempts: { increment: 1 } },
+      });
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('rejects challenge tokens as access tokens', async () => {
+      const passwordHash = (authService as any).hashPassword('Secret123!');
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        ...user,
+        passwordHash,
+        twoFactorEnabled: true,
+      });
+
+      const login = await authService.login({
+        email: user.email,
+        password: 'Secret123!',
+      });
+      const decoded = jwt.decode((login.data as any).challengeToken) as any;
+
+      // The auth middleware requires id and email claims
+      expect(decoded.id).toBeUndefined();
+      expect(decoded.email).toBeUndefined();
+    });
+  });
+
+  describe('sessions', () => {
+    async function signIn() {
+      const passwordHash = (authService as any).hashPassword('Secret123!');
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        ...user,
+        passwordHash,
+        twoFactorEnabled: false,
+      });
+
+      const login = await authService.login({
+        email: user.email,
+        password: 'Secret123!',
+      });
+      const session = mockPrisma.userSession.create.mock.calls[0][0].data;
+
+      return { tokens: login.data as any, session };
+    }
+
+    it('rotates the refresh token on every refresh', async () => {
+      const { tokens, session } = await signIn();
+
+      mockPrisma.userSession.findUnique.mockResolvedValueOnce({
+        ...session,
+        revokedAt: null,
+      });
+      mockPrisma.user.findUnique.mockResolvedValueOnce(user);
+
+      const refreshed = await authService.refreshToken({
+        refreshToken: tokens.refreshToken,
+      });
+
+      expect(refreshed.success).toBe(true);
+      expect(refreshed.data!.refreshToken).not.toBe(tokens.refreshToken);
+      expect(mockPrisma.userSession.update).toHaveBeenCalledWith({
+        where: { id: session.id },
+        data: expect.objectContaining({
+          refreshTokenHash: (authService as any).hashToken(
+            refreshed.data!.refreshToken
+          ),
+        }),
+      });
+    });
+
+    it('revokes the session when a rotated token is replayed', async () => {
+      const { tokens, session } = await signIn();
+
+      mockPrisma.userSession.findUnique.mockResolvedValueOnce({
+        ...session,
+        refreshTokenHash: 'hash-of-a-newer-token',
+        revokedAt: null,
+      });
+
+      const result = await authService.refreshToken({
+        refreshToken: tokens.refreshToken,
+      });
+
+      expect(result.success).toBe(false);
+      expect(mockPrisma.userSession.update).toHaveBeenCalledWith({
+        where: { id: session.id },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('refuses refresh tokens from revoked sessions', async () => {
+      const { tokens, session } = await signIn();
+
+      mockPrisma.userSession.findUnique.mockResolvedValueOnce({
+        ...session,
+        revokedAt: new Date(),
+      });
+
+      const result = await authService.refreshToken({
+        refreshToken: tokens.refreshToken,
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Session has been revoked',
+      });
+    });
+
+    it('keeps the current session when revoking all', async () => {
+      mockPrisma.userSession.updateMany.mockResolvedValueOnce({ count: 2 });
+
+      const result = await authService.revokeAllSessions(user.id, 'session-1');
+
+      expect(result.data).toEqual({ revoked: 2 });
+      expect(mockPrisma.userSession.updateMany).toHaveBeenCalledWith({
+        where: { userId: user.id, revokedAt: null, id: { not: 'session-1' } },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('email verification', () => {
+    it('sends a link bound to the current address', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce(user);
+
+      const result = await authService.sendVerificationEmail(user.id);
+
+      expect(result.success).toBe(true);
+      expect(mockSendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: user.email,
+          templateId: 'email-verification',
+        })
+      );
+    });
+
+    it('only verifies the address the link was sent to', async () => {
+      const token = jwt.sign(
+        { sub: user.id, email: user.email, type: 'email_verification' },
+        'test-jwt-secret'
+      );
+      mockPrisma.user.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await authService.verifyEmail(token);
+
+      expect(result.success).toBe(false);
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: user.id, email: user.email },
+        data: { emailVerifiedAt: expect.any(Date) },
+      });
+    });
+  });
+});
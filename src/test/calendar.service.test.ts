@@ -0,0 +1,340 @@
+/**
+ * Unit tests for iCalendar serialization and the calendar feeds
+ */
+
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import {
+  mentorshipSessionEvent,
+  opportunityEvents,
+} from '../lib/calendar-events';
+import {
+  buildCalendar,
+  calendarFileName,
+  escapeText,
+  foldLine,
+  formatDuration,
+} from '../lib/icalendar';
+import { calendarService } from '../lib/services/calendar.service';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    calendarFeed: {
+      upsert: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    userFavorite: { findMany: jest.fn() },
+    application: { findMany: jest.fn() },
+    deadlineReminder: { findMany: jest.fn() },
+    virtualPresentation: { findMany: jest.fn() },
+    $queryRaw: jest.fn(),
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+
+// Every PrismaClient instance shares the mocked client above
+const mockPrisma = new PrismaClient() as any;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const opportunity = {
+  id: '123e4567-e89b-12d3-a456-426614174000',
+  title: 'AI Hackathon 2024',
+  description: 'Build AI solutions, win prizes',
+  organizerName: 'TechCorp',
+  mode: 'online',
+  location: null,
+  externalUrl: 'https://techcorp.example.com/hackathon',
+  applicationDeadline: new Date('2030-02-01T18:29:59Z'),
+  startDate: new Date('2030-02-10T04:30:00Z'),
+  endDate: new Date('2030-02-11T12:30:00Z'),
+  updatedAt: new Date('2030-01-01T00:00:00Z'),
+};
+
+describe('iCalendar serialization', () => {
+  it('escapes text values', () => {
+    expect(escapeText('Build; win, learn\\grow\nNow')).toBe(
+      'Build\\; win\\, learn\\\\grow\\nNow'
+    );
+  });
+
+  it('formats durations', () => {
+    expect(formatDuration(-7 * DAY)).toBe('-P7D');
+    expect(formatDuration(-6 * HOUR)).toBe('-PT6H');
+    expect(formatDuration(DAY + 90 * 60 * 1000)).toBe('P1DT1H30M');
+    expect(formatDuration(0)).toBe('PT0S');
+  });
+
+  it('folds long lines without splitting characters', () => {
+    const line = `SUMMARY:${'हैकाथॉन '.repeat(10)}`;
+    const folded = foldLine(line);
+    const parts = folded.split('\r\n');
+
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach(part =>
+      expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75)
+    );
+    expect(parts.map((part, i) => (i ? part.slice(1) : part)).join('')).toBe(
+      line
+    );
+  });
+
+  it('builds a calendar with events and alarms', () => {
+    const ics = buildCalendar(
+      [
+        {
+          uid: 'deadline-1@opportunex.com',
+          start: new Date('2030-02-01T18:29:59Z'),
+          summary: 'Deadline: AI Hackathon',
+          alarms: [{ before: DAY, description: 'Deadline: AI Hackathon' }],
+        },
+      ],
+      {
+        name: 'OpportuneX',
+        refreshInterval: HOUR,
+        now: new Date('2030-01-01T00:00:00Z'),
+      }
+    );
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//OpportuneX//Calendar//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:OpportuneX',
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      'X-PUBLISHED-TTL:PT1H',
+      'BEGIN:VEVENT',
+      'UID:deadline-1@opportunex.com',
+      'DTSTAMP:20300101T000000Z',
+      'DTSTART:20300201T182959Z',
+      'SUMMARY:Deadline: AI Hackathon',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:Deadline: AI Hackathon',
+      'TRIGGER:-P1D',
+      'END:VALARM',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('names download files after the event', () => {
+    expect(calendarFileName('AI Hackathon 2024!')).toBe(
+      'ai-hackathon-2024.ics'
+    );
+    expect(calendarFileName('???')).toBe('event.ics');
+  });
+});
+
+describe('calendar events', () => {
+  it('gives deadlines the standard reminder schedule by default', () => {
+    const [deadline, dates] = opportunityEvents({
+      id: 'opp-1',
+      title: 'AI Hackathon',
+      deadline: opportunity.applicationDeadline,
+      startDate: opportunity.startDate,
+      endDate: opportunity.endDate,
+    });
+
+    expect(deadline.uid).toBe('deadline-opp-1@opportunex.com');
+    expect(deadline.alarms!.map(alarm => alarm.before)).toEqual([
+      7 * DAY,
+      3 * DAY,
+      DAY,
+      6 * HOUR,
+    ]);
+    expect(dates).toEqual(
+      expect.objectContaining({
+        uid: 'opportunity-opp-1@opportunex.com',
+        start: opportunity.startDate,
+        end: opportunity.endDate,
+      })
+    );
+  });
+
+  it('ends mentorship sessions after their duration and marks cancellations', () => {
+    const event = mentorshipSessionEvent({
+      id: 'session-1',
+      title: 'Career guidance',
+      scheduledAt: new Date('2030-03-01T10:00:00Z'),
+      durationMinutes: 45,
+      status: 'cancelled',
+    });
+
+    expect(event.end).toEqual(new Date('2030-03-01T10:45:00Z'));
+    expect(event.status).toBe('CANCELLED');
+    expect(event.alarms!.map(alarm => alarm.before)).toEqual([3 * DAY, DAY]);
+  });
+});
+
+describe('CalendarService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.userFavorite.findMany.mockResolvedValue([]);
+    mockPrisma.application.findMany.mockResolvedValue([]);
+    mockPrisma.deadlineReminder.findMany.mockResolvedValue([]);
+    mockPrisma.virtualPresentation.findMany.mockResolvedValue([]);
+    mockPrisma.$queryRaw.mockResolvedValue([]);
+  });
+
+  describe('createFeed', () => {
+    it('puts the token in the URL and stores only its hash', async () => {
+      mockPrisma.calendarFeed.upsert.mockResolvedValue({
+        createdAt: new Date(),
+      });
+
+      const result = await calendarService.createFeed(
+        'user-1',
+        'https://api.example.com/api/v1/calendar'
+      );
+
+      const { url } = result.data!;
+      const token = url.match(/\/feeds\/([A-Za-z0-9_-]{43})\.ics$/)![1];
+      const hash = crypto.createHash('sha256').update(token).digest('hex');
+
+      expect(url.startsWith('https://api.example.com/api/v1/calendar/')).toBe(
+        true
+      );
+      expect(mockPrisma.calendarFeed.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-1' },
+          create: { userId: 'user-1', tokenHash: hash },
+        })
+      );
+    });
+  });
+
+  describe('renderFeed', () => {
+    it('returns null for an unknown token', async () => {
+      mockPrisma.calendarFeed.findUnique.mockResolvedValue(null);
+
+      await expect(calendarService.renderFeed('unknown')).resolves.toBeNull();
+    });
+
+    it('renders the feed and records the access', async () => {
+      mockPrisma.calendarFeed.findUnique.mockResolvedValue({
+        id: 'feed-1',
+        userId: 'user-1',
+      });
+      mockPrisma.userFavorite.findMany.mockResolvedValue([{ opportunity }]);
+
+      const ics = await calendarService.renderFeed('token');
+
+      expect(ics).toContain(`UID:deadline-${opportunity.id}@opportunex.com`);
+      expect(mockPrisma.calendarFeed.update).toHaveBeenCalledWith({
+        where: { id: 'feed-1' },
+        data: { lastAccessedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('getUserEvents', () => {
+    const now = new Date('2030-01-15T00:00:00Z');
+
+    it('lists an opportunity that is favourited and applied to once', async () => {
+      mockPrisma.userFavorite.findMany.mockResolvedValue([{ opportunity }]);
+      mockPrisma.application.findMany.mockResolvedValue([{ opportunity }]);
+
+      const events = await calendarService.getUserEvents('user-1', now);
+
+      expect(events.map(event => event.uid)).toEqual([
+        `deadline-${opportunity.id}@opportunex.com`,
+        `opportunity-${opportunity.id}@opportunex.com`,
+      ]);
+      expect(mockPrisma.application.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'user-1',
+            status: { notIn: ['rejected', 'withdrawn'] },
+          },
+        })
+      );
+    });
+
+    it("sets deadline alarms at the user's reminder times", async () => {
+      mockPrisma.userFavorite.findMany.mockResolvedValue([{ opportunity }]);
+      mockPrisma.deadlineReminder.findMany.mockResolvedValue([
+        {
+          opportunityId: opportunity.id,
+          opportunityTitle: opportunity.title,
+          deadline: opportunity.applicationDeadline,
+          reminderTimes: [
+            new Date(opportunity.applicationDeadline.getTime() - 2 * DAY),
+            new Date(opportunity.applicationDeadline.getTime() - 2 * HOUR),
+          ],
+        },
+      ]);
+
+      const [deadline] = await calendarService.getUserEvents('user-1', now);
+
+      expect(deadline.alarms!.map(alarm => alarm.before)).toEqual([
+        2 * DAY,
+        2 * HOUR,
+      ]);
+    });
+
+    it('leaves out opportunities that ended over a month ago', async () => {
+      mockPrisma.userFavorite.findMany.mockResolvedValue([
+        {
+          opportunity: {
+            ...opportunity,
+            endDate: new Date('2029-11-01T00:00:00Z'),
+          },
+        },
+      ]);
+
+      await expect(
+        calendarService.getUserEvents('user-1', now)
+      ).resolves.toEqual([]);
+    });
+
+    it('includes mentorship sessions and presentations in start order', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([
+        {
+          id: 'session-1',
+          title: 'Career guidance',
+          scheduled_at: '2030-01-20T10:00:00Z',
+          duration_minutes: 60,
+          meeting_url: 'https://meet.example.com/abc',
+          status: 'scheduled',
+          updated_at: '2030-01-10T00:00:00Z',
+        },
+      ]);
+      mockPrisma.virtualPresentation.findMany.mockResolvedValue([
+        {
+          id: 'presentation-1',
+          title: 'Demo day',
+          scheduledAt: new Date('2030-01-18T09:00:00Z'),
+          isActive: true,
+          space: { name: 'Expo Hall' },
+          updatedAt: new Date('2030-01-10T00:00:00Z'),
+        },
+      ]);
+
+      const events = await calendarService.getUserEvents('user-1', now);
+
+      expect(events.map(event => event.uid)).toEqual([
+        'presentation-presentation-1@opportunex.com',
+        'mentorship-session-session-1@opportunex.com',
+      ]);
+      expect(events[0].location).toBe('Expo Hall (virtual)');
+      expect(mockPrisma.virtualPresentation.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            OR: [
+              { presenterId: 'user-1' },
+              { registrations: { some: { userId: 'user-1' } } },
+            ],
+          }),
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Unit tests for cron expression parsing and the scheduler built on it
+ */
+
+import { CronExpression, isValidCronExpression } from '../lib/cron';
+import { jobQueue } from '../lib/services/job-queue.service';
+import { externalAPIService } from '../lib/services/external-api.service';
+import {
+  SchedulerService,
+  schedulerService,
+} from '../lib/services/scheduler.service';
+
+jest.mock('../lib/services/scraping.service', () => ({
+  scrapingService: { scheduleRegularScraping: jest.fn() },
+}));
+jest.mock('../lib/services/data-quality.service', () => ({
+  dataQualityService: { cleanupExpiredOpportunities: jest.fn() },
+}));
+jest.mock('../lib/services/external-api.service', () => ({
+  externalAPIService: {
+    executeScheduledSync: jest.fn(),
+    monitorAPIHealth: jest.fn(),
+  },
+}));
+jest.mock('../lib/services/search.service', () => ({
+  searchService: { syncOpportunities: jest.fn() },
+}));
+jest.mock('../lib/services/opportunity-translation.service', () => ({
+  opportunityTranslationService: { enqueueStaleTranslations: jest.fn() },
+}));
+jest.mock('../lib/jobs/postgres-job-store', () => ({
+  PostgresJobStore: jest.fn(),
+}));
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+describe('CronExpression', () => {
+  it('handles steps, ranges and lists', () => {
+    const cron = CronExpression.parse('0,30 9-17/4 * * *', 'UTC');
+
+    expect(iso(cron.upcoming(4, new Date('2025-03-10T08:00:00Z')))).toEqual([
+      '2025-03-10T09:00:00.000Z',
+      '2025-03-10T09:30:00.000Z',
+      '2025-03-10T13:00:00.000Z',
+      '2025-03-10T13:30:00.000Z',
+    ]);
+  });
+
+  it('accepts month and weekday names and Sunday as 7', () => {
+    const weekdays = CronExpression.parse('0 9 * JAN-MAR MON-FRI', 'UTC');
+    // Friday 2025-03-28 -> Monday 2025-03-31 -> April is excluded
+    expect(iso(weekdays.upcoming(3, new Date('2025-03-28T10:00:00Z')))).toEqual(
+      [
+        '2025-03-31T09:00:00.000Z',
+        '2026-01-01T09:00:00.000Z',
+        '2026-01-02T09:00:00.000Z',
+      ]
+    );
+
+    const sunday = CronExpression.parse('0 0 * * 7', 'UTC');
+    expect(sunday.next(new Date('2025-03-10T00:00:00Z')).toISOString()).toBe(
+      '2025-03-16T00:00:00.000Z'
+    );
+  });
+
+  it('matches either day field when both are restricted', () => {
+    const cron = CronExpression.parse('0 0 13 * FRI', 'UTC');
+
+    expect(iso(cron.upcoming(3, new Date('2025-06-01T00:00:00Z')))).toEqual([
+      '2025-06-06T00:00:00.000Z',
+      '2025-06-13T00:00:00.000Z',
+      '2025-06-20T00:00:00.000Z',
+    ]);
+  });
+
+  it('supports a seconds field and macros', () => {
+    const seconds = CronExpression.parse('*/20 * * * * *', 'UTC');
+    expect(iso(seconds.upcoming(3, new Date('2025-01-01T00:00:05Z')))).toEqual([
+      '2025-01-01T00:00:20.000Z',
+      '2025-01-01T00:00:40.000Z',
+      '2025-01-01T00:01:00.000Z',
+    ]);
+
+    const yearly = CronExpression.parse('@yearly', 'UTC');
+    expect(yearly.next(new Date('2025-01-01T00:00:00Z')).toISOString()).toBe(
+      '2026-01-01T00:00:00.000Z'
+    );
+  });
+
+  it('evaluates schedules on the wall clock of the timezone', () => {
+    const cron = CronExpression.parse('0 2 * * *', 'Asia/Kolkata');
+
+    expect(cron.next(new Date('2025-03-10T00:00:00Z')).toISOString()).toBe(
+      '2025-03-10T20:30:00.000Z'
+    );
+  });
+
+  it('shifts runs skipped by a spring-forward transition', () => {
+    // America/New_York jumps from 02:00 EST to 03:00 EDT on 2025-03-09
+    const cron = CronExpression.parse('30 2 * * *', 'America/New_York');
+
+    expect(iso(cron.upcoming(2, new Date('2025-03-08T12:00:00Z')))).toEqual([
+      '2025-03-09T07:30:00.000Z', // 03:30 EDT
+      '2025-03-10T06:30:00.000Z', // 02:30 EDT
+    ]);
+  });
+
+  it('runs fixed times once across a fall-back transition', () => {
+    // America/New_York repeats 01:00-02:00 on 2025-11-02
+    const cron = CronExpression.parse('30 1 * * *', 'America/New_York');
+
+    expect(iso(cron.upcoming(2, new Date('2025-11-02T04:00:00Z')))).toEqual([
+      '2025-11-02T05:30:00.000Z', // 01:30 EDT
+      '2025-11-03T06:30:00.000Z', // 01:30 EST
+    ]);
+  });
+
+  it('keeps interval schedules running through the repeated hour', () => {
+    const cron = CronExpression.parse('0,30 * * * *', 'America/New_York');
+
+    expect(iso(cron.upcoming(5, new Date('2025-11-02T05:00:00Z')))).toEqual([
+      '2025-11-02T05:30:00.000Z', // 01:30 EDT
+      '2025-11-02T06:00:00.000Z', // 01:00 EST
+      '2025-11-02T06:30:00.000Z', // 01:30 EST
+      '2025-11-02T07:00:00.000Z', // 02:00 EST
+      '2025-11-02T07:30:00.000Z',
+    ]);
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(isValidCronExpression('0 2 * *')).toBe(false);
+    expect(isValidCronExpression('60 * * * *')).toBe(false);
+    expect(isValidCronExpression('0 0 30 FEB *')).toBe(false);
+    expect(isValidCronExpression('*/0 * * * *')).toBe(false);
+    expect(isValidCronExpression('0 5-1 * * *')).toBe(false);
+    expect(isValidCronExpression('0 0 * * *', 'Mars/Olympus')).toBe(false);
+    expect(() => CronExpression.parse('0 0 * * FOO')).toThrow(
+      'invalid day of week "FOO"'
+    );
+  });
+});
+
+describe('SchedulerService schedules', () => {
+  let scheduler: SchedulerService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-03-10T00:00:00Z'));
+    scheduler = new SchedulerService();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    // The module singleton schedules its default tasks on import
+    schedulerService.stop();
+  });
+
+  it('updates a task to a custom schedule', async () => {
+    const result = await scheduler.updateTaskSchedule(
+      'data_cleanup',
+      '15 3 * * MON',
+      'UTC'
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data!.nextRun.toISOString()).toBe('2025-03-10T03:15:00.000Z');
+    expect(iso(scheduler.getUpcomingRuns('data_cleanup', 2) as Date[])).toEqual(
+      ['2025-03-10T03:15:00.000Z', '2025-03-17T03:15:00.000Z']
+    );
+  });
+
+  it('leaves the task unchanged when the schedule is invalid', async () => {
+    const { schedule } = scheduler.getTask('data_cleanup')!;
+
+    const result = await scheduler.updateTaskSchedule(
+      'data_cleanup',
+      'every day'
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('expected 5 or 6 fields');
+    expect(scheduler.getTask('data_cleanup')!.schedule).toBe(schedule);
+    expect(
+      (await scheduler.updateTaskSchedule('missing', '* * * * *')).error
+    ).toBe('Task not found');
+  });
+
+  it('runs each slot once when several instances share the queue', async () => {
+    const replica = new SchedulerService();
+
+    try {
+      // api_health_monitoring runs every 5 minutes; both instances fire
+      await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+      const runs = await jobQueue.listJobs({
+        name: 'scheduler.task',
+        subject: 'api_health_monitoring',
+      });
+      expect(runs).toHaveLength(1);
+      expect(runs[0].dedupeKey).toContain('2025-03-10T00:05:00.000Z');
+
+      await jobQueue.poll();
+      await jobQueue.idle();
+
+      expect(externalAPIService.monitorAPIHealth).toHaveBeenCalledTimes(1);
+      expect((await jobQueue.findJob(runs[0].id))!.status).toBe('completed');
+    } finally {
+      replica.stop();
+    }
+  });
+
+  it('previews an expression without saving it', () => {
+    const result = scheduler.previewSchedule('0 9 * * *', 'Asia/Kolkata', 2);
+
+    expect(result.success).toBe(true);
+    expect(iso(result.data!.runs)).toEqual([
+      '2025-03-10T03:30:00.000Z',
+      '2025-03-11T03:30:00.000Z',
+    ]);
+  });
+});
@@ -0,0 +1,521 @@
+/**
+ * Unit tests for direct messages: attachment limits, message edits and
+ * deletions, read receipts and the real-time messaging channel
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { promises as fs } from 'fs';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { Server as SocketIOServer } from 'socket.io';
+import type { Socket as ClientSocket } from 'socket.io-client';
+import { io as connect } from 'socket.io-client';
+import {
+  getAttachmentError,
+  MAX_ATTACHMENT_BYTES,
+  matchesFileSignature,
+  sanitizeFileName,
+} from '../lib/direct-messages';
+import { DirectMessagingService } from '../lib/services/direct-messaging.service';
+import { notificationService } from '../lib/services/notification.service';
+import { socialService } from '../lib/services/social.service';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    directMessage: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+    directMessageAttachment: {
+      count: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    user: { findUnique: jest.fn() },
+    userBlock: { findFirst: jest.fn() },
+    contentReport: { create: jest.fn() },
+    auditLog: { create: jest.fn() },
+    $queryRaw: jest.fn(),
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+
+jest.mock('../lib/services/auth.service', () => ({
+  authService: {
+    verifyAccessToken: jest.fn((token: string) => {
+      if (!token.startsWith('token-')) throw new Error('invalid signature');
+      return { id: token.slice('token-'.length), email: 'user@example.com' };
+    }),
+  },
+}));
+
+jest.mock('../lib/services/notification.service', () => ({
+  notificationService: { sendNotification: jest.fn() },
+}));
+
+// Every PrismaClient instance shares the mocked client above
+const mockPrisma = new PrismaClient() as any;
+const mockSendNotification = notificationService.sendNotification as jest.Mock;
+
+const ALICE = '11111111-1111-4111-8111-111111111111';
+const BOB = '22222222-2222-4222-8222-222222222222';
+
+const PNG = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00,
+]);
+
+const storedMessage = (overrides: Record<string, any> = {}) => ({
+  id: 'message-1',
+  senderId: ALICE,
+  receiverId: BOB,
+  sender: { id: ALICE, name: 'Alice' },
+  receiver: { id: BOB, name: 'Bob' },
+  content: 'Hello Bob',
+  isRead: false,
+  readAt: null,
+  editedAt: null,
+  deletedAt: null,
+  createdAt: new Date('2030-01-01T10:00:00Z'),
+  attachments: [],
+  ...overrides,
+});
+
+describe('direct message limits', () => {
+  it('accepts allowed files and rejects the rest', () => {
+    expect(
+      getAttachmentError({
+        fileName: 'resume.pdf',
+        mimeType: 'application/pdf',
+        size: 1024,
+      })
+    ).toBeNull();
+    expect(
+      getAttachmentError({
+        fileName: 'run.exe',
+        mimeType: 'application/x-msdownload',
+        size: 1024,
+      })
+    ).toBe('File type not allowed');
+    expect(
+      getAttachmentError({
+        fileName: 'photo.pdf',
+        mimeType: 'image/png',
+        size: 1024,
+      })
+    ).toBe('File extension does not match its type');
+    expect(
+      getAttachmentError({
+        fileName: 'scan.png',
+        mimeType: 'image/png',
+        size: MAX_ATTACHMENT_BYTES + 1,
+      })
+    ).toBe('File is larger than 10 MB');
+  });
+
+  it('checks the leading bytes of binary files', () => {
+    expect(matchesFileSignature('image/png', PNG)).toBe(true);
+    expect(matchesFileSignature('application/pdf', PNG)).toBe(false);
+    expect(matchesFileSignature('text/plain', PNG)).toBe(true);
+  });
+
+  it('strips paths and control characters from file names', () => {
+    expect(sanitizeFileName('../../etc/pass"wd\n.txt')).toBe('passwd.txt');
+    expect(sanitizeFileName('C:\\Users\\me\\cv.pdf')).toBe('cv.pdf');
+    expect(sanitizeFileName('///')).toBe('attachment');
+  });
+});
+
+describe('SocialService direct messages', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('sendDirectMessage', () => {
+    it("attaches the sender's unsent uploads", async () => {
+      mockPrisma.directMessageAttachment.count.mockResolvedValue(1);
+      mockPrisma.directMessage.create.mockResolvedValue(
+        storedMessage({
+          attachments: [
+            {
+              id: 'attachment-1',
+              fileName: 'cv.pdf',
+              mimeType: 'application/pdf',
+              size: 2048,
+            },
+          ],
+        })
+      );
+
+      const result = await socialService.sendDirectMessage(
+        ALICE,
+        BOB,
+        '  Hello Bob  ',
+        ['attachment-1', 'attachment-1']
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data!.attachments).toEqual([
+        {
+          id: 'attachment-1',
+          fileName: 'cv.pdf',
+          mimeType: 'application/pdf',
+          size: 2048,
+          url: '/api/v1/social/messages/attachments/attachment-1',
+        },
+      ]);
+      expect(mockPrisma.directMessageAttachment.count).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['attachment-1'] },
+          uploaderId: ALICE,
+          messageId: null,
+        },
+      });
+      expect(mockPrisma.directMessage.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            senderId: ALICE,
+            receiverId: BOB,
+            content: 'Hello Bob',
+            attachments: { connect: [{ id: 'attachment-1' }] },
+          },
+        })
+      );
+    });
+
+    it("refuses someone else's or already sent uploads", async () => {
+      mockPrisma.directMessageAttachment.count.mockResolvedValue(0);
+
+      const result = await socialService.sendDirectMessage(ALICE, BOB, '', [
+        'attachment-2',
+      ]);
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Attachment not found',
+      });
+      expect(mockPrisma.directMessage.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses empty messages', async () => {
+      const result = await socialService.sendDirectMessage(ALICE, BOB, '   ');
+
+      expect(result.error).toBe('Message is empty');
+    });
+  });
+
+  describe('editDirectMessage', () => {
+    it('only lets the sender edit', async () => {
+      mockPrisma.directMessage.findUnique.mockResolvedValue(storedMessage());
+
+      const result = await socialService.editDirectMessage(
+        'message-1',
+        BOB,
+        'Changed'
+      );
+
+      expect(result.error).toBe('Only the sender can edit this message');
+      expect(mockPrisma.directMessage.update).not.toHaveBeenCalled();
+    });
+
+    it('records when the message was edited', async () => {
+      mockPrisma.directMessage.findUnique.mockResolvedValue(storedMessage());
+      mockPrisma.directMessage.update.mockResolvedValue(
+        storedMessage({ content: 'Changed', editedAt: new Date() })
+      );
+
+      const result = await socialService.editDirectMessage(
+        'message-1',
+        ALICE,
+        'Changed'
+      );
+
+      expect(result.data!.editedAt).toBeInstanceOf(Date);
+      expect(mockPrisma.directMessage.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { content: 'Changed', editedAt: expect.any(Date) },
+        })
+      );
+    });
+  });
+
+  describe('deleteDirectMessage', () => {
+    it('clears the text and removes attachment files', async () => {
+      const unlink = jest.spyOn(fs, 'unlink').mockResolvedValue(undefined);
+      mockPrisma.directMessage.findUnique.mockResolvedValue(
+        storedMessage({
+          attachments: [{ id: 'attachment-1', uploaderId: ALICE }],
+        })
+      );
+      mockPrisma.directMessage.update.mockResolvedValue(
+        storedMessage({ content: '', deletedAt: new Date() })
+      );
+
+      const result = await socialService.deleteDirectMessage(
+        'message-1',
+        ALICE
+      );
+
+      expect(result.data!.content).toBe('');
+      expect(result.data!.deletedAt).toBeInstanceOf(Date);
+      expect(mockPrisma.directMessage.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            content: '',
+            deletedAt: expect.any(Date),
+            attachments: { deleteMany: {} },
+          },
+        })
+      );
+      expect(unlink).toHaveBeenCalledWith(
+        expect.stringMatching(new RegExp(`${ALICE}.attachment-1$`))
+      );
+
+      unlink.mockRestore();
+    });
+  });
+
+  describe('markMessagesRead', () => {
+    it('returns a receipt for the newly read messages', async () => {
+      mockPrisma.directMessage.findMany.mockResolvedValue([
+        { id: 'message-1' },
+        { id: 'message-2' },
+      ]);
+
+      const result = await socialService.markMessagesRead(BOB, ALICE);
+
+      expect(result.data).toEqual({
+        readerId: BOB,
+        senderId: ALICE,
+        messageIds: ['message-1', 'message-2'],
+        readAt: expect.any(Date),
+      });
+      expect(mockPrisma.directMessage.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['message-1', 'message-2'] }, isRead: false },
+        data: { isRead: true, readAt: result.data!.readAt },
+      });
+    });
+  });
+
+  describe('getConversations', () => {
+    it('lists the most recent conversation first', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([
+        {
+          partner_id: BOB,
+          partner_name: 'Bob',
+          id: 'message-1',
+          sender_id: BOB,
+          content: 'Older',
+          deleted_at: null,
+          created_at: '2030-01-01T10:00:00Z',
+          has_attachments: false,
+          unread_count: 2,
+        },
+        {
+          partner_id: 'carol',
+          partner_name: 'Carol',
+          id: 'message-2',
+          sender_id: ALICE,
+          content: 'Newer',
+          deleted_at: null,
+          created_at: '2030-01-02T10:00:00Z',
+          has_attachments: true,
+          unread_count: 0,
+        },
+      ]);
+
+      const result = await socialService.getConversations(ALICE);
+
+      expect(result.data!.map(conversation => conversation.user.name)).toEqual([
+        'Carol',
+        'Bob',
+      ]);
+      expect(result.data![1].unreadCount).toBe(2);
+      expect(result.data![0].lastMessage.hasAttachments).toBe(true);
+    });
+  });
+
+  describe('uploadMessageAttachment', () => {
+    it('refuses content that does not match its type', async () => {
+      const result = await socialService.uploadMessageAttachment(
+        ALICE,
+        'cv.pdf',
+        'application/pdf',
+        PNG
+      );
+
+      expect(result.error).toBe('File content does not match its type');
+      expect(mockPrisma.directMessageAttachment.create).not.toHaveBeenCalled();
+    });
+
+    it("stores the file in the uploader's directory", async () => {
+      const mkdir = jest.spyOn(fs, 'mkdir').mockResolvedValue(undefined);
+      const writeFile = jest
+        .spyOn(fs, 'writeFile')
+        .mockResolvedValue(undefined);
+      mockPrisma.directMessageAttachment.create.mockResolvedValue({
+        id: 'attachment-1',
+        uploaderId: ALICE,
+        fileName: 'photo.png',
+        mimeType: 'image/png',
+        size: PNG.length,
+      });
+
+      const result = await socialService.uploadMessageAttachment(
+        ALICE,
+        'photo.png',
+        'image/png',
+        PNG
+      );
+
+      expect(result.success).toBe(true);
+      expect(writeFile).toHaveBeenCalledWith(
+        expect.stringMatching(new RegExp(`uploads.${ALICE}.attachment-1$`)),
+        PNG
+      );
+
+      mkdir.mockRestore();
+      writeFile.mockRestore();
+    });
+  });
+
+  describe('getMessageAttachment', () => {
+    it("hides attachments from users who are not in the message's conversation", async () => {
+      mockPrisma.directMessageAttachment.findUnique.mockResolvedValue({
+        id: 'attachment-1',
+        uploaderId: ALICE,
+        message: { receiverId: BOB },
+      });
+
+      const outsider = await socialService.getMessageAttachment(
+        'attachment-1',
+        'someone-else'
+      );
+      const receiver = await socialService.getMessageAttachment(
+        'attachment-1',
+        BOB
+      );
+
+      expect(outsider.error).toBe('Attachment not found');
+      expect(receiver.success).toBe(true);
+    });
+  });
+});
+
+describe('DirectMessagingService', () => {
+  let io: SocketIOServer;
+  let url: string;
+  let messaging: DirectMessagingService;
+  const clients: ClientSocket[] = [];
+
+  const connectAs = (token: string): Promise<ClientSocket> =>
+    new Promise((resolve, reject) => {
+      const client = connect(`${url}/messages`, {
+        auth: { token },
+        transports: ['websocket'],
+        reconnection: false,
+      });
+      clients.push(client);
+      client.on('connect', () => resolve(client));
+      client.on('connect_error', reject);
+    });
+
+  const nextEvent = <T = any>(client: ClientSocket, event: string) =>
+    new Promise<T>(resolve => client.once(event, resolve));
+
+  beforeAll(done => {
+    const httpServer = createServer();
+    io = new SocketIOServer(httpServer);
+    messaging = new DirectMessagingService();
+    messaging.attach(io);
+    httpServer.listen(0, () => {
+      url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterEach(() => {
+    clients.splice(0).forEach(client => client.disconnect());
+  });
+
+  afterAll(done => {
+    io.close(() => done());
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.directMessage.create.mockResolvedValue(storedMessage());
+  });
+
+  it('refuses connections without a valid token', async () => {
+    await expect(connectAs('forged')).rejects.toThrow('Unauthorized');
+  });
+
+  it('delivers messages to the online recipient without a notification', async () => {
+    const alice = await connectAs(`token-${ALICE}`);
+    const bob = await connectAs(`token-${BOB}`);
+    const received = nextEvent(bob, 'new-message');
+
+    const response = await alice.emitWithAck('send-message', {
+      receiverId: BOB,
+      content: 'Hello Bob',
+    });
+
+    expect(response.success).toBe(true);
+    expect((await received).content).toBe('Hello Bob');
+    expect(messaging.isOnline(BOB)).toBe(true);
+    expect(mockSendNotification).not.toHaveBeenCalled();
+  });
+
+  it('notifies offline recipients by push and in-app notification', async () => {
+    const alice = await connectAs(`token-${ALICE}`);
+
+    await alice.emitWithAck('send-message', {
+      receiverId: BOB,
+      content: 'Are you there?',
+    });
+
+    expect(mockSendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: BOB,
+        type: 'direct_message',
+        channels: ['push', 'in_app'],
+        content: expect.objectContaining({
+          title: 'New message from Alice',
+          message: 'Hello Bob',
+        }),
+      })
+    );
+  });
+
+  it('forwards typing indicators to the recipient only', async () => {
+    const alice = await connectAs(`token-${ALICE}`);
+    const bob = await connectAs(`token-${BOB}`);
+    const typing = nextEvent(bob, 'typing');
+
+    alice.emit('typing', { receiverId: BOB, isTyping: true });
+
+    await expect(typing).resolves.toEqual({ userId: ALICE, isTyping: true });
+  });
+
+  it('sends read receipts to the sender', async () => {
+    mockPrisma.directMessage.findMany.mockResolvedValue([{ id: 'message-1' }]);
+    const alice = await connectAs(`token-${ALICE}`);
+    const bob = await connectAs(`token-${BOB}`);
+    const receipt = nextEvent(alice, 'messages-read');
+
+    await bob.emitWithAck('mark-read', { userId: ALICE });
+
+    await expect(receipt).resolves.toEqual(
+      expect.objectContaining({
+        readerId: BOB,
+        senderId: ALICE,
+        messageIds: ['message-1'],
+      })
+    );
+  });
+});
@@ -0,0 +1,422 @@
+/**
+ * Unit tests for signing in with Google, GitHub and LinkedIn, run against
+ * the local mock identity provider
+ */
+
+import { PrismaClient } from '@prisma/client';
+import axios from 'axios';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  createMockIdpApp,
+  DEFAULT_MOCK_IDP_ACCOUNTS,
+} from '../scripts/mock-idp';
+import type {
+  FederatedAuthService,
+  FederatedProvider,
+} from '../lib/services/federated-auth.service';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    userIdentity: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    userSession: {
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    twoFactorChallenge: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    federatedLoginState: {
+      create: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+jest.mock('../lib/services/email.service', () => ({
+  createEmailService: () => ({ sendEmail: jest.fn() }),
+  renderEmailTemplate: jest.fn(),
+}));
+
+// Every PrismaClient instance shares the mocked client above
+const mockPrisma = new PrismaClient() as any;
+
+describe('FederatedAuthService', () => {
+  let service: FederatedAuthService;
+  let server: Server;
+  const loginStates = new Map<string, any>();
+
+  const existingUser = {
+    id: 'user-1',
+    email: 'asha.rao@example.com',
+    name: 'Asha Rao',
+    emailVerifiedAt: new Date('2026-01-05'),
+    twoFactorEnabled: false,
+    technicalSkills: ['Java'],
+    institution: null,
+    degree: null,
+  };
+
+  beforeAll(async () => {
+    server = createMockIdpApp({
+      ...DEFAULT_MOCK_IDP_ACCOUNTS,
+      google: [
+        ...DEFAULT_MOCK_IDP_ACCOUNTS.google,
+        {
+          id: '108999999999999999999',
+          email: 'unverified@example.com',
+          emailVerified: false,
+          name: 'Unverified User',
+        },
+      ],
+    }).listen(0);
+    const { port } = server.address() as AddressInfo;
+
+    process.env.JWT_SECRET = 'test-jwt-secret';
+    process.env.REFRESH_TOKEN_SECRET = 'test-refresh-secret';
+    process.env.NEXT_PUBLIC_APP_URL = 'http://localhost:3000';
+    process.env.FEDERATED_IDP_BASE_URL = `http://127.0.0.1:${port}`;
+    for (const provider of ['GOOGLE', 'GITHUB', 'LINKEDIN']) {
+      process.env[`${provider}_OAUTH_CLIENT_ID`] = `${provider}-client`;
+      process.env[`${provider}_OAUTH_CLIENT_SECRET`] = `${provider}-secret`;
+    }
+
+    const { FederatedAuthService } =
+      await import('../lib/services/federated-auth.service');
+    service = new FederatedAuthService();
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    loginStates.clear();
+
+    mockPrisma.federatedLoginState.create.mockImplementation(
+      async ({ data }: any) => {
+        loginStates.set(data.stateHash, data);
+        return data;
+      }
+    );
+    mockPrisma.federatedLoginState.delete.mockImplementation(
+      async ({ where }: any) => {
+        const loginState = loginStates.get(where.stateHash);
+        if (!loginState) throw new Error('Record to delete does not exist');
+        loginStates.delete(where.stateHash);
+        return loginState;
+      }
+    );
+    mockPrisma.user.findUnique.mockResolvedValue(null);
+    mockPrisma.userIdentity.findUnique.mockResolvedValue(null);
+    mockPrisma.userIdentity.create.mockImplementation(
+      async ({ data }: any) => ({
+        id: 'identity-1',
+        createdAt: new Date(),
+        ...data,
+      })
+    );
+    mockPrisma.userSession.create.mockResolvedValue({});
+    mockPrisma.userSession.updateMany.mockResolvedValue({ count: 0 });
+    mockPrisma.twoFactorChallenge.create.mockResolvedValue({
+      id: 'challenge-1',
+    });
+  });
+
+  /**
+   * Start an authorization and follow it through the mock IdP, returning
+   * what the provider sends back to the callback page
+   */
+  async function authorize(
+    provider: FederatedProvider,
+    options: { linkUserId?: string; loginHint?: string } = {}
+  ): Promise<{ code: string; state: string }> {
+    const started = await service.startAuthorization(provider, {
+      linkUserId: options.linkUserId,
+    });
+    const url = new URL(started.data!.authorizationUrl);
+    if (options.loginHint) {
+      url.searchParams.set('login_hint', options.loginHint);
+    }
+
+    const response = await axios.get(url.toString(), {
+      maxRedirects: 0,
+      validateStatus: () => true,
+    });
+    const callback = new URL(response.headers.location);
+
+    expect(callback.pathname).toBe(`/auth/callback/${provider}`);
+    return {
+      code: callback.searchParams.get('code')!,
+      state: callback.searchParams.get('state')!,
+    };
+  }
+
+  it('starts authorization with PKCE and stores only a hash of the state', async () => {
+    const result = await service.startAuthorization('google', {
+      returnTo: '//evil.example.com',
+    });
+    const url = new URL(result.data!.authorizationUrl);
+
+    expect(url.searchParams.get('client_id')).toBe('GOOGLE-client');
+    expect(url.searchParams.get('redirect_uri')).toBe(
+      'http://localhost:3000/auth/callback/google'
+    );
+    expect(url.searchParams.get('scope')).toBe('openid email profile');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('state')).toBe(result.data!.state);
+
+    const [stored] = loginStates.values();
+    expect(stored.stateHash).not.toBe(result.data!.state);
+    expect(stored.returnTo).toBeNull();
+  });
+
+  it('creates a verified user from GitHub with skills and institution', async () => {
+    mockPrisma.user.create.mockImplementation(async ({ data }: any) => ({
+      id: 'user-2',
+      email: data.email,
+      name: data.name,
+      emailVerifiedAt: data.emailVerifiedAt,
+      twoFactorEnabled: false,
+    }));
+
+    const result = await service.completeAuthorization(
+      'github',
+      await authorize('github')
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(
+      expect.objectContaining({ action: 'signed_in', isNewUser: true })
+    );
+    expect((result.data as any).session.accessToken).toBeDefined();
+
+    const { data } = mockPrisma.user.create.mock.calls[0][0];
+    expect(data.email).toBe('asha.rao@example.com');
+    expect(data.emailVerifiedAt).toBeInstanceOf(Date);
+    expect(data.passwordHash).toBeUndefined();
+    expect(data.institution).toBe('iitb');
+    expect(data.technicalSkills.slice(0, 3)).toEqual([
+      'TypeScript',
+      'Python',
+      'C++',
+    ]);
+    expect(data.technicalSkills).toEqual(
+      expect.arrayContaining(['React', 'Docker'])
+    );
+    // Forked repositories are not the user's own work
+    expect(data.technicalSkills).not.toContain('Rust');
+    expect(data.identities.create).toEqual(
+      expect.objectContaining({ provider: 'github', providerUserId: '5831234' })
+    );
+  });
+
+  it('links LinkedIn to the user with the same verified email, filling only empty fields', async () => {
+    mockPrisma.user.findUnique.mockResolvedValueOnce(existingUser);
+
+    const result = await service.completeAuthorization(
+      'linkedin',
+      await authorize('linkedin')
+    );
+
+    expect(result.data).toEqual(
+      expect.objectContaining({ action: 'signed_in', isNewUser: false })
+    );
+    expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    expect(mockPrisma.userIdentity.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: existingUser.id,
+        provider: 'linkedin',
+        providerUserId: 'xYz123AbC',
+      }),
+    });
+    expect(mockPrisma.user.update).toHaveBeenCalledWith({
+      where: { id: existingUser.id },
+      data: {
+        institution: 'Indian Institute of Technology Bombay',
+        degree: 'B.Tech',
+      },
+    });
+  });
+
+  it('removes credentials from an unverified account the provider proves belongs to someone else', async () => {
+    mockPrisma.user.findUnique.mockResolvedValueOnce({
+      ...existingUser,
+      emailVerifiedAt: null,
+      twoFactorEnabled: true,
+    });
+
+    const result = await service.completeAuthorization(
+      'google',
+      await authorize('google')
+    );
+
+    expect(result.success).toBe(true);
+    expect((result.data as any).session.accessToken).toBeDefined();
+    expect(mockPrisma.user.update).toHaveBeenCalledWith({
+      where: { id: existingUser.id },
+      data: expect.objectContaining({
+        passwordHash: null,
+        twoFactorEnabled: false,
+        emailVerifiedAt: expect.any(Date),
+      }),
+    });
+    expect(mockPrisma.userSession.updateMany).toHaveBeenCalledWith({
+      where: { userId: existingUser.id, revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
+  it('refuses a new provider account without a verified email', async () => {
+    const result = await service.completeAuthorization(
+      'google',
+      await authorize('google', { loginHint: 'unverified@example.com' })
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Your Google account has no verified email address',
+    });
+    expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    expect(mockPrisma.userIdentity.create).not.toHaveBeenCalled();
+  });
+
+  it('asks for a two-factor code when a linked user has 2FA', async () => {
+    mockPrisma.userIdentity.findUnique.mockResolvedValueOnce({
+      id: 'identity-1',
+      userId: existingUser.id,
+      user: { ...existingUser, twoFactorEnabled: true },
+    });
+
+    const result = await service.completeAuthorization(
+      'google',
+      await authorize('google')
+    );
+
+    expect((result.data as any).session).toEqual({
+      twoFactorRequired: true,
+      challengeToken: expect.any(String),
+    });
+    expect(mockPrisma.userSession.create).not.toHaveBeenCalled();
+  });
+
+  it('accepts each state only once', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(existingUser);
+    const callback = await authorize('github');
+
+    const first = await service.completeAuthorization('github', callback);
+    const replay = await service.completeAuthorization('github', callback);
+
+    expect(first.success).toBe(true);
+    expect(replay).toEqual({
+      success: false,
+      error: 'Sign-in request is invalid or has expired. Please try again',
+    });
+  });
+
+  it('fails when the code verifier does not match the challenge', async () => {
+    const callback = await authorize('github');
+    const [stored] = loginStates.values();
+    stored.codeVerifier = 'a-different-verifier';
+
+    const result = await service.completeAuthorization('github', callback);
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Failed to sign in with GitHub',
+    });
+  });
+
+  it('only completes a link for the user who started it', async () => {
+    const callback = await authorize('github', { linkUserId: 'user-1' });
+
+    const result = await service.completeAuthorization('github', callback);
+
+    expect(result.success).toBe(false);
+    expect(mockPrisma.userIdentity.create).not.toHaveBeenCalled();
+  });
+
+  it('links a provider account to the signed-in user', async () => {
+    mockPrisma.userIdentity.findFirst.mockResolvedValueOnce(null);
+    mockPrisma.user.findUnique.mockResolvedValueOnce(existingUser);
+
+    const result = await service.completeAuthorization(
+      'github',
+      await authorize('github', { linkUserId: 'user-1' }),
+      'user-1'
+    );
+
+    expect(result.data).toEqual(
+      expect.objectContaining({
+        action: 'linked',
+        identity: expect.objectContaining({ provider: 'github' }),
+      })
+    );
+    // Skills were already filled in, so only the institution is imported
+    expect(mockPrisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { institution: 'iitb' },
+    });
+  });
+
+  it('refuses a GitHub account linked to another user', async () => {
+    mockPrisma.userIdentity.findUnique.mockResolvedValueOnce({
+      id: 'identity-9',
+      userId: 'user-9',
+    });
+
+    const result = await service.completeAuthorization(
+      'github',
+      await authorize('github', { linkUserId: 'user-1' }),
+      'user-1'
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: 'This GitHub account is linked to another user',
+    });
+  });
+
+  describe('unlinkIdentity', () => {
+    it('keeps the only way a user can sign in', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        passwordHash: null,
+        identities: [{ provider: 'google' }],
+      });
+
+      const result = await service.unlinkIdentity('user-1', 'google');
+
+      expect(result.success).toBe(false);
+      expect(mockPrisma.userIdentity.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('unlinks when the user has a password', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({
+        passwordHash: 'salt:hash',
+        identities: [{ provider: 'google' }],
+      });
+
+      const result = await service.unlinkIdentity('user-1', 'google');
+
+      expect(result.success).toBe(true);
+      expect(mockPrisma.userIdentity.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', provider: 'google' },
+      });
+    });
+  });
+});
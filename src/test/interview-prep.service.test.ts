@@ -1,5 +1,16 @@
+import { PrismaClient } from '@prisma/client';
 import { InterviewPrepService } from '../lib/services/interview-prep.service';
 
+jest.mock('@prisma/client', () => {
+  const client = {
+    opportunity: { findUnique: jest.fn() },
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+
+// Every PrismaClient instance shares the mocked client above
+const mockPrisma = new PrismaClient() as any;
+
 describe('InterviewPrepService', () => {
   let service: InterviewPrepService;
 
@@ -127,6 +138,71 @@ describe('InterviewPrepService', () => {
         Array
       );
     });
+
+    it('should score different resumes differently', async () => {
+      const weak = await service.analyzeResume('user-123', 'Skills: HTML');
+      const strong = await service.analyzeResume(
+        'user-123',
+        `Asha Rao
+        asha@example.com | +91 98765 43210 | github.com/asha
+
+        Experience
+        - Built a React dashboard used by 2000 users
+        - Reduced API latency by 40% with Redis caching
+
+        Education
+        B.Tech Computer Science, 2025
+
+        Skills: JavaScript, React, Node.js, Redis, SQL`
+      );
+
+      expect(strong.data!.score).toBeGreaterThan(weak.data!.score);
+      expect(strong.data!.analysisResult.skills).toEqual(
+        expect.arrayContaining(['React', 'Node.js', 'Redis'])
+      );
+    });
+
+    it('should report skill gaps against an opportunity', async () => {
+      mockPrisma.opportunity.findUnique.mockResolvedValue({
+        id: 'opp-1',
+        title: 'Backend Internship',
+        requiredSkills: ['nodejs', 'PostgreSQL', 'docker'],
+      });
+
+      const result = await service.analyzeResume(
+        'user-123',
+        `Projects
+        - Developed a REST API in Node.js
+
+        Skills: Node.js, Docker`,
+        'opp-1'
+      );
+
+      const { gapReport, keywords } = result.data!.analysisResult;
+      expect(gapReport).toEqual(
+        expect.objectContaining({
+          opportunityId: 'opp-1',
+          matchScore: 67,
+          matchedSkills: ['Node.js', 'Docker'],
+          missingSkills: ['PostgreSQL'],
+          unevidencedSkills: ['Docker'],
+        })
+      );
+      expect(keywords.missing).toEqual(['PostgreSQL']);
+    });
+
+    it('should fail for an unknown opportunity', async () => {
+      mockPrisma.opportunity.findUnique.mockResolvedValue(null);
+
+      const result = await service.analyzeResume(
+        'user-123',
+        'Skills: Python',
+        'missing'
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Opportunity not found');
+    });
   });
 
   describe('getProgress', () => {
@@ -43,6 +43,7 @@ async function testAuthService() {
     const refreshToken = authService['generateRefreshToken']({
       id: payload.id,
       email: payload.email,
+      sid: 'session-123',
     });
 
     console.log(`   Access token: ${accessToken.substring(0, 30)}...`);
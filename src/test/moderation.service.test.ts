@@ -0,0 +1,558 @@
+/**
+ * Unit tests for content moderation: the content filter rules, reports, the
+ * moderator queue actions and user blocking
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { evaluateContent } from '../lib/content-filter';
+import { AuditLogger } from '../lib/security/audit-logging';
+import {
+  ACCOUNT_SUSPENDED_ERROR,
+  CONTENT_BLOCKED_ERROR,
+  moderationService,
+} from '../lib/services/moderation.service';
+import { socialService } from '../lib/services/social.service';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    user: { findUnique: jest.fn(), updateMany: jest.fn() },
+    userSession: { updateMany: jest.fn() },
+    userBlock: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    userFollow: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+    activityFeed: { create: jest.fn(), findMany: jest.fn(), count: jest.fn() },
+    contentReport: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    discussion: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    directMessage: { create: jest.fn(), findUnique: jest.fn() },
+    auditLog: { create: jest.fn() },
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+
+// Every PrismaClient instance shares the mocked client above
+const mockPrisma = new PrismaClient() as any;
+
+const ALICE = '11111111-1111-4111-8111-111111111111';
+const BOB = '22222222-2222-4222-8222-222222222222';
+const MODERATOR = '33333333-3333-4333-8333-333333333333';
+const DISCUSSION = '44444444-4444-4444-8444-444444444444';
+
+const storedReport = (overrides: Record<string, any> = {}) => ({
+  id: 'report-1',
+  contentType: 'discussion',
+  contentId: DISCUSSION,
+  authorId: BOB,
+  reporterId: ALICE,
+  reason: 'spam',
+  details: null,
+  matchedRules: [],
+  status: 'pending',
+  action: null,
+  resolvedById: null,
+  resolvedAt: null,
+  createdAt: new Date('2030-01-01T10:00:00Z'),
+  ...overrides,
+});
+
+let logModerationEvent: jest.SpyInstance;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  logModerationEvent = jest
+    .spyOn(AuditLogger, 'logModerationEvent')
+    .mockResolvedValue();
+});
+
+afterEach(() => {
+  logModerationEvent.mockRestore();
+});
+
+describe('content filter', () => {
+  it('allows ordinary posts', () => {
+    const result = evaluateContent(
+      'Is anyone forming a team for the Smart India Hackathon? I know React.'
+    );
+
+    expect(result).toEqual({ action: 'allow', matchedRules: [] });
+  });
+
+  it('flags profanity, including swapped and stretched letters', () => {
+    for (const text of ['what the fuuuck', 'this is sh1t', 'FUCKING hell']) {
+      expect(evaluateContent(text)).toMatchObject({
+        action: 'flag',
+        reason: 'inappropriate',
+        matchedRules: ['profanity'],
+      });
+    }
+  });
+
+  it('does not flag words that merely contain profanity', () => {
+    const result = evaluateContent(
+      'Scunthorpe class assessment: pass the cocktail of Dickensian classics'
+    );
+
+    expect(result.action).toBe('allow');
+  });
+
+  it('flags spam phrases and link dumps', () => {
+    expect(
+      evaluateContent('Earn money fast! WhatsApp me for details')
+    ).toMatchObject({ action: 'flag', reason: 'spam' });
+
+    const links = Array.from(
+      { length: 4 },
+      (_, i) => `https://example.com/${i}`
+    ).join(' ');
+    expect(evaluateContent(links).matchedRules).toEqual(['excessive_links']);
+  });
+
+  it('flags shouting but not short acronyms', () => {
+    expect(
+      evaluateContent('THIS HACKATHON IS THE BEST THING EVER').matchedRules
+    ).toEqual(['shouting']);
+    expect(evaluateContent('Applied to NASA and ISRO').action).toBe('allow');
+  });
+
+  it('blocks repeated text, which decides the reason over flags', () => {
+    const result = evaluateContent(
+      'buy buy buy buy buy buy buy buy now please http://spam.example'
+    );
+
+    expect(result.action).toBe('block');
+    expect(result.matchedRules).toEqual(
+      expect.arrayContaining(['spam_phrases', 'repeated_text'])
+    );
+    expect(evaluateContent('a'.repeat(25)).action).toBe('block');
+  });
+});
+
+describe('ModerationService', () => {
+  describe('screenContent', () => {
+    it('blocks script markup that XSS protection would strip', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ bannedAt: null });
+
+      const result = await moderationService.screenContent(
+        ALICE,
+        'comment',
+        'Nice post <img src=x onerror="steal()">'
+      );
+
+      expect(result).toMatchObject({
+        action: 'block',
+        matchedRules: ['unsafe_markup'],
+        error: CONTENT_BLOCKED_ERROR,
+      });
+      expect(logModerationEvent).toHaveBeenCalledWith(
+        AuditLogger.EVENT_TYPES.CONTENT_BLOCKED,
+        'comment',
+        expect.objectContaining({ matchedRules: ['unsafe_markup'] }),
+        ALICE
+      );
+    });
+
+    it('leaves plain text that only looks like an attribute alone', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ bannedAt: null });
+
+      const result = await moderationService.screenContent(
+        ALICE,
+        'comment',
+        'Set condition=1 and online=true in the config'
+      );
+
+      expect(result.action).toBe('allow');
+    });
+
+    it('blocks everything from a banned user', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ bannedAt: new Date() });
+
+      const result = await moderationService.screenContent(
+        ALICE,
+        'discussion',
+        'Hello'
+      );
+
+      expect(result.action).toBe('block');
+      expect(result.error).toBe(ACCOUNT_SUSPENDED_ERROR);
+    });
+  });
+
+  describe('reportContent', () => {
+    it('records a report against the content author', async () => {
+      mockPrisma.discussion.findUnique.mockResolvedValue({
+        userId: BOB,
+        title: 'Free crypto',
+        content: 'Click here',
+        isActive: true,
+      });
+      mockPrisma.contentReport.findUnique.mockResolvedValue(null);
+      mockPrisma.contentReport.create.mockResolvedValue(storedReport());
+
+      const result = await moderationService.reportContent(
+        ALICE,
+        'discussion',
+        DISCUSSION,
+        'spam'
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockPrisma.contentReport.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          contentType: 'discussion',
+          contentId: DISCUSSION,
+          authorId: BOB,
+          reporterId: ALICE,
+          reason: 'spam',
+        }),
+      });
+      expect(logModerationEvent).toHaveBeenCalledWith(
+        AuditLogger.EVENT_TYPES.CONTENT_REPORTED,
+        `discussion:${DISCUSSION}`,
+        expect.objectContaining({ reportId: 'report-1' }),
+        ALICE
+      );
+    });
+
+    it('rejects reports on missing content, own content and repeats', async () => {
+      mockPrisma.discussion.findUnique.mockResolvedValueOnce(null);
+      expect(
+        await moderationService.reportContent(
+          ALICE,
+          'discussion',
+          DISCUSSION,
+          'spam'
+        )
+      ).toMatchObject({ success: false, error: 'Content not found' });
+
+      mockPrisma.discussion.findUnique.mockResolvedValue({
+        userId: ALICE,
+        title: 'Mine',
+        content: 'Mine',
+        isActive: true,
+      });
+      expect(
+        await moderationService.reportContent(
+          ALICE,
+          'discussion',
+          DISCUSSION,
+          'spam'
+        )
+      ).toMatchObject({ error: 'You cannot report your own content' });
+
+      mockPrisma.discussion.findUnique.mockResolvedValue({
+        userId: BOB,
+        title: 'Theirs',
+        content: 'Theirs',
+        isActive: true,
+      });
+      mockPrisma.contentReport.findUnique.mockResolvedValue(storedReport());
+      expect(
+        await moderationService.reportContent(
+          ALICE,
+          'discussion',
+          DISCUSSION,
+          'spam'
+        )
+      ).toMatchObject({ error: 'You have already reported this content' });
+      expect(mockPrisma.contentReport.create).not.toHaveBeenCalled();
+    });
+
+    it('only lets the recipient report a direct message', async () => {
+      mockPrisma.directMessage.findUnique.mockResolvedValue({
+        senderId: BOB,
+        receiverId: MODERATOR,
+        content: 'Hi',
+        hiddenAt: null,
+        deletedAt: null,
+      });
+
+      const result = await moderationService.reportContent(
+        ALICE,
+        'direct_message',
+        'message-1',
+        'harassment'
+      );
+
+      expect(result.error).toBe('Content not found');
+    });
+  });
+
+  describe('takeAction', () => {
+    it('hides the content and closes every open report on it', async () => {
+      mockPrisma.contentReport.findUnique.mockResolvedValue(storedReport());
+      mockPrisma.discussion.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await moderationService.takeAction(
+        'report-1',
+        MODERATOR,
+        'hide'
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ status: 'resolved', action: 'hide' });
+      expect(mockPrisma.discussion.updateMany).toHaveBeenCalledWith({
+        where: { id: DISCUSSION },
+        data: { isActive: false },
+      });
+      expect(mockPrisma.contentReport.updateMany).toHaveBeenCalledWith({
+        where: {
+          contentType: 'discussion',
+          contentId: DISCUSSION,
+          OR: [{ status: 'pending' }, { id: 'report-1' }],
+        },
+        data: expect.objectContaining({
+          status: 'resolved',
+          action: 'hide',
+          resolvedById: MODERATOR,
+        }),
+      });
+      expect(logModerationEvent).toHaveBeenCalledWith(
+        AuditLogger.EVENT_TYPES.CONTENT_HIDDEN,
+        `discussion:${DISCUSSION}`,
+        expect.objectContaining({ reportId: 'report-1', action: 'hide' }),
+        MODERATOR
+      );
+    });
+
+    it('bans the author, revokes their sessions and hides the content', async () => {
+      mockPrisma.contentReport.findUnique.mockResolvedValue(storedReport());
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.discussion.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await moderationService.takeAction(
+        'report-1',
+        MODERATOR,
+        'ban',
+        'Repeated spam'
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: BOB },
+        data: { bannedAt: expect.any(Date), banReason: 'Repeated spam' },
+      });
+      expect(mockPrisma.userSession.updateMany).toHaveBeenCalledWith({
+        where: { userId: BOB, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.discussion.updateMany).toHaveBeenCalledWith({
+        where: { id: DISCUSSION },
+        data: { isActive: false },
+      });
+      expect(logModerationEvent).toHaveBeenCalledWith(
+        AuditLogger.EVENT_TYPES.USER_BANNED,
+        `user:${BOB}`,
+        { reason: 'Repeated spam' },
+        MODERATOR
+      );
+      expect(logModerationEvent).toHaveBeenCalledWith(
+        AuditLogger.EVENT_TYPES.AUTHOR_BANNED,
+        `discussion:${DISCUSSION}`,
+        { reportId: 'report-1', action: 'ban', note: 'Repeated spam' },
+        MODERATOR
+      );
+    });
+
+    it('lifts the ban when a reported user is restored', async () => {
+      mockPrisma.contentReport.findUnique.mockResolvedValue(
+        storedReport({
+          contentType: 'user',
+          contentId: BOB,
+          status: 'resolved',
+        })
+      );
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await moderationService.takeAction(
+        'report-1',
+        MODERATOR,
+        'restore'
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: BOB },
+        data: { bannedAt: null, banReason: null },
+      });
+      expect(logModerationEvent).toHaveBeenCalledWith(
+        AuditLogger.EVENT_TYPES.USER_UNBANNED,
+        `user:${BOB}`,
+        {},
+        MODERATOR
+      );
+    });
+
+    it('refuses to hide a user', async () => {
+      mockPrisma.contentReport.findUnique.mockResolvedValue(
+        storedReport({ contentType: 'user', contentId: BOB })
+      );
+
+      const result = await moderationService.takeAction(
+        'report-1',
+        MODERATOR,
+        'hide'
+      );
+
+      expect(result.error).toBe('Users cannot be hidden; ban them instead');
+      expect(mockPrisma.contentReport.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('dismisses a report without touching the content', async () => {
+      mockPrisma.contentReport.findUnique.mockResolvedValue(storedReport());
+
+      const result = await moderationService.takeAction(
+        'report-1',
+        MODERATOR,
+        'dismiss'
+      );
+
+      expect(result.data?.status).toBe('dismissed');
+      expect(mockPrisma.discussion.updateMany).not.toHaveBeenCalled();
+      expect(logModerationEvent).toHaveBeenCalledWith(
+        AuditLogger.EVENT_TYPES.REPORT_DISMISSED,
+        `discussion:${DISCUSSION}`,
+        expect.anything(),
+        MODERATOR
+      );
+    });
+
+    it('reports a missing report', async () => {
+      mockPrisma.contentReport.findUnique.mockResolvedValue(null);
+
+      const result = await moderationService.takeAction(
+        'report-1',
+        MODERATOR,
+        'hide'
+      );
+
+      expect(result.error).toBe('Report not found');
+    });
+  });
+});
+
+describe('SocialService moderation', () => {
+  it('ends follows in both directions when blocking', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ id: BOB });
+
+    const result = await socialService.blockUser(ALICE, BOB);
+
+    expect(result.success).toBe(true);
+    expect(mockPrisma.userBlock.upsert).toHaveBeenCalledWith({
+      where: { blockerId_blockedId: { blockerId: ALICE, blockedId: BOB } },
+      create: { blockerId: ALICE, blockedId: BOB },
+      update: {},
+    });
+    expect(mockPrisma.userFollow.deleteMany).toHaveBeenCalledWith({
+      where: {
+        OR: [
+          { followerId: ALICE, followingId: BOB },
+          { followerId: BOB, followingId: ALICE },
+        ],
+      },
+    });
+    expect(logModerationEvent).toHaveBeenCalledWith(
+      AuditLogger.EVENT_TYPES.USER_BLOCKED,
+      `user:${BOB}`,
+      {},
+      ALICE
+    );
+  });
+
+  it('does not let users block themselves', async () => {
+    const result = await socialService.blockUser(ALICE, ALICE);
+
+    expect(result.error).toBe('Cannot block yourself');
+  });
+
+  it('refuses follows and messages across a block', async () => {
+    mockPrisma.userBlock.findFirst.mockResolvedValue({ id: 'block-1' });
+
+    const follow = await socialService.followUser(BOB, ALICE);
+    const message = await socialService.sendDirectMessage(BOB, ALICE, 'Hi');
+
+    expect(follow.error).toBe('You cannot follow this user');
+    expect(message.error).toBe('You cannot message this user');
+    expect(mockPrisma.userFollow.create).not.toHaveBeenCalled();
+    expect(mockPrisma.directMessage.create).not.toHaveBeenCalled();
+  });
+
+  it('leaves blocked users out of the activity feed', async () => {
+    mockPrisma.userFollow.findMany.mockResolvedValue([
+      { followingId: BOB },
+      { followingId: MODERATOR },
+    ]);
+    mockPrisma.userBlock.findMany.mockResolvedValue([
+      { blockerId: BOB, blockedId: ALICE },
+    ]);
+    mockPrisma.activityFeed.findMany.mockResolvedValue([]);
+    mockPrisma.activityFeed.count.mockResolvedValue(0);
+
+    await socialService.getActivityFeed(ALICE);
+
+    expect(mockPrisma.activityFeed.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: { in: [BOB, MODERATOR], notIn: [BOB] },
+          entityId: { notIn: [BOB] },
+        },
+      })
+    );
+  });
+
+  it('rejects blocked content and queues flagged content', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ bannedAt: null });
+
+    const blocked = await socialService.createDiscussion(
+      'opportunity-1',
+      ALICE,
+      'Hello',
+      '<script>alert(1)</script>'
+    );
+    expect(blocked.error).toBe(CONTENT_BLOCKED_ERROR);
+    expect(mockPrisma.discussion.create).not.toHaveBeenCalled();
+
+    mockPrisma.discussion.create.mockResolvedValue({
+      id: DISCUSSION,
+      opportunityId: 'opportunity-1',
+      user: { id: ALICE, name: 'Alice' },
+      title: 'Free crypto giveaway',
+      content: 'Click here to claim',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const flagged = await socialService.createDiscussion(
+      'opportunity-1',
+      ALICE,
+      'Free crypto giveaway',
+      'Click here to claim'
+    );
+    expect(flagged.success).toBe(true);
+    expect(mockPrisma.contentReport.create).toHaveBeenCalledWith({
+      data: {
+        contentType: 'discussion',
+        contentId: DISCUSSION,
+        authorId: ALICE,
+        reason: 'spam',
+        matchedRules: ['spam_phrases'],
+      },
+    });
+  });
+});
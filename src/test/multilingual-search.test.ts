@@ -0,0 +1,152 @@
+/**
+ * Unit tests for transliteration and the multilingual search clauses
+ */
+
+import {
+  buildMultilingualQuery,
+  ENGLISH_SEARCH_FIELDS,
+  resolveQueryLanguage,
+} from '../lib/multilingual-search';
+import {
+  devanagariToLatin,
+  isRomanizedHindi,
+  latinToDevanagari,
+  romanizedHindiToEnglish,
+} from '../lib/transliteration';
+
+describe('transliteration', () => {
+  describe('devanagariToLatin', () => {
+    it('writes loanwords and place names the way they are spelt in English', () => {
+      expect(devanagariToLatin('इंटर्नशिप')).toBe('intarnaship');
+      expect(devanagariToLatin('मुंबई')).toBe('mumbai');
+      expect(devanagariToLatin('हैकाथॉन')).toBe('haikathon');
+    });
+
+    it('passes other characters through', () => {
+      expect(devanagariToLatin('AI हैकाथॉन 2024')).toBe('AI haikathon 2024');
+    });
+  });
+
+  describe('latinToDevanagari', () => {
+    it('writes Romanised Hindi in Devanagari', () => {
+      expect(latinToDevanagari('naukri')).toBe('नौक्रि');
+      expect(latinToDevanagari('Delhi 2024')).toBe('डेल्हि 2024');
+    });
+  });
+
+  describe('Romanised Hindi', () => {
+    it('is recognised by its grammatical words', () => {
+      expect(isRomanizedHindi('internship bangalore mein')).toBe(true);
+      expect(isRomanizedHindi('internship in bangalore')).toBe(false);
+    });
+
+    it('is turned into English search terms', () => {
+      expect(romanizedHindiToEnglish('internship bangalore mein')).toBe(
+        'internship bangalore'
+      );
+      expect(romanizedHindiToEnglish('naukri delhi ke liye')).toBe('job delhi');
+    });
+  });
+});
+
+describe('multilingual search', () => {
+  describe('resolveQueryLanguage', () => {
+    it('reads Romanised Hindi as Hindi whatever the detected language', () => {
+      expect(resolveQueryLanguage('internship bangalore mein', 'en')).toEqual({
+        language: 'hi',
+        romanized: true,
+      });
+      expect(resolveQueryLanguage('naukri in delhi', 'de')).toEqual({
+        language: 'hi',
+        romanized: true,
+      });
+    });
+
+    it('keeps the detected language otherwise', () => {
+      expect(resolveQueryLanguage('hackathon', 'en')).toEqual({
+        language: 'en',
+        romanized: false,
+      });
+      expect(resolveQueryLanguage('ஹேக்கத்தான்', 'ta')).toEqual({
+        language: 'ta',
+        romanized: false,
+      });
+    });
+  });
+
+  describe('buildMultilingualQuery', () => {
+    const queries = (clause: any) =>
+      clause.bool.should.map((should: any) => ({
+        query: should.multi_match.query,
+        fields: should.multi_match.fields,
+      }));
+
+    it('searches English fields for English queries', () => {
+      expect(
+        buildMultilingualQuery('ai hackathon', {
+          language: 'en',
+          romanized: false,
+        })
+      ).toEqual({
+        multi_match: {
+          query: 'ai hackathon',
+          fields: ENGLISH_SEARCH_FIELDS,
+          type: 'best_fields',
+          fuzziness: 'AUTO',
+        },
+      });
+    });
+
+    it('searches Hindi translations and a transliteration for Devanagari queries', () => {
+      const clause = buildMultilingualQuery('बैंगलोर में इंटर्नशिप', {
+        language: 'hi',
+        romanized: false,
+      });
+
+      expect(queries(clause)).toEqual([
+        {
+          query: 'बैंगलोर में इंटर्नशिप',
+          fields: ['translations.hi.title^3', 'translations.hi.description^2'],
+        },
+        { query: 'baingalor intarnaship', fields: ENGLISH_SEARCH_FIELDS },
+      ]);
+      expect(clause.bool.minimum_should_match).toBe(1);
+    });
+
+    it('searches English terms and a Devanagari spelling for Romanised Hindi', () => {
+      const clause = buildMultilingualQuery('naukri delhi ke liye', {
+        language: 'hi',
+        romanized: true,
+      });
+
+      expect(queries(clause)).toEqual([
+        { query: 'job delhi', fields: ENGLISH_SEARCH_FIELDS },
+        {
+          query: latinToDevanagari('naukri delhi'),
+          fields: ['translations.hi.title^3', 'translations.hi.description^2'],
+        },
+      ]);
+    });
+
+    it('searches the translations and English fields for other languages', () => {
+      const clause = buildMultilingualQuery('ஹேக்கத்தான்', {
+        language: 'ta',
+        romanized: false,
+      });
+
+      expect(queries(clause)).toEqual([
+        {
+          query: 'ஹேக்கத்தான்',
+          fields: ['translations.ta.title^3', 'translations.ta.description^2'],
+        },
+        { query: 'ஹேக்கத்தான்', fields: ENGLISH_SEARCH_FIELDS },
+      ]);
+    });
+
+    it('searches a query of only grammatical words as typed', () => {
+      expect(
+        buildMultilingualQuery('ke liye', { language: 'hi', romanized: true })
+      ).toEqual(expect.objectContaining({ multi_match: expect.anything() }));
+    });
+  });
+});
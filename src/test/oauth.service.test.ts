@@ -0,0 +1,347 @@
+/**
+ * Unit tests for PKCE, consent and OpenID Connect in the OAuth provider
+ */
+
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { getOidcIssuer, oauthService } from '../lib/services/oauth.service';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    oAuthClient: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    oAuthAuthorizationCode: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    oAuthAccessToken: {
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    oAuthRefreshToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    oAuthConsent: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+
+// Every PrismaClient instance shares the mocked client above
+const mockPrisma = new PrismaClient() as any;
+
+const CODE_VERIFIER = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk';
+const CODE_CHALLENGE = crypto
+  .createHash('sha256')
+  .update(CODE_VERIFIER)
+  .digest('base64url');
+
+const publicClient = {
+  id: 'client-row-1',
+  clientId: 'opx_client_public',
+  clientSecretHash: null,
+  name: 'Mobile App',
+  description: null,
+  redirectUris: ['com.example.app:/callback'],
+  scopes: ['openid', 'profile', 'email', 'opportunities:read'],
+  isPublic: true,
+  isActive: true,
+  createdAt: new Date(),
+};
+
+function authCode(overrides: Record<string, unknown> = {}) {
+  return {
+    code: 'code-1',
+    clientId: publicClient.clientId,
+    userId: 'user-1',
+    redirectUri: 'com.example.app:/callback',
+    scopes: ['openid', 'profile', 'email'],
+    codeChallenge: CODE_CHALLENGE,
+    codeChallengeMethod: 'S256',
+    nonce: 'nonce-1',
+    used: false,
+    expiresAt: new Date(Date.now() + 60000),
+    ...overrides,
+  };
+}
+
+describe('OAuthService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.oAuthClient.findUnique.mockResolvedValue(publicClient);
+    mockPrisma.oAuthAccessToken.create.mockResolvedValue({ id: 'token-1' });
+    mockPrisma.user.findUnique.mockResolvedValue({
+      name: 'Asha Rao',
+      email: 'asha@example.com',
+      preferredLanguage: 'hi',
+      updatedAt: new Date('2026-01-01T00:00:00Z'),
+    });
+  });
+
+  describe('createClient', () => {
+    it('does not issue a secret to public clients', async () => {
+      mockPrisma.oAuthClient.create.mockResolvedValue(publicClient);
+
+      const client = await oauthService.createClient({
+        userId: 'user-1',
+        name: 'Mobile App',
+        redirectUris: publicClient.redirectUris,
+        scopes: publicClient.scopes,
+        isPublic: true,
+      });
+
+      expect(client.clientSecret).toBeNull();
+      expect(mockPrisma.oAuthClient.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          clientSecretHash: null,
+          isPublic: true,
+        }),
+      });
+    });
+  });
+
+  describe('authorization requests', () => {
+    const request = {
+      clientId: publicClient.clientId,
+      redirectUri: 'com.example.app:/callback',
+      scopes: ['openid', 'profile'],
+    };
+
+    it('requires PKCE from public clients', async () => {
+      await expect(
+        oauthService.getAuthorizationDetails('user-1', request)
+      ).rejects.toThrow('Public clients must use PKCE');
+    });
+
+    it('rejects the plain challenge method', async () => {
+      await expect(
+        oauthService.getAuthorizationDetails('user-1', {
+          ...request,
+          codeChallenge: CODE_VERIFIER,
+          codeChallengeMethod: 'plain',
+        })
+      ).rejects.toThrow('code_challenge_method must be S256');
+    });
+
+    it('reports whether consent already covers the scopes', async () => {
+      mockPrisma.oAuthConsent.findUnique.mockResolvedValue({
+        scopes: ['openid'],
+      });
+
+      const details = await oauthService.getAuthorizationDetails('user-1', {
+        ...request,
+        codeChallenge: CODE_CHALLENGE,
+        codeChallengeMethod: 'S256',
+      });
+
+      expect(details.consentGranted).toBe(false);
+      expect(details.scopes).toEqual([
+        { scope: 'openid', description: expect.any(String) },
+        { scope: 'profile', description: expect.any(String) },
+      ]);
+    });
+
+    it('merges newly granted scopes into the stored consent', async () => {
+      mockPrisma.oAuthConsent.findUnique.mockResolvedValue({
+        scopes: ['openid', 'email'],
+      });
+
+      await oauthService.approveAuthorization('user-1', {
+        ...request,
+        codeChallenge: CODE_CHALLENGE,
+        codeChallengeMethod: 'S256',
+        nonce: 'nonce-1',
+      });
+
+      expect(mockPrisma.oAuthAuthorizationCode.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          codeChallenge: CODE_CHALLENGE,
+          codeChallengeMethod: 'S256',
+          nonce: 'nonce-1',
+        }),
+      });
+      expect(mockPrisma.oAuthConsent.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: { scopes: ['openid', 'email', 'profile'] },
+        })
+      );
+    });
+  });
+
+  describe('exchangeAuthorizationCode', () => {
+    it('rejects a missing or wrong code verifier', async () => {
+      mockPrisma.oAuthAuthorizationCode.findUnique.mockResolvedValue(
+        authCode()
+      );
+
+      await expect(
+        oauthService.exchangeAuthorizationCode(
+          'code-1',
+          publicClient.clientId,
+          undefined,
+          'com.example.app:/callback'
+        )
+      ).rejects.toThrow('Invalid code_verifier');
+      await expect(
+        oauthService.exchangeAuthorizationCode(
+          'code-1',
+          publicClient.clientId,
+          undefined,
+          'com.example.app:/callback',
+          CODE_VERIFIER.replace('d', 'e')
+        )
+      ).rejects.toThrow('Invalid code_verifier');
+      expect(mockPrisma.oAuthAuthorizationCode.update).not.toHaveBeenCalled();
+    });
+
+    it('issues an ID token that verifies against the JWKS', async () => {
+      mockPrisma.oAuthAuthorizationCode.findUnique.mockResolvedValue(
+        authCode()
+      );
+
+      const tokens = await oauthService.exchangeAuthorizationCode(
+        'code-1',
+        publicClient.clientId,
+        undefined,
+        'com.example.app:/callback',
+        CODE_VERIFIER
+      );
+
+      expect(tokens.idToken).toBeDefined();
+      const decoded = jwt.decode(tokens.idToken!, { complete: true })!;
+      const jwk = oauthService
+        .getJwks()
+        .keys.find(key => key.kid === decoded.header.kid)!;
+      const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+
+      const claims = jwt.verify(tokens.idToken!, publicKey, {
+        algorithms: ['RS256'],
+        issuer: getOidcIssuer(),
+        audience: publicClient.clientId,
+      }) as jwt.JwtPayload;
+
+      expect(claims).toMatchObject({
+        sub: 'user-1',
+        nonce: 'nonce-1',
+        name: 'Asha Rao',
+        email: 'asha@example.com',
+      });
+      expect(claims.at_hash).toEqual(expect.any(String));
+    });
+
+    it('does not issue an ID token without the openid scope', async () => {
+      mockPrisma.oAuthAuthorizationCode.findUnique.mockResolvedValue(
+        authCode({ scopes: ['opportunities:read'] })
+      );
+
+      const tokens = await oauthService.exchangeAuthorizationCode(
+        'code-1',
+        publicClient.clientId,
+        undefined,
+        'com.example.app:/callback',
+        CODE_VERIFIER
+      );
+
+      expect(tokens.idToken).toBeUndefined();
+    });
+
+    it('requires a secret from confidential clients', async () => {
+      mockPrisma.oAuthClient.findUnique.mockResolvedValue({
+        ...publicClient,
+        isPublic: false,
+        clientSecretHash: crypto
+          .createHash('sha256')
+          .update('secret')
+          .digest('hex'),
+      });
+
+      await expect(
+        oauthService.exchangeAuthorizationCode(
+          'code-1',
+          publicClient.clientId,
+          undefined,
+          'com.example.app:/callback',
+          CODE_VERIFIER
+        )
+      ).rejects.toThrow('Invalid client credentials');
+    });
+  });
+
+  describe('refreshAccessToken', () => {
+    it('rejects a refresh token issued to another client', async () => {
+      mockPrisma.oAuthRefreshToken.findUnique.mockResolvedValue({
+        revoked: false,
+        expiresAt: new Date(Date.now() + 60000),
+        accessToken: {
+          id: 'token-0',
+          clientId: 'opx_client_other',
+          userId: 'user-1',
+          scopes: ['openid'],
+        },
+      });
+
+      await expect(
+        oauthService.refreshAccessToken('refresh-1', publicClient.clientId)
+      ).rejects.toThrow('Invalid refresh token');
+      expect(mockPrisma.oAuthAccessToken.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUserClaims', () => {
+    it('only returns claims for the granted scopes', async () => {
+      await expect(
+        oauthService.getUserClaims('user-1', ['openid'])
+      ).resolves.toEqual({ sub: 'user-1' });
+
+      await expect(
+        oauthService.getUserClaims('user-1', ['openid', 'profile'])
+      ).resolves.toEqual({
+        sub: 'user-1',
+        name: 'Asha Rao',
+        locale: 'hi',
+        updated_at: 1767225600,
+      });
+    });
+  });
+
+  describe('revokeConsent', () => {
+    it('revokes the tokens the client holds for the user', async () => {
+      mockPrisma.oAuthConsent.deleteMany.mockResolvedValue({ count: 1 });
+
+      await oauthService.revokeConsent('user-1', publicClient.clientId);
+
+      expect(mockPrisma.oAuthAccessToken.updateMany).toHaveBeenCalledWith({
+        where: { clientId: publicClient.clientId, userId: 'user-1' },
+        data: { revoked: true },
+      });
+      expect(mockPrisma.oAuthRefreshToken.updateMany).toHaveBeenCalledWith({
+        where: {
+          accessToken: { userId: 'user-1', clientId: publicClient.clientId },
+        },
+        data: { revoked: true },
+      });
+    });
+
+    it('fails when there is no consent to revoke', async () => {
+      mockPrisma.oAuthConsent.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        oauthService.revokeConsent('user-1', publicClient.clientId)
+      ).rejects.toThrow('Consent not found');
+    });
+  });
+});
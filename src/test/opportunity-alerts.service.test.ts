@@ -0,0 +1,159 @@
+/**
+ * Unit tests for the Prisma-backed opportunity alerts service
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { notificationService } from '../lib/services/notification.service';
+import {
+  OpportunityAlertsService,
+  opportunityAlertsService,
+} from '../lib/services/opportunity-alerts.service';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    opportunityAlert: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    opportunityMatch: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+jest.mock('../lib/services/notification.service', () => ({
+  notificationService: { sendNotification: jest.fn() },
+}));
+jest.mock('../lib/jobs/postgres-job-store', () => ({
+  PostgresJobStore: jest.fn(),
+}));
+
+// Every PrismaClient instance shares the mocked client above
+const mockPrisma = new PrismaClient() as any;
+
+describe('OpportunityAlertsService', () => {
+  const alertId = '6f1d2a8e-4b3c-4d5e-9f60-718293a4b5c6';
+  const userId = '0b9c8d7e-6f5a-4b3c-8d2e-1f0a9b8c7d6e';
+  const createdAt = new Date('2025-03-01T00:00:00Z');
+
+  const alertRecord = {
+    id: alertId,
+    userId,
+    name: 'AI hackathons',
+    description: null,
+    criteria: { keywords: ['AI'], opportunityTypes: ['hackathon'] },
+    channels: ['in_app'],
+    frequency: 'immediate',
+    isActive: true,
+    matchCount: 0,
+    lastTriggered: null,
+    createdAt,
+    updatedAt: createdAt,
+  };
+
+  const opportunity = {
+    id: 'opp-1',
+    title: 'AI Hackathon',
+    description: 'Build with machine learning',
+    type: 'hackathon' as const,
+    organizer: { name: 'TechCorp', type: 'corporate' as const },
+    deadline: new Date('2025-04-01T00:00:00Z'),
+    mode: 'online' as const,
+    skills: ['Python'],
+    url: 'https://example.com/ai',
+  };
+
+  let service: OpportunityAlertsService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new OpportunityAlertsService();
+  });
+
+  afterEach(() => {
+    service.stopAlertProcessor();
+  });
+
+  afterAll(() => {
+    // The module singleton starts its processor on import
+    opportunityAlertsService.stopAlertProcessor();
+  });
+
+  it('maps stored alerts onto the API shape', async () => {
+    mockPrisma.opportunityAlert.findFirst.mockResolvedValue(alertRecord);
+
+    const alert = await service.getAlert(alertId, userId);
+
+    expect(mockPrisma.opportunityAlert.findFirst).toHaveBeenCalledWith({
+      where: { id: alertId, userId },
+    });
+    expect(alert).toMatchObject({
+      id: alertId,
+      active: true,
+      description: undefined,
+      lastTriggered: undefined,
+    });
+  });
+
+  it('treats IDs that are not UUIDs as missing', async () => {
+    expect(await service.getAlert('non-existent', userId)).toBeNull();
+    expect(await service.deleteAlert('non-existent', userId)).toBe(false);
+    expect(mockPrisma.opportunityAlert.findFirst).not.toHaveBeenCalled();
+    expect(mockPrisma.opportunityAlert.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('records and notifies a match only once per opportunity', async () => {
+    mockPrisma.opportunityAlert.findMany.mockResolvedValue([alertRecord]);
+    mockPrisma.opportunityMatch.createMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    const first = await service.checkOpportunityAgainstAlerts(opportunity);
+    const second = await service.checkOpportunityAgainstAlerts(opportunity);
+
+    expect(first).toHaveLength(1);
+    expect(first[0].matchScore).toBe(100);
+    expect(second).toHaveLength(0);
+    expect(mockPrisma.opportunityAlert.update).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.opportunityAlert.update.mock.calls[0][0].data).toEqual(
+      expect.objectContaining({ matchCount: { increment: 1 } })
+    );
+    expect(notificationService.sendNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it('restores dates on stored opportunity snapshots', async () => {
+    mockPrisma.opportunityAlert.findFirst.mockResolvedValue(alertRecord);
+    mockPrisma.opportunityMatch.findMany.mockResolvedValue([
+      {
+        alertId,
+        opportunityId: opportunity.id,
+        matchScore: 80,
+        matchedCriteria: ['Type: hackathon'],
+        opportunity: JSON.parse(JSON.stringify(opportunity)),
+        createdAt,
+      },
+    ]);
+    mockPrisma.opportunityMatch.count.mockResolvedValue(1);
+
+    const result = await service.getAlertMatches(alertId, userId, {
+      minScore: 50,
+    });
+
+    expect(result.total).toBe(1);
+    expect(result.matches[0].opportunity.deadline).toEqual(
+      opportunity.deadline
+    );
+    expect(mockPrisma.opportunityMatch.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { alertId, matchScore: { gte: 50 } },
+        skip: 0,
+        take: 20,
+      })
+    );
+  });
+});
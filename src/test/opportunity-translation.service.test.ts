@@ -0,0 +1,394 @@
+/**
+ * Unit tests for the translation providers, the opportunity translation job
+ * and localized opportunity responses
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { eventBus } from '../lib/events/event-bus';
+import { i18nService } from '../lib/services/i18n.service';
+import { jobQueue } from '../lib/services/job-queue.service';
+import {
+  opportunityTranslationService,
+  TRANSLATED_LOCALES,
+  translationSourceHash,
+} from '../lib/services/opportunity-translation.service';
+import { DictionaryTranslationProvider } from '../lib/services/translation-provider';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    opportunity: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    opportunityTranslation: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+jest.mock('../lib/jobs/postgres-job-store', () => ({
+  PostgresJobStore: jest.fn(),
+}));
+
+// Every PrismaClient instance shares the mocked client above
+const mockPrisma = new PrismaClient() as any;
+
+const opportunity = {
+  id: '123e4567-e89b-12d3-a456-426614174000',
+  title: 'AI Hackathon 2024',
+  description: 'A free online hackathon for students',
+};
+
+describe('DictionaryTranslationProvider', () => {
+  const provider = new DictionaryTranslationProvider();
+
+  it('translates glossary terms and keeps the rest', async () => {
+    const [title, description] = await provider.translate(
+      [opportunity.title, opportunity.description],
+      'en',
+      'es'
+    );
+
+    expect(title).toBe('AI Hackatón 2024');
+    expect(description).toBe('A gratis en línea hackatón for estudiantes');
+  });
+
+  it('translates into Indian scripts', async () => {
+    const [title] = await provider.translate(['Summer Internship'], 'en', 'hi');
+
+    expect(title).toBe('Summer इंटर्नशिप');
+  });
+
+  it('is deterministic', async () => {
+    const first = await provider.translate([opportunity.title], 'en', 'de');
+    const second = await provider.translate([opportunity.title], 'en', 'de');
+
+    expect(first).toEqual(second);
+  });
+});
+
+describe('I18nService', () => {
+  it('translates with the configured provider', async () => {
+    const result = await i18nService.translateText({
+      text: 'Online Workshop',
+      sourceLanguage: 'en',
+      targetLanguage: 'fr',
+    });
+
+    expect(result.data?.translatedText).toBe('En ligne Atelier');
+  });
+});
+
+describe('OpportunityTranslationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('translateOpportunity', () => {
+    it('translates into every locale except English', async () => {
+      mockPrisma.opportunity.findUnique.mockResolvedValue({
+        ...opportunity,
+        translations: [],
+      });
+
+      const result = await opportunityTranslationService.translateOpportunity(
+        opportunity.id
+      );
+
+      expect(TRANSLATED_LOCALES).toEqual(['hi', 'es', 'fr', 'de', 'ta', 'te']);
+      expect(result.translated).toEqual(TRANSLATED_LOCALES);
+      expect(mockPrisma.opportunityTranslation.upsert).toHaveBeenCalledTimes(6);
+      expect(mockPrisma.opportunityTranslation.upsert).toHaveBeenCalledWith({
+        where: {
+          opportunityId_language: {
+            opportunityId: opportunity.id,
+            language: 'fr',
+          },
+        },
+        create: expect.objectContaining({
+          title: 'AI Hackathon 2024',
+          description: 'A gratuit en ligne hackathon for étudiants',
+          sourceHash: translationSourceHash(
+            opportunity.title,
+            opportunity.description
+          ),
+          provider: 'dictionary',
+        }),
+        update: expect.any(Object),
+      });
+    });
+
+    it('skips locales translated from the same source text', async () => {
+      const sourceHash = translationSourceHash(
+        opportunity.title,
+        opportunity.description
+      );
+      mockPrisma.opportunity.findUnique.mockResolvedValue({
+        ...opportunity,
+        translations: [
+          { language: 'hi', sourceHash, provider: 'dictionary' },
+          { language: 'es', sourceHash: 'stale', provider: 'dictionary' },
+          { language: 'fr', sourceHash, provider: 'google' },
+        ],
+      });
+
+      const result = await opportunityTranslationService.translateOpportunity(
+        opportunity.id
+      );
+
+      expect(result.skipped).toEqual(['hi']);
+      expect(result.translated).toEqual(['es', 'fr', 'de', 'ta', 'te']);
+    });
+
+    it('announces the new translations', async () => {
+      mockPrisma.opportunity.findUnique.mockResolvedValue({
+        ...opportunity,
+        translations: [],
+      });
+      const handler = jest.fn();
+      eventBus.on('opportunity.translated', handler);
+
+      await opportunityTranslationService.translateOpportunity(opportunity.id);
+      await eventBus.drain();
+
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { id: opportunity.id, languages: TRANSLATED_LOCALES },
+        })
+      );
+    });
+
+    it('does nothing for a deleted opportunity', async () => {
+      mockPrisma.opportunity.findUnique.mockResolvedValue(null);
+
+      const result = await opportunityTranslationService.translateOpportunity(
+        opportunity.id
+      );
+
+      expect(result).toEqual({ translated: [], skipped: [] });
+      expect(mockPrisma.opportunityTranslation.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('event handling', () => {
+    let enqueue: jest.SpyInstance;
+
+    beforeEach(() => {
+      enqueue = jest.spyOn(jobQueue, 'enqueue').mockResolvedValue(null);
+    });
+
+    afterEach(() => {
+      enqueue.mockRestore();
+    });
+
+    const eventData = {
+      id: opportunity.id,
+      title: opportunity.title,
+      type: 'hackathon',
+      organizerName: 'TechCorp',
+      applicationDeadline: '2024-02-01T23:59:59.000Z',
+      externalUrl: 'https://techcorp.example.com/hackathon',
+    };
+
+    it('queues translation on opportunity.created', async () => {
+      const event = eventBus.emit('opportunity.created', eventData);
+      await eventBus.drain();
+
+      expect(enqueue).toHaveBeenCalledWith(
+        'opportunity.translate',
+        { opportunityId: opportunity.id },
+        {
+          dedupeKey: `opportunity.translate:${event.id}`,
+          subject: opportunity.id,
+        }
+      );
+    });
+
+    it('queues translation when the description changes', async () => {
+      const event = eventBus.emit('opportunity.updated', {
+        ...eventData,
+        changedFields: ['description', 'stipend'],
+      });
+      await eventBus.drain();
+
+      expect(enqueue).toHaveBeenCalledWith(
+        'opportunity.translate',
+        { opportunityId: opportunity.id },
+        {
+          dedupeKey: `opportunity.translate:${event.id}`,
+          subject: opportunity.id,
+        }
+      );
+    });
+
+    it('does not translate updates that leave the text alone', async () => {
+      eventBus.emit('opportunity.updated', {
+        ...eventData,
+        changedFields: ['stipend'],
+      });
+      await eventBus.drain();
+
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+
+    it('queues opportunities with missing or stale translations', async () => {
+      const sourceHash = translationSourceHash(
+        opportunity.title,
+        opportunity.description
+      );
+      mockPrisma.opportunity.findMany.mockResolvedValue([
+        {
+          ...opportunity,
+          translations: TRANSLATED_LOCALES.map(() => ({
+            sourceHash,
+            provider: 'dictionary',
+          })),
+        },
+        { ...opportunity, id: 'opp-2', translations: [] },
+      ]);
+      enqueue.mockResolvedValue({ id: 'job-1' });
+
+      const queued =
+        await opportunityTranslationService.enqueueStaleTranslations();
+
+      expect(queued).toBe(1);
+      expect(enqueue).toHaveBeenCalledWith(
+        'opportunity.translate',
+        { opportunityId: 'opp-2' },
+        expect.objectContaining({ subject: 'opp-2' })
+      );
+    });
+  });
+
+  describe('localize', () => {
+    const sourceHash = translationSourceHash(
+      opportunity.title,
+      opportunity.description
+    );
+
+    it('swaps in an up-to-date translation', async () => {
+      mockPrisma.opportunityTranslation.findMany.mockResolvedValue([
+        {
+          opportunityId: opportunity.id,
+          title: 'AI हैकाथॉन 2024',
+          description: 'छात्रों के लिए हैकाथॉन',
+          sourceHash,
+        },
+      ]);
+
+      const [result] = await opportunityTranslationService.localize(
+        [opportunity],
+        'hi'
+      );
+
+      expect(result).toEqual({
+        ...opportunity,
+        title: 'AI हैकाथॉन 2024',
+        description: 'छात्रों के लिए हैकाथॉन',
+        language: 'hi',
+      });
+    });
+
+    it('keeps English when the source text has changed', async () => {
+      mockPrisma.opportunityTranslation.findMany.mockResolvedValue([
+        {
+          opportunityId: opportunity.id,
+          title: 'Old title',
+          description: 'Old description',
+          sourceHash: 'stale',
+        },
+      ]);
+
+      const [result] = await opportunityTranslationService.localize(
+        [opportunity],
+        'hi'
+      );
+
+      expect(result).toBe(opportunity);
+    });
+
+    it('does not look up English', async () => {
+      const result = await opportunityTranslationService.localize(
+        [opportunity],
+        'en'
+      );
+
+      expect(result).toEqual([opportunity]);
+      expect(mockPrisma.opportunityTranslation.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSearchTranslations', () => {
+    it('collects the up-to-date translations of each opportunity', async () => {
+      const sourceHash = translationSourceHash(
+        opportunity.title,
+        opportunity.description
+      );
+      mockPrisma.opportunityTranslation.findMany.mockResolvedValue([
+        {
+          opportunityId: opportunity.id,
+          language: 'hi',
+          title: 'AI हैकाथॉन 2024',
+          description: null,
+          sourceHash,
+        },
+        {
+          opportunityId: opportunity.id,
+          language: 'ta',
+          title: 'Old title',
+          description: 'Old description',
+          sourceHash: 'stale',
+        },
+      ]);
+
+      const result = await opportunityTranslationService.getSearchTranslations([
+        opportunity,
+      ]);
+
+      expect(result.get(opportunity.id)).toEqual({
+        hi: { title: 'AI हैकाथॉन 2024', description: undefined },
+      });
+    });
+
+    it('returns no translations when they cannot be loaded', async () => {
+      mockPrisma.opportunityTranslation.findMany.mockRejectedValue(
+        new Error('connection refused')
+      );
+      const consoleSpy = jest
+        .spyOn(console, 'error')
+        .mockImplementation(() => undefined);
+
+      const result = await opportunityTranslationService.getSearchTranslations([
+        opportunity,
+      ]);
+
+      expect(result.size).toBe(0);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('getPreferredLanguage', () => {
+    it('returns the user preference', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ preferredLanguage: 'ta' });
+
+      await expect(
+        opportunityTranslationService.getPreferredLanguage('user-1')
+      ).resolves.toBe('ta');
+    });
+
+    it('falls back to English for unknown or anonymous users', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ preferredLanguage: 'xx' });
+
+      await expect(
+        opportunityTranslationService.getPreferredLanguage('user-1')
+      ).resolves.toBe('en');
+      await expect(
+        opportunityTranslationService.getPreferredLanguage()
+      ).resolves.toBe('en');
+    });
+  });
+});
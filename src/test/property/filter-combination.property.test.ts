@@ -248,7 +248,11 @@ describe('Property Test: Filter Combination Correctness', () => {
             { minLength: 1, maxLength: 3 }
           ),
         }),
-        async (complexFilters: Required<Omit<SearchFilters, 'location'>>) => {
+        async (
+          complexFilters: Required<
+            Pick<SearchFilters, 'type' | 'organizerType' | 'mode' | 'skills'>
+          >
+        ) => {
           // Generate opportunities that match all filters
           const matchingOpps = await fc.sample(
             opportunityGenerator(complexFilters),
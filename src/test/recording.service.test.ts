@@ -0,0 +1,359 @@
+// Video Call Recording Service Tests
+import { Pool } from 'pg';
+import { Readable } from 'stream';
+import { jobQueue } from '../lib/services/job-queue.service';
+import type { RecordingStorage } from '../lib/services/recording-storage';
+import { RecordingService } from '../lib/services/recording.service';
+import { MockSpeechToTextProvider } from '../lib/services/speech-to-text-provider';
+
+// Mock pg Pool
+jest.mock('pg', () => {
+  const mPool = {
+    query: jest.fn(),
+  };
+  return { Pool: jest.fn(() => mPool) };
+});
+jest.mock('../lib/jobs/postgres-job-store', () => ({
+  PostgresJobStore: jest.fn(),
+}));
+
+const recordingRow = (overrides: Record<string, any> = {}) => ({
+  id: 'recording-123',
+  room_id: 'room-123',
+  format: 'webm',
+  status: 'recording',
+  started_by: 'user-123',
+  language: 'en',
+  started_at: new Date('2024-01-15T10:00:00Z'),
+  created_at: new Date('2024-01-15T10:00:00Z'),
+  updated_at: new Date('2024-01-15T10:00:00Z'),
+  ...overrides,
+});
+
+describe('RecordingService', () => {
+  let service: RecordingService;
+  let mockPool: jest.Mocked<Pool>;
+  let storage: jest.Mocked<RecordingStorage>;
+  let enqueue: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockPool = new Pool() as jest.Mocked<Pool>;
+    storage = {
+      name: 'memory',
+      saveChunk: jest.fn().mockResolvedValue(undefined),
+      assemble: jest.fn().mockResolvedValue(2048),
+      deleteChunks: jest.fn().mockResolvedValue(undefined),
+      read: jest.fn().mockResolvedValue(Buffer.from('audio')),
+      createReadStream: jest.fn(() => Readable.from([])),
+      delete: jest.fn().mockResolvedValue(undefined),
+    };
+    enqueue = jest.spyOn(jobQueue, 'enqueue').mockResolvedValue({} as any);
+    service = new RecordingService(
+      mockPool,
+      storage,
+      new MockSpeechToTextProvider(0)
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    enqueue.mockRestore();
+  });
+
+  describe('startRecording', () => {
+    it('should start recording for the host', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{}] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [recordingRow()] } as any);
+
+      const recording = await service.startRecording('room-123', 'user-123', {
+        format: 'webm',
+      });
+
+      expect(recording.status).toBe('recording');
+      expect(recording.startedBy).toBe('user-123');
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO video_call_recordings'),
+        ['room-123', 'webm', 'user-123', 'en']
+      );
+    });
+
+    it('should refuse participants who are not hosts', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(
+        service.startRecording('room-123', 'user-456')
+      ).rejects.toThrow('Only the host or a co-host can record the call');
+    });
+
+    it('should refuse a second recording of the same call', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{}] } as any)
+        .mockResolvedValueOnce({ rows: [{ id: 'recording-123' }] } as any);
+
+      await expect(
+        service.startRecording('room-123', 'user-123')
+      ).rejects.toThrow('The call is already being recorded');
+    });
+  });
+
+  describe('uploadChunk', () => {
+    it('should store the chunk', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [recordingRow()] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      await service.uploadChunk(
+        'recording-123',
+        'user-123',
+        0,
+        Buffer.from('chunk')
+      );
+
+      expect(storage.saveChunk).toHaveBeenCalledWith(
+        'recording-123',
+        0,
+        Buffer.from('chunk')
+      );
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO video_call_recording_chunks'),
+        ['recording-123', 0, 5]
+      );
+    });
+
+    it('should only accept chunks from whoever started recording', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [recordingRow()] } as any);
+
+      await expect(
+        service.uploadChunk('recording-123', 'user-456', 0, Buffer.from('x'))
+      ).rejects.toThrow('Recording not found');
+      expect(storage.saveChunk).not.toHaveBeenCalled();
+    });
+
+    it('should refuse chunks once recording has stopped', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [recordingRow({ status: 'processing' })],
+      } as any);
+
+      await expect(
+        service.uploadChunk('recording-123', 'user-123', 3, Buffer.from('x'))
+      ).rejects.toThrow('Recording has already stopped');
+    });
+
+    it('should refuse invalid chunk numbers', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [recordingRow()] } as any);
+
+      await expect(
+        service.uploadChunk('recording-123', 'user-123', -1, Buffer.from('x'))
+      ).rejects.toThrow('Invalid chunk number');
+    });
+  });
+
+  describe('stopRecording', () => {
+    it('should queue the recording for assembly', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [recordingRow()] } as any)
+        .mockResolvedValueOnce({
+          rows: [recordingRow({ status: 'processing' })],
+        } as any);
+
+      const recording = await service.stopRecording(
+        'recording-123',
+        'user-123'
+      );
+
+      expect(recording.status).toBe('processing');
+      expect(enqueue).toHaveBeenCalledWith(
+        'video.recording.assemble',
+        { recordingId: 'recording-123' },
+        expect.objectContaining({ subject: 'recording-123' })
+      );
+    });
+  });
+
+  describe('assembleRecording', () => {
+    it('should join the chunks and queue the transcript', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [recordingRow({ status: 'processing' })],
+        } as any)
+        .mockResolvedValueOnce({
+          rows: [{ sequence: 0 }, { sequence: 1 }],
+        } as any)
+        .mockResolvedValueOnce({
+          rows: [
+            recordingRow({
+              status: 'ready',
+              storage_key: 'room-123/recording-123.webm',
+              file_size_bytes: 2048,
+            }),
+          ],
+        } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      const recording = await service.assembleRecording('recording-123');
+
+      expect(storage.assemble).toHaveBeenCalledWith(
+        'recording-123',
+        [0, 1],
+        'room-123/recording-123.webm'
+      );
+      expect(storage.deleteChunks).toHaveBeenCalledWith('recording-123');
+      expect(recording!.status).toBe('ready');
+      expect(enqueue).toHaveBeenCalledWith(
+        'video.recording.transcribe',
+        { recordingId: 'recording-123' },
+        expect.any(Object)
+      );
+    });
+
+    it('should fail the recording when a chunk is missing', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [recordingRow({ status: 'processing' })],
+        } as any)
+        .mockResolvedValueOnce({
+          rows: [{ sequence: 0 }, { sequence: 2 }],
+        } as any)
+        .mockResolvedValueOnce({
+          rows: [
+            recordingRow({
+              status: 'failed',
+              error_message: 'Chunk 1 is missing',
+            }),
+          ],
+        } as any);
+
+      const recording = await service.assembleRecording('recording-123');
+
+      expect(recording!.status).toBe('failed');
+      expect(recording!.errorMessage).toBe('Chunk 1 is missing');
+      expect(storage.assemble).not.toHaveBeenCalled();
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transcribeRecording', () => {
+    it('should save timed segments and link the mentorship session', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [
+            recordingRow({
+              status: 'ready',
+              storage_key: 'room-123/recording-123.webm',
+            }),
+          ],
+        } as any)
+        .mockResolvedValueOnce({ rows: [{ id: 'transcript-123' }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({
+          rows: [{ mentorship_session_id: 'session-123' }],
+        } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'transcript-123',
+              recording_id: 'recording-123',
+              status: 'ready',
+              language: 'en',
+              provider: 'mock',
+              full_text: 'Find AI hackathons in Mumbai',
+            },
+          ],
+        } as any)
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              start_ms: 0,
+              end_ms: 3000,
+              text: 'Find AI hackathons in Mumbai',
+              confidence: 0.9,
+            },
+          ],
+        } as any);
+
+      const transcript = await service.transcribeRecording('recording-123');
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO video_call_transcript_segments'),
+        ['transcript-123', 0, 3000, 'Find AI hackathons in Mumbai', 0.9]
+      );
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE mentorship_sessions'),
+        [
+          'session-123',
+          expect.stringMatching(
+            /^Call transcript \(2024-01-15\): .*\/recordings\/recording-123\/transcript$/
+          ),
+          expect.stringContaining('/recordings/recording-123/transcript'),
+        ]
+      );
+      expect(transcript!.status).toBe('ready');
+      expect(transcript!.segments).toHaveLength(1);
+    });
+
+    it('should skip recordings that are not ready', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [recordingRow({ status: 'failed' })],
+      } as any);
+
+      expect(await service.transcribeRecording('recording-123')).toBeNull();
+      expect(storage.read).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('searchTranscripts', () => {
+    it('should search the calls the user was in', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          {
+            recording_id: 'recording-123',
+            room_id: 'room-123',
+            room_name: 'Mentorship',
+            started_at: new Date('2024-01-15T10:00:00Z'),
+            start_ms: 0,
+            end_ms: 3000,
+            text: 'Find AI hackathons in Mumbai',
+          },
+        ],
+      } as any);
+
+      const results = await service.searchTranscripts(
+        'user-123',
+        'hackathons',
+        { mentorshipSessionId: 'session-123' },
+        500
+      );
+
+      expect(results[0].startMs).toBe(0);
+      expect(results[0].roomName).toBe('Mentorship');
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('websearch_to_tsquery'),
+        ['user-123', 'hackathons', null, 'session-123', 50]
+      );
+    });
+
+    it('should return nothing for an empty query', async () => {
+      expect(await service.searchTranscripts('user-123', '  ')).toEqual([]);
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTranscript', () => {
+    it('should hide transcripts from people who were not in the call', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [recordingRow({ status: 'ready' })],
+        } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      expect(
+        await service.getTranscript('recording-123', 'user-456')
+      ).toBeNull();
+    });
+  });
+});
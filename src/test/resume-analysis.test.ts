@@ -0,0 +1,77 @@
+/**
+ * Unit tests for resume segmentation, skill extraction and formatting checks
+ */
+
+import { scoreFormatting, segmentResume } from '../lib/resume-analysis';
+import { findSkills, standardizeSkills } from '../lib/skills-taxonomy';
+
+describe('resume analysis', () => {
+  describe('segmentResume', () => {
+    it('splits resume text into sections by heading', () => {
+      const sections = segmentResume(`Priya Sharma
+        priya@example.com
+
+        PROFESSIONAL SUMMARY
+        Final-year student building web apps.
+
+        Work Experience:
+        - Built an internal tool
+
+        Technical Skills: React, Node.js`);
+
+      expect(sections.map(section => section.name)).toEqual([
+        'contact',
+        'summary',
+        'experience',
+        'skills',
+      ]);
+      expect(sections[3].lines).toEqual(['React, Node.js']);
+    });
+  });
+
+  describe('scoreFormatting', () => {
+    it('flags mixed bullets, missing action verbs and pronouns', () => {
+      const text = `Experience
+        - I worked on the backend
+        • My team shipped features`;
+
+      const { score, issues } = scoreFormatting(text, segmentResume(text));
+
+      expect(issues).toEqual(
+        expect.arrayContaining([
+          'Inconsistent bullet point formatting',
+          'Start bullet points with action verbs',
+          'Avoid first-person pronouns in descriptions',
+        ])
+      );
+      expect(score).toBeLessThan(50);
+    });
+  });
+
+  describe('skills taxonomy', () => {
+    it('finds skills by alias without matching inside other words', () => {
+      expect(
+        findSkills('Worked with ReactJS, Node.js and k8s; learning JavaScript')
+      ).toEqual(
+        expect.arrayContaining(['React', 'Node.js', 'Kubernetes', 'JavaScript'])
+      );
+      expect(findSkills('JavaScript only')).not.toContain('Java');
+      expect(findSkills('Used C++ and C#')).toEqual(
+        expect.arrayContaining(['C++', 'C#'])
+      );
+    });
+
+    it('matches extra skills outside the taxonomy', () => {
+      expect(findSkills('Designed screens in Framer', ['framer'])).toEqual([
+        'Framer',
+      ]);
+    });
+
+    it('standardizes and dedupes skill lists', () => {
+      expect(standardizeSkills(['js', 'JavaScript', ' nodejs ', ''])).toEqual([
+        'JavaScript',
+        'Node.js',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Unit tests for saved searches and their conversion into alerts
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  searchToAlertCriteria,
+  unmappedSearchFilters,
+} from '../lib/search-alert-mapping';
+import { opportunityAlertsService } from '../lib/services/opportunity-alerts.service';
+import { savedSearchService } from '../lib/services/saved-search.service';
+import { searchService } from '../lib/services/search.service';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    savedSearch: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+jest.mock('../lib/services/search.service', () => ({
+  searchService: { searchOpportunities: jest.fn() },
+}));
+jest.mock('../lib/services/opportunity-alerts.service', () => ({
+  opportunityAlertsService: { createAlert: jest.fn(), updateAlert: jest.fn() },
+}));
+
+// Every PrismaClient instance shares the mocked client above
+const mockPrisma = new PrismaClient() as any;
+const mockSearch = searchService.searchOpportunities as jest.Mock;
+const mockCreateAlert = opportunityAlertsService.createAlert as jest.Mock;
+const mockUpdateAlert = opportunityAlertsService.updateAlert as jest.Mock;
+
+describe('SavedSearchService', () => {
+  const userId = '0b9c8d7e-6f5a-4b3c-8d2e-1f0a9b8c7d6e';
+  const savedSearchId = '4c5d6e7f-8a9b-4c0d-9e1f-2a3b4c5d6e7f';
+  const alertId = '9e8d7c6b-5a4f-4e3d-8c2b-1a0f9e8d7c6b';
+  const lastViewedAt = new Date('2025-03-10T00:00:00Z');
+
+  const record = (overrides: Record<string, unknown> = {}) => ({
+    id: savedSearchId,
+    userId,
+    name: 'Remote ML internships',
+    query: 'machine learning',
+    filters: {
+      type: 'internship',
+      mode: 'online',
+      stipendMin: 10000,
+      deadlineBefore: '2025-04-30T00:00:00.000Z',
+    },
+    sort: 'deadline',
+    alertId: null,
+    lastViewedAt,
+    createdAt: new Date('2025-03-01T00:00:00Z'),
+    updatedAt: new Date('2025-03-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSearch.mockResolvedValue({
+      success: true,
+      data: { opportunities: [], totalCount: 3 },
+    });
+  });
+
+  describe('listSavedSearches', () => {
+    it('counts matches posted since each search was last viewed', async () => {
+      mockPrisma.savedSearch.findMany.mockResolvedValue([record()]);
+
+      const result = await savedSearchService.listSavedSearches(userId);
+
+      expect(result.success).toBe(true);
+      expect(result.data![0].newCount).toBe(3);
+      expect(result.data![0].request.filters?.deadlineBefore).toEqual(
+        new Date('2025-04-30T00:00:00Z')
+      );
+      expect(mockSearch).toHaveBeenCalledWith({
+        query: 'machine learning',
+        sort: 'deadline',
+        filters: expect.objectContaining({
+          type: 'internship',
+          postedAfter: lastViewedAt,
+        }),
+        pagination: { page: 1, limit: 1 },
+        userId,
+      });
+    });
+  });
+
+  describe('createSavedSearch', () => {
+    it('rejects a duplicate name', async () => {
+      mockPrisma.savedSearch.findUnique.mockResolvedValue({
+        id: savedSearchId,
+      });
+
+      const result = await savedSearchService.createSavedSearch(userId, {
+        name: 'Remote ML internships',
+        query: 'ml',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('A saved search with this name already exists');
+      expect(mockPrisma.savedSearch.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runSavedSearch', () => {
+    it('runs the stored request and marks it as viewed', async () => {
+      mockPrisma.savedSearch.findFirst.mockResolvedValue(record());
+
+      const result = await savedSearchService.runSavedSearch(
+        userId,
+        savedSearchId,
+        { page: 2, limit: 10 }
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockSearch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          query: 'machine learning',
+          pagination: { page: 2, limit: 10 },
+        })
+      );
+      expect(
+        mockPrisma.savedSearch.update.mock.calls[0][0].data.lastViewedAt
+      ).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('convertToAlert', () => {
+    it('creates an alert from the mapped criteria and links it', async () => {
+      mockPrisma.savedSearch.findFirst.mockResolvedValue(
+        record({ filters: { mode: 'online', durationMaxDays: 90 } })
+      );
+      mockCreateAlert.mockResolvedValue({ id: alertId });
+
+      const result = await savedSearchService.convertToAlert(
+        userId,
+        savedSearchId,
+        { channels: ['email', 'push'], frequency: 'weekly' }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('duration');
+      expect(mockCreateAlert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId,
+          name: 'Remote ML internships',
+          channels: ['email', 'push'],
+          frequency: 'weekly',
+          criteria: expect.objectContaining({
+            keywords: ['machine', 'learning'],
+            modes: ['online'],
+          }),
+        })
+      );
+      expect(mockPrisma.savedSearch.update).toHaveBeenCalledWith({
+        where: { id: savedSearchId },
+        data: { alertId },
+      });
+    });
+
+    it('refuses a second alert for the same search', async () => {
+      mockPrisma.savedSearch.findFirst.mockResolvedValue(record({ alertId }));
+
+      const result = await savedSearchService.convertToAlert(
+        userId,
+        savedSearchId,
+        { channels: ['email'] }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Saved search already has an alert');
+      expect(mockCreateAlert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateSavedSearch', () => {
+    it('re-derives the linked alert when the request changes', async () => {
+      mockPrisma.savedSearch.findFirst.mockResolvedValue(record({ alertId }));
+      mockPrisma.savedSearch.update.mockResolvedValue(
+        record({ alertId, query: 'data science', filters: {} })
+      );
+
+      const result = await savedSearchService.updateSavedSearch(
+        userId,
+        savedSearchId,
+        { query: 'data science', filters: {} }
+      );
+
+      expect(result.success).toBe(true);
+      const { criteria } = mockUpdateAlert.mock.calls[0][2];
+      expect(criteria.keywords).toEqual(['data', 'science']);
+      // Cleared filters are sent as undefined so the old criteria are dropped
+      expect(criteria).toHaveProperty('modes', undefined);
+      expect(criteria).toHaveProperty('minStipend', undefined);
+    });
+  });
+});
+
+describe('search to alert mapping', () => {
+  const now = new Date('2025-03-01T00:00:00Z');
+
+  it('maps search filters onto alert criteria', () => {
+    const criteria = searchToAlertCriteria(
+      {
+        query: 'react, node react',
+        filters: {
+          skills: ['React'],
+          type: 'hackathon',
+          organizerType: 'startup',
+          location: 'Pune',
+          nearCity: 'Mumbai',
+          stipendMin: 5000,
+          deadlineAfter: new Date('2025-03-05T00:00:00Z'),
+          deadlineBefore: new Date('2025-03-31T00:00:00Z'),
+        },
+      },
+      now
+    );
+
+    expect(criteria).toEqual({
+      keywords: ['react', 'node'],
+      skills: ['React'],
+      opportunityTypes: ['hackathon'],
+      organizerTypes: ['startup'],
+      locations: ['Pune', 'Mumbai'],
+      minStipend: 5000,
+      deadlineRange: { min: 4, max: 30 },
+    });
+  });
+
+  it('reports filters alerts cannot apply', () => {
+    expect(
+      unmappedSearchFilters({
+        startsAfter: now,
+        prizePoolMin: 1000,
+        prizePoolMax: 5000,
+        mode: 'online',
+      })
+    ).toEqual(['start date', 'prize pool']);
+    expect(unmappedSearchFilters()).toEqual([]);
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * Unit tests for the source scrapers
+ * Runs each scraper against saved HTML fixtures so no network is needed
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DevfolioScraper } from '../lib/scrapers/devfolio-scraper';
+import { EventbriteScraper } from '../lib/scrapers/eventbrite-scraper';
+import { GenericScraper } from '../lib/scrapers/generic-scraper';
+import { HackerEarthScraper } from '../lib/scrapers/hackerearth-scraper';
+import { IntershalaScraper } from '../lib/scrapers/internshala-scraper';
+import {
+  parseAmount,
+  parseDate,
+  parseDateRange,
+} from '../lib/scrapers/parsing-utils';
+import { parseScraperSpec } from '../lib/scrapers/scraper-spec';
+import type { ScrapingConfig } from '../lib/services/scraping.service';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'scrapers');
+
+const config: ScrapingConfig = {
+  userAgents: ['OpportuneX-Test'],
+  proxies: [],
+  requestDelay: 0,
+  maxRetries: 0,
+  respectRobotsTxt: true,
+  enableJavaScript: false,
+  maxPages: 5,
+  fetchDetails: true,
+};
+
+function serveFixtures(routes: Record<string, string>): jest.Mock {
+  const fetchMock = jest.fn(async (url: string) => {
+    const fixture = routes[url];
+    if (!fixture) {
+      return { ok: false, status: 404, text: async () => '' };
+    }
+    return {
+      ok: true,
+      status: 200,
+      text: async () =>
+        fs.readFileSync(path.join(FIXTURES_DIR, fixture), 'utf8'),
+    };
+  });
+
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+describe('Scrapers', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('parsing utilities', () => {
+    const reference = new Date('2026-10-01T00:00:00Z');
+
+    it('should parse the regional date formats used by sources', () => {
+      expect(parseDate("20 Jan' 27", reference)?.toISOString()).toBe(
+        '2027-01-20T23:59:59.000Z'
+      );
+      expect(parseDate('Feb 28, 2027, 11:59 PM', reference)?.getUTCDate()).toBe(
+        28
+      );
+      expect(parseDate('Immediately', reference)).toBeUndefined();
+    });
+
+    it('should roll dates without a year forward', () => {
+      expect(parseDate('5 Jan', reference)?.getUTCFullYear()).toBe(2027);
+      expect(parseDate('5 Dec', reference)?.getUTCFullYear()).toBe(2026);
+    });
+
+    it('should parse compact date ranges', () => {
+      const range = parseDateRange('Mar 12 - 14, 2027', reference);
+
+      expect(range.start?.getUTCDate()).toBe(12);
+      expect(range.end?.getUTCDate()).toBe(14);
+      expect(range.end?.getUTCMonth()).toBe(2);
+    });
+
+    it('should parse Indian currency shorthands', () => {
+      expect(parseAmount('₹5,00,000')).toBe(500000);
+      expect(parseAmount('₹ 8,000-12,000 /month')).toBe(12000);
+      expect(parseAmount('Prize pool of 2.5 Lakh')).toBe(250000);
+      expect(parseAmount('Unpaid')).toBeNull();
+    });
+  });
+
+  describe('DevfolioScraper', () => {
+    it('should follow pagination and enrich from detail pages', async () => {
+      const fetchMock = serveFixtures({
+        'https://devfolio.co/hackathons': 'devfolio-listing.html',
+        'https://devfolio.co/hackathons?page=2': 'devfolio-listing-page-2.html',
+        'https://hackindia-2027.devfolio.co/': 'devfolio-detail.html',
+      });
+
+      const results = await new DevfolioScraper(config).scrape(
+        'https://devfolio.co/hackathons'
+      );
+
+      // Listings whose detail page failed have no deadline and are dropped
+      expect(results).toHaveLength(1);
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://devfolio.co/hackathons?page=2',
+        expect.anything()
+      );
+
+      const [hackathon] = results;
+      expect(hackathon.title).toBe('HackIndia 2027');
+      expect(hackathon.type).toBe('hackathon');
+      expect(hackathon.mode).toBe('offline');
+      expect(hackathon.location).toBe('NIMHANS Convention Centre, Bengaluru');
+      expect(hackathon.organizerName).toBe('Polygon Technologies');
+      expect(hackathon.organizerType).toBe('corporate');
+      expect(hackathon.organizerLogo).toBe(
+        'https://hackindia-2027.devfolio.co/logos/polygon.png'
+      );
+      expect(hackathon.applicationDeadline.toISOString()).toBe(
+        '2027-02-28T23:59:59.000Z'
+      );
+      expect(hackathon.startDate?.getUTCDate()).toBe(12);
+      expect(hackathon.endDate?.getUTCDate()).toBe(14);
+      expect(hackathon.prizes).toEqual([
+        'Winner: ₹5,00,000',
+        'First Runner Up: ₹2,50,000',
+      ]);
+      expect(hackathon.requiredSkills).toEqual(['Blockchain', 'AI/ML']);
+      expect(hackathon.eligibilityCriteria).toContain(
+        'Teams of 2 to 4 members'
+      );
+      expect(hackathon.description).toContain('36 hours');
+    });
+  });
+
+  describe('IntershalaScraper', () => {
+    it('should parse internship cards and detail pages', async () => {
+      serveFixtures({
+        'https://internshala.com/internships/': 'internshala-listing.html',
+        'https://internshala.com/internships/page-2/':
+          'internshala-listing-page-2.html',
+        'https://internshala.com/internship/detail/frontend-development-internship-in-bangalore-at-acme-labs1700001':
+          'internshala-detail.html',
+      });
+
+      const results = await new IntershalaScraper(config).scrape(
+        'https://internshala.com/internships/'
+      );
+
+      expect(results).toHaveLength(2);
+
+      const [frontend, dataScience] = results;
+      expect(frontend.type).toBe('internship');
+      expect(frontend.organizerName).toBe('Acme Labs');
+      expect(frontend.mode).toBe('offline');
+      expect(frontend.location).toBe('Bangalore');
+      expect(frontend.duration).toBe('3 Months');
+      expect(frontend.stipend).toBe('₹ 15,000 /month');
+      expect(frontend.startDate).toBeUndefined();
+      expect(frontend.applicationDeadline.toISOString()).toBe(
+        '2027-01-22T23:59:59.000Z'
+      );
+      expect(frontend.requiredSkills).toEqual(['React', 'TypeScript', 'CSS']);
+      expect(frontend.eligibilityCriteria).toEqual([
+        'are available for full time (in-office) internship',
+        'have relevant skills and interests',
+      ]);
+      expect(frontend.description).toContain('reusable React components');
+
+      expect(dataScience.mode).toBe('online');
+      expect(dataScience.location).toBeUndefined();
+      expect(dataScience.organizerType).toBe('corporate');
+      expect(dataScience.startDate?.toISOString()).toBe(
+        '2027-02-01T23:59:59.000Z'
+      );
+    });
+
+    it('should skip detail requests when disabled', async () => {
+      const fetchMock = serveFixtures({
+        'https://internshala.com/internships/': 'internshala-listing.html',
+      });
+
+      const results = await new IntershalaScraper({
+        ...config,
+        fetchDetails: false,
+        maxPages: 1,
+      }).scrape('https://internshala.com/internships/');
+
+      expect(results).toHaveLength(2);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(results[0].applicationDeadline.toISOString()).toBe(
+        '2027-01-20T23:59:59.000Z'
+      );
+    });
+  });
+
+  describe('HackerEarthScraper', () => {
+    it('should use the registration deadline from the detail page', async () => {
+      serveFixtures({
+        'https://www.hackerearth.com/challenges/hackathon/':
+          'hackerearth-listing.html',
+        'https://www.hackerearth.com/challenges/hackathon/green-code-2027/':
+          'hackerearth-detail.html',
+      });
+
+      const results = await new HackerEarthScraper(config).scrape(
+        'https://www.hackerearth.com/challenges/hackathon/'
+      );
+
+      expect(results).toHaveLength(2);
+
+      const [greenCode, fintech] = results;
+      expect(greenCode.applicationDeadline.toISOString()).toBe(
+        '2027-03-20T23:59:59.000Z'
+      );
+      expect(greenCode.startDate?.toISOString()).toBe(
+        '2027-02-10T23:59:59.000Z'
+      );
+      expect(greenCode.requiredSkills).toEqual(['Climate Tech', 'IoT']);
+      expect(greenCode.prizes).toEqual([
+        '1st Prize: INR 2,00,000',
+        '2nd Prize: INR 1,00,000',
+      ]);
+      expect(greenCode.organizerType).toBe('corporate');
+
+      // Listing-only data falls back to the "Ends on" date
+      expect(fintech.externalUrl).toBe(
+        'https://www.hackerearth.com/challenges/hackathon/fintech-sprint/'
+      );
+      expect(fintech.applicationDeadline.toISOString()).toBe(
+        '2027-04-15T23:59:59.000Z'
+      );
+    });
+  });
+
+  describe('EventbriteScraper', () => {
+    it('should read events from JSON-LD on listing and detail pages', async () => {
+      serveFixtures({
+        'https://www.eventbrite.com/d/india--bengaluru/tech-workshops/':
+          'eventbrite-listing.html',
+        'https://www.eventbrite.com/e/hands-on-kubernetes-workshop-tickets-100001':
+          'eventbrite-detail.html',
+      });
+
+      const results = await new EventbriteScraper(config).scrape(
+        'https://www.eventbrite.com/d/india--bengaluru/tech-workshops/'
+      );
+
+      expect(results).toHaveLength(2);
+
+      const [kubernetes, rust] = results;
+      expect(kubernetes.type).toBe('workshop');
+      expect(kubernetes.organizerName).toBe('Cloud Native Bengaluru');
+      expect(kubernetes.mode).toBe('offline');
+      expect(kubernetes.location).toBe('Bengaluru');
+      expect(kubernetes.description).toBe(
+        'Deploy your first cluster and learn Helm basics.'
+      );
+      expect(kubernetes.applicationDeadline.toISOString()).toBe(
+        '2027-02-05T18:29:00.000Z'
+      );
+      expect(kubernetes.externalUrl).toBe(
+        'https://www.eventbrite.com/e/hands-on-kubernetes-workshop-tickets-100001'
+      );
+      expect(kubernetes.tags).toEqual(['kubernetes', 'devops']);
+
+      expect(rust.mode).toBe('online');
+      expect(rust.applicationDeadline).toEqual(rust.startDate);
+    });
+  });
+
+  describe('GenericScraper', () => {
+    it('should map schema.org JobPosting data', async () => {
+      serveFixtures({
+        'https://startupmission.example.gov.in/careers':
+          'generic-jobposting.html',
+      });
+
+      const results = await new GenericScraper(config).scrape(
+        'https://startupmission.example.gov.in/careers'
+      );
+
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({
+        title: 'Policy Research Intern',
+        type: 'internship',
+        organizerType: 'government',
+        mode: 'offline',
+        location: 'Thiruvananthapuram',
+        stipend: '₹10000/month',
+        requiredSkills: ['Research', 'Policy Writing'],
+        externalUrl:
+          'https://startupmission.example.gov.in/careers/policy-research-intern',
+      });
+    });
+
+    it('should propagate a failure to fetch the first page', async () => {
+      serveFixtures({});
+
+      await expect(
+        new GenericScraper(config).scrape('https://example.com/events')
+      ).rejects.toThrow('failed with 404');
+    });
+  });
+  describe('declarative scraper specs', () => {
+    it('should reject specs without a title mapping or with unknown fields', () => {
+      const missingTitle = parseScraperSpec({
+        listing: { items: '.event', fields: { description: 'p' } },
+      });
+      const unknownField = parseScraperSpec({
+        listing: { items: '.event', fields: { title: 'h3', venue: '.venue' } },
+      });
+
+      expect(missingTitle.success).toBe(false);
+      expect(unknownField.success).toBe(false);
+      if (!missingTitle.success) {
+        expect(missingTitle.error).toContain('listing.fields.title');
+      }
+    });
+
+    it('should execute an HTML spec with page-parameter pagination', async () => {
+      const fetchMock = serveFixtures({
+        'https://techfest.example.ac.in/events': 'spec-college-fest.html',
+        'https://techfest.example.ac.in/events?p=2':
+          'spec-college-fest-page-2.html',
+      });
+      const parsed = parseScraperSpec({
+        listing: {
+          items: 'li.event',
+          fields: {
+            title: '.event-title',
+            externalUrl: '.event-title@href',
+            description: '.event-summary',
+            type: '.event-category',
+            applicationDeadline: '.event-deadline',
+            prizes: { selector: '.event-prize', pattern: 'Prize pool: (.+)' },
+            tags: '.event-tags',
+          },
+        },
+        pagination: { pageParam: 'p' },
+        defaults: {
+          organizerName: 'IIT Bombay Techfest',
+          mode: 'offline',
+          location: 'Mumbai',
+        },
+      });
+
+      expect(parsed.success).toBe(true);
+      if (!parsed.success) return;
+
+      const results = await new GenericScraper(config, parsed.spec).scrape(
+        'https://techfest.example.ac.in/events'
+      );
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(results).toHaveLength(2);
+      expect(results[0]).toMatchObject({
+        title: 'RoboWars Championship',
+        type: 'hackathon',
+        externalUrl: 'https://techfest.example.ac.in/events/robowars',
+        organizerName: 'IIT Bombay Techfest',
+        organizerType: 'academic',
+        mode: 'offline',
+        location: 'Mumbai',
+        prizes: ['₹3,00,000'],
+        tags: ['Robotics', 'Embedded'],
+      });
+      expect(results[0].applicationDeadline.toISOString()).toBe(
+        '2026-12-15T23:59:59.000Z'
+      );
+      expect(results[1].type).toBe('workshop');
+      expect(results[1].prizes).toEqual([]);
+    });
+
+    it('should execute a JSON spec with detail enrichment', async () => {
+      serveFixtures({
+        'https://portal.example.gov.in/api/schemes': 'spec-portal.json',
+        'https://portal.example.gov.in/schemes/101': 'spec-portal-detail.json',
+      });
+      const parsed = parseScraperSpec({
+        format: 'json',
+        listing: {
+          items: '$.data.schemes[*]',
+          fields: {
+            title: '$.name',
+            description: '$.summary',
+            organizerName: '$.ministry.name',
+            applicationDeadline: '$.lastDate',
+            requiredSkills: '$.themes',
+            externalUrl: '$.link',
+            type: '$.name',
+          },
+        },
+        pagination: { nextPath: '$.next' },
+        detail: {
+          fields: {
+            location: '$.venue',
+            eligibilityCriteria: '$.eligibility',
+          },
+        },
+        defaults: { mode: 'offline' },
+      });
+
+      expect(parsed.success).toBe(true);
+      if (!parsed.success) return;
+
+      const results = await new GenericScraper(config, parsed.spec).scrape(
+        'https://portal.example.gov.in/api/schemes'
+      );
+
+      expect(results).toHaveLength(2);
+      expect(results[0]).toMatchObject({
+        title: 'Smart India Hackathon 2027',
+        type: 'hackathon',
+        organizerName: 'Ministry of Education',
+        organizerType: 'government',
+        requiredSkills: ['Agritech', 'Healthcare', 'Smart Automation'],
+        location: 'Nodal centres across India',
+        eligibilityCriteria: [
+          'Students of AICTE approved institutions',
+          'Teams of six',
+        ],
+        externalUrl: 'https://portal.example.gov.in/schemes/101',
+      });
+      expect(results[1].type).toBe('internship');
+      expect(results[1].location).toBeUndefined();
+    });
+  });
+});
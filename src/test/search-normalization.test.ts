@@ -0,0 +1,109 @@
+/**
+ * Unit tests for the search fields derived from free-text details
+ */
+
+import { distanceKm, geocodeLocation } from '../lib/geo/gazetteer';
+import {
+  normalizeDuration,
+  normalizePrizePool,
+  normalizeStipend,
+} from '../lib/search-normalization';
+
+describe('search normalization', () => {
+  describe('normalizeStipend', () => {
+    it('parses monthly ranges', () => {
+      expect(normalizeStipend('₹10,000 - 15,000 /month')).toEqual({
+        min: 10000,
+        max: 15000,
+      });
+      expect(normalizeStipend('₹8k per month for 3 months')).toEqual({
+        min: 8000,
+        max: 8000,
+      });
+    });
+
+    it('converts annual and weekly amounts to monthly figures', () => {
+      expect(normalizeStipend('2.4 LPA')).toEqual({ min: 20000, max: 20000 });
+      expect(normalizeStipend('$300 per week')).toEqual({
+        min: 1300,
+        max: 1300,
+      });
+    });
+
+    it('maps unpaid listings to zero and ignores text without amounts', () => {
+      expect(normalizeStipend('Unpaid')).toEqual({ min: 0, max: 0 });
+      expect(normalizeStipend('Performance based')).toEqual({});
+      expect(normalizeStipend(undefined)).toEqual({});
+    });
+  });
+
+  describe('normalizePrizePool', () => {
+    it('sums individual prizes', () => {
+      expect(
+        normalizePrizePool([
+          '1st Prize: ₹1,00,000',
+          '2nd Prize: ₹50,000',
+          '₹25k',
+        ])
+      ).toBe(175000);
+    });
+
+    it('prefers a stated pool over the individual prizes', () => {
+      expect(
+        normalizePrizePool(['Winner: ₹1 lakh', 'Prizes worth ₹5 lakh'])
+      ).toBe(500000);
+    });
+
+    it('does not count team or track numbers as prize money', () => {
+      expect(normalizePrizePool(['Top 3 teams win ₹10,000 each'])).toBe(30000);
+      expect(
+        normalizePrizePool(['Track prizes for 4 tracks: ₹25,000 each'])
+      ).toBe(100000);
+      expect(normalizePrizePool(['Top 5 teams get ₹2 lakh'])).toBe(200000);
+      expect(normalizePrizePool(['Rs. 15000 for the best 2 projects'])).toBe(
+        15000
+      );
+    });
+
+    it('reads amounts with a currency after them or a lakh or k suffix', () => {
+      expect(normalizePrizePool(['50000 INR', '1.5 lakh', '20k'])).toBe(220000);
+    });
+
+    it('returns undefined when no prize has an amount', () => {
+      expect(normalizePrizePool(['Swag', 'Certificates'])).toBeUndefined();
+      expect(normalizePrizePool(['Goodies for 3 teams'])).toBeUndefined();
+      expect(normalizePrizePool([])).toBeUndefined();
+    });
+  });
+
+  describe('normalizeDuration', () => {
+    it('converts durations to days', () => {
+      expect(normalizeDuration('48 hours')).toBe(2);
+      expect(normalizeDuration('6 weeks')).toBe(42);
+      expect(normalizeDuration('2-3 months')).toBe(90);
+      expect(normalizeDuration('Flexible')).toBeUndefined();
+    });
+  });
+
+  describe('geocodeLocation', () => {
+    it('resolves cities from free-text locations and aliases', () => {
+      expect(geocodeLocation('Koramangala, Bangalore')?.name).toBe('Bengaluru');
+      expect(geocodeLocation('IIT Madras, Chennai, Tamil Nadu')?.name).toBe(
+        'Chennai'
+      );
+      expect(geocodeLocation('Office in Navi Mumbai')?.name).toBe(
+        'Navi Mumbai'
+      );
+      expect(geocodeLocation('Remote')).toBeUndefined();
+    });
+
+    it('measures great-circle distances', () => {
+      const mumbai = geocodeLocation('Mumbai')!;
+      const pune = geocodeLocation('Pune')!;
+
+      expect(distanceKm(mumbai, pune)).toBeGreaterThan(115);
+      expect(distanceKm(mumbai, pune)).toBeLessThan(125);
+      expect(distanceKm(mumbai, mumbai)).toBe(0);
+    });
+  });
+});
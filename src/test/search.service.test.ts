@@ -381,6 +381,131 @@ describe('SearchService', () => {
       ]);
     });
 
+    it('should apply date windows and numeric ranges', async () => {
+      const deadlineAfter = new Date('2024-02-01T00:00:00Z');
+      const deadlineBefore = new Date('2024-02-29T23:59:59Z');
+      mockElasticsearch.search.mockResolvedValue(mockSearchResponse);
+
+      await searchService.searchOpportunities({
+        query: 'internship',
+        filters: {
+          deadlineAfter,
+          deadlineBefore,
+          startsAfter: deadlineBefore,
+          stipendMin: 10000,
+          prizePoolMax: 500000,
+          durationMaxDays: 90,
+        },
+      });
+
+      const { filter } = mockElasticsearch.search.mock.calls[0][0].query.bool;
+      expect(filter).toContainEqual({
+        range: {
+          applicationDeadline: { gte: deadlineAfter, lte: deadlineBefore },
+        },
+      });
+      expect(filter).toContainEqual({
+        range: { startDate: { gte: deadlineBefore } },
+      });
+      expect(filter).toContainEqual({
+        range: { stipendMax: { gte: 10000 } },
+      });
+      expect(filter).toContainEqual({
+        range: { prizePool: { lte: 500000 } },
+      });
+      expect(filter).toContainEqual({
+        range: { durationDays: { lte: 90 } },
+      });
+    });
+
+    it('should order results by the requested sort', async () => {
+      mockElasticsearch.search.mockResolvedValue(mockSearchResponse);
+
+      await searchService.searchOpportunities({ query: 'AI' });
+      await searchService.searchOpportunities({ query: 'AI', sort: 'stipend' });
+
+      const [relevance, stipend] = mockElasticsearch.search.mock.calls.map(
+        (call: any[]) => call[0].sort
+      );
+      expect(relevance[0]).toEqual({ _score: { order: 'desc' } });
+      expect(stipend[0]).toEqual({
+        stipendMax: { order: 'desc', missing: '_last' },
+      });
+    });
+
+    it('should filter by radius around a city and report distances', async () => {
+      mockElasticsearch.search.mockResolvedValue({
+        ...mockSearchResponse,
+        hits: {
+          total: { value: 1 },
+          hits: [
+            {
+              _source: {
+                ...mockSearchResponse.hits.hits[0]._source,
+                geoLocation: { lat: 18.52, lon: 73.856 },
+              },
+            },
+          ],
+        },
+      });
+
+      const result = await searchService.searchOpportunities({
+        query: 'internship',
+        filters: { nearCity: 'Bombay', maxDistance: 200 },
+        sort: 'distance',
+      });
+
+      const searchCall = mockElasticsearch.search.mock.calls[0][0];
+      expect(searchCall.query.bool.filter).toContainEqual({
+        bool: {
+          should: [
+            { term: { mode: 'online' } },
+            {
+              geo_distance: {
+                distance: '200km',
+                geoLocation: { lat: 19.076, lon: 72.878 },
+                ignore_unmapped: true,
+              },
+            },
+          ],
+          minimum_should_match: 1,
+        },
+      });
+      expect(searchCall.sort[0]._geo_distance.order).toBe('asc');
+      expect(searchCall.sort[0]._geo_distance.ignore_unmapped).toBe(true);
+      expect(result.data?.searchArea).toEqual({
+        city: 'Mumbai',
+        radiusKm: 200,
+      });
+      expect(result.data?.opportunities[0].distanceKm).toBeCloseTo(120, -1);
+    });
+
+    it('should reject cities missing from the gazetteer', async () => {
+      const result = await searchService.searchOpportunities({
+        query: 'internship',
+        filters: { nearCity: 'Atlantis' },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unknown city: Atlantis');
+      expect(mockElasticsearch.search).not.toHaveBeenCalled();
+    });
+
+    it('should index numeric fields derived from the details', async () => {
+      mockElasticsearch.index.mockResolvedValue({ _id: 'opp-123' });
+
+      await searchService.indexOpportunity(mockOpportunity);
+
+      const { document } = mockElasticsearch.index.mock.calls[0][0];
+      expect(document).toMatchObject({
+        stipendMin: 50000,
+        stipendMax: 50000,
+        prizePool: 175000,
+        durationDays: 2,
+        geoLocation: { lat: 19.076, lon: 72.878 },
+      });
+    });
+
     it('should handle pagination correctly', async () => {
       const paginatedRequest = {
         ...mockSearchRequest,
@@ -0,0 +1,564 @@
+/**
+ * Unit tests for the video call signaling server: handshake authentication,
+ * room membership, host controls, the waiting room, polls and breakout rooms
+ */
+
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import type { Socket as ClientSocket } from 'socket.io-client';
+import { io as connect } from 'socket.io-client';
+import { SignalingService } from '../lib/services/signaling.service';
+
+jest.mock('../lib/services/auth.service', () => ({
+  authService: {
+    verifyAccessToken: jest.fn((token: string) => {
+      if (!token.startsWith('token-')) throw new Error('invalid signature');
+      return { id: token.slice('token-'.length), email: 'user@example.com' };
+    }),
+  },
+}));
+
+const HOST = '11111111-1111-4111-8111-111111111111';
+const ALICE = '22222222-2222-4222-8222-222222222222';
+const BOB = '33333333-3333-4333-8333-333333333333';
+
+const ROOM = {
+  id: 'room-1',
+  roomCode: 'ABCD1234',
+  hostId: HOST,
+  status: 'active',
+  isLocked: false,
+  isWaitingRoomEnabled: true,
+};
+
+const PARTICIPANTS: Record<string, any> = {
+  'participant-host': {
+    id: 'participant-host',
+    roomId: ROOM.id,
+    userId: HOST,
+    peerId: 'peer-host',
+    displayName: 'Host',
+    role: 'host',
+  },
+  'participant-alice': {
+    id: 'participant-alice',
+    roomId: ROOM.id,
+    userId: ALICE,
+    peerId: 'peer-alice',
+    displayName: 'Alice',
+    role: 'participant',
+  },
+  'participant-bob': {
+    id: 'participant-bob',
+    roomId: ROOM.id,
+    userId: BOB,
+    peerId: 'peer-bob',
+    displayName: 'Bob',
+    role: 'participant',
+  },
+};
+
+const videoService = {
+  getRoomByCode: jest.fn(),
+  getParticipant: jest.fn(),
+  leaveRoom: jest.fn(),
+  removeParticipant: jest.fn(),
+  isRemovedFromRoom: jest.fn(),
+  updateParticipantRole: jest.fn(),
+  setRoomLocked: jest.fn(),
+  setWaitingRoomEnabled: jest.fn(),
+  createPoll: jest.fn(),
+  getPoll: jest.fn(),
+  votePoll: jest.fn(),
+  closePoll: jest.fn(),
+  getBreakoutRooms: jest.fn(),
+  getBreakoutAssignments: jest.fn(),
+  openBreakoutRooms: jest.fn(),
+  markBreakoutRoomJoined: jest.fn(),
+  closeBreakoutRooms: jest.fn(),
+};
+
+const BREAKOUT_ROOM = {
+  id: 'breakout-1',
+  parentRoomId: ROOM.id,
+  name: 'Breakout Room 1',
+  maxParticipants: 5,
+  isActive: true,
+  startedAt: new Date(),
+};
+
+describe('SignalingService', () => {
+  let signaling: SignalingService;
+  let url: string;
+  const clients: ClientSocket[] = [];
+
+  const connectAs = (userId: string): Promise<ClientSocket> =>
+    new Promise((resolve, reject) => {
+      const client = connect(url, {
+        auth: { token: `token-${userId}` },
+        transports: ['websocket'],
+        reconnection: false,
+      });
+      clients.push(client);
+      client.on('connect', () => resolve(client));
+      client.on('connect_error', reject);
+    });
+
+  const join = (client: ClientSocket, participantId: string) =>
+    client.emitWithAck('join-room', {
+      roomCode: ROOM.roomCode,
+      participantId,
+    });
+
+  const nextEvent = <T = any>(client: ClientSocket, event: string) =>
+    new Promise<T>(resolve => client.once(event, resolve));
+
+  // The host in the call and Alice admitted from the waiting room
+  const startCall = async () => {
+    const host = await connectAs(HOST);
+    await join(host, 'participant-host');
+
+    const alice = await connectAs(ALICE);
+    const admitted = nextEvent(alice, 'admitted');
+    await join(alice, 'participant-alice');
+    await host.emitWithAck('admit-participant', { peerId: 'peer-alice' });
+    await admitted;
+
+    return { host, alice };
+  };
+
+  beforeAll(done => {
+    const httpServer = createServer();
+    signaling = new SignalingService(httpServer, videoService as any);
+    httpServer.listen(0, () => {
+      url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    videoService.getRoomByCode.mockResolvedValue({ ...ROOM });
+    videoService.getParticipant.mockImplementation(async (id: string) =>
+      PARTICIPANTS[id] ? { ...PARTICIPANTS[id] } : null
+    );
+
+    const removed = new Set<string>();
+    videoService.removeParticipant.mockImplementation(async (id: string) => {
+      removed.add(PARTICIPANTS[id].userId);
+    });
+    videoService.isRemovedFromRoom.mockImplementation(
+      async (_roomId: string, userId: string) => removed.has(userId)
+    );
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach(client => client.disconnect());
+    // Let the server see the disconnects before the next call starts
+    await new Promise(resolve => setTimeout(resolve, 50));
+  });
+
+  afterAll(() => {
+    signaling.close();
+  });
+
+  it('refuses connections without a valid token', async () => {
+    const client = connect(url, {
+      auth: { token: 'forged' },
+      transports: ['websocket'],
+      reconnection: false,
+    });
+    clients.push(client);
+
+    await expect(nextEvent(client, 'connect_error')).resolves.toEqual(
+      expect.objectContaining({ message: 'Unauthorized' })
+    );
+  });
+
+  it("refuses to join as someone else's participant", async () => {
+    const bob = await connectAs(BOB);
+
+    const response = await join(bob, 'participant-alice');
+
+    expect(response).toEqual({
+      success: false,
+      error: 'You are not a participant in this room',
+    });
+    expect(signaling.getRoomParticipantsCount(ROOM.roomCode)).toBe(0);
+  });
+
+  it('refuses participants who have left the room', async () => {
+    videoService.getParticipant.mockResolvedValue({
+      ...PARTICIPANTS['participant-alice'],
+      leftAt: new Date(),
+    });
+    const alice = await connectAs(ALICE);
+
+    const response = await join(alice, 'participant-alice');
+
+    expect(response.success).toBe(false);
+  });
+
+  it('lets the host in straight away with their stored peer id', async () => {
+    const host = await connectAs(HOST);
+
+    const response = await join(host, 'participant-host');
+
+    expect(response).toEqual({
+      success: true,
+      peerId: 'peer-host',
+      role: 'host',
+      participants: [],
+      waiting: [],
+    });
+  });
+
+  it('holds participants in the waiting room until the host admits them', async () => {
+    const host = await connectAs(HOST);
+    await join(host, 'participant-host');
+    const alice = await connectAs(ALICE);
+    const waiting = nextEvent(host, 'participant-waiting');
+
+    const response = await join(alice, 'participant-alice');
+
+    expect(response).toEqual({ success: true, waiting: true });
+    expect(await waiting).toEqual(
+      expect.objectContaining({ peerId: 'peer-alice', displayName: 'Alice' })
+    );
+    expect(signaling.getRoomParticipantsCount(ROOM.roomCode)).toBe(1);
+
+    const admitted = nextEvent(alice, 'admitted');
+    const joined = nextEvent(host, 'participant-joined');
+    await host.emitWithAck('admit-participant', { peerId: 'peer-alice' });
+
+    expect(await admitted).toEqual(
+      expect.objectContaining({
+        peerId: 'peer-alice',
+        participants: [expect.objectContaining({ peerId: 'peer-host' })],
+      })
+    );
+    expect((await joined).peerId).toBe('peer-alice');
+  });
+
+  it('skips the waiting room when it is turned off', async () => {
+    videoService.getRoomByCode.mockResolvedValue({
+      ...ROOM,
+      isWaitingRoomEnabled: false,
+    });
+    const alice = await connectAs(ALICE);
+
+    const response = await join(alice, 'participant-alice');
+
+    expect(response.peerId).toBe('peer-alice');
+  });
+
+  it('lets the host turn someone away from the waiting room', async () => {
+    const host = await connectAs(HOST);
+    await join(host, 'participant-host');
+    const bob = await connectAs(BOB);
+    await join(bob, 'participant-bob');
+    const denied = nextEvent(bob, 'denied');
+
+    const response = await host.emitWithAck('deny-participant', {
+      peerId: 'peer-bob',
+    });
+
+    expect(response.success).toBe(true);
+    await denied;
+    expect(videoService.removeParticipant).toHaveBeenCalledWith(
+      'participant-bob',
+      HOST
+    );
+  });
+
+  it('does not let participants kick, mute or lock', async () => {
+    const { host, alice } = await startCall();
+    const kicked = jest.fn();
+    host.on('kicked', kicked);
+
+    const kick = await alice.emitWithAck('kick-participant', {
+      peerId: 'peer-host',
+    });
+    const mute = await alice.emitWithAck('mute-participant', {
+      peerId: 'peer-host',
+    });
+    const lock = await alice.emitWithAck('lock-room', { locked: true });
+
+    for (const response of [kick, mute, lock]) {
+      expect(response).toEqual({
+        success: false,
+        error: 'Only the host or a co-host can do that',
+      });
+    }
+    expect(kicked).not.toHaveBeenCalled();
+    expect(videoService.removeParticipant).not.toHaveBeenCalled();
+    expect(videoService.setRoomLocked).not.toHaveBeenCalled();
+  });
+
+  it('lets the host remove a participant for good', async () => {
+    const { host, alice } = await startCall();
+    const kicked = nextEvent(alice, 'kicked');
+    const left = nextEvent(host, 'participant-left');
+
+    const response = await host.emitWithAck('kick-participant', {
+      peerId: 'peer-alice',
+    });
+
+    expect(response.success).toBe(true);
+    await kicked;
+    expect((await left).peerId).toBe('peer-alice');
+    expect(videoService.removeParticipant).toHaveBeenCalledWith(
+      'participant-alice',
+      HOST
+    );
+  });
+
+  it('does not let a removed participant back in', async () => {
+    const { host, alice } = await startCall();
+    const kicked = nextEvent(alice, 'kicked');
+    await host.emitWithAck('kick-participant', { peerId: 'peer-alice' });
+    await kicked;
+
+    // Even with a new participant row and the waiting room off
+    videoService.getRoomByCode.mockResolvedValue({
+      ...ROOM,
+      isWaitingRoomEnabled: false,
+    });
+    PARTICIPANTS['participant-alice-again'] = {
+      ...PARTICIPANTS['participant-alice'],
+      id: 'participant-alice-again',
+      peerId: 'peer-alice-again',
+    };
+    const again = await connectAs(ALICE);
+
+    const response = await join(again, 'participant-alice-again');
+
+    expect(response).toEqual({
+      success: false,
+      error: 'You were removed from this room',
+    });
+    delete PARTICIPANTS['participant-alice-again'];
+  });
+
+  it('gives co-hosts moderation but not power over the host', async () => {
+    const { host, alice } = await startCall();
+    const bob = await connectAs(BOB);
+    const bobAdmitted = nextEvent(bob, 'admitted');
+    await join(bob, 'participant-bob');
+    await host.emitWithAck('admit-participant', { peerId: 'peer-bob' });
+    await bobAdmitted;
+
+    const roleChanged = nextEvent(alice, 'role-changed');
+    const promote = await host.emitWithAck('set-role', {
+      peerId: 'peer-alice',
+      role: 'co_host',
+    });
+    expect(promote.success).toBe(true);
+    expect(await roleChanged).toEqual({
+      peerId: 'peer-alice',
+      role: 'co_host',
+    });
+    expect(videoService.updateParticipantRole).toHaveBeenCalledWith(
+      'participant-alice',
+      'co_host'
+    );
+
+    const muted = nextEvent(bob, 'force-mute');
+    const mute = await alice.emitWithAck('mute-participant', {
+      peerId: 'peer-bob',
+    });
+    expect(mute.success).toBe(true);
+    await muted;
+
+    const kickHost = await alice.emitWithAck('kick-participant', {
+      peerId: 'peer-host',
+    });
+    expect(kickHost).toEqual({
+      success: false,
+      error: 'Participant not found',
+    });
+
+    const promoteBob = await alice.emitWithAck('set-role', {
+      peerId: 'peer-bob',
+      role: 'co_host',
+    });
+    expect(promoteBob).toEqual({
+      success: false,
+      error: 'Only the host can do that',
+    });
+  });
+
+  it('locks the room and tells everyone in it', async () => {
+    const { host, alice } = await startCall();
+    const lockChanged = nextEvent(alice, 'room-lock-changed');
+
+    const response = await host.emitWithAck('lock-room', { locked: true });
+
+    expect(response.success).toBe(true);
+    expect(await lockChanged).toEqual({ locked: true });
+    expect(videoService.setRoomLocked).toHaveBeenCalledWith(ROOM.id, true);
+  });
+
+  it('stamps forwarded signals with the real sender', async () => {
+    const { host, alice } = await startCall();
+    const offer = nextEvent(alice, 'offer');
+
+    host.emit('offer', {
+      type: 'offer',
+      from: 'peer-alice',
+      to: 'peer-alice',
+      roomId: ROOM.roomCode,
+      data: { sdp: 'v=0' },
+      timestamp: Date.now(),
+    });
+
+    expect(await offer).toEqual({ from: 'peer-host', data: { sdp: 'v=0' } });
+  });
+
+  it('does not relay anything from sockets still in the waiting room', async () => {
+    const { host } = await startCall();
+    const bob = await connectAs(BOB);
+    await join(bob, 'participant-bob');
+    const chat = jest.fn();
+    host.on('chat-message', chat);
+
+    bob.emit('chat-message', { message: 'Let me in' });
+    await host.emitWithAck('list-waiting');
+
+    expect(chat).not.toHaveBeenCalled();
+  });
+
+  it('sends everyone the server tally after a vote', async () => {
+    const { host, alice } = await startCall();
+    const results = {
+      pollId: 'poll-1',
+      question: 'Which day?',
+      isAnonymous: true,
+      isActive: true,
+      totalVotes: 1,
+      options: [
+        { id: 'opt_0', text: 'Monday', votes: 0 },
+        { id: 'opt_1', text: 'Friday', votes: 1 },
+      ],
+    };
+    videoService.votePoll.mockResolvedValue(results);
+    const broadcast = nextEvent(host, 'poll-results');
+
+    const response = await alice.emitWithAck('poll-vote', {
+      pollId: 'poll-1',
+      optionIds: ['opt_1'],
+    });
+
+    expect(response).toEqual({ success: true, results });
+    expect(await broadcast).toEqual(results);
+    expect(videoService.votePoll).toHaveBeenCalledWith(
+      'poll-1',
+      'participant-alice',
+      ['opt_1']
+    );
+  });
+
+  it('passes on why a vote was refused', async () => {
+    const { alice } = await startCall();
+    videoService.votePoll.mockRejectedValue(
+      new Error('You have already voted in this poll')
+    );
+
+    const response = await alice.emitWithAck('poll-vote', {
+      pollId: 'poll-1',
+      optionIds: ['opt_1'],
+    });
+
+    expect(response).toEqual({
+      success: false,
+      error: 'You have already voted in this poll',
+    });
+  });
+
+  it('does not let participants start polls', async () => {
+    const { alice } = await startCall();
+
+    const response = await alice.emitWithAck('create-poll', {
+      question: 'Which day?',
+      options: ['Monday', 'Friday'],
+    });
+
+    expect(response.success).toBe(false);
+    expect(videoService.createPoll).not.toHaveBeenCalled();
+  });
+
+  it('moves people into breakout rooms and keeps signals inside them', async () => {
+    const { host, alice } = await startCall();
+    videoService.openBreakoutRooms.mockResolvedValue([BREAKOUT_ROOM]);
+    videoService.getBreakoutAssignments.mockResolvedValue([
+      { breakoutRoomId: BREAKOUT_ROOM.id, participantId: 'participant-alice' },
+    ]);
+    const moved = nextEvent(alice, 'moved-to-breakout-room');
+    const left = nextEvent(host, 'participant-left');
+
+    const response = await host.emitWithAck('open-breakout-rooms');
+
+    expect(response.success).toBe(true);
+    expect(await moved).toEqual({
+      breakoutRoomId: BREAKOUT_ROOM.id,
+      participants: [],
+    });
+    expect((await left).peerId).toBe('peer-alice');
+    expect(videoService.markBreakoutRoomJoined).toHaveBeenCalledWith(
+      BREAKOUT_ROOM.id,
+      'participant-alice'
+    );
+
+    const offer = jest.fn();
+    alice.on('offer', offer);
+    host.emit('offer', {
+      type: 'offer',
+      from: 'peer-host',
+      to: 'peer-alice',
+      roomId: ROOM.roomCode,
+      data: { sdp: 'v=0' },
+      timestamp: Date.now(),
+    });
+    await host.emitWithAck('list-waiting');
+
+    expect(offer).not.toHaveBeenCalled();
+  });
+
+  it('brings everyone back when the host closes breakout rooms', async () => {
+    const { host, alice } = await startCall();
+    videoService.openBreakoutRooms.mockResolvedValue([BREAKOUT_ROOM]);
+    videoService.getBreakoutAssignments.mockResolvedValue([
+      { breakoutRoomId: BREAKOUT_ROOM.id, participantId: 'participant-alice' },
+    ]);
+    await host.emitWithAck('open-breakout-rooms');
+    const returned = nextEvent(alice, 'returned-to-main-room');
+    const joined = nextEvent(host, 'participant-joined');
+    const closed = nextEvent(alice, 'breakout-rooms-closed');
+
+    const response = await host.emitWithAck('close-breakout-rooms');
+
+    expect(response.success).toBe(true);
+    expect(await returned).toEqual({
+      breakoutRoomId: null,
+      participants: [expect.objectContaining({ peerId: 'peer-host' })],
+    });
+    expect((await joined).peerId).toBe('peer-alice');
+    await closed;
+    expect(videoService.closeBreakoutRooms).toHaveBeenCalledWith(ROOM.id);
+  });
+
+  it('only lets participants into the breakout room they were given', async () => {
+    const { alice } = await startCall();
+    videoService.getBreakoutRooms.mockResolvedValue([BREAKOUT_ROOM]);
+    videoService.getBreakoutAssignments.mockResolvedValue([]);
+
+    const response = await alice.emitWithAck('join-breakout-room', {
+      breakoutRoomId: BREAKOUT_ROOM.id,
+    });
+
+    expect(response).toEqual({
+      success: false,
+      error: 'You are not assigned to that breakout room',
+    });
+  });
+});
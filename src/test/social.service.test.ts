@@ -50,6 +50,16 @@ jest.mock('@prisma/client', () => ({
       findMany: jest.fn(),
       count: jest.fn(),
     },
+    userBlock: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    contentReport: {
+      create: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
   })),
 }));
 
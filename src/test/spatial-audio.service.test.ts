@@ -0,0 +1,441 @@
+/**
+ * Unit tests for spatial audio in virtual event spaces: gain and pan, who
+ * connects to whom, and booth broadcasts over the presence socket
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { Server as SocketIOServer } from 'socket.io';
+import type { Socket as ClientSocket } from 'socket.io-client';
+import { io as connect } from 'socket.io-client';
+import { SpatialAudioService } from '../lib/services/spatial-audio.service';
+import { VirtualEventPresenceService } from '../lib/services/virtual-event-presence.service';
+import type { AudioParticipant } from '../lib/spatial-audio';
+import { computeGain, computePan, planAudio } from '../lib/spatial-audio';
+import type { AudioPeersUpdate } from '../types/virtual-events';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    virtualEventSession: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    virtualBooth: {
+      findUnique: jest.fn(),
+    },
+    spatialAudioChannel: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+
+jest.mock('../lib/services/auth.service', () => ({
+  authService: {
+    verifyAccessToken: jest.fn((token: string) => {
+      if (!token.startsWith('token-')) throw new Error('invalid signature');
+      return { id: token.slice('token-'.length), email: 'user@example.com' };
+    }),
+  },
+}));
+
+// Every PrismaClient instance shares the mocked client above
+const mockPrisma = new PrismaClient() as any;
+
+const ALICE = '11111111-1111-4111-8111-111111111111';
+const BOB = '22222222-2222-4222-8222-222222222222';
+const CAROL = '33333333-3333-4333-8333-333333333333';
+
+const SPACE = {
+  id: 'space-1',
+  isActive: true,
+  sceneConfig: {
+    floor: { color: '#ccc', size: { width: 100, depth: 100 } },
+    zones: [
+      {
+        id: 'booth-a',
+        name: 'Acme',
+        type: 'booth',
+        bounds: { minX: 0, minZ: 0, maxX: 10, maxZ: 10 },
+      },
+      {
+        id: 'booth-b',
+        name: 'Globex',
+        type: 'booth',
+        bounds: { minX: 20, minZ: 0, maxX: 30, maxZ: 10 },
+      },
+    ],
+  },
+};
+
+const SESSIONS: Record<string, any> = {
+  'session-alice': { userId: ALICE, position: { x: 1, y: 0, z: 1 } },
+  'session-bob': { userId: BOB, position: { x: 4, y: 0, z: 1 } },
+  'session-carol': { userId: CAROL, position: { x: 25, y: 0, z: 5 } },
+};
+
+const BOOTH = {
+  id: 'booth-acme',
+  spaceId: SPACE.id,
+  ownerId: ALICE,
+  position: { x: 5, y: 0, z: 5 },
+  isActive: true,
+};
+
+const wait = (ms = 50) => new Promise(resolve => setTimeout(resolve, ms));
+
+const participant = (
+  sessionId: string,
+  x: number,
+  zoneId: string | null = null
+): AudioParticipant => ({
+  sessionId,
+  userId: `user-${sessionId}`,
+  position: { x, y: 0, z: 0 },
+  rotation: { x: 0, y: 0, z: 0 },
+  zoneId,
+});
+
+describe('spatial audio', () => {
+  it('gets quieter with distance and silent at the radius', () => {
+    expect(computeGain(1, 12)).toBe(1);
+    expect(computeGain(3, 12)).toBe(0.5);
+    expect(computeGain(11, 12)).toBe(0.06);
+    expect(computeGain(12, 12)).toBe(0);
+  });
+
+  it('pans sounds to the side they are on', () => {
+    const listener = {
+      position: { x: 0, y: 0, z: 0 },
+      rotation: { x: 0, y: 0, z: 0 },
+    };
+
+    expect(computePan(listener, { x: 2, y: 0, z: 0 })).toBe(1);
+    expect(computePan(listener, { x: -2, y: 0, z: 0 })).toBe(-1);
+    expect(computePan(listener, { x: 0, y: 0, z: -2 })).toBe(0);
+
+    // Turned a quarter to the left, what was ahead is now on the right
+    const turned = { ...listener, rotation: { x: 0, y: Math.PI / 2, z: 0 } };
+    expect(computePan(turned, { x: 0, y: 0, z: -2 })).toBe(1);
+  });
+
+  it('connects people near each other in the same zone', () => {
+    const plan = planAudio(
+      [
+        participant('a', 0, 'booth'),
+        participant('b', 3, 'booth'),
+        participant('c', 5),
+        participant('d', 40, 'booth'),
+      ],
+      { hearingRadius: 12 }
+    );
+
+    expect(plan.links.get('a')?.get('b')).toEqual({
+      sessionId: 'b',
+      userId: 'user-b',
+      gain: 0.5,
+      pan: 1,
+      kind: 'proximity',
+      initiator: true,
+    });
+    expect(plan.links.get('b')?.get('a')?.initiator).toBe(false);
+    expect(plan.links.has('c')).toBe(false);
+    expect(plan.links.has('d')).toBe(false);
+    expect(plan.groups).toEqual(
+      new Map([
+        ['a', 'a'],
+        ['b', 'a'],
+      ])
+    );
+  });
+
+  it('keeps connections a little past the radius', () => {
+    const people = [participant('a', 0), participant('b', 14)];
+
+    expect(planAudio(people, { hearingRadius: 12 }).links.size).toBe(0);
+
+    const plan = planAudio(people, {
+      hearingRadius: 12,
+      connected: () => true,
+    });
+    expect(plan.links.get('a')?.get('b')?.gain).toBe(0);
+    expect(plan.groups.size).toBe(0);
+  });
+
+  it('connects each person to their nearest peers only', () => {
+    const crowd = Array.from({ length: 12 }, (_, i) =>
+      participant(`p${String(i).padStart(2, '0')}`, i * 0.5)
+    );
+
+    const plan = planAudio(crowd, { hearingRadius: 12 });
+
+    expect(plan.links.get('p00')?.has('p08')).toBe(true);
+    expect(plan.links.get('p00')?.has('p11')).toBe(false);
+  });
+
+  it('lets broadcasts reach other zones', () => {
+    const plan = planAudio(
+      [participant('host', 0, 'booth'), participant('guest', 20)],
+      {
+        hearingRadius: 12,
+        broadcasts: [
+          { sessionId: 'host', center: { x: 0, y: 0, z: 0 }, radius: 30 },
+        ],
+      }
+    );
+
+    expect(plan.links.get('guest')?.get('host')).toMatchObject({
+      gain: 1,
+      pan: -1,
+      kind: 'broadcast',
+    });
+    // The broadcaster does not hear the audience
+    expect(plan.links.get('host')?.get('guest')).toMatchObject({
+      gain: 0,
+      kind: 'proximity',
+    });
+  });
+});
+
+describe('SpatialAudioService', () => {
+  let io: SocketIOServer;
+  let url: string;
+  let presence: VirtualEventPresenceService;
+  let audio: SpatialAudioService;
+  const clients: ClientSocket[] = [];
+
+  const joinAs = async (userId: string, sessionId: string) => {
+    const client = await new Promise<ClientSocket>((resolve, reject) => {
+      const socket = connect(`${url}/virtual-events`, {
+        auth: { token: `token-${userId}` },
+        transports: ['websocket'],
+        reconnection: false,
+      });
+      clients.push(socket);
+      socket.on('connect', () => resolve(socket));
+      socket.on('connect_error', reject);
+    });
+    const response = await client.emitWithAck('join-space', { sessionId });
+    expect(response.success).toBe(true);
+    return client;
+  };
+
+  const nextPeers = (client: ClientSocket) =>
+    new Promise<AudioPeersUpdate>(resolve =>
+      client.once('audio-peers', resolve)
+    );
+
+  beforeAll(done => {
+    const httpServer = createServer();
+    io = new SocketIOServer(httpServer);
+    // Ticks and snapshots are run by hand
+    presence = new VirtualEventPresenceService({
+      tickMs: 60 * 60 * 1000,
+      snapshotMs: 60 * 60 * 1000,
+    });
+    presence.attach(io);
+    audio = new SpatialAudioService();
+    audio.attach(io, presence);
+    httpServer.listen(0, () => {
+      url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach(client => client.disconnect());
+    await wait();
+  });
+
+  afterAll(async () => {
+    audio.close();
+    await presence.close();
+    await new Promise(resolve => io.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.virtualEventSession.findUnique.mockImplementation(
+      async ({ where }: any) =>
+        SESSIONS[where.id] && {
+          id: where.id,
+          spaceId: SPACE.id,
+          isActive: true,
+          rotation: { x: 0, y: 0, z: 0 },
+          space: SPACE,
+          ...SESSIONS[where.id],
+        }
+    );
+    mockPrisma.virtualEventSession.update.mockResolvedValue({});
+    mockPrisma.virtualEventSession.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.virtualBooth.findUnique.mockResolvedValue(BOOTH);
+    mockPrisma.spatialAudioChannel.findFirst.mockResolvedValue(null);
+    mockPrisma.spatialAudioChannel.create.mockImplementation(
+      async ({ data }: any) => ({ id: `channel-${data.channelName}` })
+    );
+    mockPrisma.spatialAudioChannel.update.mockResolvedValue({});
+  });
+
+  it('connects people who walk up to each other and tells them their group', async () => {
+    const alice = await joinAs(ALICE, 'session-alice');
+    const bob = await joinAs(BOB, 'session-bob');
+    await joinAs(CAROL, 'session-carol');
+
+    const update = nextPeers(alice);
+    presence.tick();
+
+    expect(await update).toEqual({
+      connect: [
+        {
+          sessionId: 'session-bob',
+          userId: BOB,
+          gain: 0.5,
+          pan: 1,
+          kind: 'proximity',
+          initiator: true,
+        },
+      ],
+      update: [],
+      disconnect: [],
+      groupId: 'session-alice',
+    });
+    expect(audio.getAudioGroups(SPACE.id)).toEqual([
+      ['session-alice', 'session-bob'],
+    ]);
+
+    // Walking into the next booth ends the conversation
+    bob.emit('move', {
+      position: { x: 22, y: 0, z: 1 },
+      rotation: { x: 0, y: 0, z: 0 },
+    });
+    await wait();
+
+    const next = nextPeers(alice);
+    presence.tick();
+    expect(await next).toEqual({
+      connect: [],
+      update: [],
+      disconnect: ['session-bob'],
+      groupId: null,
+    });
+  });
+
+  it('relays signals between connected peers only', async () => {
+    const alice = await joinAs(ALICE, 'session-alice');
+    const bob = await joinAs(BOB, 'session-bob');
+    const carol = await joinAs(CAROL, 'session-carol');
+    presence.tick();
+    await wait();
+
+    const carolSignals = jest.fn();
+    carol.on('audio-signal', carolSignals);
+    const received = new Promise(resolve => bob.once('audio-signal', resolve));
+
+    alice.emit('audio-signal', {
+      to: 'session-carol',
+      type: 'offer',
+      data: { sdp: 'v=0' },
+    });
+    alice.emit('audio-signal', {
+      to: 'session-bob',
+      type: 'offer',
+      data: { sdp: 'v=0' },
+    });
+
+    expect(await received).toEqual({
+      from: 'session-alice',
+      type: 'offer',
+      data: { sdp: 'v=0' },
+    });
+    await wait();
+    expect(carolSignals).not.toHaveBeenCalled();
+  });
+
+  it('only lets the booth owner broadcast', async () => {
+    await joinAs(ALICE, 'session-alice');
+    const bob = await joinAs(BOB, 'session-bob');
+
+    const response = await bob.emitWithAck('start-broadcast', {
+      boothId: BOOTH.id,
+    });
+
+    expect(response).toEqual({
+      success: false,
+      error: 'Only the booth owner can broadcast from it',
+    });
+  });
+
+  it('lets the booth owner broadcast to people in other zones', async () => {
+    const alice = await joinAs(ALICE, 'session-alice');
+    const carol = await joinAs(CAROL, 'session-carol');
+    presence.tick();
+    await wait();
+
+    const update = nextPeers(carol);
+    const response = await alice.emitWithAck('start-broadcast', {
+      boothId: BOOTH.id,
+      radius: 25,
+    });
+
+    expect(response).toEqual({
+      success: true,
+      data: {
+        boothId: BOOTH.id,
+        channelId: 'channel-booth:booth-acme',
+        radius: 25,
+      },
+    });
+    expect(mockPrisma.spatialAudioChannel.create).toHaveBeenCalledWith({
+      data: {
+        spaceId: SPACE.id,
+        channelName: 'booth:booth-acme',
+        channelType: 'broadcast',
+        maxDistance: 25,
+        isActive: true,
+      },
+    });
+    expect((await update).connect).toEqual([
+      expect.objectContaining({
+        sessionId: 'session-alice',
+        gain: 1,
+        kind: 'broadcast',
+        initiator: false,
+      }),
+    ]);
+
+    // Leaving ends the broadcast
+    const ended = nextPeers(carol);
+    await alice.emitWithAck('leave-space');
+    presence.tick();
+
+    expect((await ended).disconnect).toEqual(['session-alice']);
+    expect(mockPrisma.spatialAudioChannel.update).toHaveBeenCalledWith({
+      where: { id: 'channel-booth:booth-acme' },
+      data: { isActive: false },
+    });
+  });
+
+  it('uses the hearing radius of the space', async () => {
+    mockPrisma.spatialAudioChannel.findFirst.mockResolvedValue({
+      id: 'channel-proximity',
+      maxDistance: 2,
+    });
+    const alice = await joinAs(ALICE, 'session-alice');
+    await joinAs(BOB, 'session-bob');
+
+    const updates: AudioPeersUpdate[] = [];
+    alice.on('audio-peers', update => updates.push(update));
+    presence.tick();
+    await wait();
+
+    // Alice and Bob are 3 apart, so out of hearing once the radius loads
+    expect(updates.map(update => update.connect.length)).toEqual([1, 0]);
+    expect(updates[1].disconnect).toEqual(['session-bob']);
+    expect(audio.getAudioGroups(SPACE.id)).toEqual([]);
+    expect(mockPrisma.spatialAudioChannel.create).not.toHaveBeenCalled();
+  });
+});
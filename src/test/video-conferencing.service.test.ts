@@ -4,8 +4,13 @@ import { VideoConferencingService } from '../lib/services/video-conferencing.ser
 
 // Mock pg Pool
 jest.mock('pg', () => {
+  const mClient = {
+    query: jest.fn(),
+    release: jest.fn(),
+  };
   const mPool = {
     query: jest.fn(),
+    connect: jest.fn(async () => mClient),
   };
   return { Pool: jest.fn(() => mPool) };
 });
@@ -145,6 +150,32 @@ describe('VideoConferencingService', () => {
       ).rejects.toThrow('Room is locked');
     });
 
+    it('should reject users removed from the room', async () => {
+      const mockRoom = {
+        id: 'room-123',
+        room_code: 'ABC123',
+        host_id: 'user-123',
+        status: 'active',
+        is_locked: false,
+        max_participants: 10,
+      };
+
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [mockRoom] } as any)
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] } as any);
+
+      await expect(
+        service.joinRoom(
+          { roomCode: 'ABC123', displayName: 'Kicked' },
+          'user-456'
+        )
+      ).rejects.toThrow('You were removed from this room');
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('video_call_room_removals'),
+        ['room-123', 'user-456']
+      );
+    });
+
     it('should reject joining a full room', async () => {
       const mockRoom = {
         id: 'room-123',
@@ -226,6 +257,119 @@ describe('VideoConferencingService', () => {
     });
   });
 
+  describe('votePoll', () => {
+    const mockPoll = {
+      id: 'poll-123',
+      room_id: 'room-123',
+      creator_id: 'participant-host',
+      question: 'Which day?',
+      options: [
+        { id: 'opt_0', text: 'Monday' },
+        { id: 'opt_1', text: 'Friday' },
+      ],
+      allow_multiple: false,
+      is_anonymous: false,
+      is_active: true,
+      created_at: new Date(),
+    };
+
+    const mockParticipant = {
+      id: 'participant-123',
+      room_id: 'room-123',
+      display_name: 'Alice',
+    };
+
+    const mockResponses = [
+      {
+        participant_id: 'participant-123',
+        selected_options: ['opt_1'],
+        display_name: 'Alice',
+      },
+      {
+        participant_id: 'participant-456',
+        selected_options: ['opt_1'],
+        display_name: 'Bob',
+      },
+    ];
+
+    it('should record the vote and return the tally', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [mockPoll] } as any)
+        .mockResolvedValueOnce({ rows: [mockParticipant] } as any)
+        .mockResolvedValueOnce({ rows: [{ id: 'response-1' }] } as any)
+        .mockResolvedValueOnce({ rows: mockResponses } as any);
+
+      const result = await service.votePoll('poll-123', 'participant-123', [
+        'opt_1',
+      ]);
+
+      expect(result.totalVotes).toBe(2);
+      expect(result.options.map(option => option.votes)).toEqual([0, 2]);
+      expect(result.voters?.opt_1.map(voter => voter.displayName)).toEqual([
+        'Alice',
+        'Bob',
+      ]);
+    });
+
+    it('should not reveal voters in an anonymous poll', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [{ ...mockPoll, is_anonymous: true }],
+        } as any)
+        .mockResolvedValueOnce({ rows: [mockParticipant] } as any)
+        .mockResolvedValueOnce({ rows: [{ id: 'response-1' }] } as any)
+        .mockResolvedValueOnce({ rows: mockResponses } as any);
+
+      const result = await service.votePoll('poll-123', 'participant-123', [
+        'opt_1',
+      ]);
+
+      expect(result.totalVotes).toBe(2);
+      expect(result.voters).toBeUndefined();
+    });
+
+    it('should reject a second vote', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [mockPoll] } as any)
+        .mockResolvedValueOnce({ rows: [mockParticipant] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      await expect(
+        service.votePoll('poll-123', 'participant-123', ['opt_0'])
+      ).rejects.toThrow('You have already voted in this poll');
+    });
+
+    it('should reject several options in a single choice poll', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [mockPoll] } as any);
+
+      await expect(
+        service.votePoll('poll-123', 'participant-123', ['opt_0', 'opt_1'])
+      ).rejects.toThrow('This poll allows only one option');
+    });
+
+    it('should reject votes on a closed poll', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ ...mockPoll, is_active: false }],
+      } as any);
+
+      await expect(
+        service.votePoll('poll-123', 'participant-123', ['opt_0'])
+      ).rejects.toThrow('Poll is closed');
+    });
+
+    it('should reject participants from another call', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [mockPoll] } as any)
+        .mockResolvedValueOnce({
+          rows: [{ ...mockParticipant, room_id: 'room-456' }],
+        } as any);
+
+      await expect(
+        service.votePoll('poll-123', 'participant-123', ['opt_0'])
+      ).rejects.toThrow('Only participants in the call can vote');
+    });
+  });
+
   describe('createBreakoutRooms', () => {
     it('should create multiple breakout rooms', async () => {
       const mockBreakoutRoom = {
@@ -259,6 +403,184 @@ describe('VideoConferencingService', () => {
     });
   });
 
+  describe('breakout room assignments', () => {
+    const mockBreakoutRooms = [
+      {
+        id: 'breakout-1',
+        parent_room_id: 'room-123',
+        name: 'Breakout Room 1',
+        max_participants: 2,
+        is_active: true,
+        created_at: new Date(),
+      },
+      {
+        id: 'breakout-2',
+        parent_room_id: 'room-123',
+        name: 'Breakout Room 2',
+        max_participants: 2,
+        is_active: true,
+        created_at: new Date(),
+      },
+    ];
+
+    let mockClient: { query: jest.Mock; release: jest.Mock };
+
+    beforeEach(async () => {
+      mockClient = (await mockPool.connect()) as any;
+    });
+
+    /**
+     * Answer the client's queries in order; BEGIN, COMMIT and ROLLBACK
+     * return nothing
+     */
+    function mockClientQueries(...results: any[]) {
+      mockClient.query.mockImplementation(async (query: string, params) => {
+        if (/^(BEGIN|COMMIT|ROLLBACK)$/.test(query)) return { rows: [] };
+        const next = results.shift();
+        return typeof next === 'function' ? next(query, params) : next;
+      });
+    }
+
+    it('should reject more participants than a room holds', async () => {
+      mockClientQueries({ rows: mockBreakoutRooms }, { rows: [] });
+
+      await expect(
+        service.assignBreakoutRooms('room-123', [
+          { breakoutRoomId: 'breakout-1', participantId: 'participant-1' },
+          { breakoutRoomId: 'breakout-1', participantId: 'participant-2' },
+          { breakoutRoomId: 'breakout-1', participantId: 'participant-3' },
+        ])
+      ).rejects.toThrow('Breakout Room 1 is full');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should count people already in the room', async () => {
+      mockClientQueries(
+        { rows: mockBreakoutRooms },
+        { rows: [{ breakout_room_id: 'breakout-1', count: 2 }] }
+      );
+
+      await expect(
+        service.assignBreakoutRooms('room-123', [
+          { breakoutRoomId: 'breakout-1', participantId: 'participant-3' },
+        ])
+      ).rejects.toThrow('Breakout Room 1 is full');
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('a.participant_id <> ALL($2)'),
+        ['room-123', ['participant-3']]
+      );
+    });
+
+    it('should reject a participant in two rooms', async () => {
+      await expect(
+        service.assignBreakoutRooms('room-123', [
+          { breakoutRoomId: 'breakout-1', participantId: 'participant-1' },
+          { breakoutRoomId: 'breakout-2', participantId: 'participant-1' },
+        ])
+      ).rejects.toThrow('Each participant can only be in one breakout room');
+    });
+
+    it('should move participants in one transaction', async () => {
+      mockClientQueries(
+        { rows: mockBreakoutRooms },
+        { rows: [] },
+        { rows: [{ id: 'participant-1' }] },
+        { rows: [] },
+        {
+          rows: [
+            {
+              id: 'assignment-1',
+              breakout_room_id: 'breakout-2',
+              participant_id: 'participant-1',
+            },
+          ],
+        }
+      );
+
+      await service.assignBreakoutRooms('room-123', [
+        { breakoutRoomId: 'breakout-2', participantId: 'participant-1' },
+      ]);
+
+      const queries = mockClient.query.mock.calls.map(([query]) => query);
+      expect(queries[0]).toBe('BEGIN');
+      expect(queries[4]).toContain('UPDATE breakout_room_assignments');
+      expect(queries[5]).toContain('INSERT INTO breakout_room_assignments');
+      expect(queries[6]).toBe('COMMIT');
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+
+    it('should spread participants evenly when auto assigning', async () => {
+      const participantIds = [
+        'participant-1',
+        'participant-2',
+        'participant-3',
+      ];
+
+      mockPool.query
+        .mockResolvedValueOnce({ rows: mockBreakoutRooms } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+      mockClientQueries(
+        { rows: mockBreakoutRooms },
+        { rows: [] },
+        { rows: participantIds.map(id => ({ id })) },
+        { rows: [] },
+        (_query: string, params: string[]) => ({
+          rows: participantIds.map((_, i) => ({
+            id: `assignment-${i}`,
+            breakout_room_id: params[i * 2],
+            participant_id: params[i * 2 + 1],
+          })),
+        })
+      );
+
+      const result = await service.autoAssignBreakoutRooms(
+        'room-123',
+        participantIds
+      );
+
+      const perRoom = result.reduce<Record<string, number>>(
+        (counts, assignment) => ({
+          ...counts,
+          [assignment.breakoutRoomId]:
+            (counts[assignment.breakoutRoomId] || 0) + 1,
+        }),
+        {}
+      );
+      expect(Object.values(perRoom).sort()).toEqual([1, 2]);
+      expect(result.map(a => a.participantId).sort()).toEqual(participantIds);
+    });
+
+    it('should leave seats taken when auto assigning', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: mockBreakoutRooms } as any)
+        .mockResolvedValueOnce({
+          rows: [{ breakout_room_id: 'breakout-1', count: 2 }],
+        } as any);
+      mockClientQueries(
+        { rows: mockBreakoutRooms },
+        { rows: [{ breakout_room_id: 'breakout-1', count: 2 }] },
+        { rows: [{ id: 'participant-3' }] },
+        { rows: [] },
+        (_query: string, params: string[]) => ({
+          rows: [
+            {
+              id: 'assignment-1',
+              breakout_room_id: params[0],
+              participant_id: params[1],
+            },
+          ],
+        })
+      );
+
+      const result = await service.autoAssignBreakoutRooms('room-123', [
+        'participant-3',
+      ]);
+
+      expect(result.map(a => a.breakoutRoomId)).toEqual(['breakout-2']);
+    });
+  });
+
   describe('bandwidth measurement', () => {
     it('should save bandwidth measurement', async () => {
       mockPool.query.mockResolvedValueOnce({ rows: [] } as any);
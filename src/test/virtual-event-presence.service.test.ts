@@ -0,0 +1,347 @@
+/**
+ * Unit tests for live presence in virtual event spaces: the delta wire
+ * format, zones, interest management and position snapshots
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { Server as SocketIOServer } from 'socket.io';
+import type { Socket as ClientSocket } from 'socket.io-client';
+import { io as connect } from 'socket.io-client';
+import { VirtualEventPresenceService } from '../lib/services/virtual-event-presence.service';
+import {
+  applyPresenceUpdate,
+  diffAvatar,
+  findZone,
+  quantizePosition,
+  toRemoteAvatar,
+} from '../lib/virtual-presence';
+import type {
+  PresenceAvatar,
+  PresenceUpdate,
+  SpaceZone,
+} from '../types/virtual-events';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    virtualEventSession: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+
+jest.mock('../lib/services/auth.service', () => ({
+  authService: {
+    verifyAccessToken: jest.fn((token: string) => {
+      if (!token.startsWith('token-')) throw new Error('invalid signature');
+      return { id: token.slice('token-'.length), email: 'user@example.com' };
+    }),
+  },
+}));
+
+// Every PrismaClient instance shares the mocked client above
+const mockPrisma = new PrismaClient() as any;
+
+const ALICE = '11111111-1111-4111-8111-111111111111';
+const BOB = '22222222-2222-4222-8222-222222222222';
+const CAROL = '33333333-3333-4333-8333-333333333333';
+
+const ZONES: SpaceZone[] = [
+  {
+    id: 'booth-a',
+    name: 'Acme',
+    type: 'booth',
+    bounds: { minX: 0, minZ: 0, maxX: 10, maxZ: 10 },
+  },
+  {
+    id: 'booth-b',
+    name: 'Globex',
+    type: 'booth',
+    bounds: { minX: 20, minZ: 0, maxX: 30, maxZ: 10 },
+  },
+];
+
+const SPACE = {
+  id: 'space-1',
+  isActive: true,
+  sceneConfig: {
+    floor: { color: '#ccc', size: { width: 100, depth: 100 } },
+    zones: ZONES,
+  },
+};
+
+const SESSIONS: Record<string, any> = {
+  'session-alice': { userId: ALICE, position: { x: 1, y: 0, z: 1 } },
+  'session-bob': { userId: BOB, position: { x: 2, y: 0, z: 2 } },
+  'session-carol': { userId: CAROL, position: { x: 25, y: 0, z: 5 } },
+};
+
+const wait = (ms = 50) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('presence wire format', () => {
+  const avatar: PresenceAvatar = {
+    id: 'session-alice',
+    userId: ALICE,
+    p: quantizePosition({ x: 1.234, y: 0, z: -2.5 }),
+    r: [0, 157, 0],
+  };
+
+  it('quantizes positions to centimetres', () => {
+    expect(avatar.p).toEqual([123, 0, -250]);
+  });
+
+  it('sends only what changed', () => {
+    const moved = { ...avatar, p: [150, 0, -250] as [number, number, number] };
+
+    expect(diffAvatar(avatar, moved)).toEqual({
+      id: 'session-alice',
+      p: [27, 0, 0],
+    });
+    expect(diffAvatar(avatar, { ...avatar })).toBeNull();
+    expect(diffAvatar(avatar, { ...avatar, a: 'wave' })).toEqual({
+      id: 'session-alice',
+      a: 'wave',
+    });
+  });
+
+  it('rebuilds avatars from updates', () => {
+    let avatars = applyPresenceUpdate(new Map(), {
+      enter: [avatar],
+      move: [],
+      leave: [],
+    });
+    avatars = applyPresenceUpdate(avatars, {
+      enter: [],
+      move: [{ id: 'session-alice', p: [27, 0, 0] }],
+      leave: [],
+    });
+
+    expect(toRemoteAvatar(avatars.get('session-alice')!).position).toEqual({
+      x: 1.5,
+      y: 0,
+      z: -2.5,
+    });
+
+    avatars = applyPresenceUpdate(avatars, {
+      enter: [],
+      move: [],
+      leave: ['session-alice'],
+    });
+    expect(avatars.size).toBe(0);
+  });
+
+  it('finds the zone a position is in', () => {
+    expect(findZone(ZONES, { x: 5, y: 0, z: 5 })?.id).toBe('booth-a');
+    expect(findZone(ZONES, { x: 15, y: 0, z: 5 })).toBeNull();
+  });
+});
+
+describe('VirtualEventPresenceService', () => {
+  let io: SocketIOServer;
+  let url: string;
+  let presence: VirtualEventPresenceService;
+  const clients: ClientSocket[] = [];
+
+  const connectAs = (token: string): Promise<ClientSocket> =>
+    new Promise((resolve, reject) => {
+      const client = connect(`${url}/virtual-events`, {
+        auth: { token },
+        transports: ['websocket'],
+        reconnection: false,
+      });
+      clients.push(client);
+      client.on('connect', () => resolve(client));
+      client.on('connect_error', reject);
+    });
+
+  const joinAs = async (userId: string, sessionId: string) => {
+    const client = await connectAs(`token-${userId}`);
+    const response = await client.emitWithAck('join-space', { sessionId });
+    expect(response.success).toBe(true);
+    return client;
+  };
+
+  const nextUpdate = (client: ClientSocket) =>
+    new Promise<PresenceUpdate>(resolve => client.once('presence', resolve));
+
+  beforeAll(done => {
+    const httpServer = createServer();
+    io = new SocketIOServer(httpServer);
+    // Ticks and snapshots are run by hand
+    presence = new VirtualEventPresenceService({
+      tickMs: 60 * 60 * 1000,
+      snapshotMs: 60 * 60 * 1000,
+    });
+    presence.attach(io);
+    httpServer.listen(0, () => {
+      url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach(client => client.disconnect());
+    await wait();
+  });
+
+  afterAll(async () => {
+    await presence.close();
+    await new Promise(resolve => io.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.virtualEventSession.findUnique.mockImplementation(
+      async ({ where }: any) =>
+        SESSIONS[where.id] && {
+          id: where.id,
+          spaceId: SPACE.id,
+          isActive: true,
+          rotation: { x: 0, y: 0, z: 0 },
+          space: SPACE,
+          ...SESSIONS[where.id],
+        }
+    );
+    mockPrisma.virtualEventSession.update.mockResolvedValue({});
+    mockPrisma.virtualEventSession.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('refuses connections without a valid token', async () => {
+    await expect(connectAs('forged')).rejects.toThrow('Unauthorized');
+  });
+
+  it("refuses to join someone else's session", async () => {
+    const bob = await connectAs(`token-${BOB}`);
+
+    const response = await bob.emitWithAck('join-space', {
+      sessionId: 'session-alice',
+    });
+
+    expect(response).toEqual({ success: false, error: 'Session not found' });
+  });
+
+  it('sends nearby avatars in the same zone, then only their changes', async () => {
+    const alice = await joinAs(ALICE, 'session-alice');
+    const bob = await joinAs(BOB, 'session-bob');
+    await joinAs(CAROL, 'session-carol');
+
+    let update = nextUpdate(alice);
+    presence.tick();
+    expect(await update).toEqual({
+      zoneId: 'booth-a',
+      enter: [
+        { id: 'session-bob', userId: BOB, p: [200, 0, 200], r: [0, 0, 0] },
+      ],
+      move: [],
+      leave: [],
+    });
+
+    bob.emit('move', {
+      position: { x: 2.5, y: 0, z: 2 },
+      rotation: { x: 0, y: 1.57, z: 0 },
+    });
+    await wait();
+
+    update = nextUpdate(alice);
+    presence.tick();
+    expect(await update).toEqual({
+      enter: [],
+      move: [{ id: 'session-bob', p: [50, 0, 0], r: [0, 157, 0] }],
+      leave: [],
+    });
+  });
+
+  it('removes avatars that walk into another zone', async () => {
+    const alice = await joinAs(ALICE, 'session-alice');
+    const bob = await joinAs(BOB, 'session-bob');
+    presence.tick();
+    await wait();
+
+    bob.emit('move', {
+      position: { x: 22, y: 0, z: 2 },
+      rotation: { x: 0, y: 0, z: 0 },
+    });
+    await wait();
+
+    const update = nextUpdate(alice);
+    presence.tick();
+    expect((await update).leave).toEqual(['session-bob']);
+  });
+
+  it('tells others when someone leaves', async () => {
+    const alice = await joinAs(ALICE, 'session-alice');
+    const bob = await joinAs(BOB, 'session-bob');
+    presence.tick();
+    await wait();
+
+    await bob.emitWithAck('leave-space');
+
+    const update = nextUpdate(alice);
+    presence.tick();
+    expect((await update).leave).toEqual(['session-bob']);
+    expect(presence.getAvatars(SPACE.id).map(a => a.userId)).toEqual([ALICE]);
+  });
+
+  it('keeps positions on the floor and saves them in snapshots', async () => {
+    const alice = await joinAs(ALICE, 'session-alice');
+    await joinAs(BOB, 'session-bob');
+
+    alice.emit('move', {
+      position: { x: 500, y: 0, z: 3 },
+      rotation: { x: 0, y: 0, z: 0 },
+    });
+    await wait();
+
+    expect(await presence.snapshot()).toBe(1);
+    expect(mockPrisma.virtualEventSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 'session-alice' },
+      data: {
+        position: { x: 50, y: 0, z: 3 },
+        rotation: { x: 0, y: 0, z: 0 },
+      },
+    });
+
+    // Nothing moved since
+    expect(await presence.snapshot()).toBe(0);
+  });
+
+  it('saves the other positions when a session was deleted', async () => {
+    const alice = await joinAs(ALICE, 'session-alice');
+    const bob = await joinAs(BOB, 'session-bob');
+
+    mockPrisma.virtualEventSession.updateMany.mockImplementation(
+      async ({ where }: { where: { id: string } }) => ({
+        count: where.id === 'session-alice' ? 0 : 1,
+      })
+    );
+
+    alice.emit('move', {
+      position: { x: 1, y: 0, z: 1 },
+      rotation: { x: 0, y: 0, z: 0 },
+    });
+    bob.emit('move', {
+      position: { x: 2, y: 0, z: 2 },
+      rotation: { x: 0, y: 0, z: 0 },
+    });
+    await wait();
+
+    expect(await presence.snapshot()).toBe(1);
+    expect(mockPrisma.virtualEventSession.updateMany).toHaveBeenCalledTimes(2);
+
+    // The deleted session is not retried
+    expect(await presence.snapshot()).toBe(0);
+  });
+
+  it('ignores malformed moves', async () => {
+    const alice = await joinAs(ALICE, 'session-alice');
+
+    alice.emit('move', { position: { x: 'far' }, rotation: null });
+    await wait();
+
+    expect(await presence.snapshot()).toBe(0);
+  });
+});
@@ -0,0 +1,435 @@
+/**
+ * Unit tests for the domain event bus, webhook fan-out, delivery and
+ * signatures
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { DomainEventBus, eventBus } from '../lib/events/event-bus';
+import type { JobContext } from '../lib/services/job-queue.service';
+import { jobQueue } from '../lib/services/job-queue.service';
+import { notificationService } from '../lib/services/notification.service';
+import { webhookService } from '../lib/services/webhook.service';
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../lib/webhook-signature';
+
+jest.mock('@prisma/client', () => {
+  const client = {
+    webhook: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    webhookDelivery: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+  return { PrismaClient: jest.fn(() => client) };
+});
+jest.mock('../lib/services/notification.service', () => ({
+  notificationService: { sendNotification: jest.fn() },
+}));
+jest.mock('../lib/jobs/postgres-job-store', () => ({
+  PostgresJobStore: jest.fn(),
+}));
+
+// Every PrismaClient instance shares the mocked client above
+const mockPrisma = new PrismaClient() as any;
+const mockSendNotification = notificationService.sendNotification as jest.Mock;
+
+describe('DomainEventBus', () => {
+  it('runs handlers after emit returns', async () => {
+    const bus = new DomainEventBus();
+    const handler = jest.fn();
+    bus.on('favorite.added', handler);
+
+    const event = bus.emit(
+      'favorite.added',
+      { userId: 'user-1', opportunityId: 'opp-1' },
+      { audience: ['user-1', 'user-1'] }
+    );
+
+    expect(handler).not.toHaveBeenCalled();
+    await bus.drain();
+
+    expect(handler).toHaveBeenCalledWith(event);
+    expect(event.audience).toEqual(['user-1']);
+  });
+
+  it('keeps running other handlers when one fails', async () => {
+    const bus = new DomainEventBus();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation();
+    const handler = jest.fn();
+    bus.on('favorite.added', () => {
+      throw new Error('boom');
+    });
+    bus.onAny(handler);
+
+    bus.emit('favorite.added', { userId: 'user-1', opportunityId: 'opp-1' });
+    await bus.drain();
+
+    expect(handler).toHaveBeenCalled();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('stops calling a handler once unsubscribed', async () => {
+    const bus = new DomainEventBus();
+    const handler = jest.fn();
+    const off = bus.on('favorite.added', handler);
+
+    off();
+    bus.emit('favorite.added', { userId: 'user-1', opportunityId: 'opp-1' });
+    await bus.drain();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('WebhookService event dispatch', () => {
+  const opportunity = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    title: 'AI Hackathon 2024',
+    type: 'hackathon',
+    organizerName: 'TechCorp',
+    applicationDeadline: '2024-02-01T23:59:59.000Z',
+    externalUrl: 'https://techcorp.example.com/hackathon',
+  };
+
+  let enqueue: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    enqueue = jest.spyOn(jobQueue, 'enqueue').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    enqueue.mockRestore();
+  });
+
+  it('queues a dispatch job for every emitted event', async () => {
+    const event = eventBus.emit('opportunity.created', opportunity);
+    await eventBus.drain();
+
+    expect(enqueue).toHaveBeenCalledWith('webhooks.dispatch', event, {
+      dedupeKey: `webhooks.dispatch:${event.id}`,
+      subject: 'opportunity.created',
+    });
+  });
+
+  it('records and queues one delivery per subscribed webhook', async () => {
+    mockPrisma.webhook.findMany.mockResolvedValue([
+      { id: 'webhook-1', retryCount: 3 },
+      { id: 'webhook-2', retryCount: 0 },
+    ]);
+    mockPrisma.webhookDelivery.findFirst.mockResolvedValue(null);
+    mockPrisma.webhookDelivery.create.mockResolvedValue({ id: 'delivery-2' });
+
+    const event = new DomainEventBus().emit('opportunity.created', opportunity);
+    const result = await webhookService.dispatchEvent(event);
+
+    expect(result.queued).toBe(2);
+    expect(mockPrisma.webhook.findMany.mock.calls[0][0].where).toEqual({
+      isActive: true,
+      events: { has: 'opportunity.created' },
+    });
+    expect(mockPrisma.webhookDelivery.create.mock.calls[1][0].data).toEqual({
+      webhookId: 'webhook-2',
+      eventId: event.id,
+      eventType: 'opportunity.created',
+      payload: {
+        id: event.id,
+        event: 'opportunity.created',
+        timestamp: event.occurredAt,
+        data: opportunity,
+      },
+      attemptCount: 0,
+    });
+    expect(enqueue).toHaveBeenCalledWith(
+      'webhooks.deliver',
+      { deliveryId: 'delivery-2' },
+      expect.objectContaining({ subject: 'webhook-1', maxAttempts: 4 })
+    );
+    expect(enqueue).toHaveBeenCalledWith(
+      'webhooks.deliver',
+      { deliveryId: 'delivery-2' },
+      {
+        dedupeKey: 'webhooks.deliver:delivery-2',
+        subject: 'webhook-2',
+        maxAttempts: 1,
+      }
+    );
+  });
+
+  it('does not queue an event twice when the dispatch is retried', async () => {
+    mockPrisma.webhook.findMany.mockResolvedValue([
+      { id: 'webhook-1', retryCount: 3 },
+    ]);
+    mockPrisma.webhookDelivery.findFirst.mockResolvedValue({
+      id: 'delivery-1',
+    });
+
+    const event = new DomainEventBus().emit('opportunity.created', opportunity);
+    const result = await webhookService.dispatchEvent(event);
+
+    expect(result.queued).toBe(0);
+    expect(mockPrisma.webhookDelivery.create).not.toHaveBeenCalled();
+  });
+
+  it('limits user events to webhooks owned by the audience', async () => {
+    mockPrisma.webhook.findMany.mockResolvedValue([]);
+
+    const event = new DomainEventBus().emit(
+      'favorite.added',
+      { userId: 'user-1', opportunityId: opportunity.id },
+      { audience: ['user-1'] }
+    );
+    await webhookService.dispatchEvent(event);
+
+    expect(mockPrisma.webhook.findMany.mock.calls[0][0].where).toEqual({
+      isActive: true,
+      events: { has: 'favorite.added' },
+      userId: { in: ['user-1'] },
+    });
+  });
+
+  it('skips user events without an audience', async () => {
+    const event = new DomainEventBus().emit('favorite.added', {
+      userId: 'user-1',
+      opportunityId: opportunity.id,
+    });
+    const result = await webhookService.dispatchEvent(event);
+
+    expect(result.queued).toBe(0);
+    expect(mockPrisma.webhook.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('WebhookService delivery', () => {
+  const webhook = {
+    id: 'webhook-1',
+    userId: 'user-1',
+    url: 'https://example.com/hooks',
+    secret: 'whsec_test',
+    timeoutMs: 5000,
+    retryCount: 3,
+    isActive: true,
+  };
+  const payload = {
+    id: 'event-1',
+    event: 'favorite.added',
+    timestamp: '2025-03-01T00:00:00.000Z',
+    data: { userId: 'user-1', opportunityId: 'opp-1' },
+  };
+  const job = (attempts: number) =>
+    ({
+      payload: { deliveryId: 'delivery-1' },
+      attempts,
+      maxAttempts: 3,
+    }) as any;
+  const context = (attempt: number) => ({ attempt }) as JobContext;
+  const deliver = (attempt: number) =>
+    (webhookService as any).deliverWebhook(job(attempt), context(attempt));
+
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+  let enqueue: jest.SpyInstance;
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    enqueue = jest.spyOn(jobQueue, 'enqueue').mockResolvedValue(null);
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue({
+      id: 'delivery-1',
+      payload,
+      deliveredAt: null,
+      webhook,
+    });
+  });
+
+  afterEach(() => {
+    enqueue.mockRestore();
+  });
+
+  it('signs the body with a timestamp the receiver can verify', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: async () => 'OK',
+    });
+
+    await deliver(1);
+
+    const [, request] = fetchMock.mock.calls[0];
+    expect(request.headers['X-Webhook-Delivery-ID']).toBe('delivery-1');
+    expect(
+      verifyWebhookSignature(
+        request.body,
+        request.headers['X-Webhook-Signature'],
+        webhook.secret
+      ).valid
+    ).toBe(true);
+    expect(mockPrisma.webhook.update).toHaveBeenCalledWith({
+      where: { id: webhook.id },
+      data: { lastTriggeredAt: expect.any(Date), consecutiveFailures: 0 },
+    });
+  });
+
+  it('throws on a failed attempt so the queue retries it', async () => {
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 503,
+      text: async () => 'Unavailable',
+    });
+
+    await expect(deliver(1)).rejects.toThrow('HTTP 503: Unavailable');
+
+    expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'delivery-1' },
+      data: expect.objectContaining({
+        responseStatus: 503,
+        attemptCount: { increment: 1 },
+        deliveredAt: null,
+      }),
+    });
+    expect(mockPrisma.webhook.update).not.toHaveBeenCalled();
+  });
+
+  it('keeps at most 2000 characters of the response body', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: async () => 'x'.repeat(5000),
+    });
+
+    await deliver(1);
+
+    const { data } = mockPrisma.webhookDelivery.update.mock.calls[0][0];
+    expect(data.responseBody).toHaveLength(2000);
+  });
+
+  it('clears the timeout when the request fails', async () => {
+    const set = jest.spyOn(global, 'setTimeout');
+    const clear = jest.spyOn(global, 'clearTimeout');
+    fetchMock.mockRejectedValue(new Error('ECONNRESET'));
+
+    await expect(deliver(1)).rejects.toThrow('ECONNRESET');
+
+    expect(clear).toHaveBeenCalledWith(set.mock.results[0].value);
+    set.mockRestore();
+    clear.mockRestore();
+  });
+
+  it('disables the webhook and notifies its owner after repeated failures', async () => {
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+    mockPrisma.webhook.update.mockResolvedValue({ consecutiveFailures: 10 });
+    mockPrisma.webhook.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(deliver(3)).rejects.toThrow('ECONNREFUSED');
+
+    expect(mockPrisma.webhook.updateMany).toHaveBeenCalledWith({
+      where: { id: webhook.id, isActive: true },
+      data: expect.objectContaining({ isActive: false }),
+    });
+    expect(mockSendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', type: 'system' })
+    );
+  });
+
+  it('replays each event since the timestamp once', async () => {
+    mockPrisma.webhook.findFirst.mockResolvedValue(webhook);
+    mockPrisma.webhookDelivery.findMany.mockResolvedValue([
+      { id: 'delivery-1', payload, deliveredAt: null },
+      { id: 'delivery-2', payload, deliveredAt: new Date() },
+      {
+        id: 'delivery-3',
+        payload: { ...payload, id: 'event-2' },
+        deliveredAt: null,
+      },
+    ]);
+    mockPrisma.webhookDelivery.create.mockResolvedValue({ id: 'delivery-4' });
+
+    const all = await webhookService.replayDeliveries(
+      'user-1',
+      webhook.id,
+      new Date('2025-03-01T00:00:00Z')
+    );
+    const failed = await webhookService.replayDeliveries(
+      'user-1',
+      webhook.id,
+      new Date('2025-03-01T00:00:00Z'),
+      { failedOnly: true }
+    );
+
+    expect(all.queued).toBe(2);
+    expect(failed.queued).toBe(1);
+    expect(
+      mockPrisma.webhookDelivery.create.mock.calls[2][0].data.eventId
+    ).toBe('event-2');
+  });
+
+  it('refuses to redeliver to a disabled webhook', async () => {
+    mockPrisma.webhook.findFirst.mockResolvedValue({
+      ...webhook,
+      isActive: false,
+    });
+
+    await expect(
+      webhookService.redeliver('user-1', webhook.id, 'delivery-1')
+    ).rejects.toThrow('Webhook is disabled');
+  });
+});
+
+describe('webhook signatures', () => {
+  const body = JSON.stringify({ id: 'event-1', event: 'favorite.added' });
+  const secret = 'whsec_test';
+  const signedAt = 1740787200; // 2025-03-01T00:00:00Z
+  const now = new Date(signedAt * 1000);
+
+  it('accepts a signature within the tolerance window', () => {
+    const header = signWebhookPayload(body, secret, signedAt);
+
+    expect(header).toMatch(/^t=1740787200,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(body, header, secret, { now })).toEqual({
+      valid: true,
+      timestamp: signedAt,
+    });
+  });
+
+  it('rejects a replayed delivery outside the tolerance window', () => {
+    const header = signWebhookPayload(body, secret, signedAt);
+
+    expect(
+      verifyWebhookSignature(body, header, secret, {
+        now: new Date((signedAt + 301) * 1000),
+      })
+    ).toEqual({ valid: false, reason: 'timestamp_out_of_tolerance' });
+  });
+
+  it('rejects a tampered body, a wrong secret and a malformed header', () => {
+    const header = signWebhookPayload(body, secret, signedAt);
+
+    expect(
+      verifyWebhookSignature(`${body} `, header, secret, { now }).valid
+    ).toBe(false);
+    expect(verifyWebhookSignature(body, header, 'other', { now }).valid).toBe(
+      false
+    );
+    expect(verifyWebhookSignature(body, 'v1=abc', secret, { now })).toEqual({
+      valid: false,
+      reason: 'malformed_header',
+    });
+  });
+});
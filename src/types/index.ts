@@ -34,6 +34,8 @@ export interface Opportunity {
   createdAt: Date;
   updatedAt: Date;
   isActive: boolean;
+  distanceKm?: number; // Set on search results when a search area is known
+  language?: string; // Set when the title and description are translated
 }
 
 export interface UserProfile {
@@ -91,11 +93,35 @@ export interface SearchFilters {
   mode?: 'online' | 'offline' | 'hybrid';
   location?: string;
   type?: 'hackathon' | 'internship' | 'workshop';
-}
+  deadlineAfter?: Date;
+  deadlineBefore?: Date;
+  startsAfter?: Date;
+  startsBefore?: Date;
+  endsAfter?: Date;
+  endsBefore?: Date;
+  postedAfter?: Date;
+  stipendMin?: number; // monthly, in the listing currency
+  stipendMax?: number;
+  prizePoolMin?: number;
+  prizePoolMax?: number;
+  durationMinDays?: number;
+  durationMaxDays?: number;
+  nearCity?: string; // Defaults to the signed-in user's city
+  maxDistance?: number; // km, defaults to the user's maxDistance preference
+}
+
+export type SearchSort =
+  | 'relevance'
+  | 'deadline'
+  | 'newest'
+  | 'stipend'
+  | 'quality'
+  | 'distance';
 
 export interface SearchRequest {
   query: string;
   filters?: SearchFilters;
+  sort?: SearchSort;
   pagination?: {
     page: number;
     limit: number;
@@ -108,6 +134,11 @@ export interface SearchResponse {
   totalCount: number;
   suggestions?: string[];
   facets?: SearchFacets;
+  searchArea?: {
+    city: string;
+    radiusKm?: number;
+  };
+  queryLanguage?: string; // Language the query was matched in
 }
 
 export interface SearchFacets {
@@ -166,6 +197,7 @@ export interface RoadmapRequest {
   userProfile: UserProfile;
   targetDate?: Date;
   customGoals?: string[];
+  resumeSkills?: string[]; // Skills found by resume analysis
 }
 
 export interface RoadmapResponse {
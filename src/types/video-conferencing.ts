@@ -4,7 +4,13 @@ export type RoomType = 'one_on_one' | 'group' | 'presentation' | 'interview';
 export type RoomStatus = 'scheduled' | 'active' | 'ended' | 'cancelled';
 export type ParticipantRole = 'host' | 'co_host' | 'participant' | 'observer';
 export type ConnectionQuality = 'excellent' | 'good' | 'fair' | 'poor';
-export type RecordingStatus = 'processing' | 'ready' | 'failed' | 'deleted';
+export type RecordingStatus =
+  | 'recording'
+  | 'processing'
+  | 'ready'
+  | 'failed'
+  | 'deleted';
+export type TranscriptStatus = 'processing' | 'ready' | 'failed';
 export type MessageType = 'text' | 'file' | 'poll' | 'reaction';
 export type BackgroundType = 'image' | 'blur' | 'none';
 export type VideoQuality = 'low' | 'medium' | 'high' | 'hd';
@@ -26,6 +32,7 @@ export interface VideoCallRoom {
   endedAt?: Date;
   status: RoomStatus;
   settings: RoomSettings;
+  mentorshipSessionId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -70,6 +77,9 @@ export interface VideoCallRecording {
   durationSeconds?: number;
   format: string;
   status: RecordingStatus;
+  startedBy?: string;
+  language: string;
+  errorMessage?: string;
   startedAt: Date;
   endedAt?: Date;
   isPublic: boolean;
@@ -79,6 +89,37 @@ export interface VideoCallRecording {
   updatedAt: Date;
 }
 
+export interface VideoCallTranscriptSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+  confidence?: number;
+}
+
+export interface VideoCallTranscript {
+  id: string;
+  recordingId: string;
+  status: TranscriptStatus;
+  language: string;
+  provider?: string;
+  text?: string;
+  confidence?: number;
+  errorMessage?: string;
+  segments: VideoCallTranscriptSegment[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TranscriptSearchResult {
+  recordingId: string;
+  roomId: string;
+  roomName: string;
+  recordedAt: Date;
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
 export interface VideoCallMessage {
   id: string;
   roomId: string;
@@ -138,6 +179,22 @@ export interface VideoCallPollResponse {
   createdAt: Date;
 }
 
+export interface PollVoter {
+  participantId: string;
+  displayName: string;
+}
+
+export interface PollResults {
+  pollId: string;
+  question: string;
+  isAnonymous: boolean;
+  isActive: boolean;
+  totalVotes: number;
+  options: PollOption[];
+  // Who picked each option, by option ID; left out of anonymous polls
+  voters?: Record<string, PollVoter[]>;
+}
+
 export interface VideoCallAnalytics {
   id: string;
   roomId: string;
@@ -255,12 +312,11 @@ export type SignalingMessageType =
   | 'mute'
   | 'breakout-room';
 
+// Sent over the signaling socket after joining the room through the API,
+// which creates the participant
 export interface JoinRoomMessage {
   roomCode: string;
-  displayName: string;
-  userId?: string;
-  password?: string;
-  mediaConstraints: MediaConstraints;
+  participantId: string;
 }
 
 export interface MediaStateMessage {
@@ -292,6 +348,7 @@ export interface CreateRoomRequest {
   scheduledAt?: Date;
   settings?: Partial<RoomSettings>;
   password?: string;
+  mentorshipSessionId?: string;
 }
 
 export interface CreateRoomResponse {
@@ -335,9 +392,16 @@ export interface CreateBreakoutRoomsRequest {
   durationMinutes?: number;
 }
 
+export interface BreakoutAssignmentRequest {
+  breakoutRoomId: string;
+  participantId: string;
+}
+
 export interface StartRecordingRequest {
   format?: string;
   quality?: VideoQuality;
+  // Spoken language, for the transcript
+  language?: string;
 }
 
 export interface BandwidthTestResult {
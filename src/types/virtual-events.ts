@@ -19,6 +19,16 @@ export interface Transform {
   scale?: Vector3;
 }
 
+// An area of the floor, such as a booth or a stage. Avatars only see and
+// hear people in the same zone.
+export interface SpaceZone {
+  id: string;
+  name: string;
+  type: 'booth' | 'stage' | 'lounge' | 'hall';
+  boothId?: string;
+  bounds: { minX: number; minZ: number; maxX: number; maxZ: number };
+}
+
 export interface SceneConfig {
   environment: 'indoor' | 'outdoor' | 'custom';
   lighting: {
@@ -48,6 +58,7 @@ export interface SceneConfig {
     };
     transform: Transform;
   }>;
+  zones?: SpaceZone[];
 }
 
 export interface VirtualEventSpace {
@@ -133,6 +144,8 @@ export interface VirtualBooth {
   id: string;
   spaceId: string;
   companyName: string;
+  // Who runs the booth and may broadcast from it
+  ownerId?: string;
   boothConfig: BoothConfig;
   position: Vector3;
   isActive: boolean;
@@ -279,6 +292,64 @@ export interface ChatMessage extends NetworkMessage {
   };
 }
 
+// Live presence. Positions are sent in centimetres and rotations in
+// hundredths of a radian, as integers.
+export type QuantizedVector = [number, number, number];
+
+export interface PresenceAvatar {
+  id: string; // session ID
+  userId: string;
+  p: QuantizedVector;
+  r: QuantizedVector;
+  a?: string; // animation
+}
+
+// Changes since the avatar was last sent; unchanged fields are left out
+export interface PresenceDelta {
+  id: string;
+  p?: QuantizedVector;
+  r?: QuantizedVector;
+  a?: string;
+}
+
+export interface PresenceUpdate {
+  zoneId?: string | null; // only sent when the receiver changes zone
+  enter: PresenceAvatar[];
+  move: PresenceDelta[];
+  leave: string[];
+}
+
+export interface RemoteAvatar {
+  sessionId: string;
+  userId: string;
+  position: Vector3;
+  rotation: Vector3;
+  animation?: string;
+}
+
+// Spatial audio. Each link is one peer the receiver is connected to, with
+// how loud it should play that peer (0 to 1) and where (-1 left to 1 right).
+export interface AudioLink {
+  sessionId: string;
+  userId: string;
+  gain: number;
+  pan: number;
+  kind: 'proximity' | 'broadcast';
+  initiator: boolean; // whether the receiver sends the offer
+}
+
+export interface AudioPeersUpdate {
+  connect: AudioLink[];
+  update: AudioLink[];
+  disconnect: string[];
+  groupId?: string | null; // only sent when the receiver's group changes
+}
+
+export interface AudioSignal {
+  type: 'offer' | 'answer' | 'ice-candidate';
+  data: any;
+}
+
 // Performance Optimization
 export interface PerformanceSettings {
   renderDistance: number;